@@ -24,6 +24,54 @@ export interface EnvironmentConfig {
   // Monitoring
   ENABLE_CLOUD_LOGGING: boolean;
   LOG_LEVEL: 'error' | 'warn' | 'info' | 'debug';
+
+  // Telemetry
+  TELEMETRY_STORE_PATH: string;
+
+  // API key store
+  API_KEY_STORE_PATH: string;
+
+  // Usage ledger (subscription tiers are stored alongside it)
+  USAGE_LEDGER_PATH: string;
+
+  // Model router
+  MODEL_FALLBACK_PROVIDERS: string[];
+  MODEL_ROUTING_RULES_PATH?: string;
+
+  // Shunt response cache
+  RESPONSE_CACHE_MAX_ENTRIES: number;
+  RESPONSE_CACHE_TTL_MS: number;
+  RESPONSE_CACHE_SIMILARITY_THRESHOLD: number;
+
+  // Test sandbox
+  SANDBOX_TEST_TIMEOUT_MS: number;
+  SANDBOX_RUN_TIMEOUT_MS: number;
+  SANDBOX_MEMORY_MB: number;
+  SANDBOX_MAX_CONCURRENT: number;
+
+  // Chat sessions
+  CHAT_SESSION_TTL_MS: number;
+  CHAT_MAX_SESSIONS_PER_USER: number;
+  CHAT_MAX_HISTORY_TOKENS: number;
+  CHAT_KEEP_RECENT_MESSAGES: number;
+
+  // Background jobs (artifacts are stored in an artifacts/ directory beside the job store)
+  JOB_STORE_PATH: string;
+  JOB_MAX_CONCURRENT: number;
+  JOB_MAX_QUEUED_PER_USER: number;
+  JOB_MAX_STORED: number;
+  JOB_MAX_LOG_ENTRIES: number;
+
+  // Governance decisions (rules file, decision audit log, per-session event window)
+  GOVERNANCE_RULES_PATH?: string;
+  GOVERNANCE_AUDIT_PATH: string;
+  GOVERNANCE_MAX_EVENTS_PER_SESSION: number;
+  GOVERNANCE_SESSION_IDLE_MS: number;
+
+  // MCP servers (JSON list of server configs; the bundled sample server is added unless disabled)
+  MCP_SERVERS_PATH?: string;
+  MCP_ENABLE_SAMPLE_SERVER: boolean;
+  MCP_REQUEST_TIMEOUT_MS: number;
 }
 
 function loadEnvironment(): EnvironmentConfig {
@@ -44,6 +92,44 @@ function loadEnvironment(): EnvironmentConfig {
 
     ENABLE_CLOUD_LOGGING: process.env.ENABLE_CLOUD_LOGGING === 'true',
     LOG_LEVEL: (process.env.LOG_LEVEL as any) || 'info',
+
+    TELEMETRY_STORE_PATH: process.env.TELEMETRY_STORE_PATH || './data/telemetry/events.jsonl',
+
+    API_KEY_STORE_PATH: process.env.API_KEY_STORE_PATH || './data/api-keys.json',
+
+    USAGE_LEDGER_PATH: process.env.USAGE_LEDGER_PATH || './data/usage/ledger.jsonl',
+
+    MODEL_FALLBACK_PROVIDERS: (process.env.MODEL_FALLBACK_PROVIDERS ?? 'lmstudio,ollama').split(',').map((p) => p.trim()).filter(Boolean),
+    MODEL_ROUTING_RULES_PATH: process.env.MODEL_ROUTING_RULES_PATH,
+
+    RESPONSE_CACHE_MAX_ENTRIES: parseInt(process.env.RESPONSE_CACHE_MAX_ENTRIES || '500', 10),
+    RESPONSE_CACHE_TTL_MS: parseInt(process.env.RESPONSE_CACHE_TTL_MS || '3600000', 10), // 1 hour
+    RESPONSE_CACHE_SIMILARITY_THRESHOLD: parseFloat(process.env.RESPONSE_CACHE_SIMILARITY_THRESHOLD || '0.97'),
+
+    SANDBOX_TEST_TIMEOUT_MS: parseInt(process.env.SANDBOX_TEST_TIMEOUT_MS || '5000', 10),
+    SANDBOX_RUN_TIMEOUT_MS: parseInt(process.env.SANDBOX_RUN_TIMEOUT_MS || '30000', 10),
+    SANDBOX_MEMORY_MB: parseInt(process.env.SANDBOX_MEMORY_MB || '128', 10),
+    SANDBOX_MAX_CONCURRENT: parseInt(process.env.SANDBOX_MAX_CONCURRENT || '2', 10),
+
+    CHAT_SESSION_TTL_MS: parseInt(process.env.CHAT_SESSION_TTL_MS || '86400000', 10), // 24 hours
+    CHAT_MAX_SESSIONS_PER_USER: parseInt(process.env.CHAT_MAX_SESSIONS_PER_USER || '20', 10),
+    CHAT_MAX_HISTORY_TOKENS: parseInt(process.env.CHAT_MAX_HISTORY_TOKENS || '32000', 10),
+    CHAT_KEEP_RECENT_MESSAGES: parseInt(process.env.CHAT_KEEP_RECENT_MESSAGES || '6', 10),
+
+    JOB_STORE_PATH: process.env.JOB_STORE_PATH || './data/jobs/jobs.json',
+    JOB_MAX_CONCURRENT: parseInt(process.env.JOB_MAX_CONCURRENT || '2', 10),
+    JOB_MAX_QUEUED_PER_USER: parseInt(process.env.JOB_MAX_QUEUED_PER_USER || '20', 10),
+    JOB_MAX_STORED: parseInt(process.env.JOB_MAX_STORED || '500', 10),
+    JOB_MAX_LOG_ENTRIES: parseInt(process.env.JOB_MAX_LOG_ENTRIES || '500', 10),
+
+    GOVERNANCE_RULES_PATH: process.env.GOVERNANCE_RULES_PATH,
+    GOVERNANCE_AUDIT_PATH: process.env.GOVERNANCE_AUDIT_PATH || './data/governance/decisions.jsonl',
+    GOVERNANCE_MAX_EVENTS_PER_SESSION: parseInt(process.env.GOVERNANCE_MAX_EVENTS_PER_SESSION || '200', 10),
+    GOVERNANCE_SESSION_IDLE_MS: parseInt(process.env.GOVERNANCE_SESSION_IDLE_MS || '1800000', 10), // 30 minutes
+
+    MCP_SERVERS_PATH: process.env.MCP_SERVERS_PATH,
+    MCP_ENABLE_SAMPLE_SERVER: process.env.MCP_ENABLE_SAMPLE_SERVER !== 'false',
+    MCP_REQUEST_TIMEOUT_MS: parseInt(process.env.MCP_REQUEST_TIMEOUT_MS || '30000', 10),
   };
 }
 
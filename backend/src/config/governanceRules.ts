@@ -0,0 +1,130 @@
+/**
+ * Governance Rule Configuration
+ * The rule format the governance engine evaluates over each session's recent telemetry, and the default rules
+ */
+
+export const DIRECTIVE_TYPES = [
+  'SUGGESTION',
+  'UI_RECONFIGURATION',
+  'PRE_FETCH',
+  'CONTEXT_UPDATE',
+  'ALERT',
+  'OPTIMIZATION',
+] as const;
+export type DirectiveType = (typeof DIRECTIVE_TYPES)[number];
+
+export const CLIENT_INTENTS = ['UNKNOWN', 'NAVIGATE', 'SEARCH', 'COMPLETE_FORM', 'TROUBLESHOOT'] as const;
+export type ClientIntent = (typeof CLIENT_INTENTS)[number];
+
+/** Event properties a threshold rule can count per value */
+export const GOVERNANCE_GROUP_KEYS = ['tab', 'action', 'elementId'] as const;
+export type GovernanceGroupKey = (typeof GOVERNANCE_GROUP_KEYS)[number];
+
+/**
+ * Events a rule looks at. Every condition that is set must hold.
+ */
+export interface GovernanceEventMatch {
+  eventTypes?: string[];
+  outcomes?: string[];
+  tabs?: string[];
+  actions?: string[];
+}
+
+export type GovernanceCondition =
+  /** At least `minCount` matching events within `windowMs`, counted per `groupBy` value when set */
+  | {
+      kind: 'threshold';
+      match: GovernanceEventMatch;
+      groupBy?: GovernanceGroupKey;
+      minCount: number;
+      windowMs: number;
+    }
+  /** An event that took at least `minLatencyMs`, followed within `withinMs` by one of `abandonEventTypes` */
+  | {
+      kind: 'abandonment';
+      minLatencyMs: number;
+      withinMs: number;
+      abandonEventTypes: string[];
+    };
+
+export interface GovernanceRule {
+  id: string;
+  description?: string;
+  condition: GovernanceCondition;
+  directive: {
+    type: DirectiveType;
+    /** Shown to the user. `{tab}`, `{action}`, `{elementId}`, `{count}` and `{latencySeconds}` are filled in. */
+    message: string;
+    /** Lower is more urgent */
+    priority?: number;
+    ttlMs?: number;
+    payload?: Record<string, unknown>;
+  };
+  /** Client intent to report when the rule fires */
+  inference?: {
+    intent: ClientIntent;
+    confidence: number;
+  };
+  /** The rule fires at most once per session within this many ms */
+  cooldownMs: number;
+}
+
+export const DEFAULT_GOVERNANCE_RULES: GovernanceRule[] = [
+  {
+    id: 'repeated-errors-in-tab',
+    description: 'Several failed interactions in one tab within two minutes',
+    condition: {
+      kind: 'threshold',
+      match: { outcomes: ['error', 'failure', 'timeout'] },
+      groupBy: 'tab',
+      minCount: 3,
+      windowMs: 2 * 60 * 1000,
+    },
+    directive: {
+      type: 'SUGGESTION',
+      message: '{count} requests in {tab} failed in the last few minutes. Would you like help troubleshooting?',
+      priority: 3,
+      ttlMs: 30000,
+      payload: { actionType: 'SHOW_HELP_MODAL' },
+    },
+    inference: { intent: 'TROUBLESHOOT', confidence: 0.8 },
+    cooldownMs: 5 * 60 * 1000,
+  },
+  {
+    id: 'abandoned-after-slow-response',
+    description: 'The user left or cancelled shortly after a slow response',
+    condition: {
+      kind: 'abandonment',
+      minLatencyMs: 8000,
+      withinMs: 15000,
+      abandonEventTypes: ['pageView', 'tabChange', 'cancel'],
+    },
+    directive: {
+      type: 'OPTIMIZATION',
+      message: 'That {latencySeconds}s wait in {tab} was long. A faster model or a shorter input usually helps.',
+      priority: 5,
+      ttlMs: 20000,
+      payload: { actionType: 'SUGGEST_FASTER_MODEL' },
+    },
+    cooldownMs: 10 * 60 * 1000,
+  },
+  {
+    id: 'heavy-shunt-action-use',
+    description: 'One Shunt action run many times within ten minutes',
+    condition: {
+      kind: 'threshold',
+      match: {},
+      groupBy: 'action',
+      minCount: 5,
+      windowMs: 10 * 60 * 1000,
+    },
+    directive: {
+      type: 'OPTIMIZATION',
+      message: 'You have run "{action}" {count} times recently. A batch job or an Evolve pipeline can run it in one go.',
+      priority: 7,
+      ttlMs: 30000,
+      payload: { actionType: 'SUGGEST_BATCH' },
+    },
+    cooldownMs: 30 * 60 * 1000,
+  },
+];
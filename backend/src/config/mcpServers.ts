@@ -0,0 +1,39 @@
+/**
+ * MCP Server Configuration
+ * External Model Context Protocol servers the backend connects to, read from MCP_SERVERS_PATH
+ */
+
+export const MCP_TRANSPORTS = ['stdio', 'http'] as const;
+export type McpTransportKind = (typeof MCP_TRANSPORTS)[number];
+
+/**
+ * Server IDs become part of frontend tool names (`mcp.<id>.<tool>`), so they cannot contain dots
+ */
+export const MCP_SERVER_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/;
+
+/** ID of the bundled sample server (see mcpSampleServer.ts) */
+export const SAMPLE_MCP_SERVER_ID = 'sample';
+
+interface McpServerConfigBase {
+  id: string;
+  /** Display name; defaults to the ID */
+  name?: string;
+}
+
+export type McpServerConfig =
+  /** A local process speaking newline-delimited JSON-RPC on stdin/stdout */
+  | (McpServerConfigBase & {
+      transport: 'stdio';
+      command: string;
+      args?: string[];
+      /** Added to the small set of variables the process inherits (PATH, HOME, ...) */
+      env?: Record<string, string>;
+      cwd?: string;
+    })
+  /** A remote server at a streamable HTTP endpoint */
+  | (McpServerConfigBase & {
+      transport: 'http';
+      url: string;
+      /** Sent with every request, e.g. an Authorization header */
+      headers?: Record<string, string>;
+    });
@@ -0,0 +1,35 @@
+/**
+ * Model Routing Configuration
+ * Providers behind the model router, the routing rule format and the rough pricing used for cost ceilings
+ */
+
+import type { SubscriptionTier } from './subscriptionTiers.js';
+
+export const MODEL_PROVIDERS = ['gemini', 'lmstudio', 'ollama'] as const;
+export type ModelProviderId = (typeof MODEL_PROVIDERS)[number];
+
+export interface RoutingRule {
+  name: string;
+  /** Every condition that is set must hold for the rule to apply */
+  match: {
+    actions?: string[];
+    minInputChars?: number;
+    maxInputChars?: number;
+    tiers?: SubscriptionTier[];
+  };
+  /** Providers to try, in order */
+  providers: ModelProviderId[];
+  /** Skip providers whose estimated cost for the request exceeds this many USD */
+  maxCostUsd?: number;
+}
+
+/** USD per million tokens. Local providers cost nothing. */
+export const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+};
+
+/** Unknown Gemini models are priced like the most expensive known one */
+export const FALLBACK_MODEL_PRICING = MODEL_PRICING['gemini-2.5-pro'];
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
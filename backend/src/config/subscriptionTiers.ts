@@ -0,0 +1,34 @@
+/**
+ * Subscription Tier Limits
+ * Server-side mirror of TIER_DETAILS in the frontend's context/SubscriptionContext.tsx
+ */
+
+export const SUBSCRIPTION_TIERS = ['Free', 'Pro', 'Enterprise'] as const;
+export type SubscriptionTier = (typeof SUBSCRIPTION_TIERS)[number];
+
+/** Metered features, keyed the same as SubscriptionUsage in the frontend */
+export const USAGE_FEATURES = ['shuntRuns', 'weaverPlans', 'trimAgentRuns', 'deployments'] as const;
+export type UsageFeature = (typeof USAGE_FEATURES)[number];
+
+/** Plural labels for limit messages */
+export const USAGE_FEATURE_LABELS: Record<UsageFeature, string> = {
+  shuntRuns: 'shunt runs',
+  weaverPlans: 'Weaver plans',
+  trimAgentRuns: 'TRIM agent runs',
+  deployments: 'deployments',
+};
+
+export type UsageLimit = number | 'unlimited';
+
+export const TIER_LIMITS: Record<SubscriptionTier, Record<UsageFeature, UsageLimit>> = {
+  Free: { shuntRuns: 50, weaverPlans: 5, trimAgentRuns: 2, deployments: 1 },
+  Pro: { shuntRuns: 500, weaverPlans: 50, trimAgentRuns: 20, deployments: 25 },
+  Enterprise: {
+    shuntRuns: 'unlimited',
+    weaverPlans: 'unlimited',
+    trimAgentRuns: 'unlimited',
+    deployments: 'unlimited',
+  },
+};
+
+export const DEFAULT_TIER: SubscriptionTier = 'Free';
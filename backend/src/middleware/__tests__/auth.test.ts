@@ -4,6 +4,8 @@
  */
 
 import { Request, Response, NextFunction } from 'express';
+import { requireScope, enforceTokenQuota } from '../auth.js';
+import { apiKeyStore } from '../../services/apiKeyStore.js';
 
 // Mock logger
 jest.mock('../../utils/logger.js', () => ({
@@ -15,6 +17,16 @@ jest.mock('../../utils/logger.js', () => ({
   },
 }));
 
+// Key store lookups are stubbed; the store itself is covered in services/__tests__/apiKeyStore.test.ts
+jest.mock('../../services/apiKeyStore.js', () => ({
+  ...jest.requireActual('../../services/apiKeyStore.js'),
+  apiKeyStore: {
+    verify: jest.fn(() => null),
+    remainingTokens: jest.fn(),
+    recordUsage: jest.fn(),
+  },
+}));
+
 // Recreate middleware functions for testing
 const VALID_API_KEYS = new Set(['valid-key-1', 'valid-key-2', 'valid-key-3']);
 
@@ -228,4 +240,81 @@ describe('Authentication Middleware', () => {
       expect(mockRequest.apiKey).toBe('valid-key-1');
     });
   });
+
+  describe('requireScope', () => {
+    let mockResponse: Partial<Response>;
+    let nextFunction: NextFunction;
+
+    beforeEach(() => {
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis(),
+      };
+      nextFunction = jest.fn();
+    });
+
+    it('should call next when the key holds the scope', () => {
+      const req = { scopes: ['gemini:*'], path: '/shunt' } as unknown as AuthenticatedRequest;
+
+      requireScope('gemini:shunt')(req, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalled();
+    });
+
+    it('should return 403 when the scope is missing', () => {
+      const req = { scopes: ['telemetry:read'], path: '/shunt' } as unknown as AuthenticatedRequest;
+
+      requireScope('gemini:shunt')(req, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(403);
+      expect(nextFunction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('enforceTokenQuota', () => {
+    let mockResponse: Partial<Response>;
+    let nextFunction: NextFunction;
+
+    beforeEach(() => {
+      mockResponse = {
+        status: jest.fn().mockReturnThis(),
+        json: jest.fn().mockReturnThis(),
+        setHeader: jest.fn(),
+      };
+      nextFunction = jest.fn();
+    });
+
+    it('should skip keys that are not from the key store', () => {
+      const req = { path: '/shunt' } as unknown as AuthenticatedRequest;
+
+      enforceTokenQuota(req, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalled();
+      expect(apiKeyStore.remainingTokens).not.toHaveBeenCalled();
+    });
+
+    it('should report remaining tokens and continue while under quota', () => {
+      (apiKeyStore.remainingTokens as jest.Mock).mockReturnValue(250);
+      const req = { apiKeyId: 'key-1', path: '/shunt' } as unknown as AuthenticatedRequest;
+
+      enforceTokenQuota(req, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.setHeader).toHaveBeenCalledWith('X-Token-Quota-Remaining', '250');
+      expect(nextFunction).toHaveBeenCalled();
+    });
+
+    it('should return 429 once the monthly quota is used up', () => {
+      (apiKeyStore.remainingTokens as jest.Mock).mockReturnValue(0);
+      const req = { apiKeyId: 'key-1', path: '/shunt' } as unknown as AuthenticatedRequest;
+
+      enforceTokenQuota(req, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(429);
+      expect(mockResponse.json).toHaveBeenCalledWith({
+        error: 'Quota Exceeded',
+        message: 'Monthly token quota exhausted for this API key',
+      });
+      expect(nextFunction).not.toHaveBeenCalled();
+    });
+  });
 });
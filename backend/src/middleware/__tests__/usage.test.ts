@@ -0,0 +1,155 @@
+/**
+ * Usage Metering Middleware Tests
+ * Tests for subscription limit enforcement and ledger recording
+ */
+
+import { Response, NextFunction } from 'express';
+import { enforceUsageLimit, recordUsage } from '../usage.js';
+import { usageLedger } from '../../services/usageLedger.js';
+import { TIER_LIMITS } from '../../config/subscriptionTiers.js';
+import type { AuthenticatedRequest } from '../auth.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: {
+    warn: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('../../services/usageLedger.js', () => ({
+  usageLedger: {
+    getSummary: jest.fn(),
+    record: jest.fn(() => Promise.resolve()),
+  },
+}));
+
+function summaryWith(usage: Partial<Record<string, number>>, tier: 'Free' | 'Enterprise' = 'Free') {
+  return {
+    userId: 'user-1',
+    period: '2025-01',
+    tier,
+    limits: TIER_LIMITS[tier],
+    usage: { shuntRuns: 0, weaverPlans: 0, trimAgentRuns: 0, deployments: 0, ...usage },
+    tokens: { total: 0, byFeature: {}, byModel: {} },
+  };
+}
+
+describe('Usage Metering Middleware', () => {
+  let mockResponse: Partial<Response>;
+  let nextFunction: NextFunction;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockResponse = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+    };
+    nextFunction = jest.fn();
+  });
+
+  describe('enforceUsageLimit', () => {
+    it('should pass through requests without a metered feature', async () => {
+      const req = { userId: 'user-1', body: {} } as AuthenticatedRequest;
+
+      await enforceUsageLimit()(req, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalled();
+      expect(usageLedger.getSummary).not.toHaveBeenCalled();
+    });
+
+    it('should tag the request and continue while under the limit', async () => {
+      (usageLedger.getSummary as jest.Mock).mockResolvedValue(summaryWith({ shuntRuns: 49 }));
+      const req = { userId: 'user-1', body: {} } as AuthenticatedRequest;
+
+      await enforceUsageLimit('shuntRuns')(req, mockResponse as Response, nextFunction);
+
+      expect(req.usageFeature).toBe('shuntRuns');
+      expect(nextFunction).toHaveBeenCalled();
+    });
+
+    it('should read the feature from the request body', async () => {
+      (usageLedger.getSummary as jest.Mock).mockResolvedValue(summaryWith({ weaverPlans: 5 }));
+      const req = { userId: 'user-1', body: { feature: 'weaverPlans' } } as AuthenticatedRequest;
+
+      await enforceUsageLimit()(req, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(402);
+      expect(nextFunction).not.toHaveBeenCalled();
+    });
+
+    it('should return 402 with the limit once it is reached', async () => {
+      (usageLedger.getSummary as jest.Mock).mockResolvedValue(summaryWith({ shuntRuns: 50 }));
+      const req = { userId: 'user-1', body: {} } as AuthenticatedRequest;
+
+      await enforceUsageLimit('shuntRuns')(req, mockResponse as Response, nextFunction);
+
+      expect(mockResponse.status).toHaveBeenCalledWith(402);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ error: 'Usage Limit Reached', feature: 'shuntRuns', limit: 50, used: 50 })
+      );
+      expect(nextFunction).not.toHaveBeenCalled();
+    });
+
+    it('should require room for every unit a request will use', async () => {
+      (usageLedger.getSummary as jest.Mock).mockResolvedValue(summaryWith({ shuntRuns: 45 }));
+      const units = (req: AuthenticatedRequest) => req.body.items.length;
+
+      const small = { userId: 'user-1', body: { items: new Array(5) } } as AuthenticatedRequest;
+      await enforceUsageLimit('shuntRuns', units)(small, mockResponse as Response, nextFunction);
+      expect(nextFunction).toHaveBeenCalledTimes(1);
+
+      const large = { userId: 'user-1', body: { items: new Array(6) } } as AuthenticatedRequest;
+      await enforceUsageLimit('shuntRuns', units)(large, mockResponse as Response, nextFunction);
+      expect(mockResponse.status).toHaveBeenCalledWith(402);
+      expect(mockResponse.json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: expect.stringContaining('only 5 remain') })
+      );
+      expect(nextFunction).toHaveBeenCalledTimes(1);
+    });
+
+    it('should never block unlimited tiers', async () => {
+      (usageLedger.getSummary as jest.Mock).mockResolvedValue(summaryWith({ shuntRuns: 10000 }, 'Enterprise'));
+      const req = { userId: 'user-1', body: {} } as AuthenticatedRequest;
+
+      await enforceUsageLimit('shuntRuns')(req, mockResponse as Response, nextFunction);
+
+      expect(nextFunction).toHaveBeenCalled();
+    });
+  });
+
+  describe('recordUsage', () => {
+    it('should record the call with its route, feature and tokens', () => {
+      const req = {
+        userId: 'user-1',
+        usageFeature: 'shuntRuns',
+        baseUrl: '/api/gemini',
+        path: '/shunt',
+      } as AuthenticatedRequest;
+
+      recordUsage(req, { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3, model: 'gemini-2.5-flash' });
+
+      expect(usageLedger.record).toHaveBeenCalledWith({
+        userId: 'user-1',
+        feature: 'shuntRuns',
+        route: '/api/gemini/shunt',
+        provider: 'gemini',
+        model: 'gemini-2.5-flash',
+        promptTokens: 1,
+        completionTokens: 2,
+        totalTokens: 3,
+      });
+    });
+
+    it('should record unmetered calls without a feature', () => {
+      const req = { userId: 'user-1', baseUrl: '/api/local-llm', path: '/chat' } as AuthenticatedRequest;
+
+      recordUsage(req, { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, model: 'llama2' }, 'ollama');
+
+      expect(usageLedger.record).toHaveBeenCalledWith(
+        expect.objectContaining({ feature: null, provider: 'ollama', route: '/api/local-llm/chat' })
+      );
+    });
+  });
+});
@@ -1,20 +1,80 @@
 /**
  * Authentication Middleware
- * Validates API keys from request headers
+ * Validates API keys from request headers against the key store, with scope and quota checks
  */
 
 import { Request, Response, NextFunction } from 'express';
 import { logger } from '../utils/logger.js';
+import {
+  apiKeyStore,
+  apiKeyUserId,
+  hasScope,
+  DEFAULT_CLIENT_SCOPES,
+  type ApiKeyScope,
+} from '../services/apiKeyStore.js';
+import type { UsageFeature } from '../config/subscriptionTiers.js';
 
-// In production, these should be stored in a database or Secret Manager
-// For now, we'll use environment variables
+// Legacy flat key lists from the environment. Keys minted through the admin API are preferred;
+// CLIENT_API_KEYS get the default client scopes and ADMIN_API_KEYS can bootstrap the first minted keys.
 const VALID_API_KEYS = new Set(
   (process.env.CLIENT_API_KEYS || '').split(',').filter(Boolean)
 );
+const ADMIN_API_KEYS = new Set(
+  (process.env.ADMIN_API_KEYS || '').split(',').filter(Boolean)
+);
 
 export interface AuthenticatedRequest extends Request {
   apiKey?: string;
   userId?: string;
+  /** Key store ID when the request used a minted key */
+  apiKeyId?: string;
+  scopes?: ApiKeyScope[];
+  /** Metered feature this request counts against, set by enforceUsageLimit */
+  usageFeature?: UsageFeature;
+}
+
+interface ResolvedIdentity {
+  userId: string;
+  scopes: ApiKeyScope[];
+  apiKeyId?: string;
+}
+
+/**
+ * Resolve an API key to an identity, or null if it is not accepted
+ */
+function resolveApiKey(apiKey: string): ResolvedIdentity | null {
+  const record = apiKeyStore.verify(apiKey);
+  if (record) {
+    return { userId: apiKeyUserId(record), scopes: record.scopes, apiKeyId: record.id };
+  }
+
+  if (ADMIN_API_KEYS.has(apiKey)) {
+    return {
+      userId: `admin-${Buffer.from(apiKey).toString('base64').substring(0, 16)}`,
+      scopes: ['*', 'admin:*'],
+    };
+  }
+
+  if (VALID_API_KEYS.has(apiKey)) {
+    return {
+      userId: `user-${Buffer.from(apiKey).toString('base64').substring(0, 16)}`,
+      scopes: DEFAULT_CLIENT_SCOPES,
+    };
+  }
+
+  // Development mode: Accept any non-empty key
+  if (process.env.NODE_ENV === 'development') {
+    return { userId: `dev-user-${apiKey.substring(0, 8)}`, scopes: DEFAULT_CLIENT_SCOPES };
+  }
+
+  return null;
+}
+
+function attachIdentity(req: AuthenticatedRequest, apiKey: string, identity: ResolvedIdentity): void {
+  req.apiKey = apiKey;
+  req.userId = identity.userId;
+  req.scopes = identity.scopes;
+  req.apiKeyId = identity.apiKeyId;
 }
 
 /**
@@ -39,16 +99,9 @@ export function authenticateApiKey(
     return;
   }
 
-  // Development mode: Accept any non-empty key
-  if (process.env.NODE_ENV === 'development') {
-    req.apiKey = apiKey;
-    req.userId = `dev-user-${apiKey.substring(0, 8)}`;
-    next();
-    return;
-  }
+  const identity = resolveApiKey(apiKey);
 
-  // Production mode: Validate against configured keys
-  if (!VALID_API_KEYS.has(apiKey)) {
+  if (!identity) {
     logger.warn('Invalid API key attempted', {
       endpoint: req.path,
       ip: req.ip,
@@ -62,8 +115,7 @@ export function authenticateApiKey(
   }
 
   // Attach API key and user ID to request
-  req.apiKey = apiKey;
-  req.userId = `user-${Buffer.from(apiKey).toString('base64').substring(0, 16)}`;
+  attachIdentity(req, apiKey, identity);
 
   logger.debug('API key validated successfully', {
     userId: req.userId,
@@ -83,10 +135,85 @@ export function optionalAuth(
 ): void {
   const apiKey = req.headers['x-api-key'] as string;
 
-  if (apiKey && VALID_API_KEYS.has(apiKey)) {
-    req.apiKey = apiKey;
-    req.userId = `user-${Buffer.from(apiKey).toString('base64').substring(0, 16)}`;
+  if (apiKey) {
+    const identity = resolveApiKey(apiKey);
+    if (identity) {
+      attachIdentity(req, apiKey, identity);
+    }
   }
 
   next();
 }
+
+/**
+ * Require the authenticated key to hold a scope (use after authenticateApiKey)
+ */
+export function requireScope(scope: ApiKeyScope) {
+  return (req: AuthenticatedRequest, res: Response, next: NextFunction): void => {
+    if (!hasScope(req.scopes ?? [], scope)) {
+      logger.warn('API key missing required scope', {
+        userId: req.userId,
+        endpoint: req.path,
+        scope,
+      });
+      res.status(403).json({
+        error: 'Forbidden',
+        message: `API key is missing the required scope: ${scope}`,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
+/**
+ * Reject requests from minted keys that have used up their monthly token quota.
+ * The check runs before the model call, so the request that crosses the quota is still served.
+ */
+export function enforceTokenQuota(
+  req: AuthenticatedRequest,
+  res: Response,
+  next: NextFunction
+): void {
+  if (!req.apiKeyId) {
+    next();
+    return;
+  }
+
+  const remaining = apiKeyStore.remainingTokens(req.apiKeyId);
+  if (remaining === null) {
+    next();
+    return;
+  }
+
+  res.setHeader('X-Token-Quota-Remaining', String(remaining));
+
+  if (remaining <= 0) {
+    logger.warn('Monthly token quota exhausted', {
+      userId: req.userId,
+      endpoint: req.path,
+    });
+    res.status(429).json({
+      error: 'Quota Exceeded',
+      message: 'Monthly token quota exhausted for this API key',
+    });
+    return;
+  }
+
+  next();
+}
+
+/**
+ * Count a completed request's tokens against the caller's key (no-op for env and dev keys)
+ */
+export function recordTokenUsage(
+  req: Pick<AuthenticatedRequest, 'apiKeyId' | 'userId'>,
+  tokenUsage: { total_tokens: number } | undefined
+): void {
+  if (!req.apiKeyId || !tokenUsage) return;
+
+  apiKeyStore.recordUsage(req.apiKeyId, tokenUsage.total_tokens).catch((error) => {
+    logger.error('Failed to record API key token usage', { userId: req.userId, error });
+  });
+}
@@ -0,0 +1,125 @@
+/**
+ * Usage Metering Middleware
+ * Enforces subscription plan limits and records every model call in the usage ledger
+ */
+
+import { Response, NextFunction } from 'express';
+import { logger } from '../utils/logger.js';
+import { usageLedger, type UsageProvider } from '../services/usageLedger.js';
+import { USAGE_FEATURE_LABELS, type UsageFeature } from '../config/subscriptionTiers.js';
+import { recordTokenUsage, type AuthenticatedRequest } from './auth.js';
+import type { TokenUsage } from '../services/geminiService.js';
+
+/**
+ * Reject the request when the caller has used up this month's runs of a metered feature.
+ * Without an explicit feature, the validated `feature` field of the request body is used (e.g. /generate).
+ * `units` gives the number of runs a request will use (e.g. one per batch item); all of them must fit.
+ */
+export function enforceUsageLimit(feature?: UsageFeature, units: (req: AuthenticatedRequest) => number = () => 1) {
+  return async (req: AuthenticatedRequest, res: Response, next: NextFunction): Promise<void> => {
+    const meteredFeature: UsageFeature | undefined = feature ?? req.body?.feature;
+    if (!meteredFeature) {
+      next();
+      return;
+    }
+
+    req.usageFeature = meteredFeature;
+    const userId = req.userId ?? 'anonymous';
+
+    try {
+      const summary = await usageLedger.getSummary(userId);
+      const limit = summary.limits[meteredFeature];
+      const requested = units(req);
+
+      if (limit !== 'unlimited' && summary.usage[meteredFeature] + requested > limit) {
+        logger.warn('Subscription usage limit reached', {
+          userId,
+          endpoint: req.path,
+          feature: meteredFeature,
+          tier: summary.tier,
+          requested,
+        });
+        // 402 rather than 429 so clients do not retry it like a rate limit
+        const remaining = Math.max(0, limit - summary.usage[meteredFeature]);
+        res.status(402).json({
+          error: 'Usage Limit Reached',
+          message:
+            remaining === 0
+              ? `You have used all ${limit} ${USAGE_FEATURE_LABELS[meteredFeature]} included in the ${summary.tier} tier this month. Upgrade your plan to continue.`
+              : `This request needs ${requested} ${USAGE_FEATURE_LABELS[meteredFeature]} but only ${remaining} remain in the ${summary.tier} tier this month. Upgrade your plan to continue.`,
+          feature: meteredFeature,
+          limit,
+          used: summary.usage[meteredFeature],
+        });
+        return;
+      }
+
+      next();
+    } catch (error) {
+      logger.error('Usage limit check failed', { userId, feature: meteredFeature, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to check usage limits',
+      });
+    }
+  };
+}
+
+/**
+ * Who a model call is billed to and where it was made, for calls made outside a request handler (e.g. background jobs)
+ */
+export interface UsageAttribution {
+  userId: string;
+  /** Key store ID when the call was made with a minted key */
+  apiKeyId?: string;
+  feature: UsageFeature | null;
+  route: string;
+}
+
+/**
+ * Record a completed model call in the usage ledger, and against the key's token quota for Gemini calls
+ */
+export function recordUsage(
+  req: AuthenticatedRequest,
+  tokenUsage: TokenUsage | undefined,
+  provider: UsageProvider = 'gemini'
+): void {
+  recordAttributedUsage(
+    {
+      userId: req.userId ?? 'anonymous',
+      apiKeyId: req.apiKeyId,
+      feature: req.usageFeature ?? null,
+      route: `${req.baseUrl}${req.path}`,
+    },
+    tokenUsage,
+    provider
+  );
+}
+
+/**
+ * recordUsage for calls that are not tied to the request that caused them
+ */
+export function recordAttributedUsage(
+  attribution: UsageAttribution,
+  tokenUsage: TokenUsage | undefined,
+  provider: UsageProvider = 'gemini'
+): void {
+  if (provider === 'gemini') {
+    recordTokenUsage(attribution, tokenUsage);
+  }
+
+  usageLedger
+    .record({
+      userId: attribution.userId,
+      feature: attribution.feature,
+      route: attribution.route,
+      provider,
+      model: tokenUsage?.model ?? null,
+      promptTokens: tokenUsage?.prompt_tokens ?? 0,
+      completionTokens: tokenUsage?.completion_tokens ?? 0,
+      totalTokens: tokenUsage?.total_tokens ?? 0,
+    })
+    .catch((error) => {
+      logger.error('Failed to record usage', { userId: attribution.userId, error });
+    });
+}
@@ -6,6 +6,13 @@
 import { Request, Response, NextFunction } from 'express';
 import { z } from 'zod';
 import { logger } from '../utils/logger.js';
+import { ShuntAction, PromptModuleKey } from '../prompts/shuntPrompts.js';
+import { API_KEY_SCOPES } from '../services/apiKeyStore.js';
+import { SUBSCRIPTION_TIERS } from '../config/subscriptionTiers.js';
+import { MODEL_PROVIDERS } from '../config/modelRouting.js';
+import { FOUNDRY_AGENT_NAMES } from '../prompts/jobPrompts.js';
+import { DIRECTIVE_TYPES, CLIENT_INTENTS, GOVERNANCE_GROUP_KEYS } from '../config/governanceRules.js';
+import { MCP_SERVER_ID_PATTERN } from '../config/mcpServers.js';
 
 /**
  * Generic validation middleware factory
@@ -46,20 +53,62 @@ export function validateRequest<T>(schema: z.ZodSchema<T>, source: 'body' | 'que
  * Common validation schemas
  */
 
+// Model generation options accepted by the text generation and chat endpoints
+const textGenerationConfigSchema = z.object({
+  temperature: z.number().min(0).max(2).optional(),
+  topP: z.number().min(0).max(1).optional(),
+  topK: z.number().min(1).max(100).optional(),
+  maxOutputTokens: z.number().min(1).max(8192).optional(),
+  responseMimeType: z.string().optional(),
+  responseSchema: z.any().optional(),
+});
+
 // Shunt action schema
 export const shuntActionSchema = z.object({
   text: z.string().min(1).max(100000),
-  action: z.string().min(1),
+  action: z.enum(ShuntAction).exclude(['CALL_TOOL']),
   modelName: z.string().optional().default('gemini-2.5-flash'),
   context: z.string().optional(),
   priority: z.string().optional(),
   promptInjectionGuardEnabled: z.boolean().optional().default(false),
+  // Model router options: provider to try first, whether to fall back to others, and a per-request cost ceiling
+  provider: z.enum(MODEL_PROVIDERS).optional(),
+  allowFallback: z.boolean().optional().default(true),
+  maxCostUsd: z.number().positive().optional(),
+  // Response cache: 'semantic' also reuses results for near-duplicate text, matched on the embedding
+  cache: z.enum(['off', 'exact', 'semantic']).optional().default('exact'),
+  embedding: z
+    .object({
+      model: z.string().min(1).max(200),
+      vector: z.array(z.number()).min(1).max(4096),
+    })
+    .optional(),
+});
+
+export type ShuntActionRequest = z.infer<typeof shuntActionSchema>;
+
+// Batch shunt schema: one action (and its options) applied to every item
+export const shuntBatchSchema = shuntActionSchema.omit({ text: true, embedding: true }).extend({
+  items: z
+    .array(
+      z.object({
+        // Echoed back with the item's result; defaults to the item's index
+        id: z.string().min(1).max(256).optional(),
+        text: z.string().min(1).max(100000),
+        embedding: shuntActionSchema.shape.embedding,
+      })
+    )
+    .min(1)
+    .max(100),
+  concurrency: z.number().int().min(1).max(8).optional().default(4),
 });
 
+export type ShuntBatchRequest = z.infer<typeof shuntBatchSchema>;
+
 // Modular prompt schema
 export const modularPromptSchema = z.object({
   text: z.string().min(1).max(100000),
-  modules: z.array(z.string()).min(1),
+  modules: z.array(z.enum(PromptModuleKey)).min(1),
   context: z.string().optional(),
   priority: z.string().optional(),
   promptInjectionGuardEnabled: z.boolean().optional().default(false),
@@ -75,41 +124,377 @@ export const imageAnalysisSchema = z.object({
   modelName: z.string().optional().default('gemini-2.5-flash'),
 });
 
-// Chat message schema
-export const chatMessageSchema = z.object({
-  prompt: z.string().min(1).max(50000),
+// Chat session schemas
+export const chatSessionCreateSchema = z.object({
+  modelName: z.string().optional().default('gemini-2.5-flash'),
+  title: z.string().min(1).max(200).optional(),
+  systemInstruction: z.string().min(1).max(20000).optional(),
+  // Earlier turns to seed the session with, e.g. a conversation kept in the browser
   history: z
     .array(
       z.object({
-        role: z.string(),
-        parts: z.array(z.object({ text: z.string() })),
+        role: z.enum(['user', 'model']),
+        text: z.string().min(1).max(50000),
       })
     )
+    .max(200)
     .optional(),
 });
 
+export type ChatSessionCreateRequest = z.infer<typeof chatSessionCreateSchema>;
+
+export const chatSessionMessageSchema = z.object({
+  text: z.string().min(1).max(50000),
+  config: textGenerationConfigSchema.omit({ responseMimeType: true, responseSchema: true }).optional(),
+});
+
+export type ChatSessionMessageRequest = z.infer<typeof chatSessionMessageSchema>;
+
 // Development plan schema
 export const developmentPlanSchema = z.object({
   goal: z.string().min(1).max(10000),
-  context: z.string().min(1).max(500000),
+  context: z.string().max(500000),
 });
 
 // Generic text generation schema
 export const textGenerationSchema = z.object({
   prompt: z.string().min(1).max(100000),
   modelName: z.string().optional().default('gemini-2.5-flash'),
-  config: z
+  config: textGenerationConfigSchema.optional(),
+});
+
+// Telemetry interaction event schema (mirrors InteractionEvent in the frontend's types/telemetry.ts)
+export const interactionOutcomeSchema = z.enum([
+  'success',
+  'failure',
+  'error',
+  'incomplete',
+  'timeout',
+  'aborted',
+  'unknown',
+]);
+
+export const interactionEventSchema = z.object({
+  id: z.string().min(1).max(128),
+  timestamp: z.iso.datetime(),
+  userID: z.string().max(256),
+  sessionID: z.string().max(256),
+  tab: z.string().min(1).max(100),
+  activeProjectID: z.string().max(256).optional(),
+  activeProjectName: z.string().max(256).optional(),
+  contextDetails: z.record(z.string(), z.unknown()).optional(),
+  appVersion: z.string().max(50).optional(),
+  browserInfo: z.string().max(1000).optional(),
+  eventType: z.string().min(1).max(100),
+  interactionType: z.string().max(100).optional(),
+  userInput: z.unknown().optional(),
+  aiOutput: z.unknown().optional(),
+  outcome: interactionOutcomeSchema.optional(),
+  userFeedback: z
+    .union([
+      z.enum(['positive', 'negative', 'neutral', 'thumbs_up', 'thumbs_down']),
+      z.object({
+        type: z.enum(['explicit', 'implicit']),
+        sentiment: z.enum(['positive', 'negative', 'neutral']).optional(),
+        score: z.number().optional(),
+        comment: z.string().max(5000).optional(),
+        details: z.record(z.string(), z.unknown()).optional(),
+      }),
+    ])
+    .optional(),
+  latency: z.number().nonnegative().optional(),
+  toolCalls: z
+    .array(
+      z.object({
+        toolName: z.string(),
+        toolInput: z.unknown(),
+        toolOutput: z.unknown(),
+        successful: z.boolean(),
+        durationMs: z.number().optional(),
+        error: z.string().optional(),
+      })
+    )
+    .optional(),
+  tokenUsage: z
     .object({
-      temperature: z.number().min(0).max(2).optional(),
-      topP: z.number().min(0).max(1).optional(),
-      topK: z.number().min(1).max(100).optional(),
-      maxOutputTokens: z.number().min(1).max(8192).optional(),
-      responseMimeType: z.string().optional(),
-      responseSchema: z.any().optional(),
+      prompt_tokens: z.number(),
+      completion_tokens: z.number(),
+      total_tokens: z.number(),
+      model: z.string(),
     })
     .optional(),
+  promptVersion: z.string().max(100).optional(),
+  modelUsed: z.string().max(100).optional(),
+  availableTools: z.array(z.string()).optional(),
+  featureFlags: z.record(z.string(), z.union([z.boolean(), z.string()])).optional(),
+  customData: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type InteractionEvent = z.infer<typeof interactionEventSchema>;
+
+// Telemetry ingestion batch schema (the frontend sends up to maxQueueSize events per batch)
+export const telemetryBatchSchema = z.array(interactionEventSchema).min(1).max(500);
+
+// Telemetry query schema (query-string parameters)
+export const telemetryQuerySchema = z.object({
+  sessionID: z.string().max(256).optional(),
+  userID: z.string().max(256).optional(),
+  tab: z.string().max(100).optional(),
+  eventType: z.string().max(100).optional(),
+  outcome: interactionOutcomeSchema.optional(),
+  from: z.iso.datetime().optional(),
+  to: z.iso.datetime().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional().default(100),
+});
+
+export type TelemetryQuery = z.infer<typeof telemetryQuerySchema>;
+
+// API key mint schema (admin)
+export const apiKeyMintSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1),
+  expiresAt: z.iso.datetime().optional(),
+  monthlyTokenQuota: z.number().int().positive().optional(),
+});
+
+// Usage event schema (metered actions that do not go through a model route)
+export const usageEventSchema = z.object({
+  feature: z.enum(['trimAgentRuns', 'deployments']),
+});
+
+// Subscription tier change schema (admin)
+export const subscriptionTierSchema = z.object({
+  userId: z.string().trim().min(1).max(200),
+  tier: z.enum(SUBSCRIPTION_TIERS),
+});
+
+// Response cache purge filter (admin)
+export const cachePurgeQuerySchema = z.object({
+  action: z.string().optional(),
+  model: z.string().optional(),
+});
+
+export type CachePurgeQuery = z.infer<typeof cachePurgeQuerySchema>;
+
+// Sandboxed test run: generated test files plus the source files they import
+const sandboxFileSchema = z.object({
+  path: z.string().trim().min(1).max(300),
+  content: z.string().max(200000),
 });
 
+export const testRunSchema = z
+  .object({
+    tests: z.array(sandboxFileSchema.extend({ id: z.string().min(1).max(100) })).min(1).max(20),
+    files: z.array(sandboxFileSchema).max(50).default([]),
+    testTimeoutMs: z.number().int().min(100).max(60000).optional(),
+  })
+  .refine((run) => new Set(run.tests.map((test) => test.id)).size === run.tests.length, {
+    message: 'Test ids must be unique',
+    path: ['tests'],
+  });
+
+export type TestRunRequest = z.infer<typeof testRunSchema>;
+
+// Background jobs: the job type selects the shape of `input`
+const jobOptionsSchema = z.object({
+  priority: z.enum(['high', 'normal', 'low']).optional().default('normal'),
+});
+
+export const jobSubmitSchema = z.discriminatedUnion('type', [
+  jobOptionsSchema.extend({
+    type: z.literal('plan'),
+    input: z.object({
+      prompt: z.string().min(1).max(20000),
+      modelName: z.string().optional().default('gemini-2.5-flash'),
+    }),
+  }),
+  jobOptionsSchema.extend({
+    type: z.literal('shunt_batch'),
+    input: shuntBatchSchema.pick({ action: true, modelName: true, context: true, priority: true }).extend({
+      items: z.array(z.object({ id: z.string().min(1).max(256).optional(), text: z.string().min(1).max(100000) })).min(1).max(500),
+    }),
+  }),
+  jobOptionsSchema.extend({
+    type: z.literal('foundry_run'),
+    input: z.object({
+      goal: z.string().min(1).max(10000),
+      files: z.array(sandboxFileSchema).max(50).default([]),
+      agents: z.array(z.enum(FOUNDRY_AGENT_NAMES)).min(1).optional(),
+      modelName: z.string().optional().default('gemini-2.5-flash'),
+    }),
+  }),
+  jobOptionsSchema.extend({
+    type: z.literal('rag_index_build'),
+    input: z.object({
+      files: z.array(sandboxFileSchema).min(1).max(500),
+      chunkLines: z.number().int().min(10).max(400).optional().default(60),
+      embeddingModel: z.string().optional().default('text-embedding-004'),
+    }),
+  }),
+]);
+
+export type JobSubmitRequest = z.infer<typeof jobSubmitSchema>;
+
+export const jobListQuerySchema = z.object({
+  status: z.enum(['pending', 'running', 'completed', 'failed', 'cancelled']).optional(),
+  type: z.enum(['plan', 'shunt_batch', 'foundry_run', 'rag_index_build']).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional().default(50),
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
+
+// Governance decision request: a batch of UserTelemetryEvents and the client's own inferred state
+export const userTelemetryEventSchema = z.object({
+  id: z.string().min(1).max(128),
+  timestamp: z.iso.datetime(),
+  eventType: z.string().min(1).max(100),
+  elementId: z.string().max(256).optional(),
+  elementName: z.string().max(256).optional(),
+  elementType: z.string().max(100).optional(),
+  pagePath: z.string().max(2000),
+  userId: z.string().max(256).optional(),
+  sessionId: z.string().min(1).max(256),
+  duration: z.number().nonnegative().optional(),
+  value: z.union([z.string().max(1000), z.number(), z.boolean()]).optional(),
+  coords: z.object({ x: z.number(), y: z.number() }).optional(),
+  sequenceNumber: z.number().int().nonnegative(),
+  previousEventId: z.string().max(128).optional(),
+  context: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type UserTelemetryEvent = z.infer<typeof userTelemetryEventSchema>;
+
+export const clientInferredStateSchema = z.object({
+  intent: z.enum(CLIENT_INTENTS),
+  confidence: z.number().min(0).max(1),
+  context: z.record(z.string(), z.unknown()).optional(),
+});
+
+export type ClientInferredState = z.infer<typeof clientInferredStateSchema>;
+
+export const governanceDecisionSchema = z.object({
+  events: z.array(userTelemetryEventSchema).min(1).max(500),
+  clientState: clientInferredStateSchema.optional(),
+});
+
+export type GovernanceDecisionRequest = z.infer<typeof governanceDecisionSchema>;
+
+export const governanceAuditQuerySchema = z.object({
+  userId: z.string().max(256).optional(),
+  sessionId: z.string().max(256).optional(),
+  ruleId: z.string().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(1000).optional().default(100),
+});
+
+export type GovernanceAuditQuery = z.infer<typeof governanceAuditQuerySchema>;
+
+// Governance rules file (GOVERNANCE_RULES_PATH)
+const governanceEventMatchSchema = z.object({
+  eventTypes: z.array(z.string()).optional(),
+  outcomes: z.array(z.string()).optional(),
+  tabs: z.array(z.string()).optional(),
+  actions: z.array(z.string()).optional(),
+});
+
+export const governanceRulesSchema = z.array(
+  z.object({
+    id: z.string().min(1).max(100),
+    description: z.string().optional(),
+    condition: z.discriminatedUnion('kind', [
+      z.object({
+        kind: z.literal('threshold'),
+        match: governanceEventMatchSchema,
+        groupBy: z.enum(GOVERNANCE_GROUP_KEYS).optional(),
+        minCount: z.number().int().positive(),
+        windowMs: z.number().int().positive(),
+      }),
+      z.object({
+        kind: z.literal('abandonment'),
+        minLatencyMs: z.number().int().positive(),
+        withinMs: z.number().int().positive(),
+        abandonEventTypes: z.array(z.string()).min(1),
+      }),
+    ]),
+    directive: z.object({
+      type: z.enum(DIRECTIVE_TYPES),
+      message: z.string().min(1),
+      priority: z.number().optional(),
+      ttlMs: z.number().int().positive().optional(),
+      payload: z.record(z.string(), z.unknown()).optional(),
+    }),
+    inference: z
+      .object({
+        intent: z.enum(CLIENT_INTENTS),
+        confidence: z.number().min(0).max(1),
+      })
+      .optional(),
+    cooldownMs: z.number().int().nonnegative(),
+  })
+);
+
+// MCP proxy requests
+export const mcpToolCallSchema = z.object({
+  name: z.string().min(1).max(200),
+  arguments: z.record(z.string(), z.unknown()).optional().default({}),
+});
+
+export type McpToolCallRequest = z.infer<typeof mcpToolCallSchema>;
+
+export const mcpResourceReadSchema = z.object({
+  uri: z.string().min(1).max(2000),
+});
+
+export type McpResourceReadRequest = z.infer<typeof mcpResourceReadSchema>;
+
+export const mcpPromptGetSchema = z.object({
+  name: z.string().min(1).max(200),
+  arguments: z.record(z.string(), z.string()).optional().default({}),
+});
+
+export type McpPromptGetRequest = z.infer<typeof mcpPromptGetSchema>;
+
+// MCP servers file (MCP_SERVERS_PATH)
+const mcpServerBaseSchema = {
+  id: z.string().regex(MCP_SERVER_ID_PATTERN),
+  name: z.string().min(1).max(100).optional(),
+};
+
+export const mcpServersSchema = z.array(
+  z.discriminatedUnion('transport', [
+    z.object({
+      ...mcpServerBaseSchema,
+      transport: z.literal('stdio'),
+      command: z.string().min(1),
+      args: z.array(z.string()).optional(),
+      env: z.record(z.string(), z.string()).optional(),
+      cwd: z.string().optional(),
+    }),
+    z.object({
+      ...mcpServerBaseSchema,
+      transport: z.literal('http'),
+      url: z.url({ protocol: /^https?$/ }),
+      headers: z.record(z.string(), z.string()).optional(),
+    }),
+  ])
+).refine((servers) => new Set(servers.map((server) => server.id)).size === servers.length, {
+  message: 'MCP server IDs must be unique',
+});
+
+// Model routing rules file (MODEL_ROUTING_RULES_PATH)
+export const routingRulesSchema = z.array(
+  z.object({
+    name: z.string().min(1),
+    match: z.object({
+      actions: z.array(z.string()).optional(),
+      minInputChars: z.number().int().nonnegative().optional(),
+      maxInputChars: z.number().int().positive().optional(),
+      tiers: z.array(z.enum(SUBSCRIPTION_TIERS)).optional(),
+    }),
+    providers: z.array(z.enum(MODEL_PROVIDERS)).min(1),
+    maxCostUsd: z.number().positive().optional(),
+  })
+);
+
 /**
  * Sanitize text input to prevent basic injection attacks
  */
@@ -143,9 +528,12 @@ export function detectPromptInjection(text: string): boolean {
  * Middleware to check for prompt injection
  */
 export function checkPromptInjection(req: Request, res: Response, next: NextFunction): void {
-  const text = req.body.text || req.body.prompt || '';
+  const texts: string[] = Array.isArray(req.body.items)
+    ? req.body.items.map((item: { text: string }) => item.text)
+    : [req.body.text || req.body.prompt || req.body.goal || ''];
+  const text = texts.find(detectPromptInjection);
 
-  if (detectPromptInjection(text)) {
+  if (text !== undefined) {
     logger.warn('Potential prompt injection detected', {
       endpoint: req.path,
       textPreview: text.substring(0, 100),
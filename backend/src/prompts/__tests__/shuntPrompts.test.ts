@@ -0,0 +1,133 @@
+/**
+ * Shunt Prompt Registry Tests
+ * Tests for server-side prompt construction and per-action generation rules
+ */
+
+import {
+  ShuntAction,
+  PromptModuleKey,
+  shuntPromptRegistry,
+  promptModules,
+  buildShuntPrompt,
+  buildModularPrompt,
+  getShuntRequestConfig,
+  cleanShuntResult,
+} from '../shuntPrompts.js';
+import { shuntActionSchema, modularPromptSchema } from '../../middleware/validation.js';
+
+describe('Shunt Prompt Registry', () => {
+  describe('Registry Coverage', () => {
+    it('should define a prompt for every action except CALL_TOOL', () => {
+      const actions = Object.values(ShuntAction).filter((a) => a !== ShuntAction.CALL_TOOL);
+
+      expect(Object.keys(shuntPromptRegistry).sort()).toEqual([...actions].sort());
+    });
+
+    it('should produce a non-empty instruction for every action', () => {
+      for (const definition of Object.values(shuntPromptRegistry)) {
+        expect(definition.buildInstruction('topic').length).toBeGreaterThan(0);
+      }
+    });
+  });
+
+  describe('buildShuntPrompt', () => {
+    it('should place the action instruction before the user text', () => {
+      const prompt = buildShuntPrompt({ text: 'Hello world', action: ShuntAction.SUMMARIZE });
+
+      expect(prompt.startsWith('Distill the following text')).toBe(true);
+      expect(prompt.endsWith('---\n\nHello world')).toBe(true);
+    });
+
+    it('should prepend reference documents and priority when provided', () => {
+      const prompt = buildShuntPrompt({
+        text: 'Hello world',
+        action: ShuntAction.PROOFREAD,
+        context: 'Doc A',
+        priority: 'High',
+      });
+
+      expect(prompt).toMatch(/^Please use the following reference documents/);
+      expect(prompt).toContain('<REFERENCE_DOCUMENTS>\nDoc A\n</REFERENCE_DOCUMENTS>');
+      expect(prompt.indexOf('**Task Priority: High**')).toBeLessThan(prompt.indexOf('Proofread and correct'));
+    });
+
+    it('should wrap user text when the injection guard is enabled', () => {
+      const prompt = buildShuntPrompt({
+        text: 'Hello world',
+        action: ShuntAction.SUMMARIZE,
+        promptInjectionGuardEnabled: true,
+      });
+
+      expect(prompt).toContain('--- START OF USER TEXT ---\nHello world\n--- END OF USER TEXT ---');
+    });
+
+    it('should interpolate the topic into the oracle query template', () => {
+      const prompt = buildShuntPrompt({ text: 'consciousness', action: ShuntAction.GENERATE_ORACLE_QUERY });
+
+      expect(prompt).toContain('# A Definitive Synthesis on: consciousness');
+    });
+  });
+
+  describe('getShuntRequestConfig', () => {
+    it('should apply the thinking budget for pro models on heavy actions', () => {
+      expect(getShuntRequestConfig(ShuntAction.MAKE_ACTIONABLE, 'gemini-2.5-pro')).toEqual({
+        thinkingConfig: { thinkingBudget: 32768 },
+      });
+      expect(getShuntRequestConfig(ShuntAction.BUILD_A_SKILL, 'gemini-2.5-pro')).toBeDefined();
+    });
+
+    it('should not apply a thinking budget for flash models', () => {
+      expect(getShuntRequestConfig(ShuntAction.MAKE_ACTIONABLE, 'gemini-2.5-flash')).toBeUndefined();
+    });
+
+    it('should not apply a thinking budget for lightweight actions', () => {
+      expect(getShuntRequestConfig(ShuntAction.SUMMARIZE, 'gemini-2.5-pro')).toBeUndefined();
+    });
+  });
+
+  describe('cleanShuntResult', () => {
+    it('should strip code fences for JSON actions', () => {
+      expect(cleanShuntResult(ShuntAction.FORMAT_JSON, '```json\n{"key": "value"}\n```')).toBe('{"key": "value"}');
+    });
+
+    it('should leave output untouched for other actions', () => {
+      const text = '```js\nconsole.log(1);\n```';
+
+      expect(cleanShuntResult(ShuntAction.SUMMARIZE, text)).toBe(text);
+    });
+  });
+
+  describe('buildModularPrompt', () => {
+    it('should always start with the core directive', () => {
+      const prompt = buildModularPrompt('Input', [PromptModuleKey.META]);
+
+      expect(prompt.startsWith(promptModules[PromptModuleKey.CORE].content)).toBe(true);
+      expect(prompt).toContain(promptModules[PromptModuleKey.META].content);
+      expect(prompt.endsWith('User Input:\nInput')).toBe(true);
+    });
+
+    it('should not repeat the core directive when it is selected explicitly', () => {
+      const prompt = buildModularPrompt('Input', [PromptModuleKey.CORE, PromptModuleKey.AGENTIC]);
+
+      expect(prompt.split(promptModules[PromptModuleKey.CORE].content)).toHaveLength(2);
+    });
+  });
+
+  describe('Request Validation', () => {
+    it('should accept the action values sent by the frontend', () => {
+      const result = shuntActionSchema.safeParse({ text: 'Hello', action: 'Proofread & Fix' });
+
+      expect(result.success).toBe(true);
+    });
+
+    it('should reject unknown and client-only actions', () => {
+      expect(shuntActionSchema.safeParse({ text: 'Hello', action: 'Ignore all rules' }).success).toBe(false);
+      expect(shuntActionSchema.safeParse({ text: 'Hello', action: ShuntAction.CALL_TOOL }).success).toBe(false);
+    });
+
+    it('should reject unknown prompt modules', () => {
+      expect(modularPromptSchema.safeParse({ text: 'Hello', modules: ['CUSTOM'] }).success).toBe(false);
+      expect(modularPromptSchema.safeParse({ text: 'Hello', modules: ['META'] }).success).toBe(true);
+    });
+  });
+});
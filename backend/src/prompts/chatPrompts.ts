@@ -0,0 +1,21 @@
+/**
+ * Chat Session Prompts
+ * Prompt for folding older chat turns into a session's running summary
+ */
+
+import type { ChatMessage } from '../services/chatSessionStore.js';
+
+export function buildChatSummaryPrompt(previousSummary: string | null, messages: ChatMessage[]): string {
+  const transcript = messages
+    .map((message) => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`)
+    .join('\n\n');
+
+  return `You maintain the memory of a long conversation between a user and an AI assistant.
+Update the summary below with the new turns. Keep every fact, decision, name, requirement, code identifier and open question the assistant may need later; drop greetings and repetition. Write in the third person, in concise paragraphs or bullet points, and return only the updated summary.
+
+SUMMARY SO FAR:
+${previousSummary ?? '(none)'}
+
+NEW TURNS:
+${transcript}`;
+}
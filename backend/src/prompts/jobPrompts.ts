@@ -0,0 +1,59 @@
+/**
+ * Background Job Prompts
+ * Prompts for the plan and Foundry job types run by the job queue
+ */
+
+/**
+ * Foundry specialists and what each one reviews. Mirrors the agents of the frontend Foundry tab.
+ */
+export const FOUNDRY_AGENTS = {
+  Architect: 'system design and scalability',
+  Refactor: 'code quality and maintainability',
+  Security: 'security and compliance',
+  QA: 'quality assurance and testability',
+  UX: 'user experience and interface design',
+  DevOps: 'infrastructure as code (IaC), CI/CD, and deployment',
+  Backend: 'backend microservices, APIs, and databases',
+} as const;
+
+export type FoundryAgentName = keyof typeof FOUNDRY_AGENTS;
+
+export const FOUNDRY_AGENT_NAMES = Object.keys(FOUNDRY_AGENTS) as FoundryAgentName[];
+
+export function buildJobPlanPrompt(prompt: string): string {
+  return `Based on the following user request, provide a step-by-step plan in markdown.\n\nREQUEST: "${prompt}"`;
+}
+
+/**
+ * Project files as one context block; empty when the run has no files
+ */
+export function formatProjectContext(files: Array<{ path: string; content: string }>): string {
+  return files.length > 0
+    ? files.map((file) => `--- FILE: ${file.path} ---\n\n${file.content}`).join('\n\n---\n\n')
+    : 'No project context files were provided.';
+}
+
+export function buildFoundryAuditPrompt(agent: FoundryAgentName, goal: string, projectContext: string): string {
+  return `You are the ${agent} agent. Your specialty is ${FOUNDRY_AGENTS[agent]}. Audit the following project goal from your unique perspective, using the provided project context. Identify key considerations and risks. Provide a one-paragraph summary.
+
+PROJECT GOAL: "${goal}"
+
+PROJECT CONTEXT:
+---
+${projectContext}
+---`;
+}
+
+export function buildFoundrySynthesisPrompt(
+  goal: string,
+  audits: Array<{ agent: FoundryAgentName; findings: string }>
+): string {
+  const findings = audits.map(({ agent, findings }) => `### ${agent} agent\n${findings}`).join('\n\n');
+
+  return `You are the manager of a team of specialist agents. Combine their audits of the project goal into one implementation plan in markdown: an overview, the workstreams in the order they should happen, the risks raised and how each is mitigated, and open questions. Resolve conflicts between agents explicitly instead of listing both positions.
+
+PROJECT GOAL: "${goal}"
+
+AGENT AUDITS:
+${findings}`;
+}
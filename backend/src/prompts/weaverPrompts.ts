@@ -0,0 +1,42 @@
+/**
+ * Weaver Prompts
+ * The development plan prompt behind the frontend Weaver tab
+ */
+
+import type { GeminiRequestConfig } from '../services/geminiService.js';
+
+export const DEVELOPMENT_PLAN_MODEL = 'gemini-2.5-pro';
+
+export const DEVELOPMENT_PLAN_CONFIG: GeminiRequestConfig = {
+  responseMimeType: 'application/json',
+  temperature: 0.1,
+  topP: 0.9,
+  topK: 40,
+  maxOutputTokens: 4096,
+};
+
+export function buildDevelopmentPlanPrompt(goal: string, context: string): string {
+  return `
+You are an expert software architect acting as a 'Strategy & Task Formulation' AI. Your role is to assist a user in managing the development of this application, the 'AI Content Shunt'.
+
+You will be given a high-level development goal from the user and the project's context from a 'GEMINI_CONTEXT.md' file.
+
+Your task is to deconstruct the goal into a clear, actionable development plan for a code-generating AI based on the schema provided.
+
+**Project Context:**
+---
+${context}
+---
+
+**User's Goal:**
+---
+${goal}
+---
+
+**Instructions:**
+1.  **Ask Clarifying Questions:** Identify any ambiguities and list questions to help the user refine the goal.
+2.  **Propose an Architecture:** Briefly explain the technical approach in simple terms, referencing existing files and components.
+3.  **Define Implementation Tasks:** Create a list of specific, atomic tasks for the coding AI. Each task must include the full file path to be modified, a description of the change, and precise details in the 'details' field. **DO NOT** use the 'newContent' field.
+4.  **Suggest Test Cases:** Provide a list of simple, verifiable test cases to confirm the feature works as expected.
+`;
+}
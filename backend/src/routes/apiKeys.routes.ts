@@ -0,0 +1,105 @@
+/**
+ * API Key Admin Routes
+ * Mint, list, rotate and revoke client API keys without restarting the server
+ */
+
+import { Router, Response } from 'express';
+import { apiKeyStore } from '../services/apiKeyStore.js';
+import { logger } from '../utils/logger.js';
+import { standardRateLimiter } from '../middleware/rateLimiter.js';
+import { authenticateApiKey, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import { validateRequest, apiKeyMintSchema } from '../middleware/validation.js';
+
+const router = Router();
+
+// Every admin route needs a key holding the admin:keys scope
+router.use(authenticateApiKey);
+router.use(requireScope('admin:keys'));
+router.use(standardRateLimiter);
+
+/**
+ * GET /api/admin/keys
+ * List keys (hashes are never returned)
+ */
+router.get('/', (req: AuthenticatedRequest, res: Response) => {
+  res.json({ keys: apiKeyStore.list() });
+});
+
+/**
+ * POST /api/admin/keys
+ * Mint a key. The plaintext key is only returned in this response.
+ */
+router.post('/', validateRequest(apiKeyMintSchema), async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const { key, record } = await apiKeyStore.mint(req.body);
+
+    logger.info('API key minted via admin API', { userId: req.userId, keyId: record.id });
+    res.status(201).json({ key, record });
+  } catch (error) {
+    logger.error('API key mint failed', { userId: req.userId, error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to mint API key',
+    });
+  }
+});
+
+/**
+ * POST /api/admin/keys/:id/rotate
+ * Revoke a key and mint a replacement with the same label, scopes, expiry and quota
+ */
+router.post('/:id/rotate', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const rotated = await apiKeyStore.rotate(req.params.id);
+
+    if (!rotated) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'API key not found or already revoked',
+      });
+      return;
+    }
+
+    logger.info('API key rotated via admin API', {
+      userId: req.userId,
+      keyId: req.params.id,
+      replacementId: rotated.record.id,
+    });
+    res.json(rotated);
+  } catch (error) {
+    logger.error('API key rotation failed', { userId: req.userId, keyId: req.params.id, error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to rotate API key',
+    });
+  }
+});
+
+/**
+ * DELETE /api/admin/keys/:id
+ * Revoke a key (the record is kept for auditing)
+ */
+router.delete('/:id', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    const record = await apiKeyStore.revoke(req.params.id);
+
+    if (!record) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'API key not found',
+      });
+      return;
+    }
+
+    logger.info('API key revoked via admin API', { userId: req.userId, keyId: record.id });
+    res.json({ record });
+  } catch (error) {
+    logger.error('API key revocation failed', { userId: req.userId, keyId: req.params.id, error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to revoke API key',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,57 @@
+/**
+ * Response Cache Admin Routes
+ * Inspect and purge cached shunt results
+ */
+
+import { Router, Response } from 'express';
+import { responseCache } from '../services/responseCache.js';
+import { logger } from '../utils/logger.js';
+import { standardRateLimiter } from '../middleware/rateLimiter.js';
+import { authenticateApiKey, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import { validateRequest, cachePurgeQuerySchema, type CachePurgeQuery } from '../middleware/validation.js';
+
+const router = Router();
+
+// Every cache admin route needs a key holding the admin:cache scope
+router.use(authenticateApiKey);
+router.use(requireScope('admin:cache'));
+router.use(standardRateLimiter);
+
+/**
+ * GET /api/admin/cache
+ * Hit/miss counters, limits and live entries (most recently used first, without cached text or embeddings)
+ */
+router.get('/', (req: AuthenticatedRequest, res: Response) => {
+  res.json({ stats: responseCache.getStats(), entries: responseCache.list() });
+});
+
+/**
+ * DELETE /api/admin/cache
+ * Purge every entry, or only those matching ?action= and/or ?model=
+ */
+router.delete('/', validateRequest(cachePurgeQuerySchema, 'query'), (req: AuthenticatedRequest, res: Response) => {
+  const filter = req.query as unknown as CachePurgeQuery;
+  const removed = responseCache.purge(filter);
+
+  logger.info('Response cache purged via admin API', { userId: req.userId, filter, removed });
+  res.json({ removed });
+});
+
+/**
+ * DELETE /api/admin/cache/:key
+ * Remove a single entry
+ */
+router.delete('/:key', (req: AuthenticatedRequest, res: Response) => {
+  if (!responseCache.delete(req.params.key)) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: 'Cache entry not found',
+    });
+    return;
+  }
+
+  logger.info('Response cache entry removed via admin API', { userId: req.userId, key: req.params.key });
+  res.json({ removed: 1 });
+});
+
+export default router;
@@ -0,0 +1,287 @@
+/**
+ * Chat Session Routes
+ * Multi-turn conversations held on the server, mounted under /api/gemini/chat behind the Gemini routes'
+ * authentication, rate limiting and token quotas
+ */
+
+import { Router, Response, NextFunction } from 'express';
+import { geminiService, type TokenUsage } from '../services/geminiService.js';
+import {
+  chatSessionStore,
+  type ChatMessage,
+  type ChatSession,
+  type ChatSummarizer,
+  type CompactionResult,
+} from '../services/chatSessionStore.js';
+import { logger } from '../utils/logger.js';
+import { openEventStream } from '../utils/sse.js';
+import { requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import { recordUsage } from '../middleware/usage.js';
+import {
+  validateRequest,
+  chatSessionCreateSchema,
+  chatSessionMessageSchema,
+  checkPromptInjection,
+  type ChatSessionCreateRequest,
+  type ChatSessionMessageRequest,
+} from '../middleware/validation.js';
+import { buildChatSummaryPrompt } from '../prompts/chatPrompts.js';
+
+const router = Router();
+
+const SUMMARY_MODEL = 'gemini-2.5-flash';
+
+interface ChatSessionRequest extends AuthenticatedRequest {
+  /** Session named by :id, set by loadSession */
+  chatSession?: ChatSession;
+}
+
+/**
+ * Reply fields shared by /messages and the `done` event of /messages/stream
+ */
+interface ChatReplyResponse {
+  message: ChatMessage;
+  tokenUsage: TokenUsage;
+  latencyMs: number;
+  compaction: CompactionResult;
+  contextTokens: number;
+}
+
+/**
+ * Resolve :id to one of the caller's sessions, or respond 404
+ */
+function loadSession(req: ChatSessionRequest, res: Response, next: NextFunction): void {
+  const session = chatSessionStore.get(req.params.id, req.userId ?? 'anonymous');
+  if (!session) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: 'Chat session not found',
+    });
+    return;
+  }
+
+  req.chatSession = session;
+  next();
+}
+
+/**
+ * Summarizer that folds turns with Gemini and meters the call against the requester
+ */
+function geminiSummarizer(req: AuthenticatedRequest): ChatSummarizer {
+  return async (previousSummary, messages) => {
+    const result = await geminiService.generateContent(buildChatSummaryPrompt(previousSummary, messages), SUMMARY_MODEL);
+    recordUsage(req, result.tokenUsage);
+    return result.text.trim();
+  };
+}
+
+/**
+ * Append the user's message, fit the history to the context window and generate the reply. Streams partial output
+ * through `onChunk` when given. On failure the user's message is removed again so it can be resent.
+ */
+async function replyInSession(
+  req: AuthenticatedRequest,
+  session: ChatSession,
+  body: ChatSessionMessageRequest,
+  onChunk?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ChatReplyResponse> {
+  const startTime = Date.now();
+  session.pending = true;
+  const userMessage = chatSessionStore.appendMessage(session, 'user', body.text);
+
+  try {
+    const compaction = await chatSessionStore.compact(session, geminiSummarizer(req));
+    if (compaction.summarized > 0 || compaction.trimmed > 0) {
+      logger.info('Chat session history compacted', { userId: req.userId, sessionId: session.id, ...compaction });
+    }
+
+    const contents = chatSessionStore.contentsFor(session);
+    const config = { ...body.config, systemInstruction: chatSessionStore.systemInstructionFor(session) };
+    const result = onChunk
+      ? await geminiService.generateContentStream(contents, session.model, config, onChunk, signal)
+      : await geminiService.generateContent(contents, session.model, config);
+
+    recordUsage(req, result.tokenUsage);
+    const message = chatSessionStore.appendMessage(session, 'model', result.text);
+
+    return {
+      message,
+      tokenUsage: result.tokenUsage,
+      latencyMs: Date.now() - startTime,
+      compaction,
+      contextTokens: chatSessionStore.contextTokens(session),
+    };
+  } catch (error) {
+    chatSessionStore.removeMessage(session, userMessage.id);
+    throw error;
+  } finally {
+    session.pending = false;
+  }
+}
+
+router.use(requireScope('gemini:chat'));
+
+/**
+ * POST /api/gemini/chat/sessions
+ * Start a session, optionally with a system instruction and earlier turns
+ */
+router.post('/sessions', validateRequest(chatSessionCreateSchema), (req: AuthenticatedRequest, res: Response) => {
+  const { modelName, title, systemInstruction, history } = req.body as ChatSessionCreateRequest;
+  const session = chatSessionStore.create(req.userId ?? 'anonymous', { model: modelName, title, systemInstruction, history });
+
+  logger.info('Chat session created', {
+    userId: req.userId,
+    sessionId: session.id,
+    model: modelName,
+    seededMessages: session.messages.length,
+  });
+
+  res.status(201).json({ session: chatSessionStore.toView(session) });
+});
+
+/**
+ * GET /api/gemini/chat/sessions
+ * The caller's sessions, most recently active first (without messages)
+ */
+router.get('/sessions', (req: AuthenticatedRequest, res: Response) => {
+  res.json({ sessions: chatSessionStore.list(req.userId ?? 'anonymous') });
+});
+
+/**
+ * GET /api/gemini/chat/sessions/:id
+ * Full transcript, summary and context window position
+ */
+router.get('/sessions/:id', loadSession, (req: ChatSessionRequest, res: Response) => {
+  res.json({ session: chatSessionStore.toView(req.chatSession!) });
+});
+
+/**
+ * DELETE /api/gemini/chat/sessions/:id
+ */
+router.delete('/sessions/:id', loadSession, (req: ChatSessionRequest, res: Response) => {
+  chatSessionStore.delete(req.chatSession!.id, req.userId ?? 'anonymous');
+
+  logger.info('Chat session deleted', { userId: req.userId, sessionId: req.chatSession!.id });
+  res.json({ deleted: true });
+});
+
+/**
+ * Sessions answer one message at a time
+ */
+function rejectBusySession(req: ChatSessionRequest, res: Response, next: NextFunction): void {
+  if (req.chatSession!.pending) {
+    res.status(409).json({
+      error: 'Conflict',
+      message: 'A reply is already being generated in this session',
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * POST /api/gemini/chat/sessions/:id/messages
+ * Send a message and wait for the reply
+ */
+router.post(
+  '/sessions/:id/messages',
+  validateRequest(chatSessionMessageSchema),
+  loadSession,
+  rejectBusySession,
+  checkPromptInjection,
+  async (req: ChatSessionRequest, res: Response) => {
+    const session = req.chatSession!;
+    const startTime = Date.now();
+
+    try {
+      logger.info('Chat message received', { userId: req.userId, sessionId: session.id, textLength: req.body.text.length });
+
+      const response = await replyInSession(req, session, req.body);
+
+      logger.info('Chat reply completed', {
+        userId: req.userId,
+        sessionId: session.id,
+        latencyMs: response.latencyMs,
+        totalTokens: response.tokenUsage.total_tokens,
+      });
+
+      res.json(response);
+    } catch (error) {
+      logger.error('Chat reply failed', {
+        userId: req.userId,
+        sessionId: session.id,
+        error,
+        latencyMs: Date.now() - startTime,
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to generate chat reply',
+      });
+    }
+  }
+);
+
+/**
+ * POST /api/gemini/chat/sessions/:id/messages/stream
+ * Streaming variant of /messages (Server-Sent Events)
+ *
+ * Events: `chunk` { text }, then `done` { message, tokenUsage, latencyMs, compaction, contextTokens } or `error` { error, message }.
+ * Closing the connection cancels the reply and removes the unanswered message from the session.
+ */
+router.post(
+  '/sessions/:id/messages/stream',
+  validateRequest(chatSessionMessageSchema),
+  loadSession,
+  rejectBusySession,
+  checkPromptInjection,
+  async (req: ChatSessionRequest, res: Response) => {
+    const session = req.chatSession!;
+    const startTime = Date.now();
+    const stream = openEventStream(res);
+
+    try {
+      logger.info('Chat stream message received', {
+        userId: req.userId,
+        sessionId: session.id,
+        textLength: req.body.text.length,
+      });
+
+      const response = await replyInSession(
+        req,
+        session,
+        req.body,
+        (chunk) => stream.send('chunk', { text: chunk }),
+        stream.signal
+      );
+
+      logger.info('Chat stream completed', {
+        userId: req.userId,
+        sessionId: session.id,
+        latencyMs: response.latencyMs,
+        totalTokens: response.tokenUsage.total_tokens,
+      });
+
+      stream.send('done', response);
+    } catch (error) {
+      if (stream.signal.aborted) {
+        logger.info('Chat stream cancelled by client', { userId: req.userId, sessionId: session.id });
+      } else {
+        logger.error('Chat stream failed', {
+          userId: req.userId,
+          sessionId: session.id,
+          error,
+          latencyMs: Date.now() - startTime,
+        });
+        stream.send('error', {
+          error: 'Internal Server Error',
+          message: 'Failed to generate chat reply',
+        });
+      }
+    } finally {
+      stream.end();
+    }
+  }
+);
+
+export default router;
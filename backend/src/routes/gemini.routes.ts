@@ -4,37 +4,214 @@
  */
 
 import { Router, Request, Response } from 'express';
-import { geminiService } from '../services/geminiService.js';
+import { geminiService, type TokenUsage } from '../services/geminiService.js';
+import {
+  modelRouter,
+  ModelRouterError,
+  type RouteContext,
+  type RoutedResult,
+  type RoutingReport,
+} from '../services/modelRouter.js';
+import { usageLedger } from '../services/usageLedger.js';
+import { responseCache, type CacheHit, type CacheKeyParts } from '../services/responseCache.js';
 import { logger } from '../utils/logger.js';
+import { openEventStream } from '../utils/sse.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
 import { aiRateLimiter } from '../middleware/rateLimiter.js';
-import { authenticateApiKey, type AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  authenticateApiKey,
+  requireScope,
+  enforceTokenQuota,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js';
+import { enforceUsageLimit, recordUsage } from '../middleware/usage.js';
 import {
   validateRequest,
   shuntActionSchema,
+  shuntBatchSchema,
   modularPromptSchema,
   imageAnalysisSchema,
-  chatMessageSchema,
   developmentPlanSchema,
   textGenerationSchema,
   checkPromptInjection,
+  type ShuntActionRequest,
+  type ShuntBatchRequest,
 } from '../middleware/validation.js';
+import {
+  buildShuntPrompt,
+  buildModularPrompt,
+  getShuntRequestConfig,
+  cleanShuntResult,
+} from '../prompts/shuntPrompts.js';
+import {
+  buildDevelopmentPlanPrompt,
+  DEVELOPMENT_PLAN_MODEL,
+  DEVELOPMENT_PLAN_CONFIG,
+} from '../prompts/weaverPrompts.js';
+import type { ModelProviderId } from '../config/modelRouting.js';
+import chatRoutes from './chat.routes.js';
 
 const router = Router();
 
-// Apply authentication and rate limiting to all routes
+/**
+ * Shunt response fields shared by /shunt, the `done` event of /shunt/stream and each /shunt/batch item
+ */
+interface ShuntResponse {
+  resultText: string;
+  tokenUsage: TokenUsage;
+  latencyMs: number;
+  provider: ModelProviderId;
+  routing: RoutingReport;
+  cache: {
+    hit: boolean;
+    mode?: CacheHit['mode'];
+    similarity?: number;
+    key?: string;
+    ageMs?: number;
+    savedTokens?: number;
+  };
+}
+
+type ShuntBatchItemResult = ({ id: string } & ShuntResponse) | { id: string; error: string };
+
+/**
+ * Model router context for a validated shunt request
+ */
+function shuntRouteContext(req: AuthenticatedRequest, body: ShuntActionRequest): RouteContext {
+  return {
+    action: body.action,
+    inputChars: body.text.length,
+    tier: usageLedger.getTier(req.userId ?? 'anonymous'),
+    preferredProvider: body.provider,
+    allowFallback: body.allowFallback,
+    maxCostUsd: body.maxCostUsd,
+  };
+}
+
+function shuntCacheParts(req: AuthenticatedRequest, body: ShuntActionRequest): CacheKeyParts {
+  const { text, action, modelName, context, priority, provider, promptInjectionGuardEnabled } = body;
+  return {
+    userId: req.userId ?? 'anonymous',
+    text,
+    action,
+    model: modelName,
+    context,
+    priority,
+    provider,
+    promptInjectionGuardEnabled,
+  };
+}
+
+/**
+ * Cached result for a validated shunt request, honoring its cache mode
+ */
+function lookupShuntCache(req: AuthenticatedRequest, body: ShuntActionRequest): CacheHit | null {
+  if (body.cache === 'off' || !responseCache.enabled) return null;
+  return responseCache.lookup(shuntCacheParts(req, body), body.cache === 'semantic' ? body.embedding : undefined);
+}
+
+/**
+ * Cache a shunt result. Fallback results are not cached, so the preferred provider is used again once it recovers.
+ */
+function storeShuntResult(
+  req: AuthenticatedRequest,
+  body: ShuntActionRequest,
+  resultText: string,
+  result: RoutedResult
+): void {
+  if (body.cache === 'off' || result.routing.fallbackFrom.length > 0) return;
+  responseCache.set(
+    shuntCacheParts(req, body),
+    { resultText, tokenUsage: result.tokenUsage, provider: result.provider },
+    body.embedding
+  );
+}
+
+/**
+ * Response fields for a shunt served from the cache. No tokens were spent, so usage is reported as zero.
+ */
+function cachedShuntResponse(hit: CacheHit, startTime: number): ShuntResponse {
+  const { response, key, createdAt } = hit.entry;
+  return {
+    resultText: response.resultText,
+    tokenUsage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, model: response.tokenUsage.model },
+    latencyMs: Date.now() - startTime,
+    provider: response.provider,
+    routing: { rule: null, fallbackFrom: [] },
+    cache: {
+      hit: true,
+      mode: hit.mode,
+      similarity: hit.similarity,
+      key,
+      ageMs: Date.now() - createdAt,
+      savedTokens: response.tokenUsage.total_tokens,
+    },
+  };
+}
+
+/**
+ * Run one validated shunt: serve it from the cache if possible, otherwise route it to a model,
+ * then record usage and cache the result. Streams partial output through `onChunk` when given.
+ */
+async function runShunt(
+  req: AuthenticatedRequest,
+  body: ShuntActionRequest,
+  onChunk?: (text: string) => void,
+  signal?: AbortSignal
+): Promise<ShuntResponse> {
+  const { text, action, modelName, context, priority, promptInjectionGuardEnabled } = body;
+  const startTime = Date.now();
+
+  const cached = lookupShuntCache(req, body);
+  if (cached) {
+    logger.info('Shunt served from cache', { userId: req.userId, action, mode: cached.mode });
+    return cachedShuntResponse(cached, startTime);
+  }
+
+  const prompt = buildShuntPrompt({ text, action, context, priority, promptInjectionGuardEnabled });
+  const config = getShuntRequestConfig(action, modelName);
+
+  const result = await modelRouter.route(
+    { prompt, models: { gemini: modelName }, config },
+    shuntRouteContext(req, body),
+    onChunk,
+    signal
+  );
+  const resultText = cleanShuntResult(action, result.text);
+
+  recordUsage(req, result.tokenUsage, result.provider);
+  storeShuntResult(req, body, resultText, result);
+
+  return {
+    resultText,
+    tokenUsage: result.tokenUsage,
+    latencyMs: Date.now() - startTime,
+    provider: result.provider,
+    routing: result.routing,
+    cache: { hit: false },
+  };
+}
+
+// Apply authentication, rate limiting and per-key token quotas to all routes
 router.use(authenticateApiKey);
 router.use(aiRateLimiter);
+router.use(enforceTokenQuota);
+
+// Multi-turn chat sessions: /api/gemini/chat/sessions/*
+router.use('/chat', chatRoutes);
 
 /**
  * POST /api/gemini/shunt
- * Perform a shunt action (main Gemini operation from frontend)
+ * Perform a shunt action through the model router (Gemini first by default, falling back to local providers)
  */
 router.post(
   '/shunt',
+  requireScope('gemini:shunt'),
   validateRequest(shuntActionSchema),
   checkPromptInjection,
+  enforceUsageLimit('shuntRuns'),
   async (req: AuthenticatedRequest, res: Response) => {
-    const { text, action, modelName, context, priority } = req.body;
+    const { text, action, modelName } = req.body as ShuntActionRequest;
     const startTime = Date.now();
 
     try {
@@ -45,56 +222,176 @@ router.post(
         textLength: text.length,
       });
 
-      // Build prompt based on action (simplified - you'll need to port the full prompt logic)
-      const prompt = context
-        ? `Action: ${action}\n\nContext: ${context}\n\nPriority: ${priority || 'normal'}\n\nText: ${text}`
-        : `Action: ${action}\n\nText: ${text}`;
+      const response = await runShunt(req, req.body);
 
-      const config =
-        modelName.includes('pro') && (action === 'make_actionable' || action === 'build_skill')
-          ? { thinkingConfig: { thinkingBudget: 32768 } }
-          : undefined;
+      logger.info('Shunt request completed', {
+        userId: req.userId,
+        action,
+        provider: response.provider,
+        cacheHit: response.cache.hit,
+        latencyMs: response.latencyMs,
+        totalTokens: response.tokenUsage.total_tokens,
+      });
 
-      const result = await geminiService.generateContent(prompt, modelName, config);
+      res.json(response);
+    } catch (error) {
+      logger.error('Shunt request failed', {
+        userId: req.userId,
+        action,
+        error,
+        latencyMs: Date.now() - startTime,
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to process shunt request',
+      });
+    }
+  }
+);
 
-      // Clean JSON responses if needed
-      let resultText = result.text;
-      if (action === 'format_json' || action === 'make_actionable') {
-        resultText = resultText.trim();
-        if (resultText.startsWith('```')) {
-          const firstNewLine = resultText.indexOf('\n');
-          resultText = firstNewLine !== -1 ? resultText.substring(firstNewLine + 1) : resultText.substring(3);
-        }
-        if (resultText.endsWith('```')) {
-          resultText = resultText.substring(0, resultText.length - 3);
-        }
-        resultText = resultText.trim();
-      }
+/**
+ * POST /api/gemini/shunt/stream
+ * Streaming variant of /shunt (Server-Sent Events)
+ *
+ * Events: `chunk` { text } for each partial token batch, then `done` { resultText, tokenUsage, latencyMs, provider, routing, cache }
+ * or `error` { error, message }. Cache hits send `done` straight away. `resultText` is the cleaned final output and replaces the streamed text.
+ */
+router.post(
+  '/shunt/stream',
+  requireScope('gemini:shunt'),
+  validateRequest(shuntActionSchema),
+  checkPromptInjection,
+  enforceUsageLimit('shuntRuns'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { text, action, modelName } = req.body as ShuntActionRequest;
+    const startTime = Date.now();
+    const stream = openEventStream(res);
 
-      const latencyMs = Date.now() - startTime;
+    try {
+      logger.info('Shunt stream request received', {
+        userId: req.userId,
+        action,
+        model: modelName,
+        textLength: text.length,
+      });
 
-      logger.info('Shunt request completed', {
+      const response = await runShunt(req, req.body, (chunk) => stream.send('chunk', { text: chunk }), stream.signal);
+
+      logger.info('Shunt stream completed', {
         userId: req.userId,
         action,
-        latencyMs,
-        totalTokens: result.tokenUsage.total_tokens,
+        provider: response.provider,
+        cacheHit: response.cache.hit,
+        latencyMs: response.latencyMs,
+        totalTokens: response.tokenUsage.total_tokens,
       });
 
-      res.json({
-        resultText,
-        tokenUsage: result.tokenUsage,
+      stream.send('done', response);
+    } catch (error) {
+      if (stream.signal.aborted) {
+        logger.info('Shunt stream cancelled by client', { userId: req.userId, action });
+      } else {
+        logger.error('Shunt stream failed', {
+          userId: req.userId,
+          action,
+          error,
+          latencyMs: Date.now() - startTime,
+        });
+        stream.send('error', {
+          error: 'Internal Server Error',
+          message: 'Failed to process shunt request',
+        });
+      }
+    } finally {
+      stream.end();
+    }
+  }
+);
+
+/**
+ * POST /api/gemini/shunt/batch
+ * Apply one shunt action to many inputs. Items run with bounded concurrency and each counts as one shunt run.
+ * A failed item is reported in its result and does not fail the batch.
+ */
+router.post(
+  '/shunt/batch',
+  requireScope('gemini:shunt'),
+  validateRequest(shuntBatchSchema),
+  checkPromptInjection,
+  enforceUsageLimit('shuntRuns', (req) => req.body.items.length),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { items, concurrency, ...options } = req.body as ShuntBatchRequest;
+    const startTime = Date.now();
+
+    // Stop starting new items once the client has gone
+    const controller = new AbortController();
+    res.on('close', () => {
+      if (!res.writableFinished) controller.abort();
+    });
+
+    try {
+      logger.info('Shunt batch request received', {
+        userId: req.userId,
+        action: options.action,
+        model: options.modelName,
+        items: items.length,
+        concurrency,
+      });
+
+      const results = await mapWithConcurrency(
+        items,
+        concurrency,
+        async (item, index): Promise<ShuntBatchItemResult> => {
+          const id = item.id ?? String(index);
+          try {
+            return { id, ...(await runShunt(req, { ...options, text: item.text, embedding: item.embedding })) };
+          } catch (error) {
+            logger.warn('Shunt batch item failed', { userId: req.userId, action: options.action, id, error });
+            return {
+              id,
+              error: error instanceof ModelRouterError ? error.message : 'Failed to process shunt request',
+            };
+          }
+        },
+        {
+          signal: controller.signal,
+          onSkipped: (item, index) => ({ id: item.id ?? String(index), error: 'Batch cancelled' }),
+        }
+      );
+
+      const completed = results.filter((result): result is { id: string } & ShuntResponse => !('error' in result));
+      const tokenUsage = {
+        prompt_tokens: completed.reduce((sum, result) => sum + result.tokenUsage.prompt_tokens, 0),
+        completion_tokens: completed.reduce((sum, result) => sum + result.tokenUsage.completion_tokens, 0),
+        total_tokens: completed.reduce((sum, result) => sum + result.tokenUsage.total_tokens, 0),
+      };
+      const summary = {
+        total: results.length,
+        succeeded: completed.length,
+        failed: results.length - completed.length,
+        cacheHits: completed.filter((result) => result.cache.hit).length,
+      };
+      const latencyMs = Date.now() - startTime;
+
+      logger.info('Shunt batch completed', {
+        userId: req.userId,
+        action: options.action,
+        ...summary,
         latencyMs,
+        totalTokens: tokenUsage.total_tokens,
       });
+
+      res.json({ results, tokenUsage, summary, latencyMs });
     } catch (error) {
-      logger.error('Shunt request failed', {
+      logger.error('Shunt batch failed', {
         userId: req.userId,
-        action,
+        action: options.action,
         error,
         latencyMs: Date.now() - startTime,
       });
       res.status(500).json({
         error: 'Internal Server Error',
-        message: 'Failed to process shunt request',
+        message: 'Failed to process shunt batch',
       });
     }
   }
@@ -106,10 +403,12 @@ router.post(
  */
 router.post(
   '/modular-prompt',
+  requireScope('gemini:shunt'),
   validateRequest(modularPromptSchema),
   checkPromptInjection,
+  enforceUsageLimit('shuntRuns'),
   async (req: AuthenticatedRequest, res: Response) => {
-    const { text, modules, context, priority } = req.body;
+    const { text, modules, context, priority, promptInjectionGuardEnabled } = req.body;
     const startTime = Date.now();
 
     try {
@@ -119,14 +418,14 @@ router.post(
         textLength: text.length,
       });
 
-      // Build modular prompt (you'll need to port the full logic from frontend)
-      const prompt = `Modules: ${modules.join(', ')}\n\nText: ${text}\n\nContext: ${context || 'none'}`;
+      const prompt = buildModularPrompt(text, modules, context, priority, promptInjectionGuardEnabled);
 
       const result = await geminiService.generateContent(prompt, 'gemini-2.5-pro', {
         thinkingConfig: { thinkingBudget: 32768 },
       });
 
       const latencyMs = Date.now() - startTime;
+      recordUsage(req, result.tokenUsage);
 
       logger.info('Modular prompt completed', {
         userId: req.userId,
@@ -159,6 +458,7 @@ router.post(
  */
 router.post(
   '/analyze-image',
+  requireScope('image:analyze'),
   validateRequest(imageAnalysisSchema),
   async (req: AuthenticatedRequest, res: Response) => {
     const { prompt, image, modelName } = req.body;
@@ -174,6 +474,7 @@ router.post(
       const result = await geminiService.generateContentWithImage(prompt, image, modelName);
 
       const latencyMs = Date.now() - startTime;
+      recordUsage(req, result.tokenUsage);
 
       logger.info('Image analysis completed', {
         userId: req.userId,
@@ -200,12 +501,69 @@ router.post(
   }
 );
 
+/**
+ * POST /api/gemini/development-plan
+ * Weaver development plan for a goal and the project context. The prompt is built here so every plan
+ * counts against the weaverPlans limit, whatever the client sends.
+ */
+router.post(
+  '/development-plan',
+  requireScope('gemini:generate'),
+  validateRequest(developmentPlanSchema),
+  checkPromptInjection,
+  enforceUsageLimit('weaverPlans'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { goal, context } = req.body;
+    const startTime = Date.now();
+
+    try {
+      logger.info('Development plan request received', {
+        userId: req.userId,
+        goalLength: goal.length,
+        contextLength: context.length,
+      });
+
+      const result = await geminiService.generateContent(
+        buildDevelopmentPlanPrompt(goal, context),
+        DEVELOPMENT_PLAN_MODEL,
+        DEVELOPMENT_PLAN_CONFIG
+      );
+
+      const latencyMs = Date.now() - startTime;
+      recordUsage(req, result.tokenUsage);
+
+      logger.info('Development plan completed', {
+        userId: req.userId,
+        latencyMs,
+        totalTokens: result.tokenUsage.total_tokens,
+      });
+
+      res.json({
+        resultText: result.text,
+        tokenUsage: result.tokenUsage,
+        latencyMs,
+      });
+    } catch (error) {
+      logger.error('Development plan failed', {
+        userId: req.userId,
+        error,
+        latencyMs: Date.now() - startTime,
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to generate development plan',
+      });
+    }
+  }
+);
+
 /**
  * POST /api/gemini/generate
  * Generic text generation endpoint
  */
 router.post(
   '/generate',
+  requireScope('gemini:generate'),
   validateRequest(textGenerationSchema),
   checkPromptInjection,
   async (req: AuthenticatedRequest, res: Response) => {
@@ -222,6 +580,7 @@ router.post(
       const result = await geminiService.generateContent(prompt, modelName, config);
 
       const latencyMs = Date.now() - startTime;
+      recordUsage(req, result.tokenUsage);
 
       logger.info('Generation completed', {
         userId: req.userId,
@@ -248,6 +607,69 @@ router.post(
   }
 );
 
+/**
+ * POST /api/gemini/generate/stream
+ * Streaming variant of /generate (Server-Sent Events, same events as /shunt/stream)
+ */
+router.post(
+  '/generate/stream',
+  requireScope('gemini:generate'),
+  validateRequest(textGenerationSchema),
+  checkPromptInjection,
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { prompt, modelName, config } = req.body;
+    const startTime = Date.now();
+    const stream = openEventStream(res);
+
+    try {
+      logger.info('Generation stream request received', {
+        userId: req.userId,
+        model: modelName,
+        promptLength: prompt.length,
+      });
+
+      const result = await geminiService.generateContentStream(
+        prompt,
+        modelName,
+        config,
+        (chunk) => stream.send('chunk', { text: chunk }),
+        stream.signal
+      );
+
+      const latencyMs = Date.now() - startTime;
+      recordUsage(req, result.tokenUsage);
+
+      logger.info('Generation stream completed', {
+        userId: req.userId,
+        latencyMs,
+        totalTokens: result.tokenUsage.total_tokens,
+      });
+
+      stream.send('done', {
+        resultText: result.text,
+        tokenUsage: result.tokenUsage,
+        latencyMs,
+      });
+    } catch (error) {
+      if (stream.signal.aborted) {
+        logger.info('Generation stream cancelled by client', { userId: req.userId });
+      } else {
+        logger.error('Generation stream failed', {
+          userId: req.userId,
+          error,
+          latencyMs: Date.now() - startTime,
+        });
+        stream.send('error', {
+          error: 'Internal Server Error',
+          message: 'Failed to generate content',
+        });
+      }
+    } finally {
+      stream.end();
+    }
+  }
+);
+
 /**
  * GET /api/gemini/health
  * Health check endpoint
@@ -0,0 +1,80 @@
+/**
+ * Governance Routes
+ * Rule-based directives for the frontend's autonomous layer, and the audit log of past decisions
+ */
+
+import { Router, Response } from 'express';
+import { governanceEngine } from '../services/governanceEngine.js';
+import { logger } from '../utils/logger.js';
+import { standardRateLimiter } from '../middleware/rateLimiter.js';
+import { authenticateApiKey, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import { hasScope } from '../services/apiKeyStore.js';
+import {
+  validateRequest,
+  governanceDecisionSchema,
+  governanceAuditQuerySchema,
+  type GovernanceDecisionRequest,
+  type GovernanceAuditQuery,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+router.use(standardRateLimiter);
+router.use(authenticateApiKey);
+
+/**
+ * POST /api/governance/decisions
+ * Evaluate the governance rules over a batch of UserTelemetryEvents and return directives
+ */
+router.post(
+  '/decisions',
+  validateRequest(governanceDecisionSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const request = req.body as GovernanceDecisionRequest;
+
+    try {
+      const response = await governanceEngine.decide(req.userId ?? 'anonymous', request);
+      res.json(response);
+    } catch (error) {
+      logger.error('Governance decision failed', {
+        userId: req.userId,
+        count: request.events.length,
+        error,
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to evaluate governance rules',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/governance/decisions
+ * Audit log of recorded decisions, newest first. Keys without the admin:audit scope only see their own
+ * decisions, whatever userId they ask for.
+ */
+router.get(
+  '/decisions',
+  requireScope('telemetry:read'),
+  validateRequest(governanceAuditQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const requested = req.query as unknown as GovernanceAuditQuery;
+    const query: GovernanceAuditQuery = hasScope(req.scopes ?? [], 'admin:audit')
+      ? requested
+      : { ...requested, userId: req.userId ?? 'anonymous' };
+
+    try {
+      const decisions = await governanceEngine.queryAudit(query);
+      res.json({ decisions, count: decisions.length });
+    } catch (error) {
+      logger.error('Governance audit query failed', { userId: req.userId, query, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to read governance decisions',
+      });
+    }
+  }
+);
+
+export default router;
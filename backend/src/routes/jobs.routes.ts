@@ -0,0 +1,228 @@
+/**
+ * Background Job Routes
+ * Submit, follow and cancel long-running jobs executed by the job queue
+ */
+
+import { Router, Response, NextFunction } from 'express';
+import {
+  jobQueue,
+  JobQueueFullError,
+  isJobFinished,
+  toJobView,
+  type JobRecord,
+} from '../services/jobQueue.js';
+import { logger } from '../utils/logger.js';
+import { openEventStream } from '../utils/sse.js';
+import { aiRateLimiter } from '../middleware/rateLimiter.js';
+import {
+  authenticateApiKey,
+  requireScope,
+  enforceTokenQuota,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js';
+import { enforceUsageLimit } from '../middleware/usage.js';
+import {
+  validateRequest,
+  jobSubmitSchema,
+  jobListQuerySchema,
+  detectPromptInjection,
+  type JobSubmitRequest,
+  type JobListQuery,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+interface JobRequest extends AuthenticatedRequest {
+  /** Job named by :id, set by loadJob */
+  job?: JobRecord;
+}
+
+/**
+ * Resolve :id to one of the caller's jobs, or respond 404
+ */
+function loadJob(req: JobRequest, res: Response, next: NextFunction): void {
+  const job = jobQueue.get(req.params.id, req.userId ?? 'anonymous');
+  if (!job) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: 'Job not found',
+    });
+    return;
+  }
+
+  req.job = job;
+  next();
+}
+
+/**
+ * User-written text in a job submission, checked for prompt injection before it is queued
+ */
+function submittedTexts(request: JobSubmitRequest): string[] {
+  switch (request.type) {
+    case 'plan':
+      return [request.input.prompt];
+    case 'shunt_batch':
+      return request.input.items.map((item) => item.text);
+    case 'foundry_run':
+      return [request.input.goal];
+    case 'rag_index_build':
+      return [];
+  }
+}
+
+function rejectPromptInjection(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  const text = submittedTexts(req.body as JobSubmitRequest).find(detectPromptInjection);
+  if (text !== undefined) {
+    logger.warn('Potential prompt injection detected', {
+      endpoint: req.path,
+      textPreview: text.substring(0, 100),
+    });
+    res.status(400).json({
+      error: 'Invalid Input',
+      message: 'Potential prompt injection detected. Please rephrase your request.',
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * Shunt batches count one shunt run per item against the plan, checked when they are submitted
+ */
+const enforceShuntBatchLimit = enforceUsageLimit('shuntRuns', (req) => req.body.input.items.length);
+
+function enforceJobUsageLimit(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  if ((req.body as JobSubmitRequest).type === 'shunt_batch') {
+    void enforceShuntBatchLimit(req, res, next);
+    return;
+  }
+  next();
+}
+
+router.use(authenticateApiKey);
+router.use(requireScope('jobs:run'));
+
+/**
+ * POST /api/jobs
+ * Queue a job. Responds 202 with the pending job; follow it with GET /:id/events.
+ */
+router.post(
+  '/',
+  aiRateLimiter,
+  enforceTokenQuota,
+  validateRequest(jobSubmitSchema),
+  rejectPromptInjection,
+  enforceJobUsageLimit,
+  (req: AuthenticatedRequest, res: Response) => {
+    const request = req.body as JobSubmitRequest;
+
+    try {
+      const job = jobQueue.submit({ userId: req.userId ?? 'anonymous', apiKeyId: req.apiKeyId }, request);
+      logger.info('Job submitted', { userId: req.userId, jobId: job.id, type: job.type, priority: job.priority });
+      res.status(202).json({ job });
+    } catch (error) {
+      if (error instanceof JobQueueFullError) {
+        res.status(429).json({
+          error: 'Too Many Requests',
+          message: error.message,
+        });
+        return;
+      }
+      logger.error('Job submission failed', { userId: req.userId, type: request.type, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to submit job',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/jobs
+ * The caller's jobs, newest first, optionally filtered by status and type
+ */
+router.get('/', validateRequest(jobListQuerySchema, 'query'), (req: AuthenticatedRequest, res: Response) => {
+  res.json({ jobs: jobQueue.list(req.userId ?? 'anonymous', req.query as unknown as JobListQuery) });
+});
+
+/**
+ * GET /api/jobs/:id
+ */
+router.get('/:id', loadJob, (req: JobRequest, res: Response) => {
+  res.json({ job: toJobView(req.job!) });
+});
+
+/**
+ * POST /api/jobs/:id/cancel
+ * Cancel a pending or running job. Running jobs stop at their next step.
+ */
+router.post('/:id/cancel', loadJob, (req: JobRequest, res: Response) => {
+  const job = req.job!;
+  if (!jobQueue.cancel(job)) {
+    res.status(409).json({
+      error: 'Conflict',
+      message: `Job has already finished (${job.status})`,
+    });
+    return;
+  }
+
+  logger.info('Job cancellation requested', { userId: req.userId, jobId: job.id, status: job.status });
+  res.json({ job: toJobView(job) });
+});
+
+/**
+ * GET /api/jobs/:id/artifact
+ * Structured output of a completed job (per-item results, agent audits or the vector index)
+ */
+router.get('/:id/artifact', loadJob, async (req: JobRequest, res: Response) => {
+  try {
+    const artifact = await jobQueue.readArtifact(req.job!);
+    if (artifact === null) {
+      res.status(404).json({
+        error: 'Not Found',
+        message: 'This job has no artifact',
+      });
+      return;
+    }
+    res.json({ artifact });
+  } catch (error) {
+    logger.error('Failed to read job artifact', { userId: req.userId, jobId: req.job!.id, error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to read job artifact',
+    });
+  }
+});
+
+/**
+ * GET /api/jobs/:id/events
+ * Follow a job (Server-Sent Events)
+ *
+ * Events: `snapshot` { job } first, then `log` { log } and `status` { job } as they happen. The stream ends after
+ * the `status` event of a finished job; for a job that has already finished only the snapshot is sent.
+ */
+router.get('/:id/events', loadJob, (req: JobRequest, res: Response) => {
+  const job = req.job!;
+  const stream = openEventStream(res);
+  stream.send('snapshot', { job: toJobView(job) });
+
+  if (isJobFinished(job)) {
+    stream.end();
+    return;
+  }
+
+  const unsubscribe = jobQueue.subscribe(job.id, (event) => {
+    if (event.type === 'log') {
+      stream.send('log', { log: event.log });
+      return;
+    }
+    stream.send('status', { job: event.job });
+    if (isJobFinished(event.job)) {
+      unsubscribe();
+      stream.end();
+    }
+  });
+  stream.signal.addEventListener('abort', unsubscribe);
+});
+
+export default router;
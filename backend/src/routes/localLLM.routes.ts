@@ -11,11 +11,46 @@ import {
   checkOllamaHealth,
   getLMStudioModels,
   getOllamaModels,
+  streamLocalLLM,
+  toTokenUsage,
 } from '../services/localLLMService';
 import { logger } from '../utils/logger';
+import { openEventStream } from '../utils/sse';
+import { authenticateApiKey, requireScope } from '../middleware/auth';
+import { enforceUsageLimit, recordUsage } from '../middleware/usage';
 
 const router = Router();
 
+/**
+ * Flatten role-tagged chat messages into a system prompt and a transcript prompt.
+ * LM Studio could take the native chat format, but Ollama's /api/generate needs a single prompt.
+ */
+function flattenChatMessages(messages: Array<{ role: string; content: string }>): {
+  systemPrompt?: string;
+  prompt: string;
+} {
+  let systemPrompt = '';
+  let userPrompt = '';
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      systemPrompt += msg.content + '\n';
+    } else if (msg.role === 'user') {
+      userPrompt += `User: ${msg.content}\n`;
+    } else if (msg.role === 'assistant') {
+      userPrompt += `Assistant: ${msg.content}\n`;
+    }
+  }
+
+  // Add final prompt indicator
+  userPrompt += 'Assistant:';
+
+  return {
+    systemPrompt: systemPrompt.trim() || undefined,
+    prompt: userPrompt.trim(),
+  };
+}
+
 /**
  * Health check for local LLM providers
  */
@@ -76,7 +111,7 @@ router.get('/models', async (req: Request, res: Response) => {
 /**
  * Generate text using local LLM
  */
-router.post('/generate', async (req: Request, res: Response) => {
+router.post('/generate', authenticateApiKey, requireScope('local-llm:generate'), async (req: Request, res: Response) => {
   try {
     const {
       prompt,
@@ -101,6 +136,7 @@ router.post('/generate', async (req: Request, res: Response) => {
       },
       provider
     );
+    recordUsage(req, toTokenUsage(response), provider);
 
     res.json({
       text: response.text,
@@ -129,7 +165,7 @@ router.post('/generate', async (req: Request, res: Response) => {
 /**
  * Perform Shunt action using local LLM
  */
-router.post('/shunt', async (req: Request, res: Response) => {
+router.post('/shunt', authenticateApiKey, requireScope('local-llm:generate'), enforceUsageLimit('shuntRuns'), async (req: Request, res: Response) => {
   try {
     const {
       text,
@@ -154,6 +190,7 @@ router.post('/shunt', async (req: Request, res: Response) => {
       provider,
       model
     );
+    recordUsage(req, toTokenUsage(response), provider);
 
     res.json({
       resultText: response.text,
@@ -182,7 +219,7 @@ router.post('/shunt', async (req: Request, res: Response) => {
 /**
  * Chat completion using local LLM (multi-turn conversation)
  */
-router.post('/chat', async (req: Request, res: Response) => {
+router.post('/chat', authenticateApiKey, requireScope('local-llm:chat'), async (req: Request, res: Response) => {
   try {
     const {
       messages,
@@ -196,34 +233,19 @@ router.post('/chat', async (req: Request, res: Response) => {
       return res.status(400).json({ error: 'Messages array is required' });
     }
 
-    // For LM Studio, we can use the native chat format
-    // For Ollama, we need to convert to a single prompt
-    let systemPrompt = '';
-    let userPrompt = '';
-
-    for (const msg of messages) {
-      if (msg.role === 'system') {
-        systemPrompt += msg.content + '\n';
-      } else if (msg.role === 'user') {
-        userPrompt += `User: ${msg.content}\n`;
-      } else if (msg.role === 'assistant') {
-        userPrompt += `Assistant: ${msg.content}\n`;
-      }
-    }
-
-    // Add final prompt indicator
-    userPrompt += 'Assistant:';
+    const { systemPrompt, prompt } = flattenChatMessages(messages);
 
     const response = await callLocalLLM(
       {
-        prompt: userPrompt.trim(),
-        systemPrompt: systemPrompt.trim() || undefined,
+        prompt,
+        systemPrompt,
         temperature,
         maxTokens,
         model,
       },
       provider
     );
+    recordUsage(req, toTokenUsage(response), provider);
 
     res.json({
       text: response.text,
@@ -248,4 +270,69 @@ router.post('/chat', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * Streaming chat completion using local LLM (Server-Sent Events)
+ *
+ * Events: `chunk` { text }, then `done` { resultText, tokenUsage, latencyMs, provider } or `error` { error, details }
+ */
+router.post('/chat/stream', authenticateApiKey, requireScope('local-llm:chat'), async (req: Request, res: Response) => {
+  const {
+    messages,
+    provider = 'lmstudio',
+    model,
+    temperature,
+    maxTokens,
+  } = req.body;
+
+  if (!messages || !Array.isArray(messages)) {
+    return res.status(400).json({ error: 'Messages array is required' });
+  }
+
+  const startTime = Date.now();
+  const stream = openEventStream(res);
+
+  try {
+    const { systemPrompt, prompt } = flattenChatMessages(messages);
+
+    const response = await streamLocalLLM(
+      {
+        prompt,
+        systemPrompt,
+        temperature,
+        maxTokens,
+        model,
+      },
+      provider,
+      (chunk) => stream.send('chunk', { text: chunk }),
+      stream.signal
+    );
+
+    const tokenUsage = toTokenUsage(response);
+    recordUsage(req, tokenUsage, provider);
+
+    stream.send('done', {
+      resultText: response.text,
+      tokenUsage,
+      latencyMs: Date.now() - startTime,
+      provider,
+    });
+  } catch (error: any) {
+    if (stream.signal.aborted) {
+      logger.info('Local LLM chat stream cancelled by client', { provider });
+    } else {
+      logger.error('Local LLM chat stream failed', { error: error.message });
+
+      const unavailable = error.message.includes('ECONNREFUSED') || error.message.includes('fetch failed');
+      stream.send('error', {
+        error: unavailable
+          ? `Local LLM service unavailable. Make sure ${provider || 'LM Studio'} is running.`
+          : 'Local LLM chat failed',
+        details: error.message,
+      });
+    }
+  } finally {
+    stream.end();
+  }
+});
+
 export default router;
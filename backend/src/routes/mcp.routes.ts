@@ -0,0 +1,164 @@
+/**
+ * MCP Routes
+ * Proxy to the configured Model Context Protocol servers: list their tools, resources and prompts, and call tools
+ */
+
+import { Router, Response, NextFunction } from 'express';
+import { mcpServers } from '../services/mcpServerRegistry.js';
+import { McpError, MCP_ERROR_CODES } from '../services/mcpClient.js';
+import { logger } from '../utils/logger.js';
+import { standardRateLimiter } from '../middleware/rateLimiter.js';
+import { authenticateApiKey, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import {
+  validateRequest,
+  mcpToolCallSchema,
+  mcpResourceReadSchema,
+  mcpPromptGetSchema,
+  type McpToolCallRequest,
+  type McpResourceReadRequest,
+  type McpPromptGetRequest,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+router.use(standardRateLimiter);
+router.use(authenticateApiKey);
+
+/**
+ * Respond 404 unless :serverId names a configured server
+ */
+function requireServer(req: AuthenticatedRequest, res: Response, next: NextFunction): void {
+  if (!mcpServers.has(req.params.serverId)) {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `MCP server '${req.params.serverId}' is not configured`,
+    });
+    return;
+  }
+  next();
+}
+
+/**
+ * 504 for timeouts and 502 for anything else the MCP server (or the connection to it) got wrong
+ */
+function sendMcpError(req: AuthenticatedRequest, res: Response, action: string, error: unknown): void {
+  if (error instanceof McpError) {
+    logger.warn(`MCP ${action} failed`, { userId: req.userId, serverId: req.params.serverId, code: error.code, error: error.message });
+    const timedOut = error.code === MCP_ERROR_CODES.REQUEST_TIMEOUT;
+    res.status(timedOut ? 504 : 502).json({
+      error: timedOut ? 'Gateway Timeout' : 'Bad Gateway',
+      message: error.message,
+      code: error.code,
+    });
+    return;
+  }
+  logger.error(`MCP ${action} failed`, { userId: req.userId, serverId: req.params.serverId, error });
+  res.status(500).json({
+    error: 'Internal Server Error',
+    message: `Failed to ${action}`,
+  });
+}
+
+/**
+ * GET /api/mcp/servers
+ * Configured servers and their connection state
+ */
+router.get('/servers', requireScope('mcp:read'), (req: AuthenticatedRequest, res: Response) => {
+  res.json({ servers: mcpServers.list() });
+});
+
+/**
+ * GET /api/mcp/servers/:serverId/tools
+ * The server's tools with their input schemas; connects on first use
+ */
+router.get('/servers/:serverId/tools', requireScope('mcp:read'), requireServer, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ tools: await mcpServers.listTools(req.params.serverId) });
+  } catch (error) {
+    sendMcpError(req, res, 'list tools', error);
+  }
+});
+
+/**
+ * GET /api/mcp/servers/:serverId/resources
+ */
+router.get('/servers/:serverId/resources', requireScope('mcp:read'), requireServer, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ resources: await mcpServers.listResources(req.params.serverId) });
+  } catch (error) {
+    sendMcpError(req, res, 'list resources', error);
+  }
+});
+
+/**
+ * GET /api/mcp/servers/:serverId/prompts
+ */
+router.get('/servers/:serverId/prompts', requireScope('mcp:read'), requireServer, async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json({ prompts: await mcpServers.listPrompts(req.params.serverId) });
+  } catch (error) {
+    sendMcpError(req, res, 'list prompts', error);
+  }
+});
+
+/**
+ * POST /api/mcp/servers/:serverId/tools/call
+ * Call a tool and return its result. A tool that ran and failed is still a 200, with `isError: true`.
+ */
+router.post(
+  '/servers/:serverId/tools/call',
+  requireScope('mcp:call'),
+  requireServer,
+  validateRequest(mcpToolCallSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const request = req.body as McpToolCallRequest;
+
+    try {
+      const result = await mcpServers.callTool(req.params.serverId, request.name, request.arguments);
+      logger.info('MCP tool called', { userId: req.userId, serverId: req.params.serverId, tool: request.name, isError: result.isError ?? false });
+      res.json(result);
+    } catch (error) {
+      sendMcpError(req, res, `call tool '${request.name}'`, error);
+    }
+  }
+);
+
+/**
+ * POST /api/mcp/servers/:serverId/resources/read
+ */
+router.post(
+  '/servers/:serverId/resources/read',
+  requireScope('mcp:read'),
+  requireServer,
+  validateRequest(mcpResourceReadSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const request = req.body as McpResourceReadRequest;
+
+    try {
+      res.json({ contents: await mcpServers.readResource(req.params.serverId, request.uri) });
+    } catch (error) {
+      sendMcpError(req, res, 'read resource', error);
+    }
+  }
+);
+
+/**
+ * POST /api/mcp/servers/:serverId/prompts/get
+ */
+router.post(
+  '/servers/:serverId/prompts/get',
+  requireScope('mcp:read'),
+  requireServer,
+  validateRequest(mcpPromptGetSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const request = req.body as McpPromptGetRequest;
+
+    try {
+      res.json(await mcpServers.getPrompt(req.params.serverId, request.name, request.arguments));
+    } catch (error) {
+      sendMcpError(req, res, 'get prompt', error);
+    }
+  }
+);
+
+export default router;
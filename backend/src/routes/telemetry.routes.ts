@@ -0,0 +1,125 @@
+/**
+ * Telemetry Routes
+ * Ingestion and query endpoints for frontend interaction events
+ */
+
+import { Router, Response } from 'express';
+import { telemetryStore } from '../services/telemetryStore.js';
+import { hasScope } from '../services/apiKeyStore.js';
+import { logger } from '../utils/logger.js';
+import { standardRateLimiter } from '../middleware/rateLimiter.js';
+import {
+  authenticateApiKey,
+  optionalAuth,
+  requireScope,
+  type AuthenticatedRequest,
+} from '../middleware/auth.js';
+import {
+  validateRequest,
+  telemetryBatchSchema,
+  telemetryQuerySchema,
+  type InteractionEvent,
+  type TelemetryQuery,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+router.use(standardRateLimiter);
+
+/**
+ * POST /api/telemetry/events
+ * Ingest a batch of interaction events.
+ * Authentication is optional because navigator.sendBeacon cannot set the x-api-key header on unload.
+ * Stored events carry the caller's identity, not the userID the client sent.
+ */
+router.post(
+  '/events',
+  optionalAuth,
+  validateRequest(telemetryBatchSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const userID = req.userId ?? 'anonymous';
+    const events: InteractionEvent[] = (req.body as InteractionEvent[]).map((event) => ({ ...event, userID }));
+
+    try {
+      await telemetryStore.append(events);
+
+      logger.debug('Telemetry batch stored', {
+        userId: req.userId,
+        count: events.length,
+      });
+
+      res.status(202).json({ accepted: events.length });
+    } catch (error) {
+      logger.error('Telemetry ingestion failed', {
+        userId: req.userId,
+        count: events.length,
+        error,
+      });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to store telemetry events',
+      });
+    }
+  }
+);
+
+/**
+ * Keys without admin:telemetry only see their own events
+ */
+function scopeToCaller<T extends { userID?: string }>(req: AuthenticatedRequest, requested: T): T {
+  return hasScope(req.scopes ?? [], 'admin:telemetry')
+    ? requested
+    : { ...requested, userID: req.userId ?? 'anonymous' };
+}
+
+/**
+ * GET /api/telemetry/events
+ * Query stored events by sessionID, userID, tab, eventType, outcome and time range (newest first)
+ */
+router.get(
+  '/events',
+  authenticateApiKey,
+  requireScope('telemetry:read'),
+  validateRequest(telemetryQuerySchema, 'query'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const query = scopeToCaller(req, req.query as unknown as TelemetryQuery);
+
+    try {
+      const events = await telemetryStore.query(query);
+      res.json({ events, count: events.length });
+    } catch (error) {
+      logger.error('Telemetry query failed', { userId: req.userId, query, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to query telemetry events',
+      });
+    }
+  }
+);
+
+/**
+ * GET /api/telemetry/summary
+ * Aggregate counts, latency and token usage over the same filters as /events
+ */
+router.get(
+  '/summary',
+  authenticateApiKey,
+  requireScope('telemetry:read'),
+  validateRequest(telemetryQuerySchema.omit({ limit: true }), 'query'),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const filter = scopeToCaller(req, req.query as unknown as Omit<TelemetryQuery, 'limit'>);
+
+    try {
+      const summary = await telemetryStore.summarize(filter);
+      res.json(summary);
+    } catch (error) {
+      logger.error('Telemetry summary failed', { userId: req.userId, filter, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to summarize telemetry events',
+      });
+    }
+  }
+);
+
+export default router;
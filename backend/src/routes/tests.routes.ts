@@ -0,0 +1,48 @@
+/**
+ * Test Runner Routes
+ * Executes generated tests in the test sandbox so agents get real pass/fail results
+ */
+
+import { Router, Response } from 'express';
+import { testSandbox } from '../services/testSandbox.js';
+import { logger } from '../utils/logger.js';
+import { aiRateLimiter } from '../middleware/rateLimiter.js';
+import { authenticateApiKey, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import { validateRequest, testRunSchema, type TestRunRequest } from '../middleware/validation.js';
+
+const router = Router();
+
+router.use(authenticateApiKey);
+router.use(requireScope('tests:run'));
+// Each run starts a node process, so it shares the stricter limit of the AI endpoints
+router.use(aiRateLimiter);
+
+/**
+ * POST /api/tests/run
+ * Run test files against source files in an isolated process and return a result per test file
+ */
+router.post('/run', validateRequest(testRunSchema), async (req: AuthenticatedRequest, res: Response) => {
+  const run = req.body as TestRunRequest;
+
+  try {
+    const result = await testSandbox.run(run);
+
+    logger.info('Sandboxed test run finished', {
+      userId: req.userId,
+      tests: run.tests.length,
+      files: run.files.length,
+      passed: result.results.filter((r) => r.passed).length,
+      durationMs: result.durationMs,
+    });
+
+    res.json(result);
+  } catch (error) {
+    logger.error('Sandboxed test run failed', { userId: req.userId, error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to run tests',
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,97 @@
+/**
+ * Usage Routes
+ * Month-to-date consumption, metered action recording and admin subscription tier changes
+ */
+
+import { Router, Response } from 'express';
+import { usageLedger } from '../services/usageLedger.js';
+import { logger } from '../utils/logger.js';
+import { standardRateLimiter } from '../middleware/rateLimiter.js';
+import { authenticateApiKey, requireScope, type AuthenticatedRequest } from '../middleware/auth.js';
+import { enforceUsageLimit } from '../middleware/usage.js';
+import {
+  validateRequest,
+  usageEventSchema,
+  subscriptionTierSchema,
+} from '../middleware/validation.js';
+
+const router = Router();
+
+router.use(authenticateApiKey);
+router.use(standardRateLimiter);
+
+/**
+ * GET /api/usage
+ * Month-to-date runs per metered feature, token totals, tier and limits for the caller
+ */
+router.get('/', async (req: AuthenticatedRequest, res: Response) => {
+  try {
+    res.json(await usageLedger.getSummary(req.userId!));
+  } catch (error) {
+    logger.error('Usage summary failed', { userId: req.userId, error });
+    res.status(500).json({
+      error: 'Internal Server Error',
+      message: 'Failed to load usage',
+    });
+  }
+});
+
+/**
+ * POST /api/usage/events
+ * Count a metered action that does not go through a model route (deployments, TRIM agent runs).
+ * Shunt runs and Weaver plans are counted by the model routes themselves.
+ */
+router.post(
+  '/events',
+  validateRequest(usageEventSchema),
+  enforceUsageLimit(),
+  async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      await usageLedger.record({
+        userId: req.userId!,
+        feature: req.usageFeature!,
+        route: `${req.baseUrl}${req.path}`,
+        provider: 'none',
+        model: null,
+        promptTokens: 0,
+        completionTokens: 0,
+        totalTokens: 0,
+      });
+
+      res.status(201).json(await usageLedger.getSummary(req.userId!));
+    } catch (error) {
+      logger.error('Usage event failed', { userId: req.userId, feature: req.usageFeature, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to record usage',
+      });
+    }
+  }
+);
+
+/**
+ * PUT /api/usage/tier
+ * Change a user's subscription tier. Tiers set the limits every metered route enforces, so only
+ * keys holding the admin:billing scope may change them; clients read their tier from GET /api/usage.
+ */
+router.put(
+  '/tier',
+  requireScope('admin:billing'),
+  validateRequest(subscriptionTierSchema),
+  async (req: AuthenticatedRequest, res: Response) => {
+    const { userId, tier } = req.body;
+    try {
+      await usageLedger.setTier(userId, tier);
+      logger.info('Subscription tier changed', { userId, tier, changedBy: req.userId });
+      res.json(await usageLedger.getSummary(userId));
+    } catch (error) {
+      logger.error('Tier change failed', { userId, tier, error });
+      res.status(500).json({
+        error: 'Internal Server Error',
+        message: 'Failed to change subscription tier',
+      });
+    }
+  }
+);
+
+export default router;
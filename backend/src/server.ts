@@ -11,6 +11,16 @@ import { logger } from './utils/logger.js';
 import { standardRateLimiter } from './middleware/rateLimiter.js';
 import geminiRoutes from './routes/gemini.routes.js';
 import localLLMRoutes from './routes/localLLM.routes.js';
+import telemetryRoutes from './routes/telemetry.routes.js';
+import apiKeyRoutes from './routes/apiKeys.routes.js';
+import cacheRoutes from './routes/cache.routes.js';
+import usageRoutes from './routes/usage.routes.js';
+import testRoutes from './routes/tests.routes.js';
+import jobRoutes from './routes/jobs.routes.js';
+import governanceRoutes from './routes/governance.routes.js';
+import mcpRoutes from './routes/mcp.routes.js';
+import { jobQueue } from './services/jobQueue.js';
+import { mcpServers } from './services/mcpServerRegistry.js';
 
 const app = express();
 
@@ -109,6 +119,14 @@ app.get('/ready', async (req: Request, res: Response) => {
 // API routes (with rate limiting)
 app.use('/api/gemini', geminiRoutes);
 app.use('/api/local-llm', localLLMRoutes);
+app.use('/api/telemetry', telemetryRoutes);
+app.use('/api/admin/keys', apiKeyRoutes);
+app.use('/api/admin/cache', cacheRoutes);
+app.use('/api/usage', usageRoutes);
+app.use('/api/tests', testRoutes);
+app.use('/api/jobs', jobRoutes);
+app.use('/api/governance', governanceRoutes);
+app.use('/api/mcp', mcpRoutes);
 
 // Catch-all 404
 app.use((req: Request, res: Response) => {
@@ -147,6 +165,9 @@ const server = app.listen(env.PORT, () => {
     environment: env.NODE_ENV,
     corsOrigin: env.CORS_ORIGIN,
   });
+
+  // Resume jobs that were still queued when the server last stopped
+  jobQueue.start();
 });
 
 // Graceful shutdown
@@ -154,7 +175,7 @@ process.on('SIGTERM', () => {
   logger.info('SIGTERM received, shutting down gracefully');
   server.close(() => {
     logger.info('Server closed');
-    process.exit(0);
+    mcpServers.closeAll().finally(() => process.exit(0));
   });
 });
 
@@ -162,7 +183,7 @@ process.on('SIGINT', () => {
   logger.info('SIGINT received, shutting down gracefully');
   server.close(() => {
     logger.info('Server closed');
-    process.exit(0);
+    mcpServers.closeAll().finally(() => process.exit(0));
   });
 });
 
@@ -0,0 +1,153 @@
+/**
+ * API Key Store Tests
+ * Tests for hashed key storage, scopes, rotation, revocation and monthly quotas
+ */
+
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ApiKeyStore, hasScope, hashApiKey, currentUsagePeriod } from '../apiKeyStore.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: {
+    warn: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+describe('ApiKeyStore', () => {
+  let dir: string;
+  let filePath: string;
+  let store: ApiKeyStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'api-keys-'));
+    filePath = join(dir, 'keys', 'api-keys.json');
+    store = new ApiKeyStore(filePath);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should mint a key and only persist its hash', async () => {
+    const { key, record } = await store.mint({ label: 'CI', scopes: ['gemini:shunt'] });
+
+    const file = await readFile(filePath, 'utf8');
+    expect(key).toMatch(/^sf_/);
+    expect(file).not.toContain(key);
+    expect(file).toContain(hashApiKey(key));
+    expect(record).not.toHaveProperty('keyHash');
+    expect(record.prefix).toBe(key.slice(0, 9));
+  });
+
+  it('should verify minted keys and reject unknown ones', async () => {
+    const { key, record } = await store.mint({ label: 'CI', scopes: ['gemini:shunt'] });
+
+    expect(store.verify(key)?.id).toBe(record.id);
+    expect(store.verify('sf_unknown')).toBeNull();
+  });
+
+  it('should reject expired keys', async () => {
+    const { key } = await store.mint({
+      label: 'Temp',
+      scopes: ['*'],
+      expiresAt: '2025-01-01T00:00:00.000Z',
+    });
+
+    expect(store.verify(key, new Date('2024-12-31T23:59:59.000Z'))).not.toBeNull();
+    expect(store.verify(key, new Date('2025-01-01T00:00:00.000Z'))).toBeNull();
+  });
+
+  it('should reject revoked keys', async () => {
+    const { key, record } = await store.mint({ label: 'CI', scopes: ['*'] });
+
+    const revoked = await store.revoke(record.id);
+
+    expect(revoked?.revokedAt).not.toBeNull();
+    expect(store.verify(key)).toBeNull();
+    await expect(store.revoke('missing')).resolves.toBeNull();
+  });
+
+  it('should rotate to a new key with the same settings and carry over usage', async () => {
+    const original = await store.mint({ label: 'App', scopes: ['gemini:*'], monthlyTokenQuota: 1000 });
+    await store.recordUsage(original.record.id, 400);
+
+    const rotated = await store.rotate(original.record.id);
+
+    expect(rotated).not.toBeNull();
+    expect(store.verify(original.key)).toBeNull();
+    expect(store.verify(rotated!.key)?.id).toBe(rotated!.record.id);
+    expect(rotated!.record).toMatchObject({
+      label: 'App',
+      scopes: ['gemini:*'],
+      monthlyTokenQuota: 1000,
+      rotatedFrom: original.record.id,
+      ownerId: original.record.id,
+    });
+    expect(store.remainingTokens(rotated!.record.id)).toBe(600);
+    await expect(store.rotate(original.record.id)).resolves.toBeNull();
+  });
+
+  it('should give keys stored without an owner the first key of their rotation chain', async () => {
+    const legacy = { keyHash: 'h', prefix: 'sf_', scopes: ['*'], createdAt: '2025-01-01T00:00:00.000Z', expiresAt: null, monthlyTokenQuota: null, usage: { period: '2025-01', tokens: 0 } };
+    await mkdir(join(dir, 'keys'), { recursive: true });
+    await writeFile(filePath, JSON.stringify({
+      keys: [
+        { ...legacy, id: 'third', label: 'App', revokedAt: null, rotatedFrom: 'second' },
+        { ...legacy, id: 'second', label: 'App', revokedAt: '2025-01-02T00:00:00.000Z', rotatedFrom: 'first' },
+        { ...legacy, id: 'first', label: 'App', revokedAt: '2025-01-01T00:00:00.000Z', rotatedFrom: null },
+      ],
+    }));
+
+    expect(store.list().map((k) => k.ownerId)).toEqual(['first', 'first', 'first']);
+  });
+
+  it('should track monthly usage and reset it in a new month', async () => {
+    const { record } = await store.mint({ label: 'Quota', scopes: ['*'], monthlyTokenQuota: 100 });
+    const january = new Date('2025-01-15T00:00:00.000Z');
+
+    await store.recordUsage(record.id, 70, january);
+    await store.recordUsage(record.id, 50, january);
+
+    expect(store.remainingTokens(record.id, january)).toBe(0);
+    expect(store.remainingTokens(record.id, new Date('2025-02-01T00:00:00.000Z'))).toBe(100);
+  });
+
+  it('should report no quota for unlimited keys', async () => {
+    const { record } = await store.mint({ label: 'Unlimited', scopes: ['*'] });
+
+    expect(store.remainingTokens(record.id)).toBeNull();
+  });
+
+  it('should reload persisted keys in a new store instance', async () => {
+    const { key, record } = await store.mint({ label: 'Persisted', scopes: ['telemetry:read'] });
+    await store.recordUsage(record.id, 12);
+
+    const reloaded = new ApiKeyStore(filePath);
+
+    expect(reloaded.verify(key)?.usage).toEqual({ period: currentUsagePeriod(), tokens: 12 });
+    expect(reloaded.list().map((k) => k.label)).toEqual(['Persisted']);
+  });
+});
+
+describe('hasScope', () => {
+  it('should match exact scopes', () => {
+    expect(hasScope(['gemini:shunt'], 'gemini:shunt')).toBe(true);
+    expect(hasScope(['gemini:shunt'], 'gemini:generate')).toBe(false);
+  });
+
+  it('should match area wildcards', () => {
+    expect(hasScope(['local-llm:*'], 'local-llm:chat')).toBe(true);
+    expect(hasScope(['local-llm:*'], 'gemini:shunt')).toBe(false);
+  });
+
+  it('should not let the global wildcard grant admin scopes', () => {
+    expect(hasScope(['*'], 'image:analyze')).toBe(true);
+    expect(hasScope(['*'], 'admin:keys')).toBe(false);
+    expect(hasScope(['*', 'admin:keys'], 'admin:keys')).toBe(true);
+    expect(hasScope(['admin:*'], 'admin:cache')).toBe(true);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Chat Session Store Tests
+ * Tests for session ownership, expiry and eviction, and fitting history to the context window
+ */
+
+import { ChatSessionStore, estimateTokens, type ChatSession, type ChatSummarizer } from '../chatSessionStore.js';
+
+const options = { ttlMs: 60_000, maxSessionsPerUser: 3, maxHistoryTokens: 100, keepRecentMessages: 2 };
+
+// 100 characters is 25 estimated tokens
+const turn = (label: string) => label.padEnd(100, '.');
+
+function addTurns(store: ChatSessionStore, session: ChatSession, count: number): void {
+  for (let i = 0; i < count; i++) {
+    store.appendMessage(session, 'user', turn(`question ${i}`));
+    store.appendMessage(session, 'model', turn(`answer ${i}`));
+  }
+}
+
+describe('ChatSessionStore', () => {
+  let store: ChatSessionStore;
+
+  beforeEach(() => {
+    store = new ChatSessionStore(options);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('sessions', () => {
+    it('should only return sessions to their owner', () => {
+      const session = store.create('alice', { model: 'gemini-2.5-flash' });
+
+      expect(store.get(session.id, 'alice')).toBe(session);
+      expect(store.get(session.id, 'bob')).toBeUndefined();
+      expect(store.delete(session.id, 'bob')).toBe(false);
+      expect(store.list('bob')).toEqual([]);
+    });
+
+    it('should seed a session with earlier turns', () => {
+      const session = store.create('alice', {
+        model: 'gemini-2.5-flash',
+        history: [
+          { role: 'user', text: 'Hi' },
+          { role: 'model', text: 'Hello!' },
+        ],
+      });
+
+      expect(store.contentsFor(session)).toEqual([
+        { role: 'user', parts: [{ text: 'Hi' }] },
+        { role: 'model', parts: [{ text: 'Hello!' }] },
+      ]);
+    });
+
+    it('should list sessions most recently active first with a preview', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const first = store.create('alice', { model: 'gemini-2.5-flash', title: 'First' });
+      jest.advanceTimersByTime(1000);
+      const second = store.create('alice', { model: 'gemini-2.5-pro' });
+      jest.advanceTimersByTime(1000);
+      store.appendMessage(first, 'user', 'Latest question');
+
+      const sessions = store.list('alice');
+
+      expect(sessions.map((session) => session.id)).toEqual([first.id, second.id]);
+      expect(sessions[0]).toMatchObject({ title: 'First', messageCount: 1, lastMessagePreview: 'Latest question' });
+    });
+
+    it('should evict the least recently active session beyond the per-user limit', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const sessions = [1, 2, 3].map(() => {
+        jest.advanceTimersByTime(1000);
+        return store.create('alice', { model: 'gemini-2.5-flash' });
+      });
+      store.create('bob', { model: 'gemini-2.5-flash' });
+
+      jest.advanceTimersByTime(1000);
+      store.create('alice', { model: 'gemini-2.5-flash' });
+
+      expect(store.get(sessions[0].id, 'alice')).toBeUndefined();
+      expect(store.list('alice')).toHaveLength(3);
+      expect(store.list('bob')).toHaveLength(1);
+    });
+
+    it('should expire idle sessions', () => {
+      jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const session = store.create('alice', { model: 'gemini-2.5-flash' });
+
+      jest.advanceTimersByTime(options.ttlMs + 1);
+
+      expect(store.get(session.id, 'alice')).toBeUndefined();
+    });
+
+    it('should hide the owner from the session view', () => {
+      const session = store.create('alice', { model: 'gemini-2.5-flash', systemInstruction: 'Be brief.' });
+
+      const view = store.toView(session);
+
+      expect(view).not.toHaveProperty('userId');
+      expect(view).not.toHaveProperty('pending');
+      expect(view.contextTokens).toBe(estimateTokens('Be brief.'));
+    });
+  });
+
+  describe('removeMessage', () => {
+    it('should remove a message still in the context window', () => {
+      const session = store.create('alice', { model: 'gemini-2.5-flash' });
+      const message = store.appendMessage(session, 'user', 'Hello');
+
+      expect(store.removeMessage(session, message.id)).toBe(true);
+      expect(session.messages).toEqual([]);
+    });
+  });
+
+  describe('compact', () => {
+    it('should leave history within the budget untouched', async () => {
+      const session = store.create('alice', { model: 'gemini-2.5-flash' });
+      addTurns(store, session, 2);
+      const summarize = jest.fn<ReturnType<ChatSummarizer>, Parameters<ChatSummarizer>>();
+
+      const result = await store.compact(session, summarize);
+
+      expect(result).toEqual({ summarized: 0, trimmed: 0 });
+      expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('should summarize older turns and keep recent turns verbatim', async () => {
+      const session = store.create('alice', { model: 'gemini-2.5-flash', systemInstruction: 'Be brief.' });
+      addTurns(store, session, 3);
+      store.appendMessage(session, 'user', turn('question 3'));
+      const summarize = jest.fn<ReturnType<ChatSummarizer>, Parameters<ChatSummarizer>>().mockResolvedValue('Earlier Q&A');
+
+      const result = await store.compact(session, summarize);
+
+      // The two most recent messages would open on a reply, so the window starts at the last question instead
+      expect(result).toEqual({ summarized: 6, trimmed: 0 });
+      expect(summarize).toHaveBeenCalledWith(null, session.messages.slice(0, 6));
+      expect(store.contentsFor(session)).toEqual([{ role: 'user', parts: [{ text: turn('question 3') }] }]);
+      expect(store.systemInstructionFor(session)).toBe('Be brief.\n\nSummary of the earlier conversation:\nEarlier Q&A');
+      expect(session.messages).toHaveLength(7);
+    });
+
+    it('should fold new turns into the existing summary', async () => {
+      const session = store.create('alice', { model: 'gemini-2.5-flash' });
+      addTurns(store, session, 3);
+      store.appendMessage(session, 'user', turn('question 3'));
+      await store.compact(session, async () => 'First summary');
+      addTurns(store, session, 2);
+      const summarize = jest.fn<ReturnType<ChatSummarizer>, Parameters<ChatSummarizer>>().mockResolvedValue('Second summary');
+
+      await store.compact(session, summarize);
+
+      expect(summarize).toHaveBeenCalledWith('First summary', expect.any(Array));
+      expect(session.summary).toBe('Second summary');
+    });
+
+    it('should drop older turns when summarizing fails', async () => {
+      const session = store.create('alice', { model: 'gemini-2.5-flash' });
+      addTurns(store, session, 3);
+      store.appendMessage(session, 'user', turn('question 3'));
+
+      const result = await store.compact(session, async () => {
+        throw new Error('model unavailable');
+      });
+
+      expect(result).toEqual({ summarized: 0, trimmed: 6 });
+      expect(session.summary).toBeNull();
+      expect(store.contextTokens(session)).toBeLessThanOrEqual(options.maxHistoryTokens);
+    });
+
+    it('should trim recent turns that alone exceed the budget but keep the newest message', async () => {
+      store = new ChatSessionStore({ ...options, keepRecentMessages: 3 });
+      const session = store.create('alice', { model: 'gemini-2.5-flash' });
+      store.appendMessage(session, 'user', 'x'.repeat(300));
+      store.appendMessage(session, 'model', 'y'.repeat(300));
+      store.appendMessage(session, 'user', 'z'.repeat(1000));
+
+      const result = await store.compact(session, async () => 'unused');
+
+      expect(result).toEqual({ summarized: 0, trimmed: 2 });
+      expect(store.contentsFor(session)).toEqual([{ role: 'user', parts: [{ text: 'z'.repeat(1000) }] }]);
+    });
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * Governance Engine Tests
+ * Tests for threshold and abandonment rules, cooldowns, session windows and the decision audit log
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { GovernanceEngine, evaluateRule, type GovernanceEngineOptions } from '../governanceEngine.js';
+import { DEFAULT_GOVERNANCE_RULES, type GovernanceRule } from '../../config/governanceRules.js';
+import type { UserTelemetryEvent } from '../../middleware/validation.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: {
+    warn: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const START = Date.parse('2025-01-01T10:00:00.000Z');
+let sequence = 0;
+
+/**
+ * An event `offsetMs` after START
+ */
+function makeEvent(offsetMs: number, overrides: Partial<UserTelemetryEvent> = {}): UserTelemetryEvent {
+  sequence++;
+  return {
+    id: `evt-${sequence}`,
+    timestamp: new Date(START + offsetMs).toISOString(),
+    eventType: 'click',
+    pagePath: '/',
+    sessionId: 'session-1',
+    sequenceNumber: sequence,
+    ...overrides,
+  };
+}
+
+const failure = (offsetMs: number, tab = 'Shunt') => makeEvent(offsetMs, { eventType: 'ai_response', context: { tab, outcome: 'error' } });
+
+const rule = (id: string) => DEFAULT_GOVERNANCE_RULES.find((candidate) => candidate.id === id)!;
+
+describe('evaluateRule', () => {
+  const always = () => true;
+
+  it('should fire a threshold rule once one tab reaches the count within the window', () => {
+    const events = [failure(0, 'Shunt'), failure(1000, 'Weaver'), failure(2000, 'Shunt'), failure(3000, 'Shunt')];
+
+    const firing = evaluateRule(rule('repeated-errors-in-tab'), events, always);
+
+    expect(firing).toMatchObject({ vars: { tab: 'Shunt', count: 3 } });
+    expect(firing!.evidence).toHaveLength(3);
+  });
+
+  it('should not count events outside the window', () => {
+    const events = [failure(0), failure(60_000), failure(3 * 60_000)];
+
+    expect(evaluateRule(rule('repeated-errors-in-tab'), events, always)).toBeNull();
+  });
+
+  it('should not fire again on events that were already evaluated', () => {
+    const events = [failure(0), failure(1000), failure(2000), makeEvent(3000)];
+
+    expect(evaluateRule(rule('repeated-errors-in-tab'), events, (event) => event === events[3])).toBeNull();
+  });
+
+  it('should group threshold rules by Shunt action', () => {
+    const events = [1, 2, 3, 4, 5].map((i) => makeEvent(i * 1000, { eventType: 'shuntAction', context: { shuntAction: 'Summarize' } }));
+
+    expect(evaluateRule(rule('heavy-shunt-action-use'), events, always)).toMatchObject({ vars: { action: 'Summarize', count: 5 } });
+  });
+
+  it('should fire an abandonment rule when the user leaves soon after a slow response', () => {
+    const slow = makeEvent(0, { eventType: 'ai_response', context: { tab: 'Chat', latencyMs: 12_400 } });
+    const left = makeEvent(5000, { eventType: 'pageView' });
+
+    const firing = evaluateRule(rule('abandoned-after-slow-response'), [slow, left], always);
+
+    expect(firing).toMatchObject({ trigger: left, evidence: [slow, left], vars: { tab: 'Chat', latencySeconds: 12 } });
+  });
+
+  it('should not treat leaving long after a slow response as abandonment', () => {
+    const slow = makeEvent(0, { duration: 12_000 });
+    const left = makeEvent(60_000, { eventType: 'pageView' });
+
+    expect(evaluateRule(rule('abandoned-after-slow-response'), [slow, left], always)).toBeNull();
+  });
+});
+
+describe('GovernanceEngine', () => {
+  let dir: string;
+  let auditPath: string;
+
+  const createEngine = (options: Partial<GovernanceEngineOptions> = {}) =>
+    new GovernanceEngine({
+      rules: DEFAULT_GOVERNANCE_RULES,
+      auditPath,
+      maxEventsPerSession: 200,
+      sessionIdleMs: 30 * 60_000,
+      now: () => START + 10_000,
+      ...options,
+    });
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'governance-'));
+    auditPath = join(dir, 'nested', 'decisions.jsonl');
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return a directive and inference update when a rule fires across batches', async () => {
+    const engine = createEngine();
+
+    await expect(engine.decide('alice', { events: [failure(0), failure(1000)] })).resolves.toEqual({ directives: [] });
+    const response = await engine.decide('alice', { events: [failure(2000)] });
+
+    expect(response.directives).toHaveLength(1);
+    expect(response.directives[0]).toMatchObject({
+      type: 'SUGGESTION',
+      priority: 3,
+      ttl: 30000,
+      payload: { actionType: 'SHOW_HELP_MODAL', ruleId: 'repeated-errors-in-tab' },
+    });
+    expect(response.directives[0].payload.message).toContain('3 requests in Shunt failed');
+    expect(response.clientInferenceUpdate).toMatchObject({ intent: 'TROUBLESHOOT', confidence: 0.8 });
+  });
+
+  it('should keep sessions of different users apart', async () => {
+    const engine = createEngine();
+
+    await engine.decide('alice', { events: [failure(0), failure(1000)] });
+    const response = await engine.decide('bob', { events: [failure(2000)] });
+
+    expect(response.directives).toEqual([]);
+  });
+
+  it('should hold a rule back until its cooldown has passed', async () => {
+    const engine = createEngine();
+    await engine.decide('alice', { events: [failure(0), failure(1000), failure(2000)] });
+
+    const duringCooldown = await engine.decide('alice', { events: [failure(3000)] });
+    const afterCooldown = await engine.decide('alice', {
+      events: [failure(6 * 60_000), failure(6 * 60_000 + 1000), failure(6 * 60_000 + 2000)],
+    });
+
+    expect(duringCooldown.directives).toEqual([]);
+    expect(afterCooldown.directives).toHaveLength(1);
+  });
+
+  it('should ignore events it has already seen', async () => {
+    const engine = createEngine();
+    const events = [failure(0), failure(1000), failure(2000)];
+    await engine.decide('alice', { events });
+
+    const resent = await engine.decide('alice', { events });
+
+    expect(resent.directives).toEqual([]);
+  });
+
+  it('should record every decision in the audit log', async () => {
+    const engine = createEngine();
+    const clientState = { intent: 'NAVIGATE' as const, confidence: 0.4 };
+
+    await engine.decide('alice', { events: [makeEvent(0)], clientState });
+    await engine.decide('alice', { events: [failure(0), failure(1000), failure(2000)] });
+
+    const lines = (await readFile(auditPath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(2);
+    expect(lines[0]).toMatchObject({ userId: 'alice', eventCount: 1, clientState, fired: [] });
+    expect(lines[1].fired[0]).toMatchObject({ ruleId: 'repeated-errors-in-tab', sessionId: 'session-1' });
+    expect(lines[1].fired[0].evidence).toHaveLength(3);
+
+    await expect(engine.queryAudit({ ruleId: 'repeated-errors-in-tab', limit: 10 })).resolves.toHaveLength(1);
+    const newestFirst = await engine.queryAudit({ limit: 10 });
+    expect(newestFirst[0].id).toBe(lines[1].id);
+  });
+
+  it('should forget sessions that have been idle too long', async () => {
+    let now = START;
+    const engine = createEngine({ now: () => now });
+    await engine.decide('alice', { events: [failure(0), failure(1000)] });
+
+    now += 31 * 60_000;
+    await engine.decide('bob', { events: [makeEvent(0)] });
+    const response = await engine.decide('alice', { events: [failure(2000)] });
+
+    expect(response.directives).toEqual([]);
+  });
+
+  it('should apply rules from configuration', async () => {
+    const custom: GovernanceRule = {
+      id: 'help-clicks',
+      condition: { kind: 'threshold', match: { eventTypes: ['click'] }, groupBy: 'elementId', minCount: 2, windowMs: 5000 },
+      directive: { type: 'ALERT', message: 'Stuck on {elementId}?' },
+      cooldownMs: 0,
+    };
+    const engine = createEngine({ rules: [custom] });
+
+    const response = await engine.decide('alice', {
+      events: [makeEvent(0, { elementId: 'submit' }), makeEvent(1000, { elementId: 'submit' })],
+    });
+
+    expect(response.directives[0]).toMatchObject({ type: 'ALERT', targetElementId: 'submit', payload: { message: 'Stuck on submit?' } });
+    expect(response).not.toHaveProperty('clientInferenceUpdate');
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Job Handler Tests
+ * Tests for shunt batches, Foundry runs and RAG index builds with a mocked Gemini service
+ */
+
+import { chunkFile, jobHandlers } from '../jobHandlers.js';
+import { geminiService } from '../geminiService.js';
+import { ShuntAction } from '../../prompts/shuntPrompts.js';
+import type { JobContext } from '../jobQueue.js';
+
+jest.mock('../geminiService.js', () => ({
+  geminiService: {
+    generateContent: jest.fn(),
+    embedContents: jest.fn(),
+  },
+}));
+
+const tokenUsage = { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2, model: 'gemini-2.5-flash' };
+
+function createContext(): JobContext & { controller: AbortController } {
+  const controller = new AbortController();
+  return {
+    controller,
+    signal: controller.signal,
+    log: jest.fn(),
+    progress: jest.fn(),
+    recordUsage: jest.fn(),
+  };
+}
+
+describe('jobHandlers', () => {
+  const generateContent = geminiService.generateContent as jest.MockedFunction<typeof geminiService.generateContent>;
+  const embedContents = geminiService.embedContents as jest.MockedFunction<typeof geminiService.embedContents>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('shunt_batch', () => {
+    it('should report failed items without failing the batch and bill each item as a shunt run', async () => {
+      generateContent
+        .mockResolvedValueOnce({ text: 'short version', tokenUsage })
+        .mockRejectedValueOnce(new Error('model unavailable'));
+      const context = createContext();
+
+      const outcome = await jobHandlers.shunt_batch(
+        { action: ShuntAction.SUMMARIZE, modelName: 'gemini-2.5-flash', items: [{ id: 'a', text: 'one' }, { text: 'two' }] },
+        context
+      );
+
+      expect(outcome.result).toContain('1 of 2 items succeeded');
+      expect(outcome.artifact).toMatchObject({
+        results: [{ id: 'a', resultText: 'short version' }, { id: '1', error: 'model unavailable' }],
+      });
+      expect(context.recordUsage).toHaveBeenCalledTimes(1);
+      expect(context.recordUsage).toHaveBeenCalledWith(tokenUsage, 'shuntRuns');
+      expect(context.progress).toHaveBeenLastCalledWith(1);
+    });
+
+    it('should fail when every item fails', async () => {
+      generateContent.mockRejectedValue(new Error('model unavailable'));
+
+      await expect(
+        jobHandlers.shunt_batch({ action: ShuntAction.SUMMARIZE, modelName: 'gemini-2.5-flash', items: [{ text: 'one' }] }, createContext())
+      ).rejects.toThrow('Every item in the batch failed');
+    });
+  });
+
+  describe('foundry_run', () => {
+    it('should synthesize a plan from the audits that succeeded', async () => {
+      generateContent
+        .mockResolvedValueOnce({ text: 'Scale it', tokenUsage })
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValueOnce({ text: '# Plan', tokenUsage });
+
+      const outcome = await jobHandlers.foundry_run(
+        { goal: 'Build a laundry tracker', files: [], agents: ['Architect', 'Security'], modelName: 'gemini-2.5-flash' },
+        createContext()
+      );
+
+      expect(outcome.result).toBe('# Plan');
+      expect(generateContent.mock.calls[2][0]).toContain('### Architect agent\nScale it');
+      expect(generateContent.mock.calls[2][0]).not.toContain('Security agent');
+      expect(outcome.artifact).toMatchObject({ audits: [{ agent: 'Architect' }, { agent: 'Security', error: 'timeout' }] });
+    });
+
+    it('should stop between agents once cancelled', async () => {
+      const context = createContext();
+      generateContent.mockImplementationOnce(async () => {
+        context.controller.abort();
+        return { text: 'Scale it', tokenUsage };
+      });
+
+      await expect(
+        jobHandlers.foundry_run({ goal: 'Goal', files: [], agents: ['Architect', 'QA'], modelName: 'gemini-2.5-flash' }, context)
+      ).rejects.toThrow('Job cancelled');
+      expect(generateContent).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('rag_index_build', () => {
+    it('should split files into line windows and skip blank ones', () => {
+      const chunks = chunkFile('src/a.ts', ['a', 'b', 'c', '', '', ''].join('\n'), 3);
+
+      expect(chunks).toEqual([{ id: 'src/a.ts#L1', path: 'src/a.ts', startLine: 1, endLine: 3, text: 'a\nb\nc' }]);
+    });
+
+    it('should embed every chunk, record the embedding usage and return the vectors as the artifact', async () => {
+      const embeddingUsage = { prompt_tokens: 5, completion_tokens: 0, total_tokens: 5, model: 'text-embedding-004' };
+      embedContents.mockImplementation(async (texts) => ({
+        vectors: texts.map(() => [0.1, 0.2]),
+        model: 'text-embedding-004',
+        tokenUsage: embeddingUsage,
+      }));
+      const context = createContext();
+
+      const outcome = await jobHandlers.rag_index_build(
+        { files: [{ path: 'a.ts', content: 'x\ny\nz' }], chunkLines: 2, embeddingModel: 'text-embedding-004' },
+        context
+      );
+
+      expect(embedContents).toHaveBeenCalledWith(['a.ts\nx\ny', 'a.ts\nz'], 'text-embedding-004', expect.any(AbortSignal));
+      expect(context.recordUsage).toHaveBeenCalledWith(embeddingUsage);
+      expect(outcome.artifact).toMatchObject({
+        dimensions: 2,
+        chunks: [{ id: 'a.ts#L1', vector: [0.1, 0.2] }, { id: 'a.ts#L3', vector: [0.1, 0.2] }],
+      });
+    });
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Job Queue Tests
+ * Tests for priority order, concurrency limits, cancellation, live events, usage billing and persistence
+ */
+
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  JobQueue,
+  JobQueueFullError,
+  type JobContext,
+  type JobEvent,
+  type JobHandlers,
+  type JobOutcome,
+  type JobQueueOptions,
+} from '../jobQueue.js';
+import type { JobSubmitRequest } from '../../middleware/validation.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: {
+    warn: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+jest.mock('../jobHandlers.js', () => ({ jobHandlers: {} }));
+
+jest.mock('../../middleware/usage.js', () => ({ recordAttributedUsage: jest.fn() }));
+
+interface Deferred {
+  resolve: (outcome: JobOutcome) => void;
+  reject: (error: Error) => void;
+  context: JobContext;
+}
+
+const plan = (prompt: string, priority: JobSubmitRequest['priority'] = 'normal'): JobSubmitRequest => ({
+  type: 'plan',
+  priority,
+  input: { prompt, modelName: 'gemini-2.5-flash' },
+});
+
+/**
+ * Let queued microtasks (handler completion, drain, saves) settle
+ */
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+/**
+ * Wait for file writes that finish a job (e.g. its artifact)
+ */
+async function waitForStatus(queue: JobQueue, id: string, status: string): Promise<void> {
+  for (let i = 0; i < 100 && queue.get(id, 'alice')?.status !== status; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('JobQueue', () => {
+  let dir: string;
+  let filePath: string;
+  let started: Map<string, Deferred>;
+  let handlers: JobHandlers;
+  let queues: JobQueue[];
+
+  const createQueue = (options: Partial<JobQueueOptions> = {}) => {
+    const queue = new JobQueue({
+      filePath,
+      concurrency: 1,
+      maxQueuedPerUser: 10,
+      maxStoredJobs: 50,
+      maxLogEntries: 100,
+      handlers,
+      ...options,
+    });
+    queues.push(queue);
+    return queue;
+  };
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'jobs-'));
+    filePath = join(dir, 'jobs', 'jobs.json');
+    started = new Map();
+    queues = [];
+
+    // Plan jobs wait until the test resolves them, keyed by prompt
+    const waitForTest = (input: { prompt: string }, context: JobContext) =>
+      new Promise<JobOutcome>((resolve, reject) => {
+        started.set(input.prompt, { resolve, reject, context });
+      });
+    handlers = {
+      plan: waitForTest,
+      shunt_batch: jest.fn(),
+      foundry_run: jest.fn(),
+      rag_index_build: jest.fn(),
+    } as unknown as JobHandlers;
+  });
+
+  afterEach(async () => {
+    await Promise.all(queues.map((queue) => queue.flush()));
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should run jobs up to the concurrency limit, highest priority first', async () => {
+    const queue = createQueue();
+
+    queue.submit({ userId: 'alice' }, plan('first'));
+    queue.submit({ userId: 'alice' }, plan('low', 'low'));
+    queue.submit({ userId: 'alice' }, plan('high', 'high'));
+    await settle();
+
+    expect([...started.keys()]).toEqual(['first']);
+
+    started.get('first')!.resolve({ result: 'done' });
+    await settle();
+    expect([...started.keys()]).toEqual(['first', 'high']);
+
+    started.get('high')!.resolve({ result: 'done' });
+    await settle();
+    expect([...started.keys()]).toEqual(['first', 'high', 'low']);
+  });
+
+  it('should record the result and log of a completed job', async () => {
+    const queue = createQueue();
+    const { id } = queue.submit({ userId: 'alice' }, plan('Refactor auth'));
+    await settle();
+
+    started.get('Refactor auth')!.context.log('Halfway', 'info', { step: 1 });
+    started.get('Refactor auth')!.resolve({ result: '1. Do it' });
+    await settle();
+
+    const job = queue.get(id, 'alice')!;
+    expect(job).toMatchObject({ status: 'completed', result: '1. Do it', progress: 1, input: null, title: 'Refactor auth' });
+    expect(job.logs.map((log) => log.message)).toEqual([
+      'Queued with normal priority',
+      'Worker picked up the job',
+      'Halfway',
+      'Job completed',
+    ]);
+    expect(job.logs[2].data).toEqual({ step: 1 });
+  });
+
+  it('should mark a job failed when its handler throws', async () => {
+    const queue = createQueue();
+    const { id } = queue.submit({ userId: 'alice' }, plan('boom'));
+    await settle();
+
+    started.get('boom')!.reject(new Error('model unavailable'));
+    await settle();
+
+    expect(queue.get(id, 'alice')).toMatchObject({ status: 'failed', error: 'model unavailable' });
+  });
+
+  it('should only show jobs to their owner', () => {
+    const queue = createQueue();
+    const { id } = queue.submit({ userId: 'alice' }, plan('private'));
+
+    expect(queue.get(id, 'bob')).toBeUndefined();
+    expect(queue.list('bob', { limit: 50 })).toEqual([]);
+    expect(queue.list('alice', { limit: 50 })[0]).not.toHaveProperty('userId');
+  });
+
+  it('should refuse submissions beyond the per-user limit of unfinished jobs', () => {
+    const queue = createQueue({ maxQueuedPerUser: 2 });
+    queue.submit({ userId: 'alice' }, plan('one'));
+    queue.submit({ userId: 'alice' }, plan('two'));
+
+    expect(() => queue.submit({ userId: 'alice' }, plan('three'))).toThrow(JobQueueFullError);
+    expect(() => queue.submit({ userId: 'bob' }, plan('other user'))).not.toThrow();
+  });
+
+  describe('cancel', () => {
+    it('should cancel a pending job without running it', async () => {
+      const queue = createQueue();
+      queue.submit({ userId: 'alice' }, plan('running'));
+      const { id } = queue.submit({ userId: 'alice' }, plan('waiting'));
+      await settle();
+
+      expect(queue.cancel(queue.get(id, 'alice')!)).toBe(true);
+      started.get('running')!.resolve({ result: 'done' });
+      await settle();
+
+      expect(queue.get(id, 'alice')!.status).toBe('cancelled');
+      expect(started.has('waiting')).toBe(false);
+    });
+
+    it('should abort a running job and mark it cancelled once it stops', async () => {
+      const queue = createQueue();
+      const { id } = queue.submit({ userId: 'alice' }, plan('long'));
+      await settle();
+      const { context, reject } = started.get('long')!;
+
+      queue.cancel(queue.get(id, 'alice')!);
+      expect(context.signal.aborted).toBe(true);
+      reject(new Error('aborted'));
+      await settle();
+
+      expect(queue.get(id, 'alice')).toMatchObject({ status: 'cancelled', error: 'Cancelled while running' });
+    });
+
+    it('should not cancel a finished job', async () => {
+      const queue = createQueue();
+      const { id } = queue.submit({ userId: 'alice' }, plan('quick'));
+      await settle();
+      started.get('quick')!.resolve({ result: 'done' });
+      await settle();
+
+      expect(queue.cancel(queue.get(id, 'alice')!)).toBe(false);
+      expect(queue.get(id, 'alice')!.status).toBe('completed');
+    });
+  });
+
+  it('should stream log and status events to subscribers', async () => {
+    const queue = createQueue();
+    queue.submit({ userId: 'alice' }, plan('blocker'));
+    const { id } = queue.submit({ userId: 'alice' }, plan('watched'));
+    const events: JobEvent[] = [];
+    const unsubscribe = queue.subscribe(id, (event) => events.push(event));
+
+    started.get('blocker')!.resolve({ result: 'done' });
+    await settle();
+    started.get('watched')!.context.progress(0.5);
+    started.get('watched')!.resolve({ result: 'done' });
+    await settle();
+    unsubscribe();
+
+    const statuses = events.filter((event) => event.type === 'status').map((event) => event.type === 'status' && event.job.status);
+    expect(statuses).toEqual(['running', 'running', 'completed']);
+    expect(events.filter((event) => event.type === 'log')).toHaveLength(2);
+  });
+
+  it('should bill model calls to the job owner', async () => {
+    const recordUsage = jest.fn();
+    const queue = createQueue({ recordUsage });
+    queue.submit({ userId: 'alice', apiKeyId: 'key-1' }, plan('metered'));
+    await settle();
+    const tokenUsage = { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3, model: 'gemini-2.5-flash' };
+
+    started.get('metered')!.context.recordUsage(tokenUsage, 'shuntRuns');
+
+    expect(recordUsage).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'alice', apiKeyId: 'key-1' }),
+      tokenUsage,
+      'shuntRuns'
+    );
+  });
+
+  it('should store artifacts beside the job store', async () => {
+    const queue = createQueue();
+    const { id } = queue.submit({ userId: 'alice' }, plan('with artifact'));
+    await settle();
+
+    started.get('with artifact')!.resolve({ result: 'done', artifact: { chunks: [1, 2] } });
+    await waitForStatus(queue, id, 'completed');
+
+    const job = queue.get(id, 'alice')!;
+    expect(job.hasArtifact).toBe(true);
+    await expect(queue.readArtifact(job)).resolves.toEqual({ chunks: [1, 2] });
+  });
+
+  it('should keep only the newest log entries', async () => {
+    const queue = createQueue({ maxLogEntries: 3 });
+    const { id } = queue.submit({ userId: 'alice' }, plan('chatty'));
+    await settle();
+
+    for (let i = 0; i < 5; i++) started.get('chatty')!.context.log(`line ${i}`);
+
+    expect(queue.get(id, 'alice')!.logs.map((log) => log.message)).toEqual(['line 2', 'line 3', 'line 4']);
+  });
+
+  it('should prune the oldest finished jobs beyond the stored limit', async () => {
+    const queue = createQueue({ maxStoredJobs: 1 });
+    const first = queue.submit({ userId: 'alice' }, plan('old'));
+    await settle();
+    started.get('old')!.resolve({ result: 'done' });
+    await settle();
+    queue.submit({ userId: 'alice' }, plan('new'));
+    await settle();
+    started.get('new')!.resolve({ result: 'done' });
+    await settle();
+
+    expect(queue.get(first.id, 'alice')).toBeUndefined();
+    expect(queue.list('alice', { limit: 50 })).toHaveLength(1);
+  });
+
+  describe('persistence', () => {
+    it('should resume queued jobs and fail interrupted ones after a restart', async () => {
+      const queue = createQueue();
+      const interrupted = queue.submit({ userId: 'alice' }, plan('interrupted'));
+      const queued = queue.submit({ userId: 'alice' }, plan('queued'));
+      await settle();
+      await queue.flush();
+      started.clear();
+
+      const restarted = createQueue();
+      restarted.start();
+      await settle();
+
+      expect(restarted.get(interrupted.id, 'alice')).toMatchObject({
+        status: 'failed',
+        error: 'Interrupted by a server restart',
+      });
+      expect(restarted.get(queued.id, 'alice')!.status).toBe('running');
+      expect(started.has('queued')).toBe(true);
+    });
+
+    it('should drop the input of finished jobs from the store', async () => {
+      const queue = createQueue();
+      queue.submit({ userId: 'alice' }, plan('secret prompt text that is long'));
+      await settle();
+      started.get('secret prompt text that is long')!.resolve({ result: 'done' });
+      await settle();
+      await queue.flush();
+
+      const stored = JSON.parse(await readFile(filePath, 'utf8'));
+      expect(stored.jobs[0]).toMatchObject({ status: 'completed', input: null });
+    });
+  });
+});
@@ -0,0 +1,271 @@
+/**
+ * MCP Client Tests
+ * Tests for the JSON-RPC client over stdio and streamable HTTP against the bundled sample server,
+ * request timeouts, and the server registry's lazy connections
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import {
+  McpClient,
+  McpError,
+  MCP_ERROR_CODES,
+  StdioTransport,
+  StreamableHttpTransport,
+  parseSseEvents,
+  type JsonRpcMessage,
+  type McpTransport,
+} from '../mcpClient.js';
+import { McpServerRegistry, McpServerNotFoundError, SAMPLE_MCP_SERVER } from '../mcpServerRegistry.js';
+import { MCP_SAMPLE_SERVER_SOURCE } from '../mcpSampleServer.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: {
+    warn: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+const sampleStdio = () => new StdioTransport({ command: process.execPath, args: ['-e', MCP_SAMPLE_SERVER_SOURCE] });
+
+/**
+ * Start the sample server in HTTP mode and resolve with its endpoint once it prints it
+ */
+function startHttpSample(): Promise<{ child: ChildProcessWithoutNullStreams; url: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, ['-e', MCP_SAMPLE_SERVER_SOURCE, '--', '--http', '0']);
+    let output = '';
+    child.stdout.on('data', (chunk) => {
+      output += chunk;
+      const match = output.match(/listening on (\S+)/);
+      if (match) resolve({ child, url: match[1] });
+    });
+    child.once('error', reject);
+    child.once('exit', (code) => reject(new Error(`Sample server exited with code ${code}`)));
+  });
+}
+
+/**
+ * A transport that records what the client sends and never answers
+ */
+class SilentTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+  sent: JsonRpcMessage[] = [];
+
+  async start(): Promise<void> {}
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    this.sent.push(message);
+    if ('method' in message && message.method === 'initialize' && 'id' in message) {
+      this.onmessage?.({
+        jsonrpc: '2.0',
+        id: message.id,
+        result: { protocolVersion: '2025-06-18', capabilities: { tools: {} }, serverInfo: { name: 'silent', version: '0.0.0' } },
+      });
+    }
+  }
+
+  async close(): Promise<void> {
+    this.onclose?.();
+  }
+}
+
+describe('parseSseEvents', () => {
+  it('should join multi-line data and keep an unfinished event for the next chunk', () => {
+    const { events, rest } = parseSseEvents('event: message\ndata: {"a":\ndata: 1}\n\n: comment\n\ndata: {"b"');
+
+    expect(events).toEqual(['{"a":\n1}']);
+    expect(rest).toBe('data: {"b"');
+  });
+});
+
+describe('McpClient over stdio', () => {
+  let client: McpClient;
+
+  beforeAll(async () => {
+    client = new McpClient(sampleStdio(), { requestTimeoutMs: 5000 });
+    await client.connect();
+  });
+
+  afterAll(async () => {
+    await client.close();
+  });
+
+  it('should negotiate the protocol version and read the server info', () => {
+    expect(client.isConnected).toBe(true);
+    expect(client.protocolVersion).toBe('2025-06-18');
+    expect(client.serverInfo).toEqual({ name: 'shunt-factory-sample', version: '1.0.0' });
+  });
+
+  it('should list tools across pages, resources and prompts', async () => {
+    const tools = await client.listTools();
+
+    expect(tools.map((tool) => tool.name)).toEqual(['echo', 'add', 'divide']);
+    expect(tools[1].inputSchema).toMatchObject({ required: ['a', 'b'] });
+    expect(await client.listResources()).toEqual([expect.objectContaining({ uri: 'sample://readme', mimeType: 'text/markdown' })]);
+    expect((await client.listPrompts())[0]).toMatchObject({ name: 'review', arguments: [{ name: 'code', required: true }] });
+  });
+
+  it('should call tools and pass tool failures through as results', async () => {
+    expect(await client.callTool('add', { a: 2, b: 3 })).toEqual({ content: [{ type: 'text', text: '5' }], structuredContent: { sum: 5 } });
+    expect(await client.callTool('divide', { a: 1, b: 0 })).toEqual({ content: [{ type: 'text', text: 'Cannot divide by zero' }], isError: true });
+  });
+
+  it('should reject protocol errors with the JSON-RPC code', async () => {
+    const error = await client.callTool('missing').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(McpError);
+    expect(error).toMatchObject({ code: MCP_ERROR_CODES.INVALID_PARAMS, message: 'Unknown tool: missing' });
+  });
+
+  it('should read resources and get prompts', async () => {
+    const [readme] = await client.readResource('sample://readme');
+    const prompt = await client.getPrompt('review', { code: 'let x = 1;' });
+
+    expect(readme.text).toContain('Sample MCP server');
+    expect(prompt.messages[0].content).toEqual({ type: 'text', text: 'Please review this code:\n\nlet x = 1;' });
+  });
+});
+
+describe('StdioTransport', () => {
+  it('should report a server that stops reading stdin as a closed connection', async () => {
+    // Closes its end of stdin, says so, then stays alive so the next write fails with EPIPE
+    const source = `require('fs').closeSync(0); console.log(JSON.stringify({ jsonrpc: '2.0', method: 'closed' })); setTimeout(() => {}, 5000);`;
+    const transport = new StdioTransport({ command: process.execPath, args: ['-e', source] });
+    const stdinClosed = new Promise<void>((resolve) => {
+      transport.onmessage = () => resolve();
+    });
+    const closed = new Promise<Error | undefined>((resolve) => {
+      transport.onclose = resolve;
+    });
+
+    await transport.start();
+    await stdinClosed;
+    await transport.send({ jsonrpc: '2.0', id: 1, method: 'ping' });
+
+    await expect(closed).resolves.toMatchObject({ code: MCP_ERROR_CODES.CONNECTION_CLOSED, message: expect.stringContaining('EPIPE') });
+    await transport.close();
+  });
+});
+
+describe('McpClient over streamable HTTP', () => {
+  let sample: { child: ChildProcessWithoutNullStreams; url: string };
+
+  beforeAll(async () => {
+    sample = await startHttpSample();
+  });
+
+  afterAll(() => {
+    sample.child.removeAllListeners('exit');
+    sample.child.kill();
+  });
+
+  it('should keep the session across JSON and event-stream responses', async () => {
+    const client = new McpClient(new StreamableHttpTransport({ url: sample.url }), { requestTimeoutMs: 5000 });
+    await client.connect();
+
+    expect(await client.listTools()).toHaveLength(3);
+    expect(await client.callTool('echo', { text: 'over http' })).toEqual({ content: [{ type: 'text', text: 'over http' }] });
+
+    await client.close();
+    expect(client.isConnected).toBe(false);
+  });
+
+  it('should fail to connect when the endpoint is wrong', async () => {
+    const client = new McpClient(new StreamableHttpTransport({ url: sample.url.replace('/mcp', '/nope') }));
+
+    await expect(client.connect()).rejects.toThrow('HTTP 404');
+  });
+});
+
+describe('McpClient requests', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should time out and cancel the request on the server', async () => {
+    const transport = new SilentTransport();
+    const client = new McpClient(transport, { requestTimeoutMs: 1000 });
+    await client.connect();
+
+    const pending = client.listTools();
+    jest.advanceTimersByTime(1000);
+
+    await expect(pending).rejects.toMatchObject({ code: MCP_ERROR_CODES.REQUEST_TIMEOUT });
+    expect(transport.sent.at(-1)).toEqual({
+      jsonrpc: '2.0',
+      method: 'notifications/cancelled',
+      params: { requestId: 2, reason: 'Request timed out' },
+    });
+  });
+
+  it('should not ask for lists the server has no capability for', async () => {
+    const transport = new SilentTransport();
+    const client = new McpClient(transport);
+    await client.connect();
+
+    expect(await client.listPrompts()).toEqual([]);
+    expect(await client.listResources()).toEqual([]);
+    expect(transport.sent.map((message) => ('method' in message ? message.method : null))).toEqual([
+      'initialize',
+      'notifications/initialized',
+    ]);
+  });
+
+  it('should reject pending requests when the connection closes', async () => {
+    const transport = new SilentTransport();
+    const client = new McpClient(transport);
+    await client.connect();
+
+    const pending = client.callTool('anything');
+    transport.onclose?.(new McpError('gone', MCP_ERROR_CODES.CONNECTION_CLOSED));
+
+    await expect(pending).rejects.toThrow('gone');
+    expect(client.isConnected).toBe(false);
+    await expect(client.listTools()).rejects.toThrow('not connected');
+  });
+});
+
+describe('McpServerRegistry', () => {
+  let registry: McpServerRegistry;
+
+  beforeEach(() => {
+    registry = new McpServerRegistry(
+      [SAMPLE_MCP_SERVER, { id: 'broken', transport: 'stdio', command: process.execPath, args: ['-e', 'process.exit(3)'] }],
+      { requestTimeoutMs: 5000 }
+    );
+  });
+
+  afterEach(async () => {
+    await registry.closeAll();
+  });
+
+  it('should connect on first use and reconnect after the connection drops', async () => {
+    expect(registry.list()[0]).toMatchObject({ id: 'sample', connected: false });
+
+    const first = await registry.getClient('sample');
+    expect(registry.list()[0]).toMatchObject({ connected: true, serverInfo: { name: 'shunt-factory-sample' } });
+
+    await first.close();
+    const result = await registry.callTool('sample', 'echo', { text: 'again' });
+
+    expect(result.content).toEqual([{ type: 'text', text: 'again' }]);
+    expect(await registry.getClient('sample')).not.toBe(first);
+  });
+
+  it('should record why a server failed to connect', async () => {
+    await expect(registry.listTools('broken')).rejects.toThrow('MCP server exited with code 3');
+
+    expect(registry.list()[1]).toMatchObject({ id: 'broken', connected: false, lastError: 'MCP server exited with code 3' });
+  });
+
+  it('should reject servers that are not configured', async () => {
+    await expect(registry.getClient('unknown')).rejects.toBeInstanceOf(McpServerNotFoundError);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Model Router Tests
+ * Tests for routing rules, cost ceilings and provider fallback
+ */
+
+import {
+  ModelRouter,
+  ModelRouterError,
+  estimateCostUsd,
+  matchesRule,
+  type ModelProvider,
+  type RouteContext,
+} from '../modelRouter.js';
+import type { ModelProviderId, RoutingRule } from '../../config/modelRouting.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: {
+    warn: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function fakeProvider(id: ModelProviderId, error?: Error): ModelProvider {
+  return {
+    generate: jest.fn(async (_request, onChunk) => {
+      if (error) throw error;
+      onChunk?.(`${id} chunk`);
+      return {
+        text: `${id} output`,
+        tokenUsage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2, model: `${id}-model` },
+      };
+    }),
+  };
+}
+
+const context: RouteContext = { action: 'summarize', inputChars: 100, tier: 'Free' };
+const request = { prompt: 'Summarize this', models: { gemini: 'gemini-2.5-flash' } };
+
+describe('ModelRouter', () => {
+  let providers: Record<ModelProviderId, ModelProvider>;
+
+  beforeEach(() => {
+    providers = {
+      gemini: fakeProvider('gemini'),
+      lmstudio: fakeProvider('lmstudio'),
+      ollama: fakeProvider('ollama'),
+    };
+  });
+
+  it('should serve from Gemini by default and report it', async () => {
+    const router = new ModelRouter(providers, ['lmstudio', 'ollama']);
+
+    const result = await router.route(request, context);
+
+    expect(result.provider).toBe('gemini');
+    expect(result.text).toBe('gemini output');
+    expect(result.routing).toEqual({ rule: null, fallbackFrom: [] });
+  });
+
+  it('should fall back along the chain when a provider fails', async () => {
+    providers.gemini = fakeProvider('gemini', new Error('429 RESOURCE_EXHAUSTED'));
+    providers.lmstudio = fakeProvider('lmstudio', new Error('fetch failed'));
+    const router = new ModelRouter(providers, ['lmstudio', 'ollama']);
+
+    const result = await router.route(request, context);
+
+    expect(result.provider).toBe('ollama');
+    expect(result.routing.fallbackFrom).toEqual(['gemini', 'lmstudio']);
+  });
+
+  it('should not fall back when fallback is disabled', async () => {
+    providers.gemini = fakeProvider('gemini', new Error('429 RESOURCE_EXHAUSTED'));
+    const router = new ModelRouter(providers, ['lmstudio']);
+
+    await expect(router.route(request, { ...context, allowFallback: false })).rejects.toBeInstanceOf(ModelRouterError);
+    expect(providers.lmstudio.generate).not.toHaveBeenCalled();
+  });
+
+  it('should not fall back once streamed output has been sent', async () => {
+    providers.gemini = {
+      generate: jest.fn(async (_request, onChunk) => {
+        onChunk?.('partial');
+        throw new Error('connection reset');
+      }),
+    };
+    const router = new ModelRouter(providers, ['lmstudio']);
+
+    await expect(router.route(request, context, jest.fn())).rejects.toThrow('connection reset');
+    expect(providers.lmstudio.generate).not.toHaveBeenCalled();
+  });
+
+  it('should try the preferred provider first', async () => {
+    const router = new ModelRouter(providers, ['lmstudio', 'ollama']);
+
+    expect(router.plan(request, { ...context, preferredProvider: 'ollama' }).providers).toEqual(['ollama', 'gemini', 'lmstudio']);
+  });
+
+  it('should use the first matching rule', async () => {
+    const rules: RoutingRule[] = [
+      { name: 'large-free', match: { tiers: ['Free'], minInputChars: 50000 }, providers: ['ollama', 'gemini'] },
+      { name: 'json', match: { actions: ['format_json'] }, providers: ['gemini'] },
+    ];
+    const router = new ModelRouter(providers, ['lmstudio'], rules);
+
+    const large = await router.route(request, { ...context, inputChars: 60000 });
+    expect(large.provider).toBe('ollama');
+    expect(large.routing.rule).toBe('large-free');
+
+    expect(router.plan(request, { ...context, inputChars: 60000, tier: 'Pro' }).providers).toEqual(['gemini', 'lmstudio']);
+    expect(router.plan(request, { ...context, action: 'format_json' }).providers).toEqual(['gemini']);
+  });
+
+  it('should skip providers above the cost ceiling', () => {
+    const router = new ModelRouter(providers, ['lmstudio']);
+    const longRequest = { ...request, prompt: 'x'.repeat(400000) };
+
+    expect(router.plan(longRequest, { ...context, maxCostUsd: 0.01 }).providers).toEqual(['lmstudio']);
+    expect(router.plan(longRequest, { ...context, maxCostUsd: 1 }).providers).toEqual(['gemini', 'lmstudio']);
+  });
+
+  it('should keep the rule cost ceiling when a request asks for a higher one', () => {
+    const rules: RoutingRule[] = [{ name: 'capped', match: {}, providers: ['gemini', 'lmstudio'], maxCostUsd: 0.01 }];
+    const router = new ModelRouter(providers, [], rules);
+    const longRequest = { ...request, prompt: 'x'.repeat(400000) };
+
+    expect(router.plan(longRequest, { ...context, maxCostUsd: 1 }).providers).toEqual(['lmstudio']);
+    expect(router.plan(request, { ...context, maxCostUsd: 0 }).providers).toEqual(['lmstudio']);
+  });
+
+  it('should fail when no provider fits the cost ceiling', async () => {
+    const router = new ModelRouter(providers, []);
+    const longRequest = { ...request, prompt: 'x'.repeat(400000) };
+
+    await expect(router.route(longRequest, { ...context, maxCostUsd: 0.01 })).rejects.toThrow('cost ceiling');
+  });
+});
+
+describe('matchesRule', () => {
+  it('should require every set condition', () => {
+    const rule: RoutingRule = { name: 'r', match: { actions: ['amplify'], maxInputChars: 1000 }, providers: ['gemini'] };
+
+    expect(matchesRule(rule, { ...context, action: 'amplify' })).toBe(true);
+    expect(matchesRule(rule, { ...context, action: 'amplify', inputChars: 2000 })).toBe(false);
+    expect(matchesRule(rule, context)).toBe(false);
+  });
+});
+
+describe('estimateCostUsd', () => {
+  it('should price Gemini by model and treat local providers as free', () => {
+    const flash = estimateCostUsd('gemini', { prompt: 'x'.repeat(4000), config: { maxOutputTokens: 1000 } });
+    const pro = estimateCostUsd('gemini', {
+      prompt: 'x'.repeat(4000),
+      models: { gemini: 'gemini-2.5-pro' },
+      config: { maxOutputTokens: 1000 },
+    });
+
+    expect(flash).toBeCloseTo((1000 * 0.3 + 1000 * 2.5) / 1_000_000);
+    expect(pro).toBeGreaterThan(flash);
+    expect(estimateCostUsd('ollama', { prompt: 'x'.repeat(4000) })).toBe(0);
+  });
+});
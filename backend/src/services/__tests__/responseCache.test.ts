@@ -0,0 +1,147 @@
+/**
+ * Response Cache Tests
+ * Tests for exact and near-duplicate lookups, TTL expiry, LRU eviction and purging
+ */
+
+import {
+  ResponseCache,
+  buildCacheKey,
+  cosineSimilarity,
+  type CacheKeyParts,
+  type CachedResponse,
+} from '../responseCache.js';
+
+const parts: CacheKeyParts = {
+  userId: 'key-alice',
+  action: 'Summarize',
+  model: 'gemini-2.5-flash',
+  text: 'The quick brown fox jumps over the lazy dog.',
+  context: 'bulletin',
+  priority: 'normal',
+};
+
+const response: CachedResponse = {
+  resultText: 'A fox jumps over a dog.',
+  tokenUsage: { prompt_tokens: 10, completion_tokens: 5, total_tokens: 15, model: 'gemini-2.5-flash' },
+  provider: 'gemini',
+};
+
+const embedding = (vector: number[], model = 'Xenova/all-MiniLM-L6-v2') => ({ model, vector });
+
+describe('ResponseCache', () => {
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    cache = new ResponseCache({ maxEntries: 3, ttlMs: 1000, similarityThreshold: 0.95 });
+  });
+
+  it('should return exact hits regardless of surrounding whitespace', () => {
+    cache.set(parts, response, undefined, 0);
+
+    const hit = cache.lookup({ ...parts, text: `  The quick brown fox\n jumps over the lazy dog.  ` }, undefined, 10);
+
+    expect(hit?.mode).toBe('exact');
+    expect(hit?.entry.response).toEqual(response);
+    expect(hit?.entry.hits).toBe(1);
+  });
+
+  it('should miss when any other key part differs', () => {
+    cache.set(parts, response, undefined, 0);
+
+    expect(cache.lookup({ ...parts, action: 'Amplify' }, undefined, 10)).toBeNull();
+    expect(cache.lookup({ ...parts, model: 'gemini-2.5-pro' }, undefined, 10)).toBeNull();
+    expect(cache.lookup({ ...parts, context: 'other' }, undefined, 10)).toBeNull();
+    expect(cache.lookup({ ...parts, priority: 'high' }, undefined, 10)).toBeNull();
+    expect(cache.lookup({ ...parts, provider: 'ollama' }, undefined, 10)).toBeNull();
+    expect(cache.lookup({ ...parts, promptInjectionGuardEnabled: true }, undefined, 10)).toBeNull();
+    expect(cache.getStats().misses).toBe(6);
+  });
+
+  it('should expire entries after the TTL', () => {
+    cache.set(parts, response, undefined, 0);
+
+    expect(cache.lookup(parts, undefined, 1000)).toBeNull();
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should evict the least recently used entry beyond the size limit', () => {
+    cache.set({ ...parts, text: 'one' }, response, undefined, 0);
+    cache.set({ ...parts, text: 'two' }, response, undefined, 0);
+    cache.set({ ...parts, text: 'three' }, response, undefined, 0);
+    cache.lookup({ ...parts, text: 'one' }, undefined, 1);
+    cache.set({ ...parts, text: 'four' }, response, undefined, 2);
+
+    expect(cache.lookup({ ...parts, text: 'two' }, undefined, 3)).toBeNull();
+    expect(cache.lookup({ ...parts, text: 'one' }, undefined, 3)).not.toBeNull();
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('should serve near-duplicates in the same scope from matching embeddings', () => {
+    cache.set(parts, response, embedding([1, 0, 0]), 0);
+
+    const near = cache.lookup({ ...parts, text: 'A quick brown fox jumped over the lazy dog' }, embedding([0.99, 0.05, 0]), 10);
+    expect(near?.mode).toBe('semantic');
+    expect(near?.similarity).toBeGreaterThan(0.95);
+
+    expect(cache.lookup({ ...parts, text: 'Something else' }, embedding([0, 1, 0]), 10)).toBeNull();
+    expect(cache.lookup({ ...parts, text: 'Other action', action: 'Amplify' }, embedding([1, 0, 0]), 10)).toBeNull();
+    expect(cache.lookup({ ...parts, text: 'Other model' }, embedding([1, 0, 0], 'hash-fallback'), 10)).toBeNull();
+    expect(cache.getStats().semanticHits).toBe(1);
+  });
+
+  it('should never share entries across users, even for a matching embedding', () => {
+    cache.set(parts, response, embedding([1, 0, 0]), 0);
+
+    const otherUser = { ...parts, userId: 'key-mallory' };
+    expect(cache.lookup(otherUser, undefined, 10)).toBeNull();
+    expect(cache.lookup({ ...otherUser, text: 'Anything' }, embedding([1, 0, 0]), 10)).toBeNull();
+
+    // A result stored under the victim's embedding by another user is never served to the victim
+    cache.set({ ...otherUser, text: 'Poisoned' }, { ...response, resultText: 'Injected' }, embedding([0, 1, 0]), 0);
+    expect(cache.lookup({ ...parts, text: 'Victim text' }, embedding([0, 1, 0]), 10)).toBeNull();
+  });
+
+  it('should list live entries without cached text or embeddings', () => {
+    cache.set(parts, response, embedding([1, 0]), 0);
+
+    const [entry] = cache.list(10);
+
+    expect(entry).toMatchObject({ action: 'Summarize', provider: 'gemini', hasEmbedding: true });
+    expect(entry).not.toHaveProperty('response');
+    expect(entry).not.toHaveProperty('embedding');
+  });
+
+  it('should purge by filter or entirely', () => {
+    cache.set(parts, response, undefined, 0);
+    cache.set({ ...parts, action: 'Amplify' }, response, undefined, 0);
+
+    expect(cache.purge({ action: 'Amplify' })).toBe(1);
+    expect(cache.purge()).toBe(1);
+    expect(cache.getStats().size).toBe(0);
+  });
+
+  it('should store nothing when disabled', () => {
+    const disabled = new ResponseCache({ maxEntries: 0, ttlMs: 1000, similarityThreshold: 0.95 });
+
+    expect(disabled.set(parts, response)).toBeNull();
+    expect(disabled.getStats().size).toBe(0);
+  });
+});
+
+describe('buildCacheKey', () => {
+  it('should share a scope across texts but not keys', () => {
+    const a = buildCacheKey(parts);
+    const b = buildCacheKey({ ...parts, text: 'different' });
+
+    expect(a.scope).toBe(b.scope);
+    expect(a.key).not.toBe(b.key);
+  });
+});
+
+describe('cosineSimilarity', () => {
+  it('should return 0 for mismatched or empty vectors', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+    expect(cosineSimilarity([], [])).toBe(0);
+    expect(cosineSimilarity([1, 2], [2, 4])).toBeCloseTo(1);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Telemetry Store Tests
+ * Tests for JSONL persistence, filtered queries and aggregates
+ */
+
+import { mkdtemp, readFile, rm, appendFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { TelemetryStore, matchesFilter } from '../telemetryStore.js';
+import type { InteractionEvent } from '../../middleware/validation.js';
+
+function makeEvent(overrides: Partial<InteractionEvent> = {}): InteractionEvent {
+  return {
+    id: `evt-${Math.random().toString(36).slice(2)}`,
+    timestamp: '2025-01-01T10:00:00.000Z',
+    userID: 'user-1',
+    sessionID: 'session-1',
+    tab: 'Shunt',
+    eventType: 'ai_response',
+    outcome: 'success',
+    ...overrides,
+  };
+}
+
+describe('TelemetryStore', () => {
+  let dir: string;
+  let store: TelemetryStore;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'telemetry-'));
+    store = new TelemetryStore(join(dir, 'nested', 'events.jsonl'));
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should return no events before anything is written', async () => {
+    await expect(store.query({ limit: 10 })).resolves.toEqual([]);
+  });
+
+  it('should append one JSON line per event', async () => {
+    await store.append([makeEvent({ id: 'a' }), makeEvent({ id: 'b' })]);
+    await store.append([makeEvent({ id: 'c' })]);
+
+    const lines = (await readFile(join(dir, 'nested', 'events.jsonl'), 'utf8')).trim().split('\n');
+    expect(lines.map((line) => JSON.parse(line).id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should return matching events newest first up to the limit', async () => {
+    await store.append([
+      makeEvent({ id: 'old', timestamp: '2025-01-01T08:00:00.000Z' }),
+      makeEvent({ id: 'new', timestamp: '2025-01-01T12:00:00.000Z' }),
+      makeEvent({ id: 'mid', timestamp: '2025-01-01T10:00:00.000Z' }),
+      makeEvent({ id: 'other-tab', tab: 'Weaver', timestamp: '2025-01-01T13:00:00.000Z' }),
+    ]);
+
+    const events = await store.query({ tab: 'Shunt', limit: 2 });
+
+    expect(events.map((e) => e.id)).toEqual(['new', 'mid']);
+  });
+
+  it('should skip malformed lines', async () => {
+    await store.append([makeEvent({ id: 'good' })]);
+    await appendFile(join(dir, 'nested', 'events.jsonl'), '{not json\n');
+
+    const events = await store.query({ limit: 10 });
+
+    expect(events.map((e) => e.id)).toEqual(['good']);
+  });
+
+  it('should summarize matching events', async () => {
+    await store.append([
+      makeEvent({ sessionID: 's1', latency: 100, tokenUsage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3, model: 'm' } }),
+      makeEvent({ sessionID: 's1', outcome: 'error', latency: 300, timestamp: '2025-01-02T10:00:00.000Z' }),
+      makeEvent({ sessionID: 's2', eventType: 'user_input', outcome: undefined, tab: 'Chat' }),
+    ]);
+
+    const summary = await store.summarize({});
+
+    expect(summary).toEqual({
+      totalEvents: 3,
+      sessions: 2,
+      byEventType: { ai_response: 2, user_input: 1 },
+      byOutcome: { success: 1, error: 1 },
+      byTab: { Shunt: 2, Chat: 1 },
+      averageLatencyMs: 200,
+      totalTokens: 3,
+      firstEventAt: '2025-01-01T10:00:00.000Z',
+      lastEventAt: '2025-01-02T10:00:00.000Z',
+    });
+  });
+});
+
+describe('matchesFilter', () => {
+  const event = makeEvent({ timestamp: '2025-01-01T10:00:00.000Z' });
+
+  it('should match when no filters are set', () => {
+    expect(matchesFilter(event, {})).toBe(true);
+  });
+
+  it('should filter by session, event type and outcome', () => {
+    expect(matchesFilter(event, { sessionID: 'session-2' })).toBe(false);
+    expect(matchesFilter(event, { eventType: 'user_input' })).toBe(false);
+    expect(matchesFilter(event, { outcome: 'error' })).toBe(false);
+    expect(matchesFilter(event, { sessionID: 'session-1', eventType: 'ai_response', outcome: 'success' })).toBe(true);
+  });
+
+  it('should filter by inclusive time range', () => {
+    expect(matchesFilter(event, { from: '2025-01-01T10:00:00.000Z', to: '2025-01-01T10:00:00.000Z' })).toBe(true);
+    expect(matchesFilter(event, { from: '2025-01-01T10:00:00.001Z' })).toBe(false);
+    expect(matchesFilter(event, { to: '2025-01-01T09:59:59.999Z' })).toBe(false);
+  });
+});
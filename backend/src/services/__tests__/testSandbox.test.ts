@@ -0,0 +1,204 @@
+/**
+ * Test Sandbox Tests
+ * Runs real sandbox processes: passing and failing tests, imports, isolation and limits
+ */
+
+import { execFile } from 'child_process';
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import {
+  TestSandbox,
+  normalizeSandboxPath,
+  prepareSandboxRuntime,
+  sandboxNodeArgs,
+  transpileForSandbox,
+} from '../testSandbox.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() },
+}));
+
+const implementation = {
+  path: 'src/cart.ts',
+  content: `export interface Item { name: string; price: number }
+export function total(items: Item[]): number {
+  return items.reduce((sum, item) => sum + item.price, 0);
+}`,
+};
+
+function sandbox(overrides: Partial<ConstructorParameters<typeof TestSandbox>[0]> = {}) {
+  return new TestSandbox({ testTimeoutMs: 1000, runTimeoutMs: 15000, memoryMb: 64, maxConcurrent: 1, ...overrides });
+}
+
+describe('TestSandbox', () => {
+  jest.setTimeout(30000);
+
+  it('should report passing and failing cases with assertion details', async () => {
+    const { results } = await sandbox().run({
+      files: [implementation],
+      tests: [
+        {
+          id: 'passing',
+          path: 'tests/cart.test.ts',
+          content: `import { describe, it, expect } from 'vitest';
+import { total } from '../src/cart';
+describe('total', () => {
+  it('adds prices', () => expect(total([{ name: 'a', price: 2 }, { name: 'b', price: 3 }])).toBe(5));
+  it('handles an empty cart', async () => { await expect(Promise.resolve(total([]))).resolves.toEqual(0); });
+});`,
+        },
+        {
+          id: 'failing',
+          path: 'tests/cart-discount.test.ts',
+          content: `import { total } from '../src/cart';
+it('applies a discount', () => {
+  expect(total([{ name: 'a', price: 10 }])).toBe(9);
+});`,
+        },
+      ],
+    });
+
+    expect(results[0]).toMatchObject({ id: 'passing', passed: true });
+    expect(results[0].cases.map((c) => c.name)).toEqual(['total > adds prices', 'total > handles an empty cart']);
+    expect(results[1].passed).toBe(false);
+    expect(results[1].errorMessage).toContain('applies a discount');
+    expect(results[1].errorMessage).toContain('Expected: 9');
+    expect(results[1].stackTrace).toContain('tests/cart-discount.test.ts');
+  });
+
+  it('should fail tests that import missing modules, packages or blocked builtins', async () => {
+    const { results } = await sandbox().run({
+      files: [],
+      tests: [
+        { id: 'missing', path: 'tests/a.test.ts', content: `import { x } from './nowhere'; it('x', () => expect(x).toBe(1));` },
+        { id: 'package', path: 'tests/b.test.ts', content: `import axios from 'axios'; it('x', () => expect(axios).toBeDefined());` },
+        { id: 'network', path: 'tests/c.test.ts', content: `import http from 'node:http'; it('x', () => expect(http).toBeDefined());` },
+        { id: 'fetch', path: 'tests/d.test.ts', content: `it('x', async () => { await fetch('https://example.com'); });` },
+      ],
+    });
+
+    expect(results.map((r) => r.passed)).toEqual([false, false, false, false]);
+    expect(results[0].errorMessage).toContain("Cannot find module './nowhere'");
+    expect(results[1].errorMessage).toContain("Module 'axios' is not available");
+    expect(results[2].errorMessage).toContain("Module 'node:http' is not available");
+    expect(results[3].errorMessage).toContain('fetch is not defined');
+  });
+
+  it('should keep the test process away from the filesystem, environment and eval', async () => {
+    process.env.SANDBOX_SECRET = 'do-not-leak';
+    const { results } = await sandbox().run({
+      files: [],
+      tests: [
+        {
+          id: 'isolation',
+          path: 'tests/isolation.test.js',
+          content: `it('has no secrets', () => expect(process.env.SANDBOX_SECRET).toBeUndefined());
+it('cannot escape through constructors', () => {
+  expect(() => (() => {}).constructor('return process')()).toThrow('Code generation from strings disallowed');
+});`,
+        },
+      ],
+    });
+    delete process.env.SANDBOX_SECRET;
+
+    expect(results[0].cases).toEqual([
+      expect.objectContaining({ name: 'has no secrets', passed: true }),
+      expect.objectContaining({ name: 'cannot escape through constructors', passed: true }),
+    ]);
+  });
+
+  it('should not let a test open a socket', async () => {
+    const { results } = await sandbox().run({
+      files: [],
+      tests: [
+        {
+          id: 'socket',
+          path: 'tests/socket.test.js',
+          content: `it('connects', () => { require('node:net').connect(80, '127.0.0.1'); });`,
+        },
+      ],
+    });
+
+    expect(results[0].passed).toBe(false);
+    expect(results[0].errorMessage).toContain("Module 'node:net' is not available");
+  });
+
+  it('should refuse sockets to the sandbox process itself, outside the vm context', async () => {
+    // Stands in for code that escaped the vm context: it runs with the harness's flags and policy
+    const dir = await prepareSandboxRuntime();
+    await writeFile(
+      join(dir, 'probe.cjs'),
+      `const attempts = {
+  net: () => require('net').connect(80, '127.0.0.1'),
+  dgram: () => require('dgram').createSocket('udp4'),
+  https: () => require('https').get('https://127.0.0.1'),
+  fetch: () => fetch('http://127.0.0.1'),
+  binding: () => process.binding('tcp_wrap'),
+};
+const outcome = {};
+for (const [name, attempt] of Object.entries(attempts)) {
+  try { attempt(); outcome[name] = 'opened'; } catch (error) { outcome[name] = error.code || error.name; }
+}
+console.log(JSON.stringify(outcome));
+process.exit(0);`
+    );
+
+    const { stdout } = await promisify(execFile)(process.execPath, sandboxNodeArgs(dir, 'probe.cjs', 64), { env: {} });
+
+    expect(JSON.parse(stdout)).toEqual({
+      net: 'ERR_MANIFEST_DEPENDENCY_MISSING',
+      dgram: 'ERR_MANIFEST_DEPENDENCY_MISSING',
+      https: 'ERR_MANIFEST_DEPENDENCY_MISSING',
+      fetch: 'ReferenceError',
+      binding: 'ERR_ACCESS_DENIED',
+    });
+  });
+
+  it('should time out busy loops and hanging tests without losing other results', async () => {
+    const { results } = await sandbox({ testTimeoutMs: 200 }).run({
+      files: [],
+      tests: [
+        {
+          id: 'slow',
+          path: 'tests/slow.test.ts',
+          content: `it('spins', () => { while (true) {} });
+it('hangs', () => new Promise(() => {}));
+it('still runs', () => expect(1).toBe(1));`,
+        },
+      ],
+    });
+
+    expect(results[0].cases.map((c) => [c.passed, c.message])).toEqual([
+      [false, expect.stringContaining('timed out')],
+      [false, 'Test timed out after 200ms'],
+      [true, undefined],
+    ]);
+  });
+
+  it('should report syntax errors and non-JavaScript tests as failures', async () => {
+    const { results } = await sandbox().run({
+      files: [{ path: 'src/broken.ts', content: 'export const = 1;' }],
+      tests: [
+        { id: 'syntax', path: 'tests/broken.test.ts', content: `import { x } from '../src/broken'; it('x', () => expect(x).toBe(1));` },
+        { id: 'python', path: 'tests/test_cart.py', content: 'def test_total(): assert True' },
+      ],
+    });
+
+    expect(results[0].passed).toBe(false);
+    expect(results[0].errorMessage).toContain('src/broken.ts');
+    expect(results[1].errorMessage).toContain('Only TypeScript and JavaScript');
+  });
+});
+
+describe('sandbox helpers', () => {
+  it('should normalise paths to the relative form used for imports', () => {
+    expect(normalizeSandboxPath('./src/cart.ts')).toBe('src/cart.ts');
+    expect(normalizeSandboxPath('\\src\\cart.ts')).toBe('src/cart.ts');
+  });
+
+  it('should transpile TypeScript to CommonJS', () => {
+    const { code } = transpileForSandbox('src/a.ts', 'export const a: number = 1;');
+    expect(code).toContain('exports.a = 1');
+  });
+});
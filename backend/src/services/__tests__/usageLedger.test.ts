@@ -0,0 +1,132 @@
+/**
+ * Usage Ledger Tests
+ * Tests for ledger persistence, month-to-date aggregates and tier limits
+ */
+
+import { mkdtemp, readFile, rm, writeFile, mkdir } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UsageLedger, type NewUsageEntry } from '../usageLedger.js';
+import { ApiKeyStore, apiKeyUserId, currentUsagePeriod } from '../apiKeyStore.js';
+
+jest.mock('../../utils/logger.js', () => ({
+  logger: {
+    warn: jest.fn(),
+    debug: jest.fn(),
+    info: jest.fn(),
+    error: jest.fn(),
+  },
+}));
+
+function shuntCall(overrides: Partial<NewUsageEntry> = {}): NewUsageEntry {
+  return {
+    userId: 'user-1',
+    feature: 'shuntRuns',
+    route: '/api/gemini/shunt',
+    provider: 'gemini',
+    model: 'gemini-2.5-flash',
+    promptTokens: 10,
+    completionTokens: 20,
+    totalTokens: 30,
+    ...overrides,
+  };
+}
+
+describe('UsageLedger', () => {
+  let dir: string;
+  let ledgerPath: string;
+  let ledger: UsageLedger;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'usage-'));
+    ledgerPath = join(dir, 'usage', 'ledger.jsonl');
+    ledger = new UsageLedger(ledgerPath);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('should start users on the Free tier with no usage', async () => {
+    const summary = await ledger.getSummary('user-1');
+
+    expect(summary.tier).toBe('Free');
+    expect(summary.period).toBe(currentUsagePeriod());
+    expect(summary.usage).toEqual({ shuntRuns: 0, weaverPlans: 0, trimAgentRuns: 0, deployments: 0 });
+    expect(summary.tokens.total).toBe(0);
+  });
+
+  it('should aggregate runs and tokens per feature and model', async () => {
+    await ledger.record(shuntCall());
+    await ledger.record(shuntCall({ model: 'gemini-2.5-pro', totalTokens: 100 }));
+    await ledger.record(shuntCall({ feature: null, route: '/api/gemini/analyze-image', totalTokens: 5 }));
+    await ledger.record(shuntCall({ userId: 'user-2' }));
+
+    const summary = await ledger.getSummary('user-1');
+
+    expect(summary.usage.shuntRuns).toBe(2);
+    expect(summary.tokens).toEqual({
+      total: 135,
+      byFeature: { shuntRuns: 130, other: 5 },
+      byModel: { 'gemini-2.5-flash': 35, 'gemini-2.5-pro': 100 },
+    });
+  });
+
+  it('should append every entry to the ledger file', async () => {
+    await ledger.record(shuntCall());
+    await ledger.record(shuntCall({ feature: 'weaverPlans', route: '/api/gemini/generate' }));
+
+    const lines = (await readFile(ledgerPath, 'utf8')).trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.map((entry) => entry.route)).toEqual(['/api/gemini/shunt', '/api/gemini/generate']);
+    expect(lines[0]).toHaveProperty('id');
+    expect(lines[0]).toHaveProperty('timestamp');
+  });
+
+  it('should rebuild this month from the ledger and ignore earlier months', async () => {
+    await mkdir(join(dir, 'usage'), { recursive: true });
+    const lastYear = { ...shuntCall(), id: 'old', timestamp: '2000-01-15T00:00:00.000Z' };
+    await writeFile(ledgerPath, JSON.stringify(lastYear) + '\n');
+    await ledger.record(shuntCall());
+
+    const reloaded = new UsageLedger(ledgerPath);
+
+    expect((await reloaded.getSummary('user-1')).usage.shuntRuns).toBe(1);
+  });
+
+  it('should report the limits of the user tier', async () => {
+    expect((await ledger.getSummary('user-1')).limits.deployments).toBe(1);
+
+    await ledger.setTier('user-1', 'Enterprise');
+
+    expect((await ledger.getSummary('user-1')).limits.deployments).toBe('unlimited');
+  });
+
+  it('should persist tier changes', async () => {
+    await ledger.setTier('user-1', 'Pro');
+
+    const reloaded = new UsageLedger(ledgerPath);
+    const summary = await reloaded.getSummary('user-1');
+
+    expect(summary.tier).toBe('Pro');
+    expect(summary.limits.shuntRuns).toBe(500);
+  });
+
+  it('should keep usage and tier for a minted key across rotation', async () => {
+    // Arrange
+    const keys = new ApiKeyStore(join(dir, 'keys', 'api-keys.json'));
+    const original = await keys.mint({ label: 'App', scopes: ['*'] });
+    const before = apiKeyUserId(keys.verify(original.key)!);
+    await ledger.record(shuntCall({ userId: before }));
+    await ledger.setTier(before, 'Pro');
+
+    // Act
+    const rotated = await keys.rotate(original.record.id);
+    const after = apiKeyUserId(keys.verify(rotated!.key)!);
+
+    // Assert
+    const summary = await ledger.getSummary(after);
+    expect(after).toBe(before);
+    expect(summary.tier).toBe('Pro');
+    expect(summary.usage.shuntRuns).toBe(1);
+  });
+});
@@ -0,0 +1,301 @@
+/**
+ * API Key Store
+ * File-backed store of hashed client API keys with labels, expiry, scopes and monthly token quotas
+ */
+
+import { createHash, randomBytes, randomUUID } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Scopes a key can be granted. `<area>:*` grants every scope in that area and `*` grants all
+ * non-admin scopes; admin scopes must always be granted explicitly.
+ */
+export const API_KEY_SCOPES = [
+  '*',
+  'gemini:*',
+  'gemini:shunt',
+  'gemini:generate',
+  'gemini:chat',
+  'image:*',
+  'image:analyze',
+  'local-llm:*',
+  'local-llm:generate',
+  'local-llm:chat',
+  'telemetry:*',
+  'telemetry:read',
+  'tests:*',
+  'tests:run',
+  'jobs:*',
+  'jobs:run',
+  'mcp:*',
+  'mcp:read',
+  'mcp:call',
+  'admin:*',
+  'admin:keys',
+  'admin:cache',
+  'admin:billing',
+  'admin:audit',
+  'admin:telemetry',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+/** Scopes given to legacy CLIENT_API_KEYS and development-mode keys */
+export const DEFAULT_CLIENT_SCOPES: ApiKeyScope[] = ['*'];
+
+export interface ApiKeyRecord {
+  id: string;
+  /** Stable identity shared by every key in a rotation chain (the first key's ID) */
+  ownerId: string;
+  label: string;
+  keyHash: string;
+  /** First characters of the plaintext key, for recognising it in listings */
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  /** ID of the key this one replaced when it was minted by a rotation */
+  rotatedFrom: string | null;
+  /** Monthly token allowance; null means unlimited */
+  monthlyTokenQuota: number | null;
+  usage: { period: string; tokens: number };
+}
+
+/** Record without the hash, safe to return from admin endpoints */
+export type ApiKeySummary = Omit<ApiKeyRecord, 'keyHash'>;
+
+export interface MintApiKeyOptions {
+  label: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | null;
+  monthlyTokenQuota?: number | null;
+}
+
+const KEY_PREFIX = 'sf_';
+
+/**
+ * Hash a plaintext key for storage and lookup
+ */
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Check whether a set of granted scopes satisfies a required scope
+ */
+export function hasScope(granted: readonly string[], required: string): boolean {
+  const [area] = required.split(':');
+
+  return granted.some((scope) => {
+    if (scope === required) return true;
+    if (scope === '*') return area !== 'admin';
+    return scope === `${area}:*`;
+  });
+}
+
+/**
+ * Usage period key (UTC calendar month), e.g. "2025-01"
+ */
+export function currentUsagePeriod(now: Date = new Date()): string {
+  return now.toISOString().slice(0, 7);
+}
+
+/**
+ * User ID a minted key authenticates as. Derived from the owner so usage, tiers and sessions survive rotation.
+ */
+export function apiKeyUserId(record: Pick<ApiKeyRecord, 'ownerId'>): string {
+  return `key-${record.ownerId}`;
+}
+
+export function toApiKeySummary(record: ApiKeyRecord): ApiKeySummary {
+  const { keyHash: _keyHash, ...summary } = record;
+  return summary;
+}
+
+export class ApiKeyStore {
+  private records: Map<string, ApiKeyRecord> | null = null;
+  private saveQueue: Promise<void> = Promise.resolve();
+  private pendingSave: Promise<void> | null = null;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Create a new key. The plaintext key is only ever returned here and from rotate().
+   */
+  async mint(options: MintApiKeyOptions, rotatedFrom: string | null = null): Promise<{ key: string; record: ApiKeySummary }> {
+    const records = this.load();
+    const key = `${KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+    const id = randomUUID();
+
+    const record: ApiKeyRecord = {
+      id,
+      ownerId: (rotatedFrom && records.get(rotatedFrom)?.ownerId) || id,
+      label: options.label,
+      keyHash: hashApiKey(key),
+      prefix: key.slice(0, KEY_PREFIX.length + 6),
+      scopes: options.scopes,
+      createdAt: new Date().toISOString(),
+      expiresAt: options.expiresAt ?? null,
+      revokedAt: null,
+      rotatedFrom,
+      monthlyTokenQuota: options.monthlyTokenQuota ?? null,
+      usage: { period: currentUsagePeriod(), tokens: 0 },
+    };
+
+    records.set(record.id, record);
+    await this.persist();
+
+    logger.info('API key minted', { keyId: record.id, label: record.label, scopes: record.scopes });
+    return { key, record: toApiKeySummary(record) };
+  }
+
+  list(): ApiKeySummary[] {
+    return [...this.load().values()]
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+      .map(toApiKeySummary);
+  }
+
+  get(id: string): ApiKeySummary | null {
+    const record = this.load().get(id);
+    return record ? toApiKeySummary(record) : null;
+  }
+
+  /**
+   * Replace a key with a freshly minted one carrying the same label, scopes, expiry and quota.
+   * The old key is revoked immediately; this month's usage carries over so rotation cannot reset a quota,
+   * and the owner ID carries over so the caller keeps the same user ID.
+   */
+  async rotate(id: string): Promise<{ key: string; record: ApiKeySummary } | null> {
+    const records = this.load();
+    const existing = records.get(id);
+    if (!existing || existing.revokedAt) return null;
+
+    existing.revokedAt = new Date().toISOString();
+    const minted = await this.mint(
+      {
+        label: existing.label,
+        scopes: existing.scopes,
+        expiresAt: existing.expiresAt,
+        monthlyTokenQuota: existing.monthlyTokenQuota,
+      },
+      existing.id
+    );
+
+    const replacement = records.get(minted.record.id)!;
+    if (existing.usage.period === replacement.usage.period) {
+      replacement.usage.tokens = existing.usage.tokens;
+      await this.persist();
+    }
+
+    logger.info('API key rotated', { keyId: existing.id, replacementId: replacement.id });
+    return { key: minted.key, record: toApiKeySummary(replacement) };
+  }
+
+  async revoke(id: string): Promise<ApiKeySummary | null> {
+    const record = this.load().get(id);
+    if (!record) return null;
+
+    if (!record.revokedAt) {
+      record.revokedAt = new Date().toISOString();
+      await this.persist();
+      logger.info('API key revoked', { keyId: record.id, label: record.label });
+    }
+    return toApiKeySummary(record);
+  }
+
+  /**
+   * Resolve a plaintext key to its record, or null if it is unknown, revoked or expired
+   */
+  verify(key: string, now: Date = new Date()): ApiKeyRecord | null {
+    const hash = hashApiKey(key);
+    const record = [...this.load().values()].find((candidate) => candidate.keyHash === hash);
+
+    if (!record || record.revokedAt) return null;
+    if (record.expiresAt && Date.parse(record.expiresAt) <= now.getTime()) return null;
+    return record;
+  }
+
+  /**
+   * Tokens left this month, or null when the key has no quota
+   */
+  remainingTokens(id: string, now: Date = new Date()): number | null {
+    const record = this.load().get(id);
+    if (!record || record.monthlyTokenQuota === null) return null;
+
+    const used = record.usage.period === currentUsagePeriod(now) ? record.usage.tokens : 0;
+    return Math.max(0, record.monthlyTokenQuota - used);
+  }
+
+  async recordUsage(id: string, tokens: number, now: Date = new Date()): Promise<void> {
+    const record = this.load().get(id);
+    if (!record || tokens <= 0) return;
+
+    const period = currentUsagePeriod(now);
+    if (record.usage.period !== period) {
+      record.usage = { period, tokens: 0 };
+    }
+    record.usage.tokens += tokens;
+    await this.persist();
+  }
+
+  /**
+   * Read the store file on first use. Missing file means no keys have been minted yet.
+   */
+  private load(): Map<string, ApiKeyRecord> {
+    if (this.records) return this.records;
+
+    this.records = new Map();
+    if (existsSync(this.filePath)) {
+      const stored = JSON.parse(readFileSync(this.filePath, 'utf8')) as { keys: ApiKeyRecord[] };
+      for (const record of stored.keys) {
+        this.records.set(record.id, record);
+      }
+      for (const record of this.records.values()) {
+        record.ownerId ??= this.findChainRoot(record).id;
+      }
+      logger.info('API key store loaded', { count: this.records.size });
+    }
+    return this.records;
+  }
+
+  /**
+   * First key of a rotation chain, for records stored before owner IDs existed
+   */
+  private findChainRoot(record: ApiKeyRecord): ApiKeyRecord {
+    let current = record;
+    while (current.rotatedFrom && this.records?.has(current.rotatedFrom)) {
+      current = this.records.get(current.rotatedFrom)!;
+    }
+    return current;
+  }
+
+  /**
+   * Write the current snapshot. Saves are serialized, and saves requested while one is queued share it.
+   */
+  private persist(): Promise<void> {
+    if (this.pendingSave) return this.pendingSave;
+
+    const save = this.saveQueue.then(async () => {
+      this.pendingSave = null;
+      const snapshot = JSON.stringify({ keys: [...this.load().values()] }, null, 2);
+      const tempPath = `${this.filePath}.tmp`;
+
+      await mkdir(dirname(this.filePath), { recursive: true });
+      await writeFile(tempPath, snapshot, { encoding: 'utf8', mode: 0o600 });
+      await rename(tempPath, this.filePath);
+    });
+
+    this.pendingSave = save;
+    this.saveQueue = save.catch((error) => {
+      logger.error('Failed to persist API key store', { error });
+    });
+    return save;
+  }
+}
+
+export const apiKeyStore = new ApiKeyStore(env.API_KEY_STORE_PATH);
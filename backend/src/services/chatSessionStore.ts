@@ -0,0 +1,285 @@
+/**
+ * Chat Session Store
+ * Server-held multi-turn conversations. Each session keeps the full transcript for clients and a context window
+ * for the model: once the window outgrows its token budget, older turns are folded into a running summary
+ * (or dropped when summarizing fails) so every request fits the model's context.
+ */
+
+import { randomUUID } from 'crypto';
+import type { Content } from '@google/genai';
+import { env } from '../config/environment.js';
+
+export type ChatRole = 'user' | 'model';
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  text: string;
+  createdAt: string;
+}
+
+export interface ChatSession {
+  id: string;
+  userId: string;
+  title: string | null;
+  model: string;
+  systemInstruction: string | null;
+  messages: ChatMessage[];
+  /** Summary of the messages before `contextStart`, sent to the model instead of them */
+  summary: string | null;
+  /** Index of the first message still sent to the model verbatim */
+  contextStart: number;
+  createdAt: string;
+  updatedAt: string;
+  /** True while a reply is being generated; a session answers one message at a time */
+  pending: boolean;
+}
+
+export type ChatSessionSummary = Pick<ChatSession, 'id' | 'title' | 'model' | 'createdAt' | 'updatedAt'> & {
+  messageCount: number;
+  lastMessagePreview: string | null;
+};
+
+/** Session as returned to its owner */
+export type ChatSessionView = Omit<ChatSession, 'userId' | 'pending'> & { contextTokens: number };
+
+export interface ChatSessionStoreOptions {
+  /** Sessions idle for longer are deleted */
+  ttlMs: number;
+  /** Creating a session beyond this deletes the user's least recently used one */
+  maxSessionsPerUser: number;
+  /** Estimated tokens of system instruction, summary and verbatim turns allowed per request */
+  maxHistoryTokens: number;
+  /** Most recent messages that are always sent verbatim */
+  keepRecentMessages: number;
+}
+
+export interface CreateChatSessionInput {
+  model: string;
+  title?: string;
+  systemInstruction?: string;
+  /** Earlier turns to start from, e.g. a conversation the client kept locally */
+  history?: { role: ChatRole; text: string }[];
+}
+
+/**
+ * Folds `messages` into `previousSummary` and returns the new summary
+ */
+export type ChatSummarizer = (previousSummary: string | null, messages: ChatMessage[]) => Promise<string>;
+
+export interface CompactionResult {
+  /** Messages folded into the summary */
+  summarized: number;
+  /** Messages dropped from the context without a summary */
+  trimmed: number;
+}
+
+const PREVIEW_LENGTH = 120;
+/** Messages already outside the context window are dropped from the transcript beyond this */
+const MAX_TRANSCRIPT_MESSAGES = 500;
+
+/**
+ * Rough token count (about four characters per token for English text and code)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export class ChatSessionStore {
+  private sessions = new Map<string, ChatSession>();
+
+  constructor(private readonly options: ChatSessionStoreOptions) {}
+
+  create(userId: string, input: CreateChatSessionInput): ChatSession {
+    this.purgeExpired();
+
+    const now = new Date().toISOString();
+    const session: ChatSession = {
+      id: randomUUID(),
+      userId,
+      title: input.title ?? null,
+      model: input.model,
+      systemInstruction: input.systemInstruction ?? null,
+      messages: (input.history ?? []).map((message) => ({
+        id: randomUUID(),
+        role: message.role,
+        text: message.text,
+        createdAt: now,
+      })),
+      summary: null,
+      contextStart: 0,
+      createdAt: now,
+      updatedAt: now,
+      pending: false,
+    };
+    this.sessions.set(session.id, session);
+
+    const owned = this.ownedBy(userId);
+    owned
+      .sort((a, b) => a.updatedAt.localeCompare(b.updatedAt))
+      .slice(0, Math.max(0, owned.length - this.options.maxSessionsPerUser))
+      .forEach((stale) => this.sessions.delete(stale.id));
+
+    return session;
+  }
+
+  /**
+   * Session by id, only if it belongs to `userId` and has not expired
+   */
+  get(id: string, userId: string): ChatSession | undefined {
+    const session = this.sessions.get(id);
+    if (!session || session.userId !== userId) return undefined;
+    if (this.isExpired(session)) {
+      this.sessions.delete(id);
+      return undefined;
+    }
+    return session;
+  }
+
+  /**
+   * The user's sessions, most recently active first
+   */
+  list(userId: string): ChatSessionSummary[] {
+    this.purgeExpired();
+    return this.ownedBy(userId)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((session) => {
+        const last = session.messages[session.messages.length - 1];
+        return {
+          id: session.id,
+          title: session.title,
+          model: session.model,
+          createdAt: session.createdAt,
+          updatedAt: session.updatedAt,
+          messageCount: session.messages.length,
+          lastMessagePreview: last ? last.text.slice(0, PREVIEW_LENGTH) : null,
+        };
+      });
+  }
+
+  delete(id: string, userId: string): boolean {
+    if (!this.get(id, userId)) return false;
+    return this.sessions.delete(id);
+  }
+
+  appendMessage(session: ChatSession, role: ChatRole, text: string): ChatMessage {
+    const message: ChatMessage = { id: randomUUID(), role, text, createdAt: new Date().toISOString() };
+    session.messages.push(message);
+    session.updatedAt = message.createdAt;
+
+    const overflow = Math.min(session.messages.length - MAX_TRANSCRIPT_MESSAGES, session.contextStart);
+    if (overflow > 0) {
+      session.messages.splice(0, overflow);
+      session.contextStart -= overflow;
+    }
+
+    return message;
+  }
+
+  /**
+   * Undo a message whose reply failed, so the client can resend it. Only messages still in the context window can be removed.
+   */
+  removeMessage(session: ChatSession, messageId: string): boolean {
+    const index = session.messages.findIndex((message) => message.id === messageId);
+    if (index < session.contextStart) return false;
+    session.messages.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Estimated tokens of everything sent to the model for the session's next reply
+   */
+  contextTokens(session: ChatSession): number {
+    return (
+      estimateTokens(this.systemInstructionFor(session) ?? '') +
+      session.messages.slice(session.contextStart).reduce((sum, message) => sum + estimateTokens(message.text), 0)
+    );
+  }
+
+  /**
+   * Shrink the context window to the token budget. Older turns are summarized together, leaving at least
+   * `keepRecentMessages` verbatim and a window that starts with a user turn. If summarizing fails, or the recent turns
+   * alone are over budget, the oldest turns are dropped instead.
+   */
+  async compact(session: ChatSession, summarize: ChatSummarizer): Promise<CompactionResult> {
+    const result: CompactionResult = { summarized: 0, trimmed: 0 };
+    if (this.contextTokens(session) <= this.options.maxHistoryTokens) return result;
+
+    const end = this.windowStartAfter(session, session.messages.length - this.options.keepRecentMessages);
+    if (end > session.contextStart) {
+      const folded = session.messages.slice(session.contextStart, end);
+      try {
+        session.summary = await summarize(session.summary, folded);
+        result.summarized = folded.length;
+      } catch {
+        result.trimmed = folded.length;
+      }
+      session.contextStart = end;
+    }
+
+    // The newest message is always kept, even if it is over budget on its own
+    while (this.contextTokens(session) > this.options.maxHistoryTokens && session.contextStart < session.messages.length - 1) {
+      const start = this.windowStartAfter(session, session.contextStart + 1);
+      result.trimmed += start - session.contextStart;
+      session.contextStart = start;
+    }
+
+    return result;
+  }
+
+  /**
+   * Role-tagged turns of the context window, for the model's `contents`
+   */
+  contentsFor(session: ChatSession): Content[] {
+    return session.messages.slice(session.contextStart).map((message) => ({
+      role: message.role,
+      parts: [{ text: message.text }],
+    }));
+  }
+
+  /**
+   * The session's system instruction with the summary of earlier turns appended
+   */
+  systemInstructionFor(session: ChatSession): string | undefined {
+    const parts = [
+      session.systemInstruction,
+      session.summary ? `Summary of the earlier conversation:\n${session.summary}` : null,
+    ].filter((part): part is string => Boolean(part));
+    return parts.length > 0 ? parts.join('\n\n') : undefined;
+  }
+
+  toView(session: ChatSession): ChatSessionView {
+    const { userId: _userId, pending: _pending, ...view } = session;
+    return { ...view, messages: [...session.messages], contextTokens: this.contextTokens(session) };
+  }
+
+  /**
+   * First index at or after `index` (but before the last message) holding a user turn, so the window never opens on a reply
+   */
+  private windowStartAfter(session: ChatSession, index: number): number {
+    let start = Math.max(index, session.contextStart);
+    while (start < session.messages.length - 1 && session.messages[start].role !== 'user') start++;
+    return Math.min(start, session.messages.length - 1);
+  }
+
+  private ownedBy(userId: string): ChatSession[] {
+    return [...this.sessions.values()].filter((session) => session.userId === userId);
+  }
+
+  private isExpired(session: ChatSession): boolean {
+    return Date.now() - Date.parse(session.updatedAt) > this.options.ttlMs;
+  }
+
+  private purgeExpired(): void {
+    for (const session of [...this.sessions.values()]) {
+      if (this.isExpired(session)) this.sessions.delete(session.id);
+    }
+  }
+}
+
+export const chatSessionStore = new ChatSessionStore({
+  ttlMs: env.CHAT_SESSION_TTL_MS,
+  maxSessionsPerUser: env.CHAT_MAX_SESSIONS_PER_USER,
+  maxHistoryTokens: env.CHAT_MAX_HISTORY_TOKENS,
+  keepRecentMessages: env.CHAT_KEEP_RECENT_MESSAGES,
+});
@@ -3,7 +3,7 @@
  * Securely handles all Gemini API calls with proper error handling and token tracking
  */
 
-import { GoogleGenAI, GenerateContentResponse } from '@google/genai';
+import { GoogleGenAI, GenerateContentResponse, type Content } from '@google/genai';
 import { secretManager } from './secretManager.js';
 import { logger } from '../utils/logger.js';
 
@@ -22,8 +22,14 @@ export interface GeminiRequestConfig {
   responseMimeType?: string;
   responseSchema?: any;
   thinkingConfig?: { thinkingBudget: number };
+  systemInstruction?: string;
 }
 
+/**
+ * A single prompt, or role-tagged turns of a multi-turn conversation
+ */
+export type GeminiContents = string | Content[];
+
 class GeminiService {
   private apiKey: string | null = null;
   private client: GoogleGenAI | null = null;
@@ -72,12 +78,13 @@ class GeminiService {
   }
 
   /**
-   * Generate content with Gemini
+   * Generate content with Gemini. Aborting `signal` cancels the call.
    */
   async generateContent(
-    prompt: string,
+    prompt: GeminiContents,
     model: string = 'gemini-2.5-flash',
-    config?: GeminiRequestConfig
+    config?: GeminiRequestConfig,
+    signal?: AbortSignal
   ): Promise<{ text: string; tokenUsage: TokenUsage }> {
     const client = await this.ensureInitialized();
     const startTime = Date.now();
@@ -88,7 +95,7 @@ class GeminiService {
       const response = await client.models.generateContent({
         model,
         contents: prompt,
-        config: config || {},
+        config: signal ? { ...(config || {}), abortSignal: signal } : config || {},
       });
 
       const latencyMs = Date.now() - startTime;
@@ -110,6 +117,58 @@ class GeminiService {
     }
   }
 
+  /**
+   * Stream content with Gemini, forwarding each text chunk as it arrives
+   */
+  async generateContentStream(
+    prompt: GeminiContents,
+    model: string = 'gemini-2.5-flash',
+    config: GeminiRequestConfig | undefined,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ text: string; tokenUsage: TokenUsage }> {
+    const client = await this.ensureInitialized();
+    const startTime = Date.now();
+
+    try {
+      logger.debug('Streaming content with Gemini', { model, configKeys: Object.keys(config || {}) });
+
+      const stream = await client.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: { ...(config || {}), abortSignal: signal },
+      });
+
+      let text = '';
+      let lastChunk: GenerateContentResponse | null = null;
+
+      for await (const chunk of stream) {
+        lastChunk = chunk;
+        const chunkText = chunk.text ?? '';
+        if (chunkText) {
+          text += chunkText;
+          onChunk(chunkText);
+        }
+      }
+
+      // Usage metadata is reported on the final chunk
+      const tokenUsage = lastChunk
+        ? this.mapTokenUsage(lastChunk, model)
+        : { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0, model };
+
+      logger.info('Gemini content streamed', {
+        model,
+        latencyMs: Date.now() - startTime,
+        totalTokens: tokenUsage.total_tokens,
+      });
+
+      return { text, tokenUsage };
+    } catch (error) {
+      logger.error('Gemini API error (stream)', { error, model, latencyMs: Date.now() - startTime });
+      throw error;
+    }
+  }
+
   /**
    * Generate content with image
    */
@@ -157,6 +216,49 @@ class GeminiService {
     }
   }
 
+  /**
+   * Embed texts with a Gemini embedding model, one vector per text in input order
+   */
+  async embedContents(
+    texts: string[],
+    model: string = 'text-embedding-004',
+    signal?: AbortSignal
+  ): Promise<{ vectors: number[][]; model: string; tokenUsage: TokenUsage }> {
+    const client = await this.ensureInitialized();
+    const startTime = Date.now();
+
+    try {
+      const response = await client.models.embedContent({
+        model,
+        contents: texts,
+        config: { abortSignal: signal },
+      });
+      const vectors = (response.embeddings ?? []).map((embedding) => embedding.values ?? []);
+      if (vectors.length !== texts.length) {
+        throw new Error(`Expected ${texts.length} embeddings, received ${vectors.length}`);
+      }
+
+      // Only Vertex reports token counts for embeddings; estimate the rest from the text length
+      const promptTokens = texts.reduce(
+        (sum, text, index) => sum + (response.embeddings?.[index]?.statistics?.tokenCount ?? Math.ceil(text.length / 4)),
+        0
+      );
+      const tokenUsage: TokenUsage = { prompt_tokens: promptTokens, completion_tokens: 0, total_tokens: promptTokens, model };
+
+      logger.info('Gemini embeddings generated', {
+        model,
+        count: texts.length,
+        totalTokens: promptTokens,
+        latencyMs: Date.now() - startTime,
+      });
+
+      return { vectors, model, tokenUsage };
+    } catch (error) {
+      logger.error('Gemini API error (embeddings)', { error, model, latencyMs: Date.now() - startTime });
+      throw error;
+    }
+  }
+
   /**
    * Create a chat session
    */
@@ -0,0 +1,410 @@
+/**
+ * Governance Engine
+ * Evaluates governance rules over each session's recent telemetry, returns directives for the client
+ * and appends every decision to a JSONL audit log
+ */
+
+import { createReadStream, existsSync, readFileSync } from 'fs';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { createInterface } from 'readline';
+import { randomUUID } from 'crypto';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import {
+  governanceRulesSchema,
+  type ClientInferredState,
+  type GovernanceAuditQuery,
+  type GovernanceDecisionRequest,
+  type UserTelemetryEvent,
+} from '../middleware/validation.js';
+import {
+  DEFAULT_GOVERNANCE_RULES,
+  type DirectiveType,
+  type GovernanceEventMatch,
+  type GovernanceGroupKey,
+  type GovernanceRule,
+} from '../config/governanceRules.js';
+
+export interface AutonomousDirective {
+  id: string;
+  type: DirectiveType;
+  targetElementId?: string;
+  payload: Record<string, unknown>;
+  priority?: number;
+  /** Time-to-live in milliseconds */
+  ttl?: number;
+  creationTimestamp: string;
+  originEventId?: string;
+}
+
+export interface GovernanceResponse {
+  directives: AutonomousDirective[];
+  clientInferenceUpdate?: ClientInferredState;
+}
+
+/**
+ * One audit log line: what was evaluated, which rules fired and on which events
+ */
+export interface GovernanceDecisionRecord {
+  id: string;
+  timestamp: string;
+  userId: string;
+  sessionIds: string[];
+  eventCount: number;
+  clientState: ClientInferredState | null;
+  fired: Array<{
+    ruleId: string;
+    sessionId: string;
+    directiveId: string;
+    /** IDs of the events that satisfied the rule */
+    evidence: string[];
+  }>;
+  clientInferenceUpdate: ClientInferredState | null;
+}
+
+export interface GovernanceEngineOptions {
+  rules: GovernanceRule[];
+  auditPath: string;
+  /** Events kept per session, newest first */
+  maxEventsPerSession: number;
+  /** Sessions with no events for this long are forgotten */
+  sessionIdleMs: number;
+  now?: () => number;
+}
+
+/**
+ * A rule that holds for a session, with the event that completed it
+ */
+export interface RuleFiring {
+  trigger: UserTelemetryEvent;
+  evidence: UserTelemetryEvent[];
+  /** Values for the directive message placeholders */
+  vars: Record<string, string | number>;
+}
+
+interface SessionWindow {
+  /** Oldest first */
+  events: UserTelemetryEvent[];
+  /** Event time at which each rule last fired, for cooldowns */
+  lastFired: Map<string, number>;
+  lastSeen: number;
+}
+
+// Clients report what they know about an event in `context`: the tab, the outcome, latency and the Shunt action
+export function eventTab(event: UserTelemetryEvent): string {
+  return typeof event.context?.tab === 'string' ? event.context.tab : event.pagePath;
+}
+
+export function eventOutcome(event: UserTelemetryEvent): string | undefined {
+  if (typeof event.context?.outcome === 'string') return event.context.outcome;
+  return event.eventType === 'error' ? 'error' : undefined;
+}
+
+export function eventLatencyMs(event: UserTelemetryEvent): number | undefined {
+  return typeof event.context?.latencyMs === 'number' ? event.context.latencyMs : event.duration;
+}
+
+export function eventAction(event: UserTelemetryEvent): string | undefined {
+  return typeof event.context?.shuntAction === 'string' ? event.context.shuntAction : undefined;
+}
+
+const GROUP_READERS: Record<GovernanceGroupKey, (event: UserTelemetryEvent) => string | undefined> = {
+  tab: eventTab,
+  action: eventAction,
+  elementId: (event) => event.elementId,
+};
+
+function eventTime(event: UserTelemetryEvent): number {
+  return Date.parse(event.timestamp);
+}
+
+function matchesEvent(event: UserTelemetryEvent, match: GovernanceEventMatch): boolean {
+  if (match.eventTypes && !match.eventTypes.includes(event.eventType)) return false;
+  if (match.outcomes && !match.outcomes.includes(eventOutcome(event) ?? '')) return false;
+  if (match.tabs && !match.tabs.includes(eventTab(event))) return false;
+  if (match.actions && !match.actions.includes(eventAction(event) ?? '')) return false;
+  return true;
+}
+
+function placeholderVars(event: UserTelemetryEvent): Record<string, string | number> {
+  return {
+    tab: eventTab(event),
+    action: eventAction(event) ?? '',
+    elementId: event.elementId ?? '',
+  };
+}
+
+/**
+ * Check one rule against a session's events (oldest first).
+ * A rule only fires on events that include a new one (`isNew`), so a stale pattern is not reported twice.
+ */
+export function evaluateRule(
+  rule: GovernanceRule,
+  events: UserTelemetryEvent[],
+  isNew: (event: UserTelemetryEvent) => boolean
+): RuleFiring | null {
+  if (events.length === 0) return null;
+  const { condition } = rule;
+
+  if (condition.kind === 'threshold') {
+    const windowStart = eventTime(events[events.length - 1]) - condition.windowMs;
+    const groups = new Map<string, UserTelemetryEvent[]>();
+
+    for (const event of events) {
+      if (eventTime(event) < windowStart || !matchesEvent(event, condition.match)) continue;
+      const key = condition.groupBy ? GROUP_READERS[condition.groupBy](event) : '*';
+      if (key === undefined) continue;
+      groups.set(key, [...(groups.get(key) ?? []), event]);
+    }
+
+    let largest: UserTelemetryEvent[] | null = null;
+    for (const group of groups.values()) {
+      if (group.length < condition.minCount || !isNew(group[group.length - 1])) continue;
+      if (!largest || group.length > largest.length) largest = group;
+    }
+    if (!largest) return null;
+
+    const trigger = largest[largest.length - 1];
+    return { trigger, evidence: largest, vars: { ...placeholderVars(trigger), count: largest.length } };
+  }
+
+  // Abandonment: the newest leave or cancel that follows a slow event closely enough
+  for (let i = events.length - 1; i > 0; i--) {
+    const left = events[i];
+    const isAbandon = condition.abandonEventTypes.includes(left.eventType) || eventOutcome(left) === 'aborted';
+    if (!isAbandon || !isNew(left)) continue;
+
+    for (let j = i - 1; j >= 0; j--) {
+      const slow = events[j];
+      if (eventTime(left) - eventTime(slow) > condition.withinMs) break;
+      const latency = eventLatencyMs(slow);
+      if (latency === undefined || latency < condition.minLatencyMs) continue;
+
+      return {
+        trigger: left,
+        evidence: [slow, left],
+        vars: { ...placeholderVars(slow), count: 1, latencySeconds: Math.round(latency / 1000) },
+      };
+    }
+  }
+  return null;
+}
+
+function fillMessage(template: string, vars: Record<string, string | number>): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in vars ? String(vars[name]) : placeholder
+  );
+}
+
+export class GovernanceEngine {
+  private readonly sessions = new Map<string, SessionWindow>();
+  /** Longest span any rule looks back over; older events are dropped */
+  private readonly retentionMs: number;
+  private readonly now: () => number;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private directoryReady = false;
+
+  constructor(private readonly options: GovernanceEngineOptions) {
+    this.now = options.now ?? Date.now;
+    this.retentionMs = Math.max(
+      0,
+      ...options.rules.map((rule) =>
+        rule.condition.kind === 'threshold' ? rule.condition.windowMs : rule.condition.withinMs
+      )
+    );
+  }
+
+  /**
+   * Add a batch of events to their sessions' windows, evaluate every rule and record the decision
+   */
+  async decide(userId: string, request: GovernanceDecisionRequest): Promise<GovernanceResponse> {
+    const now = this.now();
+    this.evictIdleSessions(now);
+
+    const directives: AutonomousDirective[] = [];
+    const fired: GovernanceDecisionRecord['fired'] = [];
+    let inference: { rule: GovernanceRule; state: ClientInferredState } | null = null;
+
+    const batches = new Map<string, UserTelemetryEvent[]>();
+    for (const event of request.events) {
+      batches.set(event.sessionId, [...(batches.get(event.sessionId) ?? []), event]);
+    }
+
+    for (const [sessionId, batch] of batches) {
+      const session = this.session(`${userId}:${sessionId}`, now);
+      const added = this.addEvents(session, batch);
+
+      for (const rule of this.options.rules) {
+        const firing = evaluateRule(rule, session.events, (event) => added.has(event.id));
+        if (!firing) continue;
+
+        const firedAt = eventTime(firing.trigger);
+        const lastFired = session.lastFired.get(rule.id);
+        if (lastFired !== undefined && firedAt - lastFired < rule.cooldownMs) continue;
+        session.lastFired.set(rule.id, firedAt);
+
+        const directive: AutonomousDirective = {
+          id: randomUUID(),
+          type: rule.directive.type,
+          targetElementId: firing.trigger.elementId,
+          payload: {
+            ...rule.directive.payload,
+            message: fillMessage(rule.directive.message, firing.vars),
+            ruleId: rule.id,
+          },
+          priority: rule.directive.priority,
+          ttl: rule.directive.ttlMs,
+          creationTimestamp: new Date(now).toISOString(),
+          originEventId: firing.trigger.id,
+        };
+        directives.push(directive);
+        fired.push({
+          ruleId: rule.id,
+          sessionId,
+          directiveId: directive.id,
+          evidence: firing.evidence.map((event) => event.id),
+        });
+
+        if (rule.inference && (!inference || rule.inference.confidence > inference.state.confidence)) {
+          inference = { rule, state: { ...rule.inference, context: { ruleId: rule.id } } };
+        }
+      }
+    }
+
+    directives.sort((a, b) => (a.priority ?? 99) - (b.priority ?? 99));
+    const clientInferenceUpdate = inference?.state ?? null;
+
+    const record: GovernanceDecisionRecord = {
+      id: randomUUID(),
+      timestamp: new Date(now).toISOString(),
+      userId,
+      sessionIds: [...batches.keys()],
+      eventCount: request.events.length,
+      clientState: request.clientState ?? null,
+      fired,
+      clientInferenceUpdate,
+    };
+    await this.appendAudit(record);
+
+    if (fired.length > 0) {
+      logger.info('Governance rules fired', {
+        userId,
+        decisionId: record.id,
+        rules: fired.map((entry) => entry.ruleId),
+      });
+    }
+
+    return clientInferenceUpdate ? { directives, clientInferenceUpdate } : { directives };
+  }
+
+  /**
+   * Recorded decisions, newest first
+   */
+  async queryAudit(query: GovernanceAuditQuery): Promise<GovernanceDecisionRecord[]> {
+    const matches: GovernanceDecisionRecord[] = [];
+
+    await this.scanAudit((record) => {
+      if (query.userId && record.userId !== query.userId) return;
+      if (query.sessionId && !record.sessionIds.includes(query.sessionId)) return;
+      if (query.ruleId && !record.fired.some((entry) => entry.ruleId === query.ruleId)) return;
+      matches.push(record);
+    });
+
+    return matches.reverse().slice(0, query.limit);
+  }
+
+  private session(key: string, now: number): SessionWindow {
+    let session = this.sessions.get(key);
+    if (!session) {
+      session = { events: [], lastFired: new Map(), lastSeen: now };
+      this.sessions.set(key, session);
+    }
+    session.lastSeen = now;
+    return session;
+  }
+
+  /**
+   * Merge events into the window, skipping ones already seen. Returns the IDs that were added.
+   */
+  private addEvents(session: SessionWindow, batch: UserTelemetryEvent[]): Set<string> {
+    const known = new Set(session.events.map((event) => event.id));
+    const added = new Set<string>();
+    for (const event of batch) {
+      if (known.has(event.id) || added.has(event.id)) continue;
+      session.events.push(event);
+      added.add(event.id);
+    }
+
+    session.events.sort((a, b) => eventTime(a) - eventTime(b) || a.sequenceNumber - b.sequenceNumber);
+    const cutoff = eventTime(session.events[session.events.length - 1]) - this.retentionMs;
+    session.events = session.events
+      .filter((event) => eventTime(event) >= cutoff)
+      .slice(-this.options.maxEventsPerSession);
+    return added;
+  }
+
+  private evictIdleSessions(now: number): void {
+    for (const [key, session] of this.sessions) {
+      if (now - session.lastSeen > this.options.sessionIdleMs) {
+        this.sessions.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Append one decision. Writes are serialized so concurrent decisions never interleave lines.
+   */
+  private appendAudit(record: GovernanceDecisionRecord): Promise<void> {
+    const write = this.writeQueue.then(async () => {
+      if (!this.directoryReady) {
+        await mkdir(dirname(this.options.auditPath), { recursive: true });
+        this.directoryReady = true;
+      }
+      await appendFile(this.options.auditPath, JSON.stringify(record) + '\n', 'utf8');
+    });
+
+    // Keep the queue alive after a failed write; the caller still sees the rejection
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  private async scanAudit(visit: (record: GovernanceDecisionRecord) => void): Promise<void> {
+    await this.writeQueue;
+
+    const input = createReadStream(this.options.auditPath, { encoding: 'utf8' });
+    const lines = createInterface({ input, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          visit(JSON.parse(line) as GovernanceDecisionRecord);
+        } catch {
+          logger.warn('Skipping malformed governance audit line', { auditPath: this.options.auditPath });
+        }
+      }
+    } catch (error) {
+      // No decisions have been recorded yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    } finally {
+      lines.close();
+    }
+  }
+}
+
+/**
+ * Read governance rules from a JSON file. A missing path means the default rules; an invalid file fails startup.
+ */
+export function loadGovernanceRules(path?: string): GovernanceRule[] {
+  if (!path || !existsSync(path)) return DEFAULT_GOVERNANCE_RULES;
+  return governanceRulesSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+export const governanceEngine = new GovernanceEngine({
+  rules: loadGovernanceRules(env.GOVERNANCE_RULES_PATH),
+  auditPath: env.GOVERNANCE_AUDIT_PATH,
+  maxEventsPerSession: env.GOVERNANCE_MAX_EVENTS_PER_SESSION,
+  sessionIdleMs: env.GOVERNANCE_SESSION_IDLE_MS,
+});
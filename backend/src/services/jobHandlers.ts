@@ -0,0 +1,208 @@
+/**
+ * Job Handlers
+ * The work behind each background job type: plans, shunt batches, Foundry runs and RAG index builds
+ */
+
+import { geminiService, type TokenUsage } from './geminiService.js';
+import { mapWithConcurrency } from '../utils/concurrency.js';
+import { buildShuntPrompt, getShuntRequestConfig, cleanShuntResult } from '../prompts/shuntPrompts.js';
+import {
+  FOUNDRY_AGENT_NAMES,
+  buildJobPlanPrompt,
+  buildFoundryAuditPrompt,
+  buildFoundrySynthesisPrompt,
+  formatProjectContext,
+  type FoundryAgentName,
+} from '../prompts/jobPrompts.js';
+import type { JobContext, JobHandlers, JobInput } from './jobQueue.js';
+
+const SHUNT_BATCH_CONCURRENCY = 4;
+/** Texts per embedding request */
+const EMBEDDING_BATCH_SIZE = 100;
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'Unknown error';
+}
+
+/**
+ * Stop between steps of a job once it has been cancelled
+ */
+function throwIfCancelled(context: JobContext): void {
+  if (context.signal.aborted) {
+    throw new Error('Job cancelled');
+  }
+}
+
+async function runPlan(input: JobInput<'plan'>, context: JobContext) {
+  context.log(`Asking ${input.modelName} for a step-by-step plan`);
+  const { text, tokenUsage } = await geminiService.generateContent(
+    buildJobPlanPrompt(input.prompt),
+    input.modelName,
+    undefined,
+    context.signal
+  );
+  context.recordUsage(tokenUsage);
+  context.log('Plan received', 'info', { totalTokens: tokenUsage.total_tokens });
+
+  return { result: text };
+}
+
+type ShuntBatchItemResult = { id: string; resultText: string; tokenUsage: TokenUsage } | { id: string; error: string };
+
+async function runShuntBatch(input: JobInput<'shunt_batch'>, context: JobContext) {
+  const { items, action, modelName, context: referenceContext, priority } = input;
+  let completed = 0;
+  context.log(`Running ${action} on ${items.length} items with ${modelName}`);
+
+  const results = await mapWithConcurrency(
+    items,
+    SHUNT_BATCH_CONCURRENCY,
+    async (item, index): Promise<ShuntBatchItemResult> => {
+      const id = item.id ?? String(index);
+      try {
+        const prompt = buildShuntPrompt({ text: item.text, action, context: referenceContext, priority });
+        const result = await geminiService.generateContent(
+          prompt,
+          modelName,
+          getShuntRequestConfig(action, modelName),
+          context.signal
+        );
+        // Each item counts as one shunt run, as with /api/gemini/shunt/batch
+        context.recordUsage(result.tokenUsage, 'shuntRuns');
+        return { id, resultText: cleanShuntResult(action, result.text), tokenUsage: result.tokenUsage };
+      } catch (error) {
+        context.log(`Item ${id} failed: ${errorMessage(error)}`, 'warn');
+        return { id, error: errorMessage(error) };
+      } finally {
+        completed++;
+        context.progress(completed / items.length);
+      }
+    },
+    { signal: context.signal, onSkipped: (item, index) => ({ id: item.id ?? String(index), error: 'Job cancelled' }) }
+  );
+  throwIfCancelled(context);
+
+  const succeeded = results.filter((result): result is Extract<ShuntBatchItemResult, { resultText: string }> => 'resultText' in result);
+  if (succeeded.length === 0) {
+    throw new Error('Every item in the batch failed');
+  }
+  context.log(`${succeeded.length} of ${items.length} items succeeded`);
+
+  const sections = results.map((result) =>
+    'resultText' in result ? `## ${result.id}\n\n${result.resultText}` : `## ${result.id}\n\n_Failed: ${result.error}_`
+  );
+  return {
+    result: `**${succeeded.length} of ${items.length} items succeeded.**\n\n${sections.join('\n\n')}`,
+    artifact: { action, modelName, results },
+  };
+}
+
+async function runFoundry(input: JobInput<'foundry_run'>, context: JobContext) {
+  const agents: FoundryAgentName[] = input.agents ?? FOUNDRY_AGENT_NAMES;
+  const projectContext = formatProjectContext(input.files);
+  const audits: Array<{ agent: FoundryAgentName; findings: string } | { agent: FoundryAgentName; error: string }> = [];
+
+  context.log(`Audit phase: ${agents.length} agents reviewing the goal`);
+  for (const [index, agent] of agents.entries()) {
+    throwIfCancelled(context);
+    try {
+      const { text, tokenUsage } = await geminiService.generateContent(
+        buildFoundryAuditPrompt(agent, input.goal, projectContext),
+        input.modelName,
+        undefined,
+        context.signal
+      );
+      context.recordUsage(tokenUsage);
+      audits.push({ agent, findings: text });
+      context.log(`${agent} agent audit complete`);
+    } catch (error) {
+      throwIfCancelled(context);
+      audits.push({ agent, error: errorMessage(error) });
+      context.log(`${agent} agent audit failed: ${errorMessage(error)}`, 'warn');
+    }
+    context.progress((index + 1) / (agents.length + 1));
+  }
+
+  const completedAudits = audits.filter((audit): audit is { agent: FoundryAgentName; findings: string } => 'findings' in audit);
+  if (completedAudits.length === 0) {
+    throw new Error('Every agent audit failed');
+  }
+
+  throwIfCancelled(context);
+  context.log('Synthesis phase: combining the audits into one plan');
+  const { text: plan, tokenUsage } = await geminiService.generateContent(
+    buildFoundrySynthesisPrompt(input.goal, completedAudits),
+    input.modelName,
+    undefined,
+    context.signal
+  );
+  context.recordUsage(tokenUsage);
+
+  return { result: plan, artifact: { goal: input.goal, audits, plan } };
+}
+
+export interface IndexChunk {
+  /** `<path>#L<startLine>` */
+  id: string;
+  path: string;
+  startLine: number;
+  endLine: number;
+  text: string;
+}
+
+/**
+ * Split a file into consecutive windows of `chunkLines` lines, skipping windows that are only whitespace
+ */
+export function chunkFile(path: string, content: string, chunkLines: number): IndexChunk[] {
+  const lines = content.split('\n');
+  const chunks: IndexChunk[] = [];
+
+  for (let start = 0; start < lines.length; start += chunkLines) {
+    const text = lines.slice(start, start + chunkLines).join('\n');
+    if (!text.trim()) continue;
+    const endLine = Math.min(start + chunkLines, lines.length);
+    chunks.push({ id: `${path}#L${start + 1}`, path, startLine: start + 1, endLine, text });
+  }
+  return chunks;
+}
+
+async function runRagIndexBuild(input: JobInput<'rag_index_build'>, context: JobContext) {
+  const chunks = input.files.flatMap((file) => chunkFile(file.path, file.content, input.chunkLines));
+  if (chunks.length === 0) {
+    throw new Error('The files contain no text to index');
+  }
+  context.log(`Split ${input.files.length} files into ${chunks.length} chunks`);
+
+  const vectors: number[][] = [];
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    throwIfCancelled(context);
+    const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+    // The path helps queries that name a file
+    const { vectors: batchVectors, tokenUsage } = await geminiService.embedContents(
+      batch.map((chunk) => `${chunk.path}\n${chunk.text}`),
+      input.embeddingModel,
+      context.signal
+    );
+    context.recordUsage(tokenUsage);
+    vectors.push(...batchVectors);
+    context.progress(vectors.length / chunks.length);
+    context.log(`Embedded ${vectors.length} of ${chunks.length} chunks`);
+  }
+
+  const dimensions = vectors[0]?.length ?? 0;
+  return {
+    result: `Indexed **${chunks.length} chunks** from **${input.files.length} files** with \`${input.embeddingModel}\` (${dimensions} dimensions). Download the job artifact for the vectors.`,
+    artifact: {
+      model: input.embeddingModel,
+      dimensions,
+      chunks: chunks.map((chunk, index) => ({ ...chunk, vector: vectors[index] })),
+    },
+  };
+}
+
+export const jobHandlers: JobHandlers = {
+  plan: runPlan,
+  shunt_batch: runShuntBatch,
+  foundry_run: runFoundry,
+  rag_index_build: runRagIndexBuild,
+};
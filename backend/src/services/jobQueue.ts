@@ -0,0 +1,457 @@
+/**
+ * Job Queue
+ * File-backed background jobs run by a bounded worker pool in priority order, with structured logs that clients can follow live
+ */
+
+import { randomUUID } from 'crypto';
+import { existsSync, readFileSync } from 'fs';
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { recordAttributedUsage } from '../middleware/usage.js';
+import type { UsageFeature } from '../config/subscriptionTiers.js';
+import type { TokenUsage } from './geminiService.js';
+import type { JobListQuery, JobSubmitRequest } from '../middleware/validation.js';
+import { jobHandlers } from './jobHandlers.js';
+
+export type JobType = JobSubmitRequest['type'];
+export type JobPriority = JobSubmitRequest['priority'];
+export type JobInput<T extends JobType = JobType> = Extract<JobSubmitRequest, { type: T }>['input'];
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+export type JobLogLevel = 'info' | 'warn' | 'error';
+
+export interface JobLog {
+  timestamp: string;
+  level: JobLogLevel;
+  message: string;
+  data?: Record<string, unknown>;
+}
+
+export interface JobRecord {
+  id: string;
+  userId: string;
+  /** Key store ID of the key that submitted the job, billed for its model calls */
+  apiKeyId: string | null;
+  type: JobType;
+  priority: JobPriority;
+  title: string;
+  /** Cleared once the job finishes, so finished jobs do not keep large inputs in the store */
+  input: JobInput | null;
+  status: JobStatus;
+  /** Fraction done (0 to 1) for job types that report it */
+  progress: number | null;
+  logs: JobLog[];
+  result: string | null;
+  error: string | null;
+  /** Structured output (e.g. per-item results or a vector index) stored beside the job, see readArtifact */
+  hasArtifact: boolean;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/** Record without owner and input, safe to return to the job's owner */
+export type JobView = Omit<JobRecord, 'userId' | 'apiKeyId' | 'input'>;
+
+export type JobEvent = { type: 'log'; log: JobLog } | { type: 'status'; job: JobView };
+
+/**
+ * What a running job can do besides its own work
+ */
+export interface JobContext {
+  /** Aborted when the job is cancelled */
+  signal: AbortSignal;
+  log: (message: string, level?: JobLogLevel, data?: Record<string, unknown>) => void;
+  progress: (fraction: number) => void;
+  /** Bill a model call to the job's owner; `feature` counts it as a metered run */
+  recordUsage: (tokenUsage: TokenUsage, feature?: UsageFeature) => void;
+}
+
+export interface JobOutcome {
+  /** Markdown shown as the job's result */
+  result: string;
+  artifact?: unknown;
+}
+
+export type JobHandlers = {
+  [T in JobType]: (input: JobInput<T>, context: JobContext) => Promise<JobOutcome>;
+};
+
+export interface JobQueueOptions {
+  filePath: string;
+  /** Jobs running at once across all users */
+  concurrency: number;
+  /** Pending and running jobs a user may have before submissions are refused */
+  maxQueuedPerUser: number;
+  /** Finished jobs kept; the oldest are pruned with their artifacts */
+  maxStoredJobs: number;
+  /** Log entries kept per job; older entries are dropped */
+  maxLogEntries: number;
+  handlers: JobHandlers;
+  /** Defaults to the usage ledger and the submitting key's token quota */
+  recordUsage?: (job: JobRecord, tokenUsage: TokenUsage, feature: UsageFeature | null) => void;
+}
+
+export class JobQueueFullError extends Error {
+  constructor(public readonly limit: number) {
+    super(`You already have ${limit} jobs queued or running. Wait for some to finish or cancel them.`);
+    this.name = 'JobQueueFullError';
+  }
+}
+
+const PRIORITY_RANK: Record<JobPriority, number> = { high: 0, normal: 1, low: 2 };
+
+const FINISHED_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export function isJobFinished(job: Pick<JobRecord, 'status'>): boolean {
+  return FINISHED_STATUSES.includes(job.status);
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Short description of a submitted job for listings
+ */
+export function jobTitle(request: JobSubmitRequest): string {
+  switch (request.type) {
+    case 'plan':
+      return truncate(request.input.prompt, 120);
+    case 'shunt_batch':
+      return `${request.input.action} on ${request.input.items.length} item${request.input.items.length === 1 ? '' : 's'}`;
+    case 'foundry_run':
+      return `Foundry: ${truncate(request.input.goal, 110)}`;
+    case 'rag_index_build':
+      return `Index ${request.input.files.length} file${request.input.files.length === 1 ? '' : 's'}`;
+  }
+}
+
+export function toJobView(job: JobRecord): JobView {
+  const { userId: _userId, apiKeyId: _apiKeyId, input: _input, ...view } = job;
+  return { ...view, logs: [...view.logs] };
+}
+
+export class JobQueue {
+  private records: Map<string, JobRecord> | null = null;
+  private readonly running = new Map<string, AbortController>();
+  private readonly listeners = new Map<string, Set<(event: JobEvent) => void>>();
+  private saveQueue: Promise<void> = Promise.resolve();
+  private savePending = false;
+
+  constructor(private readonly options: JobQueueOptions) {}
+
+  /**
+   * Load the store and start the jobs that were still queued when the server stopped
+   */
+  start(): void {
+    this.load();
+    this.drain();
+  }
+
+  /**
+   * Queue a job for `owner`. Throws JobQueueFullError when the owner has too many unfinished jobs.
+   */
+  submit(owner: { userId: string; apiKeyId?: string }, request: JobSubmitRequest): JobView {
+    const records = this.load();
+    const unfinished = [...records.values()].filter((job) => job.userId === owner.userId && !isJobFinished(job));
+    if (unfinished.length >= this.options.maxQueuedPerUser) {
+      throw new JobQueueFullError(this.options.maxQueuedPerUser);
+    }
+
+    const job: JobRecord = {
+      id: randomUUID(),
+      userId: owner.userId,
+      apiKeyId: owner.apiKeyId ?? null,
+      type: request.type,
+      priority: request.priority,
+      title: jobTitle(request),
+      input: request.input,
+      status: 'pending',
+      progress: null,
+      logs: [],
+      result: null,
+      error: null,
+      hasArtifact: false,
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    records.set(job.id, job);
+    this.appendLog(job, `Queued with ${job.priority} priority`);
+
+    this.persist();
+    this.drain();
+    return toJobView(job);
+  }
+
+  /**
+   * The owner's jobs, newest first
+   */
+  list(userId: string, query: JobListQuery): JobView[] {
+    return [...this.load().values()]
+      .filter((job) => job.userId === userId)
+      .filter((job) => !query.status || job.status === query.status)
+      .filter((job) => !query.type || job.type === query.type)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, query.limit)
+      .map(toJobView);
+  }
+
+  get(id: string, userId: string): JobRecord | undefined {
+    const job = this.load().get(id);
+    return job && job.userId === userId ? job : undefined;
+  }
+
+  /**
+   * Cancel an unfinished job. A pending job is cancelled at once; a running job is aborted and
+   * reaches 'cancelled' when its handler stops. Returns false when the job had already finished.
+   */
+  cancel(job: JobRecord): boolean {
+    if (isJobFinished(job)) return false;
+
+    const controller = this.running.get(job.id);
+    if (controller) {
+      this.appendLog(job, 'Cancellation requested', 'warn');
+      controller.abort();
+    } else {
+      this.finish(job, 'cancelled', { error: 'Cancelled before it started' });
+    }
+    return true;
+  }
+
+  /**
+   * Follow a job's log entries and status changes. Returns the unsubscribe function.
+   */
+  subscribe(id: string, listener: (event: JobEvent) => void): () => void {
+    const listeners = this.listeners.get(id) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(id, listeners);
+
+    return () => {
+      listeners.delete(listener);
+      if (listeners.size === 0) this.listeners.delete(id);
+    };
+  }
+
+  async readArtifact(job: JobRecord): Promise<unknown | null> {
+    if (!job.hasArtifact) return null;
+    try {
+      return JSON.parse(await readFile(this.artifactPath(job.id), 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  /**
+   * Start pending jobs, highest priority and then oldest first, while workers are free
+   */
+  private drain(): void {
+    while (this.running.size < this.options.concurrency) {
+      const next = [...this.load().values()]
+        .filter((job) => job.status === 'pending')
+        .sort((a, b) => PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.createdAt.localeCompare(b.createdAt))[0];
+      if (!next) return;
+
+      const controller = new AbortController();
+      this.running.set(next.id, controller);
+      void this.run(next, controller);
+    }
+  }
+
+  private async run(job: JobRecord, controller: AbortController): Promise<void> {
+    job.status = 'running';
+    job.startedAt = new Date().toISOString();
+    this.appendLog(job, 'Worker picked up the job');
+    this.emit(job.id, { type: 'status', job: toJobView(job) });
+    this.persist();
+
+    const context: JobContext = {
+      signal: controller.signal,
+      log: (message, level = 'info', data) => this.appendLog(job, message, level, data),
+      progress: (fraction) => {
+        job.progress = Math.min(1, Math.max(0, fraction));
+        this.emit(job.id, { type: 'status', job: toJobView(job) });
+      },
+      recordUsage: (tokenUsage, feature) => this.recordUsage(job, tokenUsage, feature ?? null),
+    };
+
+    try {
+      // The handler map is keyed by type, so the input always matches the handler
+      const handler = this.options.handlers[job.type] as (input: JobInput, context: JobContext) => Promise<JobOutcome>;
+      const outcome = await handler(job.input!, context);
+
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled', { error: 'Cancelled while running' });
+        return;
+      }
+      if (outcome.artifact !== undefined) {
+        await this.writeArtifact(job.id, outcome.artifact);
+        job.hasArtifact = true;
+      }
+      this.finish(job, 'completed', { result: outcome.result });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        this.finish(job, 'cancelled', { error: 'Cancelled while running' });
+      } else {
+        logger.error('Job failed', { jobId: job.id, type: job.type, userId: job.userId, error });
+        this.finish(job, 'failed', { error: error instanceof Error ? error.message : 'Job failed' });
+      }
+    } finally {
+      this.running.delete(job.id);
+      this.drain();
+    }
+  }
+
+  private finish(job: JobRecord, status: JobStatus, outcome: { result?: string; error?: string }): void {
+    job.status = status;
+    job.result = outcome.result ?? null;
+    job.error = outcome.error ?? null;
+    job.input = null;
+    job.finishedAt = new Date().toISOString();
+    if (status === 'completed') job.progress = 1;
+
+    this.appendLog(
+      job,
+      status === 'completed' ? 'Job completed' : `Job ${status}: ${job.error}`,
+      status === 'completed' ? 'info' : status === 'failed' ? 'error' : 'warn'
+    );
+    this.emit(job.id, { type: 'status', job: toJobView(job) });
+    logger.info('Job finished', {
+      jobId: job.id,
+      type: job.type,
+      userId: job.userId,
+      status,
+      durationMs: job.startedAt ? Date.parse(job.finishedAt) - Date.parse(job.startedAt) : 0,
+    });
+
+    this.prune();
+    this.persist();
+  }
+
+  private appendLog(job: JobRecord, message: string, level: JobLogLevel = 'info', data?: Record<string, unknown>): void {
+    const log: JobLog = { timestamp: new Date().toISOString(), level, message, ...(data ? { data } : {}) };
+    job.logs.push(log);
+    if (job.logs.length > this.options.maxLogEntries) {
+      job.logs.splice(0, job.logs.length - this.options.maxLogEntries);
+    }
+
+    this.emit(job.id, { type: 'log', log });
+    this.persist();
+  }
+
+  private emit(id: string, event: JobEvent): void {
+    for (const listener of this.listeners.get(id) ?? []) {
+      try {
+        listener(event);
+      } catch (error) {
+        logger.error('Job event listener failed', { jobId: id, error });
+      }
+    }
+  }
+
+  private recordUsage(job: JobRecord, tokenUsage: TokenUsage, feature: UsageFeature | null): void {
+    if (this.options.recordUsage) {
+      this.options.recordUsage(job, tokenUsage, feature);
+      return;
+    }
+    recordAttributedUsage(
+      { userId: job.userId, apiKeyId: job.apiKeyId ?? undefined, feature, route: `/api/jobs/${job.type}` },
+      tokenUsage
+    );
+  }
+
+  /**
+   * Drop the oldest finished jobs beyond maxStoredJobs, with their artifacts
+   */
+  private prune(): void {
+    const records = this.load();
+    // Oldest first; the sort is stable, so jobs finished in the same millisecond keep their submission order
+    const finished = [...records.values()]
+      .filter(isJobFinished)
+      .sort((a, b) => (a.finishedAt ?? '').localeCompare(b.finishedAt ?? ''));
+
+    for (const job of finished.slice(0, Math.max(0, finished.length - this.options.maxStoredJobs))) {
+      records.delete(job.id);
+      if (job.hasArtifact) {
+        rm(this.artifactPath(job.id), { force: true }).catch((error) => {
+          logger.error('Failed to delete job artifact', { jobId: job.id, error });
+        });
+      }
+    }
+  }
+
+  private artifactPath(id: string): string {
+    return join(dirname(this.options.filePath), 'artifacts', `${id}.json`);
+  }
+
+  private async writeArtifact(id: string, artifact: unknown): Promise<void> {
+    const path = this.artifactPath(id);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(artifact), 'utf8');
+  }
+
+  /**
+   * Read the store file on first use. Jobs that were running when the server stopped cannot be
+   * resumed and are marked failed; pending jobs stay queued.
+   */
+  private load(): Map<string, JobRecord> {
+    if (this.records) return this.records;
+
+    this.records = new Map();
+    if (existsSync(this.options.filePath)) {
+      const stored = JSON.parse(readFileSync(this.options.filePath, 'utf8')) as { jobs: JobRecord[] };
+      for (const job of stored.jobs) {
+        this.records.set(job.id, job);
+      }
+
+      const interrupted = stored.jobs.filter((job) => job.status === 'running');
+      for (const job of interrupted) {
+        this.finish(job, 'failed', { error: 'Interrupted by a server restart' });
+      }
+      logger.info('Job store loaded', { count: this.records.size, interrupted: interrupted.length });
+    }
+    return this.records;
+  }
+
+  /**
+   * Write the current snapshot in the background. Saves are serialized, and saves requested while one is
+   * queued share it. Failures are logged; the next save writes the full snapshot again.
+   */
+  private persist(): void {
+    if (this.savePending) return;
+    this.savePending = true;
+
+    this.saveQueue = this.saveQueue
+      .then(async () => {
+        this.savePending = false;
+        const snapshot = JSON.stringify({ jobs: [...this.load().values()] });
+        const tempPath = `${this.options.filePath}.tmp`;
+
+        await mkdir(dirname(this.options.filePath), { recursive: true });
+        await writeFile(tempPath, snapshot, 'utf8');
+        await rename(tempPath, this.options.filePath);
+      })
+      .catch((error) => {
+        logger.error('Failed to persist job store', { error });
+      });
+  }
+
+  /**
+   * Resolves once every requested save has been written
+   */
+  async flush(): Promise<void> {
+    await this.saveQueue;
+  }
+}
+
+export const jobQueue = new JobQueue({
+  filePath: env.JOB_STORE_PATH,
+  concurrency: env.JOB_MAX_CONCURRENT,
+  maxQueuedPerUser: env.JOB_MAX_QUEUED_PER_USER,
+  maxStoredJobs: env.JOB_MAX_STORED,
+  maxLogEntries: env.JOB_MAX_LOG_ENTRIES,
+  handlers: jobHandlers,
+});
@@ -4,6 +4,7 @@
  */
 
 import { logger } from '../utils/logger';
+import type { TokenUsage } from './geminiService';
 
 export interface LocalLLMConfig {
   provider: 'lmstudio' | 'ollama';
@@ -46,6 +47,21 @@ interface LMStudioResponse {
   };
 }
 
+// LM Studio streaming chunk (OpenAI-compatible)
+interface LMStudioStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+  model?: string;
+  usage?: {
+    prompt_tokens?: number;
+    completion_tokens?: number;
+    total_tokens?: number;
+  };
+}
+
 // Ollama API response
 interface OllamaResponse {
   model?: string;
@@ -90,14 +106,9 @@ const OLLAMA_DEFAULT: LocalLLMConfig = {
 };
 
 /**
- * Call LM Studio API (OpenAI-compatible)
+ * Build OpenAI-style chat messages for LM Studio
  */
-async function callLMStudio(
-  config: LocalLLMConfig,
-  request: LocalLLMRequest
-): Promise<LocalLLMResponse> {
-  const url = `${config.baseUrl}/chat/completions`;
-
+function buildLMStudioMessages(request: LocalLLMRequest): Array<{ role: string; content: string }> {
   const messages = [];
 
   if (request.systemPrompt) {
@@ -112,9 +123,52 @@ async function callLMStudio(
     content: request.prompt,
   });
 
+  return messages;
+}
+
+/**
+ * Combine system prompt and user prompt for Ollama
+ */
+function buildOllamaPrompt(request: LocalLLMRequest): string {
+  return request.systemPrompt ? `${request.systemPrompt}\n\n${request.prompt}` : request.prompt;
+}
+
+/**
+ * Read a streamed response body line by line
+ */
+async function readLines(body: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+
+    for (const line of lines) {
+      if (line.trim()) onLine(line.trim());
+    }
+  }
+
+  if (buffer.trim()) onLine(buffer.trim());
+}
+
+/**
+ * Call LM Studio API (OpenAI-compatible)
+ */
+async function callLMStudio(
+  config: LocalLLMConfig,
+  request: LocalLLMRequest
+): Promise<LocalLLMResponse> {
+  const url = `${config.baseUrl}/chat/completions`;
+
   const body = {
     model: request.model || config.model,
-    messages,
+    messages: buildLMStudioMessages(request),
     temperature: request.temperature ?? config.temperature,
     max_tokens: request.maxTokens ?? config.maxTokens,
     stream: false,
@@ -158,15 +212,9 @@ async function callOllama(
 ): Promise<LocalLLMResponse> {
   const url = `${config.baseUrl}/api/generate`;
 
-  // Combine system prompt and user prompt for Ollama
-  let fullPrompt = request.prompt;
-  if (request.systemPrompt) {
-    fullPrompt = `${request.systemPrompt}\n\n${request.prompt}`;
-  }
-
   const body = {
     model: request.model || config.model,
-    prompt: fullPrompt,
+    prompt: buildOllamaPrompt(request),
     stream: false,
     options: {
       temperature: request.temperature ?? config.temperature,
@@ -203,6 +251,137 @@ async function callOllama(
   };
 }
 
+/**
+ * Stream from LM Studio (OpenAI-compatible SSE: `data: {...}` lines ending with `data: [DONE]`)
+ */
+async function streamLMStudio(
+  config: LocalLLMConfig,
+  request: LocalLLMRequest,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<LocalLLMResponse> {
+  const url = `${config.baseUrl}/chat/completions`;
+
+  const body = {
+    model: request.model || config.model,
+    messages: buildLMStudioMessages(request),
+    temperature: request.temperature ?? config.temperature,
+    max_tokens: request.maxTokens ?? config.maxTokens,
+    stream: true,
+    stream_options: { include_usage: true },
+  };
+
+  logger.info('Streaming from LM Studio', { url, model: body.model });
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    logger.error('LM Studio API error', { status: response.status, error: errorText });
+    throw new Error(`LM Studio API error: ${response.status} - ${errorText}`);
+  }
+
+  let text = '';
+  let model = config.model;
+  let usage: LMStudioStreamChunk['usage'];
+
+  await readLines(response.body, (line) => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice(5).trim();
+    if (payload === '[DONE]') return;
+
+    const chunk = JSON.parse(payload) as LMStudioStreamChunk;
+    model = chunk.model || model;
+    usage = chunk.usage || usage;
+
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onChunk(delta);
+    }
+  });
+
+  return {
+    text,
+    model,
+    tokenUsage: usage ? {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0,
+    } : undefined,
+  };
+}
+
+/**
+ * Stream from Ollama (newline-delimited JSON, final object has `done: true` and eval counts)
+ */
+async function streamOllama(
+  config: LocalLLMConfig,
+  request: LocalLLMRequest,
+  onChunk: (text: string) => void,
+  signal?: AbortSignal
+): Promise<LocalLLMResponse> {
+  const url = `${config.baseUrl}/api/generate`;
+
+  const body = {
+    model: request.model || config.model,
+    prompt: buildOllamaPrompt(request),
+    stream: true,
+    options: {
+      temperature: request.temperature ?? config.temperature,
+      num_predict: request.maxTokens ?? config.maxTokens,
+    },
+  };
+
+  logger.info('Streaming from Ollama', { url, model: body.model });
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const errorText = await response.text();
+    logger.error('Ollama API error', { status: response.status, error: errorText });
+    throw new Error(`Ollama API error: ${response.status} - ${errorText}`);
+  }
+
+  let text = '';
+  let final: OllamaResponse = {};
+
+  await readLines(response.body, (line) => {
+    const chunk = JSON.parse(line) as OllamaResponse;
+    if (chunk.response) {
+      text += chunk.response;
+      onChunk(chunk.response);
+    }
+    if (chunk.done) {
+      final = chunk;
+    }
+  });
+
+  return {
+    text,
+    model: final.model || config.model,
+    tokenUsage: {
+      promptTokens: final.prompt_eval_count || 0,
+      completionTokens: final.eval_count || 0,
+      totalTokens: (final.prompt_eval_count || 0) + (final.eval_count || 0),
+    },
+  };
+}
+
 /**
  * Check if LM Studio is available
  */
@@ -270,13 +449,12 @@ export async function getOllamaModels(baseUrl?: string): Promise<string[]> {
 }
 
 /**
- * Main function to call local LLM
+ * Merge defaults, caller overrides and environment overrides for a provider
  */
-export async function callLocalLLM(
-  request: LocalLLMRequest,
-  provider: 'lmstudio' | 'ollama' = 'lmstudio',
+function resolveConfig(
+  provider: 'lmstudio' | 'ollama',
   customConfig?: Partial<LocalLLMConfig>
-): Promise<LocalLLMResponse> {
+): LocalLLMConfig {
   const baseConfig = provider === 'lmstudio' ? LM_STUDIO_DEFAULT : OLLAMA_DEFAULT;
 
   const config: LocalLLMConfig = {
@@ -294,6 +472,31 @@ export async function callLocalLLM(
     config.model = process.env.OLLAMA_MODEL || config.model;
   }
 
+  return config;
+}
+
+/**
+ * Report local usage in the same shape as Gemini so clients and the usage ledger share one format
+ */
+export function toTokenUsage(response: LocalLLMResponse): TokenUsage {
+  return {
+    prompt_tokens: response.tokenUsage?.promptTokens ?? 0,
+    completion_tokens: response.tokenUsage?.completionTokens ?? 0,
+    total_tokens: response.tokenUsage?.totalTokens ?? 0,
+    model: response.model,
+  };
+}
+
+/**
+ * Main function to call local LLM
+ */
+export async function callLocalLLM(
+  request: LocalLLMRequest,
+  provider: 'lmstudio' | 'ollama' = 'lmstudio',
+  customConfig?: Partial<LocalLLMConfig>
+): Promise<LocalLLMResponse> {
+  const config = resolveConfig(provider, customConfig);
+
   logger.info('Calling local LLM', {
     provider,
     baseUrl: config.baseUrl,
@@ -312,6 +515,36 @@ export async function callLocalLLM(
   }
 }
 
+/**
+ * Stream a local LLM completion, forwarding each text chunk as it arrives
+ */
+export async function streamLocalLLM(
+  request: LocalLLMRequest,
+  provider: 'lmstudio' | 'ollama' = 'lmstudio',
+  onChunk: (text: string) => void,
+  signal?: AbortSignal,
+  customConfig?: Partial<LocalLLMConfig>
+): Promise<LocalLLMResponse> {
+  const config = resolveConfig(provider, customConfig);
+
+  logger.info('Streaming local LLM', {
+    provider,
+    baseUrl: config.baseUrl,
+    model: config.model
+  });
+
+  try {
+    if (provider === 'lmstudio') {
+      return await streamLMStudio(config, request, onChunk, signal);
+    } else {
+      return await streamOllama(config, request, onChunk, signal);
+    }
+  } catch (error) {
+    logger.error('Local LLM stream failed', { provider, error });
+    throw error;
+  }
+}
+
 /**
  * Perform a Shunt action using local LLM
  */
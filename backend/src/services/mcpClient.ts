@@ -0,0 +1,583 @@
+/**
+ * MCP Client
+ * A Model Context Protocol client: JSON-RPC 2.0 over a stdio process or a streamable HTTP endpoint.
+ * Lists a server's tools, resources and prompts and calls its tools.
+ */
+
+import { spawn, type ChildProcessWithoutNullStreams } from 'child_process';
+import { createInterface } from 'readline';
+import { logger } from '../utils/logger.js';
+
+/** The version we ask for; servers may answer with any of SUPPORTED_PROTOCOL_VERSIONS */
+export const LATEST_PROTOCOL_VERSION = '2025-06-18';
+export const SUPPORTED_PROTOCOL_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+
+/** JSON-RPC error codes, plus the client-side ones used for timeouts and dropped connections */
+export const MCP_ERROR_CODES = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  CONNECTION_CLOSED: -32000,
+  REQUEST_TIMEOUT: -32001,
+} as const;
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30_000;
+
+/** Variables a stdio server inherits from the backend; anything else must be listed in its config */
+const INHERITED_ENV = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'TERM', 'TMPDIR', 'TEMP', 'TMP', 'SYSTEMROOT', 'APPDATA'];
+const MAX_STDERR_LINES = 20;
+const CLOSE_GRACE_MS = 2000;
+
+export class McpError extends Error {
+  constructor(message: string, public code: number, public data?: unknown) {
+    super(message);
+    this.name = 'McpError';
+    Object.setPrototypeOf(this, McpError.prototype);
+  }
+}
+
+// ============================================================================
+// JSON-RPC messages
+// ============================================================================
+
+export type JsonRpcId = string | number;
+
+export interface JsonRpcRequest {
+  jsonrpc: '2.0';
+  id: JsonRpcId;
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcNotification {
+  jsonrpc: '2.0';
+  method: string;
+  params?: Record<string, unknown>;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: '2.0';
+  id: JsonRpcId | null;
+  result?: unknown;
+  error?: { code: number; message: string; data?: unknown };
+}
+
+export type JsonRpcMessage = JsonRpcRequest | JsonRpcNotification | JsonRpcResponse;
+
+const isResponse = (message: JsonRpcMessage): message is JsonRpcResponse =>
+  !('method' in message) && ('result' in message || 'error' in message);
+
+const isRequest = (message: JsonRpcMessage): message is JsonRpcRequest => 'method' in message && 'id' in message;
+
+// ============================================================================
+// MCP results
+// ============================================================================
+
+export interface McpServerInfo {
+  name: string;
+  version: string;
+  title?: string;
+}
+
+export interface McpServerCapabilities {
+  tools?: { listChanged?: boolean };
+  resources?: { subscribe?: boolean; listChanged?: boolean };
+  prompts?: { listChanged?: boolean };
+  logging?: Record<string, unknown>;
+  [capability: string]: unknown;
+}
+
+export interface McpTool {
+  name: string;
+  title?: string;
+  description?: string;
+  /** JSON Schema of the arguments */
+  inputSchema: Record<string, unknown>;
+  outputSchema?: Record<string, unknown>;
+  annotations?: Record<string, unknown>;
+}
+
+export interface McpResource {
+  uri: string;
+  name: string;
+  title?: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpPrompt {
+  name: string;
+  title?: string;
+  description?: string;
+  arguments?: Array<{ name: string; description?: string; required?: boolean }>;
+}
+
+/** Text, image, audio or embedded resource content of a tool result or prompt message */
+export interface McpContent {
+  type: string;
+  [field: string]: unknown;
+}
+
+export interface McpToolResult {
+  content: McpContent[];
+  structuredContent?: Record<string, unknown>;
+  /** The tool ran and failed; the content describes the failure */
+  isError?: boolean;
+}
+
+export interface McpResourceContents {
+  uri: string;
+  mimeType?: string;
+  text?: string;
+  /** Base64 */
+  blob?: string;
+}
+
+export interface McpPromptResult {
+  description?: string;
+  messages: Array<{ role: 'user' | 'assistant'; content: McpContent }>;
+}
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+/**
+ * Carries JSON-RPC messages to a server. Messages from the server, including responses, arrive through `onmessage`.
+ */
+export interface McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+  start(): Promise<void>;
+  send(message: JsonRpcMessage): Promise<void>;
+  /** Called once initialization settles the protocol version */
+  setProtocolVersion?(version: string): void;
+  close(): Promise<void>;
+}
+
+export interface StdioTransportOptions {
+  command: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+}
+
+/**
+ * Runs the server as a child process and exchanges newline-delimited JSON on its stdin and stdout
+ */
+export class StdioTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private child: ChildProcessWithoutNullStreams | null = null;
+  private stderr: string[] = [];
+  private closing = false;
+
+  constructor(private options: StdioTransportOptions) {}
+
+  start(): Promise<void> {
+    const env: Record<string, string> = {};
+    for (const name of INHERITED_ENV) {
+      if (process.env[name] !== undefined) env[name] = process.env[name]!;
+    }
+
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.options.command, this.options.args ?? [], {
+        env: { ...env, ...this.options.env },
+        cwd: this.options.cwd,
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      this.child = child;
+
+      child.once('spawn', () => resolve());
+      child.once('error', (error) => {
+        if (child.pid === undefined) {
+          reject(new McpError(`Failed to start MCP server '${this.options.command}': ${error.message}`, MCP_ERROR_CODES.CONNECTION_CLOSED));
+        } else {
+          logger.warn('MCP server process error', { command: this.options.command, error: error.message });
+        }
+      });
+      child.once('exit', (code, signal) => {
+        this.child = null;
+        if (this.closing) {
+          this.onclose?.();
+          return;
+        }
+        const reason = signal ? `signal ${signal}` : `code ${code}`;
+        const stderr = this.stderr.length > 0 ? `: ${this.stderr.join('\n')}` : '';
+        this.onclose?.(new McpError(`MCP server exited with ${reason}${stderr}`, MCP_ERROR_CODES.CONNECTION_CLOSED));
+      });
+      // A server that closes stdin or dies mid-write fails the write with EPIPE; unhandled, that would
+      // crash the backend, so treat it as the connection closing
+      child.stdin.on('error', (error) => {
+        logger.warn('MCP server stdin error', { command: this.options.command, error: error.message });
+        if (this.closing) return;
+        this.onclose?.(new McpError(`MCP server stopped reading requests: ${error.message}`, MCP_ERROR_CODES.CONNECTION_CLOSED));
+      });
+
+      createInterface({ input: child.stdout }).on('line', (line) => {
+        if (!line.trim()) return;
+        let message: JsonRpcMessage;
+        try {
+          message = JSON.parse(line);
+        } catch {
+          logger.warn('Ignoring non-JSON output from MCP server', { command: this.options.command, line: line.substring(0, 200) });
+          return;
+        }
+        this.onmessage?.(message);
+      });
+      createInterface({ input: child.stderr }).on('line', (line) => {
+        this.stderr.push(line);
+        if (this.stderr.length > MAX_STDERR_LINES) this.stderr.shift();
+        logger.debug('MCP server stderr', { command: this.options.command, line });
+      });
+    });
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    if (!this.child || !this.child.stdin.writable) {
+      throw new McpError('MCP server process is not running', MCP_ERROR_CODES.CONNECTION_CLOSED);
+    }
+    this.child.stdin.write(`${JSON.stringify(message)}\n`);
+  }
+
+  /**
+   * Close stdin and give the server a moment to exit before terminating it
+   */
+  close(): Promise<void> {
+    const child = this.child;
+    if (!child) return Promise.resolve();
+    this.closing = true;
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => child.kill('SIGTERM'), CLOSE_GRACE_MS);
+      child.once('exit', () => {
+        clearTimeout(timer);
+        resolve();
+      });
+      child.stdin.end();
+    });
+  }
+}
+
+export interface StreamableHttpTransportOptions {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Parse complete Server-Sent Event blocks from `buffer`, returning their data and the unfinished remainder
+ */
+export function parseSseEvents(buffer: string): { events: string[]; rest: string } {
+  const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+  const rest = blocks.pop() ?? '';
+  const events = blocks
+    .map((block) =>
+      block
+        .split('\n')
+        .filter((line) => line.startsWith('data:'))
+        .map((line) => line.substring(5).replace(/^ /, ''))
+        .join('\n')
+    )
+    .filter((data) => data.length > 0);
+  return { events, rest };
+}
+
+/**
+ * POSTs each message to the server's MCP endpoint. The server answers a request with either a JSON body or an
+ * event stream carrying the response (and possibly notifications first); the session ID it assigns at
+ * initialization is sent back on every later request.
+ */
+export class StreamableHttpTransport implements McpTransport {
+  onmessage?: (message: JsonRpcMessage) => void;
+  onclose?: (error?: Error) => void;
+
+  private sessionId: string | null = null;
+  private protocolVersion: string | null = null;
+  private controller = new AbortController();
+
+  constructor(private options: StreamableHttpTransportOptions) {}
+
+  async start(): Promise<void> {}
+
+  setProtocolVersion(version: string): void {
+    this.protocolVersion = version;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      ...this.options.headers,
+      ...(this.sessionId ? { 'Mcp-Session-Id': this.sessionId } : {}),
+      ...(this.protocolVersion ? { 'MCP-Protocol-Version': this.protocolVersion } : {}),
+    };
+  }
+
+  async send(message: JsonRpcMessage): Promise<void> {
+    let response: globalThis.Response;
+    try {
+      response = await fetch(this.options.url, {
+        method: 'POST',
+        headers: {
+          ...this.headers(),
+          'Content-Type': 'application/json',
+          Accept: 'application/json, text/event-stream',
+        },
+        body: JSON.stringify(message),
+        signal: this.controller.signal,
+      });
+    } catch (error) {
+      throw new McpError(
+        `MCP server at ${this.options.url} is unreachable: ${error instanceof Error ? error.message : String(error)}`,
+        MCP_ERROR_CODES.CONNECTION_CLOSED
+      );
+    }
+
+    const sessionId = response.headers.get('mcp-session-id');
+    if (sessionId) this.sessionId = sessionId;
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      if (response.status === 404 && this.sessionId) {
+        // The server forgot our session; the next connection has to initialize again
+        this.sessionId = null;
+        this.onclose?.(new McpError('MCP session expired', MCP_ERROR_CODES.CONNECTION_CLOSED));
+      }
+      throw new McpError(`MCP server responded with HTTP ${response.status}${body ? `: ${body.substring(0, 200)}` : ''}`, MCP_ERROR_CODES.CONNECTION_CLOSED);
+    }
+    if (response.status === 202 || !response.body) return;
+
+    const contentType = response.headers.get('content-type') ?? '';
+    if (contentType.includes('text/event-stream')) {
+      await this.readEventStream(response.body);
+    } else if (contentType.includes('application/json')) {
+      const payload = await response.json();
+      (Array.isArray(payload) ? payload : [payload]).forEach((item: JsonRpcMessage) => this.onmessage?.(item));
+    }
+  }
+
+  private async readEventStream(body: ReadableStream<Uint8Array>): Promise<void> {
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of body as unknown as AsyncIterable<Uint8Array>) {
+      buffer += decoder.decode(chunk, { stream: true });
+      const { events, rest } = parseSseEvents(buffer);
+      buffer = rest;
+      for (const data of events) {
+        try {
+          this.onmessage?.(JSON.parse(data));
+        } catch {
+          logger.warn('Ignoring non-JSON event from MCP server', { url: this.options.url, data: data.substring(0, 200) });
+        }
+      }
+    }
+  }
+
+  /**
+   * End the session on the server (best effort) and abort anything in flight
+   */
+  async close(): Promise<void> {
+    if (this.sessionId) {
+      await fetch(this.options.url, { method: 'DELETE', headers: this.headers() }).catch(() => undefined);
+      this.sessionId = null;
+    }
+    this.controller.abort();
+    this.controller = new AbortController();
+    this.onclose?.();
+  }
+}
+
+// ============================================================================
+// Client
+// ============================================================================
+
+export interface McpClientOptions {
+  requestTimeoutMs?: number;
+  clientInfo?: { name: string; version: string };
+}
+
+interface PendingRequest {
+  method: string;
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+  timer: NodeJS.Timeout;
+}
+
+export class McpClient {
+  serverInfo: McpServerInfo | null = null;
+  serverCapabilities: McpServerCapabilities = {};
+  protocolVersion: string | null = null;
+  instructions: string | null = null;
+
+  private nextId = 1;
+  private pending = new Map<JsonRpcId, PendingRequest>();
+  private connected = false;
+  private requestTimeoutMs: number;
+  private clientInfo: { name: string; version: string };
+
+  constructor(private transport: McpTransport, options: McpClientOptions = {}) {
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.clientInfo = options.clientInfo ?? { name: 'shunt-factory-backend', version: '1.0.0' };
+  }
+
+  get isConnected(): boolean {
+    return this.connected;
+  }
+
+  /**
+   * Start the transport and run the initialize handshake
+   */
+  async connect(): Promise<void> {
+    this.transport.onmessage = (message) => this.handleMessage(message);
+    this.transport.onclose = (error) => this.handleClose(error);
+    await this.transport.start();
+    this.connected = true;
+
+    try {
+      const result = await this.request<{
+        protocolVersion: string;
+        capabilities?: McpServerCapabilities;
+        serverInfo: McpServerInfo;
+        instructions?: string;
+      }>('initialize', {
+        protocolVersion: LATEST_PROTOCOL_VERSION,
+        capabilities: {},
+        clientInfo: this.clientInfo,
+      });
+
+      if (!SUPPORTED_PROTOCOL_VERSIONS.includes(result.protocolVersion)) {
+        throw new McpError(`MCP server wants unsupported protocol version ${result.protocolVersion}`, MCP_ERROR_CODES.INVALID_REQUEST);
+      }
+      this.protocolVersion = result.protocolVersion;
+      this.serverCapabilities = result.capabilities ?? {};
+      this.serverInfo = result.serverInfo;
+      this.instructions = result.instructions ?? null;
+      this.transport.setProtocolVersion?.(result.protocolVersion);
+
+      await this.notify('notifications/initialized');
+    } catch (error) {
+      await this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * Send a request and wait for its response, cancelling it on the server after the request timeout
+   */
+  request<T>(method: string, params?: Record<string, unknown>): Promise<T> {
+    if (!this.connected) {
+      return Promise.reject(new McpError('MCP client is not connected', MCP_ERROR_CODES.CONNECTION_CLOSED));
+    }
+    const id = this.nextId++;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pending.delete(id);
+        this.notify('notifications/cancelled', { requestId: id, reason: 'Request timed out' }).catch(() => undefined);
+        reject(new McpError(`MCP request '${method}' timed out after ${this.requestTimeoutMs}ms`, MCP_ERROR_CODES.REQUEST_TIMEOUT));
+      }, this.requestTimeoutMs);
+      this.pending.set(id, { method, resolve: resolve as (result: unknown) => void, reject, timer });
+
+      this.transport.send({ jsonrpc: '2.0', id, method, ...(params ? { params } : {}) }).catch((error: Error) => {
+        const request = this.pending.get(id);
+        if (!request) return;
+        clearTimeout(request.timer);
+        this.pending.delete(id);
+        reject(error);
+      });
+    });
+  }
+
+  async notify(method: string, params?: Record<string, unknown>): Promise<void> {
+    await this.transport.send({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+  }
+
+  /**
+   * Follow `nextCursor` through every page of a list method
+   */
+  private async listAll<T>(method: string, key: string): Promise<T[]> {
+    const items: T[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = await this.request<Record<string, unknown>>(method, cursor ? { cursor } : undefined);
+      items.push(...((page[key] as T[] | undefined) ?? []));
+      cursor = typeof page.nextCursor === 'string' ? page.nextCursor : undefined;
+    } while (cursor);
+    return items;
+  }
+
+  async listTools(): Promise<McpTool[]> {
+    return this.serverCapabilities.tools ? this.listAll<McpTool>('tools/list', 'tools') : [];
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    return this.serverCapabilities.resources ? this.listAll<McpResource>('resources/list', 'resources') : [];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    return this.serverCapabilities.prompts ? this.listAll<McpPrompt>('prompts/list', 'prompts') : [];
+  }
+
+  /**
+   * Call a tool. A tool that runs and fails resolves with `isError: true`; protocol errors reject with McpError.
+   */
+  callTool(name: string, args: Record<string, unknown> = {}): Promise<McpToolResult> {
+    return this.request<McpToolResult>('tools/call', { name, arguments: args });
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    const result = await this.request<{ contents: McpResourceContents[] }>('resources/read', { uri });
+    return result.contents;
+  }
+
+  getPrompt(name: string, args: Record<string, string> = {}): Promise<McpPromptResult> {
+    return this.request<McpPromptResult>('prompts/get', { name, arguments: args });
+  }
+
+  async close(): Promise<void> {
+    if (!this.connected) return;
+    await this.transport.close();
+    this.handleClose();
+  }
+
+  private handleMessage(message: JsonRpcMessage): void {
+    if (isResponse(message)) {
+      const request = message.id === null ? undefined : this.pending.get(message.id);
+      if (!request) {
+        logger.warn('Ignoring MCP response to an unknown request', { id: message.id, error: message.error });
+        return;
+      }
+      clearTimeout(request.timer);
+      this.pending.delete(message.id!);
+      if (message.error) {
+        request.reject(new McpError(message.error.message, message.error.code, message.error.data));
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    if (isRequest(message)) {
+      // We offer no client capabilities (sampling, roots, elicitation), so ping is the only request we answer
+      const reply: JsonRpcResponse =
+        message.method === 'ping'
+          ? { jsonrpc: '2.0', id: message.id, result: {} }
+          : { jsonrpc: '2.0', id: message.id, error: { code: MCP_ERROR_CODES.METHOD_NOT_FOUND, message: `Method not found: ${message.method}` } };
+      this.transport.send(reply).catch((error) => logger.warn('Failed to answer MCP server request', { method: message.method, error }));
+      return;
+    }
+
+    logger.debug('MCP server notification', { method: message.method, params: message.params });
+  }
+
+  private handleClose(error?: Error): void {
+    if (!this.connected) return;
+    this.connected = false;
+    const reason = error ?? new McpError('MCP connection closed', MCP_ERROR_CODES.CONNECTION_CLOSED);
+    for (const [id, request] of this.pending) {
+      clearTimeout(request.timer);
+      this.pending.delete(id);
+      request.reject(reason);
+    }
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * MCP Sample Server
+ * Source of a small Model Context Protocol server bundled with the backend. It offers a few tools, one resource
+ * and one prompt, and speaks newline-delimited JSON-RPC over stdio, or streamable HTTP when started with
+ * `-- --http <port>` (it then prints its URL on stdout). The MCP registry runs it with `node -e` as the `sample`
+ * server, and the MCP client tests use it in both modes.
+ *
+ * Kept as plain CommonJS (no backticks or template placeholders) because it is passed to node as a string.
+ */
+
+export const MCP_SAMPLE_SERVER_SOURCE = String.raw`
+'use strict';
+const http = require('http');
+const crypto = require('crypto');
+const readline = require('readline');
+
+const SUPPORTED_VERSIONS = ['2025-06-18', '2025-03-26', '2024-11-05'];
+const SERVER_INFO = { name: 'shunt-factory-sample', version: '1.0.0' };
+const PAGE_SIZE = 2;
+
+const TOOLS = [
+  {
+    name: 'echo',
+    description: 'Return the given text unchanged.',
+    inputSchema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+  },
+  {
+    name: 'add',
+    description: 'Add two numbers.',
+    inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] },
+  },
+  {
+    name: 'divide',
+    description: 'Divide a by b. Dividing by zero is reported as a tool error.',
+    inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] },
+  },
+];
+
+const README = '# Sample MCP server\n\nTools: echo, add, divide.\n';
+const RESOURCES = [
+  { uri: 'sample://readme', name: 'README', description: 'What this server offers', mimeType: 'text/markdown' },
+];
+
+const PROMPTS = [
+  {
+    name: 'review',
+    description: 'Ask for a code review of a snippet',
+    arguments: [{ name: 'code', description: 'The code to review', required: true }],
+  },
+];
+
+class RpcError extends Error {
+  constructor(code, message) {
+    super(message);
+    this.code = code;
+  }
+}
+
+function page(items, params) {
+  const start = params && params.cursor ? Number(params.cursor) : 0;
+  if (!Number.isInteger(start) || start < 0) throw new RpcError(-32602, 'Invalid cursor');
+  const end = start + PAGE_SIZE;
+  return { items: items.slice(start, end), nextCursor: end < items.length ? String(end) : undefined };
+}
+
+function text(value) {
+  return [{ type: 'text', text: String(value) }];
+}
+
+function callTool(params) {
+  const args = (params && params.arguments) || {};
+  switch (params && params.name) {
+    case 'echo':
+      return { content: text(args.text) };
+    case 'add':
+      return { content: text(args.a + args.b), structuredContent: { sum: args.a + args.b } };
+    case 'divide':
+      if (args.b === 0) return { content: text('Cannot divide by zero'), isError: true };
+      return { content: text(args.a / args.b), structuredContent: { quotient: args.a / args.b } };
+    default:
+      throw new RpcError(-32602, 'Unknown tool: ' + (params && params.name));
+  }
+}
+
+function getPrompt(params) {
+  const prompt = PROMPTS.find((candidate) => candidate.name === (params && params.name));
+  if (!prompt) throw new RpcError(-32602, 'Unknown prompt: ' + (params && params.name));
+  const args = (params && params.arguments) || {};
+  if (typeof args.code !== 'string') throw new RpcError(-32602, 'Missing required argument: code');
+  return {
+    description: prompt.description,
+    messages: [{ role: 'user', content: { type: 'text', text: 'Please review this code:\n\n' + args.code } }],
+  };
+}
+
+function result(method, params) {
+  switch (method) {
+    case 'initialize': {
+      const requested = params && params.protocolVersion;
+      return {
+        protocolVersion: SUPPORTED_VERSIONS.includes(requested) ? requested : SUPPORTED_VERSIONS[0],
+        capabilities: { tools: {}, resources: {}, prompts: {} },
+        serverInfo: SERVER_INFO,
+      };
+    }
+    case 'ping':
+      return {};
+    case 'tools/list': {
+      const listed = page(TOOLS, params);
+      return { tools: listed.items, nextCursor: listed.nextCursor };
+    }
+    case 'tools/call':
+      return callTool(params);
+    case 'resources/list': {
+      const listed = page(RESOURCES, params);
+      return { resources: listed.items, nextCursor: listed.nextCursor };
+    }
+    case 'resources/read':
+      if (!params || params.uri !== 'sample://readme') throw new RpcError(-32002, 'Resource not found: ' + (params && params.uri));
+      return { contents: [{ uri: params.uri, mimeType: 'text/markdown', text: README }] };
+    case 'prompts/list': {
+      const listed = page(PROMPTS, params);
+      return { prompts: listed.items, nextCursor: listed.nextCursor };
+    }
+    case 'prompts/get':
+      return getPrompt(params);
+    default:
+      throw new RpcError(-32601, 'Method not found: ' + method);
+  }
+}
+
+// The response to one message, or null for notifications and responses
+function handle(message) {
+  if (!message || typeof message !== 'object' || message.jsonrpc !== '2.0') {
+    return { jsonrpc: '2.0', id: null, error: { code: -32600, message: 'Invalid Request' } };
+  }
+  if (message.id === undefined || message.method === undefined) return null;
+  try {
+    return { jsonrpc: '2.0', id: message.id, result: result(message.method, message.params) };
+  } catch (error) {
+    const code = error instanceof RpcError ? error.code : -32603;
+    return { jsonrpc: '2.0', id: message.id, error: { code: code, message: error.message } };
+  }
+}
+
+function runStdio() {
+  const lines = readline.createInterface({ input: process.stdin });
+  lines.on('line', (line) => {
+    if (!line.trim()) return;
+    let response;
+    try {
+      response = handle(JSON.parse(line));
+    } catch (error) {
+      response = { jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } };
+    }
+    if (response) process.stdout.write(JSON.stringify(response) + '\n');
+  });
+  lines.on('close', () => process.exit(0));
+}
+
+function runHttp(port) {
+  const sessions = new Set();
+
+  const server = http.createServer((req, res) => {
+    if (req.url !== '/mcp') {
+      res.writeHead(404).end();
+      return;
+    }
+    const sessionId = req.headers['mcp-session-id'];
+    if (req.method === 'DELETE') {
+      sessions.delete(sessionId);
+      res.writeHead(200).end();
+      return;
+    }
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST, DELETE' }).end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      let message;
+      try {
+        message = JSON.parse(body);
+      } catch (error) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'Parse error' } }));
+        return;
+      }
+
+      const headers = { 'Content-Type': 'application/json' };
+      if (message.method === 'initialize') {
+        const id = crypto.randomUUID();
+        sessions.add(id);
+        headers['Mcp-Session-Id'] = id;
+      } else if (!sessions.has(sessionId)) {
+        res.writeHead(404, headers);
+        res.end(JSON.stringify({ jsonrpc: '2.0', id: null, error: { code: -32001, message: 'Session not found' } }));
+        return;
+      }
+
+      const response = handle(message);
+      if (!response) {
+        res.writeHead(202).end();
+        return;
+      }
+      // Tool calls answer as an event stream, with a log notification ahead of the result
+      if (message.method === 'tools/call' && String(req.headers.accept).includes('text/event-stream')) {
+        res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+        const log = { jsonrpc: '2.0', method: 'notifications/message', params: { level: 'info', data: 'Calling ' + message.params.name } };
+        res.write('event: message\ndata: ' + JSON.stringify(log) + '\n\n');
+        res.end('event: message\ndata: ' + JSON.stringify(response) + '\n\n');
+        return;
+      }
+      res.writeHead(200, headers);
+      res.end(JSON.stringify(response));
+    });
+  });
+
+  server.listen(port, '127.0.0.1', () => {
+    process.stdout.write('MCP sample server listening on http://127.0.0.1:' + server.address().port + '/mcp\n');
+  });
+  process.on('SIGTERM', () => server.close(() => process.exit(0)));
+}
+
+const httpFlag = process.argv.indexOf('--http');
+if (httpFlag === -1) {
+  runStdio();
+} else {
+  runHttp(Number(process.argv[httpFlag + 1] || 0));
+}
+`;
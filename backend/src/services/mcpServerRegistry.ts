@@ -0,0 +1,178 @@
+/**
+ * MCP Server Registry
+ * The configured MCP servers, with one lazily opened client connection per server that is reopened after it drops
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { mcpServersSchema } from '../middleware/validation.js';
+import { SAMPLE_MCP_SERVER_ID, type McpServerConfig, type McpTransportKind } from '../config/mcpServers.js';
+import { MCP_SAMPLE_SERVER_SOURCE } from './mcpSampleServer.js';
+import {
+  McpClient,
+  StdioTransport,
+  StreamableHttpTransport,
+  type McpPrompt,
+  type McpPromptResult,
+  type McpResource,
+  type McpResourceContents,
+  type McpServerInfo,
+  type McpTool,
+  type McpToolResult,
+  type McpTransport,
+} from './mcpClient.js';
+
+export interface McpServerStatus {
+  id: string;
+  name: string;
+  transport: McpTransportKind;
+  connected: boolean;
+  serverInfo: McpServerInfo | null;
+  protocolVersion: string | null;
+  /** Why the last connection attempt failed */
+  lastError: string | null;
+}
+
+export interface McpRegistryOptions {
+  requestTimeoutMs: number;
+  /** Builds the transport for a server; replaced in tests */
+  createTransport?: (config: McpServerConfig) => McpTransport;
+}
+
+export class McpServerNotFoundError extends Error {
+  constructor(serverId: string) {
+    super(`MCP server '${serverId}' is not configured`);
+    this.name = 'McpServerNotFoundError';
+    Object.setPrototypeOf(this, McpServerNotFoundError.prototype);
+  }
+}
+
+export function createMcpTransport(config: McpServerConfig): McpTransport {
+  return config.transport === 'stdio'
+    ? new StdioTransport({ command: config.command, args: config.args, env: config.env, cwd: config.cwd })
+    : new StreamableHttpTransport({ url: config.url, headers: config.headers });
+}
+
+export class McpServerRegistry {
+  private configs: Map<string, McpServerConfig>;
+  private clients = new Map<string, McpClient>();
+  private connecting = new Map<string, Promise<McpClient>>();
+  private lastErrors = new Map<string, string>();
+
+  constructor(servers: McpServerConfig[], private options: McpRegistryOptions) {
+    this.configs = new Map(servers.map((server) => [server.id, server]));
+  }
+
+  has(serverId: string): boolean {
+    return this.configs.has(serverId);
+  }
+
+  list(): McpServerStatus[] {
+    return [...this.configs.values()].map((config) => {
+      const client = this.clients.get(config.id);
+      const connected = client?.isConnected ?? false;
+      return {
+        id: config.id,
+        name: config.name ?? config.id,
+        transport: config.transport,
+        connected,
+        serverInfo: connected ? client!.serverInfo : null,
+        protocolVersion: connected ? client!.protocolVersion : null,
+        lastError: this.lastErrors.get(config.id) ?? null,
+      };
+    });
+  }
+
+  /**
+   * The open client for a server, connecting first if it has none or its connection dropped
+   */
+  async getClient(serverId: string): Promise<McpClient> {
+    const config = this.configs.get(serverId);
+    if (!config) throw new McpServerNotFoundError(serverId);
+
+    const existing = this.clients.get(serverId);
+    if (existing?.isConnected) return existing;
+
+    let connecting = this.connecting.get(serverId);
+    if (!connecting) {
+      connecting = this.connect(config).finally(() => this.connecting.delete(serverId));
+      this.connecting.set(serverId, connecting);
+    }
+    return connecting;
+  }
+
+  private async connect(config: McpServerConfig): Promise<McpClient> {
+    const transport = (this.options.createTransport ?? createMcpTransport)(config);
+    const client = new McpClient(transport, { requestTimeoutMs: this.options.requestTimeoutMs });
+    try {
+      await client.connect();
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      this.lastErrors.set(config.id, message);
+      logger.warn('MCP server connection failed', { serverId: config.id, error: message });
+      throw error;
+    }
+    this.lastErrors.delete(config.id);
+    this.clients.set(config.id, client);
+    logger.info('MCP server connected', { serverId: config.id, serverInfo: client.serverInfo, protocolVersion: client.protocolVersion });
+    return client;
+  }
+
+  async listTools(serverId: string): Promise<McpTool[]> {
+    return (await this.getClient(serverId)).listTools();
+  }
+
+  async listResources(serverId: string): Promise<McpResource[]> {
+    return (await this.getClient(serverId)).listResources();
+  }
+
+  async listPrompts(serverId: string): Promise<McpPrompt[]> {
+    return (await this.getClient(serverId)).listPrompts();
+  }
+
+  async callTool(serverId: string, name: string, args: Record<string, unknown> = {}): Promise<McpToolResult> {
+    return (await this.getClient(serverId)).callTool(name, args);
+  }
+
+  async readResource(serverId: string, uri: string): Promise<McpResourceContents[]> {
+    return (await this.getClient(serverId)).readResource(uri);
+  }
+
+  async getPrompt(serverId: string, name: string, args: Record<string, string> = {}): Promise<McpPromptResult> {
+    return (await this.getClient(serverId)).getPrompt(name, args);
+  }
+
+  async closeAll(): Promise<void> {
+    const clients = [...this.clients.values()];
+    this.clients.clear();
+    await Promise.all(clients.map((client) => client.close().catch(() => undefined)));
+  }
+}
+
+/**
+ * The bundled sample server, run by this Node binary
+ */
+export const SAMPLE_MCP_SERVER: McpServerConfig = {
+  id: SAMPLE_MCP_SERVER_ID,
+  name: 'Sample tools',
+  transport: 'stdio',
+  command: process.execPath,
+  args: ['-e', MCP_SAMPLE_SERVER_SOURCE],
+};
+
+/**
+ * Servers from the MCP_SERVERS_PATH file, plus the sample server unless it is disabled or the file defines its ID
+ */
+export function loadMcpServers(path: string | undefined, includeSample: boolean): McpServerConfig[] {
+  const servers: McpServerConfig[] =
+    path && existsSync(path) ? mcpServersSchema.parse(JSON.parse(readFileSync(path, 'utf8'))) : [];
+  if (includeSample && !servers.some((server) => server.id === SAMPLE_MCP_SERVER_ID)) {
+    servers.push(SAMPLE_MCP_SERVER);
+  }
+  return servers;
+}
+
+export const mcpServers = new McpServerRegistry(loadMcpServers(env.MCP_SERVERS_PATH, env.MCP_ENABLE_SAMPLE_SERVER), {
+  requestTimeoutMs: env.MCP_REQUEST_TIMEOUT_MS,
+});
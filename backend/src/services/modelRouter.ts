@@ -0,0 +1,240 @@
+/**
+ * Model Router
+ * Presents Gemini, LM Studio and Ollama behind one interface, picks a provider chain from routing rules
+ * and falls back along the chain when a provider errors or is rate limited
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { geminiService, type GeminiRequestConfig, type TokenUsage } from './geminiService.js';
+import { callLocalLLM, streamLocalLLM, toTokenUsage } from './localLLMService.js';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { routingRulesSchema } from '../middleware/validation.js';
+import {
+  MODEL_PROVIDERS,
+  MODEL_PRICING,
+  FALLBACK_MODEL_PRICING,
+  DEFAULT_GEMINI_MODEL,
+  type ModelProviderId,
+  type RoutingRule,
+} from '../config/modelRouting.js';
+import type { SubscriptionTier } from '../config/subscriptionTiers.js';
+
+export interface RouteRequest {
+  prompt: string;
+  /** Model per provider; providers without an entry use their configured default */
+  models?: Partial<Record<ModelProviderId, string>>;
+  config?: GeminiRequestConfig;
+}
+
+export interface RouteContext {
+  action?: string;
+  inputChars: number;
+  tier: SubscriptionTier;
+  /** Provider to try first, ahead of the rule or default chain */
+  preferredProvider?: ModelProviderId;
+  allowFallback?: boolean;
+  maxCostUsd?: number;
+}
+
+export interface RoutingReport {
+  rule: string | null;
+  /** Providers that failed before the one that served the request */
+  fallbackFrom: ModelProviderId[];
+}
+
+export interface RoutedResult {
+  text: string;
+  tokenUsage: TokenUsage;
+  provider: ModelProviderId;
+  routing: RoutingReport;
+}
+
+/**
+ * One model backend. Streams when `onChunk` is given.
+ */
+export interface ModelProvider {
+  generate(
+    request: RouteRequest,
+    onChunk?: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<{ text: string; tokenUsage: TokenUsage }>;
+}
+
+export class ModelRouterError extends Error {
+  constructor(
+    message: string,
+    public readonly attempts: Array<{ provider: ModelProviderId; error: string }>
+  ) {
+    super(message);
+    this.name = 'ModelRouterError';
+  }
+}
+
+const geminiProvider: ModelProvider = {
+  async generate(request, onChunk, signal) {
+    const model = request.models?.gemini ?? DEFAULT_GEMINI_MODEL;
+    return onChunk
+      ? geminiService.generateContentStream(request.prompt, model, request.config, onChunk, signal)
+      : geminiService.generateContent(request.prompt, model, request.config);
+  },
+};
+
+function localProvider(provider: 'lmstudio' | 'ollama'): ModelProvider {
+  return {
+    async generate(request, onChunk, signal) {
+      const localRequest = {
+        prompt: request.prompt,
+        model: request.models?.[provider],
+        temperature: request.config?.temperature,
+        maxTokens: request.config?.maxOutputTokens ?? 4096,
+      };
+      const response = onChunk
+        ? await streamLocalLLM(localRequest, provider, onChunk, signal)
+        : await callLocalLLM(localRequest, provider);
+      return { text: response.text, tokenUsage: toTokenUsage(response) };
+    },
+  };
+}
+
+/**
+ * Whether every condition of a rule's match holds for the request
+ */
+export function matchesRule(rule: RoutingRule, context: RouteContext): boolean {
+  const { actions, minInputChars, maxInputChars, tiers } = rule.match;
+
+  if (actions && (!context.action || !actions.includes(context.action))) return false;
+  if (minInputChars !== undefined && context.inputChars < minInputChars) return false;
+  if (maxInputChars !== undefined && context.inputChars > maxInputChars) return false;
+  if (tiers && !tiers.includes(context.tier)) return false;
+  return true;
+}
+
+/**
+ * Rough upper estimate of a request's cost: ~4 characters per token, and the output
+ * capped by maxOutputTokens (or assumed as long as the prompt)
+ */
+export function estimateCostUsd(provider: ModelProviderId, request: RouteRequest): number {
+  if (provider !== 'gemini') return 0;
+
+  const pricing = MODEL_PRICING[request.models?.gemini ?? DEFAULT_GEMINI_MODEL] ?? FALLBACK_MODEL_PRICING;
+  const inputTokens = Math.ceil(request.prompt.length / 4);
+  const outputTokens = request.config?.maxOutputTokens ?? inputTokens;
+
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+export class ModelRouter {
+  constructor(
+    private readonly providers: Record<ModelProviderId, ModelProvider>,
+    private readonly fallbackProviders: ModelProviderId[],
+    private readonly rules: RoutingRule[] = []
+  ) {}
+
+  /**
+   * Choose the providers to try for a request, in order
+   */
+  plan(request: RouteRequest, context: RouteContext): { rule: RoutingRule | null; providers: ModelProviderId[] } {
+    const rule = this.rules.find((candidate) => matchesRule(candidate, context)) ?? null;
+    const base = rule ? rule.providers : ['gemini' as const, ...this.fallbackProviders];
+    const ordered = context.preferredProvider ? [context.preferredProvider, ...base] : base;
+
+    // A request can lower the rule's ceiling but never raise it
+    const ceilings = [context.maxCostUsd, rule?.maxCostUsd].filter((ceiling): ceiling is number => ceiling !== undefined);
+    const costCeiling = ceilings.length > 0 ? Math.min(...ceilings) : undefined;
+    let providers = [...new Set(ordered)].filter(
+      (provider) => costCeiling === undefined || estimateCostUsd(provider, request) <= costCeiling
+    );
+
+    if (context.allowFallback === false) {
+      providers = providers.slice(0, 1);
+    }
+
+    return { rule, providers };
+  }
+
+  /**
+   * Run a request on the first provider in its chain that succeeds.
+   * A streamed request only falls back if the failing provider had not sent any output yet.
+   */
+  async route(
+    request: RouteRequest,
+    context: RouteContext,
+    onChunk?: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<RoutedResult> {
+    const { rule, providers } = this.plan(request, context);
+
+    if (providers.length === 0) {
+      throw new ModelRouterError('No model provider fits the cost ceiling for this request', []);
+    }
+
+    const attempts: Array<{ provider: ModelProviderId; error: string }> = [];
+
+    for (const provider of providers) {
+      let streamed = false;
+      const forward = onChunk && ((text: string) => {
+        streamed = true;
+        onChunk(text);
+      });
+
+      try {
+        const result = await this.providers[provider].generate(request, forward, signal);
+
+        if (attempts.length > 0) {
+          logger.warn('Model request served by fallback provider', {
+            provider,
+            fallbackFrom: attempts.map((attempt) => attempt.provider),
+            action: context.action,
+          });
+        }
+
+        return {
+          ...result,
+          provider,
+          routing: { rule: rule?.name ?? null, fallbackFrom: attempts.map((attempt) => attempt.provider) },
+        };
+      } catch (error) {
+        if (streamed || signal?.aborted) throw error;
+
+        attempts.push({ provider, error: errorMessage(error) });
+        logger.warn('Model provider failed', { provider, action: context.action, error: errorMessage(error) });
+      }
+    }
+
+    throw new ModelRouterError(
+      `All model providers failed (${attempts.map((attempt) => attempt.provider).join(', ')})`,
+      attempts
+    );
+  }
+}
+
+/**
+ * Read routing rules from a JSON file. A missing path means no rules; an invalid file fails startup.
+ */
+export function loadRoutingRules(path?: string): RoutingRule[] {
+  if (!path || !existsSync(path)) return [];
+  return routingRulesSchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+}
+
+function resolveFallbackProviders(names: string[]): ModelProviderId[] {
+  return names.filter((name): name is ModelProviderId => {
+    const known = (MODEL_PROVIDERS as readonly string[]).includes(name);
+    if (!known) logger.warn('Ignoring unknown model fallback provider', { provider: name });
+    return known;
+  });
+}
+
+export const modelRouter = new ModelRouter(
+  {
+    gemini: geminiProvider,
+    lmstudio: localProvider('lmstudio'),
+    ollama: localProvider('ollama'),
+  },
+  resolveFallbackProviders(env.MODEL_FALLBACK_PROVIDERS),
+  loadRoutingRules(env.MODEL_ROUTING_RULES_PATH)
+);
@@ -0,0 +1,258 @@
+/**
+ * Response Cache
+ * In-memory LRU cache of shunt results keyed on the caller, action, model, normalized text, context and priority,
+ * with an optional near-duplicate lookup over text embeddings supplied by the client
+ */
+
+import { createHash } from 'crypto';
+import { env } from '../config/environment.js';
+import type { TokenUsage } from './geminiService.js';
+import type { ModelProviderId } from '../config/modelRouting.js';
+
+export interface CacheKeyParts {
+  /**
+   * Caller the result belongs to. Entries are never shared across users: the near-duplicate lookup trusts
+   * client-supplied embeddings, so a shared scope would let any caller read or poison another's results.
+   */
+  userId: string;
+  action: string;
+  model: string;
+  text: string;
+  context?: string;
+  priority?: string;
+  /** Provider the client asked for, so a forced local run never reuses a Gemini result or vice versa */
+  provider?: ModelProviderId;
+  /** Whether the prompt was wrapped by the injection guard, which changes the prompt and so the result */
+  promptInjectionGuardEnabled?: boolean;
+}
+
+export interface CachedResponse {
+  resultText: string;
+  tokenUsage: TokenUsage;
+  provider: ModelProviderId;
+}
+
+/**
+ * Embedding of the request text, tagged with the model that produced it. Only vectors from the same
+ * model are compared.
+ */
+export interface TextEmbedding {
+  model: string;
+  vector: number[];
+}
+
+export interface CacheEntry {
+  key: string;
+  /** Hash of every key part except the text; near-duplicate lookups only compare entries in the same scope */
+  scope: string;
+  action: string;
+  model: string;
+  textPreview: string;
+  embedding: TextEmbedding | null;
+  response: CachedResponse;
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+export type CacheEntrySummary = Omit<CacheEntry, 'embedding' | 'response'> & {
+  provider: ModelProviderId;
+  hasEmbedding: boolean;
+};
+
+export interface CacheHit {
+  entry: CacheEntry;
+  mode: 'exact' | 'semantic';
+  similarity?: number;
+}
+
+export interface ResponseCacheOptions {
+  /** 0 disables the cache */
+  maxEntries: number;
+  ttlMs: number;
+  /** Minimum cosine similarity for a near-duplicate hit */
+  similarityThreshold: number;
+}
+
+export interface ResponseCacheStats extends ResponseCacheOptions {
+  size: number;
+  hits: number;
+  semanticHits: number;
+  misses: number;
+  evictions: number;
+}
+
+const PREVIEW_LENGTH = 120;
+
+/**
+ * Collapse whitespace so re-pasted or re-indented text maps to the same key
+ */
+export function normalizeText(text: string): string {
+  return text.trim().replace(/\s+/g, ' ');
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+export function buildCacheKey(parts: CacheKeyParts): { key: string; scope: string } {
+  const scope = sha256(
+    JSON.stringify([
+      parts.userId,
+      parts.action,
+      parts.model,
+      parts.provider ?? null,
+      sha256(parts.context ?? ''),
+      parts.priority ?? null,
+      parts.promptInjectionGuardEnabled ?? false,
+    ])
+  );
+  return { key: sha256(`${scope}:${sha256(normalizeText(parts.text))}`), scope };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length || a.length === 0) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA === 0 || normB === 0 ? 0 : dot / (Math.sqrt(normA) * Math.sqrt(normB));
+}
+
+export class ResponseCache {
+  // Map iteration order doubles as recency order: hits are re-inserted at the end
+  private entries = new Map<string, CacheEntry>();
+  private counters = { hits: 0, semanticHits: 0, misses: 0, evictions: 0 };
+
+  constructor(private readonly options: ResponseCacheOptions) {}
+
+  get enabled(): boolean {
+    return this.options.maxEntries > 0;
+  }
+
+  /**
+   * Find a cached response: an exact key match first, then (when an embedding is given)
+   * the most similar entry in the same scope above the similarity threshold
+   */
+  lookup(parts: CacheKeyParts, embedding?: TextEmbedding, now: number = Date.now()): CacheHit | null {
+    const { key, scope } = buildCacheKey(parts);
+
+    const exact = this.entries.get(key);
+    if (exact && exact.expiresAt > now) {
+      return this.recordHit(exact, 'exact');
+    }
+    if (exact) {
+      this.entries.delete(key);
+    }
+
+    if (embedding) {
+      let best: { entry: CacheEntry; similarity: number } | null = null;
+
+      for (const entry of this.entries.values()) {
+        if (entry.scope !== scope || entry.expiresAt <= now || entry.embedding?.model !== embedding.model) continue;
+
+        const similarity = cosineSimilarity(embedding.vector, entry.embedding.vector);
+        if (similarity >= this.options.similarityThreshold && (!best || similarity > best.similarity)) {
+          best = { entry, similarity };
+        }
+      }
+
+      if (best) {
+        return this.recordHit(best.entry, 'semantic', best.similarity);
+      }
+    }
+
+    this.counters.misses++;
+    return null;
+  }
+
+  /**
+   * Store a response, evicting the least recently used entries beyond the size limit
+   */
+  set(parts: CacheKeyParts, response: CachedResponse, embedding?: TextEmbedding, now: number = Date.now()): CacheEntry | null {
+    if (!this.enabled) return null;
+
+    const { key, scope } = buildCacheKey(parts);
+    const entry: CacheEntry = {
+      key,
+      scope,
+      action: parts.action,
+      model: parts.model,
+      textPreview: normalizeText(parts.text).slice(0, PREVIEW_LENGTH),
+      embedding: embedding ?? null,
+      response,
+      createdAt: now,
+      expiresAt: now + this.options.ttlMs,
+      hits: 0,
+    };
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+      this.counters.evictions++;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Live entries, most recently used first
+   */
+  list(now: number = Date.now()): CacheEntrySummary[] {
+    return [...this.entries.values()]
+      .filter((entry) => entry.expiresAt > now)
+      .reverse()
+      .map(({ embedding, response, ...entry }) => ({
+        ...entry,
+        provider: response.provider,
+        hasEmbedding: embedding !== null,
+      }));
+  }
+
+  getStats(): ResponseCacheStats {
+    return { ...this.options, size: this.entries.size, ...this.counters };
+  }
+
+  delete(key: string): boolean {
+    return this.entries.delete(key);
+  }
+
+  /**
+   * Remove every entry, or only those for an action and/or model. Returns the number removed.
+   */
+  purge(filter: { action?: string; model?: string } = {}): number {
+    let removed = 0;
+    for (const entry of [...this.entries.values()]) {
+      if ((filter.action && entry.action !== filter.action) || (filter.model && entry.model !== filter.model)) continue;
+      this.entries.delete(entry.key);
+      removed++;
+    }
+    return removed;
+  }
+
+  private recordHit(entry: CacheEntry, mode: CacheHit['mode'], similarity?: number): CacheHit {
+    entry.hits++;
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+
+    this.counters.hits++;
+    if (mode === 'semantic') this.counters.semanticHits++;
+
+    return { entry, mode, similarity };
+  }
+}
+
+export const responseCache = new ResponseCache({
+  maxEntries: env.RESPONSE_CACHE_MAX_ENTRIES,
+  ttlMs: env.RESPONSE_CACHE_TTL_MS,
+  similarityThreshold: env.RESPONSE_CACHE_SIMILARITY_THRESHOLD,
+});
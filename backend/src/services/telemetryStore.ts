@@ -0,0 +1,164 @@
+/**
+ * Telemetry Event Store
+ * Append-only JSONL store for frontend interaction events with filtered reads and aggregates
+ */
+
+import { createReadStream } from 'fs';
+import { appendFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { createInterface } from 'readline';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import type { InteractionEvent, TelemetryQuery } from '../middleware/validation.js';
+
+export type TelemetryFilter = Omit<TelemetryQuery, 'limit'>;
+
+export interface TelemetrySummary {
+  totalEvents: number;
+  sessions: number;
+  byEventType: Record<string, number>;
+  byOutcome: Record<string, number>;
+  byTab: Record<string, number>;
+  averageLatencyMs: number | null;
+  totalTokens: number;
+  firstEventAt: string | null;
+  lastEventAt: string | null;
+}
+
+/**
+ * Check an event against every filter that is set
+ */
+export function matchesFilter(event: InteractionEvent, filter: TelemetryFilter): boolean {
+  if (filter.sessionID && event.sessionID !== filter.sessionID) return false;
+  if (filter.userID && event.userID !== filter.userID) return false;
+  if (filter.tab && event.tab !== filter.tab) return false;
+  if (filter.eventType && event.eventType !== filter.eventType) return false;
+  if (filter.outcome && event.outcome !== filter.outcome) return false;
+
+  const time = Date.parse(event.timestamp);
+  if (filter.from && time < Date.parse(filter.from)) return false;
+  if (filter.to && time > Date.parse(filter.to)) return false;
+
+  return true;
+}
+
+export class TelemetryStore {
+  private writeQueue: Promise<void> = Promise.resolve();
+  private directoryReady = false;
+
+  constructor(private readonly filePath: string) {}
+
+  /**
+   * Append a batch of events. Writes are serialized so concurrent batches never interleave lines.
+   */
+  append(events: InteractionEvent[]): Promise<void> {
+    const lines = events.map((event) => JSON.stringify(event)).join('\n') + '\n';
+
+    const write = this.writeQueue.then(async () => {
+      if (!this.directoryReady) {
+        await mkdir(dirname(this.filePath), { recursive: true });
+        this.directoryReady = true;
+      }
+      await appendFile(this.filePath, lines, 'utf8');
+    });
+
+    // Keep the queue alive after a failed write; the caller still sees the rejection
+    this.writeQueue = write.catch(() => undefined);
+    return write;
+  }
+
+  /**
+   * Return matching events, newest first
+   */
+  async query(query: TelemetryQuery): Promise<InteractionEvent[]> {
+    const matches: InteractionEvent[] = [];
+
+    await this.scan((event) => {
+      if (matchesFilter(event, query)) {
+        matches.push(event);
+      }
+    });
+
+    return matches
+      .sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp))
+      .slice(0, query.limit);
+  }
+
+  /**
+   * Aggregate counts, latency and token usage over matching events
+   */
+  async summarize(filter: TelemetryFilter): Promise<TelemetrySummary> {
+    const summary: TelemetrySummary = {
+      totalEvents: 0,
+      sessions: 0,
+      byEventType: {},
+      byOutcome: {},
+      byTab: {},
+      averageLatencyMs: null,
+      totalTokens: 0,
+      firstEventAt: null,
+      lastEventAt: null,
+    };
+    const sessions = new Set<string>();
+    let latencyTotal = 0;
+    let latencyCount = 0;
+
+    await this.scan((event) => {
+      if (!matchesFilter(event, filter)) return;
+
+      summary.totalEvents++;
+      sessions.add(event.sessionID);
+      summary.byEventType[event.eventType] = (summary.byEventType[event.eventType] ?? 0) + 1;
+      summary.byTab[event.tab] = (summary.byTab[event.tab] ?? 0) + 1;
+      if (event.outcome) {
+        summary.byOutcome[event.outcome] = (summary.byOutcome[event.outcome] ?? 0) + 1;
+      }
+      if (typeof event.latency === 'number') {
+        latencyTotal += event.latency;
+        latencyCount++;
+      }
+      summary.totalTokens += event.tokenUsage?.total_tokens ?? 0;
+
+      if (!summary.firstEventAt || event.timestamp < summary.firstEventAt) {
+        summary.firstEventAt = event.timestamp;
+      }
+      if (!summary.lastEventAt || event.timestamp > summary.lastEventAt) {
+        summary.lastEventAt = event.timestamp;
+      }
+    });
+
+    summary.sessions = sessions.size;
+    summary.averageLatencyMs = latencyCount > 0 ? Math.round(latencyTotal / latencyCount) : null;
+    return summary;
+  }
+
+  /**
+   * Stream every stored event through a visitor, skipping lines that fail to parse
+   */
+  private async scan(visit: (event: InteractionEvent) => void): Promise<void> {
+    // Let pending writes land so reads see every accepted batch
+    await this.writeQueue;
+
+    const input = createReadStream(this.filePath, { encoding: 'utf8' });
+    const lines = createInterface({ input, crlfDelay: Infinity });
+
+    try {
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          visit(JSON.parse(line) as InteractionEvent);
+        } catch {
+          logger.warn('Skipping malformed telemetry line', { filePath: this.filePath });
+        }
+      }
+    } catch (error) {
+      // No events have been recorded yet
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    } finally {
+      lines.close();
+    }
+  }
+}
+
+export const telemetryStore = new TelemetryStore(env.TELEMETRY_STORE_PATH);
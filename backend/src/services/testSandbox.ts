@@ -0,0 +1,329 @@
+/**
+ * Test Sandbox
+ * Runs generated TypeScript/JavaScript tests against generated source files in a short-lived node process:
+ * no filesystem, child process or network access, no environment variables, a heap limit and timeouts.
+ * These limits are enforced by node on the whole process, not by the vm context the harness runs tests in.
+ */
+
+import { spawn } from 'child_process';
+import { mkdtemp, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, sep } from 'path';
+import { pathToFileURL } from 'url';
+import ts from 'typescript';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { HARNESS_BUILTINS, HARNESS_SOURCE, RESULT_MARKER, SANDBOX_BUILTINS } from './testSandboxHarness.js';
+
+export interface SandboxSourceFile {
+  path: string;
+  content: string;
+}
+
+export interface SandboxTestFile {
+  id: string;
+  path: string;
+  content: string;
+}
+
+export interface SandboxRunRequest {
+  tests: SandboxTestFile[];
+  files: SandboxSourceFile[];
+  /** Per-test timeout; capped by the configured limit */
+  testTimeoutMs?: number;
+}
+
+export interface SandboxCaseResult {
+  /** Test name including its describe blocks, e.g. "Cart > adds items" */
+  name: string;
+  passed: boolean;
+  skipped?: boolean;
+  durationMs: number;
+  message?: string;
+  stack?: string;
+}
+
+export interface SandboxTestResult {
+  id: string;
+  passed: boolean;
+  durationMs: number;
+  errorMessage?: string;
+  stackTrace?: string;
+  cases: SandboxCaseResult[];
+  /** Console output of the test file, capped at 200 lines */
+  logs: string[];
+}
+
+export interface SandboxRunResult {
+  results: SandboxTestResult[];
+  durationMs: number;
+}
+
+export interface TestSandboxOptions {
+  testTimeoutMs: number;
+  /** Hard limit for the whole run; the process is killed after it */
+  runTimeoutMs: number;
+  memoryMb: number;
+  /** Runs allowed at once; further runs wait for a slot */
+  maxConcurrent: number;
+}
+
+const RUNNABLE_EXTENSIONS = /\.(ts|tsx|js|jsx|mjs|cjs)$/;
+const MAX_OUTPUT_BYTES = 5 * 1024 * 1024;
+
+// Node 20 only knows the experimental flag; later versions accept --permission
+const PERMISSION_FLAG = process.allowedNodeEnvironmentFlags.has('--permission') ? '--permission' : '--experimental-permission';
+
+// The permission model does not cover the network, so sockets are blocked by a policy that only lets the
+// harness load the modules it needs, and by turning off the network globals
+const NETWORK_FLAGS = ['--no-experimental-fetch', '--no-experimental-websocket'].filter((flag) =>
+  process.allowedNodeEnvironmentFlags.has(flag)
+);
+const POLICY_SUPPORTED = process.allowedNodeEnvironmentFlags.has('--experimental-policy');
+
+const HARNESS_FILE = 'harness.cjs';
+const POLICY_FILE = 'policy.json';
+
+let runtimeDir: Promise<string> | null = null;
+
+interface TranspiledModule {
+  code?: string;
+  error?: string;
+}
+
+/**
+ * Normalise a file path to the forward-slash, relative form the harness resolves imports against
+ */
+export function normalizeSandboxPath(filePath: string): string {
+  return filePath.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+}
+
+/**
+ * Transpile TypeScript (or modern JavaScript) to CommonJS. Syntax errors come back as `error` so the
+ * test importing the file fails with them instead of the whole run.
+ */
+export function transpileForSandbox(filePath: string, content: string): TranspiledModule {
+  const output = ts.transpileModule(content, {
+    fileName: filePath,
+    reportDiagnostics: true,
+    compilerOptions: {
+      module: ts.ModuleKind.CommonJS,
+      target: ts.ScriptTarget.ES2022,
+      jsx: ts.JsxEmit.React,
+      esModuleInterop: true,
+      allowJs: true,
+    },
+  });
+
+  const errors = (output.diagnostics ?? []).filter((d) => d.category === ts.DiagnosticCategory.Error);
+  if (errors.length > 0) {
+    return {
+      error: errors
+        .map((d) => {
+          const position = d.file && d.start !== undefined ? d.file.getLineAndCharacterOfPosition(d.start) : null;
+          const message = ts.flattenDiagnosticMessageText(d.messageText, '\n');
+          return position ? `(${position.line + 1},${position.character + 1}) ${message}` : message;
+        })
+        .join('\n'),
+    };
+  }
+
+  return { code: output.outputText };
+}
+
+/**
+ * Write the harness and its policy to a private temp directory, once per process, and return the directory.
+ * Every script in it may load only the harness's node modules: net, http, https, http2, tls, dgram, dns,
+ * child_process, worker_threads and the module loader itself are refused even to code that escapes the vm context.
+ */
+export function prepareSandboxRuntime(): Promise<string> {
+  runtimeDir ??= (async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'test-sandbox-'));
+    const dependencies = Object.fromEntries([...HARNESS_BUILTINS, ...SANDBOX_BUILTINS].map((name) => [name, true]));
+    const policy = {
+      onerror: 'throw',
+      scopes: { [pathToFileURL(dir + sep).href]: { integrity: true, dependencies } },
+    };
+
+    await writeFile(join(dir, HARNESS_FILE), HARNESS_SOURCE, { mode: 0o600 });
+    await writeFile(join(dir, POLICY_FILE), JSON.stringify(policy), { mode: 0o600 });
+    if (!POLICY_SUPPORTED) {
+      logger.warn('This node version has no --experimental-policy; sandboxed tests are not kept off the network');
+    }
+    return dir;
+  })();
+  runtimeDir.catch(() => {
+    runtimeDir = null;
+  });
+  return runtimeDir;
+}
+
+/**
+ * Node arguments that run a script from the runtime directory as a sandbox process
+ */
+export function sandboxNodeArgs(dir: string, script: string, memoryMb: number): string[] {
+  return [
+    PERMISSION_FLAG,
+    `--allow-fs-read=${dir}${sep}`,
+    ...(POLICY_SUPPORTED ? [`--experimental-policy=${join(dir, POLICY_FILE)}`] : []),
+    ...NETWORK_FLAGS,
+    '--disallow-code-generation-from-strings',
+    `--max-old-space-size=${memoryMb}`,
+    '--no-warnings',
+    join(dir, script),
+  ];
+}
+
+export class TestSandbox {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly options: TestSandboxOptions) {}
+
+  /**
+   * Run every test file in one sandbox process and return a result per test file, in request order
+   */
+  async run(request: SandboxRunRequest): Promise<SandboxRunResult> {
+    await this.acquire();
+    const started = Date.now();
+
+    try {
+      const results = await this.execute(request);
+      return { results, durationMs: Date.now() - started };
+    } finally {
+      this.release();
+    }
+  }
+
+  private async execute(request: SandboxRunRequest): Promise<SandboxTestResult[]> {
+    const modules: Record<string, TranspiledModule> = {};
+    for (const file of [...request.files, ...request.tests]) {
+      const filePath = normalizeSandboxPath(file.path);
+      modules[filePath] = RUNNABLE_EXTENSIONS.test(filePath)
+        ? transpileForSandbox(filePath, file.content)
+        : { error: 'Only TypeScript and JavaScript files can run in the test sandbox' };
+    }
+
+    const runnable = request.tests.filter((test) => RUNNABLE_EXTENSIONS.test(normalizeSandboxPath(test.path)));
+    const byId = new Map<string, SandboxTestResult>();
+
+    if (runnable.length > 0) {
+      const testTimeoutMs = Math.min(request.testTimeoutMs ?? this.options.testTimeoutMs, this.options.testTimeoutMs);
+      const manifest = {
+        modules,
+        tests: runnable.map((test) => ({ id: test.id, path: normalizeSandboxPath(test.path) })),
+        testTimeoutMs,
+      };
+      const { results, failure } = await this.spawnHarness(await prepareSandboxRuntime(), JSON.stringify(manifest));
+      results.forEach((result) => byId.set(result.id, result));
+      if (failure) {
+        logger.warn('Test sandbox run ended early', { failure, completed: results.length, total: runnable.length });
+      }
+
+      for (const test of runnable) {
+        if (!byId.has(test.id)) {
+          byId.set(test.id, failedResult(test.id, failure ?? 'The sandbox stopped before this test file ran'));
+        }
+      }
+    }
+
+    return request.tests.map(
+      (test) => byId.get(test.id) ?? failedResult(test.id, 'Only TypeScript and JavaScript tests can run in the test sandbox')
+    );
+  }
+
+  /**
+   * Start the harness, feed it the manifest and collect the result lines it prints.
+   * `failure` explains why results are missing when the process timed out, ran out of memory or crashed.
+   */
+  private spawnHarness(dir: string, manifest: string): Promise<{ results: SandboxTestResult[]; failure?: string }> {
+    return new Promise((resolve) => {
+      const child = spawn(process.execPath, sandboxNodeArgs(dir, HARNESS_FILE, this.options.memoryMb), {
+        env: {},
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+
+      const results: SandboxTestResult[] = [];
+      let buffered = '';
+      let stderr = '';
+      let outputBytes = 0;
+      let failure: string | undefined;
+
+      const timer = setTimeout(() => {
+        failure = `Test run exceeded ${this.options.runTimeoutMs}ms and was stopped`;
+        child.kill('SIGKILL');
+      }, this.options.runTimeoutMs);
+
+      child.stdout.setEncoding('utf8');
+      child.stdout.on('data', (chunk: string) => {
+        outputBytes += chunk.length;
+        if (outputBytes > MAX_OUTPUT_BYTES) {
+          failure = 'Test output exceeded the sandbox limit';
+          child.kill('SIGKILL');
+          return;
+        }
+        buffered += chunk;
+        let newline: number;
+        while ((newline = buffered.indexOf('\n')) >= 0) {
+          const line = buffered.slice(0, newline);
+          buffered = buffered.slice(newline + 1);
+          if (line.startsWith(RESULT_MARKER)) {
+            results.push(JSON.parse(line.slice(RESULT_MARKER.length)));
+          }
+        }
+      });
+
+      child.stderr.setEncoding('utf8');
+      child.stderr.on('data', (chunk: string) => {
+        stderr = (stderr + chunk).slice(-4000);
+      });
+
+      child.on('close', (code, signal) => {
+        clearTimeout(timer);
+        if (!failure && code !== 0) {
+          const outOfMemory = /heap out of memory|Allocation failed/i.test(stderr);
+          failure = outOfMemory
+            ? `Test run exceeded the ${this.options.memoryMb}MB memory limit`
+            : `Sandbox exited with ${signal ?? `code ${code}`}${stderr ? `: ${stderr.trim().split('\n').slice(-5).join('\n')}` : ''}`;
+        }
+        resolve({ results, failure });
+      });
+
+      child.on('error', (error) => {
+        failure = `Failed to start the sandbox: ${error.message}`;
+      });
+
+      // The child may exit before reading all of stdin (e.g. on a startup error); that surfaces through 'close'
+      child.stdin.on('error', () => undefined);
+      child.stdin.end(manifest);
+    });
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.options.maxConcurrent) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+function failedResult(id: string, errorMessage: string): SandboxTestResult {
+  return { id, passed: false, durationMs: 0, errorMessage, cases: [], logs: [] };
+}
+
+export const testSandbox = new TestSandbox({
+  testTimeoutMs: env.SANDBOX_TEST_TIMEOUT_MS,
+  runTimeoutMs: env.SANDBOX_RUN_TIMEOUT_MS,
+  memoryMb: env.SANDBOX_MEMORY_MB,
+  maxConcurrent: env.SANDBOX_MAX_CONCURRENT,
+});
@@ -0,0 +1,573 @@
+/**
+ * Test Sandbox Harness
+ * Source of the script the sandbox child process runs. It reads a manifest of transpiled modules from
+ * stdin, runs each test file against a small vitest/jest-compatible API inside a vm context and prints
+ * one result line per test file.
+ *
+ * Kept as plain CommonJS (no backticks or template placeholders) because it is embedded as a string.
+ * The vm context only keeps honest tests apart; isolation comes from the process flags in testSandbox.ts.
+ */
+
+/** Prefix of the stdout lines carrying a test file's result */
+export const RESULT_MARKER = '__SANDBOX_RESULT__ ';
+
+/** Node modules tests may import; the only ones the sandbox process policy lets the harness load */
+export const SANDBOX_BUILTINS = ['assert', 'buffer', 'crypto', 'events', 'path', 'querystring', 'string_decoder', 'url', 'util'];
+
+/** Modules the harness itself needs */
+export const HARNESS_BUILTINS = ['path', 'util', 'vm'];
+
+export const HARNESS_SOURCE = String.raw`
+'use strict';
+const path = require('path');
+const util = require('util');
+const vm = require('vm');
+
+const RESULT_MARKER = '__SANDBOX_RESULT__ ';
+const ALLOWED_BUILTINS = ` + JSON.stringify(SANDBOX_BUILTINS) + String.raw`;
+const MAX_LOG_LINES = 200;
+
+function inspect(value) {
+  return util.inspect(value, { depth: 4, breakLength: 120 });
+}
+
+// ---------------------------------------------------------------------------
+// Equality and expect()
+// ---------------------------------------------------------------------------
+
+function isAsymmetric(value) {
+  return value !== null && typeof value === 'object' && typeof value.asymmetricMatch === 'function';
+}
+
+function tagOf(value) {
+  return Object.prototype.toString.call(value).slice(8, -1);
+}
+
+function constructorName(value) {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype && prototype.constructor ? prototype.constructor.name : null;
+}
+
+function equals(a, b, strict) {
+  if (isAsymmetric(b)) return b.asymmetricMatch(a);
+  if (isAsymmetric(a)) return a.asymmetricMatch(b);
+  if (Object.is(a, b)) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  // Values come from the vm context and from the harness, so compare type tags rather than instanceof
+  const tag = tagOf(a);
+  if (tag !== tagOf(b)) return false;
+  if (tag === 'Date') return a.getTime() === b.getTime();
+  if (tag === 'RegExp') return String(a) === String(b);
+  if (strict && constructorName(a) !== constructorName(b)) return false;
+  if (tag === 'Map') {
+    if (a.size !== b.size) return false;
+    for (const [key, value] of a) {
+      if (!b.has(key) || !equals(value, b.get(key), strict)) return false;
+    }
+    return true;
+  }
+  if (tag === 'Set') {
+    if (a.size !== b.size) return false;
+    for (const value of a) {
+      if (![...b].some((other) => equals(value, other, strict))) return false;
+    }
+    return true;
+  }
+  const keys = (object) => Object.keys(object).filter((key) => strict || object[key] !== undefined);
+  const aKeys = keys(a);
+  const bKeys = keys(b);
+  if (aKeys.length !== bKeys.length) return false;
+  return aKeys.every((key) => Object.prototype.hasOwnProperty.call(b, key) && equals(a[key], b[key], strict));
+}
+
+function matchesObject(actual, expected) {
+  if (isAsymmetric(expected)) return expected.asymmetricMatch(actual);
+  if (typeof expected !== 'object' || expected === null) return equals(actual, expected, false);
+  if (typeof actual !== 'object' || actual === null) return false;
+  if (Array.isArray(expected)) {
+    return Array.isArray(actual) && actual.length === expected.length && expected.every((item, i) => matchesObject(actual[i], item));
+  }
+  return Object.keys(expected).every((key) => key in actual && matchesObject(actual[key], expected[key]));
+}
+
+function readProperty(object, keyPath) {
+  const keys = Array.isArray(keyPath) ? keyPath : String(keyPath).split('.');
+  let current = object;
+  for (const key of keys) {
+    if (current === null || current === undefined || !(Object(current) instanceof Object) || !(key in Object(current))) {
+      return { found: false };
+    }
+    current = current[key];
+  }
+  return { found: true, value: current };
+}
+
+function errorMatches(error, expected) {
+  if (expected === undefined) return true;
+  const message = error && error.message !== undefined ? String(error.message) : String(error);
+  if (typeof expected === 'string') return message.includes(expected);
+  if (tagOf(expected) === 'RegExp') return expected.test(message);
+  if (typeof expected === 'function') return error instanceof expected;
+  if (typeof expected === 'object' && expected !== null) return message === String(expected.message);
+  return false;
+}
+
+function isMock(value) {
+  return typeof value === 'function' && value.mock !== undefined && Array.isArray(value.mock.calls);
+}
+
+const typeNames = { String: 'string', Number: 'number', Boolean: 'boolean', Function: 'function', Symbol: 'symbol', BigInt: 'bigint' };
+
+const asymmetric = {
+  anything: () => ({ asymmetricMatch: (value) => value !== null && value !== undefined, toString: () => 'Anything' }),
+  any: (type) => ({
+    asymmetricMatch: (value) => (typeNames[type.name] ? typeof value === typeNames[type.name] : type.name === 'Object' ? typeof value === 'object' && value !== null : value instanceof type),
+    toString: () => 'Any<' + type.name + '>',
+  }),
+  stringContaining: (text) => ({ asymmetricMatch: (value) => typeof value === 'string' && value.includes(text), toString: () => 'StringContaining ' + inspect(text) }),
+  stringMatching: (pattern) => ({ asymmetricMatch: (value) => typeof value === 'string' && new RegExp(pattern).test(value), toString: () => 'StringMatching ' + String(pattern) }),
+  objectContaining: (object) => ({ asymmetricMatch: (value) => matchesObject(value, object), toString: () => 'ObjectContaining ' + inspect(object) }),
+  arrayContaining: (items) => ({
+    asymmetricMatch: (value) => Array.isArray(value) && items.every((item) => value.some((other) => equals(other, item, false))),
+    toString: () => 'ArrayContaining ' + inspect(items),
+  }),
+};
+
+class AssertionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'AssertionError';
+  }
+}
+
+function buildMatchers(received, negated) {
+  function check(pass, name, expected, detail) {
+    if (pass !== negated) return;
+    const lines = ['expect(received).' + (negated ? 'not.' : '') + name + '(' + (expected === undefined ? '' : 'expected') + ')', ''];
+    if (expected !== undefined) lines.push('Expected: ' + (negated ? 'not ' : '') + inspect(expected));
+    lines.push('Received: ' + inspect(received));
+    if (detail) lines.push('', detail);
+    throw new AssertionError(lines.join('\n'));
+  }
+
+  function calls() {
+    if (!isMock(received)) throw new AssertionError('expect(received) must be a mock function created with vi.fn() or vi.spyOn()');
+    return received.mock.calls;
+  }
+
+  const matchers = {
+    toBe: (expected) => check(Object.is(received, expected), 'toBe', expected),
+    toEqual: (expected) => check(equals(received, expected, false), 'toEqual', expected),
+    toStrictEqual: (expected) => check(equals(received, expected, true), 'toStrictEqual', expected),
+    toBeTruthy: () => check(Boolean(received), 'toBeTruthy'),
+    toBeFalsy: () => check(!received, 'toBeFalsy'),
+    toBeNull: () => check(received === null, 'toBeNull'),
+    toBeUndefined: () => check(received === undefined, 'toBeUndefined'),
+    toBeDefined: () => check(received !== undefined, 'toBeDefined'),
+    toBeNaN: () => check(Number.isNaN(received), 'toBeNaN'),
+    toBeTypeOf: (type) => check(typeof received === type, 'toBeTypeOf', type),
+    toBeInstanceOf: (type) => check(received instanceof type, 'toBeInstanceOf', type),
+    toBeGreaterThan: (expected) => check(received > expected, 'toBeGreaterThan', expected),
+    toBeGreaterThanOrEqual: (expected) => check(received >= expected, 'toBeGreaterThanOrEqual', expected),
+    toBeLessThan: (expected) => check(received < expected, 'toBeLessThan', expected),
+    toBeLessThanOrEqual: (expected) => check(received <= expected, 'toBeLessThanOrEqual', expected),
+    toBeCloseTo: (expected, digits) => check(Math.abs(received - expected) < Math.pow(10, -(digits === undefined ? 2 : digits)) / 2, 'toBeCloseTo', expected),
+    toContain: (item) => check(received !== null && received !== undefined && typeof received.includes === 'function' && received.includes(item), 'toContain', item),
+    toContainEqual: (item) => check(Array.from(received || []).some((other) => equals(other, item, false)), 'toContainEqual', item),
+    toHaveLength: (length) => check(received !== null && received !== undefined && received.length === length, 'toHaveLength', length),
+    toHaveProperty: (...args) => {
+      const property = readProperty(received, args[0]);
+      check(property.found && (args.length < 2 || equals(property.value, args[1], false)), 'toHaveProperty', args[0]);
+    },
+    toMatch: (pattern) => check(typeof received === 'string' && (typeof pattern === 'string' ? received.includes(pattern) : pattern.test(received)), 'toMatch', pattern),
+    toMatchObject: (expected) => check(matchesObject(received, expected), 'toMatchObject', expected),
+    toThrow: (expected) => {
+      if (typeof received !== 'function') throw new AssertionError('expect(received).toThrow() needs a function');
+      let thrown = null;
+      try {
+        received();
+      } catch (error) {
+        thrown = { error };
+      }
+      check(thrown !== null && errorMatches(thrown.error, expected), 'toThrow', expected, thrown ? 'Thrown: ' + inspect(thrown.error) : 'The function did not throw');
+    },
+    toHaveBeenCalled: () => check(calls().length > 0, 'toHaveBeenCalled'),
+    toHaveBeenCalledTimes: (times) => check(calls().length === times, 'toHaveBeenCalledTimes', times, 'Calls: ' + calls().length),
+    toHaveBeenCalledWith: (...args) => check(calls().some((call) => equals(call, args, false)), 'toHaveBeenCalledWith', args, 'Calls: ' + inspect(calls())),
+    toHaveBeenLastCalledWith: (...args) => check(calls().length > 0 && equals(calls()[calls().length - 1], args, false), 'toHaveBeenLastCalledWith', args, 'Calls: ' + inspect(calls())),
+  };
+  matchers.toThrowError = matchers.toThrow;
+  matchers.toBeCalled = matchers.toHaveBeenCalled;
+  matchers.toBeCalledWith = matchers.toHaveBeenCalledWith;
+  return matchers;
+}
+
+function promiseMatchers(promise, rejects, negated) {
+  const result = {};
+  for (const name of Object.keys(buildMatchers(undefined, false))) {
+    result[name] = (...args) =>
+      Promise.resolve(promise).then(
+        (value) => {
+          if (rejects) throw new AssertionError('expect(received).rejects.' + name + '()\n\nReceived promise resolved instead of rejected: ' + inspect(value));
+          return buildMatchers(value, negated)[name](...args);
+        },
+        (error) => {
+          if (!rejects) throw new AssertionError('expect(received).resolves.' + name + '()\n\nReceived promise rejected instead of resolved: ' + inspect(error));
+          const received = name === 'toThrow' || name === 'toThrowError' ? () => { throw error; } : error;
+          return buildMatchers(received, negated)[name](...args);
+        }
+      );
+  }
+  return result;
+}
+
+function expect(received) {
+  const matchers = buildMatchers(received, false);
+  matchers.not = buildMatchers(received, true);
+  matchers.resolves = promiseMatchers(received, false, false);
+  matchers.rejects = promiseMatchers(received, true, false);
+  matchers.resolves.not = promiseMatchers(received, false, true);
+  matchers.rejects.not = promiseMatchers(received, true, true);
+  return matchers;
+}
+Object.assign(expect, asymmetric);
+
+// ---------------------------------------------------------------------------
+// Mock functions
+// ---------------------------------------------------------------------------
+
+function fn(implementation) {
+  let defaultImplementation = implementation;
+  let onceImplementations = [];
+  const mock = function (...args) {
+    mock.mock.calls.push(args);
+    const impl = onceImplementations.length > 0 ? onceImplementations.shift() : defaultImplementation;
+    try {
+      const value = impl ? impl.apply(this, args) : undefined;
+      mock.mock.results.push({ type: 'return', value });
+      return value;
+    } catch (error) {
+      mock.mock.results.push({ type: 'throw', value: error });
+      throw error;
+    }
+  };
+  mock.mock = { calls: [], results: [] };
+  mock.mockImplementation = (next) => { defaultImplementation = next; return mock; };
+  mock.mockImplementationOnce = (next) => { onceImplementations.push(next); return mock; };
+  mock.mockReturnValue = (value) => mock.mockImplementation(() => value);
+  mock.mockReturnValueOnce = (value) => mock.mockImplementationOnce(() => value);
+  mock.mockResolvedValue = (value) => mock.mockImplementation(() => Promise.resolve(value));
+  mock.mockResolvedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.resolve(value));
+  mock.mockRejectedValue = (value) => mock.mockImplementation(() => Promise.reject(value));
+  mock.mockRejectedValueOnce = (value) => mock.mockImplementationOnce(() => Promise.reject(value));
+  mock.mockClear = () => { mock.mock.calls = []; mock.mock.results = []; return mock; };
+  mock.mockReset = () => { mock.mockClear(); defaultImplementation = undefined; onceImplementations = []; return mock; };
+  return mock;
+}
+
+const spies = [];
+
+function spyOn(object, method) {
+  const original = object[method];
+  const spy = fn(function (...args) { return original.apply(this, args); });
+  spy.mockRestore = () => { object[method] = original; };
+  object[method] = spy;
+  spies.push(spy);
+  return spy;
+}
+
+function unsupported(name) {
+  return () => { throw new Error(name + ' is not supported in the test sandbox'); };
+}
+
+const mockApi = {
+  fn,
+  spyOn,
+  restoreAllMocks: () => { spies.splice(0).forEach((spy) => spy.mockRestore()); },
+  clearAllMocks: () => {},
+  resetAllMocks: () => {},
+  mock: unsupported('Module mocking'),
+  doMock: unsupported('Module mocking'),
+  useFakeTimers: unsupported('Fake timers'),
+  stubGlobal: unsupported('Stubbing globals'),
+};
+
+// ---------------------------------------------------------------------------
+// Test collection and running
+// ---------------------------------------------------------------------------
+
+function createSuite(name, parent, mode) {
+  return { name, parent, mode, children: [], beforeAll: [], afterAll: [], beforeEach: [], afterEach: [] };
+}
+
+function createTestApi(state) {
+  function addTest(mode) {
+    return (name, testFn, timeout) => {
+      state.current.children.push({ type: 'test', name: String(name), fn: testFn, timeout, mode, suite: state.current });
+    };
+  }
+  function addSuite(mode) {
+    return (name, body) => {
+      const suite = createSuite(String(name), state.current, mode === 'skip' || state.current.mode === 'skip' ? 'skip' : 'run');
+      state.current.children.push({ type: 'suite', suite });
+      const previous = state.current;
+      state.current = suite;
+      try {
+        if (body) body();
+      } finally {
+        state.current = previous;
+      }
+    };
+  }
+  function withVariants(add) {
+    const base = add('run');
+    base.skip = add('skip');
+    base.only = add('run');
+    base.todo = (name) => add('skip')(name);
+    base.each = (table) => (name, body, timeout) => {
+      table.forEach((row) => {
+        const args = Array.isArray(row) ? row : [row];
+        base(util.format(name, ...args), () => body(...args), timeout);
+      });
+    };
+    return base;
+  }
+
+  const it = withVariants(addTest);
+  const describe = withVariants(addSuite);
+  const hook = (kind) => (hookFn) => { state.current[kind].push(hookFn); };
+  return {
+    describe,
+    it,
+    test: it,
+    expect,
+    beforeAll: hook('beforeAll'),
+    afterAll: hook('afterAll'),
+    beforeEach: hook('beforeEach'),
+    afterEach: hook('afterEach'),
+    vi: mockApi,
+    jest: mockApi,
+  };
+}
+
+function withTimeout(context, body, timeoutMs, label) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(label + ' timed out after ' + timeoutMs + 'ms')), timeoutMs);
+    const done = (error) => {
+      clearTimeout(timer);
+      if (error) reject(error);
+      else resolve();
+    };
+    try {
+      // Run the synchronous part through vm so a busy loop is interrupted by the timeout too
+      context.__sandboxCall = () => (body.length > 0 ? new Promise((res, rej) => body((error) => (error ? rej(error) : res()))) : body());
+      const result = new vm.Script('__sandboxCall()').runInContext(context, { timeout: timeoutMs });
+      Promise.resolve(result).then(() => done(), done);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
+
+function fullName(test) {
+  const names = [test.name];
+  for (let suite = test.suite; suite && suite.parent; suite = suite.parent) names.unshift(suite.name);
+  return names.join(' > ');
+}
+
+function describeError(error) {
+  if (error && typeof error === 'object' && 'message' in error) {
+    return { message: String(error.name && error.name !== 'Error' && error.name !== 'AssertionError' ? error.name + ': ' + error.message : error.message), stack: error.stack ? String(error.stack) : undefined };
+  }
+  return { message: 'Thrown: ' + inspect(error) };
+}
+
+async function runSuite(suite, context, timeoutMs, cases, inheritedError) {
+  let setupError = inheritedError;
+  if (!setupError && suite.mode !== 'skip') {
+    for (const hookFn of suite.beforeAll) {
+      try {
+        await withTimeout(context, hookFn, timeoutMs, 'beforeAll hook');
+      } catch (error) {
+        setupError = error;
+        break;
+      }
+    }
+  }
+
+  for (const child of suite.children) {
+    if (child.type === 'suite') {
+      await runSuite(child.suite, context, timeoutMs, cases, setupError);
+      continue;
+    }
+
+    const name = fullName(child);
+    if (suite.mode === 'skip' || child.mode === 'skip' || !child.fn) {
+      cases.push({ name, passed: true, skipped: true, durationMs: 0 });
+      continue;
+    }
+    if (setupError) {
+      cases.push(Object.assign({ name, passed: false, durationMs: 0 }, describeError(setupError)));
+      continue;
+    }
+
+    const started = Date.now();
+    const limit = typeof child.timeout === 'number' ? child.timeout : timeoutMs;
+    const chain = [];
+    for (let s = suite; s; s = s.parent) chain.unshift(s);
+    let failure = null;
+    try {
+      for (const s of chain) for (const hookFn of s.beforeEach) await withTimeout(context, hookFn, limit, 'beforeEach hook');
+      await withTimeout(context, child.fn, limit, 'Test');
+    } catch (error) {
+      failure = error;
+    }
+    for (const s of chain.slice().reverse()) {
+      for (const hookFn of s.afterEach) {
+        try {
+          await withTimeout(context, hookFn, limit, 'afterEach hook');
+        } catch (error) {
+          failure = failure || error;
+        }
+      }
+    }
+    cases.push(Object.assign({ name, passed: failure === null, durationMs: Date.now() - started }, failure === null ? {} : describeError(failure)));
+  }
+
+  if (!inheritedError && suite.mode !== 'skip') {
+    for (const hookFn of suite.afterAll) {
+      try {
+        await withTimeout(context, hookFn, timeoutMs, 'afterAll hook');
+      } catch (error) {
+        cases.push(Object.assign({ name: (suite.parent ? suite.name + ' > ' : '') + 'afterAll', passed: false, durationMs: 0 }, describeError(error)));
+      }
+    }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Module loading
+// ---------------------------------------------------------------------------
+
+const EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '/index.ts', '/index.tsx', '/index.js'];
+
+function createContext(logs) {
+  const record = (level) => (...args) => {
+    if (logs.length < MAX_LOG_LINES) logs.push((level === 'log' ? '' : '[' + level + '] ') + util.format(...args));
+  };
+  const sandboxConsole = { log: record('log'), info: record('info'), debug: record('debug'), warn: record('warn'), error: record('error'), trace: record('trace') };
+  const sandboxProcess = Object.freeze({ env: Object.freeze({ NODE_ENV: 'test' }), platform: process.platform, version: process.version, nextTick: (callback, ...args) => queueMicrotask(() => callback(...args)) });
+
+  return vm.createContext(
+    {
+      console: sandboxConsole,
+      process: sandboxProcess,
+      setTimeout, clearTimeout, setInterval, clearInterval, setImmediate, clearImmediate, queueMicrotask, structuredClone,
+      TextEncoder, TextDecoder, URL, URLSearchParams, AbortController, AbortSignal, Buffer,
+    },
+    { codeGeneration: { strings: false, wasm: false } }
+  );
+}
+
+function createLoader(modules, context, testApi, timeoutMs) {
+  const cache = new Map();
+  const paths = Object.keys(modules);
+
+  function resolve(fromPath, specifier) {
+    const base = path.posix.normalize(path.posix.join(path.posix.dirname(fromPath), specifier)).replace(/^\/+/, '');
+    const stem = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+    for (const candidate of [base, stem]) {
+      for (const extension of EXTENSIONS) {
+        if (modules[candidate + extension] !== undefined) return candidate + extension;
+      }
+    }
+    // Generated tests often guess the implementation's directory; fall back to a unique file with the same name
+    const name = path.posix.basename(stem);
+    const matches = paths.filter((candidate) => path.posix.basename(candidate).replace(/\.[^.]+$/, '') === name);
+    return matches.length === 1 ? matches[0] : null;
+  }
+
+  function load(modulePath) {
+    if (cache.has(modulePath)) return cache.get(modulePath).exports;
+    const source = modules[modulePath];
+    if (source.error) throw new SyntaxError(modulePath + ': ' + source.error);
+
+    const module = { exports: {} };
+    cache.set(modulePath, module);
+    const wrapper = new vm.Script('(function (exports, require, module, __filename, __dirname) {' + source.code + '\n})', { filename: modulePath });
+    const compiled = wrapper.runInContext(context);
+    context.__sandboxInit = () => compiled(module.exports, (specifier) => requireFrom(modulePath, specifier), module, modulePath, path.posix.dirname(modulePath));
+    new vm.Script('__sandboxInit()').runInContext(context, { timeout: timeoutMs });
+    return module.exports;
+  }
+
+  function requireFrom(fromPath, specifier) {
+    if (specifier === 'vitest' || specifier === '@jest/globals') return testApi;
+    const builtin = specifier.replace(/^node:/, '');
+    if (ALLOWED_BUILTINS.includes(builtin)) return require(builtin);
+    if (specifier.startsWith('.') || specifier.startsWith('/')) {
+      const resolved = resolve(fromPath, specifier);
+      if (resolved) return load(resolved);
+      throw new Error("Cannot find module '" + specifier + "' from '" + fromPath + "'");
+    }
+    throw new Error("Module '" + specifier + "' is not available in the test sandbox (only relative imports, vitest and the node modules " + ALLOWED_BUILTINS.join(', ') + ' can be used)');
+  }
+
+  return load;
+}
+
+// ---------------------------------------------------------------------------
+// Entry point
+// ---------------------------------------------------------------------------
+
+function emit(result) {
+  process.stdout.write(RESULT_MARKER + JSON.stringify(result) + '\n');
+}
+
+async function runTestFile(manifest, test) {
+  const logs = [];
+  const cases = [];
+  const started = Date.now();
+  const state = { current: createSuite('', null, 'run') };
+  const testApi = createTestApi(state);
+  const context = createContext(logs);
+  Object.assign(context, testApi);
+
+  let loadError = null;
+  try {
+    createLoader(manifest.modules, context, testApi, manifest.testTimeoutMs)(test.path);
+  } catch (error) {
+    loadError = error;
+  }
+
+  if (!loadError) await runSuite(state.current, context, manifest.testTimeoutMs, cases, null);
+  mockApi.restoreAllMocks();
+
+  const failed = cases.filter((c) => !c.passed);
+  const result = { id: test.id, passed: !loadError && failed.length === 0 && cases.some((c) => !c.skipped), durationMs: Date.now() - started, cases, logs };
+  if (loadError) {
+    const error = describeError(loadError);
+    result.errorMessage = error.message;
+    result.stackTrace = error.stack;
+  } else if (failed.length > 0) {
+    result.errorMessage = failed.map((c) => c.name + ': ' + c.message).join('\n\n');
+    result.stackTrace = failed.map((c) => c.stack).filter(Boolean).join('\n\n') || undefined;
+  } else if (!result.passed) {
+    result.errorMessage = 'No tests found in ' + test.path;
+  }
+  emit(result);
+}
+
+let input = '';
+process.stdin.setEncoding('utf8');
+process.stdin.on('data', (chunk) => { input += chunk; });
+process.stdin.on('end', async () => {
+  const manifest = JSON.parse(input);
+  for (const test of manifest.tests) {
+    await runTestFile(manifest, test);
+  }
+  // Timers left running by the tests must not keep the process alive
+  process.stdout.write('', () => process.exit(0));
+});
+process.on('unhandledRejection', () => {});
+`;
@@ -0,0 +1,222 @@
+/**
+ * Usage Ledger
+ * Append-only record of every model call and metered action per user, with month-to-date
+ * aggregates and subscription tier assignments used to enforce plan limits server-side
+ */
+
+import { randomUUID } from 'crypto';
+import { createReadStream, existsSync, readFileSync } from 'fs';
+import { appendFile, mkdir, rename, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { createInterface } from 'readline';
+import { env } from '../config/environment.js';
+import { logger } from '../utils/logger.js';
+import { currentUsagePeriod } from './apiKeyStore.js';
+import {
+  TIER_LIMITS,
+  USAGE_FEATURES,
+  DEFAULT_TIER,
+  type SubscriptionTier,
+  type UsageFeature,
+  type UsageLimit,
+} from '../config/subscriptionTiers.js';
+
+export type UsageProvider = 'gemini' | 'lmstudio' | 'ollama' | 'none';
+
+export interface UsageLedgerEntry {
+  id: string;
+  timestamp: string;
+  userId: string;
+  /** Metered feature the call counts against, or null for unmetered calls (chat, image analysis, ...) */
+  feature: UsageFeature | null;
+  route: string;
+  provider: UsageProvider;
+  model: string | null;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export type NewUsageEntry = Omit<UsageLedgerEntry, 'id' | 'timestamp'>;
+
+export interface UsageSummary {
+  userId: string;
+  period: string;
+  tier: SubscriptionTier;
+  limits: Record<UsageFeature, UsageLimit>;
+  /** Runs per metered feature this month */
+  usage: Record<UsageFeature, number>;
+  tokens: {
+    total: number;
+    /** Keyed by feature, with unmetered calls under "other" */
+    byFeature: Record<string, number>;
+    byModel: Record<string, number>;
+  };
+}
+
+interface MonthlyUsage {
+  runs: Record<UsageFeature, number>;
+  tokensByFeature: Record<string, number>;
+  tokensByModel: Record<string, number>;
+  totalTokens: number;
+}
+
+function emptyMonthlyUsage(): MonthlyUsage {
+  return {
+    runs: Object.fromEntries(USAGE_FEATURES.map((feature) => [feature, 0])) as Record<UsageFeature, number>,
+    tokensByFeature: {},
+    tokensByModel: {},
+    totalTokens: 0,
+  };
+}
+
+function addToMonthlyUsage(usage: MonthlyUsage, entry: UsageLedgerEntry): void {
+  if (entry.feature) {
+    usage.runs[entry.feature]++;
+  }
+
+  const featureKey = entry.feature ?? 'other';
+  usage.tokensByFeature[featureKey] = (usage.tokensByFeature[featureKey] ?? 0) + entry.totalTokens;
+  if (entry.model) {
+    usage.tokensByModel[entry.model] = (usage.tokensByModel[entry.model] ?? 0) + entry.totalTokens;
+  }
+  usage.totalTokens += entry.totalTokens;
+}
+
+export class UsageLedger {
+  private period: string | null = null;
+  private monthly = new Map<string, MonthlyUsage>();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private tiers: Map<string, SubscriptionTier> | null = null;
+  private readonly tiersPath: string;
+
+  constructor(private readonly ledgerPath: string) {
+    this.tiersPath = join(dirname(ledgerPath), 'tiers.json');
+  }
+
+  /**
+   * Append an entry and count it towards this month's totals
+   */
+  async record(entry: NewUsageEntry): Promise<UsageLedgerEntry> {
+    await this.ensureCurrentPeriod();
+
+    const stored: UsageLedgerEntry = {
+      id: randomUUID(),
+      timestamp: new Date().toISOString(),
+      ...entry,
+    };
+
+    addToMonthlyUsage(this.getMonthly(stored.userId), stored);
+
+    const write = this.writeQueue.then(async () => {
+      await mkdir(dirname(this.ledgerPath), { recursive: true });
+      await appendFile(this.ledgerPath, JSON.stringify(stored) + '\n', 'utf8');
+    });
+    this.writeQueue = write.catch(() => undefined);
+    await write;
+
+    return stored;
+  }
+
+  /**
+   * Month-to-date consumption for a user
+   */
+  async getSummary(userId: string): Promise<UsageSummary> {
+    await this.ensureCurrentPeriod();
+
+    const monthly = this.getMonthly(userId);
+    const tier = this.getTier(userId);
+
+    return {
+      userId,
+      period: this.period!,
+      tier,
+      limits: TIER_LIMITS[tier],
+      usage: { ...monthly.runs },
+      tokens: {
+        total: monthly.totalTokens,
+        byFeature: { ...monthly.tokensByFeature },
+        byModel: { ...monthly.tokensByModel },
+      },
+    };
+  }
+
+  getTier(userId: string): SubscriptionTier {
+    return this.loadTiers().get(userId) ?? DEFAULT_TIER;
+  }
+
+  async setTier(userId: string, tier: SubscriptionTier): Promise<void> {
+    const tiers = this.loadTiers();
+    tiers.set(userId, tier);
+
+    const snapshot = JSON.stringify(Object.fromEntries(tiers), null, 2);
+    const tempPath = `${this.tiersPath}.tmp`;
+    await mkdir(dirname(this.tiersPath), { recursive: true });
+    await writeFile(tempPath, snapshot, 'utf8');
+    await rename(tempPath, this.tiersPath);
+
+    logger.info('Subscription tier updated', { userId, tier });
+  }
+
+  private getMonthly(userId: string): MonthlyUsage {
+    let usage = this.monthly.get(userId);
+    if (!usage) {
+      usage = emptyMonthlyUsage();
+      this.monthly.set(userId, usage);
+    }
+    return usage;
+  }
+
+  private loadTiers(): Map<string, SubscriptionTier> {
+    if (!this.tiers) {
+      this.tiers = existsSync(this.tiersPath)
+        ? new Map(Object.entries(JSON.parse(readFileSync(this.tiersPath, 'utf8')) as Record<string, SubscriptionTier>))
+        : new Map();
+    }
+    return this.tiers;
+  }
+
+  /**
+   * Build this month's aggregates from the ledger on first use, and start fresh when the month rolls over
+   */
+  private async ensureCurrentPeriod(): Promise<void> {
+    const period = currentUsagePeriod();
+
+    if (this.period === null) {
+      this.loading ??= this.loadPeriod(period);
+      await this.loading;
+      return;
+    }
+
+    if (this.period !== period) {
+      this.period = period;
+      this.monthly.clear();
+    }
+  }
+
+  private async loadPeriod(period: string): Promise<void> {
+    if (existsSync(this.ledgerPath)) {
+      const lines = createInterface({
+        input: createReadStream(this.ledgerPath, { encoding: 'utf8' }),
+        crlfDelay: Infinity,
+      });
+
+      for await (const line of lines) {
+        if (!line.trim()) continue;
+        try {
+          const entry = JSON.parse(line) as UsageLedgerEntry;
+          if (entry.timestamp.startsWith(period)) {
+            addToMonthlyUsage(this.getMonthly(entry.userId), entry);
+          }
+        } catch {
+          logger.warn('Skipping malformed usage ledger line', { ledgerPath: this.ledgerPath });
+        }
+      }
+    }
+
+    this.period = period;
+  }
+}
+
+export const usageLedger = new UsageLedger(env.USAGE_LEDGER_PATH);
@@ -0,0 +1,55 @@
+/**
+ * Concurrency Helper Tests
+ * Tests for ordering, the in-flight cap and cancellation
+ */
+
+import { mapWithConcurrency } from '../concurrency.js';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('mapWithConcurrency', () => {
+  it('should keep input order regardless of completion order', async () => {
+    const delays = [30, 5, 15, 0];
+
+    const results = await mapWithConcurrency(delays, 2, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return `${index}:${delay}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:5', '2:15', '3:0']);
+  });
+
+  it('should never run more than the limit at once', async () => {
+    let inFlight = 0;
+    let peak = 0;
+
+    await mapWithConcurrency(Array.from({ length: 10 }), 3, async () => {
+      inFlight++;
+      peak = Math.max(peak, inFlight);
+      await tick();
+      inFlight--;
+    });
+
+    expect(peak).toBe(3);
+  });
+
+  it('should skip items that have not started once aborted', async () => {
+    const controller = new AbortController();
+
+    const results = await mapWithConcurrency(
+      [1, 2, 3, 4],
+      1,
+      async (value) => {
+        if (value === 2) controller.abort();
+        return value * 10;
+      },
+      { signal: controller.signal, onSkipped: () => -1 }
+    );
+
+    expect(results).toEqual([10, 20, -1, -1]);
+  });
+
+  it('should handle an empty list', async () => {
+    await expect(mapWithConcurrency([], 4, async () => 1)).resolves.toEqual([]);
+  });
+});
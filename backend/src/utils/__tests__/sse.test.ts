@@ -0,0 +1,85 @@
+/**
+ * SSE Helper Tests
+ * Tests for event framing and client-disconnect handling
+ */
+
+import { EventEmitter } from 'events';
+import type { Response } from 'express';
+import { formatSseEvent, openEventStream } from '../sse.js';
+
+function createMockResponse() {
+  const emitter = new EventEmitter();
+  const res = Object.assign(emitter, {
+    writes: [] as string[],
+    headers: {} as Record<string, string>,
+    writableEnded: false,
+    writableFinished: false,
+    status: jest.fn().mockReturnThis(),
+    setHeader: jest.fn((name: string, value: string) => {
+      res.headers[name] = value;
+    }),
+    flushHeaders: jest.fn(),
+    write: jest.fn((chunk: string) => {
+      res.writes.push(chunk);
+      return true;
+    }),
+    end: jest.fn(() => {
+      res.writableEnded = true;
+      res.writableFinished = true;
+      emitter.emit('close');
+    }),
+  });
+  return res;
+}
+
+describe('SSE Helper', () => {
+  describe('formatSseEvent', () => {
+    it('should frame an event with a JSON payload', () => {
+      expect(formatSseEvent('chunk', { text: 'Hi' })).toBe('event: chunk\ndata: {"text":"Hi"}\n\n');
+    });
+
+    it('should keep multi-line text on a single data line', () => {
+      const frame = formatSseEvent('chunk', { text: 'a\nb' });
+
+      expect(frame.split('\n').filter((l) => l.startsWith('data:'))).toHaveLength(1);
+    });
+  });
+
+  describe('openEventStream', () => {
+    it('should set event-stream headers and flush them', () => {
+      const res = createMockResponse();
+
+      openEventStream(res as unknown as Response);
+
+      expect(res.headers['Content-Type']).toBe('text/event-stream');
+      expect(res.headers['Cache-Control']).toContain('no-cache');
+      expect(res.flushHeaders).toHaveBeenCalled();
+    });
+
+    it('should write events and end the response', () => {
+      const res = createMockResponse();
+      const stream = openEventStream(res as unknown as Response);
+
+      stream.send('chunk', { text: 'Hello' });
+      stream.send('done', { resultText: 'Hello' });
+      stream.end();
+
+      expect(res.writes).toEqual([
+        'event: chunk\ndata: {"text":"Hello"}\n\n',
+        'event: done\ndata: {"resultText":"Hello"}\n\n',
+      ]);
+      expect(stream.signal.aborted).toBe(false);
+    });
+
+    it('should abort and stop writing when the client disconnects', () => {
+      const res = createMockResponse();
+      const stream = openEventStream(res as unknown as Response);
+
+      res.emit('close');
+      stream.send('chunk', { text: 'late' });
+
+      expect(stream.signal.aborted).toBe(true);
+      expect(res.writes).toHaveLength(0);
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Concurrency Helper
+ * Runs async work over a list with a cap on how many items are in flight at once
+ */
+
+/**
+ * Map `items` through `fn`, running at most `limit` calls at a time. Results keep the input order.
+ * Once `signal` is aborted no further items are started; their slots hold the value from `onSkipped`.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+  options: { signal?: AbortSignal; onSkipped?: (item: T, index: number) => R } = {}
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      if (options.signal?.aborted && options.onSkipped) {
+        results[index] = options.onSkipped(items[index], index);
+        continue;
+      }
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker);
+  await Promise.all(workers);
+
+  return results;
+}
@@ -0,0 +1,56 @@
+/**
+ * Server-Sent Events Helper
+ * Opens an SSE response and tracks client disconnects so upstream model calls can be aborted
+ */
+
+import { Response } from 'express';
+
+export interface EventStream {
+  /** Send a named event with a JSON payload (no-op once the client has gone) */
+  send: (event: string, data: unknown) => void;
+  /** End the response */
+  end: () => void;
+  /** Aborted when the client disconnects */
+  signal: AbortSignal;
+}
+
+/**
+ * Format a single SSE frame
+ */
+export function formatSseEvent(event: string, data: unknown): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Switch the response into event-stream mode
+ */
+export function openEventStream(res: Response): EventStream {
+  const controller = new AbortController();
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // Disable proxy buffering (nginx, Cloud Run)
+  res.flushHeaders();
+
+  // `close` fires on the response both when we end it and when the client goes away
+  res.on('close', () => {
+    if (!res.writableFinished) {
+      controller.abort();
+    }
+  });
+
+  return {
+    send: (event, data) => {
+      if (controller.signal.aborted || res.writableEnded) return;
+      res.write(formatSseEvent(event, data));
+    },
+    end: () => {
+      if (!res.writableEnded) {
+        res.end();
+      }
+    },
+    signal: controller.signal,
+  };
+}
@@ -1,7 +1,6 @@
 // components/chat/Chat.tsx
-// SECURITY NOTE: This component previously used direct API key access which has been removed.
-// Chat streaming requires backend implementation. Currently disabled for security.
-// TODO: Implement /api/gemini/chat endpoint with streaming support in backend
+// Conversations run in a backend chat session (/api/gemini/chat/sessions), which holds the history and keeps it
+// within the model's context window. The transcript is also kept locally so it survives an expired session.
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import ChatMessage from './ChatMessage';
@@ -11,7 +10,8 @@ import { useTelemetry } from '../../context/TelemetryContext';
 import { audioService } from '../../services/audioService';
 import { executeCode } from '../../services/codeExecutor';
 import { parseApiError } from '../../utils/errorLogger';
-import { generateContent } from '../../services/geminiService';
+import { startChat } from '../../services/geminiService';
+import { deleteChatSession } from '../../services/backendApiService';
 
 interface Message {
   id: string;
@@ -21,6 +21,7 @@ interface Message {
 }
 
 const CHAT_HISTORY_STORAGE_KEY = 'gemini-chat-history';
+const CHAT_SESSION_STORAGE_KEY = 'gemini-chat-session-id';
 
 const loadMessages = (): Message[] => {
     try {
@@ -37,6 +38,7 @@ const loadMessages = (): Message[] => {
 
 const Chat: React.FC = () => {
   const [messages, setMessages] = useState<Message[]>(loadMessages);
+  const [sessionId, setSessionId] = useState<string | null>(() => localStorage.getItem(CHAT_SESSION_STORAGE_KEY));
   const [isLoading, setIsLoading] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { versionControlService } = useTelemetry();
@@ -49,6 +51,14 @@ const Chat: React.FC = () => {
     }
   }, [messages]);
 
+  useEffect(() => {
+    if (sessionId) {
+        localStorage.setItem(CHAT_SESSION_STORAGE_KEY, sessionId);
+    } else {
+        localStorage.removeItem(CHAT_SESSION_STORAGE_KEY);
+    }
+  }, [sessionId]);
+
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [messages]);
@@ -67,8 +77,12 @@ const Chat: React.FC = () => {
   const onClearHistory = useCallback(() => {
       setMessages([{ id: 'init', role: 'model', content: "History cleared. How can I help you?" }]);
       localStorage.removeItem(CHAT_HISTORY_STORAGE_KEY);
+      if (sessionId) {
+          deleteChatSession(sessionId).catch(e => console.warn("Failed to delete chat session:", e));
+          setSessionId(null);
+      }
       audioService.playSound('click');
-  }, []);
+  }, [sessionId]);
 
   const handleExecuteCode = useCallback(async (language: string, code: string) => {
     const executionId = Date.now().toString();
@@ -96,49 +110,45 @@ const Chat: React.FC = () => {
     setMessages(prev => [...prev, userMessage]);
     audioService.playSound('send');
 
-    // SECURITY: Use backend API proxy instead of direct API key access
-    // Build conversation context from message history
-    const conversationHistory = messages
-      .filter(m => m.role === 'user' || m.role === 'model')
-      .map(m => `${m.role}: ${m.content}`)
-      .join('\n\n');
-
-    const fullPrompt = conversationHistory
-      ? `${conversationHistory}\n\nuser: ${messageText}\n\nmodel:`
-      : messageText;
+    // Seeds a new session if there is none yet or the stored one has expired
+    const chat = startChat({
+      sessionId,
+      modelName: 'gemini-2.5-pro',
+      history: messages
+        .filter(m => m.role === 'user' || m.role === 'model')
+        .map(m => ({ role: m.role, parts: [{ text: m.content }] })),
+      config: { temperature: 0.7 },
+    });
+    const assistantMessageId = (Date.now() + 1).toString();
 
     try {
-      // Use backend proxy for AI chat (non-streaming for security)
-      const response = await generateContent(fullPrompt, {
-        model: 'gemini-2.5-pro',
-        temperature: 0.7,
+      const reply = await chat.sendMessage(messageText, (_chunk, accumulatedText) => {
+        setMessages(prev => prev.some(msg => msg.id === assistantMessageId)
+          ? prev.map(msg => msg.id === assistantMessageId ? { ...msg, content: accumulatedText } : msg)
+          : [...prev, { id: assistantMessageId, role: 'model', content: accumulatedText, isLoading: true }]);
       });
 
-      const assistantMessageId = (Date.now() + 1).toString();
-      const assistantMessage: Message = {
-        id: assistantMessageId,
-        role: 'model',
-        content: response,
-        isLoading: false
-      };
-
-      setMessages(prev => [...prev, assistantMessage]);
+      setMessages(prev => [
+        ...prev.filter(msg => msg.id !== assistantMessageId),
+        { id: assistantMessageId, role: 'model', content: reply.message.text, isLoading: false },
+      ]);
       audioService.playSound('receive');
 
     } catch (error) {
       console.error(error);
       const userFriendlyMessage = parseApiError(error);
       const errorMessage: Message = {
-        id: (Date.now() + 1).toString(),
+        id: (Date.now() + 2).toString(),
         role: 'error',
         content: userFriendlyMessage
       };
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(msg => msg.id !== assistantMessageId), errorMessage]);
       audioService.playSound('error');
     } finally {
+      setSessionId(chat.sessionId);
       setIsLoading(false);
     }
-  }, [messages]);
+  }, [messages, sessionId]);
 
   return (
     <div className="flex flex-col h-full bg-gray-800/30">
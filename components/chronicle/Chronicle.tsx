@@ -60,10 +60,11 @@ const Chronicle: React.FC = () => {
     const handleViewDiff = useCallback((version: VersionRecord) => {
         if (!versionControlService) return;
 
+        // Versions of other content may have been captured in between
         const versionIndex = versions.findIndex(v => v.versionId === version.versionId);
-        const previousVersion = versions[versionIndex + 1];
+        const previousVersion = versions.slice(versionIndex + 1).find(v => v.contentRef === version.contentRef);
 
-        if (previousVersion && previousVersion.contentRef === version.contentRef) {
+        if (previousVersion) {
             const newContent = versionControlService.getVersionContent(version.versionId);
             const oldContent = versionControlService.getVersionContent(previousVersion.versionId);
 
@@ -94,7 +95,7 @@ const Chronicle: React.FC = () => {
         if (!content) return <p className="text-gray-500 italic">Content not available for this version.</p>;
         
         // Pretty print if it's a shunt interaction (JSON)
-        if (version.contentType === 'shunt_interaction' || version.contentType === 'chat_export' || version.contentType === 'developer_canvas_snapshot') {
+        if (version.contentType === 'shunt_interaction' || version.contentType === 'chat_export' || version.contentType === 'developer_canvas_snapshot' || version.contentType === 'evolve_pipeline_run') {
             try {
                 const parsed = JSON.parse(content);
                 return <pre className="text-sm text-gray-300 whitespace-pre-wrap break-all font-mono">{JSON.stringify(parsed, null, 2)}</pre>;
@@ -0,0 +1,11 @@
+// components/developers/CanvasRunContext.ts
+import { createContext, useContext } from 'react';
+import { CanvasNodeResult } from '../../types';
+
+/**
+ * Results of the latest canvas run by node id, for the nodes to show their status. Kept out of node data so
+ * that run results never end up in snapshots.
+ */
+export const CanvasRunContext = createContext<Record<string, CanvasNodeResult>>({});
+
+export const useCanvasNodeResult = (nodeId: string): CanvasNodeResult | undefined => useContext(CanvasRunContext)[nodeId];
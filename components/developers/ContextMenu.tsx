@@ -0,0 +1,77 @@
+// components/developers/ContextMenu.tsx
+import React, { useEffect, useRef } from 'react';
+import { CanvasNodeKind } from '../../types';
+import { NODE_KIND_LABELS } from './Toolbar';
+
+export type ContextMenuTarget =
+    | { type: 'node'; nodeId: string }
+    | { type: 'pane'; flowPosition: { x: number; y: number } };
+
+interface ContextMenuProps {
+    /** Screen position of the menu */
+    x: number;
+    y: number;
+    target: ContextMenuTarget;
+    onAddNode: (kind: CanvasNodeKind, position: { x: number; y: number }) => void;
+    onDuplicateNode: (nodeId: string) => void;
+    onDisconnectNode: (nodeId: string) => void;
+    onDeleteNode: (nodeId: string) => void;
+    onClose: () => void;
+}
+
+const itemClass = 'w-full text-left px-3 py-1.5 text-sm text-gray-200 hover:bg-gray-700';
+
+/**
+ * Right-click menu of the canvas: node actions on a node, "add node here" on the empty canvas
+ */
+const ContextMenu: React.FC<ContextMenuProps> = ({ x, y, target, onAddNode, onDuplicateNode, onDisconnectNode, onDeleteNode, onClose }) => {
+    const menuRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        const handlePointerDown = (event: MouseEvent) => {
+            if (menuRef.current && !menuRef.current.contains(event.target as Node)) onClose();
+        };
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') onClose();
+        };
+        document.addEventListener('mousedown', handlePointerDown);
+        document.addEventListener('keydown', handleKeyDown);
+        return () => {
+            document.removeEventListener('mousedown', handlePointerDown);
+            document.removeEventListener('keydown', handleKeyDown);
+        };
+    }, [onClose]);
+
+    const run = (action: () => void) => () => {
+        action();
+        onClose();
+    };
+
+    return (
+        <div
+            ref={menuRef}
+            role="menu"
+            style={{ top: y, left: x }}
+            className="fixed z-50 min-w-[180px] py-1 bg-gray-800 border border-gray-600 rounded-md shadow-xl"
+        >
+            {target.type === 'node' ? (
+                <>
+                    <button role="menuitem" className={itemClass} onClick={run(() => onDuplicateNode(target.nodeId))}>Duplicate</button>
+                    <button role="menuitem" className={itemClass} onClick={run(() => onDisconnectNode(target.nodeId))}>Remove connections</button>
+                    <button role="menuitem" className={`${itemClass} text-red-300`} onClick={run(() => onDeleteNode(target.nodeId))}>Delete</button>
+                </>
+            ) : (
+                <>
+                    <p className="px-3 py-1 text-xs text-gray-500">Add node here</p>
+                    {(Object.keys(NODE_KIND_LABELS) as CanvasNodeKind[]).map(kind => (
+                        <button key={kind} role="menuitem" className={itemClass} onClick={run(() => onAddNode(kind, target.flowPosition))}>
+                            {NODE_KIND_LABELS[kind]}
+                        </button>
+                    ))}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ContextMenu;
@@ -0,0 +1,329 @@
+// components/developers/Developers.tsx
+// Developers canvas: wire input, shunt action, tool call, condition and output nodes into a graph, run it and
+// inspect every node's input and output. Snapshots are saved to Chronicle, where they can be diffed visually.
+import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import ReactFlow, {
+    Background,
+    Controls,
+    MiniMap,
+    ReactFlowProvider,
+    useNodesState,
+    useEdgesState,
+    useReactFlow,
+    addEdge,
+    Connection,
+    Edge,
+    Node,
+    OnSelectionChangeParams,
+} from 'reactflow';
+import 'reactflow/dist/style.css';
+import { useTelemetry } from '../../context/TelemetryContext';
+import { CanvasNodeData, CanvasNodeKind, CanvasNodeResult, CanvasRun, CanvasSnapshot } from '../../types';
+import { VersionRecord } from '../../types/telemetry';
+import {
+    CANVAS_CONTENT_REF,
+    createCanvasNode,
+    toCanvasSnapshot,
+    parseCanvasSnapshot,
+    saveCanvasDraft,
+    loadCanvasDraft,
+    recordCanvasSnapshot,
+    loadLatestCanvasSnapshot,
+    runCanvasGraph,
+} from '../../services/developerCanvas.service';
+import { useDebounce } from '../../hooks/useDebounce';
+import { CodeIcon } from '../icons';
+import TabFooter from '../common/TabFooter';
+import Toolbar from './Toolbar';
+import ContextMenu, { ContextMenuTarget } from './ContextMenu';
+import NodeInspector from './NodeInspector';
+import { CanvasRunContext } from './CanvasRunContext';
+import { canvasNodeTypes } from './nodes';
+
+const MINIMAP_COLORS: Record<CanvasNodeKind, string> = {
+    input: '#60a5fa',
+    shunt: '#e879f9',
+    tool: '#c084fc',
+    condition: '#fbbf24',
+    output: '#4ade80',
+};
+
+/**
+ * Input → Summarize → Output, for a first visit
+ */
+const starterSnapshot = (): CanvasSnapshot => {
+    const input = createCanvasNode('input', { x: 0, y: 80 });
+    const shunt = createCanvasNode('shunt', { x: 300, y: 80 });
+    const output = createCanvasNode('output', { x: 600, y: 80 });
+    input.data = { kind: 'input', label: 'Input', value: 'Paste text to process here.' };
+    return {
+        nodes: [input, shunt, output],
+        edges: [
+            { id: `${input.id}-${shunt.id}`, source: input.id, target: shunt.id, sourceHandle: null },
+            { id: `${shunt.id}-${output.id}`, source: shunt.id, target: output.id, sourceHandle: null },
+        ],
+        viewport: { x: 80, y: 120, zoom: 1 },
+    };
+};
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'An unknown error occurred.';
+
+const DevelopersCanvas: React.FC = () => {
+    const { versionControlService, updateTelemetryContext } = useTelemetry();
+    const reactFlow = useReactFlow();
+    const wrapperRef = useRef<HTMLDivElement>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    const [initial] = useState<CanvasSnapshot>(() =>
+        loadCanvasDraft() ?? (versionControlService && loadLatestCanvasSnapshot(versionControlService)) ?? starterSnapshot()
+    );
+    const [nodes, setNodes, onNodesChange] = useNodesState<CanvasNodeData>(initial.nodes);
+    const [edges, setEdges, onEdgesChange] = useEdgesState(initial.edges);
+    const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+    const [results, setResults] = useState<Record<string, CanvasNodeResult>>({});
+    const [run, setRun] = useState<CanvasRun | null>(null);
+    const [runError, setRunError] = useState<string | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
+    const [snapshots, setSnapshots] = useState<VersionRecord[]>([]);
+    const [notice, setNotice] = useState<string | null>(null);
+    const [menu, setMenu] = useState<{ x: number; y: number; target: ContextMenuTarget } | null>(null);
+
+    useEffect(() => {
+        updateTelemetryContext({ tab: 'Developers' });
+    }, [updateTelemetryContext]);
+
+    const refreshSnapshots = useCallback(() => {
+        setSnapshots(versionControlService ? versionControlService.getVersions(CANVAS_CONTENT_REF) : []);
+    }, [versionControlService]);
+
+    useEffect(() => {
+        refreshSnapshots();
+    }, [refreshSnapshots]);
+
+    // Keep the work in progress across tab switches
+    const debouncedNodes = useDebounce(nodes, 500);
+    const debouncedEdges = useDebounce(edges, 500);
+    useEffect(() => {
+        saveCanvasDraft(toCanvasSnapshot(debouncedNodes, debouncedEdges, reactFlow.getViewport()));
+    }, [debouncedNodes, debouncedEdges, reactFlow]);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const onConnect = useCallback((connection: Connection) => {
+        setEdges(eds => addEdge(connection, eds));
+    }, [setEdges]);
+
+    const isValidConnection = useCallback((connection: Connection) => connection.source !== connection.target, []);
+
+    const onSelectionChange = useCallback(({ nodes: selected }: OnSelectionChangeParams) => {
+        setSelectedNodeId(selected.length === 1 ? selected[0].id : null);
+    }, []);
+
+    // Condition edges show which branch they carry; edges into a running node are animated
+    const displayEdges = useMemo(() => edges.map((edge): Edge => ({
+        ...edge,
+        label: edge.sourceHandle ?? undefined,
+        style: edge.sourceHandle ? { stroke: edge.sourceHandle === 'true' ? '#4ade80' : '#f87171' } : undefined,
+        animated: results[edge.target]?.status === 'running',
+    })), [edges, results]);
+
+    const addNode = useCallback((kind: CanvasNodeKind, position?: { x: number; y: number }) => {
+        let at = position;
+        if (!at) {
+            const bounds = wrapperRef.current?.getBoundingClientRect();
+            const center = reactFlow.screenToFlowPosition({
+                x: bounds ? bounds.left + bounds.width / 2 : window.innerWidth / 2,
+                y: bounds ? bounds.top + bounds.height / 2 : window.innerHeight / 2,
+            });
+            // Stagger nodes added one after another so they do not stack exactly
+            const offset = (nodes.length % 5) * 24;
+            at = { x: center.x - 112 + offset, y: center.y - 40 + offset };
+        }
+        setNodes(nds => [...nds, createCanvasNode(kind, at) as Node<CanvasNodeData>]);
+    }, [nodes.length, reactFlow, setNodes]);
+
+    const duplicateNode = useCallback((nodeId: string) => {
+        const original = nodes.find(node => node.id === nodeId);
+        if (!original) return;
+        const copy = createCanvasNode(original.data.kind, { x: original.position.x + 40, y: original.position.y + 40 });
+        setNodes(nds => [...nds, { ...copy, data: structuredClone(original.data) } as Node<CanvasNodeData>]);
+    }, [nodes, setNodes]);
+
+    const disconnectNode = useCallback((nodeId: string) => {
+        setEdges(eds => eds.filter(edge => edge.source !== nodeId && edge.target !== nodeId));
+    }, [setEdges]);
+
+    const deleteNode = useCallback((nodeId: string) => {
+        disconnectNode(nodeId);
+        setNodes(nds => nds.filter(node => node.id !== nodeId));
+        setSelectedNodeId(current => current === nodeId ? null : current);
+    }, [disconnectNode, setNodes]);
+
+    const updateNodeData = useCallback((nodeId: string, data: CanvasNodeData) => {
+        setNodes(nds => nds.map(node => node.id === nodeId ? { ...node, data } : node));
+    }, [setNodes]);
+
+    const loadSnapshot = useCallback((snapshot: CanvasSnapshot) => {
+        setNodes(snapshot.nodes as Node<CanvasNodeData>[]);
+        setEdges(snapshot.edges);
+        reactFlow.setViewport(snapshot.viewport);
+        setSelectedNodeId(null);
+        setResults({});
+        setRun(null);
+        setRunError(null);
+    }, [reactFlow, setEdges, setNodes]);
+
+    const handleRun = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setIsRunning(true);
+        setResults({});
+        setRun(null);
+        setRunError(null);
+        setNotice(null);
+        try {
+            const completed = await runCanvasGraph(nodes, edges, {
+                signal: controller.signal,
+                onNodeResult: result => setResults(prev => ({ ...prev, [result.nodeId]: result })),
+            });
+            setRun(completed);
+        } catch (error) {
+            setRunError(errorMessage(error));
+        } finally {
+            setIsRunning(false);
+            abortRef.current = null;
+        }
+    };
+
+    const handleSaveSnapshot = async () => {
+        if (!versionControlService) {
+            setNotice('Version control is not available, so the snapshot was not saved.');
+            return;
+        }
+        try {
+            const saved = await recordCanvasSnapshot(versionControlService, toCanvasSnapshot(nodes, edges, reactFlow.getViewport()));
+            setNotice(saved ? 'Snapshot saved to Chronicle.' : 'Nothing changed since the last snapshot.');
+            refreshSnapshots();
+        } catch (error) {
+            setNotice(`Could not save the snapshot: ${errorMessage(error)}`);
+        }
+    };
+
+    const handleRestoreSnapshot = (versionId: string) => {
+        const content = versionControlService?.revertToVersion(versionId);
+        if (!content) {
+            setNotice('That snapshot is no longer available.');
+            return;
+        }
+        try {
+            loadSnapshot(parseCanvasSnapshot(content));
+            setNotice('Snapshot restored. Save a new snapshot to keep it as the latest version.');
+        } catch (error) {
+            setNotice(errorMessage(error));
+        }
+    };
+
+    const handleClear = () => {
+        loadSnapshot({ nodes: [], edges: [], viewport: { x: 0, y: 0, zoom: 1 } });
+        setNotice(null);
+    };
+
+    const selectedNode = nodes.find(node => node.id === selectedNodeId) ?? null;
+
+    return (
+        <div className="flex flex-col h-full">
+            <div className="p-4 border-b border-gray-700/50 flex-shrink-0">
+                <div className="flex items-center gap-2">
+                    <CodeIcon className="w-6 h-6 text-fuchsia-400" />
+                    <h2 className="font-semibold text-lg text-gray-300">Developer Canvas</h2>
+                </div>
+                <p className="text-sm text-gray-400 mt-1">
+                    Wire shunt actions, tool calls and conditions into a graph, run it and inspect each node's output.
+                </p>
+            </div>
+            <Toolbar
+                onAddNode={addNode}
+                onRun={handleRun}
+                onCancel={() => abortRef.current?.abort()}
+                isRunning={isRunning}
+                onSaveSnapshot={handleSaveSnapshot}
+                snapshots={snapshots}
+                onRestoreSnapshot={handleRestoreSnapshot}
+                onClear={handleClear}
+            />
+            {notice && (
+                <div className="px-4 py-2 text-sm text-gray-300 bg-gray-800/60 border-b border-gray-700/50 flex justify-between">
+                    <span>{notice}</span>
+                    <button onClick={() => setNotice(null)} className="text-gray-500 hover:text-gray-300">Dismiss</button>
+                </div>
+            )}
+            <div className="flex-grow flex overflow-hidden">
+                <div ref={wrapperRef} className="flex-grow relative bg-gray-900/30">
+                    <CanvasRunContext.Provider value={results}>
+                        <ReactFlow
+                            nodes={nodes}
+                            edges={displayEdges}
+                            nodeTypes={canvasNodeTypes}
+                            onNodesChange={onNodesChange}
+                            onEdgesChange={onEdgesChange}
+                            onConnect={onConnect}
+                            isValidConnection={isValidConnection}
+                            onSelectionChange={onSelectionChange}
+                            onNodeContextMenu={(event, node) => {
+                                event.preventDefault();
+                                setMenu({ x: event.clientX, y: event.clientY, target: { type: 'node', nodeId: node.id } });
+                            }}
+                            onPaneContextMenu={(event) => {
+                                event.preventDefault();
+                                setMenu({
+                                    x: event.clientX,
+                                    y: event.clientY,
+                                    target: { type: 'pane', flowPosition: reactFlow.screenToFlowPosition({ x: event.clientX, y: event.clientY }) },
+                                });
+                            }}
+                            defaultViewport={initial.viewport}
+                            nodesDraggable={!isRunning}
+                            nodesConnectable={!isRunning}
+                            className="bg-transparent"
+                        >
+                            <Background gap={24} color="#4a5568" />
+                            <Controls />
+                            <MiniMap nodeColor={node => MINIMAP_COLORS[(node.data as CanvasNodeData).kind] ?? '#9ca3af'} pannable zoomable />
+                        </ReactFlow>
+                    </CanvasRunContext.Provider>
+                </div>
+                <aside className="w-80 flex-shrink-0 border-l border-gray-700/50 overflow-y-auto bg-gray-800/40">
+                    <NodeInspector
+                        node={selectedNode}
+                        result={selectedNode ? results[selectedNode.id] : undefined}
+                        run={run}
+                        runError={runError}
+                        onChange={updateNodeData}
+                        disabled={isRunning}
+                    />
+                </aside>
+            </div>
+            <TabFooter />
+            {menu && (
+                <ContextMenu
+                    x={menu.x}
+                    y={menu.y}
+                    target={menu.target}
+                    onAddNode={addNode}
+                    onDuplicateNode={duplicateNode}
+                    onDisconnectNode={disconnectNode}
+                    onDeleteNode={deleteNode}
+                    onClose={() => setMenu(null)}
+                />
+            )}
+        </div>
+    );
+};
+
+const Developers: React.FC = () => (
+    <ReactFlowProvider>
+        <DevelopersCanvas />
+    </ReactFlowProvider>
+);
+
+export default Developers;
@@ -2,10 +2,7 @@
 import React, { useMemo } from 'react';
 import ReactFlow, { Background, Controls, MiniMap, ReactFlowProvider, Node as ReactFlowNode, Edge as ReactFlowEdge } from 'reactflow';
 import { XMarkIcon } from '../icons';
-import AudioSourceNode from './nodes/AudioSourceNode';
-import UIEventNode from './nodes/UIEventNode';
-import AudioOutputNode from './nodes/AudioOutputNode';
-import RhythmClickNode from './nodes/RhythmClickNode';
+import { allCanvasNodeTypes } from './nodes';
 
 // Props for the modal
 interface DiffViewerProps {
@@ -55,8 +52,18 @@ const calculateDiffs = (oldState: GraphState, newState: GraphState) => {
         }
     }
 
-    // For simplicity, we just show the edges from the new state. A full edge diff is more complex.
-    const edges = newState.edges; 
+    // Edges are compared by their endpoints and handle, so re-creating a connection does not count as a change
+    const edgeKey = (edge: ReactFlowEdge) => `${edge.source}:${edge.sourceHandle ?? ''}->${edge.target}`;
+    const oldEdgeKeys = new Set(oldState.edges.map(edgeKey));
+    const newEdgeKeys = new Set(newState.edges.map(edgeKey));
+    const edges: ReactFlowEdge[] = [
+        ...newState.edges.map(edge => oldEdgeKeys.has(edgeKey(edge))
+            ? edge
+            : { ...edge, style: { stroke: '#4ade80', strokeWidth: 2 } }),
+        ...oldState.edges
+            .filter(edge => !newEdgeKeys.has(edgeKey(edge)))
+            .map(edge => ({ ...edge, id: `removed-${edge.id}`, style: { stroke: '#f87171', strokeWidth: 2, strokeDasharray: '6 4' } })),
+    ];
 
     return { nodes: combinedNodes, edges };
 };
@@ -71,13 +78,6 @@ const LegendItem: React.FC<{ colorClass: string; label: string }> = ({ colorClas
 
 const DiffViewerContent: React.FC<Omit<DiffViewerProps, 'isOpen'>> = ({ onClose, oldContent, newContent }) => {
     
-    const nodeTypes = useMemo(() => ({ 
-        audioSource: AudioSourceNode,
-        uiEvent: UIEventNode,
-        audioOutput: AudioOutputNode,
-        rhythmClick: RhythmClickNode,
-    }), []);
-
     const { nodes, edges } = useMemo(() => {
         try {
             const oldState: GraphState = JSON.parse(oldContent);
@@ -106,7 +106,7 @@ const DiffViewerContent: React.FC<Omit<DiffViewerProps, 'isOpen'>> = ({ onClose,
                 <ReactFlow
                     nodes={nodes}
                     edges={edges}
-                    nodeTypes={nodeTypes}
+                    nodeTypes={allCanvasNodeTypes}
                     fitView
                     nodesDraggable={false}
                     nodesConnectable={false}
@@ -0,0 +1,177 @@
+// components/developers/NodeInspector.tsx
+import React from 'react';
+import { ShuntAction, CanvasGraphNode, CanvasNodeData, CanvasNodeResult, CanvasRun, EvolveCondition } from '../../types';
+import { EVOLVE_MODELS, DEFAULT_EVOLVE_CONDITIONS } from '../../services/evolvePipeline.service';
+import { toolRegistry } from '../../services/toolApi';
+import { NODE_KIND_LABELS } from './Toolbar';
+
+// Tool calls have their own node; Amplify x2 is a Shunt UI shortcut
+const CANVAS_SHUNT_ACTIONS = Object.values(ShuntAction).filter(
+    action => action !== ShuntAction.CALL_TOOL && action !== ShuntAction.AMPLIFY_X2
+);
+
+const fieldClass = 'w-full bg-gray-800 border border-gray-600 text-sm text-gray-200 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-fuchsia-500';
+
+interface NodeInspectorProps {
+    node: CanvasGraphNode | null;
+    result?: CanvasNodeResult;
+    run: CanvasRun | null;
+    runError: string | null;
+    onChange: (nodeId: string, data: CanvasNodeData) => void;
+    disabled: boolean;
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <label className="block">
+        <span className="block text-xs text-gray-400 mb-1">{label}</span>
+        {children}
+    </label>
+);
+
+const TextBlock: React.FC<{ label: string; text: string; tone?: string }> = ({ label, text, tone = 'text-gray-300' }) => (
+    <div>
+        <p className="text-xs text-gray-400 mb-1">{label}</p>
+        <pre className={`bg-gray-900/60 rounded p-2 max-h-48 overflow-y-auto text-xs font-mono whitespace-pre-wrap break-words ${tone}`}>
+            {text || <em className="text-gray-500">empty</em>}
+        </pre>
+    </div>
+);
+
+const ConditionEditor: React.FC<{ condition: EvolveCondition; onChange: (condition: EvolveCondition) => void; disabled: boolean }> = ({ condition, onChange, disabled }) => (
+    <div className="flex flex-wrap gap-2">
+        <select className={`${fieldClass} w-auto`} value={condition.kind} disabled={disabled} onChange={(e) => onChange(DEFAULT_EVOLVE_CONDITIONS[e.target.value as EvolveCondition['kind']])}>
+            <option value="contains">input contains</option>
+            <option value="length">input length</option>
+            <option value="score">grade score</option>
+        </select>
+        {condition.kind === 'length' && (
+            <select className={`${fieldClass} w-auto`} value={condition.operator} disabled={disabled} onChange={(e) => onChange({ ...condition, operator: e.target.value as 'gt' | 'lt' })}>
+                <option value="gt">&gt;</option>
+                <option value="lt">&lt;</option>
+            </select>
+        )}
+        {condition.kind === 'score' && (
+            <select className={`${fieldClass} w-auto`} value={condition.operator} disabled={disabled} onChange={(e) => onChange({ ...condition, operator: e.target.value as 'gte' | 'lt' })}>
+                <option value="gte">&ge;</option>
+                <option value="lt">&lt;</option>
+            </select>
+        )}
+        {condition.kind === 'contains' ? (
+            <input className={`${fieldClass} flex-1 min-w-0`} value={condition.value} disabled={disabled} onChange={(e) => onChange({ ...condition, value: e.target.value })} />
+        ) : (
+            <input
+                type="number"
+                className={`${fieldClass} w-24`}
+                value={condition.value}
+                min={condition.kind === 'score' ? -10 : 0}
+                max={condition.kind === 'score' ? 10 : undefined}
+                disabled={disabled}
+                onChange={(e) => onChange({ ...condition, value: Number(e.target.value) })}
+            />
+        )}
+    </div>
+);
+
+/**
+ * Settings of the selected node and what it received and produced in the latest run
+ */
+const NodeInspector: React.FC<NodeInspectorProps> = ({ node, result, run, runError, onChange, disabled }) => {
+    if (!node) {
+        return (
+            <div className="p-4 space-y-4 text-sm text-gray-400">
+                <p>Select a node to edit it and inspect its input and output. Right-click the canvas to add nodes.</p>
+                {runError && <TextBlock label="Run failed" text={runError} tone="text-red-300" />}
+                {run && (
+                    <div className="space-y-3">
+                        <p className="text-gray-300">
+                            Last run: <span className={run.status === 'success' ? 'text-green-400' : 'text-red-400'}>{run.status}</span>
+                            {' '}({new Date(run.finishedAt).getTime() - new Date(run.startedAt).getTime()} ms)
+                        </p>
+                        {run.outputs.length === 0 && <p>No output node received anything.</p>}
+                        {run.outputs.map(output => <TextBlock key={output.nodeId} label={output.label} text={output.output} />)}
+                    </div>
+                )}
+            </div>
+        );
+    }
+
+    const { data } = node;
+    const update = (patch: Partial<CanvasNodeData>) => onChange(node.id, { ...data, ...patch } as CanvasNodeData);
+
+    return (
+        <div className="p-4 space-y-4">
+            <div>
+                <p className="text-xs uppercase tracking-wider text-gray-500">{NODE_KIND_LABELS[data.kind]}</p>
+                <p className="text-xs text-gray-500 font-mono">{node.id}</p>
+            </div>
+            <Field label="Label">
+                <input className={fieldClass} value={data.label} disabled={disabled} onChange={(e) => update({ label: e.target.value })} />
+            </Field>
+
+            {data.kind === 'input' && (
+                <Field label="Text">
+                    <textarea className={`${fieldClass} h-32 font-mono`} value={data.value} disabled={disabled} onChange={(e) => update({ value: e.target.value })} />
+                </Field>
+            )}
+            {data.kind === 'shunt' && (
+                <>
+                    <Field label="Action">
+                        <select
+                            className={fieldClass}
+                            value={data.action}
+                            disabled={disabled}
+                            onChange={(e) => {
+                                const action = e.target.value as ShuntAction;
+                                // Keep the label in step with the action unless the user renamed the node
+                                update(data.label === data.action ? { action, label: action } : { action });
+                            }}
+                        >
+                            {CANVAS_SHUNT_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+                        </select>
+                    </Field>
+                    <Field label="Model">
+                        <select className={fieldClass} value={data.model} disabled={disabled} onChange={(e) => update({ model: e.target.value })}>
+                            {EVOLVE_MODELS.map(model => <option key={model.value} value={model.value}>{model.label}</option>)}
+                        </select>
+                    </Field>
+                </>
+            )}
+            {data.kind === 'tool' && (
+                <>
+                    <Field label="Tool">
+                        <select className={fieldClass} value={data.toolName} disabled={disabled} onChange={(e) => update({ toolName: e.target.value })}>
+                            {!toolRegistry.getTool(data.toolName) && <option value={data.toolName}>{data.toolName || 'Select a tool'}</option>}
+                            {toolRegistry.getToolNames().sort().map(name => <option key={name} value={name}>{name}</option>)}
+                        </select>
+                    </Field>
+                    <Field label="Arguments (JSON, {{input}} inside a string is replaced by the node's input)">
+                        <textarea className={`${fieldClass} h-24 font-mono`} value={data.args} disabled={disabled} onChange={(e) => update({ args: e.target.value })} />
+                    </Field>
+                </>
+            )}
+            {data.kind === 'condition' && (
+                <Field label="Pass the input through 'true' if">
+                    <ConditionEditor condition={data.condition} disabled={disabled} onChange={(condition) => update({ condition })} />
+                </Field>
+            )}
+
+            <div className="pt-2 border-t border-gray-700/50 space-y-3">
+                <p className="text-sm font-semibold text-gray-300">
+                    Latest run: {result ? result.status : <span className="text-gray-500">not run</span>}
+                    {result?.branch && ` → ${result.branch}`}
+                    {result?.score !== undefined && ` (score ${result.score})`}
+                    {result?.durationMs !== undefined && <span className="text-gray-500 font-normal"> · {result.durationMs} ms</span>}
+                </p>
+                {result && result.status !== 'skipped' && (
+                    <>
+                        {data.kind !== 'input' && <TextBlock label="Input" text={result.input} />}
+                        {result.error ? <TextBlock label="Error" text={result.error} tone="text-red-300" /> : <TextBlock label="Output" text={result.output} />}
+                    </>
+                )}
+                {result?.status === 'skipped' && <p className="text-xs text-gray-500">Skipped: none of the nodes wired into it produced anything.</p>}
+            </div>
+        </div>
+    );
+};
+
+export default NodeInspector;
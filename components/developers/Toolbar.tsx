@@ -0,0 +1,78 @@
+// components/developers/Toolbar.tsx
+import React from 'react';
+import { CanvasNodeKind } from '../../types';
+import { VersionRecord } from '../../types/telemetry';
+import { PlayIcon, StopIcon, DeviceFloppyIcon, HistoryIcon, TrashIcon } from '../icons';
+
+export const NODE_KIND_LABELS: Record<CanvasNodeKind, string> = {
+    input: 'Input',
+    shunt: 'Shunt Action',
+    tool: 'Tool Call',
+    condition: 'Condition',
+    output: 'Output',
+};
+
+interface ToolbarProps {
+    onAddNode: (kind: CanvasNodeKind) => void;
+    onRun: () => void;
+    onCancel: () => void;
+    isRunning: boolean;
+    onSaveSnapshot: () => void;
+    /** Snapshots in Chronicle, newest first */
+    snapshots: VersionRecord[];
+    onRestoreSnapshot: (versionId: string) => void;
+    onClear: () => void;
+}
+
+const buttonClass = 'px-3 py-1.5 text-sm rounded-md flex items-center gap-2 disabled:bg-gray-600 disabled:cursor-not-allowed';
+
+const Toolbar: React.FC<ToolbarProps> = ({ onAddNode, onRun, onCancel, isRunning, onSaveSnapshot, snapshots, onRestoreSnapshot, onClear }) => (
+    <div className="flex flex-wrap items-center gap-2 p-3 border-b border-gray-700/50">
+        <span className="text-xs text-gray-400 mr-1">Add:</span>
+        {(Object.keys(NODE_KIND_LABELS) as CanvasNodeKind[]).map(kind => (
+            <button
+                key={kind}
+                onClick={() => onAddNode(kind)}
+                disabled={isRunning}
+                className="px-2 py-1 text-xs bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+                + {NODE_KIND_LABELS[kind]}
+            </button>
+        ))}
+        <div className="flex-grow" />
+        {isRunning ? (
+            <button onClick={onCancel} className={`${buttonClass} bg-yellow-600 text-white hover:bg-yellow-500`}>
+                <StopIcon className="w-4 h-4" /> Stop
+            </button>
+        ) : (
+            <button onClick={onRun} className={`${buttonClass} bg-green-600 text-white hover:bg-green-500`}>
+                <PlayIcon className="w-4 h-4" /> Run Graph
+            </button>
+        )}
+        <button onClick={onSaveSnapshot} disabled={isRunning} className={`${buttonClass} bg-fuchsia-600 text-white hover:bg-fuchsia-500`}>
+            <DeviceFloppyIcon className="w-4 h-4" /> Save Snapshot
+        </button>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+            <HistoryIcon className="w-4 h-4 text-gray-400" />
+            <select
+                value=""
+                onChange={(e) => e.target.value && onRestoreSnapshot(e.target.value)}
+                disabled={isRunning || snapshots.length === 0}
+                className="bg-gray-800 border border-gray-600 text-xs text-gray-200 rounded px-1.5 py-1 focus:outline-none focus:ring-1 focus:ring-fuchsia-500 disabled:opacity-50"
+                aria-label="Restore snapshot"
+            >
+                <option value="">{snapshots.length === 0 ? 'No snapshots' : 'Restore snapshot…'}</option>
+                {snapshots.map(version => (
+                    <option key={version.versionId} value={version.versionId}>
+                        {new Date(version.timestamp).toLocaleString()} — {version.summary}
+                    </option>
+                ))}
+            </select>
+        </label>
+        <button onClick={onClear} disabled={isRunning} className={`${buttonClass} bg-red-600 text-white hover:bg-red-500`}>
+            <TrashIcon className="w-4 h-4" /> Clear
+        </button>
+    </div>
+);
+
+export default Toolbar;
@@ -0,0 +1,52 @@
+// components/developers/nodes/CanvasNodeShell.tsx
+import React from 'react';
+import { Handle, Position } from 'reactflow';
+import { CanvasNodeResult } from '../../../types';
+import { useCanvasNodeResult } from '../CanvasRunContext';
+
+const STATUS_STYLES: Record<CanvasNodeResult['status'], string> = {
+    running: 'bg-cyan-500/20 text-cyan-300 animate-pulse',
+    success: 'bg-green-500/20 text-green-300',
+    error: 'bg-red-500/20 text-red-300',
+    skipped: 'bg-gray-600/40 text-gray-400',
+};
+
+interface CanvasNodeShellProps {
+    id: string;
+    kindLabel: string;
+    label: string;
+    /** Tailwind border and background classes */
+    accent: string;
+    selected: boolean;
+    hasInput?: boolean;
+    hasOutput?: boolean;
+    children?: React.ReactNode;
+}
+
+/**
+ * Frame shared by the canvas nodes: kind, label, handles and the node's status in the latest run
+ */
+const CanvasNodeShell: React.FC<CanvasNodeShellProps> = ({ id, kindLabel, label, accent, selected, hasInput = true, hasOutput = true, children }) => {
+    const result = useCanvasNodeResult(id);
+
+    return (
+        <div className={`w-56 rounded-lg border-2 shadow-lg text-white ${accent} ${selected ? 'ring-2 ring-fuchsia-400' : ''}`}>
+            {hasInput && <Handle type="target" position={Position.Left} />}
+            <div className="px-3 py-2 border-b border-white/10 flex items-center justify-between gap-2">
+                <span className="text-[10px] uppercase tracking-wider text-gray-300">{kindLabel}</span>
+                {result && (
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded ${STATUS_STYLES[result.status]}`}>
+                        {result.status === 'success' && result.branch ? result.branch : result.status}
+                    </span>
+                )}
+            </div>
+            <div className="px-3 py-2">
+                <p className="text-sm font-semibold truncate" title={label}>{label}</p>
+                {children && <div className="mt-1 text-xs text-gray-300 break-words">{children}</div>}
+            </div>
+            {hasOutput && <Handle type="source" position={Position.Right} />}
+        </div>
+    );
+};
+
+export default CanvasNodeShell;
@@ -0,0 +1,20 @@
+// components/developers/nodes/ConditionNode.tsx
+import React from 'react';
+import { Handle, NodeProps, Position } from 'reactflow';
+import { CanvasConditionNodeData } from '../../../types';
+import { describeCondition } from '../../../services/evolvePipeline.service';
+import CanvasNodeShell from './CanvasNodeShell';
+
+const ConditionNode: React.FC<NodeProps<CanvasConditionNodeData>> = ({ id, data, selected }) => (
+    <CanvasNodeShell id={id} kindLabel="Condition" label={data.label} accent="bg-amber-900/60 border-amber-400" selected={selected} hasOutput={false}>
+        <p>If {describeCondition(data.condition)}</p>
+        <div className="mt-2 flex flex-col items-end gap-2 text-[10px] uppercase">
+            <span className="text-green-300">true</span>
+            <span className="text-red-300">false</span>
+        </div>
+        <Handle type="source" id="true" position={Position.Right} style={{ top: 'auto', bottom: 34, background: '#4ade80' }} />
+        <Handle type="source" id="false" position={Position.Right} style={{ top: 'auto', bottom: 10, background: '#f87171' }} />
+    </CanvasNodeShell>
+);
+
+export default ConditionNode;
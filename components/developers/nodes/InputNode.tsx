@@ -0,0 +1,13 @@
+// components/developers/nodes/InputNode.tsx
+import React from 'react';
+import { NodeProps } from 'reactflow';
+import { CanvasInputNodeData } from '../../../types';
+import CanvasNodeShell from './CanvasNodeShell';
+
+const InputNode: React.FC<NodeProps<CanvasInputNodeData>> = ({ id, data, selected }) => (
+    <CanvasNodeShell id={id} kindLabel="Input" label={data.label} accent="bg-blue-900/60 border-blue-400" selected={selected} hasInput={false}>
+        <span className="line-clamp-2 font-mono">{data.value || <em className="text-gray-500">empty</em>}</span>
+    </CanvasNodeShell>
+);
+
+export default InputNode;
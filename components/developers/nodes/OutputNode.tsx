@@ -0,0 +1,17 @@
+// components/developers/nodes/OutputNode.tsx
+import React from 'react';
+import { NodeProps } from 'reactflow';
+import { CanvasOutputNodeData } from '../../../types';
+import { useCanvasNodeResult } from '../CanvasRunContext';
+import CanvasNodeShell from './CanvasNodeShell';
+
+const OutputNode: React.FC<NodeProps<CanvasOutputNodeData>> = ({ id, data, selected }) => {
+    const result = useCanvasNodeResult(id);
+    return (
+        <CanvasNodeShell id={id} kindLabel="Output" label={data.label} accent="bg-green-900/60 border-green-400" selected={selected} hasOutput={false}>
+            {result?.status === 'success' && <span className="line-clamp-3 font-mono">{result.output}</span>}
+        </CanvasNodeShell>
+    );
+};
+
+export default OutputNode;
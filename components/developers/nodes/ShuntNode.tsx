@@ -0,0 +1,13 @@
+// components/developers/nodes/ShuntNode.tsx
+import React from 'react';
+import { NodeProps } from 'reactflow';
+import { CanvasShuntNodeData } from '../../../types';
+import CanvasNodeShell from './CanvasNodeShell';
+
+const ShuntNode: React.FC<NodeProps<CanvasShuntNodeData>> = ({ id, data, selected }) => (
+    <CanvasNodeShell id={id} kindLabel="Shunt Action" label={data.label} accent="bg-fuchsia-900/60 border-fuchsia-400" selected={selected}>
+        {data.action} · <span className="text-gray-400">{data.model}</span>
+    </CanvasNodeShell>
+);
+
+export default ShuntNode;
@@ -0,0 +1,13 @@
+// components/developers/nodes/ToolNode.tsx
+import React from 'react';
+import { NodeProps } from 'reactflow';
+import { CanvasToolNodeData } from '../../../types';
+import CanvasNodeShell from './CanvasNodeShell';
+
+const ToolNode: React.FC<NodeProps<CanvasToolNodeData>> = ({ id, data, selected }) => (
+    <CanvasNodeShell id={id} kindLabel="Tool Call" label={data.label} accent="bg-purple-900/60 border-purple-400" selected={selected}>
+        <span className="font-mono">{data.toolName || <em className="text-gray-500">no tool</em>}</span>
+    </CanvasNodeShell>
+);
+
+export default ToolNode;
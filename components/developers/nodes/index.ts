@@ -0,0 +1,29 @@
+// components/developers/nodes/index.ts
+import { NodeTypes } from 'reactflow';
+import InputNode from './InputNode';
+import ShuntNode from './ShuntNode';
+import ToolNode from './ToolNode';
+import ConditionNode from './ConditionNode';
+import OutputNode from './OutputNode';
+import AudioSourceNode from './AudioSourceNode';
+import UIEventNode from './UIEventNode';
+import AudioOutputNode from './AudioOutputNode';
+import RhythmClickNode from './RhythmClickNode';
+
+/** Node components of the executable canvas, keyed by CanvasNodeKind */
+export const canvasNodeTypes: NodeTypes = {
+    input: InputNode,
+    shunt: ShuntNode,
+    tool: ToolNode,
+    condition: ConditionNode,
+    output: OutputNode,
+};
+
+/** Every node type a saved canvas may contain, including the older audio and UI event nodes */
+export const allCanvasNodeTypes: NodeTypes = {
+    ...canvasNodeTypes,
+    audioSource: AudioSourceNode,
+    uiEvent: UIEventNode,
+    audioOutput: AudioOutputNode,
+    rhythmClick: RhythmClickNode,
+};
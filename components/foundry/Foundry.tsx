@@ -11,6 +11,7 @@ import AgentCard from './AgentCard';
 import LiveLog from './LiveLog';
 import { generateRawText } from '../../services/geminiService';
 import ProjectContextPanel from './ProjectContextPanel';
+import { toolAuditLog, toLogEntry } from '../../services/toolAuditLog';
 
 interface ProjectFile {
     filename: string;
@@ -63,6 +64,13 @@ const Foundry: React.FC = () => {
     useEffect(() => { localStorage.setItem('foundry_goal', goal); }, [goal]);
     useEffect(() => { localStorage.setItem('foundry_projectFiles', JSON.stringify(projectFiles)); }, [projectFiles]);
 
+    // Tool policy violations by any agent appear in the live log as they happen
+    useEffect(() => toolAuditLog.subscribe(entry => {
+        if (entry.outcome === 'violation') {
+            setLog(prev => [...prev, toLogEntry(entry)]);
+        }
+    }), []);
+
 
     const isLoading = phase !== 'Idle' && phase !== 'Converged';
 
@@ -1,7 +1,7 @@
 // components/foundry/LiveLog.tsx
 import React, { useRef, useEffect } from 'react';
 import { LogEntry, LogEntryType } from '../../types';
-import { FlagIcon, InformationCircleIcon, CheckCircleIcon, SparklesIcon } from '../icons';
+import { FlagIcon, InformationCircleIcon, CheckCircleIcon, SparklesIcon, LockClosedIcon, ErrorIcon } from '../icons';
 
 interface LiveLogProps {
     log: LogEntry[];
@@ -16,6 +16,10 @@ const getIconForType = (type: LogEntryType): React.ReactNode => {
             return <CheckCircleIcon className="w-4 h-4 text-green-400" />;
         case 'DECISION':
             return <SparklesIcon className="w-4 h-4 text-yellow-400" />;
+        case 'RBAC_VIOLATION':
+            return <LockClosedIcon className="w-4 h-4 text-red-400" />;
+        case 'VALIDATION':
+            return <ErrorIcon className="w-4 h-4 text-orange-400" />;
         case 'INFO':
         default:
             return <InformationCircleIcon className="w-4 h-4 text-gray-400" />;
@@ -35,7 +39,7 @@ const LiveLog: React.FC<LiveLogProps> = ({ log, isLoading }) => {
                 <div key={entry.id} className="flex items-start gap-3 animate-fade-in">
                     <span className="flex-shrink-0 mt-0.5">{getIconForType(entry.type)}</span>
                     <span className="text-gray-500">{entry.timestamp}</span>
-                    <p className="flex-grow text-gray-300">{entry.message}</p>
+                    <p className={`flex-grow ${entry.type === 'RBAC_VIOLATION' ? 'text-red-300' : 'text-gray-300'}`}>{entry.message}</p>
                 </div>
             ))}
             {isLoading && (
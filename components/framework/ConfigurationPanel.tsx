@@ -6,6 +6,7 @@ import { Hyperparameters } from './types';
 interface ConfigurationPanelProps {
     params: Hyperparameters;
     onParamChange: React.Dispatch<React.SetStateAction<Hyperparameters>>;
+    /** A run is in progress (running or paused), so its hyperparameters are fixed */
     isRunning: boolean;
 }
 
@@ -88,6 +89,23 @@ const ConfigurationPanel: React.FC<ConfigurationPanelProps> = ({ params, onParam
                     onChange={handleChange}
                     disabled={isRunning}
                 />
+                <ParamSlider
+                    label="Batch Size"
+                    name="batchSize"
+                    value={params.batchSize}
+                    min={16} max={256} step={16}
+                    onChange={handleChange}
+                    disabled={isRunning}
+                />
+                <ParamSlider
+                    label="Replay Buffer Capacity"
+                    name="bufferCapacity"
+                    value={params.bufferCapacity}
+                    min={1000} max={50000} step={1000}
+                    onChange={handleChange}
+                    disabled={isRunning}
+                    displayFormat={v => v.toLocaleString()}
+                />
             </div>
         </div>
     );
@@ -1,13 +1,13 @@
 // components/framework/Framework.tsx
-import React, { useState, useCallback, useRef, useEffect, lazy, Suspense } from 'react';
-import { v4 as uuidv4 } from 'uuid';
+import React, { useState, useEffect, lazy, Suspense } from 'react';
 import TabFooter from '../common/TabFooter';
 import { useTelemetry } from '../../context/TelemetryContext';
 import { CpuChipIcon, BranchingIcon } from '../icons';
 import ConfigurationPanel from './ConfigurationPanel';
 import SimulationPanel from './SimulationPanel';
-import { Hyperparameters, Metrics, LiveInspectorData, LogEntry } from './types';
+import { Hyperparameters } from './types';
 import Loader from '../Loader';
+import { useDqnTraining } from '../../hooks/useDqnTraining';
 
 const Foundry = lazy(() => import('../foundry/Foundry'));
 
@@ -26,116 +26,20 @@ const Framework: React.FC = () => {
     const { updateTelemetryContext } = useTelemetry();
     const [activeView, setActiveView] = useState<'simulation' | 'foundry'>('simulation');
     const [hyperparameters, setHyperparameters] = useState<Hyperparameters>(initialHyperparameters);
-    const [simulationState, setSimulationState] = useState<'idle' | 'running' | 'paused' | 'finished'>('idle');
-
-    const simulationInterval = useRef<number | null>(null);
-
-    const initialMetrics: Metrics = {
-        episode: 0,
-        totalReward: 0,
-        avgReward: 0,
-        loss: 1.0,
-        rewardHistory: [],
-    };
-
-    const initialInspectorData: LiveInspectorData = {
-        epsilon: hyperparameters.epsilonStart,
-        bufferSize: 0,
-        qValues: { left: 0.5, right: 0.5 },
-        log: [],
-    };
-    
-    const [metrics, setMetrics] = useState<Metrics>(initialMetrics);
-    const [inspectorData, setInspectorData] = useState<LiveInspectorData>(initialInspectorData);
+    const { simulationState, metrics, inspectorData, start, pause, resume, reset, exportRun } = useDqnTraining(hyperparameters);
 
     useEffect(() => {
         updateTelemetryContext({ tab: 'framework' });
     }, [updateTelemetryContext]);
-    
-    const stopSimulation = useCallback(() => {
-        if (simulationInterval.current) {
-            clearInterval(simulationInterval.current);
-            simulationInterval.current = null;
-        }
-    }, []);
-
-    const simulationTick = useCallback(() => {
-        setMetrics(prevMetrics => {
-            if (prevMetrics.episode >= hyperparameters.numEpisodes) {
-                stopSimulation();
-                setSimulationState('finished');
-                return prevMetrics;
-            }
-
-            const newEpisode = prevMetrics.episode + 1;
-            
-            const maxReward = 500;
-            const learningSpeed = 3; 
-            const progress = Math.min(1, newEpisode / (hyperparameters.numEpisodes / learningSpeed));
-            const baseReward = progress * maxReward;
-            const noise = (Math.random() - 0.5) * 80 * (1 - progress);
-            const newReward = Math.min(maxReward, Math.max(10, baseReward + noise));
-
-            const newHistory = [...prevMetrics.rewardHistory, { episode: newEpisode, reward: newReward }];
-            const newAvgReward = newHistory.reduce((acc, cur) => acc + cur.reward, 0) / newHistory.length;
-            const newLoss = Math.max(0.01, prevMetrics.loss * (0.985 + Math.random() * 0.01));
-
-            setInspectorData(prevInspector => {
-                const newEpsilon = Math.max(hyperparameters.epsilonEnd, prevInspector.epsilon * hyperparameters.epsilonDecay);
-                const newBufferSize = Math.min(hyperparameters.bufferCapacity, prevInspector.bufferSize + Math.round(newReward)); 
-                const qLeft = 0.5 + progress * Math.random() * 0.2;
-                const qRight = 0.8 + progress * Math.random() * 0.15;
-
-                const newLogEntry: LogEntry = {
-                    id: uuidv4(),
-                    timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
-                    message: `Episode ${newEpisode}: Reward=${newReward.toFixed(1)}, Loss=${newLoss.toFixed(4)}, Epsilon=${newEpsilon.toFixed(3)}`,
-                };
-                
-                return {
-                    epsilon: newEpsilon,
-                    bufferSize: newBufferSize,
-                    qValues: { left: qLeft, right: qRight },
-                    log: [newLogEntry, ...prevInspector.log.slice(0, 99)],
-                };
-            });
-
-            return {
-                episode: newEpisode,
-                totalReward: prevMetrics.totalReward + newReward,
-                avgReward: newAvgReward,
-                loss: newLoss,
-                rewardHistory: newHistory,
-            };
-        });
-    }, [hyperparameters, stopSimulation]);
 
     const handleStart = () => {
-        if (simulationState === 'idle' || simulationState === 'finished') {
-             setMetrics(initialMetrics);
-             setInspectorData({ ...initialInspectorData, epsilon: hyperparameters.epsilonStart });
+        if (simulationState === 'paused') {
+            resume();
+        } else {
+            start();
         }
-        setSimulationState('running');
-        if (simulationInterval.current) clearInterval(simulationInterval.current);
-        simulationInterval.current = window.setInterval(simulationTick, 75);
-    };
-
-    const handleStop = () => {
-        setSimulationState('paused');
-        stopSimulation();
-    };
-    
-    const handleReset = () => {
-        stopSimulation();
-        setSimulationState('idle');
-        setMetrics(initialMetrics);
-        setInspectorData(initialInspectorData);
     };
 
-    useEffect(() => {
-        return () => stopSimulation();
-    }, [stopSimulation]);
-
     return (
         <div className="flex flex-col h-full">
             {/* Sub-navigation for Framework views */}
@@ -174,13 +78,13 @@ const Framework: React.FC = () => {
                                 Live RL Simulation
                             </h2>
                             <p className="text-gray-400 mt-2">
-                                Configure, run, and inspect a simulated Deep Q-Network (DQN) training process in real-time.
+                                Configure, run, and inspect a Deep Q-Network (DQN) learning CartPole in real-time, trained in your browser.
                             </p>
                         </header>
                         <ConfigurationPanel
                             params={hyperparameters}
                             onParamChange={setHyperparameters}
-                            isRunning={simulationState === 'running'}
+                            isRunning={simulationState === 'running' || simulationState === 'paused'}
                         />
                     </div>
                     <div className="lg:col-span-2 overflow-hidden h-full">
@@ -188,8 +92,9 @@ const Framework: React.FC = () => {
                             metrics={metrics}
                             inspectorData={inspectorData}
                             onStart={handleStart}
-                            onStop={handleStop}
-                            onReset={handleReset}
+                            onStop={pause}
+                            onReset={reset}
+                            onExport={exportRun}
                             state={simulationState}
                             hyperparameters={hyperparameters}
                         />
@@ -1,7 +1,9 @@
 // components/framework/SimulationPanel.tsx
 import React, { useState } from 'react';
-import { Metrics, LiveInspectorData, Hyperparameters } from './types';
-import { BoltIcon, Cog6ToothIcon, ServerIcon, BrainIcon, PlayIcon, StopIcon, ArrowPathIcon } from '../icons';
+import { Metrics, LiveInspectorData, Hyperparameters, SimulationState } from './types';
+import { TARGET_SYNC_STEPS } from './dqn/dqnTrainer';
+import { CART_POLE_ACTIONS } from './dqn/cartPole';
+import { BoltIcon, Cog6ToothIcon, ServerIcon, BrainIcon, PlayIcon, StopIcon, ArrowPathIcon, DownloadIcon } from '../icons';
 import Loader from '../Loader';
 
 interface SimulationPanelProps {
@@ -10,7 +12,8 @@ interface SimulationPanelProps {
     onStart: () => void;
     onStop: () => void;
     onReset: () => void;
-    state: 'idle' | 'running' | 'paused' | 'finished';
+    onExport: () => void;
+    state: SimulationState;
     hyperparameters: Hyperparameters;
 }
 
@@ -66,7 +69,11 @@ const LineChart: React.FC<{ data: { episode: number, reward: number }[], maxEpis
 };
 
 
-const SimulationPanel: React.FC<SimulationPanelProps> = ({ metrics, inspectorData, onStart, onStop, onReset, state, hyperparameters }) => {
+const STATE_LABELS = ['Cart Position', 'Cart Velocity', 'Pole Angle', 'Pole Angular Velocity'];
+
+const formatVector = (values: number[]) => `[${values.map(v => v.toFixed(3)).join(', ')}]`;
+
+const SimulationPanel: React.FC<SimulationPanelProps> = ({ metrics, inspectorData, onStart, onStop, onReset, onExport, state, hyperparameters }) => {
     const [activeTab, setActiveTab] = useState<'log' | 'agent' | 'buffer'>('log');
 
     return (
@@ -76,11 +83,14 @@ const SimulationPanel: React.FC<SimulationPanelProps> = ({ metrics, inspectorDat
                 <h3 className="font-semibold text-gray-300">Simulation Dashboard</h3>
                 <div className="flex items-center gap-2">
                     <button onClick={onStart} disabled={state === 'running'} className="px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-500 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center gap-2">
-                        <PlayIcon className="w-4 h-4" /> Run
+                        <PlayIcon className="w-4 h-4" /> {state === 'paused' ? 'Resume' : 'Run'}
                     </button>
                      <button onClick={onStop} disabled={state !== 'running'} className="px-3 py-1.5 text-sm bg-yellow-600 text-white rounded-md hover:bg-yellow-500 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center gap-2">
                         <StopIcon className="w-4 h-4" /> Pause
                     </button>
+                    <button onClick={onExport} disabled={metrics.episode === 0} className="px-3 py-1.5 text-sm bg-cyan-600 text-white rounded-md hover:bg-cyan-500 disabled:bg-gray-600 disabled:cursor-not-allowed flex items-center gap-2">
+                        <DownloadIcon className="w-4 h-4" /> Export
+                    </button>
                     <button onClick={onReset} className="px-3 py-1.5 text-sm bg-red-600 text-white rounded-md hover:bg-red-500 flex items-center gap-2">
                         <ArrowPathIcon className="w-4 h-4" /> Reset
                     </button>
@@ -93,7 +103,7 @@ const SimulationPanel: React.FC<SimulationPanelProps> = ({ metrics, inspectorDat
                     <StatCard label="Episode" value={`${metrics.episode} / ${hyperparameters.numEpisodes}`} />
                     <StatCard label="Avg Reward" value={metrics.avgReward.toFixed(2)} />
                     <StatCard label="Last Reward" value={(metrics.rewardHistory[metrics.rewardHistory.length - 1]?.reward ?? 0).toFixed(2)} />
-                    <StatCard label="Current Loss" value={metrics.loss.toFixed(4)} />
+                    <StatCard label="Current Loss" value={metrics.loss === null ? '—' : metrics.loss.toFixed(4)} />
                 </div>
 
                 {/* Chart */}
@@ -124,19 +134,44 @@ const SimulationPanel: React.FC<SimulationPanelProps> = ({ metrics, inspectorDat
                              <div className="space-y-3 text-gray-300">
                                 <div><span className="text-gray-500">Epsilon (Exploration Rate): </span><span className="text-fuchsia-400">{inspectorData.epsilon.toFixed(4)}</span></div>
                                 <div>
-                                    <p className="text-gray-500">Q-Values (Last State):</p>
+                                    <p className="text-gray-500">Current State:</p>
+                                    <div className="pl-4 mt-1">
+                                        {inspectorData.state === null ? (
+                                            <p className="text-gray-500">Not started</p>
+                                        ) : inspectorData.state.map((value, i) => (
+                                            <p key={STATE_LABELS[i]}>{STATE_LABELS[i]}: <span className="text-cyan-400">{value.toFixed(4)}</span></p>
+                                        ))}
+                                    </div>
+                                </div>
+                                <div>
+                                    <p className="text-gray-500">Q-Values (Current State):</p>
                                     <div className="pl-4 mt-1">
                                         <p>Action 'Left': <span className="text-cyan-400">{inspectorData.qValues.left.toFixed(4)}</span></p>
                                         <p>Action 'Right': <span className="text-cyan-400">{inspectorData.qValues.right.toFixed(4)}</span></p>
                                     </div>
                                 </div>
+                                <div><span className="text-gray-500">Environment Steps: </span><span className="text-fuchsia-400">{inspectorData.totalSteps.toLocaleString()}</span></div>
+                                <div><span className="text-gray-500">Gradient Updates: </span><span className="text-fuchsia-400">{inspectorData.trainSteps.toLocaleString()}</span></div>
                             </div>
                         )}
                         {activeTab === 'buffer' && (
                             <div className="space-y-3 text-gray-300">
                                 <div><span className="text-gray-500">Buffer Size: </span><span className="text-fuchsia-400">{inspectorData.bufferSize.toLocaleString()} / {hyperparameters.bufferCapacity.toLocaleString()}</span></div>
                                 <div><span className="text-gray-500">Batch Size: </span><span className="text-cyan-400">{hyperparameters.batchSize}</span></div>
-                                <div className="text-gray-500 mt-2">Simulating experience tuples being added...</div>
+                                <div><span className="text-gray-500">Target Network Sync: </span><span className="text-cyan-400">every {TARGET_SYNC_STEPS} steps</span></div>
+                                {inspectorData.bufferSize < hyperparameters.batchSize && (
+                                    <div className="text-gray-500">Warming up: training starts once the buffer holds one batch.</div>
+                                )}
+                                <div>
+                                    <p className="text-gray-500">Latest Transitions (state, action, reward, next state):</p>
+                                    <div className="pl-4 mt-1 space-y-1">
+                                        {inspectorData.recentTransitions.map((transition, i) => (
+                                            <p key={inspectorData.totalSteps - i}>
+                                                {formatVector(transition.state)} <span className="text-cyan-400">{CART_POLE_ACTIONS[transition.action]}</span> {transition.reward} {transition.done ? <span className="text-red-400">terminal</span> : formatVector(transition.nextState)}
+                                            </p>
+                                        ))}
+                                    </div>
+                                </div>
                             </div>
                         )}
                     </div>
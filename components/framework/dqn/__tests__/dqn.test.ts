@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import { CartPole, SeededRandom, CART_POLE_MAX_STEPS, THETA_LIMIT } from '../cartPole';
+import { ReplayBuffer, Transition } from '../replayBuffer';
+import { QNetwork } from '../qNetwork';
+import { DqnTrainer } from '../dqnTrainer';
+import { Hyperparameters } from '../../types';
+
+/**
+ * Tests for in-browser DQN training
+ *
+ * Tests cover:
+ * - CartPole dynamics, termination and truncation
+ * - Replay buffer overwrite and sampling
+ * - Q-network training and serialisation
+ * - Trainer episodes, epsilon schedule, warm-up and export
+ */
+
+const params = (overrides: Partial<Hyperparameters> = {}): Hyperparameters => ({
+  learningRate: 0.001,
+  gamma: 0.99,
+  epsilonStart: 1.0,
+  epsilonEnd: 0.05,
+  epsilonDecay: 0.5,
+  numEpisodes: 5,
+  batchSize: 16,
+  bufferCapacity: 1000,
+  ...overrides,
+});
+
+const transition = (reward: number): Transition => ({ state: [0, 0, 0, 0], action: 0, reward, nextState: [0, 0, 0, 0], done: false });
+
+const runToEnd = (trainer: DqnTrainer) => {
+  while (!trainer.isDone) trainer.step();
+};
+
+describe('CartPole', () => {
+  it('should start near upright and reward every step', () => {
+    const env = new CartPole(new SeededRandom(1));
+    const state = env.reset();
+
+    state.forEach(value => expect(Math.abs(value)).toBeLessThanOrEqual(0.05));
+    expect(env.step(1)).toMatchObject({ reward: 1, terminated: false, truncated: false });
+  });
+
+  it('should terminate when the pole falls', () => {
+    const env = new CartPole(new SeededRandom(2));
+    env.reset();
+
+    let step = env.step(1);
+    while (!step.terminated) step = env.step(1);
+
+    expect(Math.abs(step.state[2]) > THETA_LIMIT || Math.abs(step.state[0]) > 2.4).toBe(true);
+    expect(env.steps).toBeLessThan(CART_POLE_MAX_STEPS);
+  });
+
+  it('should truncate at the step limit while the pole is still up', () => {
+    const env = new CartPole(new SeededRandom(3));
+    env.reset();
+    env.steps = CART_POLE_MAX_STEPS - 1;
+    env.state = [0, 0, 0, 0];
+
+    expect(env.step(0)).toMatchObject({ terminated: false, truncated: true });
+  });
+});
+
+describe('ReplayBuffer', () => {
+  it('should overwrite the oldest transitions once full', () => {
+    const buffer = new ReplayBuffer(3);
+    [1, 2, 3, 4, 5].forEach(reward => buffer.push(transition(reward)));
+
+    expect(buffer.size).toBe(3);
+    expect(buffer.latest(5).map(t => t.reward)).toEqual([5, 4, 3]);
+  });
+
+  it('should sample only stored transitions', () => {
+    const buffer = new ReplayBuffer(10);
+    [1, 2].forEach(reward => buffer.push(transition(reward)));
+
+    const batch = buffer.sample(20, new SeededRandom(4));
+
+    expect(batch).toHaveLength(20);
+    expect(new Set(batch.map(t => t.reward))).toEqual(new Set([1, 2]));
+  });
+});
+
+describe('QNetwork', () => {
+  it('should reduce the loss on a fixed batch', () => {
+    const network = new QNetwork([4, 16, 2], new SeededRandom(5));
+    const states = [[0.1, 0, -0.1, 0], [-0.2, 0.1, 0.05, -0.3], [0, 0.4, 0.1, 0.2]];
+    const actions = [0, 1, 1];
+    const targets = [1, -1, 0.5];
+
+    const first = network.train(states, actions, targets, 0.01);
+    let last = first;
+    for (let i = 0; i < 200; i++) last = network.train(states, actions, targets, 0.01);
+
+    expect(last).toBeLessThan(first / 10);
+  });
+
+  it('should round-trip its weights through JSON', () => {
+    const network = new QNetwork([4, 8, 2], new SeededRandom(6));
+    const restored = QNetwork.fromJSON(JSON.parse(JSON.stringify(network.toJSON())));
+
+    expect(restored.predict([0.1, 0.2, 0.3, 0.4])).toEqual(network.predict([0.1, 0.2, 0.3, 0.4]));
+  });
+});
+
+describe('DqnTrainer', () => {
+  it('should repeat a run from its seed', () => {
+    const first = new DqnTrainer(params(), 42);
+    const second = new DqnTrainer(params(), 42);
+    runToEnd(first);
+    runToEnd(second);
+
+    expect(second.history).toEqual(first.history);
+    expect(first.history.map(result => result.episode)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('should decay epsilon after each episode down to its floor', () => {
+    const trainer = new DqnTrainer(params(), 7);
+    runToEnd(trainer);
+
+    expect(trainer.history.map(result => result.epsilon)).toEqual([1, 0.5, 0.25, 0.125, 0.0625]);
+    expect(trainer.epsilon).toBe(0.05);
+  });
+
+  it('should not train until the buffer holds a batch', () => {
+    const trainer = new DqnTrainer(params({ batchSize: 64 }), 8);
+
+    for (let i = 0; i < 63; i++) trainer.step();
+    expect(trainer.trainSteps).toBe(0);
+
+    trainer.step();
+    expect(trainer.trainSteps).toBe(1);
+    expect(trainer.inspect()).toMatchObject({ totalSteps: 64, bufferSize: 64 });
+  });
+
+  it('should stop after the configured number of episodes', () => {
+    const trainer = new DqnTrainer(params({ numEpisodes: 2 }), 9);
+    runToEnd(trainer);
+
+    expect(trainer.step()).toBeNull();
+    expect(trainer.episode).toBe(2);
+    expect(trainer.totalSteps).toBe(trainer.history.reduce((sum, result) => sum + result.steps, 0));
+  });
+
+  it('should export the run with its history and network', () => {
+    const trainer = new DqnTrainer(params({ numEpisodes: 3 }), 10);
+    runToEnd(trainer);
+
+    const run = trainer.exportRun();
+
+    expect(run).toMatchObject({ environment: 'CartPole-v1', seed: 10, hyperparameters: params({ numEpisodes: 3 }) });
+    expect(run.episodes).toHaveLength(3);
+    expect(run.network.sizes).toEqual([4, 32, 32, 2]);
+    expect(run.episodes.some(result => result.loss !== null)).toBe(true);
+  });
+});
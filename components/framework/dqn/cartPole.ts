@@ -0,0 +1,96 @@
+// components/framework/dqn/cartPole.ts
+// CartPole-v1: balance a pole on a cart by pushing the cart left or right. Same dynamics, limits and
+// reward (+1 per step, at most 500 steps) as the Gymnasium environment.
+
+/**
+ * Seeded pseudo-random numbers (mulberry32), so a run can be repeated from its seed
+ */
+export class SeededRandom {
+    private state: number;
+
+    constructor(seed: number) {
+        this.state = seed >>> 0;
+    }
+
+    /** Uniform in [0, 1) */
+    next(): number {
+        this.state = (this.state + 0x6d2b79f5) >>> 0;
+        let t = this.state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    }
+
+    uniform(min: number, max: number): number {
+        return min + (max - min) * this.next();
+    }
+
+    /** Integer in [0, max) */
+    int(max: number): number {
+        return Math.floor(this.next() * max);
+    }
+}
+
+/** Cart position, cart velocity, pole angle (radians), pole angular velocity */
+export type CartPoleState = [number, number, number, number];
+
+export const CART_POLE_ACTIONS = ['left', 'right'] as const;
+export type CartPoleAction = 0 | 1;
+
+export const CART_POLE_MAX_STEPS = 500;
+
+const GRAVITY = 9.8;
+const CART_MASS = 1.0;
+const POLE_MASS = 0.1;
+const TOTAL_MASS = CART_MASS + POLE_MASS;
+const POLE_HALF_LENGTH = 0.5;
+const POLE_MASS_LENGTH = POLE_MASS * POLE_HALF_LENGTH;
+const FORCE = 10.0;
+const TAU = 0.02;
+export const THETA_LIMIT = (12 * 2 * Math.PI) / 360;
+export const X_LIMIT = 2.4;
+
+export interface CartPoleStep {
+    state: CartPoleState;
+    reward: number;
+    /** The pole fell or the cart left the track */
+    terminated: boolean;
+    /** The step limit was reached with the pole still up */
+    truncated: boolean;
+}
+
+export class CartPole {
+    state: CartPoleState = [0, 0, 0, 0];
+    steps = 0;
+
+    constructor(private random: SeededRandom) {}
+
+    reset(): CartPoleState {
+        this.state = [0, 0, 0, 0].map(() => this.random.uniform(-0.05, 0.05)) as CartPoleState;
+        this.steps = 0;
+        return [...this.state];
+    }
+
+    step(action: CartPoleAction): CartPoleStep {
+        const [x, xDot, theta, thetaDot] = this.state;
+        const force = action === 1 ? FORCE : -FORCE;
+        const cos = Math.cos(theta);
+        const sin = Math.sin(theta);
+
+        const temp = (force + POLE_MASS_LENGTH * thetaDot * thetaDot * sin) / TOTAL_MASS;
+        const thetaAcc = (GRAVITY * sin - cos * temp) / (POLE_HALF_LENGTH * (4 / 3 - (POLE_MASS * cos * cos) / TOTAL_MASS));
+        const xAcc = temp - (POLE_MASS_LENGTH * thetaAcc * cos) / TOTAL_MASS;
+
+        // Explicit Euler, as in the reference implementation
+        this.state = [x + TAU * xDot, xDot + TAU * xAcc, theta + TAU * thetaDot, thetaDot + TAU * thetaAcc];
+        this.steps++;
+
+        const terminated = Math.abs(this.state[0]) > X_LIMIT || Math.abs(this.state[2]) > THETA_LIMIT;
+        return {
+            state: [...this.state],
+            reward: 1,
+            terminated,
+            truncated: !terminated && this.steps >= CART_POLE_MAX_STEPS,
+        };
+    }
+}
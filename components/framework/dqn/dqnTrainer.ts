@@ -0,0 +1,170 @@
+// components/framework/dqn/dqnTrainer.ts
+// Deep Q-learning on CartPole: epsilon-greedy acting, experience replay, and a target network synced every
+// TARGET_SYNC_STEPS environment steps. Runs one environment step at a time so the worker can pause between steps.
+import { Hyperparameters } from '../types';
+import { CartPole, CartPoleAction, CartPoleState, CART_POLE_ACTIONS, SeededRandom } from './cartPole';
+import { QNetwork, QNetworkWeights } from './qNetwork';
+import { ReplayBuffer, Transition } from './replayBuffer';
+
+export const HIDDEN_LAYER_SIZES = [32, 32];
+export const TARGET_SYNC_STEPS = 250;
+const INSPECTED_TRANSITIONS = 5;
+
+export interface DqnEpisodeResult {
+    episode: number;
+    reward: number;
+    steps: number;
+    /** Mean training loss over the episode; null until the buffer holds a full batch */
+    loss: number | null;
+    /** Exploration rate the episode was played with */
+    epsilon: number;
+}
+
+/**
+ * The agent's state between steps, for the live inspector
+ */
+export interface DqnInspection {
+    episode: number;
+    totalSteps: number;
+    trainSteps: number;
+    epsilon: number;
+    bufferSize: number;
+    state: CartPoleState;
+    qValues: Record<(typeof CART_POLE_ACTIONS)[number], number>;
+    /** Newest transitions in the replay buffer, newest first */
+    recentTransitions: Transition[];
+}
+
+export interface DqnRunExport {
+    environment: 'CartPole-v1';
+    seed: number;
+    hyperparameters: Hyperparameters;
+    hiddenLayers: number[];
+    targetSyncSteps: number;
+    totalSteps: number;
+    trainSteps: number;
+    epsilon: number;
+    episodes: DqnEpisodeResult[];
+    network: QNetworkWeights;
+    exportedAt: string;
+}
+
+export class DqnTrainer {
+    episode = 0;
+    totalSteps = 0;
+    trainSteps = 0;
+    epsilon: number;
+    readonly history: DqnEpisodeResult[] = [];
+
+    private random: SeededRandom;
+    private env: CartPole;
+    private online: QNetwork;
+    private target: QNetwork;
+    private buffer: ReplayBuffer;
+    private state: CartPoleState;
+    private episodeReward = 0;
+    private episodeLosses: number[] = [];
+
+    constructor(readonly params: Hyperparameters, readonly seed: number) {
+        this.random = new SeededRandom(seed);
+        this.env = new CartPole(this.random);
+        const sizes = [4, ...HIDDEN_LAYER_SIZES, CART_POLE_ACTIONS.length];
+        this.online = new QNetwork(sizes, this.random);
+        this.target = new QNetwork(sizes, this.random);
+        this.target.copyFrom(this.online);
+        this.buffer = new ReplayBuffer(params.bufferCapacity);
+        this.epsilon = params.epsilonStart;
+        this.state = this.env.reset();
+    }
+
+    get isDone(): boolean {
+        return this.episode >= this.params.numEpisodes;
+    }
+
+    private chooseAction(): CartPoleAction {
+        if (this.random.next() < this.epsilon) return this.random.int(2) as CartPoleAction;
+        const [left, right] = this.online.predict(this.state);
+        return right > left ? 1 : 0;
+    }
+
+    private trainOnBatch(): number {
+        const batch = this.buffer.sample(this.params.batchSize, this.random);
+        const targets = batch.map(transition => {
+            if (transition.done) return transition.reward;
+            return transition.reward + this.params.gamma * Math.max(...this.target.predict(transition.nextState));
+        });
+        this.trainSteps++;
+        return this.online.train(batch.map(t => t.state), batch.map(t => t.action), targets, this.params.learningRate);
+    }
+
+    /**
+     * Play one environment step and, once the buffer holds a batch, train on one batch.
+     * Returns the episode's result when this step ended it.
+     */
+    step(): DqnEpisodeResult | null {
+        if (this.isDone) return null;
+
+        const action = this.chooseAction();
+        const { state: nextState, reward, terminated, truncated } = this.env.step(action);
+        this.buffer.push({ state: this.state, action, reward, nextState, done: terminated });
+        this.state = nextState;
+        this.episodeReward += reward;
+        this.totalSteps++;
+
+        if (this.buffer.size >= this.params.batchSize) {
+            this.episodeLosses.push(this.trainOnBatch());
+        }
+        if (this.totalSteps % TARGET_SYNC_STEPS === 0) {
+            this.target.copyFrom(this.online);
+        }
+        if (!terminated && !truncated) return null;
+
+        this.episode++;
+        const result: DqnEpisodeResult = {
+            episode: this.episode,
+            reward: this.episodeReward,
+            steps: this.env.steps,
+            loss: this.episodeLosses.length > 0
+                ? this.episodeLosses.reduce((sum, loss) => sum + loss, 0) / this.episodeLosses.length
+                : null,
+            epsilon: this.epsilon,
+        };
+        this.history.push(result);
+
+        this.epsilon = Math.max(this.params.epsilonEnd, this.epsilon * this.params.epsilonDecay);
+        this.episodeReward = 0;
+        this.episodeLosses = [];
+        this.state = this.env.reset();
+        return result;
+    }
+
+    inspect(): DqnInspection {
+        const [left, right] = this.online.predict(this.state);
+        return {
+            episode: this.episode,
+            totalSteps: this.totalSteps,
+            trainSteps: this.trainSteps,
+            epsilon: this.epsilon,
+            bufferSize: this.buffer.size,
+            state: [...this.state],
+            qValues: { left, right },
+            recentTransitions: this.buffer.latest(INSPECTED_TRANSITIONS),
+        };
+    }
+
+    exportRun(): DqnRunExport {
+        return {
+            environment: 'CartPole-v1',
+            seed: this.seed,
+            hyperparameters: { ...this.params },
+            hiddenLayers: [...HIDDEN_LAYER_SIZES],
+            targetSyncSteps: TARGET_SYNC_STEPS,
+            totalSteps: this.totalSteps,
+            trainSteps: this.trainSteps,
+            epsilon: this.epsilon,
+            episodes: [...this.history],
+            network: this.online.toJSON(),
+            exportedAt: new Date().toISOString(),
+        };
+    }
+}
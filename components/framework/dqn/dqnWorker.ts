@@ -0,0 +1,75 @@
+// components/framework/dqn/dqnWorker.ts
+// Web Worker that runs DQN training off the main thread. Trains in short slices and yields between them, so
+// pause and export requests are handled mid-run.
+import { DqnEpisodeResult, DqnTrainer } from './dqnTrainer';
+import { DqnWorkerRequest, DqnWorkerResponse } from './messages';
+
+// Time spent training before yielding to the message queue
+const SLICE_MS = 30;
+
+interface WorkerScope {
+    onmessage: ((event: MessageEvent<DqnWorkerRequest>) => void) | null;
+    postMessage(message: DqnWorkerResponse): void;
+}
+
+const scope = self as unknown as WorkerScope;
+
+let trainer: DqnTrainer | null = null;
+let isRunning = false;
+let nextSlice: ReturnType<typeof setTimeout> | null = null;
+
+const post = (message: DqnWorkerResponse) => scope.postMessage(message);
+
+const stop = () => {
+    isRunning = false;
+    if (nextSlice !== null) clearTimeout(nextSlice);
+    nextSlice = null;
+};
+
+const runSlice = () => {
+    nextSlice = null;
+    if (!trainer || !isRunning) return;
+    try {
+        const episodes: DqnEpisodeResult[] = [];
+        const deadline = performance.now() + SLICE_MS;
+        while (!trainer.isDone && performance.now() < deadline) {
+            const result = trainer.step();
+            if (result) episodes.push(result);
+        }
+        post({ type: 'progress', episodes, inspection: trainer.inspect() });
+
+        if (trainer.isDone) {
+            isRunning = false;
+            post({ type: 'finished' });
+        } else {
+            nextSlice = setTimeout(runSlice, 0);
+        }
+    } catch (error) {
+        isRunning = false;
+        post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+    }
+};
+
+scope.onmessage = (event) => {
+    const request = event.data;
+    switch (request.type) {
+        case 'start':
+            stop();
+            trainer = new DqnTrainer(request.hyperparameters, request.seed);
+            isRunning = true;
+            runSlice();
+            break;
+        case 'pause':
+            stop();
+            break;
+        case 'resume':
+            if (trainer && !isRunning && !trainer.isDone) {
+                isRunning = true;
+                runSlice();
+            }
+            break;
+        case 'export':
+            if (trainer) post({ type: 'export', run: trainer.exportRun() });
+            break;
+    }
+};
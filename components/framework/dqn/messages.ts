@@ -0,0 +1,17 @@
+// components/framework/dqn/messages.ts
+// Messages between the Framework tab and the DQN training worker.
+import { Hyperparameters } from '../types';
+import { DqnEpisodeResult, DqnInspection, DqnRunExport } from './dqnTrainer';
+
+export type DqnWorkerRequest =
+    | { type: 'start'; hyperparameters: Hyperparameters; seed: number }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'export' };
+
+export type DqnWorkerResponse =
+    /** Episodes finished since the previous progress message, and the agent's state now */
+    | { type: 'progress'; episodes: DqnEpisodeResult[]; inspection: DqnInspection }
+    | { type: 'finished' }
+    | { type: 'export'; run: DqnRunExport }
+    | { type: 'error'; message: string };
@@ -0,0 +1,164 @@
+// components/framework/dqn/qNetwork.ts
+// A small fully connected Q-network (ReLU hidden layers, linear outputs, one per action) trained with Adam
+// on the Huber loss of the chosen action's value. Plain arrays on the CPU; the networks here are tiny.
+import { SeededRandom } from './cartPole';
+
+interface Layer {
+    inputs: number;
+    outputs: number;
+    /** outputs x inputs, row-major */
+    weights: Float64Array;
+    biases: Float64Array;
+}
+
+export interface QNetworkWeights {
+    sizes: number[];
+    weights: number[][];
+    biases: number[][];
+}
+
+const ADAM_BETA1 = 0.9;
+const ADAM_BETA2 = 0.999;
+const ADAM_EPSILON = 1e-8;
+const HUBER_DELTA = 1.0;
+
+export class QNetwork {
+    private layers: Layer[];
+    // Adam moments, laid out like the weights and biases
+    private moments: { mWeights: Float64Array; vWeights: Float64Array; mBiases: Float64Array; vBiases: Float64Array }[];
+    private updates = 0;
+
+    /**
+     * `sizes` runs from the input size through the hidden layers to the number of actions, e.g. [4, 32, 32, 2]
+     */
+    constructor(readonly sizes: number[], random: SeededRandom) {
+        this.layers = sizes.slice(1).map((outputs, index) => {
+            const inputs = sizes[index];
+            // He-uniform initialisation, suited to ReLU
+            const limit = Math.sqrt(6 / inputs);
+            return {
+                inputs,
+                outputs,
+                weights: Float64Array.from({ length: inputs * outputs }, () => random.uniform(-limit, limit)),
+                biases: new Float64Array(outputs),
+            };
+        });
+        this.moments = this.layers.map(layer => ({
+            mWeights: new Float64Array(layer.weights.length),
+            vWeights: new Float64Array(layer.weights.length),
+            mBiases: new Float64Array(layer.biases.length),
+            vBiases: new Float64Array(layer.biases.length),
+        }));
+    }
+
+    /**
+     * Activations of every layer, input first
+     */
+    private forward(input: number[]): Float64Array[] {
+        const activations = [Float64Array.from(input)];
+        this.layers.forEach((layer, index) => {
+            const previous = activations[activations.length - 1];
+            const output = new Float64Array(layer.outputs);
+            const isHidden = index < this.layers.length - 1;
+            for (let o = 0; o < layer.outputs; o++) {
+                let sum = layer.biases[o];
+                const row = o * layer.inputs;
+                for (let i = 0; i < layer.inputs; i++) sum += layer.weights[row + i] * previous[i];
+                output[o] = isHidden && sum < 0 ? 0 : sum;
+            }
+            activations.push(output);
+        });
+        return activations;
+    }
+
+    predict(input: number[]): number[] {
+        const activations = this.forward(input);
+        return Array.from(activations[activations.length - 1]);
+    }
+
+    /**
+     * One Adam step towards `targets[i]` for the value of `actions[i]` in `states[i]`. Returns the mean Huber loss
+     * before the step.
+     */
+    train(states: number[][], actions: number[], targets: number[], learningRate: number): number {
+        const gradWeights = this.layers.map(layer => new Float64Array(layer.weights.length));
+        const gradBiases = this.layers.map(layer => new Float64Array(layer.biases.length));
+        let loss = 0;
+
+        states.forEach((state, sample) => {
+            const activations = this.forward(state);
+            const output = activations[activations.length - 1];
+            const error = output[actions[sample]] - targets[sample];
+            const absError = Math.abs(error);
+            loss += absError <= HUBER_DELTA ? 0.5 * error * error : HUBER_DELTA * (absError - 0.5 * HUBER_DELTA);
+
+            // Only the chosen action's output has a target
+            let delta = new Float64Array(output.length);
+            delta[actions[sample]] = Math.max(-HUBER_DELTA, Math.min(HUBER_DELTA, error)) / states.length;
+
+            for (let l = this.layers.length - 1; l >= 0; l--) {
+                const layer = this.layers[l];
+                const input = activations[l];
+                const previousDelta = new Float64Array(layer.inputs);
+                for (let o = 0; o < layer.outputs; o++) {
+                    if (delta[o] === 0) continue;
+                    gradBiases[l][o] += delta[o];
+                    const row = o * layer.inputs;
+                    for (let i = 0; i < layer.inputs; i++) {
+                        gradWeights[l][row + i] += delta[o] * input[i];
+                        previousDelta[i] += delta[o] * layer.weights[row + i];
+                    }
+                }
+                // ReLU derivative of the layer below
+                if (l > 0) {
+                    for (let i = 0; i < layer.inputs; i++) if (input[i] <= 0) previousDelta[i] = 0;
+                }
+                delta = previousDelta;
+            }
+        });
+
+        this.updates++;
+        const correction1 = 1 - ADAM_BETA1 ** this.updates;
+        const correction2 = 1 - ADAM_BETA2 ** this.updates;
+        const adam = (params: Float64Array, grads: Float64Array, m: Float64Array, v: Float64Array) => {
+            for (let i = 0; i < params.length; i++) {
+                m[i] = ADAM_BETA1 * m[i] + (1 - ADAM_BETA1) * grads[i];
+                v[i] = ADAM_BETA2 * v[i] + (1 - ADAM_BETA2) * grads[i] * grads[i];
+                params[i] -= (learningRate * (m[i] / correction1)) / (Math.sqrt(v[i] / correction2) + ADAM_EPSILON);
+            }
+        };
+        this.layers.forEach((layer, l) => {
+            adam(layer.weights, gradWeights[l], this.moments[l].mWeights, this.moments[l].vWeights);
+            adam(layer.biases, gradBiases[l], this.moments[l].mBiases, this.moments[l].vBiases);
+        });
+
+        return loss / states.length;
+    }
+
+    /**
+     * Copy another network's weights (used to sync the target network)
+     */
+    copyFrom(other: QNetwork): void {
+        this.layers.forEach((layer, index) => {
+            layer.weights.set(other.layers[index].weights);
+            layer.biases.set(other.layers[index].biases);
+        });
+    }
+
+    toJSON(): QNetworkWeights {
+        return {
+            sizes: [...this.sizes],
+            weights: this.layers.map(layer => Array.from(layer.weights)),
+            biases: this.layers.map(layer => Array.from(layer.biases)),
+        };
+    }
+
+    static fromJSON(data: QNetworkWeights): QNetwork {
+        const network = new QNetwork(data.sizes, new SeededRandom(0));
+        network.layers.forEach((layer, index) => {
+            layer.weights.set(data.weights[index]);
+            layer.biases.set(data.biases[index]);
+        });
+        return network;
+    }
+}
@@ -0,0 +1,48 @@
+// components/framework/dqn/replayBuffer.ts
+// Fixed-capacity experience replay. Once full, each new transition overwrites the oldest one.
+import { SeededRandom } from './cartPole';
+
+export interface Transition {
+    state: number[];
+    action: number;
+    reward: number;
+    nextState: number[];
+    /** The episode ended in a terminal state, so nextState has no future value */
+    done: boolean;
+}
+
+export class ReplayBuffer {
+    private transitions: Transition[] = [];
+    private next = 0;
+
+    constructor(readonly capacity: number) {}
+
+    get size(): number {
+        return this.transitions.length;
+    }
+
+    push(transition: Transition): void {
+        if (this.transitions.length < this.capacity) {
+            this.transitions.push(transition);
+        } else {
+            this.transitions[this.next] = transition;
+        }
+        this.next = (this.next + 1) % this.capacity;
+    }
+
+    /**
+     * `count` transitions drawn uniformly with replacement
+     */
+    sample(count: number, random: SeededRandom): Transition[] {
+        return Array.from({ length: count }, () => this.transitions[random.int(this.transitions.length)]);
+    }
+
+    /** The most recently stored transitions, newest first */
+    latest(count: number): Transition[] {
+        const result: Transition[] = [];
+        for (let i = 1; i <= Math.min(count, this.transitions.length); i++) {
+            result.push(this.transitions[(this.next - i + this.transitions.length) % this.transitions.length]);
+        }
+        return result;
+    }
+}
@@ -1,4 +1,6 @@
 // components/framework/types.ts
+import type { Transition } from './dqn/replayBuffer';
+
 export interface Hyperparameters {
   learningRate: number;
   gamma: number;
@@ -14,7 +16,8 @@ export interface Metrics {
     episode: number;
     totalReward: number;
     avgReward: number;
-    loss: number;
+    /** Mean training loss of the latest episode that trained; null before the replay buffer holds a batch */
+    loss: number | null;
     rewardHistory: { episode: number, reward: number }[];
 }
 
@@ -29,4 +32,11 @@ export interface LiveInspectorData {
     bufferSize: number;
     qValues: { [key: string]: number };
     log: LogEntry[];
+    totalSteps: number;
+    trainSteps: number;
+    /** The environment state the Q-values were computed for */
+    state: number[] | null;
+    recentTransitions: Transition[];
 }
+
+export type SimulationState = 'idle' | 'running' | 'paused' | 'finished';
@@ -3,7 +3,7 @@ import React, { useState, useCallback, lazy, Suspense, useEffect } from 'react';
 import {
     SparklesIcon, BrainIcon, BookIcon, HistoryIcon,
     ChatBubbleLeftRightIcon, PhotoIcon, DocumentIcon, Cog6ToothIcon, StarIcon,
-    TerminalIcon, GlobeAltIcon, BranchingIcon, ServerStackIcon, MenuIcon, DeveloperIcon, CpuChipIcon
+    TerminalIcon, GlobeAltIcon, BranchingIcon, ServerStackIcon, MenuIcon, DeveloperIcon, CpuChipIcon, CodeIcon
 } from '../icons';
 import { MissionControlTab, MissionControlTabKey } from '../../types';
 import Loader from '../Loader';
@@ -33,6 +33,7 @@ const Chronicle = lazy(() => import('../chronicle/Chronicle'));
 const Deploy = lazy(() => import('../deploy/Deploy'));
 const ToolforAI = lazy(() => import('../tool_for_ai/ToolforAI'));
 const Framework = lazy(() => import('../framework/Framework'));
+const Developers = lazy(() => import('../developers/Developers'));
 
 
 const tabs: MissionControlTab[] = [
@@ -55,6 +56,7 @@ const tabs: MissionControlTab[] = [
         ]
     },
     { key: 'framework', label: 'Framework', icon: <CpuChipIcon className="w-5 h-5" />, component: Framework },
+    { key: 'developers', label: 'Developers', icon: <CodeIcon className="w-5 h-5" />, component: Developers },
     { key: 'deploy', label: 'Deploy', icon: <ServerStackIcon className="w-5 h-5" />, component: Deploy },
     { key: 'chat', label: 'Chat', icon: <ChatBubbleLeftRightIcon className="w-5 h-5" />, component: Chat },
     { key: 'image_analysis', label: 'Image Analysis', icon: <PhotoIcon className="w-5 h-5" />, component: ImageAnalysis },
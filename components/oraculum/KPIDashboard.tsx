@@ -1,13 +1,27 @@
 import React from 'react';
 import { BoltIcon, StarIcon, DocumentChartBarIcon } from '../icons';
+import { TelemetrySummary } from '../../types/telemetry';
 
-const kpis = [
-    { title: 'Agent Executions', value: '1,492', icon: <BoltIcon className="w-6 h-6 text-cyan-400" />, description: 'Total shunt & weaver runs today' },
-    { title: 'Monetization Events', value: '87', icon: <StarIcon className="w-6 h-6 text-yellow-400" />, description: 'High-value events tracked' },
-    { title: 'Data Points Captured', value: '2.3M', icon: <DocumentChartBarIcon className="w-6 h-6 text-fuchsia-400" />, description: 'Total telemetry events logged' },
-];
+interface KPIDashboardProps {
+    summary: TelemetrySummary | null;
+}
+
+const formatCount = (value: number | undefined) => (value === undefined ? '—' : value.toLocaleString());
+
+const getSuccessRate = (summary: TelemetrySummary | null): string => {
+    if (!summary) return '—';
+    const outcomes = Object.values(summary.byOutcome).reduce((total, count) => total + count, 0);
+    if (outcomes === 0) return '—';
+    return `${Math.round(((summary.byOutcome.success ?? 0) / outcomes) * 100)}%`;
+};
+
+const KPIDashboard: React.FC<KPIDashboardProps> = ({ summary }) => {
+    const kpis = [
+        { title: 'Agent Executions', value: formatCount(summary ? summary.byEventType.ai_response ?? 0 : undefined), icon: <BoltIcon className="w-6 h-6 text-cyan-400" />, description: 'AI responses recorded today' },
+        { title: 'Success Rate', value: getSuccessRate(summary), icon: <StarIcon className="w-6 h-6 text-yellow-400" />, description: 'Share of interactions with a successful outcome' },
+        { title: 'Data Points Captured', value: formatCount(summary?.totalEvents), icon: <DocumentChartBarIcon className="w-6 h-6 text-fuchsia-400" />, description: 'Telemetry events logged today' },
+    ];
 
-const KPIDashboard: React.FC = () => {
     return (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
             {kpis.map(kpi => (
@@ -24,4 +38,4 @@ const KPIDashboard: React.FC = () => {
     );
 };
 
-export default KPIDashboard;
\ No newline at end of file
+export default KPIDashboard;
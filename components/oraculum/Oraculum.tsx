@@ -1,7 +1,8 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { appEventBus } from '../../lib/eventBus';
-import { InteractionEvent } from '../../types/telemetry';
+import { InteractionEvent, TelemetrySummary } from '../../types/telemetry';
 import { generateOraculumInsights } from '../../services/geminiService';
+import { queryTelemetryEvents, getTelemetrySummary } from '../../services/backendApiService';
 import KPIDashboard from './KPIDashboard';
 import TelemetryFeed from './TelemetryFeed';
 import { GlobeAltIcon } from '../icons';
@@ -11,9 +12,20 @@ import { audioService } from '../../services/audioService';
 import { parseApiError } from '../../utils/errorLogger';
 
 const MAX_FEED_EVENTS = 20;
+const MAX_HISTORY_EVENTS = 100;
+const HISTORY_REFRESH_MS = 60000;
+
+const startOfToday = () => {
+    const date = new Date();
+    date.setHours(0, 0, 0, 0);
+    return date.toISOString();
+};
 
 const Oraculum: React.FC = () => {
     const [liveEvents, setLiveEvents] = useState<InteractionEvent[]>([]);
+    const [storedEvents, setStoredEvents] = useState<InteractionEvent[]>([]);
+    const [summary, setSummary] = useState<TelemetrySummary | null>(null);
+    const [historyError, setHistoryError] = useState<string | null>(null);
     const [insights, setInsights] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
@@ -30,15 +42,48 @@ const Oraculum: React.FC = () => {
         return () => unsubscribe();
     }, []);
 
+    // Pull recorded history and today's aggregates from the backend telemetry store
+    useEffect(() => {
+        let cancelled = false;
+
+        const loadHistory = async () => {
+            try {
+                const [events, todaySummary] = await Promise.all([
+                    queryTelemetryEvents({ limit: MAX_HISTORY_EVENTS }),
+                    getTelemetrySummary({ from: startOfToday() }),
+                ]);
+                if (cancelled) return;
+                setStoredEvents(events);
+                setSummary(todaySummary);
+                setHistoryError(null);
+            } catch (e) {
+                if (!cancelled) setHistoryError(parseApiError(e));
+            }
+        };
+
+        loadHistory();
+        const interval = setInterval(loadHistory, HISTORY_REFRESH_MS);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, []);
+
+    // Live events first, then stored history, without the duplicates that have already been flushed to the store
+    const allEvents = useMemo(() => {
+        const seen = new Set(liveEvents.map(event => event.id));
+        return [...liveEvents, ...storedEvents.filter(event => !seen.has(event.id))];
+    }, [liveEvents, storedEvents]);
+
     const handleGenerateInsights = useCallback(async () => {
-        if (liveEvents.length === 0 || isLoading) return;
+        if (allEvents.length === 0 || isLoading) return;
         setIsLoading(true);
         setError(null);
         setInsights(null);
         audioService.playSound('send');
         
         try {
-            const eventsJson = JSON.stringify(liveEvents, null, 2);
+            const eventsJson = JSON.stringify(allEvents.slice(0, MAX_HISTORY_EVENTS), null, 2);
             const generatedInsights = await generateOraculumInsights(eventsJson);
             setInsights(generatedInsights);
             audioService.playSound('success');
@@ -49,28 +94,29 @@ const Oraculum: React.FC = () => {
         } finally {
             setIsLoading(false);
         }
-    }, [liveEvents, isLoading]);
+    }, [allEvents, isLoading]);
 
     return (
         <div className="flex flex-col h-full p-4 md:p-6 gap-6 overflow-hidden">
             <header className="flex-shrink-0">
-                <KPIDashboard />
+                <KPIDashboard summary={summary} />
+                {historyError && <p className="mt-2 text-xs text-yellow-400">Stored telemetry unavailable: {historyError}</p>}
             </header>
 
             <div className="flex-grow grid grid-cols-1 xl:grid-cols-2 gap-6 overflow-hidden">
                 <div className="xl:col-span-1 h-full overflow-hidden">
-                    <TelemetryFeed events={liveEvents} />
+                    <TelemetryFeed events={allEvents.slice(0, MAX_FEED_EVENTS)} />
                 </div>
                 
                 <div className="xl:col-span-1 h-full overflow-hidden flex flex-col gap-6">
                     <div className="bg-gray-900/50 p-4 rounded-lg border border-gray-700/50">
                         <button
                             onClick={handleGenerateInsights}
-                            disabled={isLoading || liveEvents.length === 0}
+                            disabled={isLoading || allEvents.length === 0}
                             className="w-full flex items-center justify-center gap-2 text-md font-semibold text-center p-3 rounded-md border transition-all duration-200 bg-fuchsia-600/80 border-fuchsia-500 text-white shadow-lg hover:bg-fuchsia-600 hover:border-fuchsia-400 hover:shadow-fuchsia-500/30 disabled:opacity-50 disabled:cursor-not-allowed"
                         >
                             {isLoading ? <Loader /> : <GlobeAltIcon className="w-5 h-5" />}
-                            Generate Insights from Live Feed
+                            Generate Insights from Telemetry
                         </button>
                     </div>
 
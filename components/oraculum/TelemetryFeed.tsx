@@ -20,7 +20,7 @@ const TelemetryFeed: React.FC<TelemetryFeedProps> = ({ events }) => {
     return (
         <div className="bg-gray-900/50 rounded-lg border border-gray-700/50 flex flex-col h-full">
             <header className="p-3 border-b border-gray-700/50 flex-shrink-0">
-                <h3 className="font-semibold text-gray-300">Live Telemetry Feed</h3>
+                <h3 className="font-semibold text-gray-300">Telemetry Feed</h3>
             </header>
             <main className="p-4 flex-grow overflow-y-auto">
                 {events.length === 0 ? (
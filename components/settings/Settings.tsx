@@ -5,12 +5,15 @@ import TabFooter from '../common/TabFooter';
 import ToggleSwitch from '../common/ToggleSwitch';
 import { useMCPContext } from '../../context/MCPContext';
 import { MCPConnectionStatus } from '../../types/mcp';
-import { BoltIcon, ServerStackIcon, XMarkIcon, CpuChipIcon } from '../icons';
+import { BoltIcon, ServerStackIcon, XMarkIcon, CpuChipIcon, PuzzlePieceIcon, ArrowPathIcon } from '../icons';
 import Loader from '../Loader';
 
 const Settings: React.FC = () => {
     const { settings, updateSetting } = useSettings();
-    const { status, extensionVersion, connect, disconnect } = useMCPContext();
+    const {
+        status, extensionVersion, connect, disconnect,
+        servers, mcpTools, serverErrors, isRefreshingServers, refreshServers,
+    } = useMCPContext();
 
     const handleSettingChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
         const { name, value, type } = e.target;
@@ -62,18 +65,55 @@ const Settings: React.FC = () => {
                                 )}
                             </div>
                             {status === MCPConnectionStatus.NotFound && (
-                                <p className="text-xs text-yellow-400 mt-2">Searching for MCP extension...</p>
+                                <p className="text-xs text-yellow-400 mt-2">MCP extension not detected. Generated files are delivered to your Mailbox instead.</p>
                             )}
                             {status === MCPConnectionStatus.Disconnected && (
-                                <p className="text-xs text-gray-400 mt-2">
-                                    Connect to enable direct file system access. If not installed, a mock will be used for demonstration.
-                                </p>
+                                <p className="text-xs text-gray-400 mt-2">Connect to enable direct file system access.</p>
                             )}
-                            {status === MCPConnectionStatus.Connected && extensionVersion?.includes('mock') && (
-                                <p className="text-xs text-cyan-400 mt-2">
-                                    Connected to mock extension. File operations will be simulated in the browser console.
+                        </div>
+
+                        <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6">
+                            <div className="flex items-center justify-between mb-4">
+                                <h3 className="font-semibold text-lg text-gray-200 flex items-center gap-2">
+                                    <PuzzlePieceIcon className="w-6 h-6 text-cyan-400" />
+                                    MCP Servers
+                                </h3>
+                                <button
+                                    onClick={refreshServers}
+                                    disabled={isRefreshingServers}
+                                    className="px-3 py-1.5 bg-gray-700 text-gray-200 text-sm font-semibold rounded-md hover:bg-gray-600 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
+                                >
+                                    {isRefreshingServers ? <Loader /> : <ArrowPathIcon className="w-4 h-4" />}
+                                    Refresh
+                                </button>
+                            </div>
+                            {servers.length === 0 ? (
+                                <p className="text-sm text-gray-400">
+                                    {serverErrors.backend ? `Backend unavailable: ${serverErrors.backend}` : 'No MCP servers are configured on the backend.'}
                                 </p>
+                            ) : (
+                                <ul className="space-y-3">
+                                    {servers.map(server => {
+                                        const tools = mcpTools.filter(name => name.startsWith(`mcp.${server.id}.`));
+                                        const error = serverErrors[server.id] ?? server.lastError;
+                                        return (
+                                            <li key={server.id} className="text-sm">
+                                                <div className="flex items-center gap-2">
+                                                    <span className={`w-2 h-2 rounded-full ${server.connected ? 'bg-green-400' : 'bg-gray-500'}`} />
+                                                    <span className="text-gray-200 font-semibold">{server.name}</span>
+                                                    <span className="text-xs text-gray-500">{server.id} · {server.transport}{server.serverInfo ? ` · ${server.serverInfo.name} ${server.serverInfo.version}` : ''}</span>
+                                                </div>
+                                                {error ? (
+                                                    <p className="text-xs text-red-400 mt-1 pl-4">{error}</p>
+                                                ) : (
+                                                    <p className="text-xs text-gray-400 mt-1 pl-4 font-mono break-all">{tools.length > 0 ? tools.join(', ') : 'No tools'}</p>
+                                                )}
+                                            </li>
+                                        );
+                                    })}
+                                </ul>
                             )}
+                            <p className="text-xs text-gray-500 mt-3">Agents can call these tools once they are added to the agent's allowed tools.</p>
                         </div>
 
                         <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6">
@@ -135,6 +175,27 @@ const Settings: React.FC = () => {
                             </div>
                         </div>
 
+                        <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6">
+                            <h3 className="font-semibold text-lg text-gray-200 mb-4">Response Cache</h3>
+                            <div className="space-y-4">
+                                <ToggleSwitch
+                                    id="responseCacheEnabled"
+                                    label="Reuse Cached Results"
+                                    checked={settings.responseCacheEnabled}
+                                    onChange={(checked) => updateSetting('responseCacheEnabled', checked)}
+                                />
+                                <p className="text-xs text-gray-500 pl-2 -mt-2">Re-running a Shunt action on the same text returns the cached result instead of calling the model again.</p>
+                                <ToggleSwitch
+                                    id="semanticCacheEnabled"
+                                    label="Match Near-Duplicate Text"
+                                    checked={settings.semanticCacheEnabled}
+                                    onChange={(checked) => updateSetting('semanticCacheEnabled', checked)}
+                                    disabled={!settings.responseCacheEnabled}
+                                />
+                                <p className="text-xs text-gray-500 pl-2 -mt-2">Also reuse results for text that is almost identical, compared using local embeddings.</p>
+                            </div>
+                        </div>
+
                         <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-6">
                             <h3 className="font-semibold text-lg text-gray-200 mb-4">Appearance</h3>
                             <div className="space-y-4">
@@ -1,9 +1,15 @@
 
 
 // components/shunt/BulletinBoardPanel.tsx
-import React from 'react';
-import { ClipboardDocumentListIcon, XMarkIcon, MinusIcon, AmplifyIcon, BrainIcon, DocumentArrowDownIcon } from '../icons';
+import React, { useState } from 'react';
+import { ClipboardDocumentListIcon, XMarkIcon, MinusIcon, AmplifyIcon, BrainIcon, DocumentArrowDownIcon, DownloadIcon } from '../icons';
 import FileUpload from '../common/FileUpload';
+import { ShuntAction } from '../../types';
+
+// Actions that make sense per document: tool calls run client-side and skill packages are multi-file outputs
+const BATCH_ACTIONS = Object.values(ShuntAction).filter(
+    action => action !== ShuntAction.CALL_TOOL && action !== ShuntAction.BUILD_A_SKILL && action !== ShuntAction.AMPLIFY_X2
+);
 
 interface Document {
     name: string;
@@ -16,10 +22,12 @@ interface BulletinBoardPanelProps {
     onToggleMinimize?: () => void;
     isLoading: boolean;
     onSynthesize: () => void;
+    onBatchShunt: (action: ShuntAction) => void;
     onViewDocument: (document: Document) => void;
 }
 
-const BulletinBoardPanel: React.FC<BulletinBoardPanelProps> = ({ documents, onUpdateDocuments, isMinimized, onToggleMinimize, isLoading, onSynthesize, onViewDocument }) => {
+const BulletinBoardPanel: React.FC<BulletinBoardPanelProps> = ({ documents, onUpdateDocuments, isMinimized, onToggleMinimize, isLoading, onSynthesize, onBatchShunt, onViewDocument }) => {
+    const [batchAction, setBatchAction] = useState<ShuntAction>(ShuntAction.PROOFREAD);
 
     const handleFilesUploaded = (files: Array<{ filename: string; content: string; file: File }>) => {
         const newDocs = files.map(f => ({ name: f.filename, content: f.content }));
@@ -71,6 +79,28 @@ const BulletinBoardPanel: React.FC<BulletinBoardPanelProps> = ({ documents, onUp
                         <BrainIcon className="w-5 h-5" />
                         Synthesize Notes
                     </button>
+                    <div className="flex items-center gap-2">
+                        <select
+                            value={batchAction}
+                            onChange={(e) => setBatchAction(e.target.value as ShuntAction)}
+                            disabled={isLoading}
+                            className="flex-grow min-w-0 bg-gray-700/50 border border-gray-600 text-sm text-gray-200 rounded-md pl-2 pr-7 py-1.5 focus:outline-none focus:ring-1 focus:ring-cyan-500 transition-colors duration-200 hover:border-gray-500"
+                            aria-label="Select batch action"
+                        >
+                            {BATCH_ACTIONS.map(action => (
+                                <option key={action} value={action}>{action}</option>
+                            ))}
+                        </select>
+                        <button
+                            onClick={() => onBatchShunt(batchAction)}
+                            disabled={isLoading || documents.length === 0}
+                            className="flex-shrink-0 flex items-center gap-1.5 text-sm font-semibold p-2 rounded-md border transition-all duration-200 bg-gray-700/50 border-gray-600 text-gray-200 hover:bg-gray-700 hover:border-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed"
+                            title="Apply the selected action to every attached document and download the results as a zip."
+                        >
+                            <DownloadIcon className="w-4 h-4" />
+                            Run on All
+                        </button>
+                    </div>
                     {documents.length > 0 && (
                         <div className="space-y-2 max-h-48 overflow-y-auto">
                             <h3 className="text-sm font-semibold text-gray-400">Attached Documents:</h3>
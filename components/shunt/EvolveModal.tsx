@@ -1,10 +1,23 @@
 // components/shunt/EvolveModal.tsx
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { ShuntAction, EvolveStep, EvolveResult } from '../../types';
-import { performShunt } from '../../services/geminiService';
+import { ShuntAction, EvolveStep, EvolveResult, EvolvePipeline, EvolveRun, EvolveCondition, EvolveFanOutStep } from '../../types';
 import { shuntActionDescriptions, shuntActionsConfig, actionGroups } from '../../services/prompts';
-import { XMarkIcon, BranchingIcon, BoltIcon, CheckIcon, ErrorIcon, DocumentDuplicateIcon } from '../icons';
+import {
+    DEFAULT_EVOLVE_MODEL,
+    EVOLVE_MODELS,
+    DEFAULT_EVOLVE_CONDITIONS,
+    createEvolvePipeline,
+    loadEvolvePipelines,
+    saveEvolvePipeline,
+    deleteEvolvePipeline,
+    exportEvolvePipeline,
+    importEvolvePipeline,
+    runEvolvePipeline,
+    recordEvolveRun,
+} from '../../services/evolvePipeline.service';
+import { useTelemetry } from '../../context/TelemetryContext';
+import { XMarkIcon, BranchingIcon, BoltIcon, CheckIcon, ErrorIcon, DocumentDuplicateIcon, DeviceFloppyIcon, TrashIcon, DownloadIcon, UploadIcon, StopIcon, ArrowPathIcon } from '../icons';
 import Loader from '../Loader';
 
 interface EvolveModalProps {
@@ -12,121 +25,325 @@ interface EvolveModalProps {
     onClose: () => void;
     initialText: string;
     onComplete: (finalText: string) => void;
+    /** Model for steps that do not choose one, e.g. the model selected in the Shunt */
+    defaultModel?: string;
 }
 
-const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText, onComplete }) => {
-    const [isRendered, setIsRendered] = useState(false);
-    const [chain, setChain] = useState<EvolveStep[]>([]);
-    const [view, setView] = useState<'builder' | 'running' | 'results'>('builder');
-    const [results, setResults] = useState<EvolveResult[]>([]);
-    const [currentStep, setCurrentStep] = useState(0);
+const selectClass = 'bg-gray-800 border border-gray-600 text-xs text-gray-200 rounded px-1.5 py-0.5 focus:outline-none focus:ring-1 focus:ring-purple-500';
+
+// --- Step editors ---
 
-    // Drag and drop state
-    const [draggedAction, setDraggedAction] = useState<ShuntAction | null>(null);
+interface StepListProps {
+    steps: EvolveStep[];
+    onChange: (steps: EvolveStep[]) => void;
+    depth: number;
+    emptyText: string;
+}
+
+/**
+ * Drop target for actions from the palette; steps can be reordered within the list they belong to
+ */
+const StepList: React.FC<StepListProps> = ({ steps, onChange, depth, emptyText }) => {
     const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
 
+    const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+        e.preventDefault();
+        e.stopPropagation();
+        const action = e.dataTransfer.getData('application/shunt-action') as ShuntAction;
+        const kind = e.dataTransfer.getData('application/evolve-step-kind');
+        const draggedId = e.dataTransfer.getData('application/step-id');
+        const index = dragOverIndex ?? steps.length;
+        const next = [...steps];
+
+        if (action) {
+            next.splice(index, 0, { id: uuidv4(), action });
+        } else if (kind === 'branch') {
+            next.splice(index, 0, { id: uuidv4(), type: 'branch', condition: DEFAULT_EVOLVE_CONDITIONS.score, then: [], otherwise: [] });
+        } else if (kind === 'fanout') {
+            next.splice(index, 0, { id: uuidv4(), type: 'fanout', actions: [ShuntAction.SUMMARIZE, ShuntAction.AMPLIFY], merge: 'concatenate' });
+        } else if (draggedId) {
+            const draggedIndex = steps.findIndex(step => step.id === draggedId);
+            if (draggedIndex === -1) return; // Moving between lists is not supported
+            const [moved] = next.splice(draggedIndex, 1);
+            next.splice(Math.min(index, next.length), 0, moved);
+        } else {
+            return;
+        }
+        onChange(next);
+        setDragOverIndex(null);
+    };
+
+    const updateStep = (id: string, updated: EvolveStep) => onChange(steps.map(step => step.id === id ? updated : step));
+    const removeStep = (id: string) => onChange(steps.filter(step => step.id !== id));
+
+    return (
+        <div
+            onDragOver={(e) => { e.preventDefault(); e.dataTransfer.dropEffect = 'copy'; }}
+            onDragEnter={(e) => { e.stopPropagation(); if (e.target === e.currentTarget) setDragOverIndex(steps.length); }}
+            onDrop={handleDrop}
+            className={`space-y-2 min-h-[3rem] rounded-md ${depth > 0 ? 'p-2 border border-dashed border-gray-600/60' : ''}`}
+        >
+            {steps.length === 0 && <p className="text-xs text-gray-500 text-center py-3">{emptyText}</p>}
+            {steps.map((step, index) => (
+                <div
+                    key={step.id}
+                    draggable
+                    onDragStart={(e) => { e.stopPropagation(); e.dataTransfer.setData('application/step-id', step.id); e.dataTransfer.effectAllowed = 'move'; }}
+                    onDragEnter={(e) => { e.stopPropagation(); setDragOverIndex(index); }}
+                    className={`p-3 rounded-md bg-gray-700/80 text-gray-200 cursor-grab group ${dragOverIndex === index ? 'ring-2 ring-purple-500' : ''}`}
+                >
+                    <div className="flex items-start justify-between gap-2">
+                        <div className="flex-grow space-y-2">
+                            <div className="flex items-center gap-3">
+                                <span className="font-mono text-xs text-gray-400">{index + 1}.</span>
+                                <StepEditor step={step} depth={depth} onChange={(updated) => updateStep(step.id, updated)} />
+                            </div>
+                        </div>
+                        <button onClick={() => removeStep(step.id)} className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity" title="Remove step">
+                            <XMarkIcon className="w-4 h-4" />
+                        </button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const StepEditor: React.FC<{ step: EvolveStep; depth: number; onChange: (step: EvolveStep) => void }> = ({ step, depth, onChange }) => {
+    if (step.type === 'branch') {
+        const { condition } = step;
+        return (
+            <div className="flex-grow space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-semibold text-amber-300">If</span>
+                    <select className={selectClass} value={condition.kind} onChange={(e) => onChange({ ...step, condition: DEFAULT_EVOLVE_CONDITIONS[e.target.value as EvolveCondition['kind']] })}>
+                        <option value="score">grade score</option>
+                        <option value="length">output length</option>
+                        <option value="contains">output contains</option>
+                    </select>
+                    {condition.kind === 'length' && (
+                        <select className={selectClass} value={condition.operator} onChange={(e) => onChange({ ...step, condition: { ...condition, operator: e.target.value as 'gt' | 'lt' } })}>
+                            <option value="gt">&gt;</option>
+                            <option value="lt">&lt;</option>
+                        </select>
+                    )}
+                    {condition.kind === 'score' && (
+                        <select className={selectClass} value={condition.operator} onChange={(e) => onChange({ ...step, condition: { ...condition, operator: e.target.value as 'gte' | 'lt' } })}>
+                            <option value="gte">&ge;</option>
+                            <option value="lt">&lt;</option>
+                        </select>
+                    )}
+                    {condition.kind === 'contains' ? (
+                        <input className={`${selectClass} w-32`} value={condition.value} onChange={(e) => onChange({ ...step, condition: { ...condition, value: e.target.value } })} />
+                    ) : (
+                        <input
+                            type="number"
+                            className={`${selectClass} w-20`}
+                            value={condition.value}
+                            min={condition.kind === 'score' ? -10 : 0}
+                            max={condition.kind === 'score' ? 10 : undefined}
+                            onChange={(e) => onChange({ ...step, condition: { ...condition, value: Number(e.target.value) } })}
+                        />
+                    )}
+                </div>
+                <p className="text-xs text-gray-400">Then</p>
+                <StepList steps={step.then} depth={depth + 1} emptyText="Drop steps to run when the condition holds" onChange={(then) => onChange({ ...step, then })} />
+                <p className="text-xs text-gray-400">Otherwise</p>
+                <StepList steps={step.otherwise} depth={depth + 1} emptyText="Drop steps to run otherwise (empty passes the text on)" onChange={(otherwise) => onChange({ ...step, otherwise })} />
+            </div>
+        );
+    }
+
+    if (step.type === 'fanout') {
+        const setActions = (actions: ShuntAction[]) => onChange({ ...step, actions });
+        return (
+            <div className="flex-grow space-y-2">
+                <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-semibold text-cyan-300">Fan-out</span>
+                    {step.actions.map((action, index) => (
+                        <span key={`${action}-${index}`} className="flex items-center gap-1 text-xs bg-gray-800 rounded px-2 py-0.5">
+                            {action}
+                            {step.actions.length > 2 && (
+                                <button onClick={() => setActions(step.actions.filter((_, i) => i !== index))} className="text-gray-500 hover:text-red-400" title="Remove action">
+                                    <XMarkIcon className="w-3 h-3" />
+                                </button>
+                            )}
+                        </span>
+                    ))}
+                    {step.actions.length < 8 && (
+                        <select className={selectClass} value="" onChange={(e) => e.target.value && setActions([...step.actions, e.target.value as ShuntAction])}>
+                            <option value="">+ action</option>
+                            {shuntActionsConfig.map(({ action }) => <option key={action} value={action}>{action}</option>)}
+                        </select>
+                    )}
+                </div>
+                <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                    <label>Merge
+                        <select className={`${selectClass} ml-1`} value={step.merge} onChange={(e) => onChange({ ...step, merge: e.target.value as EvolveFanOutStep['merge'] })}>
+                            <option value="concatenate">concatenate</option>
+                            <option value="synthesize">synthesize</option>
+                            <option value="best_score">best grade score</option>
+                        </select>
+                    </label>
+                    <ModelSelect value={step.model} onChange={(model) => onChange({ ...step, model })} />
+                    <OnErrorSelect value={step.onError} onChange={(onError) => onChange({ ...step, onError })} />
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flex-grow flex flex-wrap items-center gap-2">
+            <span className="font-semibold text-sm">{step.action}</span>
+            <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400 ml-auto">
+                <ModelSelect value={step.model} onChange={(model) => onChange({ ...step, model })} />
+                <label>Retries
+                    <input
+                        type="number"
+                        min={0}
+                        max={5}
+                        className={`${selectClass} w-12 ml-1`}
+                        value={step.retries ?? 0}
+                        onChange={(e) => onChange({ ...step, retries: Math.min(5, Math.max(0, Number(e.target.value))) })}
+                    />
+                </label>
+                <OnErrorSelect value={step.onError} onChange={(onError) => onChange({ ...step, onError })} />
+            </div>
+        </div>
+    );
+};
+
+const ModelSelect: React.FC<{ value?: string; onChange: (model?: string) => void }> = ({ value, onChange }) => (
+    <select className={selectClass} value={value ?? ''} onChange={(e) => onChange(e.target.value || undefined)} title="Model for this step">
+        <option value="">Pipeline model</option>
+        {EVOLVE_MODELS.map(model => <option key={model.value} value={model.value}>{model.label}</option>)}
+    </select>
+);
+
+const OnErrorSelect: React.FC<{ value?: 'stop' | 'skip'; onChange: (value: 'stop' | 'skip') => void }> = ({ value, onChange }) => (
+    <select className={selectClass} value={value ?? 'stop'} onChange={(e) => onChange(e.target.value as 'stop' | 'skip')} title="What to do when the step fails">
+        <option value="stop">Stop on error</option>
+        <option value="skip">Skip on error</option>
+    </select>
+);
+
+// --- Modal ---
+
+const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText, onComplete, defaultModel = DEFAULT_EVOLVE_MODEL }) => {
+    const { versionControlService } = useTelemetry();
+    const [isRendered, setIsRendered] = useState(false);
+    const [savedPipelines, setSavedPipelines] = useState<EvolvePipeline[]>(loadEvolvePipelines);
+    const [pipeline, setPipeline] = useState<EvolvePipeline>(() => createEvolvePipeline('Untitled pipeline', defaultModel));
+    const [isDirty, setIsDirty] = useState(false);
+    const [view, setView] = useState<'builder' | 'running' | 'results'>('builder');
+    const [run, setRun] = useState<EvolveRun | null>(null);
+    const [liveResults, setLiveResults] = useState<EvolveResult[]>([]);
+    const [currentStepLabel, setCurrentStepLabel] = useState('');
+    const [notice, setNotice] = useState<{ kind: 'info' | 'error'; text: string } | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
     useEffect(() => {
         if (isOpen) {
             setIsRendered(true);
         } else {
             const timer = setTimeout(() => {
                 setIsRendered(false);
-                setChain([]);
-                setResults([]);
+                setRun(null);
+                setLiveResults([]);
+                setNotice(null);
                 setView('builder');
             }, 300);
             return () => clearTimeout(timer);
         }
     }, [isOpen]);
-    
-    const handleRunWorkflow = useCallback(async () => {
-        setView('running');
-        setResults([]);
-        let currentText = initialText;
-        const newResults: EvolveResult[] = [];
-
-        for (let i = 0; i < chain.length; i++) {
-            setCurrentStep(i);
-            const step = chain[i];
-            try {
-                const { resultText } = await performShunt(currentText, step.action, 'gemini-2.5-flash');
-                currentText = resultText;
-                newResults.push({ stepId: step.id, action: step.action, output: resultText, status: 'success' });
-            } catch (error) {
-                const errorMessage = error instanceof Error ? error.message : 'An unknown error occurred';
-                newResults.push({ stepId: step.id, action: step.action, output: '', status: 'error', error: errorMessage });
-                setResults(newResults);
-                setView('results');
-                return;
-            }
-        }
-        setResults(newResults);
-        setView('results');
-    }, [chain, initialText]);
 
-    const handleApply = () => {
-        if (results.length > 0) {
-            const finalResult = results[results.length - 1];
-            if (finalResult.status === 'success') {
-                onComplete(finalResult.output);
-            }
-        }
+    const updatePipeline = (changes: Partial<EvolvePipeline>) => {
+        setPipeline(prev => ({ ...prev, ...changes }));
+        setIsDirty(true);
     };
 
-    // --- Drag and Drop Handlers ---
-    const handleActionDragStart = (e: React.DragEvent<HTMLButtonElement>, action: ShuntAction) => {
-        e.dataTransfer.setData('application/shunt-action', action);
-        e.dataTransfer.effectAllowed = 'copy';
+    const handleSave = () => {
+        const saved = saveEvolvePipeline(pipeline);
+        setPipeline(saved);
+        setSavedPipelines(loadEvolvePipelines());
+        setIsDirty(false);
+        setNotice({ kind: 'info', text: `Saved "${saved.name}".` });
     };
-    
-    const handleChainDragOver = (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault();
-        e.dataTransfer.dropEffect = 'move';
-    };
-    
-    const handleDropOnChain = (e: React.DragEvent<HTMLDivElement>) => {
-        e.preventDefault();
-        const action = e.dataTransfer.getData('application/shunt-action') as ShuntAction;
-        const draggedId = e.dataTransfer.getData('application/step-id');
 
-        if (action) { // From action list
-            const newStep: EvolveStep = { id: uuidv4(), action };
-            if (dragOverIndex === null) {
-                setChain(prev => [...prev, newStep]);
-            } else {
-                setChain(prev => {
-                    const newChain = [...prev];
-                    newChain.splice(dragOverIndex, 0, newStep);
-                    return newChain;
-                });
-            }
-        } else if (draggedId) { // Reordering within chain
-            const draggedIndex = chain.findIndex(step => step.id === draggedId);
-            if (draggedIndex === -1 || dragOverIndex === null) return;
-            
-            setChain(prev => {
-                const newChain = [...prev];
-                const [movedItem] = newChain.splice(draggedIndex, 1);
-                newChain.splice(dragOverIndex, 0, movedItem);
-                return newChain;
-            });
+    const handleSelectPipeline = (id: string) => {
+        if (id === 'new') {
+            setPipeline(createEvolvePipeline('Untitled pipeline', defaultModel));
+        } else {
+            const selected = savedPipelines.find(p => p.id === id);
+            if (selected) setPipeline(selected);
         }
-        setDragOverIndex(null);
+        setIsDirty(false);
+        setNotice(null);
     };
-    
-    const handleStepDragStart = (e: React.DragEvent<HTMLDivElement>, stepId: string) => {
-        e.dataTransfer.setData('application/step-id', stepId);
-        e.dataTransfer.effectAllowed = 'move';
+
+    const handleDelete = () => {
+        deleteEvolvePipeline(pipeline.id);
+        setSavedPipelines(loadEvolvePipelines());
+        setPipeline(createEvolvePipeline('Untitled pipeline', defaultModel));
+        setIsDirty(false);
+        setNotice({ kind: 'info', text: `Deleted "${pipeline.name}".` });
     };
 
-    const removeStep = (id: string) => {
-        setChain(prev => prev.filter(step => step.id !== id));
+    const handleExport = () => {
+        const blob = new Blob([exportEvolvePipeline(pipeline)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${pipeline.name.replace(/[^a-z0-9-_]+/gi, '_')}.evolve.json`;
+        link.click();
+        URL.revokeObjectURL(url);
     };
 
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const imported = importEvolvePipeline(await file.text());
+            setPipeline(imported);
+            setIsDirty(true);
+            setNotice({ kind: 'info', text: `Imported "${imported.name}". Save it to keep it.` });
+        } catch (error) {
+            setNotice({ kind: 'error', text: error instanceof Error ? error.message : 'Failed to import pipeline.' });
+        }
+    };
+
+    const handleRunWorkflow = useCallback(async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setView('running');
+        setLiveResults([]);
+        setRun(null);
+
+        const completed = await runEvolvePipeline(pipeline, initialText, {
+            signal: controller.signal,
+            onStepStart: (step) => setCurrentStepLabel(step.type === 'branch' ? 'Evaluating branch' : step.type === 'fanout' ? `Fan-out: ${step.actions.join(', ')}` : step.action),
+            onResult: (_result, results) => setLiveResults(results),
+        });
+
+        abortRef.current = null;
+        setRun(completed);
+        setView('results');
+        if (versionControlService) {
+            recordEvolveRun(versionControlService, completed).catch(error => console.error('Failed to record Evolve run', error));
+        }
+    }, [pipeline, initialText, versionControlService]);
+
+    const handleApply = () => {
+        if (run?.status === 'success') {
+            onComplete(run.output);
+        }
+    };
 
     if (!isRendered) return null;
 
-    const finalResult = results.length > 0 ? results[results.length - 1] : null;
+    const results = run?.results ?? liveResults;
 
     return (
         <div className={`fixed inset-0 z-50 flex items-center justify-center p-4 modal-backdrop ${isOpen ? 'bg-black/70' : 'bg-black/0'}`}>
@@ -140,15 +357,51 @@ const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText,
                         <XMarkIcon className="w-6 h-6" />
                     </button>
                 </header>
+
+                {view === 'builder' && (
+                    <div className="flex flex-wrap items-center gap-2 px-6 pt-4 text-sm">
+                        <select className={selectClass} value={savedPipelines.some(p => p.id === pipeline.id) ? pipeline.id : 'new'} onChange={(e) => handleSelectPipeline(e.target.value)} aria-label="Saved pipelines">
+                            <option value="new">New pipeline</option>
+                            {savedPipelines.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                        </select>
+                        <input
+                            value={pipeline.name}
+                            onChange={(e) => updatePipeline({ name: e.target.value })}
+                            className="bg-gray-900/60 border border-gray-600 rounded px-2 py-1 text-gray-200 flex-grow min-w-[10rem]"
+                            aria-label="Pipeline name"
+                        />
+                        <select className={selectClass} value={pipeline.defaultModel} onChange={(e) => updatePipeline({ defaultModel: e.target.value })} aria-label="Pipeline model">
+                            {EVOLVE_MODELS.map(model => <option key={model.value} value={model.value}>{model.label}</option>)}
+                        </select>
+                        <button onClick={handleSave} disabled={!pipeline.name.trim()} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600 disabled:opacity-50" title="Save pipeline">
+                            <DeviceFloppyIcon className="w-4 h-4" /> Save{isDirty ? '*' : ''}
+                        </button>
+                        <button onClick={handleExport} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600" title="Download as JSON">
+                            <DownloadIcon className="w-4 h-4" /> Export
+                        </button>
+                        <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 text-gray-200 hover:bg-gray-600" title="Load a pipeline JSON file">
+                            <UploadIcon className="w-4 h-4" /> Import
+                        </button>
+                        <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={handleImport} />
+                        {savedPipelines.some(p => p.id === pipeline.id) && (
+                            <button onClick={handleDelete} className="flex items-center gap-1 px-2 py-1 rounded bg-gray-700 text-red-300 hover:bg-gray-600" title="Delete saved pipeline">
+                                <TrashIcon className="w-4 h-4" />
+                            </button>
+                        )}
+                        {notice && <p className={`w-full text-xs ${notice.kind === 'error' ? 'text-red-400' : 'text-gray-400'}`}>{notice.text}</p>}
+                    </div>
+                )}
+
                 <main className="flex-grow grid grid-cols-1 md:grid-cols-2 gap-6 p-6 overflow-hidden relative">
                     {/* Running Overlay */}
                     {view === 'running' && (
                         <div className="absolute inset-0 bg-gray-900/80 z-20 flex flex-col items-center justify-center gap-4">
                             <Loader className="w-12 h-12" />
-                            <p className="text-lg text-gray-300">Executing Step {currentStep + 1} of {chain.length}: {chain[currentStep]?.action}</p>
-                            <div className="w-1/2 bg-gray-700 rounded-full h-2.5">
-                                <div className="bg-purple-600 h-2.5 rounded-full" style={{ width: `${((currentStep + 1) / chain.length) * 100}%` }}></div>
-                            </div>
+                            <p className="text-lg text-gray-300">Running {pipeline.name}: {currentStepLabel}</p>
+                            <p className="text-sm text-gray-500">{liveResults.length} results so far</p>
+                            <button onClick={() => abortRef.current?.abort()} className="flex items-center gap-2 px-4 py-2 bg-gray-700 text-gray-200 rounded-md hover:bg-gray-600">
+                                <StopIcon className="w-4 h-4" /> Cancel after this step
+                            </button>
                         </div>
                     )}
 
@@ -156,9 +409,26 @@ const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText,
                     {view === 'builder' && (
                         <>
                             {/* Left Panel: Available Actions */}
-                            <div className="bg-gray-900/50 border border-gray-700/50 rounded-lg flex flex-col">
-                                <h3 className="p-3 font-semibold text-gray-300 border-b border-gray-700/50">Available Actions</h3>
+                            <div className="bg-gray-900/50 border border-gray-700/50 rounded-lg flex flex-col overflow-hidden">
+                                <h3 className="p-3 font-semibold text-gray-300 border-b border-gray-700/50">Available Steps</h3>
                                 <div className="p-4 overflow-y-auto space-y-4">
+                                    <div>
+                                        <h4 className="text-xs font-bold uppercase text-gray-500 mb-2">Control Flow</h4>
+                                        <div className="space-y-2">
+                                            {([['branch', 'Branch (if / otherwise)', 'Run different steps depending on output length, content or grade score'], ['fanout', 'Fan-out (parallel actions)', 'Run several actions on the same text in parallel and merge the results']] as const).map(([kind, label, description]) => (
+                                                <button
+                                                    key={kind}
+                                                    draggable
+                                                    onDragStart={(e) => { e.dataTransfer.setData('application/evolve-step-kind', kind); e.dataTransfer.effectAllowed = 'copy'; }}
+                                                    className="w-full flex items-center gap-3 p-2 rounded-md bg-gray-700/50 text-gray-300 hover:bg-gray-700 text-sm transition-colors cursor-grab"
+                                                    title={description}
+                                                >
+                                                    {kind === 'branch' ? <BranchingIcon className="w-4 h-4 flex-shrink-0" /> : <ArrowPathIcon className="w-4 h-4 flex-shrink-0" />}
+                                                    <span>{label}</span>
+                                                </button>
+                                            ))}
+                                        </div>
+                                    </div>
                                     {actionGroups.map(group => (
                                         <div key={group}>
                                             <h4 className="text-xs font-bold uppercase text-gray-500 mb-2">{group}</h4>
@@ -167,7 +437,7 @@ const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText,
                                                     <button
                                                         key={action}
                                                         draggable
-                                                        onDragStart={(e) => handleActionDragStart(e, action)}
+                                                        onDragStart={(e) => { e.dataTransfer.setData('application/shunt-action', action); e.dataTransfer.effectAllowed = 'copy'; }}
                                                         className="w-full flex items-center gap-3 p-2 rounded-md bg-gray-700/50 text-gray-300 hover:bg-gray-700 text-sm transition-colors cursor-grab"
                                                         title={shuntActionDescriptions[action]}
                                                     >
@@ -182,38 +452,16 @@ const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText,
                                 </div>
                             </div>
 
-                            {/* Right Panel: Evolve Chain */}
-                            <div
-                                onDragOver={handleChainDragOver}
-                                onDrop={handleDropOnChain}
-                                onDragEnter={() => setDragOverIndex(chain.length)}
-                                className="bg-gray-900/50 border-2 border-dashed border-gray-700/50 rounded-lg flex flex-col"
-                            >
-                                <h3 className="p-3 font-semibold text-gray-300 border-b border-gray-700/50">Evolve Chain ({chain.length} steps)</h3>
-                                <div className="p-4 overflow-y-auto space-y-2">
-                                    {chain.length === 0 ? (
-                                        <div className="flex items-center justify-center h-full text-gray-500">
-                                            <p>Drag actions here to build your workflow.</p>
-                                        </div>
-                                    ) : (
-                                        chain.map((step, index) => (
-                                            <div
-                                                key={step.id}
-                                                draggable
-                                                onDragStart={(e) => handleStepDragStart(e, step.id)}
-                                                onDragEnter={() => setDragOverIndex(index)}
-                                                className={`flex items-center justify-between p-3 rounded-md bg-gray-700/80 text-gray-200 cursor-grab group ${dragOverIndex === index ? 'ring-2 ring-purple-500' : ''}`}
-                                            >
-                                                <div className="flex items-center gap-3">
-                                                    <span className="font-mono text-xs text-gray-400">{index + 1}.</span>
-                                                    <span className="font-semibold">{step.action}</span>
-                                                </div>
-                                                <button onClick={() => removeStep(step.id)} className="p-1 text-gray-500 hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity">
-                                                    <XMarkIcon className="w-4 h-4" />
-                                                </button>
-                                            </div>
-                                        ))
-                                    )}
+                            {/* Right Panel: Pipeline Steps */}
+                            <div className="bg-gray-900/50 border-2 border-dashed border-gray-700/50 rounded-lg flex flex-col overflow-hidden">
+                                <h3 className="p-3 font-semibold text-gray-300 border-b border-gray-700/50">Pipeline ({pipeline.steps.length} steps)</h3>
+                                <div className="p-4 overflow-y-auto flex-grow">
+                                    <StepList
+                                        steps={pipeline.steps}
+                                        depth={0}
+                                        emptyText="Drag actions, branches and fan-outs here to build your pipeline."
+                                        onChange={(steps) => updatePipeline({ steps })}
+                                    />
                                 </div>
                             </div>
                         </>
@@ -223,21 +471,24 @@ const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText,
                     {view === 'results' && (
                         <div className="md:col-span-2 bg-gray-900/50 border border-gray-700/50 rounded-lg p-4 flex flex-col overflow-hidden">
                              <h3 className="text-lg font-semibold text-gray-200 mb-4">Workflow Results</h3>
-                             <div className="overflow-y-auto space-y-4 pr-2">
+                             <div className="overflow-y-auto space-y-3 pr-2">
                                 {results.map((result, index) => (
-                                    <details key={result.stepId} className="bg-gray-800/60 rounded-lg border border-gray-700" open={index === results.length - 1}>
+                                    <details key={`${result.stepId}-${index}`} className="bg-gray-800/60 rounded-lg border border-gray-700" style={{ marginLeft: `${result.depth * 1.5}rem` }} open={index === results.length - 1}>
                                         <summary className="p-3 cursor-pointer flex items-center justify-between font-semibold">
                                             <div className="flex items-center gap-3">
-                                                {result.status === 'success' ? <CheckIcon className="w-5 h-5 text-green-400"/> : <ErrorIcon className="w-5 h-5 text-red-400"/>}
-                                                <span>Step {index + 1}: {result.action}</span>
+                                                {result.status === 'success' && <CheckIcon className="w-5 h-5 text-green-400"/>}
+                                                {result.status === 'error' && <ErrorIcon className="w-5 h-5 text-red-400"/>}
+                                                {result.status === 'skipped' && <ErrorIcon className="w-5 h-5 text-yellow-400"/>}
+                                                <span>{result.label}</span>
                                             </div>
-                                            <span className="text-xs text-gray-500">Click to {index === results.length - 1 ? 'collapse' : 'expand'}</span>
+                                            <span className="text-xs text-gray-500">
+                                                {[result.model, result.attempts && result.attempts > 1 ? `${result.attempts} attempts` : null, result.score !== undefined ? `score ${result.score}` : null, result.status === 'skipped' ? 'skipped' : null].filter(Boolean).join(' · ')}
+                                            </span>
                                         </summary>
                                         <div className="p-4 border-t border-gray-700 bg-black/20">
-                                            {result.status === 'success' ? (
+                                            {result.error && <p className="text-red-400 mb-2">Error: {result.error}</p>}
+                                            {result.status !== 'error' && result.kind !== 'branch' && (
                                                 <pre className="text-sm text-gray-300 whitespace-pre-wrap font-sans">{result.output}</pre>
-                                            ) : (
-                                                <p className="text-red-400">Error: {result.error}</p>
                                             )}
                                         </div>
                                     </details>
@@ -247,33 +498,38 @@ const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText,
                     )}
                 </main>
                 <footer className="p-4 bg-gray-900/50 border-t border-gray-700/50 rounded-b-lg flex justify-end items-center gap-4">
-                     {view === 'results' && finalResult?.status === 'success' && (
+                     {view === 'results' && run?.status === 'success' && (
                         <div className="flex items-center gap-2 text-sm text-green-400 mr-auto">
                             <CheckIcon className="w-5 h-5" />
                             <span>Workflow completed successfully.</span>
                         </div>
                      )}
-                     {view === 'results' && finalResult?.status === 'error' && (
+                     {view === 'results' && run && run.status !== 'success' && (
                         <div className="flex items-center gap-2 text-sm text-red-400 mr-auto">
                             <ErrorIcon className="w-5 h-5" />
-                            <span>Workflow failed.</span>
+                            <span>{run.status === 'cancelled' ? 'Workflow cancelled.' : 'Workflow failed.'}</span>
                         </div>
                      )}
-                     
+
                     <button onClick={onClose} className="px-4 py-2 bg-gray-600 text-white font-semibold rounded-md hover:bg-gray-500 transition-colors">
                         Close
                     </button>
+                    {view === 'results' && (
+                        <button onClick={() => setView('builder')} className="px-4 py-2 bg-gray-700 text-white font-semibold rounded-md hover:bg-gray-600 transition-colors">
+                            Edit Pipeline
+                        </button>
+                    )}
                     {view === 'builder' && (
                         <button
                             onClick={handleRunWorkflow}
-                            disabled={chain.length === 0}
+                            disabled={pipeline.steps.length === 0}
                             className="px-6 py-2 bg-purple-600 text-white font-semibold rounded-md hover:bg-purple-500 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors flex items-center gap-2"
                         >
                             <BoltIcon className="w-5 h-5" />
                             Run Workflow
                         </button>
                     )}
-                     {view === 'results' && finalResult?.status === 'success' && (
+                     {view === 'results' && run?.status === 'success' && (
                         <button
                             onClick={handleApply}
                             className="px-6 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-500 transition-colors flex items-center gap-2"
@@ -288,4 +544,4 @@ const EvolveModal: React.FC<EvolveModalProps> = ({ isOpen, onClose, initialText,
     );
 };
 
-export default EvolveModal;
\ No newline at end of file
+export default EvolveModal;
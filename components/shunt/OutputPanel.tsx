@@ -67,12 +67,17 @@ const OutputPanel: React.FC<OutputPanelProps> = ({ text, isLoading, error, activ
       </div>
       {!isMinimized && (
       <div className="p-4 flex-grow relative overflow-auto">
-        {isLoading && (
+        {isLoading && !text && (
           <div className="absolute inset-0 flex flex-col justify-center items-center bg-gray-800/50 backdrop-blur-sm z-10">
             <Loader />
             <p className="mt-4 text-gray-400">{activeShunt || 'Processing...'}</p>
           </div>
         )}
+        {isLoading && text && (
+          <div className="absolute top-2 right-2 z-20 flex items-center gap-2 text-xs px-2 py-1 rounded-md bg-gray-900/60 border border-gray-600/50 text-cyan-300 animate-pulse" role="status">
+            <span>Streaming {activeShunt || 'output'}...</span>
+          </div>
+        )}
         {error && (
           <div className="flex flex-col items-center justify-center h-full text-center">
             <ErrorIcon className="w-12 h-12 text-red-500 mb-4" />
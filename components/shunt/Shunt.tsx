@@ -6,7 +6,7 @@ import InputPanel from './InputPanel';
 import ControlPanel from './ControlPanel';
 import OutputPanel from './OutputPanel';
 import PromptLifecyclePanel from './PromptLifecyclePanel';
-import { performShunt, executeModularPrompt, gradeOutput, synthesizeDocuments } from '../../services/geminiService';
+import { performShunt, performShuntStream, performShuntBatch, executeModularPrompt, gradeOutput, synthesizeDocuments } from '../../services/geminiService';
 import { ShuntAction, TokenUsage, PromptModuleKey, HistoryEntry } from '../../types';
 import { useValidation } from '../../hooks/useValidation';
 import { useTelemetry } from '../../context/TelemetryContext';
@@ -32,6 +32,7 @@ import Loader from '../Loader';
 import { executeTool, ExecutionContext, ToolResult } from '../../services/toolApi';
 import FlowDiagram from './FlowDiagram';
 import { MultiAgentOrchestrator } from '../../services/multiAgentOrchestrator.service';
+import { getIntelligenceService } from '../../services/intelligenceService';
 
 const EvolveModal = lazy(() => import('./EvolveModal'));
 
@@ -149,6 +150,14 @@ interface BulletinDocument {
     content: string;
 }
 
+const actionSlug = (action: ShuntAction): string => action.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// File name for one document's batch output, e.g. notes.md -> notes.proofread-fix.md
+const batchOutputName = (name: string, action: ShuntAction): string => {
+    const extension = action === ShuntAction.FORMAT_JSON || action === ShuntAction.GENERATE_VAM_PRESET ? 'json' : 'md';
+    return `${name.replace(/\.[^./]+$/, '') || 'document'}.${actionSlug(action)}.${extension}`;
+};
+
 const Shunt: React.FC = () => {
   const [inputText, setInputText] = useState(() => localStorage.getItem('shunt_inputText') || DEFAULT_INPUT_TEXT);
   const [outputText, setOutputText] = useState(() => localStorage.getItem('shunt_outputText') || '');
@@ -210,7 +219,7 @@ const Shunt: React.FC = () => {
   const { telemetryService, versionControlService } = useTelemetry();
   const { deliverFiles } = useMailbox();
   const { extensionApi, status: mcpStatus } = useMCPContext();
-  const { usage, tierDetails, incrementUsage } = useSubscription();
+  const { usage, tierDetails, incrementUsage, refreshUsage } = useSubscription();
   const { settings } = useSettings();
   const { callLmStudio, isLmStudioLoading, lmStudioError } = useLmStudio();
 
@@ -479,8 +488,11 @@ const Shunt: React.FC = () => {
     try {
         let resultText: string;
         let tokenUsage: TokenUsage;
+        let provider: string = 'lm-studio-browser';
+        let fallbackFrom: string[] = [];
+        let cacheHit = false;
 
-        // Check if using LM Studio as primary model
+        // LM Studio runs against the endpoint configured in the browser; everything else goes through the backend model router
         if (selectedModel === 'lm-studio') {
             const promptForLocal = getPromptForAction(sanitizedText, action as ShuntAction, bulletinContext, priority, settings.promptInjectionGuardEnabled);
             const lmResult = await callLmStudio(promptForLocal, settings.lmStudioEndpoint);
@@ -492,9 +504,24 @@ const Shunt: React.FC = () => {
                 model: 'lm-studio-local'
             };
         } else {
-            const geminiResult = await performShunt(sanitizedText, action as ShuntAction, selectedModel, bulletinContext, priority, settings.promptInjectionGuardEnabled);
+            const cacheMode = !settings.responseCacheEnabled ? 'off' : settings.semanticCacheEnabled ? 'semantic' : 'exact';
+            const embedding = cacheMode === 'semantic' ? await getIntelligenceService().embed(sanitizedText) : undefined;
+            const geminiResult = await performShuntStream(
+                sanitizedText,
+                action as ShuntAction,
+                selectedModel,
+                (_chunk, accumulatedText) => setOutputText(accumulatedText),
+                bulletinContext,
+                priority,
+                settings.promptInjectionGuardEnabled,
+                undefined,
+                { allowFallback: settings.localModelFallbackEnabled, cache: cacheMode, embedding }
+            );
             resultText = geminiResult.resultText;
             tokenUsage = geminiResult.tokenUsage;
+            provider = geminiResult.provider ?? 'gemini';
+            fallbackFrom = geminiResult.routing?.fallbackFrom ?? [];
+            cacheHit = geminiResult.cache?.hit ?? false;
         }
 
         if (action === ShuntAction.BUILD_A_SKILL) {
@@ -508,7 +535,7 @@ const Shunt: React.FC = () => {
                     await Promise.all(
                         files.map(file => extensionApi.fs!.saveFile(file.path, file.content))
                     );
-                    setOutputText(`✅ Skill package '${skillName}' shunted directly to your computer!\n\n${files.length} file(s) are now on your local filesystem and also available in your Mailbox.`);
+                    setOutputText(`✅ Skill package '${skillName}' shunted directly to your computer!\n\n${files.length} file(s) are now on your local filesystem and also available in your Mailbox (~/mailbox/${skillName} in the Terminal).`);
                 } else {
                     const zip = new JSZip();
                     files.forEach(file => { zip.file(file.path, file.content); });
@@ -518,7 +545,7 @@ const Shunt: React.FC = () => {
                     link.download = `${skillName}.zip`;
                     link.click();
                     URL.revokeObjectURL(link.href);
-                    setOutputText(`✅ Skill package generated successfully!\n\n${files.length} file(s) have been delivered to your Mailbox and downloaded as \`${skillName}.zip\`.\n\n(Tip: Connect the MCP Browser Extension to shunt files directly to your computer).`);
+                    setOutputText(`✅ Skill package generated successfully!\n\n${files.length} file(s) have been delivered to your Mailbox (~/mailbox/${skillName} in the Terminal) and downloaded as \`${skillName}.zip\`.\n\n(Tip: Connect the MCP Browser Extension to shunt files directly to your computer).`);
                 }
                 audioService.playSound('success');
             } else {
@@ -545,33 +572,16 @@ const Shunt: React.FC = () => {
             outcome: 'success',
             tokenUsage: tokenUsage ?? undefined,
             modelUsed: tokenUsage.model,
-            customData: { action, priority }
+            customData: { action, priority, provider, fallbackFrom, cacheHit }
         });
         versionControlService?.captureVersion('shunt_interaction', 'shunt_output', JSON.stringify({ input: textToProcess, output: resultText, action, model: tokenUsage.model, tokenUsage, priority }, null, 2), 'ai_response', `Shunt action: ${action}`);
 
     } catch (e: any) {
-        const apiError = parseApiError(e);
-        if (settings.localModelFallbackEnabled && (apiError.includes('rate limit') || apiError.includes('429'))) {
-            try {
-                console.warn(`Gemini rate limit hit. Falling back to local model for action: ${action}.`);
-                setError(null);
-                setActiveShunt(`Fallback: ${action}`);
-                const promptForLocal = getPromptForAction(sanitizedText, action as ShuntAction, bulletinContext, priority, settings.promptInjectionGuardEnabled);
-                const { resultText } = await callLmStudio(promptForLocal, settings.lmStudioEndpoint);
-                
-                setOutputText(`[LOCAL MODEL FALLBACK]\n\n---\n\n${resultText}`);
-                setLastTokenUsage(null);
-                audioService.playSound('receive');
-                telemetryService?.recordEvent({ eventType: 'ai_response', interactionType: 'shunt_action_fallback', tab: 'Shunt', outcome: 'success', modelUsed: 'local-model', customData: { action, priority } });
-            } catch (fallbackError: any) {
-                const telemetryContext = { context: 'Shunt.handleShunt.fallback', action, selectedModel, priority };
-                handleApiError(fallbackError, telemetryContext);
-            }
-        } else {
-            const telemetryContext = { context: 'Shunt.handleShunt', action, selectedModel, priority };
-            handleApiError(e, telemetryContext);
-            telemetryService?.recordEvent({ eventType: 'ai_response', interactionType: 'shunt_action', tab: 'Shunt', outcome: 'error', customData: { action, priority, error: e.message || 'An unknown error occurred.' } });
-        }
+        setOutputText(''); // Drop any partially streamed output
+        // Falling back to local models happens in the backend model router, so errors here are final
+        const telemetryContext = { context: 'Shunt.handleShunt', action, selectedModel, priority };
+        handleApiError(e, telemetryContext);
+        telemetryService?.recordEvent({ eventType: 'ai_response', interactionType: 'shunt_action', tab: 'Shunt', outcome: 'error', customData: { action, priority, error: e.message || 'An unknown error occurred.' } });
     } finally {
         setIsLoading(false);
         setActiveShunt(null);
@@ -803,6 +813,109 @@ const Shunt: React.FC = () => {
     }
   }, [bulletinDocuments, isLoading, checkRateLimit, handleApiError, incrementUsage, selectedModel, telemetryService, tierDetails.shuntRuns, usage.shuntRuns]);
 
+  const handleBatchShunt = useCallback(async (action: ShuntAction) => {
+    if (bulletinDocuments.length === 0 || isLoading) return;
+    if (tierDetails.shuntRuns !== 'unlimited' && usage.shuntRuns + bulletinDocuments.length > tierDetails.shuntRuns) {
+        const remaining = Math.max(0, tierDetails.shuntRuns - usage.shuntRuns);
+        setError(`This batch needs ${bulletinDocuments.length} Shunt runs, but only ${remaining} remain this month. Remove some documents or upgrade your plan in the Subscription tab.`);
+        audioService.playSound('error');
+        return;
+    }
+    if (selectedModel === 'lm-studio') {
+        setError('Batch runs go through the backend. Select a Gemini model to run a batch.');
+        audioService.playSound('error');
+        return;
+    }
+    if (checkRateLimit()) return;
+
+    const documents = bulletinDocuments;
+    setIsLoading(true);
+    setError(null);
+    setOutputText('');
+    setModulesForLastRun(null);
+    setShowAmplifyX2(false);
+    setActiveShunt(`Batch: ${action}`);
+    audioService.playSound('send');
+
+    try {
+        const batch = await performShuntBatch(
+            documents.map((doc, index) => ({
+                id: String(index),
+                text: settings.inputSanitizationEnabled ? sanitizeInput(doc.content) : doc.content,
+            })),
+            action,
+            selectedModel,
+            undefined,
+            priority,
+            settings.promptInjectionGuardEnabled,
+            { allowFallback: settings.localModelFallbackEnabled, cache: settings.responseCacheEnabled ? 'exact' : 'off' }
+        );
+
+        const zip = new JSZip();
+        const usedNames = new Set<string>();
+        const report = batch.results.map(result => {
+            const doc = documents[Number(result.id)];
+            if ('error' in result) {
+                return { document: doc.name, error: result.error };
+            }
+            let fileName = batchOutputName(doc.name, action);
+            if (usedNames.has(fileName)) fileName = `${result.id}-${fileName}`;
+            usedNames.add(fileName);
+            zip.file(fileName, result.resultText);
+            return { document: doc.name, output: fileName, provider: result.provider, cacheHit: result.cache.hit, tokens: result.tokenUsage.total_tokens };
+        });
+        zip.file('batch-report.json', JSON.stringify({ action, model: selectedModel, summary: batch.summary, tokenUsage: batch.tokenUsage, items: report }, null, 2));
+
+        const archiveName = `batch-${actionSlug(action)}.zip`;
+        if (batch.summary.succeeded > 0) {
+            const zipBlob = await zip.generateAsync({ type: 'blob' });
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(zipBlob);
+            link.download = archiveName;
+            link.click();
+            URL.revokeObjectURL(link.href);
+        }
+
+        const failures = report.filter(item => 'error' in item).map(item => `- ${item.document}: ${item.error}`);
+        setOutputText([
+            batch.summary.succeeded > 0
+                ? `✅ ${action} applied to ${batch.summary.succeeded} of ${batch.summary.total} document(s) and downloaded as \`${archiveName}\`.`
+                : `⚠️ ${action} failed for all ${batch.summary.total} document(s).`,
+            batch.summary.cacheHits > 0 ? `${batch.summary.cacheHits} result(s) came from the response cache.` : '',
+            failures.length > 0 ? `Failed documents:\n${failures.join('\n')}` : '',
+        ].filter(Boolean).join('\n\n'));
+        audioService.playSound(batch.summary.failed === 0 ? 'success' : 'error');
+
+        // The backend counts one shunt run per processed document
+        refreshUsage();
+        setLastTokenUsage({ ...batch.tokenUsage, model: selectedModel });
+
+        telemetryService?.recordEvent({
+            eventType: 'ai_response',
+            interactionType: 'batch_shunt',
+            tab: 'Shunt',
+            outcome: batch.summary.failed === 0 ? 'success' : batch.summary.succeeded > 0 ? 'incomplete' : 'failure',
+            tokenUsage: { ...batch.tokenUsage, model: selectedModel },
+            modelUsed: selectedModel,
+            latency: batch.latencyMs,
+            customData: { action, priority, ...batch.summary }
+        });
+    } catch (e: any) {
+        const telemetryContext = { context: 'Shunt.handleBatchShunt', action, selectedModel };
+        handleApiError(e, telemetryContext);
+        telemetryService?.recordEvent({
+            eventType: 'ai_response',
+            interactionType: 'batch_shunt',
+            tab: 'Shunt',
+            outcome: 'error',
+            customData: { action, documentCount: documents.length, error: e.message || 'An unknown error occurred.' }
+        });
+    } finally {
+        setIsLoading(false);
+        setActiveShunt(null);
+    }
+  }, [bulletinDocuments, isLoading, checkRateLimit, handleApiError, refreshUsage, selectedModel, priority, settings, telemetryService, tierDetails.shuntRuns, usage.shuntRuns]);
+
   const handleAttachScratchpad = useCallback((content: string) => {
     if (!content.trim()) return;
     const newDoc: BulletinDocument = {
@@ -860,6 +973,7 @@ const Shunt: React.FC = () => {
                     onToggleMinimize={() => togglePanel('bulletin')}
                     isLoading={combinedIsLoading}
                     onSynthesize={handleSynthesize}
+                    onBatchShunt={handleBatchShunt}
                     onViewDocument={setViewingDocument}
                 />
                 <InputPanel
@@ -929,6 +1043,7 @@ const Shunt: React.FC = () => {
                         onToggleMinimize={() => togglePanel('bulletin')}
                         isLoading={combinedIsLoading}
                         onSynthesize={handleSynthesize}
+                        onBatchShunt={handleBatchShunt}
                         onViewDocument={setViewingDocument}
                     />
                     <InputPanel
@@ -1041,6 +1156,7 @@ const Shunt: React.FC = () => {
                 onClose={() => setIsEvolveModalOpen(false)}
                 initialText={outputText}
                 onComplete={handleEvolveComplete}
+                defaultModel={selectedModel === 'lm-studio' ? undefined : selectedModel}
             />
         )}
       </Suspense>
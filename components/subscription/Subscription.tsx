@@ -8,8 +8,9 @@ import UpgradeModal from './UpgradeModal';
 import { StarIcon } from '../icons';
 
 const SubscriptionContent: React.FC = () => {
-    const { tier, usage, tierDetails, upgradeTier } = useSubscription();
+    const { tier, usage, tierDetails, tokenUsage, upgradeTier } = useSubscription();
     const [isModalOpen, setIsModalOpen] = useState(false);
+    const [upgradeNotice, setUpgradeNotice] = useState<string | null>(null);
 
     const handleUpgrade = () => {
         // In a real app, you might show different options.
@@ -27,6 +28,9 @@ const SubscriptionContent: React.FC = () => {
                             Subscription & Usage
                         </h2>
                         <p className="text-gray-400 mt-2">Manage your plan and track your usage of AI features.</p>
+                        {upgradeNotice && (
+                            <p className="mt-3 text-sm text-amber-300 bg-amber-900/20 border border-amber-700/50 rounded-md px-3 py-2">{upgradeNotice}</p>
+                        )}
                     </header>
 
                     <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
@@ -44,17 +48,29 @@ const SubscriptionContent: React.FC = () => {
                                     label="Shunt Runs"
                                     used={usage.shuntRuns}
                                     limit={tierDetails.shuntRuns}
+                                    tokens={tokenUsage ? tokenUsage.byFeature.shuntRuns ?? 0 : undefined}
                                 />
                                 <UsageMeter 
                                     label="Weaver Plans"
                                     used={usage.weaverPlans}
                                     limit={tierDetails.weaverPlans}
+                                    tokens={tokenUsage ? tokenUsage.byFeature.weaverPlans ?? 0 : undefined}
                                 />
                                 <UsageMeter 
                                     label="TRIM Agent Runs"
                                     used={usage.trimAgentRuns}
                                     limit={tierDetails.trimAgentRuns}
                                 />
+                                <UsageMeter 
+                                    label="Deployments"
+                                    used={usage.deployments}
+                                    limit={tierDetails.deployments}
+                                />
+                                {tokenUsage && (
+                                    <p className="text-sm text-gray-400 border-t border-gray-700/50 pt-4">
+                                        <span className="font-mono text-gray-300">{tokenUsage.total.toLocaleString()}</span> tokens used across all models in {tokenUsage.period}
+                                    </p>
+                                )}
                              </div>
                         </div>
                     </div>
@@ -74,9 +90,10 @@ const SubscriptionContent: React.FC = () => {
             <UpgradeModal 
                 isOpen={isModalOpen}
                 onClose={() => setIsModalOpen(false)}
-                onUpgrade={(newTier) => {
-                    upgradeTier(newTier);
+                onUpgrade={async (newTier) => {
                     setIsModalOpen(false);
+                    const upgraded = await upgradeTier(newTier);
+                    setUpgradeNotice(upgraded ? null : `Your ${newTier} plan has not been activated yet. Plan changes are applied by your administrator.`);
                 }}
             />
         </div>
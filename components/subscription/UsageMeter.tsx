@@ -5,9 +5,17 @@ interface UsageMeterProps {
     label: string;
     used: number;
     limit: number | 'unlimited';
+    /** Month-to-date tokens spent on this feature, when known */
+    tokens?: number;
 }
 
-const UsageMeter: React.FC<UsageMeterProps> = ({ label, used, limit }) => {
+const TokenLine: React.FC<{ tokens?: number }> = ({ tokens }) => (
+    tokens === undefined ? null : (
+        <p className="text-xs font-mono text-gray-500 mt-1">{tokens.toLocaleString()} tokens this month</p>
+    )
+);
+
+const UsageMeter: React.FC<UsageMeterProps> = ({ label, used, limit, tokens }) => {
     if (limit === 'unlimited') {
         return (
             <div>
@@ -18,6 +26,7 @@ const UsageMeter: React.FC<UsageMeterProps> = ({ label, used, limit }) => {
                 <div className="w-full bg-gray-700 rounded-full h-2.5">
                     <div className="bg-fuchsia-500 h-2.5 rounded-full" style={{ width: '100%' }}></div>
                 </div>
+                <TokenLine tokens={tokens} />
             </div>
         );
     }
@@ -37,6 +46,7 @@ const UsageMeter: React.FC<UsageMeterProps> = ({ label, used, limit }) => {
             <div className="w-full bg-gray-700 rounded-full h-2.5">
                 <div className={`${barColor} h-2.5 rounded-full transition-all duration-500`} style={{ width: `${percentage}%` }}></div>
             </div>
+            <TokenLine tokens={tokens} />
         </div>
     );
 };
@@ -1,65 +1,130 @@
 // components/terminal/TerminalSession.tsx
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { executeCommand } from './terminalUtils';
+import { executeCommand, completeCommandLine, createShellState, CommandResult, ShellState } from './terminalUtils';
+import { loadHistory, appendHistory, searchHistory } from './terminalHistory';
+import { formatWorkspacePath } from '../../services/workspaceFileSystem';
 
 interface OutputLine {
     id: number;
     text: string | React.ReactNode;
 }
 
+interface HistorySearch {
+    query: string;
+    /** Index into history of the current match, or -1 */
+    matchIndex: number;
+}
+
+let nextLineId = 0;
+const toOutputLines = (text: string): OutputLine[] =>
+    text.replace(/\n$/, '').split('\n').map(line => ({ id: nextLineId++, text: line }));
+
 const TerminalSession: React.FC = () => {
     const [input, setInput] = useState('');
     const [output, setOutput] = useState<OutputLine[]>([]);
-    const [history, setHistory] = useState<string[]>([]);
+    const [history, setHistory] = useState<string[]>(loadHistory);
     const [historyIndex, setHistoryIndex] = useState(-1);
-    const [currentPath, setCurrentPath] = useState('~');
+    const [shellState, setShellState] = useState<ShellState>(createShellState);
+    const [search, setSearch] = useState<HistorySearch | null>(null);
+    const [isRunning, setIsRunning] = useState(false);
     const inputRef = useRef<HTMLInputElement>(null);
     const scrollRef = useRef<HTMLDivElement>(null);
 
+    const currentPath = formatWorkspacePath(shellState.cwd);
+
     const welcomeMessage = 'Welcome to Aether Shunt Terminal. Type `help` for a list of commands.';
     useEffect(() => {
-        setOutput([{ id: Date.now(), text: welcomeMessage }]);
+        setOutput([{ id: nextLineId++, text: welcomeMessage }]);
     }, []);
-    
+
     useEffect(() => {
         if (scrollRef.current) {
             scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
         }
     }, [output]);
 
-    const handleCommand = useCallback((command: string) => {
-        const newOutput: OutputLine[] = [...output, { id: Date.now(), text: <><span className="terminal-prompt">user@aether:<span className="terminal-path">{currentPath}</span>$</span> {command}</> }];
-        
-        const result = executeCommand(command, currentPath);
-        
-        if (result.output) {
-            const resultLines = result.output.split('\n').map((line, index) => ({
-                id: Date.now() + index + 1,
-                text: line,
-            }));
-            newOutput.push(...resultLines);
-        }
+    useEffect(() => {
+        if (!isRunning) inputRef.current?.focus();
+    }, [isRunning]);
 
-        if (result.newPath) {
-            setCurrentPath(result.newPath);
+    const promptLine = useCallback((command: string): OutputLine => ({
+        id: nextLineId++,
+        text: <><span className="terminal-prompt">user@aether:<span className="terminal-path">{currentPath}</span>$</span> {command}</>,
+    }), [currentPath]);
+
+    const handleCommand = useCallback(async (command: string) => {
+        setOutput(prev => [...prev, promptLine(command)]);
+
+        const updatedHistory = command.trim() ? appendHistory(command) : history;
+        setHistory(updatedHistory);
+        setHistoryIndex(-1);
+
+        setIsRunning(true);
+        let result: CommandResult;
+        try {
+            result = await executeCommand(command, shellState, updatedHistory);
+        } catch (error) {
+            result = { output: `error: ${error instanceof Error ? error.message : String(error)}`, state: shellState, exitCode: 1 };
         }
+        setIsRunning(false);
+        setShellState(result.state);
 
+        const resultLines = result.output ? toOutputLines(result.output) : [];
         if (result.clear) {
-            setOutput([{ id: Date.now(), text: welcomeMessage }]);
-        } else {
-            setOutput(newOutput);
+            setOutput([{ id: nextLineId++, text: welcomeMessage }, ...resultLines]);
+        } else if (resultLines.length > 0) {
+            setOutput(prev => [...prev, ...resultLines]);
         }
+    }, [shellState, history, promptLine, welcomeMessage]);
 
-        if (command) {
-            setHistory(prev => [command, ...prev]);
+    const handleComplete = async () => {
+        const { line, candidates } = await completeCommandLine(input, shellState);
+        setInput(line);
+        if (candidates.length > 0) {
+            setOutput(prev => [...prev, promptLine(input), { id: nextLineId++, text: candidates.join('  ') }]);
         }
-        setHistoryIndex(-1);
-    }, [output, currentPath, welcomeMessage]);
+    };
+
+    const updateSearch = (query: string, fromIndex = 0) => {
+        setSearch({ query, matchIndex: searchHistory(history, query, fromIndex) });
+    };
+
+    const handleSearchKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, current: HistorySearch) => {
+        const match = current.matchIndex >= 0 ? history[current.matchIndex] : '';
+        if (e.key === 'r' && e.ctrlKey) {
+            e.preventDefault();
+            // Again: the next older match
+            updateSearch(current.query, current.matchIndex + 1);
+        } else if (e.key === 'Enter') {
+            e.preventDefault();
+            setSearch(null);
+            setInput('');
+            handleCommand(match);
+        } else if (e.key === 'Escape' || (e.key === 'g' && e.ctrlKey)) {
+            e.preventDefault();
+            setSearch(null);
+        } else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight' || e.key === 'Tab') {
+            // Accept the match for editing
+            e.preventDefault();
+            setSearch(null);
+            setInput(match);
+        }
+    };
 
     const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (search) {
+            handleSearchKeyDown(e, search);
+            return;
+        }
         if (e.key === 'Enter') {
             handleCommand(input);
             setInput('');
+        } else if (e.key === 'Tab') {
+            e.preventDefault();
+            handleComplete();
+        } else if (e.key === 'r' && e.ctrlKey) {
+            e.preventDefault();
+            updateSearch(input);
         } else if (e.key === 'ArrowUp') {
             e.preventDefault();
             if (historyIndex < history.length - 1) {
@@ -79,10 +144,12 @@ const TerminalSession: React.FC = () => {
             }
         } else if (e.key === 'l' && e.ctrlKey) {
             e.preventDefault();
-            setOutput([{ id: Date.now(), text: welcomeMessage }]);
+            setOutput([{ id: nextLineId++, text: welcomeMessage }]);
         }
     };
 
+    const searchMatch = search && search.matchIndex >= 0 ? history[search.matchIndex] : '';
+
     return (
         <div
             className="terminal-container"
@@ -92,20 +159,28 @@ const TerminalSession: React.FC = () => {
                 {output.map(line => (
                     <div key={line.id} className="whitespace-pre-wrap break-words">{line.text}</div>
                 ))}
-                <div className="terminal-input-line">
-                    <span className="terminal-prompt">user@aether:<span className="terminal-path">{currentPath}</span>$</span>
-                    <input
-                        ref={inputRef}
-                        type="text"
-                        value={input}
-                        onChange={(e) => setInput(e.target.value)}
-                        onKeyDown={handleKeyDown}
-                        className="terminal-input"
-                        autoFocus
-                        spellCheck="false"
-                    />
-                    <span className="terminal-cursor"></span>
-                </div>
+                {!isRunning && (
+                    <div className="terminal-input-line">
+                        {search ? (
+                            <span className="terminal-prompt">
+                                ({search.query && search.matchIndex < 0 ? 'failed ' : ''}reverse-i-search) {searchMatch} :
+                            </span>
+                        ) : (
+                            <span className="terminal-prompt">user@aether:<span className="terminal-path">{currentPath}</span>$</span>
+                        )}
+                        <input
+                            ref={inputRef}
+                            type="text"
+                            value={search ? search.query : input}
+                            onChange={(e) => (search ? updateSearch(e.target.value) : setInput(e.target.value))}
+                            onKeyDown={handleKeyDown}
+                            className="terminal-input"
+                            autoFocus
+                            spellCheck="false"
+                        />
+                        <span className="terminal-cursor"></span>
+                    </div>
+                )}
             </div>
         </div>
     );
@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { executeCommand, completeCommandLine, createShellState } from '../terminalUtils';
+import { parseCommandLine, ShellSyntaxError } from '../shellParser';
+import { workspaceFs } from '../../../services/workspaceFileSystem';
+import * as geminiService from '../../../services/geminiService';
+import { ShuntAction } from '../../../types';
+
+vi.mock('../../../services/geminiService', () => ({
+  performShunt: vi.fn(),
+  generateDevelopmentPlan: vi.fn(),
+}));
+
+/**
+ * Tests for the terminal shell
+ *
+ * Tests cover:
+ * - Command line parsing
+ * - Pipes, redirection and command lists
+ * - Variables
+ * - Filesystem commands
+ * - App commands
+ * - Tab completion
+ */
+
+const run = async (line: string, state = createShellState()) => executeCommand(line, state);
+
+describe('parseCommandLine', () => {
+  it('should split lists and pipelines and keep quoting', () => {
+    const pipelines = parseCommandLine(`grep -i "a b" notes.txt | wc -l > count.txt && echo 'done' # comment`);
+
+    expect(pipelines).toHaveLength(2);
+    expect(pipelines[0].commands).toHaveLength(2);
+    expect(pipelines[0].commands[1].redirects).toEqual([
+      { operator: '>', target: [{ text: 'count.txt', quote: 'none' }] },
+    ]);
+    expect(pipelines[1]).toMatchObject({ runIf: 'success' });
+  });
+
+  it('should reject dangling operators and unterminated quotes', () => {
+    expect(() => parseCommandLine('ls |')).toThrow(ShellSyntaxError);
+    expect(() => parseCommandLine('&& ls')).toThrow(ShellSyntaxError);
+    expect(() => parseCommandLine('echo "open')).toThrow(ShellSyntaxError);
+    expect(() => parseCommandLine('cat <')).toThrow(ShellSyntaxError);
+  });
+});
+
+describe('executeCommand', () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await workspaceFs.reset();
+    await workspaceFs.writeFile('/home/user/notes.txt', 'alpha\nBeta\ngamma\nbeta max\n');
+  });
+
+  it('should pipe stdout into the next command', async () => {
+    const result = await run('cat notes.txt | grep -i beta | wc -l');
+
+    expect(result.output).toBe('2\n');
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should redirect output to files and read input from files', async () => {
+    await run('grep a notes.txt > matches.txt');
+    await run('echo extra >> matches.txt');
+    const result = await run('head -n 1 < matches.txt');
+
+    await expect(workspaceFs.readFile('/home/user/matches.txt')).resolves.toBe('alpha\nBeta\ngamma\nbeta max\nextra\n');
+    expect(result.output).toBe('alpha\n');
+  });
+
+  it('should run && and || lists by exit code', async () => {
+    const result = await run('grep missing notes.txt && echo found || echo absent; echo $?');
+
+    expect(result.output).toBe('absent\n0\n');
+  });
+
+  it('should set and expand variables but not inside single quotes', async () => {
+    const result = await run(`NAME=world; echo "hello $NAME" '$NAME' \${NAME}!`);
+
+    expect(result.output).toBe('hello world $NAME world!\n');
+    expect(result.state.env.NAME).toBe('world');
+  });
+
+  it('should return the new state without changing the given one', async () => {
+    const state = createShellState();
+    const result = await executeCommand('mkdir -p a/b && cd a/b && pwd', state);
+
+    expect(result.output).toBe('/home/user/a/b\n');
+    expect(result.state.cwd).toBe('/home/user/a/b');
+    expect(state.cwd).toBe('/home/user');
+  });
+
+  it('should create, move and remove files', async () => {
+    await run('mkdir docs && mv notes.txt docs/ && touch docs/empty.md');
+    const listing = await run('ls docs');
+    const removed = await run('rm docs');
+    await run('rm -r docs');
+
+    expect(listing.output).toBe('empty.md\tnotes.txt\n');
+    expect(removed).toMatchObject({ exitCode: 1, output: "rm: cannot remove 'docs': Is a directory\n" });
+    await expect(workspaceFs.exists('/home/user/docs')).resolves.toBe(false);
+  });
+
+  it('should report unknown commands and syntax errors', async () => {
+    await expect(run('frobnicate')).resolves.toMatchObject({ exitCode: 127, output: 'aether: command not found: frobnicate\n' });
+    await expect(run('echo "oops')).resolves.toMatchObject({ exitCode: 2 });
+  });
+
+  it('should print history oldest first', async () => {
+    const result = await executeCommand('history', createShellState(), ['history', 'ls']);
+
+    expect(result.output).toBe('    1  ls\n    2  history\n');
+  });
+
+  it('should clear the screen but keep later output', async () => {
+    const result = await run('echo before; clear; echo after');
+
+    expect(result).toMatchObject({ clear: true, output: 'after\n' });
+  });
+
+  it('should run a Shunt action on a file with the model from the environment', async () => {
+    vi.mocked(geminiService.performShunt).mockResolvedValue({
+      resultText: 'Summary',
+      tokenUsage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2, model: 'test' },
+    });
+
+    const result = await run('SHUNT_MODEL=gemini-2.5-pro; shunt summarize notes.txt > summary.md');
+
+    expect(geminiService.performShunt).toHaveBeenCalledWith('alpha\nBeta\ngamma\nbeta max\n', ShuntAction.SUMMARIZE, 'gemini-2.5-pro');
+    await expect(workspaceFs.readFile('/home/user/summary.md')).resolves.toBe('Summary\n');
+    expect(result.exitCode).toBe(0);
+  });
+
+  it('should reject unknown Shunt actions', async () => {
+    const result = await run('echo text | shunt frobnicate');
+
+    expect(result.exitCode).toBe(1);
+    expect(result.output).toContain("unknown action 'frobnicate'");
+    expect(geminiService.performShunt).not.toHaveBeenCalled();
+  });
+});
+
+describe('completeCommandLine', () => {
+  beforeEach(async () => {
+    await workspaceFs.reset();
+    await workspaceFs.writeFile('/home/user/drafts/readme.md', '');
+    await workspaceFs.writeFile('/home/user/drafts/reports/q1.txt', '');
+  });
+
+  it('should complete command names', async () => {
+    await expect(completeCommandLine('hist', createShellState())).resolves.toEqual({ line: 'history ', candidates: [] });
+  });
+
+  it('should complete a unique directory with a slash', async () => {
+    await expect(completeCommandLine('cat dra', createShellState())).resolves.toEqual({ line: 'cat drafts/', candidates: [] });
+  });
+
+  it('should extend to the common prefix and list the candidates', async () => {
+    await expect(completeCommandLine('ls drafts/re', createShellState())).resolves.toEqual({
+      line: 'ls drafts/re',
+      candidates: ['readme.md', 'reports/'],
+    });
+  });
+});
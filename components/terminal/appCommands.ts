@@ -0,0 +1,162 @@
+// components/terminal/appCommands.ts
+// Terminal commands that call into the app, so Shunt actions, Weaver plans and codebase search can
+// be scripted: `cat notes.md | shunt summarize | shunt translate-spanish > notes.es.md`
+import { ShuntAction, GeminiResponse } from '../../types';
+import { performShunt, generateDevelopmentPlan } from '../../services/geminiService';
+import { getIntelligenceService, CodebaseDocument } from '../../services/intelligenceService';
+import { toCodebaseDocument } from '../../services/codebaseSearch';
+import { workspaceFs } from '../../services/workspaceFileSystem';
+import { loadDocumentation } from '../weaver/Weaver';
+import { CommandIO, ShellCommand, parseOptions, resolvePath } from './shellCommands';
+
+export const DEFAULT_SHUNT_MODEL = 'gemini-2.5-flash';
+
+// Tool calls need the Shunt tab's tool runner and Amplify x2 is a two-pass UI flow
+const SCRIPTABLE_ACTIONS: ShuntAction[] = Object.values(ShuntAction).filter(
+    action => action !== ShuntAction.CALL_TOOL && action !== ShuntAction.AMPLIFY_X2
+);
+
+/**
+ * `Explain Like I'm 5` -> `explain-like-im-5`
+ */
+const actionSlug = (action: string) => action.toLowerCase().replace(/'/g, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+/**
+ * Find an action by slug, enum key (`EXPLAIN_LIKE_IM_FIVE`) or display name, ignoring case
+ */
+export const findShuntAction = (name: string): ShuntAction | undefined => {
+    const slug = actionSlug(name);
+    const byKey = (Object.keys(ShuntAction) as (keyof typeof ShuntAction)[])
+        .find(key => key.toLowerCase() === name.toLowerCase().replace(/-/g, '_'));
+    const action = byKey ? ShuntAction[byKey] : Object.values(ShuntAction).find(value => actionSlug(value) === slug);
+    return action && SCRIPTABLE_ACTIONS.includes(action) ? action : undefined;
+};
+
+/**
+ * Files given as operands, or stdin when there are none
+ */
+const readText = async (io: CommandIO, operands: string[]): Promise<string> => {
+    if (operands.length === 0) return io.stdin;
+    const contents = [];
+    for (const operand of operands) {
+        contents.push(await workspaceFs.readFile(resolvePath(io.state, operand)));
+    }
+    return contents.join('\n');
+};
+
+const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const formatPlan = (plan: GeminiResponse): string => {
+    const sections = [`## Architecture\n${plan.architecturalProposal}`];
+    if (plan.implementationTasks.length > 0) {
+        sections.push(`## Tasks\n${plan.implementationTasks.map((task, i) => `${i + 1}. ${task.filePath}: ${task.description}`).join('\n')}`);
+    }
+    if (plan.testCases.length > 0) {
+        sections.push(`## Test cases\n${plan.testCases.map(test => `- ${test}`).join('\n')}`);
+    }
+    if (plan.clarifyingQuestions.length > 0) {
+        sections.push(`## Questions\n${plan.clarifyingQuestions.map(question => `- ${question}`).join('\n')}`);
+    }
+    return `${sections.join('\n\n')}\n`;
+};
+
+export const APP_COMMANDS: Record<string, ShellCommand> = {
+    shunt: {
+        usage: 'shunt [-m model] <action> [file...] | shunt -l',
+        description: 'Run a Shunt action on files or stdin ($SHUNT_MODEL sets the default model)',
+        run: async io => {
+            try {
+                const { flags, values, operands } = parseOptions(io.args, { flags: 'l', valued: 'm' });
+                if (flags.has('l')) {
+                    io.stdout(SCRIPTABLE_ACTIONS.map(action => `${actionSlug(action)}\t${action}\n`).join(''));
+                    return 0;
+                }
+                const [actionName, ...files] = operands;
+                if (!actionName) throw new Error('missing action (shunt -l lists them)');
+                const action = findShuntAction(actionName);
+                if (!action) throw new Error(`unknown action '${actionName}' (shunt -l lists them)`);
+
+                const text = await readText(io, files);
+                if (!text.trim()) throw new Error('no input text; pass a file or pipe text in');
+
+                const model = values.m ?? io.state.env.SHUNT_MODEL ?? DEFAULT_SHUNT_MODEL;
+                const { resultText } = await performShunt(text, action, model);
+                io.stdout(resultText.endsWith('\n') ? resultText : `${resultText}\n`);
+                return 0;
+            } catch (error) {
+                io.stderr(`shunt: ${errorMessage(error)}\n`);
+                return 1;
+            }
+        },
+    },
+    weaver: {
+        usage: 'weaver plan [--json] [goal...]',
+        description: 'Generate a development plan for a goal (args or stdin) using the Weaver project memory',
+        run: async io => {
+            const [subcommand, ...rest] = io.args;
+            if (subcommand !== 'plan') {
+                io.stderr(`weaver: unknown subcommand '${subcommand ?? ''}' (try: weaver plan <goal>)\n`);
+                return 2;
+            }
+            const json = rest.includes('--json');
+            const goal = (rest.filter(arg => arg !== '--json').join(' ') || io.stdin).trim();
+            if (!goal) {
+                io.stderr('weaver: missing goal\n');
+                return 1;
+            }
+            try {
+                const plan = await generateDevelopmentPlan(goal, loadDocumentation().geminiContext);
+                io.stdout(json ? `${JSON.stringify(plan, null, 2)}\n` : formatPlan(plan));
+                return 0;
+            } catch (error) {
+                io.stderr(`weaver: ${errorMessage(error)}\n`);
+                return 1;
+            }
+        },
+    },
+    rag: {
+        usage: 'rag index <path...> | rag query [-k n] [text...]',
+        description: 'Index workspace files for codebase search, or search the index (text from args or stdin)',
+        run: async io => {
+            const [subcommand, ...rest] = io.args;
+            const intelligence = getIntelligenceService();
+            try {
+                if (subcommand === 'index') {
+                    if (rest.length === 0) throw new Error('missing path');
+                    const documents: CodebaseDocument[] = [];
+                    for (const operand of rest) {
+                        const files = await workspaceFs.listFiles(resolvePath(io.state, operand));
+                        documents.push(...files.filter(file => !file.path.includes('/.git/')).map(toCodebaseDocument));
+                    }
+                    await intelligence.indexDocuments(documents);
+                    io.stdout(`Indexed ${documents.length} file(s)\n`);
+                    return 0;
+                }
+                if (subcommand === 'query') {
+                    const { values, operands } = parseOptions(rest, { valued: 'k' });
+                    const query = (operands.join(' ') || io.stdin).trim();
+                    if (!query) throw new Error('missing query');
+                    const topK = values.k ? Number(values.k) : 5;
+                    if (!Number.isInteger(topK) || topK < 1) throw new Error(`invalid result count: '${values.k}'`);
+
+                    const results = await intelligence.query({ query, topK });
+                    if (results.length === 0) {
+                        io.stderr('rag: no results (index files first with: rag index <path>)\n');
+                        return 1;
+                    }
+                    results.forEach(result => {
+                        const symbol = result.symbol ? ` ${result.symbol}` : '';
+                        io.stdout(`${result.filePath}:${result.startLine}-${result.endLine} (${result.relevanceScore.toFixed(2)})${symbol}\n`);
+                        io.stdout(`${result.snippet.split('\n').map(line => `    ${line}`).join('\n')}\n`);
+                    });
+                    return 0;
+                }
+                io.stderr(`rag: unknown subcommand '${subcommand ?? ''}' (try: rag index <path> or rag query <text>)\n`);
+                return 2;
+            } catch (error) {
+                io.stderr(`rag: ${errorMessage(error)}\n`);
+                return 1;
+            }
+        },
+    },
+};
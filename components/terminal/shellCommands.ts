@@ -0,0 +1,396 @@
+// components/terminal/shellCommands.ts
+// Built-in terminal commands over the workspace filesystem.
+//
+// Commands read stdin and write stdout/stderr as plain strings and return an exit code, so they
+// compose through pipes and redirection. Lines written to stdout end with '\n', as in a Unix shell.
+import { workspaceFs, resolveWorkspacePath } from '../../services/workspaceFileSystem';
+
+export interface ShellState {
+    /** Absolute working directory */
+    cwd: string;
+    env: Record<string, string>;
+}
+
+export interface CommandIO {
+    args: string[];
+    stdin: string;
+    state: ShellState;
+    /** Newest first */
+    history: string[];
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    clearScreen: () => void;
+}
+
+export interface ShellCommand {
+    usage: string;
+    description: string;
+    run: (io: CommandIO) => Promise<number>;
+}
+
+export interface ParsedOptions {
+    flags: Set<string>;
+    values: Record<string, string>;
+    operands: string[];
+}
+
+/**
+ * Split `args` into single-letter flags (combinable, e.g. `-rf`), options that take a value
+ * (`-n 5` or `-n5`) and operands. `--` ends option parsing; a lone `-` is an operand.
+ */
+export const parseOptions = (args: string[], spec: { flags?: string; valued?: string } = {}): ParsedOptions => {
+    const parsed: ParsedOptions = { flags: new Set(), values: {}, operands: [] };
+    for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === '--') {
+            parsed.operands.push(...args.slice(i + 1));
+            break;
+        }
+        if (!arg.startsWith('-') || arg === '-') {
+            parsed.operands.push(arg);
+            continue;
+        }
+        for (let j = 1; j < arg.length; j++) {
+            const letter = arg[j];
+            if (spec.valued?.includes(letter)) {
+                const value = arg.substring(j + 1) || args[++i];
+                if (value === undefined) throw new Error(`option requires an argument -- '${letter}'`);
+                parsed.values[letter] = value;
+                break;
+            }
+            if (!spec.flags?.includes(letter)) throw new Error(`invalid option -- '${letter}'`);
+            parsed.flags.add(letter);
+        }
+    }
+    return parsed;
+};
+
+export const resolvePath = (state: ShellState, path: string) => resolveWorkspacePath(path, state.cwd);
+
+const baseName = (path: string) => path.substring(path.lastIndexOf('/') + 1);
+
+/**
+ * Run `body`, reporting thrown errors as `name: message` on stderr with exit code 1
+ */
+const guard = (name: string, body: (io: CommandIO) => Promise<number | void>) => async (io: CommandIO): Promise<number> => {
+    try {
+        const status = await body(io);
+        return typeof status === 'number' ? status : 0;
+    } catch (error) {
+        io.stderr(`${name}: ${error instanceof Error ? error.message : String(error)}\n`);
+        return 1;
+    }
+};
+
+/**
+ * Contents of each operand in order, or stdin when there are none. `-` also reads stdin.
+ */
+const readInputs = async (io: CommandIO, operands: string[]): Promise<{ name: string; content: string }[]> => {
+    if (operands.length === 0) return [{ name: '-', content: io.stdin }];
+    const inputs = [];
+    for (const operand of operands) {
+        inputs.push({
+            name: operand,
+            content: operand === '-' ? io.stdin : await workspaceFs.readFile(resolvePath(io.state, operand)),
+        });
+    }
+    return inputs;
+};
+
+const splitLines = (text: string): string[] => {
+    if (text === '') return [];
+    const lines = text.split('\n');
+    if (lines[lines.length - 1] === '') lines.pop();
+    return lines;
+};
+
+const joinLines = (lines: string[]) => lines.map(line => `${line}\n`).join('');
+
+/**
+ * `head`/`tail` accept `-20` as short for `-n 20`
+ */
+const lineCountArgs = (args: string[]) => args.map(arg => (/^-\d+$/.test(arg) ? `-n${arg.substring(1)}` : arg));
+
+const lineCount = (value: string | undefined): number => {
+    if (value === undefined) return 10;
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) throw new Error(`invalid number of lines: '${value}'`);
+    return count;
+};
+
+export const CORE_COMMANDS: Record<string, ShellCommand> = {
+    ls: {
+        usage: 'ls [-a] [path...]',
+        description: 'List directory contents',
+        run: guard('ls', async io => {
+            const { flags, operands } = parseOptions(io.args, { flags: 'a' });
+            const targets = operands.length > 0 ? operands : ['.'];
+            let status = 0;
+            for (const target of targets) {
+                const entry = await workspaceFs.stat(resolvePath(io.state, target));
+                if (!entry) {
+                    io.stderr(`ls: cannot access '${target}': No such file or directory\n`);
+                    status = 2;
+                    continue;
+                }
+                if (targets.length > 1) io.stdout(`${target}:\n`);
+                if (entry.type === 'file') {
+                    io.stdout(`${target}\n`);
+                    continue;
+                }
+                const names = (await workspaceFs.readdir(entry.path))
+                    .map(child => baseName(child.path) + (child.type === 'directory' ? '/' : ''))
+                    .filter(name => flags.has('a') || !name.startsWith('.'));
+                if (names.length > 0) io.stdout(`${names.join('\t')}\n`);
+            }
+            return status;
+        }),
+    },
+    cd: {
+        usage: 'cd [dir]',
+        description: 'Change the current directory (default ~)',
+        run: guard('cd', async io => {
+            const target = io.args[0] ?? '~';
+            const path = resolvePath(io.state, target === '-' ? io.state.env.OLDPWD ?? io.state.cwd : target);
+            const entry = await workspaceFs.stat(path);
+            if (entry?.type !== 'directory') {
+                io.stderr(`cd: no such file or directory: ${target}\n`);
+                return 1;
+            }
+            io.state.env.OLDPWD = io.state.cwd;
+            io.state.cwd = path;
+            io.state.env.PWD = path;
+        }),
+    },
+    pwd: {
+        usage: 'pwd',
+        description: 'Print the current directory',
+        run: async io => {
+            io.stdout(`${io.state.cwd}\n`);
+            return 0;
+        },
+    },
+    cat: {
+        usage: 'cat [file...]',
+        description: 'Print files, or stdin',
+        run: guard('cat', async io => {
+            (await readInputs(io, io.args)).forEach(input => io.stdout(input.content));
+        }),
+    },
+    echo: {
+        usage: 'echo [-n] [text...]',
+        description: 'Print a line of text',
+        run: async io => {
+            const noNewline = io.args[0] === '-n';
+            const text = (noNewline ? io.args.slice(1) : io.args).join(' ');
+            io.stdout(noNewline ? text : `${text}\n`);
+            return 0;
+        },
+    },
+    grep: {
+        usage: 'grep [-i] [-v] [-n] [-c] [-F] pattern [file...]',
+        description: 'Print lines matching a regular expression (-F: literal text)',
+        run: guard('grep', async io => {
+            const { flags, operands } = parseOptions(io.args, { flags: 'ivncF' });
+            const [pattern, ...files] = operands;
+            if (pattern === undefined) throw new Error('missing pattern');
+            const source = flags.has('F') ? pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') : pattern;
+            const regex = new RegExp(source, flags.has('i') ? 'i' : '');
+
+            let matched = false;
+            for (const input of await readInputs(io, files)) {
+                const prefix = files.length > 1 ? `${input.name}:` : '';
+                const matches = splitLines(input.content)
+                    .map((line, index) => ({ line, number: index + 1 }))
+                    .filter(({ line }) => regex.test(line) !== flags.has('v'));
+                matched = matched || matches.length > 0;
+                if (flags.has('c')) {
+                    io.stdout(`${prefix}${matches.length}\n`);
+                } else {
+                    io.stdout(joinLines(matches.map(({ line, number }) => `${prefix}${flags.has('n') ? `${number}:` : ''}${line}`)));
+                }
+            }
+            return matched ? 0 : 1;
+        }),
+    },
+    head: {
+        usage: 'head [-n lines] [file...]',
+        description: 'Print the first lines (default 10)',
+        run: guard('head', async io => {
+            const { values, operands } = parseOptions(lineCountArgs(io.args), { valued: 'n' });
+            const count = lineCount(values.n);
+            (await readInputs(io, operands)).forEach(input => io.stdout(joinLines(splitLines(input.content).slice(0, count))));
+        }),
+    },
+    tail: {
+        usage: 'tail [-n lines] [file...]',
+        description: 'Print the last lines (default 10)',
+        run: guard('tail', async io => {
+            const { values, operands } = parseOptions(lineCountArgs(io.args), { valued: 'n' });
+            const count = lineCount(values.n);
+            (await readInputs(io, operands)).forEach(input => {
+                const lines = splitLines(input.content);
+                io.stdout(joinLines(count === 0 ? [] : lines.slice(-count)));
+            });
+        }),
+    },
+    wc: {
+        usage: 'wc [-l] [-w] [-c] [file...]',
+        description: 'Count lines, words and bytes',
+        run: guard('wc', async io => {
+            const { flags, operands } = parseOptions(io.args, { flags: 'lwc' });
+            const shown = flags.size > 0 ? ['l', 'w', 'c'].filter(flag => flags.has(flag)) : ['l', 'w', 'c'];
+            const inputs = await readInputs(io, operands);
+            const totals: Record<string, number> = { l: 0, w: 0, c: 0 };
+            const report = (counts: Record<string, number>, name: string) =>
+                io.stdout(`${shown.map(flag => counts[flag]).join('\t')}${name === '-' ? '' : `\t${name}`}\n`);
+
+            inputs.forEach(input => {
+                const counts = {
+                    l: (input.content.match(/\n/g) ?? []).length,
+                    w: input.content.split(/\s+/).filter(Boolean).length,
+                    c: new TextEncoder().encode(input.content).length,
+                };
+                Object.keys(totals).forEach(key => { totals[key] += counts[key as keyof typeof counts]; });
+                report(counts, input.name);
+            });
+            if (inputs.length > 1) report(totals, 'total');
+        }),
+    },
+    mkdir: {
+        usage: 'mkdir [-p] dir...',
+        description: 'Create directories (-p: with parents, no error if they exist)',
+        run: guard('mkdir', async io => {
+            const { flags, operands } = parseOptions(io.args, { flags: 'p' });
+            if (operands.length === 0) throw new Error('missing operand');
+            for (const operand of operands) {
+                const path = resolvePath(io.state, operand);
+                if (!flags.has('p')) {
+                    if (await workspaceFs.exists(path)) throw new Error(`cannot create directory '${operand}': File exists`);
+                    const parent = await workspaceFs.stat(path.substring(0, path.lastIndexOf('/')) || '/');
+                    if (parent?.type !== 'directory') throw new Error(`cannot create directory '${operand}': No such file or directory`);
+                }
+                await workspaceFs.mkdir(path);
+            }
+        }),
+    },
+    touch: {
+        usage: 'touch file...',
+        description: 'Create empty files',
+        run: guard('touch', async io => {
+            if (io.args.length === 0) throw new Error('missing file operand');
+            for (const operand of io.args) {
+                const path = resolvePath(io.state, operand);
+                const entry = await workspaceFs.stat(path);
+                await workspaceFs.writeFile(path, entry?.content ?? '');
+            }
+        }),
+    },
+    rm: {
+        usage: 'rm [-r] [-f] path...',
+        description: 'Remove files, or directories with -r (-f: ignore missing files)',
+        run: guard('rm', async io => {
+            const { flags, operands } = parseOptions(io.args, { flags: 'rRf' });
+            const recursive = flags.has('r') || flags.has('R');
+            if (operands.length === 0 && !flags.has('f')) throw new Error('missing operand');
+            let status = 0;
+            for (const operand of operands) {
+                const entry = await workspaceFs.stat(resolvePath(io.state, operand));
+                if (!entry) {
+                    if (!flags.has('f')) {
+                        io.stderr(`rm: cannot remove '${operand}': No such file or directory\n`);
+                        status = 1;
+                    }
+                } else if (entry.type === 'directory' && !recursive) {
+                    io.stderr(`rm: cannot remove '${operand}': Is a directory\n`);
+                    status = 1;
+                } else {
+                    await workspaceFs.remove(entry.path, { recursive });
+                }
+            }
+            return status;
+        }),
+    },
+    mv: {
+        usage: 'mv source... target',
+        description: 'Move or rename files and directories',
+        run: guard('mv', async io => {
+            if (io.args.length < 2) throw new Error('missing destination file operand');
+            const sources = io.args.slice(0, -1);
+            const target = resolvePath(io.state, io.args[io.args.length - 1]);
+            const targetEntry = await workspaceFs.stat(target);
+            if (sources.length > 1 && targetEntry?.type !== 'directory') {
+                throw new Error(`target '${io.args[io.args.length - 1]}' is not a directory`);
+            }
+            for (const source of sources) {
+                const from = resolvePath(io.state, source);
+                const to = targetEntry?.type === 'directory' ? `${target === '/' ? '' : target}/${baseName(from)}` : target;
+                // Like mv, replace an existing file; an existing directory is an error from move()
+                if ((await workspaceFs.stat(to))?.type === 'file' && (await workspaceFs.exists(from))) {
+                    await workspaceFs.remove(to);
+                }
+                await workspaceFs.move(from, to);
+            }
+        }),
+    },
+    cp: {
+        usage: 'cp source target',
+        description: 'Copy a file',
+        run: guard('cp', async io => {
+            if (io.args.length !== 2) throw new Error('expected a source and a target');
+            const content = await workspaceFs.readFile(resolvePath(io.state, io.args[0]));
+            let target = resolvePath(io.state, io.args[1]);
+            if ((await workspaceFs.stat(target))?.type === 'directory') {
+                target = `${target === '/' ? '' : target}/${baseName(resolvePath(io.state, io.args[0]))}`;
+            }
+            await workspaceFs.writeFile(target, content);
+        }),
+    },
+    env: {
+        usage: 'env',
+        description: 'Print environment variables',
+        run: async io => {
+            Object.entries(io.state.env)
+                .filter(([name]) => name !== '?')
+                .sort(([a], [b]) => a.localeCompare(b))
+                .forEach(([name, value]) => io.stdout(`${name}=${value}\n`));
+            return 0;
+        },
+    },
+    export: {
+        usage: 'export NAME=value...',
+        description: 'Set environment variables (NAME=value alone also works)',
+        run: guard('export', async io => {
+            for (const arg of io.args) {
+                const match = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s.exec(arg);
+                if (!match) throw new Error(`not a valid assignment: '${arg}'`);
+                io.state.env[match[1]] = match[2];
+            }
+        }),
+    },
+    unset: {
+        usage: 'unset NAME...',
+        description: 'Remove environment variables',
+        run: async io => {
+            io.args.forEach(name => { delete io.state.env[name]; });
+            return 0;
+        },
+    },
+    history: {
+        usage: 'history',
+        description: 'Print command history (Ctrl+R searches it)',
+        run: async io => {
+            const oldestFirst = [...io.history].reverse();
+            io.stdout(joinLines(oldestFirst.map((command, index) => `${String(index + 1).padStart(5)}  ${command}`)));
+            return 0;
+        },
+    },
+    clear: {
+        usage: 'clear',
+        description: 'Clear the terminal screen (Ctrl+L)',
+        run: async io => {
+            io.clearScreen();
+            return 0;
+        },
+    },
+};
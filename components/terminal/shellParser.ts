@@ -0,0 +1,170 @@
+// components/terminal/shellParser.ts
+// Parses a terminal command line into command lists, pipelines and redirections.
+//
+// Supported syntax: `a | b`, `a > file`, `a >> file`, `a < file`, `a ; b`, `a && b`, `a || b`,
+// single and double quotes, backslash escapes, `# comments`, and `$NAME` / `${NAME}` / `$?` expansion.
+// Words keep their quoting so variables are expanded when each command runs, after earlier commands
+// on the same line have set them.
+
+export class ShellSyntaxError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ShellSyntaxError';
+        Object.setPrototypeOf(this, ShellSyntaxError.prototype);
+    }
+}
+
+interface WordPart {
+    text: string;
+    /** Single-quoted text is never expanded */
+    quote: 'none' | 'single' | 'double';
+}
+
+export type ShellWord = WordPart[];
+
+export type RedirectOperator = '>' | '>>' | '<';
+
+export interface ShellRedirect {
+    operator: RedirectOperator;
+    target: ShellWord;
+}
+
+export interface ShellSimpleCommand {
+    words: ShellWord[];
+    redirects: ShellRedirect[];
+}
+
+export interface ShellPipeline {
+    commands: ShellSimpleCommand[];
+    /** When the pipeline runs, given the previous pipeline's exit code */
+    runIf: 'always' | 'success' | 'failure';
+}
+
+type Token = { type: 'word'; word: ShellWord } | { type: 'op'; op: '|' | ';' | '&&' | '||' | RedirectOperator };
+
+const OPERATORS = ['&&', '||', '>>', '|', ';', '>', '<'] as const;
+
+const tokenize = (line: string): Token[] => {
+    const tokens: Token[] = [];
+    let word: ShellWord | null = null;
+    const append = (text: string, quote: WordPart['quote']) => {
+        word = word ?? [];
+        const last = word[word.length - 1];
+        if (last && last.quote === quote) last.text += text;
+        else word.push({ text, quote });
+    };
+    const endWord = () => {
+        if (word) tokens.push({ type: 'word', word });
+        word = null;
+    };
+
+    let i = 0;
+    while (i < line.length) {
+        const char = line[i];
+        if (/\s/.test(char)) {
+            endWord();
+            i++;
+        } else if (char === '#' && !word) {
+            break;
+        } else if (char === '\\') {
+            if (i + 1 < line.length) append(line[i + 1], 'single');
+            i += 2;
+        } else if (char === "'") {
+            const end = line.indexOf("'", i + 1);
+            if (end === -1) throw new ShellSyntaxError('unterminated single quote');
+            append(line.substring(i + 1, end), 'single');
+            i = end + 1;
+        } else if (char === '"') {
+            let text = '';
+            i++;
+            while (i < line.length && line[i] !== '"') {
+                if (line[i] === '\\' && i + 1 < line.length && '"\\$'.includes(line[i + 1])) {
+                    // An escaped $ must survive expansion, so it goes into its own unexpanded part
+                    if (text) append(text, 'double');
+                    append(line[i + 1], 'single');
+                    text = '';
+                    i += 2;
+                } else {
+                    text += line[i++];
+                }
+            }
+            if (i >= line.length) throw new ShellSyntaxError('unterminated double quote');
+            // Always appended, so `""` is still an (empty) word
+            append(text, 'double');
+            i++;
+        } else {
+            const op = OPERATORS.find(candidate => line.startsWith(candidate, i));
+            if (op) {
+                endWord();
+                tokens.push({ type: 'op', op });
+                i += op.length;
+            } else {
+                append(char, 'none');
+                i++;
+            }
+        }
+    }
+    endWord();
+    return tokens;
+};
+
+/**
+ * Parse a command line. Returns no pipelines for a blank line or a comment.
+ */
+export const parseCommandLine = (line: string): ShellPipeline[] => {
+    const pipelines: ShellPipeline[] = [];
+    let runIf: ShellPipeline['runIf'] = 'always';
+    let commands: ShellSimpleCommand[] = [];
+    let current: ShellSimpleCommand = { words: [], redirects: [] };
+
+    const endCommand = (op: string) => {
+        if (current.words.length === 0) {
+            throw new ShellSyntaxError(`syntax error near unexpected token '${op}'`);
+        }
+        commands.push(current);
+        current = { words: [], redirects: [] };
+    };
+
+    const tokens = tokenize(line);
+    for (let i = 0; i < tokens.length; i++) {
+        const token = tokens[i];
+        if (token.type === 'word') {
+            current.words.push(token.word);
+        } else if (token.op === '>' || token.op === '>>' || token.op === '<') {
+            const target = tokens[i + 1];
+            if (!target || target.type !== 'word') {
+                throw new ShellSyntaxError(`syntax error: '${token.op}' needs a file name`);
+            }
+            current.redirects.push({ operator: token.op, target: target.word });
+            i++;
+        } else if (token.op === '|') {
+            endCommand('|');
+        } else {
+            endCommand(token.op);
+            pipelines.push({ commands, runIf });
+            commands = [];
+            runIf = token.op === '&&' ? 'success' : token.op === '||' ? 'failure' : 'always';
+        }
+    }
+
+    if (current.words.length > 0 || current.redirects.length > 0) {
+        endCommand('newline');
+    } else if (commands.length > 0 || runIf !== 'always') {
+        throw new ShellSyntaxError('syntax error: unexpected end of line');
+    }
+    if (commands.length > 0) pipelines.push({ commands, runIf });
+    return pipelines;
+};
+
+/**
+ * Expand `$NAME`, `${NAME}` and `$?` in the unquoted and double-quoted parts of a word
+ */
+export const expandWord = (word: ShellWord, env: Record<string, string>): string =>
+    word
+        .map(part =>
+            part.quote === 'single'
+                ? part.text
+                : part.text.replace(/\$(?:\{([A-Za-z_][A-Za-z0-9_]*)\}|([A-Za-z_][A-Za-z0-9_]*)|\?)/g,
+                    (_, braced?: string, bare?: string) => env[braced ?? bare ?? '?'] ?? '')
+        )
+        .join('');
@@ -0,0 +1,43 @@
+// components/terminal/terminalHistory.ts
+// Command history shared by all terminal tabs and kept across reloads.
+
+const HISTORY_STORAGE_KEY = 'aether-terminal-history';
+export const MAX_HISTORY_ENTRIES = 500;
+
+/**
+ * Saved history, newest first
+ */
+export const loadHistory = (): string[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(HISTORY_STORAGE_KEY) || '[]');
+        return Array.isArray(saved) ? saved.filter((entry): entry is string => typeof entry === 'string') : [];
+    } catch {
+        return [];
+    }
+};
+
+/**
+ * Add a command to the front of the saved history. Repeating the previous command does not add an entry.
+ * Reads the saved history first, so commands from other tabs are kept.
+ */
+export const appendHistory = (command: string): string[] => {
+    const saved = loadHistory();
+    const history = saved[0] === command ? saved : [command, ...saved].slice(0, MAX_HISTORY_ENTRIES);
+    try {
+        localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history));
+    } catch {
+        // Storage full or unavailable: history still works for this session
+    }
+    return history;
+};
+
+/**
+ * Index of the newest entry at or after `fromIndex` that contains `query`, or -1
+ */
+export const searchHistory = (history: string[], query: string, fromIndex = 0): number => {
+    if (!query) return -1;
+    for (let i = Math.max(fromIndex, 0); i < history.length; i++) {
+        if (history[i].includes(query)) return i;
+    }
+    return -1;
+};
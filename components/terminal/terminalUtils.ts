@@ -1,133 +1,226 @@
 // components/terminal/terminalUtils.ts
+// Runs terminal command lines: pipelines, redirection, `&&`/`||`/`;` lists and variable assignment,
+// over the built-in commands in shellCommands.ts and the app commands in appCommands.ts.
+import { workspaceFs, WORKSPACE_HOME } from '../../services/workspaceFileSystem';
+import { parseCommandLine, expandWord, ShellSimpleCommand, ShellSyntaxError } from './shellParser';
+import { CORE_COMMANDS, ShellCommand, ShellState, resolvePath } from './shellCommands';
+import { APP_COMMANDS, DEFAULT_SHUNT_MODEL } from './appCommands';
 
-interface CommandResult {
+export type { ShellState } from './shellCommands';
+
+export interface CommandResult {
+    /** stdout and stderr as they were written, minus anything redirected to a file */
     output?: string;
-    newPath?: string;
     clear?: boolean;
+    /** Shell state after the line ran (working directory and environment) */
+    state: ShellState;
+    exitCode: number;
 }
 
-const filesystem: Record<string, any> = {
-    'home': {
-        'user': {
-            'README.md': 'This is the user directory.',
-            'documents': {
-                'project-plan.txt': 'Phase 1: Build the terminal.\nPhase 2: Add more features.',
-            },
-            'projects': {
-                'aether-shunt': {
-                    'package.json': '{ "name": "aether-shunt", "version": "2.0.0" }'
-                }
-            },
-        }
-    }
+export interface CompletionResult {
+    /** The line with the word under completion extended as far as it is unambiguous */
+    line: string;
+    /** All matches when there is more than one */
+    candidates: string[];
+}
+
+const COMMAND_NOT_FOUND = 127;
+
+const ASSIGNMENT = /^([A-Za-z_][A-Za-z0-9_]*)=(.*)$/s;
+
+const HELP_COMMAND: ShellCommand = {
+    usage: 'help',
+    description: 'Show this help message',
+    run: async io => {
+        const section = (title: string, commands: Record<string, ShellCommand>) => {
+            const width = Math.max(...Object.values(commands).map(command => command.usage.length));
+            return `${title}:\n${Object.values(commands).map(command => `  ${command.usage.padEnd(width)}  ${command.description}\n`).join('')}`;
+        };
+        io.stdout(`${section('Commands', { help: HELP_COMMAND, ...CORE_COMMANDS })}
+${section('App commands', APP_COMMANDS)}
+Pipes (|), redirection (> >> <), lists (; && ||), quotes and $VARIABLES work as in bash.
+Tab completes commands and paths; Ctrl+R searches history. Mailbox skill files are in ~/mailbox.
+`);
+        return 0;
+    },
 };
 
-const resolvePath = (currentPath: string, targetPath: string): string => {
-    if (targetPath.startsWith('/')) {
-        return targetPath;
+const COMMANDS: Record<string, ShellCommand> = { help: HELP_COMMAND, ...CORE_COMMANDS, ...APP_COMMANDS };
+
+export const createShellState = (): ShellState => ({
+    cwd: WORKSPACE_HOME,
+    env: {
+        HOME: WORKSPACE_HOME,
+        USER: 'user',
+        PWD: WORKSPACE_HOME,
+        SHUNT_MODEL: DEFAULT_SHUNT_MODEL,
+        '?': '0',
+    },
+});
+
+/**
+ * Run one command line. The given state is not modified; the state after the line is returned.
+ * `history` is newest first and is only read, by the `history` command.
+ */
+export const executeCommand = async (line: string, current: ShellState, history: string[] = []): Promise<CommandResult> => {
+    const state: ShellState = { cwd: current.cwd, env: { ...current.env } };
+    let output = '';
+    let clear = false;
+    const write = (text: string) => { output += text; };
+
+    let pipelines;
+    try {
+        pipelines = parseCommandLine(line);
+    } catch (error) {
+        if (!(error instanceof ShellSyntaxError)) throw error;
+        state.env['?'] = '2';
+        return { output: `aether: ${error.message}\n`, state, exitCode: 2 };
     }
-    const pathParts = currentPath.split('/').filter(p => p);
-    const targetParts = targetPath.split('/').filter(p => p);
-
-    for (const part of targetParts) {
-        if (part === '..') {
-            pathParts.pop();
-        } else if (part !== '.') {
-            pathParts.push(part);
+
+    let exitCode = Number(state.env['?']) || 0;
+    for (const pipeline of pipelines) {
+        if ((pipeline.runIf === 'success' && exitCode !== 0) || (pipeline.runIf === 'failure' && exitCode === 0)) {
+            continue;
+        }
+        let stdin = '';
+        for (const command of pipeline.commands) {
+            let stdout = '';
+            exitCode = await runSimpleCommand(command, {
+                stdin,
+                state,
+                history,
+                stdout: text => { stdout += text; },
+                stderr: write,
+                clearScreen: () => {
+                    clear = true;
+                    output = '';
+                },
+            });
+            stdin = stdout;
         }
+        // Whatever the last command printed and did not redirect goes to the terminal
+        write(stdin);
+        state.env['?'] = String(exitCode);
     }
-    return '/' + pathParts.join('/');
+
+    return { output: output || undefined, clear: clear || undefined, state, exitCode };
+};
+
+type RunContext = {
+    stdin: string;
+    state: ShellState;
+    history: string[];
+    stdout: (text: string) => void;
+    stderr: (text: string) => void;
+    clearScreen: () => void;
 };
 
-const getObjectByPath = (path: string): any => {
-    if (path === '/') return filesystem;
-    const parts = path.split('/').filter(p => p);
-    let current = filesystem;
-    for (const part of parts) {
-        if (typeof current === 'object' && current !== null && part in current) {
-            current = current[part];
+const runSimpleCommand = async (command: ShellSimpleCommand, context: RunContext): Promise<number> => {
+    const { state } = context;
+    const words = command.words.map(word => expandWord(word, state.env));
+
+    let stdin = context.stdin;
+    let outputFile: { path: string; append: boolean } | null = null;
+    for (const redirect of command.redirects) {
+        const target = expandWord(redirect.target, state.env);
+        const path = resolvePath(state, target);
+        if (redirect.operator === '<') {
+            try {
+                stdin = await workspaceFs.readFile(path);
+            } catch {
+                context.stderr(`aether: ${target}: No such file or not a file\n`);
+                return 1;
+            }
         } else {
-            return null;
+            outputFile = { path, append: redirect.operator === '>>' };
         }
     }
-    return current;
-};
 
-const formatPath = (path: string): string => {
-    if (path === '/') return '/';
-    if (path.startsWith('/home/user')) {
-        return '~' + path.substring('/home/user'.length);
+    // `NAME=value` on its own sets a shell variable
+    if (words.length > 0 && words.every(word => ASSIGNMENT.test(word))) {
+        words.forEach(word => {
+            const [, name, value] = ASSIGNMENT.exec(word)!;
+            state.env[name] = value;
+        });
+        return 0;
     }
-    return path;
-};
 
-const getAbsolutePath = (currentPath: string): string => {
-    if (currentPath === '~') return '/home/user';
-    if (currentPath.startsWith('~/')) return '/home/user' + currentPath.substring(1);
-    return currentPath;
-};
-
-const ls = (path: string): string => {
-    const absolutePath = getAbsolutePath(path);
-    const node = getObjectByPath(absolutePath);
-    if (typeof node === 'object' && node !== null) {
-        return Object.keys(node).join('\t');
+    let stdout = '';
+    let exitCode = 0;
+    if (words.length > 0) {
+        const [name, ...args] = words;
+        const handler = COMMANDS[name];
+        if (!handler) {
+            context.stderr(`aether: command not found: ${name}\n`);
+            return COMMAND_NOT_FOUND;
+        }
+        exitCode = await handler.run({
+            args,
+            stdin,
+            state,
+            history: context.history,
+            stdout: text => { stdout += text; },
+            stderr: context.stderr,
+            clearScreen: context.clearScreen,
+        });
     }
-    return `ls: cannot access '${path}': Not a directory`;
-};
 
-const cd = (currentPath: string, target: string): { newPath?: string; error?: string } => {
-    const absoluteCurrentPath = getAbsolutePath(currentPath);
-    const newAbsolutePath = resolvePath(absoluteCurrentPath, target || '/home/user');
-    const node = getObjectByPath(newAbsolutePath);
-    if (typeof node === 'object' && node !== null) {
-        return { newPath: formatPath(newAbsolutePath) };
+    if (!outputFile) {
+        context.stdout(stdout);
+        return exitCode;
     }
-    return { error: `cd: no such file or directory: ${target}` };
-};
-
-const cat = (currentPath: string, file: string): string => {
-    const absoluteCurrentPath = getAbsolutePath(currentPath);
-    const filePath = resolvePath(absoluteCurrentPath, file);
-    const node = getObjectByPath(filePath);
-    if (typeof node === 'string') {
-        return node;
+    try {
+        const previous = outputFile.append ? await readIfFile(outputFile.path) : '';
+        await workspaceFs.writeFile(outputFile.path, previous + stdout);
+    } catch (error) {
+        context.stderr(`aether: ${error instanceof Error ? error.message : String(error)}\n`);
+        return 1;
     }
-    return `cat: ${file}: No such file or not a file`;
+    return exitCode;
 };
 
-const help = (): string => {
-    return `Available commands:
-  help      - Show this help message
-  ls [path] - List directory contents
-  cd <dir>  - Change the current directory
-  cat <file>- Display file contents
-  echo ...  - Display a line of text
-  clear     - Clear the terminal screen (Ctrl+L)`;
+const readIfFile = async (path: string): Promise<string> => {
+    const entry = await workspaceFs.stat(path);
+    return entry?.type === 'file' ? entry.content ?? '' : '';
 };
 
-export const executeCommand = (command: string, currentPath: string): CommandResult => {
-    const [cmd, ...args] = command.trim().split(/\s+/);
-
-    switch (cmd) {
-        case '':
-            return {};
-        case 'help':
-            return { output: help() };
-        case 'ls':
-            return { output: ls(args[0] || currentPath) };
-        case 'cd':
-            const cdResult = cd(currentPath, args[0] || '~');
-            if (cdResult.error) return { output: cdResult.error };
-            return { newPath: cdResult.newPath };
-        case 'cat':
-            if (!args[0]) return { output: 'cat: missing operand' };
-            return { output: cat(currentPath, args[0]) };
-        case 'echo':
-            return { output: args.join(' ') };
-        case 'clear':
-            return { clear: true };
-        default:
-            return { output: `command not found: ${cmd}` };
+const commonPrefix = (values: string[]): string =>
+    values.reduce((prefix, value) => {
+        let i = 0;
+        while (i < prefix.length && prefix[i] === value[i]) i++;
+        return prefix.substring(0, i);
+    });
+
+/**
+ * Complete the last word of `line`: a command name when it is the first word of a command,
+ * otherwise a path. Directories complete with a trailing '/', everything else with a space.
+ */
+export const completeCommandLine = async (line: string, state: ShellState): Promise<CompletionResult> => {
+    const wordStart = Math.max(...[' ', '\t', '|', ';', '&', '>', '<'].map(separator => line.lastIndexOf(separator))) + 1;
+    const word = line.substring(wordStart);
+    const before = line.substring(0, wordStart).trimEnd();
+    const isCommandName = before === '' || /[|;&]$/.test(before);
+
+    let matches: { name: string; isDirectory: boolean }[];
+    let dirPart = '';
+    if (isCommandName && !word.includes('/')) {
+        matches = Object.keys(COMMANDS).filter(name => name.startsWith(word)).map(name => ({ name, isDirectory: false }));
+    } else {
+        dirPart = word.substring(0, word.lastIndexOf('/') + 1);
+        const prefix = word.substring(dirPart.length);
+        const dir = resolvePath(state, dirPart || '.');
+        if ((await workspaceFs.stat(dir))?.type !== 'directory') return { line, candidates: [] };
+        matches = (await workspaceFs.readdir(dir))
+            .map(entry => ({ name: entry.path.substring(entry.path.lastIndexOf('/') + 1), isDirectory: entry.type === 'directory' }))
+            .filter(entry => entry.name.startsWith(prefix) && (prefix.startsWith('.') || !entry.name.startsWith('.')));
     }
-};
\ No newline at end of file
+
+    const head = line.substring(0, wordStart) + dirPart;
+    if (matches.length === 0) return { line, candidates: [] };
+    if (matches.length === 1) {
+        const [match] = matches;
+        return { line: `${head}${match.name}${match.isDirectory ? '/' : ' '}`, candidates: [] };
+    }
+    const names = matches.map(match => match.name + (match.isDirectory ? '/' : '')).sort();
+    return { line: head + commonPrefix(matches.map(match => match.name)), candidates: names };
+};
@@ -2,7 +2,13 @@
 import React, { useState } from 'react';
 import { FileChange } from '../../hooks/useAiAgentSimulation';
 
-const FileDiffViewer: React.FC<{ fileChanges: FileChange[] }> = ({ fileChanges }) => {
+const CHANGE_MARKERS: Record<NonNullable<FileChange['change']>, { label: string; className: string }> = {
+    added: { label: 'A', className: 'text-green-400' },
+    modified: { label: 'M', className: 'text-yellow-400' },
+    deleted: { label: 'D', className: 'text-red-400' },
+};
+
+const FileDiffViewer: React.FC<{ fileChanges: FileChange[]; title?: string }> = ({ fileChanges, title = 'File Change Viewer' }) => {
     const [activeTab, setActiveTab] = useState<string | null>(null);
 
     React.useEffect(() => {
@@ -11,12 +17,19 @@ const FileDiffViewer: React.FC<{ fileChanges: FileChange[] }> = ({ fileChanges }
         }
     }, [fileChanges, activeTab]);
 
+    // Reset the selection when a different set of changes (e.g. another commit) is shown
+    React.useEffect(() => {
+        if (activeTab && !fileChanges.some(fc => fc.path === activeTab)) {
+            setActiveTab(fileChanges[0]?.path ?? null);
+        }
+    }, [fileChanges, activeTab]);
+
     const activeChange = fileChanges.find(fc => fc.path === activeTab);
 
     return (
         <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg shadow-lg flex flex-col h-1/2">
             <header className="p-3 border-b border-gray-700/50 flex-shrink-0">
-                <h3 className="font-semibold text-gray-300">File Change Viewer</h3>
+                <h3 className="font-semibold text-gray-300">{title}</h3>
             </header>
             {fileChanges.length === 0 ? (
                 <div className="flex items-center justify-center h-full text-gray-500">
@@ -27,6 +40,9 @@ const FileDiffViewer: React.FC<{ fileChanges: FileChange[] }> = ({ fileChanges }
                     <div className="flex border-b border-gray-700/50 text-sm overflow-x-auto">
                         {fileChanges.map(change => (
                             <button key={change.path} onClick={() => setActiveTab(change.path)} className={`px-4 py-2 font-mono text-xs transition-colors ${activeTab === change.path ? 'bg-gray-700/50 text-fuchsia-300' : 'text-gray-400 hover:bg-gray-700/30'}`}>
+                                {change.change && (
+                                    <span className={`mr-1 ${CHANGE_MARKERS[change.change].className}`}>{CHANGE_MARKERS[change.change].label}</span>
+                                )}
                                 {change.path}
                             </button>
                         ))}
@@ -1,20 +1,56 @@
 // components/tool_for_ai/JobDetails.tsx
-import React, { useRef, useEffect } from 'react';
-import { Job } from '../../types';
+import React, { useRef, useEffect, useState } from 'react';
+import { Job, JobLog } from '../../types';
 import MarkdownRenderer from '../common/MarkdownRenderer';
 import { DeveloperIcon } from '../icons';
+import { getJobArtifact } from '../../services/backendApiService';
+import { JOB_TYPE_LABELS, formatJobStatus } from './JobList';
 
 interface JobDetailsProps {
     job: Job | null;
 }
 
+const getLogLevelColor = (level: JobLog['level']) => {
+    switch (level) {
+        case 'warn': return 'text-yellow-400';
+        case 'error': return 'text-red-400';
+        default: return 'text-gray-400';
+    }
+};
+
 const JobDetails: React.FC<JobDetailsProps> = ({ job }) => {
     const logEndRef = useRef<HTMLDivElement>(null);
+    const [isDownloading, setIsDownloading] = useState(false);
+    const [downloadError, setDownloadError] = useState<string | null>(null);
 
     useEffect(() => {
         logEndRef.current?.scrollIntoView({ behavior: 'smooth' });
     }, [job?.logs]);
 
+    useEffect(() => {
+        setDownloadError(null);
+    }, [job?.id]);
+
+    const handleDownloadArtifact = async () => {
+        if (!job) return;
+        setIsDownloading(true);
+        setDownloadError(null);
+        try {
+            const artifact = await getJobArtifact(job.id);
+            const blob = new Blob([JSON.stringify(artifact, null, 2)], { type: 'application/json' });
+            const url = URL.createObjectURL(blob);
+            const link = document.createElement('a');
+            link.href = url;
+            link.download = `${job.type}-${job.id}.json`;
+            link.click();
+            URL.revokeObjectURL(url);
+        } catch (error) {
+            setDownloadError(error instanceof Error ? error.message : 'Download failed');
+        } finally {
+            setIsDownloading(false);
+        }
+    };
+
     if (!job) {
         return (
             <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg shadow-lg h-full flex items-center justify-center text-center text-gray-500">
@@ -31,12 +67,16 @@ const JobDetails: React.FC<JobDetailsProps> = ({ job }) => {
             <header className="p-4 border-b border-gray-700/50 flex-shrink-0">
                 <h3 className="font-semibold text-gray-200">Job Details</h3>
                 <p className="font-mono text-xs text-gray-500 mt-1 truncate">{job.id}</p>
+                <p className="text-xs text-gray-400 mt-1">
+                    {JOB_TYPE_LABELS[job.type]} · {formatJobStatus(job.status)} · {job.priority} priority
+                    {job.progress !== null && !['completed', 'cancelled'].includes(job.status) && ` · ${Math.round(job.progress * 100)}%`}
+                </p>
             </header>
             <main className="p-4 flex-grow overflow-y-auto space-y-4">
                 <div>
-                    <h4 className="text-sm font-semibold text-gray-400 mb-2">Prompt</h4>
+                    <h4 className="text-sm font-semibold text-gray-400 mb-2">Task</h4>
                     <div className="p-3 bg-gray-900/50 rounded-md text-sm text-gray-300">
-                        {job.prompt}
+                        {job.title}
                     </div>
                 </div>
                 <div>
@@ -44,21 +84,36 @@ const JobDetails: React.FC<JobDetailsProps> = ({ job }) => {
                     <div className="p-3 bg-black/30 rounded-md font-mono text-xs text-gray-400 max-h-48 overflow-y-auto space-y-1">
                         {job.logs.map((log, i) => (
                             <div key={i} className="flex gap-3">
-                                <span className="text-gray-600">{log.timestamp}</span>
-                                <span>{log.message}</span>
+                                <span className="text-gray-600">{new Date(log.timestamp).toLocaleTimeString()}</span>
+                                <span className={getLogLevelColor(log.level)} title={log.data ? JSON.stringify(log.data) : undefined}>
+                                    {log.message}
+                                </span>
                             </div>
                         ))}
                          <div ref={logEndRef} />
                     </div>
                 </div>
                 <div>
-                    <h4 className="text-sm font-semibold text-gray-400 mb-2">Result</h4>
+                    <div className="flex items-center justify-between mb-2">
+                        <h4 className="text-sm font-semibold text-gray-400">Result</h4>
+                        {job.hasArtifact && (
+                            <button
+                                onClick={handleDownloadArtifact}
+                                disabled={isDownloading}
+                                className="text-xs text-fuchsia-300 hover:text-fuchsia-200 disabled:text-gray-500"
+                            >
+                                {isDownloading ? 'Downloading...' : 'Download artifact (JSON)'}
+                            </button>
+                        )}
+                    </div>
+                    {downloadError && <p className="text-xs text-red-400 mb-2">{downloadError}</p>}
                     <div className="p-3 bg-gray-900/50 rounded-md">
+                        {job.error && <p className="text-red-400 text-sm mb-2">{job.error}</p>}
                         {job.result ? (
                             <MarkdownRenderer content={job.result} />
                         ) : (
                             <p className="text-gray-500 text-sm italic">
-                                {job.status === 'Running' || job.status === 'Pending' ? 'Awaiting result...' : 'No result generated.'}
+                                {job.status === 'running' || job.status === 'pending' ? 'Awaiting result...' : 'No result generated.'}
                             </p>
                         )}
                     </div>
@@ -1,8 +1,7 @@
 // components/tool_for_ai/JobList.tsx
 import React, { useState, useEffect } from 'react';
-import { Job, JobStatus } from '../../types';
+import { Job, JobStatus, JobType } from '../../types';
 import { XMarkIcon } from '../icons';
-import Loader from '../Loader';
 
 interface JobListProps {
     jobs: Job[];
@@ -13,32 +12,46 @@ interface JobListProps {
 
 const getStatusStyles = (status: JobStatus) => {
     switch (status) {
-        case 'Pending': return 'bg-yellow-500/20 text-yellow-300';
-        case 'Running': return 'bg-cyan-500/20 text-cyan-300';
-        case 'Completed': return 'bg-green-500/20 text-green-300';
-        case 'Failed': return 'bg-red-500/20 text-red-300';
-        case 'Cancelled': return 'bg-gray-600/20 text-gray-400';
+        case 'pending': return 'bg-yellow-500/20 text-yellow-300';
+        case 'running': return 'bg-cyan-500/20 text-cyan-300';
+        case 'completed': return 'bg-green-500/20 text-green-300';
+        case 'failed': return 'bg-red-500/20 text-red-300';
+        case 'cancelled': return 'bg-gray-600/20 text-gray-400';
     }
 };
 
+export const JOB_TYPE_LABELS: Record<JobType, string> = {
+    plan: 'Plan',
+    shunt_batch: 'Shunt Batch',
+    foundry_run: 'Foundry Run',
+    rag_index_build: 'RAG Index Build',
+};
+
+export const formatJobStatus = (status: JobStatus) => status.charAt(0).toUpperCase() + status.slice(1);
+
 const JobItem: React.FC<{ job: Job; onSelect: () => void; onCancel: () => void; isSelected: boolean }> = React.memo(({ job, onSelect, onCancel, isSelected }) => {
     const [duration, setDuration] = useState('');
 
     useEffect(() => {
+        // Time spent running; queued jobs show nothing until a worker picks them up
         const updateDuration = () => {
-            const end = job.endTime || Date.now();
-            const diffSeconds = Math.round((end - job.startTime) / 1000);
+            if (!job.startedAt) {
+                setDuration('');
+                return;
+            }
+            const end = job.finishedAt ? Date.parse(job.finishedAt) : Date.now();
+            const diffSeconds = Math.max(0, Math.round((end - Date.parse(job.startedAt)) / 1000));
             setDuration(`${diffSeconds}s`);
         };
-        
+
         updateDuration();
-        if (job.status === 'Running') {
+        if (job.status === 'running') {
             const interval = setInterval(updateDuration, 1000);
             return () => clearInterval(interval);
         }
-    }, [job.startTime, job.endTime, job.status]);
+    }, [job.startedAt, job.finishedAt, job.status]);
 
-    const canCancel = job.status === 'Pending' || job.status === 'Running';
+    const canCancel = job.status === 'pending' || job.status === 'running';
 
     return (
         <li 
@@ -46,13 +59,21 @@ const JobItem: React.FC<{ job: Job; onSelect: () => void; onCancel: () => void;
             className={`p-3 rounded-md transition-colors cursor-pointer flex items-center justify-between gap-4 group ${isSelected ? 'bg-fuchsia-900/50' : 'bg-gray-900/50 hover:bg-gray-700/50'}`}
         >
             <div className="flex-grow overflow-hidden">
-                <p className="font-mono text-xs text-gray-400 truncate" title={job.id}>{job.id}</p>
-                <p className="text-sm text-gray-300 truncate mt-1" title={job.prompt}>{job.prompt}</p>
+                <p className="font-mono text-xs text-gray-400 truncate" title={job.id}>
+                    <span className="text-fuchsia-300">{JOB_TYPE_LABELS[job.type]}</span>
+                    {job.priority !== 'normal' && <span className="ml-2 text-gray-500">{job.priority} priority</span>}
+                </p>
+                <p className="text-sm text-gray-300 truncate mt-1" title={job.title}>{job.title}</p>
+                {job.status === 'running' && job.progress !== null && (
+                    <div className="mt-2 h-1 bg-gray-700 rounded-full overflow-hidden">
+                        <div className="h-full bg-cyan-400 transition-all" style={{ width: `${Math.round(job.progress * 100)}%` }} />
+                    </div>
+                )}
             </div>
             <div className="flex-shrink-0 flex items-center gap-3">
                 <span className="font-mono text-xs text-gray-500 w-12 text-right">{duration}</span>
                 <span className={`px-2 py-0.5 text-xs font-semibold rounded-full w-24 text-center ${getStatusStyles(job.status)}`}>
-                    {job.status}
+                    {formatJobStatus(job.status)}
                 </span>
                 {canCancel ? (
                     <button 
@@ -2,24 +2,56 @@
 import React, { useState, useEffect } from 'react';
 import { useTelemetry } from '../../context/TelemetryContext';
 import TabFooter from '../common/TabFooter';
-import { Job } from '../../types';
+import FileUpload from '../common/FileUpload';
+import { Job, JobPriority, JobType, ShuntAction } from '../../types';
 import { useJobManager } from '../../hooks/useJobManager';
-import JobList from './JobList';
+import JobList, { JOB_TYPE_LABELS } from './JobList';
 import JobDetails from './JobDetails';
-import { DeveloperIcon, BoltIcon } from '../icons';
+import { DeveloperIcon, BoltIcon, XMarkIcon } from '../icons';
 import Loader from '../Loader';
 
+// Actions that make sense per item: tool calls run client-side and skill packages are multi-file outputs
+const BATCH_ACTIONS = Object.values(ShuntAction).filter(
+    action => action !== ShuntAction.CALL_TOOL && action !== ShuntAction.BUILD_A_SKILL && action !== ShuntAction.AMPLIFY_X2
+);
+
+const SOURCE_FILE_TYPES = ['.txt', '.md', '.json', '.js', '.jsx', '.ts', '.tsx', '.py', '.html', '.css', '.yml', '.yaml', '.sh'];
+
+const JOB_TYPE_HINTS: Record<JobType, string> = {
+    plan: 'A step-by-step markdown plan for a task.',
+    shunt_batch: 'Run one Shunt action over many texts. Separate items with a line containing only ---.',
+    foundry_run: 'Architect, Security, QA and other specialist agents audit the goal, then one plan is synthesized.',
+    rag_index_build: 'Chunk and embed files into a vector index, downloadable as the job artifact.',
+};
+
+interface UploadedFile {
+    path: string;
+    content: string;
+}
+
+/**
+ * Split batch text into items on lines that contain only ---
+ */
+const splitBatchItems = (text: string) =>
+    text.split(/^\s*---\s*$/m).map(item => item.trim()).filter(Boolean).map(item => ({ text: item }));
+
 const ToolforAI: React.FC = () => {
     const { updateTelemetryContext } = useTelemetry();
+    const [jobType, setJobType] = useState<JobType>('plan');
+    const [priority, setPriority] = useState<JobPriority>('normal');
     const [prompt, setPrompt] = useState('Refactor the auth.js file to use modern async/await syntax instead of callbacks.');
+    const [batchAction, setBatchAction] = useState<ShuntAction>(ShuntAction.SUMMARIZE);
+    const [batchText, setBatchText] = useState('');
+    const [goal, setGoal] = useState('');
+    const [files, setFiles] = useState<UploadedFile[]>([]);
     const [selectedJob, setSelectedJob] = useState<Job | null>(null);
-    
-    const { jobs, submitJob, cancelJob, isRunning } = useJobManager();
+
+    const { jobs, submitJob, cancelJob, isSubmitting, error, clearError } = useJobManager();
 
     useEffect(() => {
         updateTelemetryContext({ tab: 'tool_for_ai' });
     }, [updateTelemetryContext]);
-    
+
     // Keep selected job details up to date
     useEffect(() => {
         if (selectedJob) {
@@ -32,40 +64,161 @@ const ToolforAI: React.FC = () => {
         }
     }, [jobs, selectedJob]);
 
-    const handleRun = () => {
-        if (prompt.trim()) {
-            submitJob(prompt.trim());
+    const handleFilesUploaded = (uploaded: Array<{ filename: string; content: string }>) => {
+        setFiles(prev => {
+            const byPath = new Map(prev.map(file => [file.path, file]));
+            uploaded.forEach(({ filename, content }) => byPath.set(filename, { path: filename, content }));
+            return [...byPath.values()];
+        });
+    };
+
+    const batchItems = jobType === 'shunt_batch' ? splitBatchItems(batchText) : [];
+
+    const canSubmit = (() => {
+        switch (jobType) {
+            case 'plan': return prompt.trim().length > 0;
+            case 'shunt_batch': return batchItems.length > 0;
+            case 'foundry_run': return goal.trim().length > 0;
+            case 'rag_index_build': return files.length > 0;
         }
+    })();
+
+    const handleRun = async () => {
+        if (!canSubmit) return;
+
+        let job: Job | null = null;
+        switch (jobType) {
+            case 'plan':
+                job = await submitJob('plan', { prompt: prompt.trim() }, priority);
+                break;
+            case 'shunt_batch':
+                job = await submitJob('shunt_batch', { action: batchAction, items: batchItems }, priority);
+                break;
+            case 'foundry_run':
+                job = await submitJob('foundry_run', { goal: goal.trim(), files }, priority);
+                break;
+            case 'rag_index_build':
+                job = await submitJob('rag_index_build', { files }, priority);
+                break;
+        }
+        if (job) setSelectedJob(job);
     };
 
+    const inputClassName = "w-full bg-gray-900/50 rounded-md border border-gray-700 p-3 text-gray-300 placeholder-gray-500 resize-none focus:outline-none focus:ring-2 focus:ring-fuchsia-500";
+    const selectClassName = "bg-gray-900/50 rounded-md border border-gray-700 px-2 py-1.5 text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-fuchsia-500";
+
+    const fileSection = (
+        <div className="mt-3 space-y-2">
+            <FileUpload
+                onFilesUploaded={handleFilesUploaded}
+                acceptedFileTypes={SOURCE_FILE_TYPES}
+                maxFileSizeMB={1}
+            />
+            {files.length > 0 && (
+                <div className="flex items-center justify-between text-xs text-gray-400">
+                    <span>{files.length} file{files.length === 1 ? '' : 's'} attached</span>
+                    <button onClick={() => setFiles([])} className="text-gray-500 hover:text-red-400">Clear</button>
+                </div>
+            )}
+        </div>
+    );
+
     return (
         <div className="flex flex-col h-full bg-gray-900/20">
             <div className="flex-grow p-4 md:p-6 grid grid-cols-1 lg:grid-cols-2 gap-6 overflow-hidden">
                 {/* Left Column: Controls and Job List */}
                 <div className="flex flex-col gap-6 overflow-hidden">
-                    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-4 shadow-lg flex-shrink-0">
+                    <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg p-4 shadow-lg flex-shrink-0 max-h-[60%] overflow-y-auto">
                         <h2 className="text-xl font-semibold text-white flex items-center gap-3 mb-4">
                             <DeveloperIcon className="w-7 h-7 text-fuchsia-400" />
                             AI Job Runner
                         </h2>
-                        <textarea
-                            value={prompt}
-                            onChange={(e) => setPrompt(e.target.value)}
-                            placeholder="Enter a task for the AI agent..."
-                            className="w-full bg-gray-900/50 rounded-md border border-gray-700 p-3 text-gray-300 placeholder-gray-500 resize-none focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
-                            rows={4}
-                            disabled={isRunning}
-                        />
+                        <div className="flex flex-wrap items-center gap-3 mb-2">
+                            <select
+                                value={jobType}
+                                onChange={(e) => setJobType(e.target.value as JobType)}
+                                className={selectClassName}
+                                aria-label="Job type"
+                            >
+                                {(Object.keys(JOB_TYPE_LABELS) as JobType[]).map(type => (
+                                    <option key={type} value={type}>{JOB_TYPE_LABELS[type]}</option>
+                                ))}
+                            </select>
+                            <select
+                                value={priority}
+                                onChange={(e) => setPriority(e.target.value as JobPriority)}
+                                className={selectClassName}
+                                aria-label="Priority"
+                            >
+                                <option value="high">High priority</option>
+                                <option value="normal">Normal priority</option>
+                                <option value="low">Low priority</option>
+                            </select>
+                        </div>
+                        <p className="text-xs text-gray-500 mb-3">{JOB_TYPE_HINTS[jobType]}</p>
+
+                        {jobType === 'plan' && (
+                            <textarea
+                                value={prompt}
+                                onChange={(e) => setPrompt(e.target.value)}
+                                placeholder="Enter a task for the AI agent..."
+                                className={inputClassName}
+                                rows={4}
+                            />
+                        )}
+                        {jobType === 'shunt_batch' && (
+                            <>
+                                <select
+                                    value={batchAction}
+                                    onChange={(e) => setBatchAction(e.target.value as ShuntAction)}
+                                    className={`${selectClassName} mb-2`}
+                                    aria-label="Shunt action"
+                                >
+                                    {BATCH_ACTIONS.map(action => <option key={action} value={action}>{action}</option>)}
+                                </select>
+                                <textarea
+                                    value={batchText}
+                                    onChange={(e) => setBatchText(e.target.value)}
+                                    placeholder={'First text...\n---\nSecond text...'}
+                                    className={`${inputClassName} font-mono text-sm`}
+                                    rows={6}
+                                />
+                                <p className="text-xs text-gray-500 mt-1">{batchItems.length} item{batchItems.length === 1 ? '' : 's'}</p>
+                            </>
+                        )}
+                        {jobType === 'foundry_run' && (
+                            <>
+                                <textarea
+                                    value={goal}
+                                    onChange={(e) => setGoal(e.target.value)}
+                                    placeholder="Describe what you want to build..."
+                                    className={inputClassName}
+                                    rows={4}
+                                />
+                                <p className="text-xs text-gray-500 mt-2">Optional: attach project files for the agents to review.</p>
+                                {fileSection}
+                            </>
+                        )}
+                        {jobType === 'rag_index_build' && fileSection}
+
+                        {error && (
+                            <div className="mt-3 p-2 bg-red-900/30 border border-red-700/50 rounded-md text-xs text-red-300 flex items-start justify-between gap-2">
+                                <span>{error}</span>
+                                <button onClick={clearError} title="Dismiss">
+                                    <XMarkIcon className="w-4 h-4" />
+                                </button>
+                            </div>
+                        )}
                         <button
                             onClick={handleRun}
-                            disabled={isRunning || !prompt.trim()}
+                            disabled={isSubmitting || !canSubmit}
                             className="w-full mt-4 px-6 py-3 bg-fuchsia-600 text-white font-semibold rounded-md hover:bg-fuchsia-500 disabled:bg-gray-700 disabled:cursor-not-allowed transition-colors flex items-center justify-center gap-2"
                         >
-                            {isRunning ? <Loader /> : <BoltIcon className="w-5 h-5" />}
-                            {isRunning ? 'Processing...' : 'Submit Job'}
+                            {isSubmitting ? <Loader /> : <BoltIcon className="w-5 h-5" />}
+                            {isSubmitting ? 'Submitting...' : 'Submit Job'}
                         </button>
                     </div>
-                    <JobList 
+                    <JobList
                         jobs={jobs}
                         onSelect={setSelectedJob}
                         onCancel={cancelJob}
@@ -83,4 +236,4 @@ const ToolforAI: React.FC = () => {
     );
 };
 
-export default ToolforAI;
\ No newline at end of file
+export default ToolforAI;
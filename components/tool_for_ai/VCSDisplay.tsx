@@ -1,5 +1,7 @@
 // components/tool_for_ai/VCSDisplay.tsx
 import React from 'react';
+import { VcsState } from '../../services/toolApi';
+import { shortHash } from '../../services/workspaceGit';
 
 const FileList: React.FC<{ title: string; files: string[]; colorClass: string }> = ({ title, files, colorClass }) => {
     if (files.length === 0) return null;
@@ -18,7 +20,10 @@ const FileList: React.FC<{ title: string; files: string[]; colorClass: string }>
 };
 
 
-const VCSDisplay: React.FC<{ vcsState: any }> = ({ vcsState }) => {
+const VCSDisplay: React.FC<{ vcsState: VcsState; onSelectCommit?: (hash: string) => void }> = ({ vcsState, onSelectCommit }) => {
+    const { staged, unstaged, untracked, conflicted } = vcsState.status;
+    const isClean = staged.length === 0 && unstaged.length === 0 && conflicted.length === 0;
+
     return (
         <div className="bg-gray-800/50 border border-gray-700/50 rounded-lg shadow-lg flex flex-col">
             <header className="p-3 border-b border-gray-700/50 flex-shrink-0">
@@ -26,23 +31,55 @@ const VCSDisplay: React.FC<{ vcsState: any }> = ({ vcsState }) => {
             </header>
             <main className="p-4 font-mono text-xs text-gray-300 space-y-2">
                 <p>Branch: <span className="text-cyan-400">{vcsState.currentBranch}</span></p>
+                {vcsState.branches.length > 1 && (
+                    <p className="text-gray-500">Branches: {vcsState.branches.join(', ')}</p>
+                )}
+                {vcsState.merging && (
+                    <p className="text-orange-400">Merging {shortHash(vcsState.merging)}: fix conflicts, stage them and commit.</p>
+                )}
                 <div>
                     <p>Changes:</p>
                     <div className="pl-4 mt-1 space-y-1">
-                        {vcsState.status.staged?.length === 0 && vcsState.status.unstaged?.length === 0 ? (
+                        {isClean && untracked.length === 0 ? (
                              <p className="text-gray-500 italic">Working tree is clean.</p>
                         ) : (
                            <>
-                                <FileList title="Staged" files={vcsState.status.staged || []} colorClass="text-green-400" />
-                                <FileList title="Unstaged" files={vcsState.status.unstaged || []} colorClass="text-yellow-400" />
-                                <FileList title="Untracked" files={vcsState.status.untracked || []} colorClass="text-gray-400" />
+                                <FileList title="Conflicted" files={conflicted} colorClass="text-red-400" />
+                                <FileList title="Staged" files={staged} colorClass="text-green-400" />
+                                <FileList title="Unstaged" files={unstaged} colorClass="text-yellow-400" />
+                                <FileList title="Untracked" files={untracked} colorClass="text-gray-400" />
                            </>
                         )}
                     </div>
                 </div>
+                <div>
+                    <p>History:</p>
+                    {vcsState.log.length === 0 ? (
+                        <p className="pl-4 mt-1 text-gray-500 italic">No commits yet.</p>
+                    ) : (
+                        <ul className="pl-4 mt-1 space-y-1">
+                            {vcsState.log.map(commit => (
+                                <li key={commit.hash}>
+                                    <button
+                                        onClick={() => onSelectCommit?.(commit.hash)}
+                                        disabled={!onSelectCommit}
+                                        className="text-left w-full hover:bg-gray-700/30 disabled:hover:bg-transparent rounded px-1"
+                                        title={`${commit.author.name} <${commit.author.email}>\n${new Date(commit.timestamp).toLocaleString()}`}
+                                    >
+                                        <span className="text-yellow-500">{shortHash(commit.hash)}</span>
+                                        {commit.hash === vcsState.head && <span className="text-cyan-400"> (HEAD)</span>}
+                                        {commit.parents.length > 1 && <span className="text-fuchsia-400"> merge</span>}
+                                        {' '}{commit.message.split('\n')[0]}
+                                        <span className="text-gray-500"> — {commit.author.name}</span>
+                                    </button>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                </div>
             </main>
         </div>
     );
 };
 
-export default VCSDisplay;
\ No newline at end of file
+export default VCSDisplay;
@@ -1,8 +1,8 @@
 // components/weaver/MailboxModal.tsx
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useMailbox } from '../../context/MailboxContext';
 import { MailboxFile } from '../../types';
-import { XMarkIcon, MailboxIcon, CopyIcon, CheckIcon } from '../icons';
+import { XMarkIcon, MailboxIcon, CopyIcon, CheckIcon, DownloadIcon, UploadIcon } from '../icons';
 
 interface MailboxModalProps {
     isOpen: boolean;
@@ -44,9 +44,11 @@ const FileDetailView: React.FC<{ file: MailboxFile; onBack: () => void }> = ({ f
 
 
 const MailboxModal: React.FC<MailboxModalProps> = ({ isOpen, onClose }) => {
-    const { files, markAsRead, clearMailbox } = useMailbox();
+    const { files, markAsRead, clearMailbox, exportZip, importZip } = useMailbox();
     const [selectedFile, setSelectedFile] = useState<MailboxFile | null>(null);
     const [isRendered, setIsRendered] = useState(false);
+    const [zipError, setZipError] = useState<string | null>(null);
+    const importInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
         if (isOpen) {
@@ -65,9 +67,37 @@ const MailboxModal: React.FC<MailboxModalProps> = ({ isOpen, onClose }) => {
 
     const handleClose = () => {
         setSelectedFile(null);
+        setZipError(null);
         onClose();
     };
 
+    const handleExport = async () => {
+        setZipError(null);
+        try {
+            const zipBlob = await exportZip();
+            const link = document.createElement('a');
+            link.href = URL.createObjectURL(zipBlob);
+            link.download = 'mailbox.zip';
+            link.click();
+            URL.revokeObjectURL(link.href);
+        } catch (error) {
+            setZipError(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setZipError(null);
+        try {
+            const count = await importZip(file);
+            if (count === 0) setZipError(`${file.name} contains no files.`);
+        } catch (error) {
+            setZipError(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
     if (!isRendered) return null;
 
     return (
@@ -87,6 +117,15 @@ const MailboxModal: React.FC<MailboxModalProps> = ({ isOpen, onClose }) => {
                                 <h2 className="text-lg font-semibold text-gray-200">Mailbox</h2>
                             </div>
                              <div className="flex items-center gap-4">
+                                <input ref={importInputRef} type="file" accept=".zip" className="hidden" onChange={handleImport} />
+                                <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors" title="Import files from a zip">
+                                    <UploadIcon className="w-4 h-4" /> Import
+                                </button>
+                                {files.length > 0 && (
+                                    <button onClick={handleExport} className="flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors" title="Download the mailbox as a zip">
+                                        <DownloadIcon className="w-4 h-4" /> Export
+                                    </button>
+                                )}
                                 {files.length > 0 && (
                                     <button onClick={clearMailbox} className="text-sm text-gray-400 hover:text-red-400 transition-colors">Clear All</button>
                                 )}
@@ -96,11 +135,14 @@ const MailboxModal: React.FC<MailboxModalProps> = ({ isOpen, onClose }) => {
                             </div>
                         </header>
                         <main className="p-4 overflow-y-auto flex-grow">
+                           {zipError && (
+                                <p className="mb-3 p-2 text-xs text-red-300 bg-red-900/30 border border-red-700/50 rounded-md">{zipError}</p>
+                           )}
                            {files.length === 0 ? (
                                 <div className="flex flex-col items-center justify-center h-full text-gray-500">
                                     <MailboxIcon className="w-12 h-12 mb-4" />
                                     <p className="font-semibold">Your mailbox is empty.</p>
-                                    <p className="text-sm mt-1">Generated skill files will appear here.</p>
+                                    <p className="text-sm mt-1">Generated skill files will appear here and in ~/mailbox in the Terminal.</p>
                                 </div>
                             ) : (
                                 <ul className="space-y-3">
@@ -14,7 +14,7 @@ import { parseApiError } from '../../utils/errorLogger';
 
 const WEAVER_MEMORY_STORAGE_KEY = 'weaver-project-memory';
 
-const loadDocumentation = (): Documentation => {
+export const loadDocumentation = (): Documentation => {
     try {
         const stored = localStorage.getItem(WEAVER_MEMORY_STORAGE_KEY);
         if (stored) {
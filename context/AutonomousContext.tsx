@@ -1,6 +1,6 @@
 // context/AutonomousContext.tsx
 import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
-import { AutonomousDirective, UserTelemetryEvent, GovernanceResponse } from '../types/autonomous';
+import { AutonomousDirective, UserTelemetryEvent } from '../types/autonomous';
 import { fetchAutonomousDirectives } from '../services/governanceApi';
 import { useClientProactiveEngine } from '../hooks/useClientProactiveEngine';
 // FIX: Corrected import to use the newly exported 'trackCustomEvent'.
@@ -19,6 +19,8 @@ interface AutonomousProviderProps {
 }
 
 const GOVERNANCE_POLLING_INTERVAL = 5000;
+// Events held for the next governance request; the oldest are dropped while the backend is unreachable
+const MAX_PENDING_GOVERNANCE_EVENTS = 500;
 
 export const AutonomousProvider: React.FC<AutonomousProviderProps> = ({ children }) => {
   const [backendDirectives, setBackendDirectives] = useState<AutonomousDirective[]>([]);
@@ -30,6 +32,7 @@ export const AutonomousProvider: React.FC<AutonomousProviderProps> = ({ children
   } = useClientProactiveEngine();
 
   const isFetchingDirectives = useRef(false);
+  const pendingEventsRef = useRef<UserTelemetryEvent[]>([]);
 
   const dispatchTelemetryEvent = useCallback((eventDetails: Omit<UserTelemetryEvent, 'id' | 'timestamp' | 'sessionId' | 'sequenceNumber' | 'pagePath'>) => {
     // FIX: Use the fully-formed event from trackCustomEvent to ensure the client-side engine gets the real event ID.
@@ -38,10 +41,34 @@ export const AutonomousProvider: React.FC<AutonomousProviderProps> = ({ children
     
     // The telemetry service automatically adds full context. We pass the full event to the client engine.
     processLocalEvent(fullEvent);
+    pendingEventsRef.current.push(fullEvent);
   }, [processLocalEvent]);
 
-  // Backend Communication (Polling) is not implemented in this demo as it requires a backend.
-  // A real implementation would use a WebSocket or periodic fetch here.
+  // Send pending events to the backend governance engine and collect its directives
+  useEffect(() => {
+    const sendPendingEvents = async () => {
+      if (isFetchingDirectives.current || pendingEventsRef.current.length === 0) return;
+      isFetchingDirectives.current = true;
+      const events = pendingEventsRef.current;
+      pendingEventsRef.current = [];
+
+      try {
+        // Sends the client's current inferred state along with the events
+        const response = await fetchAutonomousDirectives(events);
+        if (response) {
+          setBackendDirectives((prev) => [...prev, ...response.directives]);
+        } else {
+          // Keep the events for the next attempt so windowed rules still see them
+          pendingEventsRef.current = [...events, ...pendingEventsRef.current].slice(-MAX_PENDING_GOVERNANCE_EVENTS);
+        }
+      } finally {
+        isFetchingDirectives.current = false;
+      }
+    };
+
+    const interval = setInterval(sendPendingEvents, GOVERNANCE_POLLING_INTERVAL);
+    return () => clearInterval(interval);
+  }, []);
 
   const allActiveDirectives = [...backendDirectives, ...localDirectives].sort((a, b) => (a.priority || 99) - (b.priority || 99));
 
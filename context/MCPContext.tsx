@@ -1,6 +1,7 @@
 // context/MCPContext.tsx
-import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode, useRef } from 'react';
-import { MCPConnectionStatus, MCPExtensionAPI } from '../types/mcp';
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { MCPConnectionStatus, MCPExtensionAPI, MCPServer } from '../types/mcp';
+import { registerMcpTools } from '../services/mcpTools';
 
 interface MCPContextType {
   status: MCPConnectionStatus;
@@ -8,80 +9,32 @@ interface MCPContextType {
   connect: () => Promise<void>;
   disconnect: () => Promise<void>;
   extensionApi: MCPExtensionAPI | null;
+
+  // MCP servers on the backend, whose tools are registered as agent tools
+  servers: MCPServer[];
+  mcpTools: string[];
+  serverErrors: Record<string, string>;
+  isRefreshingServers: boolean;
+  refreshServers: () => Promise<void>;
 }
 
 const MCPContext = createContext<MCPContextType | undefined>(undefined);
 
-/**
- * Creates a stateful, event-driven mock of the MCPExtensionAPI.
- * This allows for realistic testing of the connection flow without the real extension.
- */
-const createMockMcpApi = (): MCPExtensionAPI => {
-    type Listener = (status: MCPConnectionStatus) => void;
-    const listeners = new Set<Listener>();
-    let status = MCPConnectionStatus.Disconnected;
-
-    const emit = (newStatus: MCPConnectionStatus) => {
-        status = newStatus;
-        listeners.forEach(cb => cb(status));
-    };
-
-    return {
-        isReady: true,
-        connect: async () => {
-            console.log("Mock API: connect() called, simulating delay...");
-            await new Promise(res => setTimeout(res, 750));
-            console.log("Mock API: connected.");
-            emit(MCPConnectionStatus.Connected);
-            return { version: '1.0.0-mock' };
-        },
-        disconnect: async () => {
-            console.log("Mock API: disconnect() called.");
-            emit(MCPConnectionStatus.Disconnected);
-        },
-        getConnectionStatus: async () => status,
-        on: (eventName, callback) => {
-            if (eventName === 'statusChange') listeners.add(callback);
-        },
-        off: (eventName, callback) => {
-            if (eventName === 'statusChange') listeners.delete(callback);
-        },
-        fs: {
-            readFile: async (path: string) => {
-                await new Promise(res => setTimeout(res, 500));
-                const mockContent = `// This is mock content for ${path} loaded via the mock MCP browser extension.`;
-                console.log(`Mock MCP: Reading file from path: ${path}`);
-                return Promise.resolve(mockContent);
-            },
-            saveFile: async (path: string, content: string) => {
-                await new Promise(res => setTimeout(res, 500));
-                console.log(`Mock MCP: Saving file to path: ${path}`);
-                console.log(`--- Start of Content for ${path} ---`);
-                console.log(content);
-                console.log(`--- End of Content for ${path} ---`);
-                alert(`Mock Extension: File '${path}' would be saved. Check the browser console for the output.`);
-                return Promise.resolve();
-            }
-        }
-    };
-};
-
 export const MCPProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [status, setStatus] = useState<MCPConnectionStatus>(MCPConnectionStatus.NotFound);
   const [extensionVersion, setExtensionVersion] = useState<string | null>(null);
   const [extensionApi, setExtensionApi] = useState<MCPExtensionAPI | null>(null);
-  const mockApiRef = useRef<MCPExtensionAPI | null>(null);
+  const [servers, setServers] = useState<MCPServer[]>([]);
+  const [mcpTools, setMcpTools] = useState<string[]>([]);
+  const [serverErrors, setServerErrors] = useState<Record<string, string>>({});
+  const [isRefreshingServers, setIsRefreshingServers] = useState(false);
 
-  // Effect for detecting the extension or creating a mock
+  // Effect for detecting the extension; without it the status stays NotFound
   useEffect(() => {
     const detectExtension = () => {
       if (window.mcpExtension) {
         console.log("MCP Extension found.");
         setExtensionApi(window.mcpExtension);
-      } else if (!mockApiRef.current) {
-        console.warn("MCP Extension not found. Initializing mock for demonstration.");
-        mockApiRef.current = createMockMcpApi();
-        setExtensionApi(mockApiRef.current);
       }
     };
     
@@ -150,8 +103,30 @@ export const MCPProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
     }
   }, [extensionApi]);
 
+  const refreshServers = useCallback(async () => {
+    setIsRefreshingServers(true);
+    try {
+      const registration = await registerMcpTools();
+      setServers(registration.servers);
+      setMcpTools(registration.tools);
+      setServerErrors(registration.errors);
+    } catch (error) {
+      console.warn("MCP servers unavailable:", error);
+      setServerErrors({ backend: error instanceof Error ? error.message : String(error) });
+    } finally {
+      setIsRefreshingServers(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshServers();
+  }, [refreshServers]);
+
   return (
-    <MCPContext.Provider value={{ status, extensionVersion, connect, disconnect, extensionApi }}>
+    <MCPContext.Provider value={{
+      status, extensionVersion, connect, disconnect, extensionApi,
+      servers, mcpTools, serverErrors, isRefreshingServers, refreshServers,
+    }}>
       {children}
     </MCPContext.Provider>
   );
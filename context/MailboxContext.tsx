@@ -3,8 +3,13 @@ import React, { createContext, useContext, useState, ReactNode, useEffect, useCa
 import { v4 as uuidv4 } from 'uuid';
 import { MailboxFile } from '../types';
 import { useTelemetry } from './TelemetryContext';
+import { workspaceFs, WorkspaceEntry, WORKSPACE_HOME } from '../services/workspaceFileSystem';
 
-const MAILBOX_STORAGE_KEY = 'ai-shunt-mailbox';
+// Delivered files live in the workspace filesystem, so they also show up in the Terminal and read_file
+export const MAILBOX_DIR = `${WORKSPACE_HOME}/mailbox`;
+
+// Where the mailbox was kept before the workspace filesystem; migrated once, then removed
+const LEGACY_MAILBOX_STORAGE_KEY = 'ai-shunt-mailbox';
 
 interface MailboxContextType {
   files: MailboxFile[];
@@ -12,31 +17,71 @@ interface MailboxContextType {
   deliverFiles: (filesToDeliver: { path: string; content: string }[]) => Promise<void>;
   markAsRead: (fileId: string) => void;
   clearMailbox: () => void;
+  exportZip: () => Promise<Blob>;
+  importZip: (file: File) => Promise<number>;
 }
 
 const MailboxContext = createContext<MailboxContextType | undefined>(undefined);
 
-const loadFiles = (): MailboxFile[] => {
-    try {
-        const stored = localStorage.getItem(MAILBOX_STORAGE_KEY);
-        return stored ? JSON.parse(stored) : [];
-    } catch (error) {
-        console.error("Failed to load mailbox files from localStorage:", error);
-        return [];
+const toMailboxFile = (entry: WorkspaceEntry): MailboxFile => ({
+    id: entry.path,
+    path: entry.path.substring(MAILBOX_DIR.length + 1),
+    content: entry.content ?? '',
+    timestamp: typeof entry.metadata.deliveredAt === 'string' ? entry.metadata.deliveredAt : entry.createdAt,
+    // Only delivered and imported files start unread; files written in the terminal do not
+    isRead: entry.metadata.isRead !== false,
+    versionId: typeof entry.metadata.versionId === 'string' ? entry.metadata.versionId : undefined,
+});
+
+const loadFiles = async (): Promise<MailboxFile[]> => {
+    const entries = await workspaceFs.listFiles(MAILBOX_DIR);
+    return entries.map(toMailboxFile).sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+/**
+ * Move files from the old localStorage mailbox into the workspace
+ */
+const migrateLegacyMailbox = async () => {
+    const stored = localStorage.getItem(LEGACY_MAILBOX_STORAGE_KEY);
+    if (!stored) return;
+
+    const legacyFiles: MailboxFile[] = JSON.parse(stored);
+    for (const file of legacyFiles) {
+        await workspaceFs.writeFile(`${MAILBOX_DIR}/${file.path}`, file.content, {
+            deliveredAt: file.timestamp,
+            isRead: file.isRead,
+            ...(file.versionId ? { versionId: file.versionId } : {}),
+        });
     }
+    localStorage.removeItem(LEGACY_MAILBOX_STORAGE_KEY);
 };
 
 export const MailboxProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-    const [files, setFiles] = useState<MailboxFile[]>(loadFiles);
+    const [files, setFiles] = useState<MailboxFile[]>([]);
     const { versionControlService } = useTelemetry();
 
     useEffect(() => {
-        try {
-            localStorage.setItem(MAILBOX_STORAGE_KEY, JSON.stringify(files));
-        } catch (error) {
-            console.error("Failed to save mailbox files to localStorage:", error);
-        }
-    }, [files]);
+        let active = true;
+        const refresh = () => {
+            loadFiles()
+                .then(loaded => { if (active) setFiles(loaded); })
+                .catch(error => console.error("Failed to load mailbox files from the workspace:", error));
+        };
+
+        migrateLegacyMailbox()
+            .catch(error => console.error("Failed to migrate mailbox files from localStorage:", error))
+            .finally(refresh);
+
+        const unsubscribe = workspaceFs.subscribe(paths => {
+            if (paths.some(path => path === MAILBOX_DIR || path.startsWith(`${MAILBOX_DIR}/`) || MAILBOX_DIR.startsWith(`${path}/`))) {
+                refresh();
+            }
+        });
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, []);
 
     const unreadCount = files.filter(f => !f.isRead).length;
 
@@ -46,7 +91,6 @@ export const MailboxProvider: React.FC<{ children: ReactNode }> = ({ children })
             return;
         }
 
-        const newMailboxFiles: MailboxFile[] = [];
         for (const file of filesToDeliver) {
             const versionRecord = await versionControlService.captureVersion(
                 'code_snippet',
@@ -57,34 +101,41 @@ export const MailboxProvider: React.FC<{ children: ReactNode }> = ({ children })
             );
 
             if (versionRecord) {
-                newMailboxFiles.push({
-                    id: uuidv4(),
-                    path: file.path,
-                    content: file.content,
-                    timestamp: new Date().toISOString(),
+                await workspaceFs.writeFile(`${MAILBOX_DIR}/${file.path}`, file.content, {
+                    deliveredAt: new Date().toISOString(),
                     isRead: false,
                     versionId: versionRecord.versionId,
                 });
             }
         }
-
-        setFiles(prevFiles => [...newMailboxFiles, ...prevFiles]);
     }, [versionControlService]);
 
     const markAsRead = useCallback((fileId: string) => {
-        setFiles(prevFiles =>
-            prevFiles.map(file =>
-                file.id === fileId && !file.isRead ? { ...file, isRead: true } : file
-            )
-        );
+        workspaceFs.setMetadata(fileId, { isRead: true })
+            .catch(error => console.error("Failed to mark mailbox file as read:", error));
     }, []);
 
     const clearMailbox = useCallback(() => {
-        setFiles([]);
+        workspaceFs.exists(MAILBOX_DIR)
+            .then(exists => exists ? workspaceFs.remove(MAILBOX_DIR, { recursive: true }) : undefined)
+            .catch(error => console.error("Failed to clear mailbox:", error));
+    }, []);
+
+    const exportZip = useCallback(async () => {
+        const data = await workspaceFs.exportZip(MAILBOX_DIR);
+        return new Blob([data], { type: 'application/zip' });
+    }, []);
+
+    const importZip = useCallback(async (file: File) => {
+        const written = await workspaceFs.importZip(await file.arrayBuffer(), MAILBOX_DIR, {
+            deliveredAt: new Date().toISOString(),
+            isRead: false,
+        });
+        return written.length;
     }, []);
 
     return (
-        <MailboxContext.Provider value={{ files, unreadCount, deliverFiles, markAsRead, clearMailbox }}>
+        <MailboxContext.Provider value={{ files, unreadCount, deliverFiles, markAsRead, clearMailbox, exportZip, importZip }}>
             {children}
         </MailboxContext.Provider>
     );
@@ -96,4 +147,4 @@ export const useMailbox = (): MailboxContextType => {
         throw new Error('useMailbox must be used within a MailboxProvider');
     }
     return context;
-};
\ No newline at end of file
+};
@@ -31,6 +31,7 @@ interface MiaContextType {
 const MiaContext = createContext<MiaContextType | undefined>(undefined);
 
 const MIA_MESSAGES_STORAGE_KEY = 'mia-chat-history';
+const MIA_SESSION_STORAGE_KEY = 'mia-chat-session-id';
 
 const loadMessages = (): MiaMessage[] => {
     try {
@@ -48,6 +49,7 @@ const loadMessages = (): MiaMessage[] => {
 
 export const MiaProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [messages, setMessages] = useState<MiaMessage[]>(loadMessages);
+    const [chatSessionId, setChatSessionId] = useState<string | null>(() => localStorage.getItem(MIA_SESSION_STORAGE_KEY));
     const [alerts, setAlerts] = useState<MiaAlert[]>([]);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [isApplyingFix, setIsApplyingFix] = useState<boolean>(false);
@@ -65,6 +67,14 @@ export const MiaProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         }
     }, [messages]);
 
+    useEffect(() => {
+        if (chatSessionId) {
+            localStorage.setItem(MIA_SESSION_STORAGE_KEY, chatSessionId);
+        } else {
+            localStorage.removeItem(MIA_SESSION_STORAGE_KEY);
+        }
+    }, [chatSessionId]);
+
     const addMessage = useCallback((message: MiaMessage) => {
         setMessages(prev => [...prev, message]);
     }, []);
@@ -102,18 +112,21 @@ export const MiaProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         setIsLoading(true);
 
         try {
-            // Prepare history for the AI
-            const history = messages.map(msg => ({
-                role: msg.sender === 'user' ? 'user' : 'model',
-                parts: [{ text: msg.text }]
-            }));
+            // The backend session holds the conversation; the local history only seeds a new or expired session
+            const history = messages
+                .filter(msg => msg.sender === 'user' || msg.sender === 'mia')
+                .map(msg => ({
+                    role: msg.sender === 'user' ? 'user' : 'model',
+                    parts: [{ text: msg.text }]
+                }));
 
-            const responseText = await getMiaChatResponse(history, messageText);
+            const reply = await getMiaChatResponse(chatSessionId, history, messageText);
+            setChatSessionId(reply.sessionId);
 
             addMessage({
                 id: uuidv4(),
                 sender: 'mia',
-                text: responseText,
+                text: reply.text,
                 timestamp: new Date().toISOString(),
             });
             audioService.playSound('receive');
@@ -129,7 +142,7 @@ export const MiaProvider: React.FC<{ children: ReactNode }> = ({ children }) =>
         } finally {
             setIsLoading(false);
         }
-    }, [messages, addMessage]);
+    }, [messages, chatSessionId, addMessage]);
 
     const diagnoseLastError = useCallback(async () => {
         const lastCriticalError = alerts.find(a => a.severity === 'critical');
@@ -16,6 +16,9 @@ interface AppSettings {
     // New Fallback Settings
     localModelFallbackEnabled: boolean;
     lmStudioEndpoint: string;
+    // Response Cache Settings
+    responseCacheEnabled: boolean;
+    semanticCacheEnabled: boolean;
 }
 
 const defaultSettings: AppSettings = {
@@ -33,6 +36,9 @@ const defaultSettings: AppSettings = {
     // Default fallback to on
     localModelFallbackEnabled: true,
     lmStudioEndpoint: 'http://localhost:1234/v1/chat/completions',
+    // Reuse identical results by default; near-duplicate matching is opt-in
+    responseCacheEnabled: true,
+    semanticCacheEnabled: false,
 };
 
 const SETTINGS_STORAGE_KEY = 'ai-shunt-settings';
@@ -1,5 +1,6 @@
 // context/SubscriptionContext.tsx
-import React, { createContext, useContext, useState, ReactNode, useCallback } from 'react';
+import React, { createContext, useContext, useState, ReactNode, useCallback, useEffect } from 'react';
+import { getUsageSummary, recordUsageEvent, type UsageSummary } from '../services/backendApiService';
 
 export type SubscriptionTier = 'Free' | 'Pro' | 'Enterprise';
 
@@ -50,12 +51,23 @@ export interface SubscriptionUsage {
     deployments: number;
 }
 
+export interface SubscriptionTokenUsage {
+    period: string;
+    total: number;
+    byFeature: Record<string, number>;
+    byModel: Record<string, number>;
+}
+
 interface SubscriptionContextType {
     tier: SubscriptionTier;
     usage: SubscriptionUsage;
     tierDetails: TierDetails;
+    /** Month-to-date tokens from the backend usage ledger, null until it has been reached */
+    tokenUsage: SubscriptionTokenUsage | null;
     incrementUsage: (metric: keyof SubscriptionUsage) => void;
-    upgradeTier: (newTier: SubscriptionTier) => void;
+    /** Re-reads the tier from the backend, resolving true once it reports `newTier` */
+    upgradeTier: (newTier: SubscriptionTier) => Promise<boolean>;
+    refreshUsage: () => Promise<void>;
 }
 
 const SubscriptionContext = createContext<SubscriptionContextType | undefined>(undefined);
@@ -63,36 +75,68 @@ const SubscriptionContext = createContext<SubscriptionContextType | undefined>(u
 export const SubscriptionProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
     const [tier, setTier] = useState<SubscriptionTier>('Free');
     const [usage, setUsage] = useState<SubscriptionUsage>({
-        shuntRuns: 12,
-        weaverPlans: 2,
-        trimAgentRuns: 1,
+        shuntRuns: 0,
+        weaverPlans: 0,
+        trimAgentRuns: 0,
         deployments: 0,
     });
+    const [tokenUsage, setTokenUsage] = useState<SubscriptionTokenUsage | null>(null);
 
     const tierDetails = TIER_DETAILS[tier];
 
+    // The backend ledger is the source of truth; local counts only stand in while it is unreachable
+    const applySummary = useCallback((summary: UsageSummary) => {
+        setTier(summary.tier);
+        setUsage(summary.usage);
+        setTokenUsage({ period: summary.period, ...summary.tokens });
+    }, []);
+
+    const refreshUsage = useCallback(async () => {
+        try {
+            applySummary(await getUsageSummary());
+        } catch (error) {
+            console.warn('Failed to load usage from backend, using local counts:', error);
+        }
+    }, [applySummary]);
+
+    useEffect(() => {
+        refreshUsage();
+    }, [refreshUsage]);
+
     const incrementUsage = useCallback((metric: keyof SubscriptionUsage) => {
         setUsage(prev => ({ ...prev, [metric]: prev[metric] + 1 }));
-    }, []);
 
-    const upgradeTier = useCallback((newTier: SubscriptionTier) => {
-        // In a real app, this would involve a payment flow
-        setTier(newTier);
-        // Optionally reset usage on upgrade
-        setUsage({
-            shuntRuns: 0,
-            weaverPlans: 0,
-            trimAgentRuns: 0,
-            deployments: 0,
-        });
-    }, []);
+        if (metric === 'deployments' || metric === 'trimAgentRuns') {
+            recordUsageEvent(metric)
+                .then(applySummary)
+                .catch(error => console.warn(`Failed to record ${metric} with backend:`, error));
+        } else {
+            // Shunt runs and Weaver plans are counted by the backend model routes
+            refreshUsage();
+        }
+    }, [applySummary, refreshUsage]);
+
+    const upgradeTier = useCallback(async (newTier: SubscriptionTier) => {
+        // Tiers are changed on the backend by an admin:billing key (a payment flow in a real app);
+        // the client only picks up the result so it can never grant itself higher limits
+        try {
+            const summary = await getUsageSummary();
+            applySummary(summary);
+            return summary.tier === newTier;
+        } catch (error) {
+            console.warn('Failed to load subscription tier from backend:', error);
+            return false;
+        }
+    }, [applySummary]);
 
     const value = {
         tier,
         usage,
         tierDetails,
+        tokenUsage,
         incrementUsage,
         upgradeTier,
+        refreshUsage,
     };
 
     return (
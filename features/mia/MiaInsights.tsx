@@ -1,6 +1,8 @@
 // features/mia/MiaInsights.tsx
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { SparklesIcon, BookIcon, BoltIcon } from '../../components/icons';
+import { getWeeklyTelemetryComparison } from './MiaService';
+import { TelemetrySummary } from '../../types/telemetry';
 
 const InsightCard: React.FC<{ title: string; icon: React.ReactNode; children: React.ReactNode }> = ({ title, icon, children }) => (
     <div className="bg-white rounded-lg shadow p-4 border border-gray-200">
@@ -14,7 +16,58 @@ const InsightCard: React.FC<{ title: string; icon: React.ReactNode; children: Re
     </div>
 );
 
+const getSuccessRate = (summary: TelemetrySummary): number | null => {
+    const outcomes = Object.values(summary.byOutcome).reduce((total, count) => total + count, 0);
+    return outcomes > 0 ? Math.round(((summary.byOutcome.success ?? 0) / outcomes) * 100) : null;
+};
+
+const getBusiestTab = (summary: TelemetrySummary): string | undefined =>
+    Object.entries(summary.byTab).sort(([, a], [, b]) => b - a)[0]?.[0];
+
+const WeeklyAnalytics: React.FC<{ thisWeek: TelemetrySummary; lastWeek: TelemetrySummary }> = ({ thisWeek, lastWeek }) => {
+    if (thisWeek.totalEvents === 0) {
+        return <p>No activity has been recorded in the last 7 days yet.</p>;
+    }
+
+    const successRate = getSuccessRate(thisWeek);
+    const change = lastWeek.totalEvents > 0
+        ? Math.round(((thisWeek.totalEvents - lastWeek.totalEvents) / lastWeek.totalEvents) * 100)
+        : null;
+    const busiestTab = getBusiestTab(thisWeek);
+
+    return (
+        <>
+            <p>
+                You logged <span className="font-bold">{thisWeek.totalEvents.toLocaleString()}</span> interactions across {thisWeek.sessions} session{thisWeek.sessions === 1 ? '' : 's'} this week
+                {change !== null && (
+                    <>, <span className={`font-bold ${change >= 0 ? 'text-green-600' : 'text-red-600'}`}>{change >= 0 ? 'up' : 'down'} {Math.abs(change)}%</span> compared to last week</>
+                )}.
+            </p>
+            {busiestTab && <p>Most of your time went into <span className="font-semibold">{busiestTab}</span>.</p>}
+            {successRate !== null && (
+                <>
+                    <p>Success rate: <span className="font-bold">{successRate}%</span></p>
+                    <div className="w-full bg-gray-200 rounded-full h-2.5 mt-2">
+                        <div className="bg-green-500 h-2.5 rounded-full" style={{ width: `${successRate}%` }}></div>
+                    </div>
+                </>
+            )}
+        </>
+    );
+};
+
 const MiaInsights: React.FC = () => {
+    const [weekly, setWeekly] = useState<{ thisWeek: TelemetrySummary; lastWeek: TelemetrySummary } | null>(null);
+    const [weeklyError, setWeeklyError] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        getWeeklyTelemetryComparison()
+            .then(result => { if (!cancelled) setWeekly(result); })
+            .catch(() => { if (!cancelled) setWeeklyError(true); });
+        return () => { cancelled = true; };
+    }, []);
+
     return (
         <div className="p-4 space-y-4 bg-gray-50 h-full overflow-y-auto">
             {/* Sociability */}
@@ -32,12 +85,15 @@ const MiaInsights: React.FC = () => {
                 </ul>
             </InsightCard>
 
-            {/* Analytics Updates - This is a mock */}
+            {/* Analytics Updates - from the backend telemetry store */}
             <InsightCard title="Your Weekly Analytics" icon={<BookIcon className="w-5 h-5 text-blue-500" />}>
-                <p>Your focus time this week is <span className="font-bold text-green-600">up by 15%</span> compared to last week. Great job!</p>
-                <div className="w-full bg-gray-200 rounded-full h-2.5 mt-2">
-                    <div className="bg-green-500 h-2.5 rounded-full" style={{ width: '75%' }}></div>
-                </div>
+                {weekly ? (
+                    <WeeklyAnalytics thisWeek={weekly.thisWeek} lastWeek={weekly.lastWeek} />
+                ) : weeklyError ? (
+                    <p className="text-gray-500">Weekly analytics are unavailable while the backend is offline.</p>
+                ) : (
+                    <p className="text-gray-500">Loading your activity...</p>
+                )}
             </InsightCard>
             
             {/* Breaking News */}
@@ -6,33 +6,23 @@
 
 import { GeminiResponse, TokenUsage } from '../../types';
 import { logFrontendError, ErrorSeverity } from "../../utils/errorLogger";
-import { generateContentViaBackend } from '../../services/backendApiService';
+import { generateContentViaBackend, getTelemetrySummary } from '../../services/backendApiService';
+import { TelemetrySummary } from '../../types/telemetry';
 import { withRetries } from '../../services/apiUtils';
+import { getMiaChatResponse as getMiaSessionReply } from '../../services/miaService';
 
-export const getMiaChatResponse = async (history: { role: string, parts: { text: string }[] }[], newMessage: string): Promise<string> => {
-    // Note: Chat with history requires backend chat endpoint
-    // For now, we'll use a simple prompt-based approach
-    const conversationContext = history.map(h =>
-        `${h.role === 'user' ? 'User' : 'Mia'}: ${h.parts.map(p => p.text).join(' ')}`
-    ).join('\n');
-
-    const prompt = `You are Mia, a friendly and highly intelligent AI assistant embedded in a complex web application for developers. Be helpful and concise. Your primary role is to assist the user with understanding and operating the application.
-
-Previous conversation:
-${conversationContext}
-
-User: ${newMessage}
-
-Mia:`;
-
+/**
+ * Mia's chat reply in a backend session, on the faster flash model this entry point has always used.
+ * Retries come from the session's chat handle.
+ */
+export const getMiaChatResponse = async (
+    sessionId: string | null,
+    history: { role: string, parts: { text: string }[] }[],
+    newMessage: string
+): Promise<{ text: string; sessionId: string | null }> => {
     try {
-        const apiCall = async () => {
-            const result = await generateContentViaBackend(prompt, 'gemini-2.5-flash');
-            return result.resultText;
-        };
-        return await withRetries(apiCall);
-    } catch (error) {
-        logFrontendError(error, ErrorSeverity.High, { context: 'getMiaChatResponse Backend API call' });
+        return await getMiaSessionReply(sessionId, history, newMessage, 'gemini-2.5-flash');
+    } catch {
         throw new Error('Failed to get a chat response from Mia.');
     }
 };
@@ -107,3 +97,20 @@ ${projectContext}
     throw new Error('Failed to generate the code fix. The AI may have returned an invalid response or malformed JSON.');
   }
 };
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Summarize recorded telemetry for the last seven days alongside the seven days before that.
+ */
+export const getWeeklyTelemetryComparison = async (now: Date = new Date()): Promise<{ thisWeek: TelemetrySummary; lastWeek: TelemetrySummary }> => {
+    const weekStart = new Date(now.getTime() - WEEK_MS);
+    const previousWeekStart = new Date(now.getTime() - 2 * WEEK_MS);
+
+    const [thisWeek, lastWeek] = await Promise.all([
+        getTelemetrySummary({ from: weekStart.toISOString(), to: now.toISOString() }),
+        // `to` is inclusive, so stop just before the current window starts
+        getTelemetrySummary({ from: previousWeekStart.toISOString(), to: new Date(weekStart.getTime() - 1).toISOString() }),
+    ]);
+    return { thisWeek, lastWeek };
+};
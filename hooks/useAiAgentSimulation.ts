@@ -1,17 +1,18 @@
 // hooks/useAiAgentSimulation.ts
 import { useState, useCallback, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { executeTool, ToolResult, ExecutionContext } from '../services/toolApi';
+import { executeTool, ToolResult, ExecutionContext, VcsState } from '../services/toolApi';
+import { GitChangeKind, GitFileDiff } from '../services/workspaceGit';
 
 export interface Log { id: string; timestamp: string; action: string; request: any; response?: ToolResult; status: 'pending' | 'success' | 'error'; }
-export interface FileChange { path: string; diff: string; newContent?: string; }
+export interface FileChange { path: string; diff: string; newContent?: string; change?: GitChangeKind; }
 
 interface SimulationCallbacks {
     addLog: (log: Log) => void;
     updateLog: (log: Log) => void;
     setFileChanges: (change: FileChange) => void;
     setScratchpad: (scratchpad: Record<string, any>) => void;
-    setVcsState: (state: any) => void;
+    setVcsState: (state: VcsState) => void;
     setExecutionContext: (context: ExecutionContext) => void;
     clearState: () => void;
 }
@@ -109,6 +110,10 @@ module.exports = { loginUser };
             await runApiCall('git.commit_changes', { commit_message: 'refactor(auth): Convert to async/await' });
             statusResult = await runApiCall('git.get_status', {});
             if (statusResult.success) callbacks.setVcsState(statusResult.data);
+
+            // 3d. Show what the commit changed, from the repository history
+            const commitDiff = await runApiCall('git.diff', { commit: 'HEAD' });
+            (commitDiff.data as GitFileDiff[]).forEach(change => callbacks.setFileChanges(change));
             
             // Final log message
             callbacks.addLog({
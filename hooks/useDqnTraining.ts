@@ -0,0 +1,153 @@
+// hooks/useDqnTraining.ts
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Hyperparameters, Metrics, LiveInspectorData, LogEntry, SimulationState } from '../components/framework/types';
+import { DqnEpisodeResult, DqnRunExport } from '../components/framework/dqn/dqnTrainer';
+import { DqnWorkerRequest, DqnWorkerResponse } from '../components/framework/dqn/messages';
+
+const MAX_LOG_ENTRIES = 100;
+
+const initialMetrics: Metrics = {
+    episode: 0,
+    totalReward: 0,
+    avgReward: 0,
+    loss: null,
+    rewardHistory: [],
+};
+
+const initialInspectorData = (hyperparameters: Hyperparameters): LiveInspectorData => ({
+    epsilon: hyperparameters.epsilonStart,
+    bufferSize: 0,
+    qValues: { left: 0, right: 0 },
+    log: [],
+    totalSteps: 0,
+    trainSteps: 0,
+    state: null,
+    recentTransitions: [],
+});
+
+const logEntry = (message: string): LogEntry => ({
+    id: uuidv4(),
+    timestamp: new Date().toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+    message,
+});
+
+const episodeMessage = (result: DqnEpisodeResult) =>
+    `Episode ${result.episode}: Reward=${result.reward.toFixed(1)}, ` +
+    `Loss=${result.loss === null ? 'warming up' : result.loss.toFixed(4)}, Epsilon=${result.epsilon.toFixed(3)}`;
+
+const downloadRun = (run: DqnRunExport) => {
+    const blob = new Blob([JSON.stringify(run, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `dqn-${run.environment}-seed${run.seed}-ep${run.episodes.length}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+/**
+ * DQN training on CartPole in a Web Worker: start, pause, resume and reset a run, follow its metrics and the
+ * agent's live state, and download the run (history, hyperparameters and network weights) as JSON
+ */
+export const useDqnTraining = (hyperparameters: Hyperparameters) => {
+    const [simulationState, setSimulationState] = useState<SimulationState>('idle');
+    const [metrics, setMetrics] = useState<Metrics>(initialMetrics);
+    const [inspectorData, setInspectorData] = useState<LiveInspectorData>(() => initialInspectorData(hyperparameters));
+    const workerRef = useRef<Worker | null>(null);
+
+    const send = useCallback((request: DqnWorkerRequest) => workerRef.current?.postMessage(request), []);
+
+    const terminate = useCallback(() => {
+        workerRef.current?.terminate();
+        workerRef.current = null;
+    }, []);
+
+    const handleMessage = useCallback((response: DqnWorkerResponse) => {
+        switch (response.type) {
+            case 'progress': {
+                const { episodes, inspection } = response;
+                if (episodes.length > 0) {
+                    setMetrics(prev => {
+                        const rewardHistory = [
+                            ...prev.rewardHistory,
+                            ...episodes.map(result => ({ episode: result.episode, reward: result.reward })),
+                        ];
+                        const totalReward = prev.totalReward + episodes.reduce((sum, result) => sum + result.reward, 0);
+                        const lastLoss = [...episodes].reverse().find(result => result.loss !== null)?.loss;
+                        return {
+                            episode: episodes[episodes.length - 1].episode,
+                            totalReward,
+                            avgReward: totalReward / rewardHistory.length,
+                            loss: lastLoss ?? prev.loss,
+                            rewardHistory,
+                        };
+                    });
+                }
+                setInspectorData(prev => ({
+                    epsilon: inspection.epsilon,
+                    bufferSize: inspection.bufferSize,
+                    qValues: inspection.qValues,
+                    log: [...episodes].reverse().map(result => logEntry(episodeMessage(result)))
+                        .concat(prev.log)
+                        .slice(0, MAX_LOG_ENTRIES),
+                    totalSteps: inspection.totalSteps,
+                    trainSteps: inspection.trainSteps,
+                    state: inspection.state,
+                    recentTransitions: inspection.recentTransitions,
+                }));
+                break;
+            }
+            case 'finished':
+                setSimulationState('finished');
+                setInspectorData(prev => ({ ...prev, log: [logEntry('Training finished.'), ...prev.log].slice(0, MAX_LOG_ENTRIES) }));
+                break;
+            case 'export':
+                downloadRun(response.run);
+                break;
+            case 'error':
+                setSimulationState('paused');
+                setInspectorData(prev => ({ ...prev, log: [logEntry(`Training failed: ${response.message}`), ...prev.log].slice(0, MAX_LOG_ENTRIES) }));
+                break;
+        }
+    }, []);
+
+    const start = useCallback(() => {
+        terminate();
+        const worker = new Worker(new URL('../components/framework/dqn/dqnWorker.ts', import.meta.url), { type: 'module' });
+        worker.onmessage = (event: MessageEvent<DqnWorkerResponse>) => handleMessage(event.data);
+        worker.onerror = (event) => {
+            event.preventDefault();
+            handleMessage({ type: 'error', message: event.message || 'The training worker crashed.' });
+        };
+        workerRef.current = worker;
+
+        setMetrics(initialMetrics);
+        setInspectorData(initialInspectorData(hyperparameters));
+        setSimulationState('running');
+        worker.postMessage({ type: 'start', hyperparameters, seed: Date.now() >>> 0 } satisfies DqnWorkerRequest);
+    }, [hyperparameters, handleMessage, terminate]);
+
+    const pause = useCallback(() => {
+        send({ type: 'pause' });
+        setSimulationState('paused');
+    }, [send]);
+
+    const resume = useCallback(() => {
+        send({ type: 'resume' });
+        setSimulationState('running');
+    }, [send]);
+
+    const reset = useCallback(() => {
+        terminate();
+        setSimulationState('idle');
+        setMetrics(initialMetrics);
+        setInspectorData(initialInspectorData(hyperparameters));
+    }, [hyperparameters, terminate]);
+
+    const exportRun = useCallback(() => send({ type: 'export' }), [send]);
+
+    useEffect(() => terminate, [terminate]);
+
+    return { simulationState, metrics, inspectorData, start, pause, resume, reset, exportRun };
+};
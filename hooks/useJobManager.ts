@@ -1,95 +1,103 @@
 // hooks/useJobManager.ts
-import { useState, useCallback, useRef } from 'react';
-import { v4 as uuidv4 } from 'uuid';
-import { Job, JobStatus, JobLog } from '../types';
-import { generateRawText } from '../services/geminiService';
-
-const sleep = (ms: number) => new Promise(res => setTimeout(res, ms));
-
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { Job, JobInputs, JobPriority, JobType } from '../types';
+import {
+    submitJob as submitJobToBackend,
+    cancelJob as cancelJobOnBackend,
+    listJobs,
+    watchJob,
+} from '../services/backendApiService';
+
+const isJobActive = (job: Job) => job.status === 'pending' || job.status === 'running';
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : 'An unknown error occurred.';
+
+/**
+ * Jobs on the backend job queue: loads the caller's history, follows unfinished jobs live and submits new ones
+ */
 export const useJobManager = () => {
     const [jobs, setJobs] = useState<Job[]>([]);
-    const [isRunning, setIsRunning] = useState(false);
-    const jobsRef = useRef(jobs);
-    jobsRef.current = jobs;
-
-    const updateJob = (jobId: string, updates: Partial<Job>) => {
-        setJobs(prevJobs => prevJobs.map(job => 
-            job.id === jobId ? { ...job, ...updates } : job
-        ));
-    };
+    const [isSubmitting, setIsSubmitting] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    // One event stream per unfinished job, aborted on unmount
+    const watchersRef = useRef(new Map<string, AbortController>());
+
+    const upsertJob = useCallback((job: Job) => {
+        setJobs(prevJobs => prevJobs.some(j => j.id === job.id)
+            ? prevJobs.map(j => j.id === job.id ? job : j)
+            : [job, ...prevJobs]
+        );
+    }, []);
 
-    const addLog = (jobId: string, message: string) => {
-        const newLog: JobLog = { timestamp: new Date().toLocaleTimeString(), message };
-        setJobs(prevJobs => prevJobs.map(job => 
-            job.id === jobId ? { ...job, logs: [...job.logs, newLog] } : job
-        ));
-    };
-    
-    const isJobCancelled = (jobId: string): boolean => {
-        const job = jobsRef.current.find(j => j.id === jobId);
-        return job?.status === 'Cancelled';
-    };
+    const watch = useCallback((jobId: string) => {
+        if (watchersRef.current.has(jobId)) return;
+        const controller = new AbortController();
+        watchersRef.current.set(jobId, controller);
+
+        watchJob(jobId, (event) => {
+            if (event.type === 'log') {
+                setJobs(prevJobs => prevJobs.map(job =>
+                    job.id === jobId ? { ...job, logs: [...job.logs, event.log] } : job
+                ));
+            } else {
+                upsertJob(event.job);
+            }
+        }, controller.signal)
+            .catch(err => setError(`Lost the live log for job ${jobId}: ${errorMessage(err)}`))
+            .finally(() => {
+                if (watchersRef.current.get(jobId) === controller) {
+                    watchersRef.current.delete(jobId);
+                }
+            });
+    }, [upsertJob]);
+
+    useEffect(() => {
+        let isMounted = true;
+        const watchers = watchersRef.current;
+
+        listJobs()
+            .then(history => {
+                if (!isMounted) return;
+                setJobs(history);
+                history.filter(isJobActive).forEach(job => watch(job.id));
+            })
+            .catch(err => {
+                if (isMounted) setError(`Could not load jobs: ${errorMessage(err)}`);
+            });
 
-    const submitJob = useCallback(async (prompt: string) => {
-        setIsRunning(true);
-        const newJob: Job = {
-            id: uuidv4(),
-            prompt,
-            status: 'Pending',
-            logs: [],
-            result: null,
-            startTime: Date.now(),
-            endTime: null,
+        return () => {
+            isMounted = false;
+            watchers.forEach(controller => controller.abort());
+            watchers.clear();
         };
-        setJobs(prev => [newJob, ...prev]);
+    }, [watch]);
 
-        // --- Simulation Starts ---
+    const submitJob = useCallback(async <T extends JobType>(type: T, input: JobInputs[T], priority: JobPriority = 'normal') => {
+        setIsSubmitting(true);
+        setError(null);
         try {
-            addLog(newJob.id, 'Job submitted and waiting in queue...');
-            await sleep(1500);
-
-            if (isJobCancelled(newJob.id)) throw new Error('Job cancelled by user.');
-            
-            updateJob(newJob.id, { status: 'Running' });
-            addLog(newJob.id, 'AI worker picked up the job. Preparing to execute...');
-            await sleep(1000);
-
-            if (isJobCancelled(newJob.id)) throw new Error('Job cancelled by user.');
-
-            addLog(newJob.id, 'Contacting AI model for analysis...');
-            const aiPrompt = `Based on the following user request, provide a step-by-step plan in markdown.\n\nREQUEST: "${prompt}"`;
-            const { resultText } = await generateRawText(aiPrompt, 'gemini-2.5-flash');
-
-            if (isJobCancelled(newJob.id)) throw new Error('Job cancelled by user.');
-
-            addLog(newJob.id, 'AI model responded. Finalizing results...');
-            await sleep(2000);
-
-            if (isJobCancelled(newJob.id)) throw new Error('Job cancelled by user.');
-
-            updateJob(newJob.id, { status: 'Completed', result: resultText, endTime: Date.now() });
-            addLog(newJob.id, 'Job finished successfully.');
-
-        } catch (error) {
-            const message = error instanceof Error ? error.message : 'An unknown error occurred.';
-            const isCancelled = message.includes('cancelled');
-            updateJob(newJob.id, { 
-                status: isCancelled ? 'Cancelled' : 'Failed', 
-                result: isCancelled ? 'Job execution was cancelled by the user.' : message, 
-                endTime: Date.now() 
-            });
-            addLog(newJob.id, isCancelled ? 'Execution halted by user.' : `Job failed: ${message}`);
+            const job = await submitJobToBackend(type, input, priority);
+            upsertJob(job);
+            watch(job.id);
+            return job;
+        } catch (err) {
+            setError(`Could not submit job: ${errorMessage(err)}`);
+            return null;
         } finally {
-            setIsRunning(false);
+            setIsSubmitting(false);
         }
-    }, []);
+    }, [upsertJob, watch]);
 
-    const cancelJob = useCallback((jobId: string) => {
-        const job = jobs.find(j => j.id === jobId);
-        if (job && (job.status === 'Pending' || job.status === 'Running')) {
-            updateJob(jobId, { status: 'Cancelled' });
+    const cancelJob = useCallback(async (jobId: string) => {
+        try {
+            // Running jobs stop at their next step; the final status arrives on the job's event stream
+            upsertJob(await cancelJobOnBackend(jobId));
+        } catch (err) {
+            setError(`Could not cancel job: ${errorMessage(err)}`);
         }
-    }, [jobs]);
+    }, [upsertJob]);
+
+    const clearError = useCallback(() => setError(null), []);
 
-    return { jobs, submitJob, cancelJob, isRunning };
+    return { jobs, submitJob, cancelJob, isSubmitting, error, clearError };
 };
@@ -2,6 +2,10 @@
  * Multi-Agent Workflow Orchestrator
  * Coordinates Claude Code, Gemini 2.0, and Gemini 2.5 Pro agents
  * Based on test workflow.png architecture
+ *
+ * Workflows run asynchronously: each step is a row in workflow_steps that a worker claims,
+ * executes and completes, queueing the next step. Steps interrupted by a restart are picked up again.
+ * Which steps run, and in what order, comes from the workflow definitions stored in workflow_definitions.
  */
 
 import express, { Request, Response } from 'express';
@@ -9,6 +13,18 @@ import cors from 'cors';
 import { Pool } from 'pg';
 import { v4 as uuidv4 } from 'uuid';
 import { z } from 'zod';
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  ORCHESTRATOR_AGENT,
+  WorkflowDefinitionError,
+  evaluate,
+  parseWorkflowDefinition,
+  resolveNextStep,
+  type ExpressionScope,
+  type WorkflowDefinition,
+  type WorkflowStepSpec,
+} from './workflowDefinitions.js';
 
 const app = express();
 const PORT = process.env.PORT || 8090;
@@ -23,8 +39,36 @@ const CLAUDE_AGENT_URL = process.env.CLAUDE_AGENT_URL || 'http://claude-agent:80
 const GEMINI_2_0_AGENT_URL = process.env.GEMINI_2_0_AGENT_URL || 'http://gemini-2-0-agent:8092';
 const GEMINI_2_5_AGENT_URL = process.env.GEMINI_2_5_AGENT_URL || 'http://gemini-2-5-agent:8093';
 
+/**
+ * Agents workflow definitions can call, by name. AGENT_URLS (a JSON object of name to base URL) adds or overrides entries.
+ */
+const AGENT_URLS: Record<string, string> = {
+  claude: CLAUDE_AGENT_URL,
+  'gemini-2-0': GEMINI_2_0_AGENT_URL,
+  'gemini-2-5': GEMINI_2_5_AGENT_URL,
+  ...parseAgentUrls(process.env.AGENT_URLS),
+};
+
+function parseAgentUrls(value: string | undefined): Record<string, string> {
+  if (!value) return {};
+  try {
+    return z.record(z.string(), z.string().url()).parse(JSON.parse(value));
+  } catch (error) {
+    console.error('[Orchestrator] Ignoring invalid AGENT_URLS:', error);
+    return {};
+  }
+}
+
+// Step queue
+const WORKFLOW_CONCURRENCY = Number(process.env.WORKFLOW_CONCURRENCY || 2);
+const WORKFLOW_POLL_INTERVAL_MS = Number(process.env.WORKFLOW_POLL_INTERVAL_MS || 1000);
+const WORKFLOW_STEP_MAX_ATTEMPTS = Number(process.env.WORKFLOW_STEP_MAX_ATTEMPTS || 3);
+const WORKFLOW_RETRY_BACKOFF_MS = Number(process.env.WORKFLOW_RETRY_BACKOFF_MS || 5000);
+const AGENT_TIMEOUT_MS = Number(process.env.AGENT_TIMEOUT_MS || 300000);
+
 app.use(cors());
 app.use(express.json({ limit: '10mb' }));
+app.use(express.text({ type: ['application/yaml', 'application/x-yaml', 'text/yaml'], limit: '1mb' }));
 
 // Initialize database
 async function initDatabase() {
@@ -57,203 +101,677 @@ async function initDatabase() {
     )
   `);
 
+  // Queue columns, added with ALTER so databases created before async workflows keep working.
+  // Existing steps default to 'completed'.
+  await db.query(`ALTER TABLE workflows ADD COLUMN IF NOT EXISTS error TEXT`);
+  await db.query(`
+    ALTER TABLE workflow_steps
+      ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'completed',
+      ADD COLUMN IF NOT EXISTS result JSONB,
+      ADD COLUMN IF NOT EXISTS error TEXT,
+      ADD COLUMN IF NOT EXISTS attempts INT NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS run_after TIMESTAMP NOT NULL DEFAULT NOW(),
+      ADD COLUMN IF NOT EXISTS started_at TIMESTAMP,
+      ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP
+  `);
+  await db.query(`CREATE INDEX IF NOT EXISTS workflow_steps_queue_idx ON workflow_steps (status, run_after)`);
+
+  await db.query(`
+    CREATE TABLE IF NOT EXISTS workflow_definitions (
+      name VARCHAR(64) PRIMARY KEY,
+      description TEXT,
+      actions TEXT[] NOT NULL,
+      definition JSONB NOT NULL,
+      version INT NOT NULL DEFAULT 1,
+      created_at TIMESTAMP DEFAULT NOW(),
+      updated_at TIMESTAMP DEFAULT NOW()
+    )
+  `);
+  await db.query(`
+    ALTER TABLE workflows
+      ADD COLUMN IF NOT EXISTS definition_name VARCHAR(64),
+      ADD COLUMN IF NOT EXISTS definition JSONB
+  `);
+
+  // Seed the built-in pipeline once; after that it is edited through the definitions API like any other
+  await db.query(
+    `INSERT INTO workflow_definitions (name, description, actions, definition)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (name) DO NOTHING`,
+    [
+      DEFAULT_WORKFLOW_DEFINITION.name,
+      DEFAULT_WORKFLOW_DEFINITION.description,
+      DEFAULT_WORKFLOW_DEFINITION.actions,
+      JSON.stringify(DEFAULT_WORKFLOW_DEFINITION),
+    ]
+  );
+
   console.log('[Orchestrator] Database initialized');
 }
 
-// Request schema
+// Request schemas
 const ExecuteWorkflowSchema = z.object({
   action: z.string(),
   text: z.string(),
   context: z.string().optional(),
+  /** Definition to run instead of the one selected by action */
+  definition: z.string().optional(),
+});
+
+const RetryWorkflowSchema = z.object({
+  fromStep: z.number().int().positive().optional(),
 });
 
+type WorkflowStatus = 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+type StepStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+interface WorkflowRow {
+  id: string;
+  action: string;
+  status: WorkflowStatus;
+  input_text: string;
+  context: string | null;
+  /** Snapshot of the definition the workflow was queued with; null for workflows queued before definitions existed */
+  definition: WorkflowDefinition | null;
+  definition_name: string | null;
+  final_output: string | null;
+  agreement: boolean | null;
+  validation_passed: boolean | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+interface StepRow {
+  id: string;
+  workflow_id: string;
+  step_number: number;
+  agent: string;
+  /** Step id within the workflow definition */
+  stage: string;
+  status: StepStatus;
+  input: string | null;
+  output: string | null;
+  tokens_used: number | null;
+  error: string | null;
+  attempts: number;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+interface DefinitionRow {
+  name: string;
+  description: string | null;
+  actions: string[];
+  definition: WorkflowDefinition;
+  version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
 /**
- * POST /api/workflow/execute
- * Execute multi-agent workflow based on Shunt action
+ * Responses of the completed steps so far, keyed by step id (the latest run wins for looping steps),
+ * and how many times each step has completed
  */
-app.post('/api/workflow/execute', async (req: Request, res: Response) => {
-  try {
-    const { action, text, context } = ExecuteWorkflowSchema.parse(req.body);
-    const workflowId = uuidv4();
+interface StepHistory {
+  results: Record<string, unknown>;
+  visits: Record<string, number>;
+}
 
-    console.log(`[Orchestrator] Starting workflow ${workflowId} for action: ${action}`);
+interface StepOutcome {
+  input: string;
+  output: string;
+  /** Full agent response, read back by later steps (also after a restart) */
+  result: unknown;
+  tokens: number;
+}
 
-    // Create workflow record
-    await db.query(
-      `INSERT INTO workflows (id, action, status, input_text, context)
-       VALUES ($1, $2, $3, $4, $5)`,
-      [workflowId, action, 'in_progress', text, context || null]
-    );
+const ACTIVE_STATUSES: WorkflowStatus[] = ['queued', 'in_progress'];
 
-    let stepNumber = 1;
+/**
+ * POST a JSON body to an agent. Non-2xx responses and timeouts throw so the step can be retried.
+ */
+async function callAgent(baseUrl: string, path: string, body: unknown): Promise<any> {
+  const response = await fetch(`${baseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(AGENT_TIMEOUT_MS),
+  });
 
-    // STEP 1: Gemini 2.0 - Task Delegation
-    console.log(`[Orchestrator] Step ${stepNumber}: Gemini 2.0 task delegation`);
-    const delegationResponse = await fetch(`${GEMINI_2_0_AGENT_URL}/delegate`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ text, action, context }),
-    });
-    const delegation = await delegationResponse.json();
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new Error(`${baseUrl}${path} returned ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
 
-    await db.query(
-      `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, input, output, tokens_used)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [uuidv4(), workflowId, stepNumber++, 'gemini-2-0', 'delegation', text, JSON.stringify(delegation), delegation.usage?.total_tokens || 0]
-    );
+  return response.json();
+}
 
-    // STEP 2: Gemini 2.5 Pro - Main Processing
-    console.log(`[Orchestrator] Step ${stepNumber}: Gemini 2.5 Pro processing`);
-    const processingResponse = await fetch(`${GEMINI_2_5_AGENT_URL}/process`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        text,
-        action,
-        taskPlan: delegation.taskPlan,
-        context,
-      }),
-    });
-    const processing = await processingResponse.json();
+function definitionOf(workflow: WorkflowRow): WorkflowDefinition {
+  return workflow.definition ?? DEFAULT_WORKFLOW_DEFINITION;
+}
 
-    await db.query(
-      `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, input, output, tokens_used)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [uuidv4(), workflowId, stepNumber++, 'gemini-2-5', 'processing', JSON.stringify(delegation.taskPlan), processing.result, processing.usage?.total_tokens || 0]
-    );
+function scopeOf(workflow: WorkflowRow, results: Record<string, unknown>): ExpressionScope {
+  return {
+    input: { text: workflow.input_text, action: workflow.action, context: workflow.context ?? undefined },
+    steps: results,
+  };
+}
 
-    // STEP 3: Gemini 2.5 Pro - Research (if needed for complex actions)
-    if (['MAKE_ACTIONABLE', 'BUILD_A_SKILL', 'COMPREHENSIVE_ANALYSIS'].includes(action)) {
-      console.log(`[Orchestrator] Step ${stepNumber}: Gemini 2.5 Pro research`);
-      const researchResponse = await fetch(`${GEMINI_2_5_AGENT_URL}/research`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ topic: processing.result, context }),
-      });
-      const research = await researchResponse.json();
+function asText(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
 
-      await db.query(
-        `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, input, output, tokens_used)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-        [uuidv4(), workflowId, stepNumber++, 'gemini-2-5', 'research', processing.result, research.research, research.usage?.total_tokens || 0]
-      );
+/**
+ * Run one step of a definition: call its agent with the mapped input, or evaluate `set` for orchestrator steps
+ */
+async function runStep(spec: WorkflowStepSpec, scope: ExpressionScope): Promise<StepOutcome> {
+  let body: unknown;
+  let response: unknown;
+
+  if (spec.agent === ORCHESTRATOR_AGENT) {
+    response = evaluate(spec.set ?? {}, scope);
+    body = response;
+  } else {
+    const baseUrl = AGENT_URLS[spec.agent];
+    if (!baseUrl) {
+      throw new Error(`Unknown agent "${spec.agent}"`);
     }
+    body = evaluate(spec.input ?? {}, scope);
+    response = await callAgent(baseUrl, spec.endpoint ?? '/', body);
+  }
 
-    // STEP 4: Gemini 2.5 Pro - Reflection
-    console.log(`[Orchestrator] Step ${stepNumber}: Gemini 2.5 Pro reflection`);
-    const reflectionResponse = await fetch(`${GEMINI_2_5_AGENT_URL}/reflect`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ content: processing.result }),
-    });
-    const reflection = await reflectionResponse.json();
+  const responseScope = { ...scope, response };
+  return {
+    input: asText(body),
+    output: asText(spec.output === undefined ? response : evaluate(spec.output, responseScope)),
+    result: response,
+    tokens: spec.tokens === undefined ? 0 : Number(evaluate(spec.tokens, responseScope)) || 0,
+  };
+}
 
-    await db.query(
-      `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, input, output, tokens_used)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [uuidv4(), workflowId, stepNumber++, 'gemini-2-5', 'reflection', processing.result, reflection.reflection, reflection.usage?.total_tokens || 0]
-    );
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
 
-    // STEP 5: Gemini 2.5 Pro - Conclusion
-    console.log(`[Orchestrator] Step ${stepNumber}: Gemini 2.5 Pro conclusion`);
-    const conclusionResponse = await fetch(`${GEMINI_2_5_AGENT_URL}/conclude`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ content: reflection.reflection }),
-    });
-    const conclusion = await conclusionResponse.json();
+async function getWorkflow(id: string): Promise<WorkflowRow | null> {
+  const result = await db.query('SELECT * FROM workflows WHERE id = $1', [id]);
+  return result.rows[0] ?? null;
+}
 
-    await db.query(
-      `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, input, output, tokens_used)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [uuidv4(), workflowId, stepNumber++, 'gemini-2-5', 'conclusion', reflection.reflection, conclusion.conclusion, conclusion.usage?.total_tokens || 0]
+async function loadStepHistory(workflowId: string): Promise<StepHistory> {
+  const result = await db.query(
+    `SELECT stage, result FROM workflow_steps WHERE workflow_id = $1 AND status = 'completed' ORDER BY step_number`,
+    [workflowId]
+  );
+  const history: StepHistory = { results: {}, visits: {} };
+  for (const row of result.rows) {
+    history.results[row.stage] = row.result;
+    history.visits[row.stage] = (history.visits[row.stage] ?? 0) + 1;
+  }
+  return history;
+}
+
+/**
+ * The definition to run for an action: one listing the action, else a "*" definition, else the built-in default
+ */
+async function selectDefinition(action: string): Promise<WorkflowDefinition> {
+  const result = await db.query(
+    `SELECT definition FROM workflow_definitions
+     WHERE $1 = ANY(actions) OR '*' = ANY(actions)
+     ORDER BY ($1 = ANY(actions)) DESC, updated_at DESC
+     LIMIT 1`,
+    [action]
+  );
+  return result.rows[0]?.definition ?? DEFAULT_WORKFLOW_DEFINITION;
+}
+
+async function getDefinitionRow(name: string): Promise<DefinitionRow | null> {
+  const result = await db.query('SELECT * FROM workflow_definitions WHERE name = $1', [name]);
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Claim the oldest runnable step of an active workflow. SKIP LOCKED keeps concurrent workers off the same row.
+ */
+async function claimNextStep(): Promise<StepRow | null> {
+  const result = await db.query(`
+    UPDATE workflow_steps
+    SET status = 'running', attempts = attempts + 1, started_at = NOW()
+    WHERE id = (
+      SELECT s.id FROM workflow_steps s
+      JOIN workflows w ON w.id = s.workflow_id
+      WHERE s.status = 'pending' AND s.run_after <= NOW() AND w.status IN ('queued', 'in_progress')
+      ORDER BY s.run_after, s.created_at
+      LIMIT 1
+      FOR UPDATE OF s SKIP LOCKED
+    )
+    RETURNING *
+  `);
+  return result.rows[0] ?? null;
+}
+
+/**
+ * Record a finished step and queue the next one, or finish the workflow after the last step.
+ * Nothing is queued if the workflow was cancelled (or the step reset by a retry) while it ran.
+ */
+async function completeStep(step: StepRow, workflow: WorkflowRow, outcome: StepOutcome, history: StepHistory) {
+  const definition = definitionOf(workflow);
+  const scope = { ...scopeOf(workflow, history.results), response: outcome.result };
+  const next = resolveNextStep(definition, step.stage, scope, history.visits);
+  const client = await db.connect();
+
+  try {
+    await client.query('BEGIN');
+    const current = await client.query('SELECT status FROM workflows WHERE id = $1 FOR UPDATE', [workflow.id]);
+    const updated = await client.query(
+      `UPDATE workflow_steps
+       SET status = 'completed', input = $2, output = $3, result = $4, tokens_used = $5, error = NULL, completed_at = NOW()
+       WHERE id = $1 AND status = 'running'
+       RETURNING id`,
+      [step.id, outcome.input, outcome.output, JSON.stringify(outcome.result ?? null), outcome.tokens]
     );
 
-    // STEP 6: Claude Code - Peer Review & Validation
-    console.log(`[Orchestrator] Step ${stepNumber}: Claude Code peer review`);
-    const reviewResponse = await fetch(`${CLAUDE_AGENT_URL}/review`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        text: conclusion.conclusion,
-        action,
-        context,
-        rootInstruction: action,
-      }),
-    });
-    const review = await reviewResponse.json();
+    if (updated.rows.length > 0 && current.rows[0]?.status === 'in_progress') {
+      if (next) {
+        await client.query(
+          `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, status)
+           VALUES ($1, $2, $3, $4, $5, 'pending')`,
+          [uuidv4(), workflow.id, step.step_number + 1, definition.steps[next].agent, next]
+        );
+      } else {
+        const finalOutput = evaluate(definition.result.output, scope);
+        const agreement = evaluate(definition.result.agreement ?? null, scope);
+        const validationPassed = evaluate(definition.result.validationPassed ?? null, scope);
+        await client.query(
+          `UPDATE workflows
+           SET status = 'completed', final_output = $1, agreement = $2, validation_passed = $3, error = NULL, updated_at = NOW()
+           WHERE id = $4`,
+          [
+            finalOutput === null || finalOutput === undefined ? null : asText(finalOutput),
+            agreement === null || agreement === undefined ? null : Boolean(agreement),
+            validationPassed === null || validationPassed === undefined ? null : Boolean(validationPassed),
+            workflow.id,
+          ]
+        );
+        console.log(`[Orchestrator] Workflow ${workflow.id} completed`);
+      }
+    }
+
+    await client.query('COMMIT');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/**
+ * Put a failed step back in the queue with a backoff, or fail the workflow once its attempts are used up
+ */
+async function failStep(step: StepRow, error: unknown) {
+  const message = errorMessage(error);
 
+  if (step.attempts < WORKFLOW_STEP_MAX_ATTEMPTS) {
+    const delayMs = WORKFLOW_RETRY_BACKOFF_MS * step.attempts;
+    console.warn(`[Orchestrator] Step ${step.step_number} (${step.stage}) of ${step.workflow_id} failed, retrying in ${delayMs}ms: ${message}`);
     await db.query(
-      `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, input, output, tokens_used)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [uuidv4(), workflowId, stepNumber++, 'claude', 'peer_review', conclusion.conclusion, review.reviewedContent, review.usage?.input_tokens + review.usage?.output_tokens || 0]
+      `UPDATE workflow_steps
+       SET status = 'pending', error = $2, run_after = NOW() + ($3 * INTERVAL '1 millisecond')
+       WHERE id = $1 AND status = 'running'`,
+      [step.id, message, delayMs]
     );
+    return;
+  }
+
+  console.error(`[Orchestrator] Step ${step.step_number} (${step.stage}) of ${step.workflow_id} failed after ${step.attempts} attempts: ${message}`);
+  await db.query(`UPDATE workflow_steps SET status = 'failed', error = $2 WHERE id = $1 AND status = 'running'`, [
+    step.id,
+    message,
+  ]);
+  await db.query(
+    `UPDATE workflows SET status = 'failed', error = $2, updated_at = NOW() WHERE id = $1 AND status IN ('queued', 'in_progress')`,
+    [step.workflow_id, `Step ${step.step_number} (${step.stage}) failed: ${message}`]
+  );
+}
+
+async function executeStep(step: StepRow) {
+  const workflow = await getWorkflow(step.workflow_id);
+  if (!workflow || !ACTIVE_STATUSES.includes(workflow.status)) {
+    await db.query(`UPDATE workflow_steps SET status = 'cancelled' WHERE id = $1 AND status = 'running'`, [step.id]);
+    return;
+  }
+
+  if (workflow.status === 'queued') {
+    await db.query(`UPDATE workflows SET status = 'in_progress', updated_at = NOW() WHERE id = $1 AND status = 'queued'`, [workflow.id]);
+    workflow.status = 'in_progress';
+  }
+
+  console.log(`[Orchestrator] Workflow ${workflow.id} step ${step.step_number}: ${step.stage} (attempt ${step.attempts})`);
+
+  const spec = definitionOf(workflow).steps[step.stage];
+  const history = await loadStepHistory(workflow.id);
+  let outcome: StepOutcome;
+  try {
+    if (!spec) {
+      throw new Error(`Step "${step.stage}" is not in the workflow definition`);
+    }
+    outcome = await runStep(spec, scopeOf(workflow, history.results));
+  } catch (error) {
+    await failStep(step, error);
+    return;
+  }
+
+  history.results[step.stage] = outcome.result;
+  history.visits[step.stage] = (history.visits[step.stage] ?? 0) + 1;
+  await completeStep(step, workflow, outcome, history);
+}
 
-    // STEP 7: Agreement Check
-    const agreement = review.approved && review.score >= 80;
-    console.log(`[Orchestrator] Agreement check: ${agreement ? 'PASS' : 'NEEDS_REFINEMENT'}`);
-
-    // STEP 8: Refinement (if needed)
-    let finalOutput = review.reviewedContent;
-    if (!agreement) {
-      console.log(`[Orchestrator] Step ${stepNumber}: Gemini 2.5 Pro refinement`);
-      const refinementResponse = await fetch(`${GEMINI_2_5_AGENT_URL}/refine`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          content: conclusion.conclusion,
-          feedback: review.feedback,
-        }),
+// Worker pool: up to WORKFLOW_CONCURRENCY steps run at once; idle workers poll on an interval
+let activeWorkers = 0;
+let stopping = false;
+
+function pumpQueue(): void {
+  while (!stopping && activeWorkers < WORKFLOW_CONCURRENCY) {
+    activeWorkers++;
+    claimNextStep()
+      .then(async (step) => {
+        if (!step) return false;
+        await executeStep(step);
+        return true;
+      })
+      .catch((error) => {
+        console.error('[Orchestrator] Workflow worker error:', error);
+        return false;
+      })
+      .then((ranStep) => {
+        activeWorkers--;
+        if (ranStep) pumpQueue();
       });
-      const refinement = await refinementResponse.json();
+  }
+}
 
-      await db.query(
-        `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, input, output, tokens_used)
-         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-        [uuidv4(), workflowId, stepNumber++, 'gemini-2-5', 'refinement', review.feedback, refinement.refinedContent, refinement.usage?.total_tokens || 0]
-      );
+/**
+ * After a restart, requeue steps that were running when the process stopped. Workflows left
+ * in progress with nothing queued (e.g. by the old synchronous executor) are marked failed so they can be retried.
+ */
+async function recoverWorkflows() {
+  const requeued = await db.query(
+    `UPDATE workflow_steps SET status = 'pending', run_after = NOW() WHERE status = 'running' RETURNING workflow_id`
+  );
+  const orphaned = await db.query(`
+    UPDATE workflows w
+    SET status = 'failed', error = 'Interrupted before completion; retry the workflow to resume', updated_at = NOW()
+    WHERE w.status IN ('queued', 'in_progress')
+      AND NOT EXISTS (
+        SELECT 1 FROM workflow_steps s WHERE s.workflow_id = w.id AND s.status IN ('pending', 'running')
+      )
+    RETURNING id
+  `);
+
+  if (requeued.rows.length > 0 || orphaned.rows.length > 0) {
+    console.log(`[Orchestrator] Recovered ${requeued.rows.length} interrupted step(s), marked ${orphaned.rows.length} orphaned workflow(s) failed`);
+  }
+}
+
+function toWorkflowResponse(row: WorkflowRow) {
+  return {
+    id: row.id,
+    action: row.action,
+    status: row.status,
+    inputText: row.input_text,
+    context: row.context,
+    definition: row.definition_name ?? DEFAULT_WORKFLOW_DEFINITION.name,
+    finalOutput: row.final_output,
+    agreement: row.agreement,
+    validationPassed: row.validation_passed,
+    error: row.error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toDefinitionSummary(row: DefinitionRow) {
+  return {
+    name: row.name,
+    description: row.description,
+    actions: row.actions,
+    version: row.version,
+    steps: Object.keys(row.definition.steps),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toStepResponse(row: StepRow) {
+  return {
+    id: row.id,
+    stepNumber: row.step_number,
+    agent: row.agent,
+    stage: row.stage,
+    status: row.status,
+    input: row.input,
+    output: row.output,
+    tokensUsed: row.tokens_used ?? 0,
+    attempts: row.attempts,
+    error: row.error,
+    createdAt: row.created_at,
+    completedAt: row.completed_at,
+  };
+}
 
-      finalOutput = refinement.refinedContent;
+/**
+ * POST /api/workflow/execute
+ * Queue a multi-agent workflow for a Shunt action. Returns immediately; poll GET /api/workflow/:id for the result.
+ */
+app.post('/api/workflow/execute', async (req: Request, res: Response) => {
+  try {
+    const { action, text, context, definition: definitionName } = ExecuteWorkflowSchema.parse(req.body);
+    const workflowId = uuidv4();
+
+    let definition: WorkflowDefinition;
+    if (definitionName) {
+      const row = await getDefinitionRow(definitionName);
+      if (!row) {
+        return res.status(400).json({ success: false, error: `Unknown workflow definition "${definitionName}"` });
+      }
+      definition = row.definition;
+    } else {
+      definition = await selectDefinition(action);
     }
 
-    // Update workflow with final result
-    await db.query(
-      `UPDATE workflows
-       SET status = $1, final_output = $2, agreement = $3, validation_passed = $4, updated_at = NOW()
-       WHERE id = $5`,
-      ['completed', finalOutput, agreement, review.approved, workflowId]
-    );
+    console.log(`[Orchestrator] Queueing workflow ${workflowId} for action: ${action} (definition: ${definition.name})`);
+
+    const client = await db.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query(
+        `INSERT INTO workflows (id, action, status, input_text, context, definition_name, definition)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+        [workflowId, action, 'queued', text, context || null, definition.name, JSON.stringify(definition)]
+      );
+      await client.query(
+        `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, status)
+         VALUES ($1, $2, 1, $3, $4, 'pending')`,
+        [uuidv4(), workflowId, definition.steps[definition.start].agent, definition.start]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
 
-    console.log(`[Orchestrator] Workflow ${workflowId} completed`);
+    pumpQueue();
 
-    res.json({
+    res.status(202).json({
       success: true,
       workflowId,
-      finalOutput,
-      agreement,
-      validationPassed: review.approved,
-      steps: stepNumber - 1,
+      status: 'queued',
     });
 
   } catch (error: any) {
     console.error('[Orchestrator] Workflow error:', error);
-    res.status(500).json({
+    res.status(error instanceof z.ZodError ? 400 : 500).json({
       success: false,
       error: error.message,
     });
   }
 });
 
+/**
+ * Read a definition from a JSON or YAML request body
+ */
+function readDefinitionBody(req: Request): unknown {
+  if (typeof req.body !== 'string') return req.body;
+  try {
+    return parseYaml(req.body);
+  } catch (error) {
+    throw new WorkflowDefinitionError([`YAML: ${errorMessage(error)}`]);
+  }
+}
+
+function sendDefinitionError(res: Response, label: string, error: any) {
+  if (error instanceof WorkflowDefinitionError) {
+    return res.status(400).json({ success: false, error: error.message, issues: error.issues });
+  }
+  console.error(`[Orchestrator] ${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: error.message,
+  });
+}
+
+/**
+ * GET /api/workflow/definitions
+ * List workflow definitions
+ */
+app.get('/api/workflow/definitions', async (req: Request, res: Response) => {
+  try {
+    const result = await db.query('SELECT * FROM workflow_definitions ORDER BY name');
+    res.json({ definitions: result.rows.map(toDefinitionSummary) });
+  } catch (error: any) {
+    sendDefinitionError(res, 'List definitions', error);
+  }
+});
+
+/**
+ * GET /api/workflow/definitions/:name
+ * Get a workflow definition. ?format=yaml returns it as YAML.
+ */
+app.get('/api/workflow/definitions/:name', async (req: Request<{ name: string }>, res: Response) => {
+  try {
+    const row = await getDefinitionRow(req.params.name);
+    if (!row) {
+      return res.status(404).json({ error: 'Workflow definition not found' });
+    }
+
+    if (req.query.format === 'yaml') {
+      return res.type('application/yaml').send(stringifyYaml(row.definition));
+    }
+    res.json({ ...toDefinitionSummary(row), definition: row.definition });
+  } catch (error: any) {
+    sendDefinitionError(res, 'Get definition', error);
+  }
+});
+
+/**
+ * POST /api/workflow/definitions
+ * Create a workflow definition from JSON or YAML. New workflows for its actions use it straight away.
+ */
+app.post('/api/workflow/definitions', async (req: Request, res: Response) => {
+  try {
+    const definition = parseWorkflowDefinition(readDefinitionBody(req), Object.keys(AGENT_URLS));
+
+    const created = await db.query(
+      `INSERT INTO workflow_definitions (name, description, actions, definition)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (name) DO NOTHING
+       RETURNING *`,
+      [definition.name, definition.description ?? null, definition.actions, JSON.stringify(definition)]
+    );
+
+    if (created.rows.length === 0) {
+      return res.status(409).json({ success: false, error: `Workflow definition "${definition.name}" already exists` });
+    }
+
+    console.log(`[Orchestrator] Workflow definition ${definition.name} created`);
+    res.status(201).json({ success: true, ...toDefinitionSummary(created.rows[0]) });
+  } catch (error: any) {
+    sendDefinitionError(res, 'Create definition', error);
+  }
+});
+
+/**
+ * PUT /api/workflow/definitions/:name
+ * Replace a workflow definition. Workflows already queued keep running the version they started with.
+ */
+app.put('/api/workflow/definitions/:name', async (req: Request<{ name: string }>, res: Response) => {
+  try {
+    const body = readDefinitionBody(req);
+    const definition = parseWorkflowDefinition(
+      typeof body === 'object' && body !== null ? { name: req.params.name, ...body } : body,
+      Object.keys(AGENT_URLS)
+    );
+
+    if (definition.name !== req.params.name) {
+      return res.status(400).json({ success: false, error: 'Definition name does not match the URL; create a new definition to rename' });
+    }
+
+    const updated = await db.query(
+      `UPDATE workflow_definitions
+       SET description = $2, actions = $3, definition = $4, version = version + 1, updated_at = NOW()
+       WHERE name = $1
+       RETURNING *`,
+      [definition.name, definition.description ?? null, definition.actions, JSON.stringify(definition)]
+    );
+
+    if (updated.rows.length === 0) {
+      return res.status(404).json({ error: 'Workflow definition not found' });
+    }
+
+    console.log(`[Orchestrator] Workflow definition ${definition.name} updated to version ${updated.rows[0].version}`);
+    res.json({ success: true, ...toDefinitionSummary(updated.rows[0]) });
+  } catch (error: any) {
+    sendDefinitionError(res, 'Update definition', error);
+  }
+});
+
+/**
+ * DELETE /api/workflow/definitions/:name
+ * Delete a workflow definition. The default definition can be replaced but not deleted.
+ */
+app.delete('/api/workflow/definitions/:name', async (req: Request<{ name: string }>, res: Response) => {
+  try {
+    if (req.params.name === DEFAULT_WORKFLOW_DEFINITION.name) {
+      return res.status(409).json({ success: false, error: 'The default workflow definition cannot be deleted' });
+    }
+
+    const deleted = await db.query('DELETE FROM workflow_definitions WHERE name = $1 RETURNING name', [req.params.name]);
+    if (deleted.rows.length === 0) {
+      return res.status(404).json({ error: 'Workflow definition not found' });
+    }
+
+    console.log(`[Orchestrator] Workflow definition ${req.params.name} deleted`);
+    res.json({ success: true, name: req.params.name });
+  } catch (error: any) {
+    sendDefinitionError(res, 'Delete definition', error);
+  }
+});
+
 /**
  * GET /api/workflow/:id
  * Get workflow status and result
  */
-app.get('/api/workflow/:id', async (req: Request, res: Response) => {
+app.get('/api/workflow/:id', async (req: Request<{ id: string }>, res: Response) => {
   try {
     const { id } = req.params;
 
-    const workflowResult = await db.query('SELECT * FROM workflows WHERE id = $1', [id]);
-    if (workflowResult.rows.length === 0) {
+    const workflow = await getWorkflow(id);
+    if (!workflow) {
       return res.status(404).json({ error: 'Workflow not found' });
     }
 
@@ -263,8 +781,8 @@ app.get('/api/workflow/:id', async (req: Request, res: Response) => {
     );
 
     res.json({
-      workflow: workflowResult.rows[0],
-      steps: stepsResult.rows,
+      workflow: toWorkflowResponse(workflow),
+      steps: stepsResult.rows.map(toStepResponse),
     });
 
   } catch (error: any) {
@@ -276,6 +794,124 @@ app.get('/api/workflow/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * POST /api/workflow/:id/cancel
+ * Cancel a queued or running workflow. A step already in flight finishes, but nothing after it runs.
+ */
+app.post('/api/workflow/:id/cancel', async (req: Request<{ id: string }>, res: Response) => {
+  try {
+    const { id } = req.params;
+
+    const cancelled = await db.query(
+      `UPDATE workflows SET status = 'cancelled', updated_at = NOW()
+       WHERE id = $1 AND status IN ('queued', 'in_progress')
+       RETURNING id`,
+      [id]
+    );
+
+    if (cancelled.rows.length === 0) {
+      const workflow = await getWorkflow(id);
+      if (!workflow) {
+        return res.status(404).json({ error: 'Workflow not found' });
+      }
+      return res.status(409).json({ success: false, error: `Workflow is already ${workflow.status}` });
+    }
+
+    await db.query(`UPDATE workflow_steps SET status = 'cancelled' WHERE workflow_id = $1 AND status = 'pending'`, [id]);
+    console.log(`[Orchestrator] Workflow ${id} cancelled`);
+
+    res.json({ success: true, workflowId: id, status: 'cancelled' });
+
+  } catch (error: any) {
+    console.error('[Orchestrator] Cancel workflow error:', error);
+    res.status(500).json({
+      success: false,
+      error: error.message,
+    });
+  }
+});
+
+/**
+ * POST /api/workflow/:id/retry
+ * Re-run a failed, cancelled or completed workflow from a step. Steps before `fromStep` keep their results;
+ * it and everything after are discarded and run again. Defaults to the first step that did not complete.
+ */
+app.post('/api/workflow/:id/retry', async (req: Request<{ id: string }>, res: Response) => {
+  const { id } = req.params;
+  const client = await db.connect();
+
+  try {
+    const { fromStep } = RetryWorkflowSchema.parse(req.body ?? {});
+
+    await client.query('BEGIN');
+    const workflowResult = await client.query('SELECT * FROM workflows WHERE id = $1 FOR UPDATE', [id]);
+    const workflow: WorkflowRow | undefined = workflowResult.rows[0];
+
+    if (!workflow) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ error: 'Workflow not found' });
+    }
+
+    const stepsResult = await client.query(
+      'SELECT step_number, stage, status FROM workflow_steps WHERE workflow_id = $1 ORDER BY step_number',
+      [id]
+    );
+    const steps: Array<Pick<StepRow, 'step_number' | 'stage' | 'status'>> = stepsResult.rows;
+
+    if (ACTIVE_STATUSES.includes(workflow.status) || steps.some((step) => step.status === 'running')) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ success: false, error: 'Workflow is still running; cancel it before retrying' });
+    }
+
+    const firstIncomplete = steps.find((step) => step.status !== 'completed');
+    const startStep = fromStep ?? firstIncomplete?.step_number ?? (steps.length === 0 ? 1 : undefined);
+    const definition = definitionOf(workflow);
+    const stage: string | undefined =
+      steps.find((step) => step.step_number === startStep)?.stage ?? (startStep === 1 ? definition.start : undefined);
+
+    if (startStep === undefined || stage === undefined || !definition.steps[stage]) {
+      await client.query('ROLLBACK');
+      return res.status(400).json({
+        success: false,
+        error: startStep === undefined
+          ? 'Every step completed; pass fromStep to re-run part of the workflow'
+          : stage === undefined
+            ? `Workflow has no step ${startStep}`
+            : `Step "${stage}" is not in the workflow definition`,
+      });
+    }
+
+    await client.query('DELETE FROM workflow_steps WHERE workflow_id = $1 AND step_number >= $2', [id, startStep]);
+    await client.query(
+      `INSERT INTO workflow_steps (id, workflow_id, step_number, agent, stage, status)
+       VALUES ($1, $2, $3, $4, $5, 'pending')`,
+      [uuidv4(), id, startStep, definition.steps[stage].agent, stage]
+    );
+    await client.query(
+      `UPDATE workflows
+       SET status = 'queued', final_output = NULL, agreement = NULL, validation_passed = NULL, error = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [id]
+    );
+    await client.query('COMMIT');
+
+    console.log(`[Orchestrator] Workflow ${id} retrying from step ${startStep} (${stage})`);
+    pumpQueue();
+
+    res.status(202).json({ success: true, workflowId: id, status: 'queued', fromStep: startStep, stage });
+
+  } catch (error: any) {
+    await client.query('ROLLBACK').catch(() => undefined);
+    console.error('[Orchestrator] Retry workflow error:', error);
+    res.status(error instanceof z.ZodError ? 400 : 500).json({
+      success: false,
+      error: error.message,
+    });
+  } finally {
+    client.release();
+  }
+});
+
 /**
  * GET /health
  * Health check endpoint
@@ -302,13 +938,25 @@ app.get('/health', async (req: Request, res: Response) => {
 // Start server
 async function start() {
   await initDatabase();
-  app.listen(PORT, () => {
+  await recoverWorkflows();
+
+  setInterval(pumpQueue, WORKFLOW_POLL_INTERVAL_MS).unref();
+  pumpQueue();
+
+  const server = app.listen(PORT, () => {
     console.log(`[Orchestrator] Running on port ${PORT}`);
     console.log(`[Orchestrator] Claude Agent: ${CLAUDE_AGENT_URL}`);
     console.log(`[Orchestrator] Gemini 2.0 Agent: ${GEMINI_2_0_AGENT_URL}`);
     console.log(`[Orchestrator] Gemini 2.5 Agent: ${GEMINI_2_5_AGENT_URL}`);
+    console.log(`[Orchestrator] Workflow workers: ${WORKFLOW_CONCURRENCY}`);
     console.log(`[Orchestrator] Ready to orchestrate multi-agent workflows`);
   });
+
+  // Stop claiming new steps on shutdown; a step still in flight is requeued on the next start
+  process.on('SIGTERM', () => {
+    stopping = true;
+    server.close(() => db.end().finally(() => process.exit(0)));
+  });
 }
 
 start().catch(console.error);
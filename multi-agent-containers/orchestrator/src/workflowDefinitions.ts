@@ -0,0 +1,384 @@
+/**
+ * Workflow Definitions
+ * Pipelines described as data: which agent endpoint each step calls, how its request is built from the
+ * workflow input and earlier step results, and which step runs next.
+ *
+ * Values anywhere in a definition are expressions:
+ * - "$input.text", "$steps.peer_review.score", "$response.usage.total_tokens" read a path
+ *   ("$$" at the start escapes a literal "$")
+ * - { "$op": "gte", "args": [...] } applies an operator to evaluated arguments
+ * - other strings, numbers, booleans and null are literals; arrays and objects are evaluated member-wise
+ */
+
+import { z } from 'zod';
+
+/** Agent name for steps computed by the orchestrator itself instead of calling an agent */
+export const ORCHESTRATOR_AGENT = 'orchestrator';
+
+const OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'and', 'or', 'not', 'in', 'if', 'coalesce', 'sum', 'concat', 'json'] as const;
+type Operator = (typeof OPERATORS)[number];
+
+const SCOPE_ROOTS = ['input', 'steps', 'response'];
+
+const stepIdSchema = z.string().regex(/^[a-z][a-z0-9_]{0,63}$/, 'Step ids must be lowercase letters, digits and underscores');
+
+const transitionSchema = z.object({
+  /** Expression; the transition is taken when it is truthy. Omit for an unconditional transition. */
+  when: z.unknown().optional(),
+  /** Step to run next, or null to finish the workflow */
+  to: stepIdSchema.nullable(),
+});
+
+const stepSchema = z.object({
+  agent: z.string().min(1),
+  /** Path POSTed on the agent, e.g. /process. Required unless the agent is "orchestrator". */
+  endpoint: z.string().regex(/^\/[\w\-./]*$/).optional(),
+  /** Request body sent to the agent */
+  input: z.record(z.string(), z.unknown()).optional(),
+  /** Values computed by an "orchestrator" step; they become its result */
+  set: z.record(z.string(), z.unknown()).optional(),
+  /** Text stored as the step output. Defaults to the JSON of the response. */
+  output: z.unknown().optional(),
+  /** Tokens the step used */
+  tokens: z.unknown().optional(),
+  /** Next step id, or transitions checked in order. Omit or null to finish the workflow. */
+  next: z.union([stepIdSchema, z.array(transitionSchema)]).nullable().optional(),
+  /** How many times the step may run in one workflow (loop limit). Defaults to 1. */
+  maxVisits: z.number().int().min(1).max(20).optional(),
+});
+
+export const workflowDefinitionSchema = z.object({
+  name: z.string().regex(/^[a-z0-9][a-z0-9_-]{0,63}$/, 'Names must be lowercase letters, digits, "-" and "_"'),
+  description: z.string().max(1000).optional(),
+  /** Shunt actions served by this pipeline; "*" serves actions without a pipeline of their own */
+  actions: z.array(z.string().min(1)).min(1),
+  start: stepIdSchema,
+  steps: z.record(stepIdSchema, stepSchema),
+  /** Expressions for the workflow's final output, agreement and validation flags, evaluated after the last step */
+  result: z.object({
+    output: z.unknown(),
+    agreement: z.unknown().optional(),
+    validationPassed: z.unknown().optional(),
+  }),
+});
+
+export type WorkflowDefinition = z.infer<typeof workflowDefinitionSchema>;
+export type WorkflowStepSpec = WorkflowDefinition['steps'][string];
+
+/**
+ * Values expressions can read: the workflow input, the latest result of each completed step
+ * and, while a step is finishing, that step's response
+ */
+export interface ExpressionScope {
+  input: { text: string; action: string; context?: string };
+  steps: Record<string, unknown>;
+  response?: unknown;
+}
+
+export class WorkflowDefinitionError extends Error {
+  constructor(public readonly issues: string[]) {
+    super(`Invalid workflow definition: ${issues.join('; ')}`);
+    this.name = 'WorkflowDefinitionError';
+  }
+}
+
+function isOperation(value: unknown): value is { $op: string; args?: unknown[] } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && '$op' in value;
+}
+
+function readPath(scope: ExpressionScope, path: string): unknown {
+  let current: unknown = scope;
+  for (const key of path.split('.')) {
+    if (current === null || current === undefined || typeof current !== 'object') return undefined;
+    current = (current as Record<string, unknown>)[key];
+  }
+  return current;
+}
+
+function compare(op: Operator, left: any, right: any): boolean {
+  switch (op) {
+    case 'gt':
+      return left > right;
+    case 'gte':
+      return left >= right;
+    case 'lt':
+      return left < right;
+    default:
+      return left <= right;
+  }
+}
+
+function applyOperator(op: Operator, args: unknown[], scope: ExpressionScope): unknown {
+  // "if" and the boolean operators short-circuit, so only evaluate what they need
+  switch (op) {
+    case 'if':
+      return evaluate(args[0], scope) ? evaluate(args[1], scope) : evaluate(args[2], scope);
+    case 'and':
+      return args.every((arg) => Boolean(evaluate(arg, scope)));
+    case 'or':
+      return args.some((arg) => Boolean(evaluate(arg, scope)));
+    case 'coalesce':
+      for (const arg of args) {
+        const value = evaluate(arg, scope);
+        if (value !== null && value !== undefined) return value;
+      }
+      return null;
+  }
+
+  const values = args.map((arg) => evaluate(arg, scope));
+  switch (op) {
+    case 'eq':
+      return values[0] === values[1];
+    case 'ne':
+      return values[0] !== values[1];
+    case 'gt':
+    case 'gte':
+    case 'lt':
+    case 'lte':
+      return typeof values[0] === typeof values[1] && values[0] !== null && values[0] !== undefined
+        ? compare(op, values[0], values[1])
+        : false;
+    case 'not':
+      return !values[0];
+    case 'in':
+      return Array.isArray(values[1]) && values[1].includes(values[0]);
+    case 'sum':
+      return values.reduce<number>((total, value) => total + (Number(value) || 0), 0);
+    case 'concat':
+      return values.map((value) => (value === null || value === undefined ? '' : String(value))).join('');
+    case 'json':
+      return JSON.stringify(values[0] ?? null);
+  }
+}
+
+/**
+ * Evaluate an expression against the scope. Missing paths read as undefined rather than throwing,
+ * so a step can fall back with coalesce.
+ */
+export function evaluate(expression: unknown, scope: ExpressionScope): unknown {
+  if (typeof expression === 'string') {
+    if (expression.startsWith('$$')) return expression.slice(1);
+    if (expression.startsWith('$')) return readPath(scope, expression.slice(1));
+    return expression;
+  }
+  if (Array.isArray(expression)) {
+    return expression.map((item) => evaluate(item, scope));
+  }
+  if (isOperation(expression)) {
+    return applyOperator(expression.$op as Operator, expression.args ?? [], scope);
+  }
+  if (typeof expression === 'object' && expression !== null) {
+    return Object.fromEntries(Object.entries(expression).map(([key, value]) => [key, evaluate(value, scope)]));
+  }
+  return expression;
+}
+
+/**
+ * The step to queue after `stepId` completes, or null when the workflow is done. Transitions are checked
+ * in order; one whose target has already run `maxVisits` times is skipped, so loops fall through to the next transition.
+ */
+export function resolveNextStep(
+  definition: WorkflowDefinition,
+  stepId: string,
+  scope: ExpressionScope,
+  visits: Record<string, number>
+): string | null {
+  const next = definition.steps[stepId]?.next;
+  const transitions = typeof next === 'string' ? [{ to: next }] : (next ?? []);
+
+  for (const transition of transitions) {
+    if ('when' in transition && transition.when !== undefined && !evaluate(transition.when, scope)) continue;
+    if (transition.to === null) return null;
+    if ((visits[transition.to] ?? 0) >= (definition.steps[transition.to].maxVisits ?? 1)) continue;
+    return transition.to;
+  }
+
+  return null;
+}
+
+/**
+ * Collect problems with operators and path references in an expression
+ */
+function checkExpression(expression: unknown, where: string, stepIds: Set<string>, issues: string[]): void {
+  if (typeof expression === 'string') {
+    if (!expression.startsWith('$') || expression.startsWith('$$')) return;
+    const [root, stepId] = expression.slice(1).split('.');
+    if (!SCOPE_ROOTS.includes(root)) {
+      issues.push(`${where}: "${expression}" must start with $input, $steps or $response`);
+    } else if (root === 'steps' && !stepIds.has(stepId)) {
+      issues.push(`${where}: "${expression}" refers to unknown step "${stepId}"`);
+    }
+    return;
+  }
+  if (Array.isArray(expression)) {
+    expression.forEach((item) => checkExpression(item, where, stepIds, issues));
+    return;
+  }
+  if (isOperation(expression)) {
+    if (!OPERATORS.includes(expression.$op as Operator)) {
+      issues.push(`${where}: unknown operator "${expression.$op}"`);
+    }
+    if (expression.args !== undefined && !Array.isArray(expression.args)) {
+      issues.push(`${where}: "args" of "${expression.$op}" must be an array`);
+    }
+    checkExpression(expression.args ?? [], where, stepIds, issues);
+    return;
+  }
+  if (typeof expression === 'object' && expression !== null) {
+    Object.values(expression).forEach((value) => checkExpression(value, where, stepIds, issues));
+  }
+}
+
+/**
+ * Parse and check a definition: schema, step references, known agents and expression syntax.
+ * Throws WorkflowDefinitionError listing every problem found.
+ */
+export function parseWorkflowDefinition(raw: unknown, knownAgents: string[]): WorkflowDefinition {
+  const parsed = workflowDefinitionSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new WorkflowDefinitionError(
+      parsed.error.issues.map((issue) => `${issue.path.join('.') || 'definition'}: ${issue.message}`)
+    );
+  }
+
+  const definition = parsed.data;
+  const stepIds = new Set(Object.keys(definition.steps));
+  const issues: string[] = [];
+
+  if (!stepIds.has(definition.start)) {
+    issues.push(`start: unknown step "${definition.start}"`);
+  }
+
+  for (const [id, step] of Object.entries(definition.steps)) {
+    const where = `steps.${id}`;
+
+    if (step.agent === ORCHESTRATOR_AGENT) {
+      if (!step.set) issues.push(`${where}: orchestrator steps need "set"`);
+    } else if (!knownAgents.includes(step.agent)) {
+      issues.push(`${where}: unknown agent "${step.agent}" (known: ${knownAgents.join(', ')})`);
+    } else if (!step.endpoint) {
+      issues.push(`${where}: agent steps need an "endpoint"`);
+    }
+
+    const targets = typeof step.next === 'string' ? [step.next] : (step.next ?? []).map((transition) => transition.to);
+    for (const target of targets) {
+      if (target !== null && !stepIds.has(target)) issues.push(`${where}.next: unknown step "${target}"`);
+    }
+    if (Array.isArray(step.next)) {
+      step.next.forEach((transition, index) => checkExpression(transition.when, `${where}.next[${index}].when`, stepIds, issues));
+    }
+
+    checkExpression(step.input, `${where}.input`, stepIds, issues);
+    checkExpression(step.set, `${where}.set`, stepIds, issues);
+    checkExpression(step.output, `${where}.output`, stepIds, issues);
+    checkExpression(step.tokens, `${where}.tokens`, stepIds, issues);
+  }
+
+  checkExpression(definition.result, 'result', stepIds, issues);
+
+  if (issues.length > 0) {
+    throw new WorkflowDefinitionError(issues);
+  }
+
+  return definition;
+}
+
+const workflowInput = { text: '$input.text', action: '$input.action', context: '$input.context' };
+
+/**
+ * The original pipeline from test workflow.png: delegate, process, optionally research, reflect, conclude,
+ * peer review, then refine once when the reviewer does not approve with a score of at least 80.
+ * Seeded as the "default" definition and used for workflows queued before definitions existed.
+ */
+export const DEFAULT_WORKFLOW_DEFINITION: WorkflowDefinition = {
+  name: 'default',
+  description: 'Gemini 2.0 delegation, Gemini 2.5 Pro processing, Claude peer review and refinement',
+  actions: ['*'],
+  start: 'delegation',
+  steps: {
+    delegation: {
+      agent: 'gemini-2-0',
+      endpoint: '/delegate',
+      input: workflowInput,
+      output: { $op: 'json', args: ['$response'] },
+      tokens: '$response.usage.total_tokens',
+      next: 'processing',
+    },
+    processing: {
+      agent: 'gemini-2-5',
+      endpoint: '/process',
+      input: { ...workflowInput, taskPlan: '$steps.delegation.taskPlan' },
+      output: '$response.result',
+      tokens: '$response.usage.total_tokens',
+      next: [
+        {
+          when: { $op: 'in', args: ['$input.action', ['MAKE_ACTIONABLE', 'BUILD_A_SKILL', 'COMPREHENSIVE_ANALYSIS']] },
+          to: 'research',
+        },
+        { to: 'reflection' },
+      ],
+    },
+    research: {
+      agent: 'gemini-2-5',
+      endpoint: '/research',
+      input: { topic: '$steps.processing.result', context: '$input.context' },
+      output: '$response.research',
+      tokens: '$response.usage.total_tokens',
+      next: 'reflection',
+    },
+    reflection: {
+      agent: 'gemini-2-5',
+      endpoint: '/reflect',
+      input: { content: '$steps.processing.result' },
+      output: '$response.reflection',
+      tokens: '$response.usage.total_tokens',
+      next: 'conclusion',
+    },
+    conclusion: {
+      agent: 'gemini-2-5',
+      endpoint: '/conclude',
+      input: { content: '$steps.reflection.reflection' },
+      output: '$response.conclusion',
+      tokens: '$response.usage.total_tokens',
+      next: 'peer_review',
+    },
+    peer_review: {
+      agent: 'claude',
+      endpoint: '/review',
+      input: {
+        text: '$steps.conclusion.conclusion',
+        action: '$input.action',
+        context: '$input.context',
+        rootInstruction: '$input.action',
+      },
+      output: '$response.reviewedContent',
+      tokens: { $op: 'sum', args: ['$response.usage.input_tokens', '$response.usage.output_tokens'] },
+      next: 'agreement',
+    },
+    agreement: {
+      agent: ORCHESTRATOR_AGENT,
+      set: {
+        agreement: {
+          $op: 'and',
+          args: ['$steps.peer_review.approved', { $op: 'gte', args: ['$steps.peer_review.score', 80] }],
+        },
+        approved: '$steps.peer_review.approved',
+        score: '$steps.peer_review.score',
+      },
+      output: { $op: 'if', args: ['$response.agreement', 'PASS', 'NEEDS_REFINEMENT'] },
+      next: [{ when: { $op: 'not', args: ['$response.agreement'] }, to: 'refinement' }],
+    },
+    refinement: {
+      agent: 'gemini-2-5',
+      endpoint: '/refine',
+      input: { content: '$steps.conclusion.conclusion', feedback: '$steps.peer_review.feedback' },
+      output: '$response.refinedContent',
+      tokens: '$response.usage.total_tokens',
+    },
+  },
+  result: {
+    output: { $op: 'coalesce', args: ['$steps.refinement.refinedContent', '$steps.peer_review.reviewedContent'] },
+    agreement: '$steps.agreement.agreement',
+    validationPassed: '$steps.peer_review.approved',
+  },
+};
@@ -1,76 +1,143 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { AgenticRAGService, agenticRAG } from '../agenticRAG.service';
 import * as geminiService from '../geminiService';
-import { generateUniqueId } from '../../types/autonomous';
+import * as intelligenceService from '../intelligenceService';
+import { generateUniqueId, RAGQuery, RAGPlan } from '../../types/autonomous';
 
 // Mock geminiService
 vi.mock('../geminiService', () => ({
   generateContent: vi.fn()
 }));
 
+// Mock the embedding model
+vi.mock('../intelligenceService', () => ({
+  getIntelligenceService: vi.fn()
+}));
+
 /**
  * Tests for AgenticRAGService
  *
  * Tests cover:
  * - Query planning and execution
  * - Multi-query parallel execution
+ * - Retrieval over the indexed codebase for each query type
  * - Synthesis strategies
  * - Codebase indexing
  * - Caching
  */
 
+const codebase = [
+  {
+    path: 'src/auth/jwt.ts',
+    content: [
+      "import jwt from 'jsonwebtoken';",
+      "import { User } from '../models/user';",
+      '',
+      'export function signToken(user: User): string {',
+      "  return jwt.sign({ sub: user.id }, 'secret');",
+      '}',
+      '',
+      'export function verifyToken(token: string) {',
+      "  return jwt.verify(token, 'secret');",
+      '}'
+    ].join('\n')
+  },
+  {
+    path: 'src/models/user.ts',
+    content: [
+      'export interface User { id: string; email: string }',
+      '',
+      'export class UserRepository {',
+      '  async findById(id: string): Promise<User | undefined> {',
+      '    return undefined;',
+      '  }',
+      '}'
+    ].join('\n')
+  },
+  {
+    path: 'src/routes/users.ts',
+    content: [
+      "import { UserRepository } from '../models/user';",
+      "import { verifyToken } from '../auth/jwt.js';",
+      '',
+      'export const updateUserRoute = async (token: string) => {',
+      '  verifyToken(token);',
+      '  return new UserRepository();',
+      '};'
+    ].join('\n')
+  },
+  { path: 'docs/auth.md', content: '# Authentication\n\nTokens are signed with JWT and expire after one hour.' },
+  { path: 'lib/legacy.py', content: 'def sign_token(user):\n    return user' }
+];
+
+// Bag-of-words vectors: texts sharing words are similar, like a real embedding model
+function fakeEmbedding(text: string): number[] {
+  const vector = new Array(32).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) % 32;
+    vector[hash] += 1;
+  }
+  return vector;
+}
+
 describe('AgenticRAGService', () => {
   let service: AgenticRAGService;
   const mockGenerateContent = vi.mocked(geminiService.generateContent);
+  const mockEmbed = vi.fn(async (text: string) => ({ model: 'test-model', vector: fakeEmbedding(text) }));
 
-  beforeEach(() => {
-    service = new AgenticRAGService();
-    vi.clearAllMocks();
-
-    // Default mock responses
+  // Plan the given sub-queries and answer every synthesis prompt
+  function mockPlan(subQueries: RAGQuery[], strategy: RAGPlan['synthesis_strategy'] = 'concatenate') {
     mockGenerateContent.mockImplementation(async (prompt: string) => {
       if (prompt.includes('Agentic RAG planner')) {
         return JSON.stringify({
           plan_id: generateUniqueId(),
-          original_intent: 'test intent',
-          sub_queries: [
-            {
-              query_id: generateUniqueId(),
-              query_text: 'test query 1',
-              query_type: 'code_search',
-              filters: { file_extensions: ['.ts'] }
-            },
-            {
-              query_id: generateUniqueId(),
-              query_text: 'test query 2',
-              query_type: 'documentation'
-            }
-          ],
-          synthesis_strategy: 'concatenate'
+          original_intent: 'test',
+          sub_queries: subQueries,
+          synthesis_strategy: strategy
         });
       }
-      if (prompt.includes('code search engine')) {
-        return JSON.stringify([
-          {
-            file_path: 'src/utils/helper.ts',
-            content: 'export const helper = () => {};',
-            relevance: 0.9,
-            dependencies: ['lodash'],
-            exports: ['helper']
-          }
-        ]);
-      }
-      if (prompt.includes('code documentation AI') || prompt.includes('Summarize')) {
-        return '## Summary\n\nThis code implements helper utilities.';
-      }
       if (prompt.includes('code architecture AI')) {
-        return '## Architecture\n\nModular design with clear separation of concerns.';
+        return '## Architecture\n\nGraph analysis of dependencies.';
       }
       if (prompt.includes('hierarchical documentation')) {
-        return '# Overview\n\n## Implementation\n\nDetails here.';
+        return '# Overview\n\n## Core Concepts\n\n### Details';
+      }
+      if (prompt.includes('Summarize')) {
+        return '## Summary\n\nConcise summary of the code.';
       }
       return '{}';
     });
+  }
+
+  async function runQuery(query: Omit<RAGQuery, 'query_id'>, options?: Parameters<AgenticRAGService['query']>[1]) {
+    mockPlan([{ query_id: 'q1', ...query }]);
+    const result = await service.query('test', options);
+    return result.query_results.get('q1')!;
+  }
+
+  beforeEach(async () => {
+    service = new AgenticRAGService();
+    vi.clearAllMocks();
+    vi.mocked(intelligenceService.getIntelligenceService).mockReturnValue(
+      { embed: mockEmbed } as unknown as intelligenceService.IntelligenceService
+    );
+    await service.indexCodebase(codebase);
+
+    // Default mock responses
+    mockPlan([
+      {
+        query_id: generateUniqueId(),
+        query_text: 'signToken',
+        query_type: 'code_search',
+        filters: { file_extensions: ['.ts'] }
+      },
+      {
+        query_id: generateUniqueId(),
+        query_text: 'JWT tokens expire',
+        query_type: 'documentation'
+      }
+    ]);
   });
 
   afterEach(() => {
@@ -114,42 +181,20 @@ describe('AgenticRAGService', () => {
       expect(result.plan.synthesis_strategy).toBeDefined();
     });
 
-    it('should execute sub-queries in parallel', async () => {
+    it('should execute every sub-query', async () => {
       // Arrange
-      const intent = 'Search for API endpoints';
-      const executionOrder: string[] = [];
-
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: intent,
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query 1', query_type: 'code_search' },
-              { query_id: 'q2', query_text: 'query 2', query_type: 'documentation' },
-              { query_id: 'q3', query_text: 'query 3', query_type: 'api_reference' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        if (prompt.includes('code search engine')) {
-          executionOrder.push('executed');
-          return JSON.stringify([{
-            file_path: 'file.ts',
-            content: 'code',
-            relevance: 0.8,
-            dependencies: [],
-            exports: []
-          }]);
-        }
-        return '{}';
-      });
+      mockPlan([
+        { query_id: 'q1', query_text: 'signToken', query_type: 'code_search' },
+        { query_id: 'q2', query_text: 'JWT tokens expire', query_type: 'documentation' },
+        { query_id: 'q3', query_text: 'UserRepository', query_type: 'api_reference' }
+      ]);
 
       // Act
-      await service.query(intent);
+      const result = await service.query('Search for API endpoints');
 
-      // Assert - all queries should execute
-      expect(executionOrder.length).toBe(3);
+      // Assert - all queries should return results
+      expect([...result.query_results.keys()]).toEqual(['q1', 'q2', 'q3']);
+      result.query_results.forEach(contexts => expect(contexts.length).toBeGreaterThan(0));
     });
 
     it('should apply language filter from options', async () => {
@@ -192,202 +237,204 @@ describe('AgenticRAGService', () => {
 
     it('should handle plan generation failure with fallback', async () => {
       // Arrange
-      const intent = 'Test query';
-      let callCount = 0;
-
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          callCount++;
-          throw new Error('Planning failed');
-        }
-        if (prompt.includes('code search engine')) {
-          return JSON.stringify([{
-            file_path: 'file.ts',
-            content: 'code',
-            relevance: 0.8,
-            dependencies: [],
-            exports: []
-          }]);
-        }
-        return '{}';
-      });
+      mockGenerateContent.mockRejectedValue(new Error('Planning failed'));
 
       // Act
-      const result = await service.query(intent);
+      const result = await service.query('signToken');
 
-      // Assert - should use fallback plan
-      expect(result.plan).toBeDefined();
+      // Assert - should use fallback plan that searches for the intent itself
       expect(result.plan.sub_queries.length).toBe(1);
       expect(result.plan.synthesis_strategy).toBe('concatenate');
+      const [contexts] = [...result.query_results.values()];
+      expect(contexts[0].file_path).toBe('src/auth/jwt.ts');
     });
 
     it('should handle query execution failure gracefully', async () => {
       // Arrange
-      const intent = 'Test query';
+      mockEmbed.mockRejectedValueOnce(new Error('Embedding failed'));
+
+      // Act
+      const contexts = await runQuery({ query_text: 'JWT tokens expire', query_type: 'documentation' });
+
+      // Assert - should return empty results for failed query
+      expect(contexts).toEqual([]);
+    });
+
+    it('should return no results before the codebase is indexed', async () => {
+      // Arrange
+      service = new AgenticRAGService();
+
+      // Act
+      const contexts = await runQuery({ query_text: 'signToken', query_type: 'code_search' });
+
+      // Assert
+      expect(contexts).toEqual([]);
+    });
+  });
 
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: intent,
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'code_search' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        if (prompt.includes('code search engine')) {
-          throw new Error('Query failed');
-        }
-        return '{}';
+  describe('Retrieval', () => {
+    it('should find code_search matches with real file paths and line ranges', async () => {
+      // Act
+      const contexts = await runQuery({ query_text: 'signToken', query_type: 'code_search' });
+
+      // Assert
+      expect(contexts[0]).toMatchObject({
+        file_path: 'src/auth/jwt.ts',
+        start_line: 1,
+        end_line: 10,
+        exports: ['signToken', 'verifyToken'],
+        dependencies: ['jsonwebtoken', '../models/user']
       });
+      expect(contexts[0].content).toContain('jwt.sign(');
+      expect(contexts[0].relevance).toBeGreaterThan(0);
+      expect(contexts[0].relevance).toBeLessThanOrEqual(1);
+      expect(contexts.map(ctx => ctx.file_path)).not.toContain('src/models/user.ts');
+    });
+
+    it('should return the line range of the matching chunk in large files', async () => {
+      // Arrange
+      const lines = Array.from({ length: 100 }, (_, i) => `const line${i + 1} = ${i + 1};`);
+      lines[74] = 'export function calculateInvoiceTotal() {}';
+      await service.indexCodebase([{ path: 'src/billing.ts', content: lines.join('\n') }]);
 
       // Act
-      const result = await service.query(intent);
+      const contexts = await runQuery({ query_text: 'invoice total', query_type: 'code_search' });
 
-      // Assert - should return empty results for failed query
-      expect(result.query_results.get('q1')).toEqual([]);
+      // Assert
+      expect(contexts).toHaveLength(1);
+      expect(contexts[0]).toMatchObject({ file_path: 'src/billing.ts', start_line: 61, end_line: 100 });
+      expect(contexts[0].content).toContain('calculateInvoiceTotal');
+    });
+
+    it('should honor extension, directory and max_results filters', async () => {
+      // Act
+      const python = await runQuery({ query_text: 'sign token', query_type: 'code_search', filters: { file_extensions: ['.py'] } });
+      service.clearCache();
+      const routes = await runQuery({ query_text: 'token', query_type: 'code_search', filters: { directories: ['./src/routes/'] } });
+      service.clearCache();
+      const limited = await runQuery({ query_text: 'token', query_type: 'code_search', filters: { max_results: 1 } });
+
+      // Assert
+      expect(python.map(ctx => ctx.file_path)).toEqual(['lib/legacy.py']);
+      expect(routes.map(ctx => ctx.file_path)).toEqual(['src/routes/users.ts']);
+      expect(limited).toHaveLength(1);
+    });
+
+    it('should apply the language option to retrieval', async () => {
+      // Act
+      const contexts = await runQuery({ query_text: 'sign token', query_type: 'code_search' }, { language: 'python' });
+
+      // Assert
+      expect(contexts.map(ctx => ctx.file_path)).toEqual(['lib/legacy.py']);
+    });
+
+    it('should rank the declaring file first for api_reference queries', async () => {
+      // Act
+      const contexts = await runQuery({ query_text: 'UserRepository', query_type: 'api_reference' });
+
+      // Assert
+      expect(contexts[0].file_path).toBe('src/models/user.ts');
+      expect(contexts.map(ctx => ctx.file_path)).toContain('src/routes/users.ts');
+    });
+
+    it('should search documentation files with embeddings for documentation queries', async () => {
+      // Act
+      const contexts = await runQuery({ query_text: 'when do JWT tokens expire', query_type: 'documentation' });
+
+      // Assert
+      expect(contexts.map(ctx => ctx.file_path)).toEqual(['docs/auth.md']);
+      expect(mockEmbed).toHaveBeenCalledWith('when do JWT tokens expire');
+    });
+
+    it('should rank pattern_search results by embedding similarity', async () => {
+      // Act
+      const contexts = await runQuery({ query_text: 'async findById returns undefined', query_type: 'pattern_search' });
+
+      // Assert
+      expect(contexts[0].file_path).toBe('src/models/user.ts');
+      const relevances = contexts.map(ctx => ctx.relevance);
+      expect(relevances).toEqual([...relevances].sort((a, b) => b - a));
+    });
+
+    it('should reuse chunk embeddings across queries', async () => {
+      // Act
+      await runQuery({ query_text: 'first pattern', query_type: 'pattern_search' });
+      const callsAfterFirst = mockEmbed.mock.calls.length;
+      await runQuery({ query_text: 'second pattern', query_type: 'pattern_search' });
+
+      // Assert - only the new query text is embedded
+      expect(mockEmbed.mock.calls.length).toBe(callsAfterFirst + 1);
+    });
+
+    it('should walk imports and importers for dependency_graph queries', async () => {
+      // Act
+      const contexts = await runQuery({ query_text: 'email', query_type: 'dependency_graph' });
+
+      // Assert - user.ts matches; jwt.ts and routes/users.ts import it
+      expect(contexts[0].file_path).toBe('src/models/user.ts');
+      expect(contexts.map(ctx => ctx.file_path).sort()).toEqual(['src/auth/jwt.ts', 'src/models/user.ts', 'src/routes/users.ts']);
+      expect(contexts[1].relevance).toBeLessThan(contexts[0].relevance);
+    });
+
+    it('should stop the dependency walk at max_depth', async () => {
+      // Act
+      const contexts = await runQuery({ query_text: 'email', query_type: 'dependency_graph' }, { max_depth: 0 });
+
+      // Assert
+      expect(contexts.map(ctx => ctx.file_path)).toEqual(['src/models/user.ts']);
     });
   });
 
   describe('Synthesis Strategies', () => {
     describe('concatenate', () => {
-      it('should concatenate results from all queries', async () => {
+      it('should concatenate results from all queries citing file locations', async () => {
         // Arrange
-        mockGenerateContent.mockImplementation(async (prompt: string) => {
-          if (prompt.includes('Agentic RAG planner')) {
-            return JSON.stringify({
-              plan_id: generateUniqueId(),
-              original_intent: 'test',
-              sub_queries: [
-                { query_id: 'q1', query_text: 'query', query_type: 'code_search' }
-              ],
-              synthesis_strategy: 'concatenate'
-            });
-          }
-          if (prompt.includes('code search engine')) {
-            return JSON.stringify([{
-              file_path: 'file.ts',
-              content: 'test code',
-              relevance: 0.9,
-              dependencies: [],
-              exports: []
-            }]);
-          }
-          return '{}';
-        });
+        mockPlan([{ query_id: 'q1', query_text: 'signToken', query_type: 'code_search' }], 'concatenate');
 
         // Act
         const result = await service.query('test');
 
         // Assert
-        expect(result.synthesized_context).toContain('file.ts');
-        expect(result.synthesized_context).toContain('test code');
+        expect(result.synthesized_context).toContain('File: src/auth/jwt.ts:1-10');
+        expect(result.synthesized_context).toContain('jwt.sign(');
       });
     });
 
     describe('summarize', () => {
       it('should summarize results', async () => {
         // Arrange
-        mockGenerateContent.mockImplementation(async (prompt: string) => {
-          if (prompt.includes('Agentic RAG planner')) {
-            return JSON.stringify({
-              plan_id: generateUniqueId(),
-              original_intent: 'test',
-              sub_queries: [
-                { query_id: 'q1', query_text: 'query', query_type: 'code_search' }
-              ],
-              synthesis_strategy: 'summarize'
-            });
-          }
-          if (prompt.includes('code search engine')) {
-            return JSON.stringify([{
-              file_path: 'file.ts',
-              content: 'code',
-              relevance: 0.8,
-              dependencies: [],
-              exports: []
-            }]);
-          }
-          if (prompt.includes('Summarize')) {
-            return '## Summary\n\nConcise summary of the code.';
-          }
-          return '{}';
-        });
+        mockPlan([{ query_id: 'q1', query_text: 'signToken', query_type: 'code_search' }], 'summarize');
 
         // Act
         const result = await service.query('test');
 
         // Assert
         expect(result.synthesized_context).toContain('Summary');
+        const summaryPrompt = mockGenerateContent.mock.calls.find(([prompt]) => prompt.includes('Summarize'))![0];
+        expect(summaryPrompt).toContain('src/auth/jwt.ts:1-10');
       });
     });
 
     describe('graph_based', () => {
       it('should build dependency graph', async () => {
         // Arrange
-        mockGenerateContent.mockImplementation(async (prompt: string) => {
-          if (prompt.includes('Agentic RAG planner')) {
-            return JSON.stringify({
-              plan_id: generateUniqueId(),
-              original_intent: 'test',
-              sub_queries: [
-                { query_id: 'q1', query_text: 'query', query_type: 'dependency_graph' }
-              ],
-              synthesis_strategy: 'graph_based'
-            });
-          }
-          if (prompt.includes('code search engine')) {
-            return JSON.stringify([{
-              file_path: 'src/a.ts',
-              content: 'import { b } from "./b"',
-              relevance: 0.9,
-              dependencies: ['./b'],
-              exports: ['a']
-            }]);
-          }
-          if (prompt.includes('code architecture AI')) {
-            return '## Architecture\n\nGraph analysis of dependencies.';
-          }
-          return '{}';
-        });
+        mockPlan([{ query_id: 'q1', query_text: 'email', query_type: 'dependency_graph' }], 'graph_based');
 
         // Act
         const result = await service.query('test');
 
         // Assert
         expect(result.synthesized_context).toContain('Architecture');
+        const graphPrompt = mockGenerateContent.mock.calls.find(([prompt]) => prompt.includes('code architecture AI'))![0];
+        expect(graphPrompt).toContain('"src/routes/users.ts"');
+        expect(graphPrompt).toContain('File: src/models/user.ts:1-7');
       });
     });
 
     describe('hierarchical', () => {
       it('should organize results hierarchically', async () => {
         // Arrange
-        mockGenerateContent.mockImplementation(async (prompt: string) => {
-          if (prompt.includes('Agentic RAG planner')) {
-            return JSON.stringify({
-              plan_id: generateUniqueId(),
-              original_intent: 'test',
-              sub_queries: [
-                { query_id: 'q1', query_text: 'query', query_type: 'documentation' }
-              ],
-              synthesis_strategy: 'hierarchical'
-            });
-          }
-          if (prompt.includes('code search engine')) {
-            return JSON.stringify([{
-              file_path: 'docs/readme.md',
-              content: 'documentation',
-              relevance: 0.9,
-              dependencies: [],
-              exports: []
-            }]);
-          }
-          if (prompt.includes('hierarchical documentation')) {
-            return '# Overview\n\n## Core Concepts\n\n### Details';
-          }
-          return '{}';
-        });
+        mockPlan([{ query_id: 'q1', query_text: 'JWT tokens expire', query_type: 'documentation' }], 'hierarchical');
 
         // Act
         const result = await service.query('test');
@@ -400,80 +447,55 @@ describe('AgenticRAGService', () => {
 
   describe('Caching', () => {
     it('should cache query results', async () => {
-      // Arrange
-      let queryCount = 0;
-
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'cached-query', query_text: 'query', query_type: 'code_search' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        if (prompt.includes('code search engine')) {
-          queryCount++;
-          return JSON.stringify([{
-            file_path: 'file.ts',
-            content: 'code',
-            relevance: 0.8,
-            dependencies: [],
-            exports: []
-          }]);
-        }
-        return '{}';
-      });
-
       // Act - execute same query twice
-      await service.query('test');
-      await service.query('test');
+      const first = await runQuery({ query_text: 'JWT tokens expire', query_type: 'documentation' });
+      const embedCalls = mockEmbed.mock.calls.length;
+      const second = await runQuery({ query_text: 'JWT tokens expire', query_type: 'documentation' });
 
       // Assert - query should only execute once due to caching
-      expect(queryCount).toBe(1);
+      expect(mockEmbed.mock.calls.length).toBe(embedCalls);
+      expect(second).toBe(first);
+    });
+
+    it('should not share cached results between different queries with the same id', async () => {
+      // Act
+      const first = await runQuery({ query_text: 'signToken', query_type: 'code_search' });
+      const second = await runQuery({ query_text: 'email', query_type: 'code_search' });
+
+      // Assert
+      expect(first[0].file_path).toBe('src/auth/jwt.ts');
+      expect(second[0].file_path).toBe('src/models/user.ts');
     });
 
     it('should clear cache', async () => {
+      // Act
+      await runQuery({ query_text: 'JWT tokens expire', query_type: 'documentation' });
+      const embedCalls = mockEmbed.mock.calls.length;
+      service.clearCache();
+      await runQuery({ query_text: 'JWT tokens expire', query_type: 'documentation' });
+
+      // Assert - query should execute again after cache clear
+      expect(mockEmbed.mock.calls.length).toBeGreaterThan(embedCalls);
+    });
+
+    it('should drop cached results when files are indexed', async () => {
       // Arrange
-      let queryCount = 0;
-
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'code_search' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        if (prompt.includes('code search engine')) {
-          queryCount++;
-          return JSON.stringify([{
-            file_path: 'file.ts',
-            content: 'code',
-            relevance: 0.8,
-            dependencies: [],
-            exports: []
-          }]);
-        }
-        return '{}';
-      });
+      await runQuery({ query_text: 'refresh token', query_type: 'code_search' });
 
       // Act
-      await service.query('test');
-      service.clearCache();
-      await service.query('test');
+      await service.indexCodebase([{ path: 'src/auth/refresh.ts', content: 'export function refreshToken() {}' }]);
+      const contexts = await runQuery({ query_text: 'refresh token', query_type: 'code_search' });
 
-      // Assert - query should execute twice after cache clear
-      expect(queryCount).toBe(2);
+      // Assert
+      expect(contexts[0].file_path).toBe('src/auth/refresh.ts');
     });
   });
 
   describe('indexCodebase', () => {
+    beforeEach(() => {
+      service = new AgenticRAGService();
+    });
+
     it('should index files', async () => {
       // Arrange
       const files = [
@@ -488,6 +510,17 @@ describe('AgenticRAGService', () => {
       expect(service.getIndexSize()).toBe(2);
     });
 
+    it('should replace files that are indexed again under an equivalent path', async () => {
+      // Act
+      await service.indexCodebase([{ path: './src/a.ts', content: 'export const a = 1;' }]);
+      await service.indexCodebase([{ path: 'src/a.ts', content: 'export const alpha = 1;' }]);
+      const contexts = await runQuery({ query_text: 'alpha', query_type: 'code_search' });
+
+      // Assert
+      expect(service.getIndexSize()).toBe(1);
+      expect(contexts.map(ctx => ctx.file_path)).toEqual(['src/a.ts']);
+    });
+
     it('should extract dependencies from indexed files', async () => {
       // Arrange
       const files = [
@@ -496,9 +529,10 @@ describe('AgenticRAGService', () => {
 
       // Act
       await service.indexCodebase(files);
+      const contexts = await runQuery({ query_text: 'lodash', query_type: 'code_search' });
 
       // Assert
-      expect(service.getIndexSize()).toBe(1);
+      expect(contexts[0].dependencies).toEqual(['lodash', './util']);
     });
 
     it('should extract exports from indexed files', async () => {
@@ -509,9 +543,10 @@ describe('AgenticRAGService', () => {
 
       // Act
       await service.indexCodebase(files);
+      const contexts = await runQuery({ query_text: 'foo', query_type: 'code_search' });
 
       // Assert
-      expect(service.getIndexSize()).toBe(1);
+      expect(contexts[0].exports).toEqual(['foo', 'bar', 'Baz']);
     });
 
     it('should truncate large file content', async () => {
@@ -532,7 +567,7 @@ describe('AgenticRAGService', () => {
   describe('getIndexSize', () => {
     it('should return 0 before indexing', () => {
       // Act
-      const size = service.getIndexSize();
+      const size = new AgenticRAGService().getIndexSize();
 
       // Assert
       expect(size).toBe(0);
@@ -550,7 +585,7 @@ describe('AgenticRAGService', () => {
       await service.indexCodebase(files);
 
       // Assert
-      expect(service.getIndexSize()).toBe(3);
+      expect(service.getIndexSize()).toBe(codebase.length + 3);
     });
   });
 
@@ -610,142 +645,10 @@ describe('AgenticRAGService', () => {
     });
   });
 
-  describe('Query Types', () => {
-    it('should handle code_search queries', async () => {
-      // Arrange
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'code_search' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        return JSON.stringify([{ file_path: 'f.ts', content: 'c', relevance: 0.9, dependencies: [], exports: [] }]);
-      });
-
-      // Act
-      const result = await service.query('test');
-
-      // Assert
-      expect(result.query_results.size).toBe(1);
-    });
-
-    it('should handle documentation queries', async () => {
-      // Arrange
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'documentation' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        return JSON.stringify([{ file_path: 'doc.md', content: 'docs', relevance: 0.8, dependencies: [], exports: [] }]);
-      });
-
-      // Act
-      const result = await service.query('test');
-
-      // Assert
-      expect(result.query_results.size).toBe(1);
-    });
-
-    it('should handle api_reference queries', async () => {
-      // Arrange
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'api_reference' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        return JSON.stringify([{ file_path: 'api.ts', content: 'api', relevance: 0.85, dependencies: [], exports: [] }]);
-      });
-
-      // Act
-      const result = await service.query('test');
-
-      // Assert
-      expect(result.query_results.size).toBe(1);
-    });
-
-    it('should handle pattern_search queries', async () => {
-      // Arrange
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'pattern_search' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        return JSON.stringify([{ file_path: 'pat.ts', content: 'pattern', relevance: 0.7, dependencies: [], exports: [] }]);
-      });
-
-      // Act
-      const result = await service.query('test');
-
-      // Assert
-      expect(result.query_results.size).toBe(1);
-    });
-
-    it('should handle dependency_graph queries', async () => {
-      // Arrange
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'dependency_graph' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        return JSON.stringify([{ file_path: 'dep.ts', content: 'deps', relevance: 0.75, dependencies: ['a', 'b'], exports: [] }]);
-      });
-
-      // Act
-      const result = await service.query('test');
-
-      // Assert
-      expect(result.query_results.size).toBe(1);
-    });
-  });
-
   describe('Confidence Calculation', () => {
     it('should return 0 for empty results', async () => {
       // Arrange
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'code_search' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        if (prompt.includes('code search engine')) {
-          return '[]'; // Empty results
-        }
-        return '{}';
-      });
+      mockPlan([{ query_id: 'q1', query_text: 'nothing matches this', query_type: 'code_search' }]);
 
       // Act
       const result = await service.query('test');
@@ -755,34 +658,14 @@ describe('AgenticRAGService', () => {
     });
 
     it('should factor in synthesis length', async () => {
-      // Arrange - results with good relevance but short synthesis
-      mockGenerateContent.mockImplementation(async (prompt: string) => {
-        if (prompt.includes('Agentic RAG planner')) {
-          return JSON.stringify({
-            plan_id: generateUniqueId(),
-            original_intent: 'test',
-            sub_queries: [
-              { query_id: 'q1', query_text: 'query', query_type: 'code_search' }
-            ],
-            synthesis_strategy: 'concatenate'
-          });
-        }
-        if (prompt.includes('code search engine')) {
-          return JSON.stringify([{
-            file_path: 'f.ts',
-            content: 'x', // Very short
-            relevance: 1.0,
-            dependencies: [],
-            exports: []
-          }]);
-        }
-        return '{}';
-      });
+      // Arrange - a good match but a short synthesis
+      mockPlan([{ query_id: 'q1', query_text: 'sign token', query_type: 'code_search', filters: { file_extensions: ['.py'] } }]);
 
       // Act
       const result = await service.query('test');
 
       // Assert - confidence should be penalized for short synthesis
+      expect(result.query_results.get('q1')![0].relevance).toBe(1);
       expect(result.confidence_score).toBeLessThan(1.0);
     });
   });
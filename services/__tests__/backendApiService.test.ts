@@ -0,0 +1,385 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  parseSseFrames,
+  streamShuntViaBackend,
+  queryTelemetryEvents,
+  getTelemetrySummary,
+  requestGovernanceDecisions,
+  recordUsageEvent,
+  generateDevelopmentPlanViaBackend,
+  performShuntBatchViaBackend,
+  createChatSession,
+  streamChatMessage,
+  deleteChatSession,
+  submitJob,
+  listJobs,
+  cancelJob,
+  watchJob,
+  type JobStreamEvent,
+} from '../backendApiService';
+import { ApiServiceError } from '../apiUtils';
+import { ShuntAction } from '../../types';
+
+const encoder = new TextEncoder();
+
+function sseResponse(chunks: string[], status = 200): Response {
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+  return new Response(body, { status, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('parseSseFrames', () => {
+  it('parses complete frames and keeps the partial remainder', () => {
+    const { frames, rest } = parseSseFrames('event: chunk\ndata: {"text":"a"}\n\nevent: chu');
+
+    expect(frames).toEqual([{ event: 'chunk', data: '{"text":"a"}' }]);
+    expect(rest).toBe('event: chu');
+  });
+
+  it('defaults the event name to message', () => {
+    const { frames } = parseSseFrames('data: {}\n\n');
+    expect(frames[0].event).toBe('message');
+  });
+
+  it('handles CRLF line endings', () => {
+    const { frames } = parseSseFrames('event: done\r\ndata: {"x":1}\r\n\r\n');
+    expect(frames).toEqual([{ event: 'done', data: '{"x":1}' }]);
+  });
+});
+
+describe('streamShuntViaBackend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards chunks and resolves with the done payload', async () => {
+    const tokenUsage = { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3, model: 'gemini-2.5-flash' };
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+      'event: chunk\ndata: {"text":"Hel"}\n\nevent: chu',
+      'nk\ndata: {"text":"lo"}\n\n',
+      `event: done\ndata: ${JSON.stringify({ resultText: 'Hello', tokenUsage, latencyMs: 42 })}\n\n`,
+    ])));
+    const onChunk = vi.fn();
+
+    const result = await streamShuntViaBackend('text', ShuntAction.SUMMARIZE, 'gemini-2.5-flash', onChunk);
+
+    expect(onChunk).toHaveBeenNthCalledWith(1, 'Hel', 'Hel');
+    expect(onChunk).toHaveBeenNthCalledWith(2, 'lo', 'Hello');
+    expect(result).toEqual({ resultText: 'Hello', tokenUsage, latencyMs: 42 });
+  });
+
+  it('sends routing options and reports the provider that served the stream', async () => {
+    const tokenUsage = { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3, model: 'llama2' };
+    const routing = { rule: null, fallbackFrom: ['gemini'] };
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      `event: done\ndata: ${JSON.stringify({ resultText: 'Hi', tokenUsage, latencyMs: 5, provider: 'ollama', routing })}\n\n`,
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await streamShuntViaBackend(
+      'text', ShuntAction.SUMMARIZE, 'gemini-2.5-flash', vi.fn(), undefined, undefined, false, undefined, { allowFallback: true, cache: 'off' }
+    );
+
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({ allowFallback: true, cache: 'off' });
+    expect(result.provider).toBe('ollama');
+    expect(result.routing).toEqual(routing);
+  });
+
+  it('resolves cache hits that arrive without chunks', async () => {
+    const cache = { hit: true, mode: 'exact', key: 'k', ageMs: 10, savedTokens: 30 };
+    const onChunk = vi.fn();
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+      `event: done\ndata: ${JSON.stringify({ resultText: 'Cached', tokenUsage: {}, latencyMs: 1, provider: 'gemini', cache })}\n\n`,
+    ])));
+
+    const result = await streamShuntViaBackend('text', ShuntAction.SUMMARIZE, 'gemini-2.5-flash', onChunk);
+
+    expect(onChunk).not.toHaveBeenCalled();
+    expect(result.resultText).toBe('Cached');
+    expect(result.cache).toEqual(cache);
+  });
+
+  it('throws the message from an error event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse([
+      'event: error\ndata: {"error":"Internal Server Error","message":"Failed to process shunt request"}\n\n',
+    ])));
+
+    await expect(streamShuntViaBackend('text', ShuntAction.SUMMARIZE, 'gemini-2.5-flash', vi.fn()))
+      .rejects.toThrow('Failed to process shunt request');
+  });
+
+  it('throws the JSON error returned before the stream opens', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ error: 'Too Many Requests', message: 'AI endpoint rate limit exceeded. Please slow down.' }),
+      { status: 429 }
+    )));
+
+    await expect(streamShuntViaBackend('text', ShuntAction.SUMMARIZE, 'gemini-2.5-flash', vi.fn()))
+      .rejects.toThrow('rate limit exceeded');
+  });
+
+  it('throws when the stream ends without a done event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(sseResponse(['event: chunk\ndata: {"text":"a"}\n\n'])));
+
+    await expect(streamShuntViaBackend('text', ShuntAction.SUMMARIZE, 'gemini-2.5-flash', vi.fn()))
+      .rejects.toThrow('ended before completion');
+  });
+});
+
+describe('performShuntBatchViaBackend', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts every item with the shared options and returns per-item results', async () => {
+    const batch = {
+      results: [
+        { id: 'a.md', resultText: 'Fixed', tokenUsage: { total_tokens: 3 }, provider: 'gemini', cache: { hit: false } },
+        { id: 'b.md', error: 'All model providers failed (gemini)' },
+      ],
+      tokenUsage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3 },
+      summary: { total: 2, succeeded: 1, failed: 1, cacheHits: 0 },
+      latencyMs: 10,
+    };
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(batch)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await performShuntBatchViaBackend(
+      [{ id: 'a.md', text: 'one' }, { id: 'b.md', text: 'two' }],
+      ShuntAction.PROOFREAD,
+      'gemini-2.5-flash',
+      undefined,
+      undefined,
+      false,
+      { concurrency: 2, cache: 'off' }
+    );
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/gemini\/shunt\/batch$/);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toMatchObject({
+      items: [{ id: 'a.md', text: 'one' }, { id: 'b.md', text: 'two' }],
+      action: 'Proofread & Fix',
+      concurrency: 2,
+      cache: 'off',
+    });
+    expect(result).toEqual(batch);
+  });
+});
+
+describe('telemetry queries', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends only the set filters as query parameters', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ events: [{ id: 'e1' }], count: 1 })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const events = await queryTelemetryEvents({ sessionID: 's1', tab: 'Shunt', outcome: undefined, limit: 20 });
+
+    const url = new URL(fetchMock.mock.calls[0][0]);
+    expect(url.pathname).toBe('/api/telemetry/events');
+    expect(Object.fromEntries(url.searchParams)).toEqual({ sessionID: 's1', tab: 'Shunt', limit: '20' });
+    expect(events).toEqual([{ id: 'e1' }]);
+  });
+
+  it('returns the summary body as-is', async () => {
+    const summary = { totalEvents: 2, sessions: 1, byEventType: {}, byOutcome: {}, byTab: {}, averageLatencyMs: null, totalTokens: 0, firstEventAt: null, lastEventAt: null };
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(summary)));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(getTelemetrySummary()).resolves.toEqual(summary);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/telemetry\/summary$/);
+  });
+});
+
+describe('governance decisions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts events with the client state and returns the directives', async () => {
+    const directives = [{ id: 'd1', type: 'SUGGESTION', payload: { message: 'Need help?' }, creationTimestamp: '2026-01-01T00:00:00.000Z' }];
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ directives }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const event = { id: 'e1', timestamp: '2026-01-01T00:00:00.000Z', eventType: 'click', pagePath: '/', sessionId: 's1', sequenceNumber: 1 };
+
+    const result = await requestGovernanceDecisions([event], { intent: 'UNKNOWN', confidence: 0 });
+
+    expect(result).toEqual({ directives });
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/governance\/decisions$/);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ events: [event], clientState: { intent: 'UNKNOWN', confidence: 0 } });
+  });
+});
+
+describe('usage metering', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('posts metered actions and returns the updated summary', async () => {
+    const summary = { tier: 'Free', usage: { deployments: 1 } };
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify(summary), { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(recordUsageEvent('deployments')).resolves.toEqual(summary);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/usage\/events$/);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ feature: 'deployments' });
+  });
+
+  it('requests development plans from the metered plan route', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ resultText: '{}', tokenUsage: {} })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await generateDevelopmentPlanViaBackend('Add dark mode', '# Context');
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/gemini\/development-plan$/);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ goal: 'Add dark mode', context: '# Context' });
+  });
+
+  it('surfaces the limit message when the plan is used up', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ error: 'Usage Limit Reached', message: 'You have used all 1 deployments' }),
+      { status: 402 }
+    )));
+
+    await expect(recordUsageEvent('deployments')).rejects.toThrow('You have used all 1 deployments');
+  });
+});
+
+describe('chat sessions', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('creates a session seeded with earlier turns', async () => {
+    const session = { id: 's1', messages: [], contextStart: 0 };
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ session }), { status: 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await createChatSession({ modelName: 'gemini-2.5-pro', history: [{ role: 'user', text: 'Hi' }] });
+
+    expect(result).toEqual(session);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/gemini\/chat\/sessions$/);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ modelName: 'gemini-2.5-pro', history: [{ role: 'user', text: 'Hi' }] });
+  });
+
+  it('streams a reply and resolves with the reply message', async () => {
+    const reply = {
+      message: { id: 'm2', role: 'model', text: 'Hello', createdAt: '2026-01-01T00:00:00.000Z' },
+      tokenUsage: { prompt_tokens: 1, completion_tokens: 2, total_tokens: 3, model: 'gemini-2.5-flash' },
+      latencyMs: 12,
+      compaction: { summarized: 0, trimmed: 0 },
+      contextTokens: 4,
+    };
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      'event: chunk\ndata: {"text":"Hel"}\n\n',
+      'event: chunk\ndata: {"text":"lo"}\n\n',
+      `event: done\ndata: ${JSON.stringify(reply)}\n\n`,
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+    const onChunk = vi.fn();
+
+    const result = await streamChatMessage('s1', 'Hi', onChunk);
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/gemini\/chat\/sessions\/s1\/messages\/stream$/);
+    expect(onChunk).toHaveBeenLastCalledWith('lo', 'Hello');
+    expect(result).toEqual(reply);
+  });
+
+  it('reports the status of a missing session', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ error: 'Not Found', message: 'Chat session not found' }),
+      { status: 404 }
+    )));
+
+    const error = await deleteChatSession('gone').catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiServiceError);
+    expect(error).toMatchObject({ message: 'Chat session not found', status: 404 });
+  });
+});
+
+describe('background jobs', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  const job = {
+    id: 'j1',
+    type: 'plan',
+    priority: 'high',
+    title: 'Refactor auth',
+    status: 'pending',
+    progress: null,
+    logs: [],
+    result: null,
+    error: null,
+    hasArtifact: false,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    startedAt: null,
+    finishedAt: null,
+  };
+
+  it('submits a job with its type, input and priority', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ job }), { status: 202 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await submitJob('plan', { prompt: 'Refactor auth' }, 'high');
+
+    expect(result).toEqual(job);
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/jobs$/);
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ type: 'plan', input: { prompt: 'Refactor auth' }, priority: 'high' });
+  });
+
+  it('lists jobs with only the set filters', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(JSON.stringify({ jobs: [job] }), { status: 200 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await listJobs({ status: 'running' });
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/jobs\?status=running$/);
+  });
+
+  it('reports a conflict when cancelling a finished job', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(
+      JSON.stringify({ error: 'Conflict', message: 'Job has already finished (completed)' }),
+      { status: 409 }
+    )));
+
+    const error = await cancelJob('j1').catch((e: unknown) => e);
+
+    expect(error).toMatchObject({ status: 409, message: 'Job has already finished (completed)' });
+  });
+
+  it('forwards snapshot, log and status events until the stream closes', async () => {
+    const log = { timestamp: '2026-01-01T00:00:01.000Z', level: 'info', message: 'Worker picked up the job' };
+    const fetchMock = vi.fn().mockResolvedValue(sseResponse([
+      `event: snapshot\ndata: ${JSON.stringify({ job })}\n\n`,
+      `event: log\ndata: ${JSON.stringify({ log })}\n\n`,
+      `event: status\ndata: ${JSON.stringify({ job: { ...job, status: 'completed' } })}\n\n`,
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+    const events: JobStreamEvent[] = [];
+
+    await watchJob('j1', (event) => events.push(event));
+
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/jobs\/j1\/events$/);
+    expect(events.map((event) => event.type)).toEqual(['snapshot', 'log', 'status']);
+    expect(events[1]).toEqual({ type: 'log', log });
+    expect(events[2]).toMatchObject({ job: { status: 'completed' } });
+  });
+
+  it('resolves quietly when the watch is aborted', async () => {
+    const controller = new AbortController();
+    vi.stubGlobal('fetch', vi.fn().mockImplementation(() => {
+      controller.abort();
+      return Promise.reject(new DOMException('Aborted', 'AbortError'));
+    }));
+
+    await expect(watchJob('j1', vi.fn(), controller.signal)).resolves.toBeUndefined();
+  });
+});
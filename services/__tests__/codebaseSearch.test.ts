@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { searchCodebase, globToRegExp } from '../codebaseSearch';
+import { WorkspaceFileSystem } from '../workspaceFileSystem';
+import { MemoryWorkspaceStore } from '../workspaceStore';
+import { IntelligenceService, SearchResult } from '../intelligenceService';
+
+/**
+ * Tests for codebase search
+ *
+ * Tests cover:
+ * - Glob matching
+ * - Literal and regex line search
+ * - Result limits and context lines
+ * - Semantic search through the IntelligenceService
+ */
+
+const ROOT = '/project';
+
+const FILES = {
+  '/project/src/auth.js': 'const db = require("./db");\nfunction loginUser(email) {\n  return db.findUser(email);\n}\n',
+  '/project/src/utils/db.js': 'function findUser(query) {\n  return users.find(u => u.email === query);\n}\n',
+  '/project/docs/README.md': '# Login\nUsers log in with loginUser.\n',
+  '/project/.git/objects/abc': 'loginUser',
+};
+
+const createIntelligence = (results: SearchResult[] = []) => ({
+  indexDocuments: vi.fn().mockResolvedValue(undefined),
+  query: vi.fn().mockResolvedValue(results),
+}) as unknown as IntelligenceService;
+
+describe('globToRegExp', () => {
+  it('should match directories with ** and file names at any depth without a slash', () => {
+    expect(globToRegExp('src/**/*.js').test('src/auth.js')).toBe(true);
+    expect(globToRegExp('src/**/*.js').test('src/utils/db.js')).toBe(true);
+    expect(globToRegExp('src/*.js').test('src/utils/db.js')).toBe(false);
+    expect(globToRegExp('*.{md,txt}').test('docs/README.md')).toBe(true);
+    expect(globToRegExp('db.?s').test('src/utils/db.js')).toBe(true);
+  });
+});
+
+describe('searchCodebase', () => {
+  let fs: WorkspaceFileSystem;
+
+  beforeEach(() => {
+    fs = new WorkspaceFileSystem(new MemoryWorkspaceStore(), { seed: FILES });
+  });
+
+  it('should find literal text case-insensitively with line and column, skipping .git', async () => {
+    const result = await searchCodebase(fs, { query: 'LOGINUSER', mode: 'literal', root: ROOT });
+
+    expect(result.hits).toEqual([
+      { path: '/project/docs/README.md', line: 2, endLine: 2, column: 19, snippet: 'Users log in with loginUser.' },
+      { path: '/project/src/auth.js', line: 2, endLine: 2, column: 10, snippet: 'function loginUser(email) {' },
+    ]);
+    expect(result).toMatchObject({ filesSearched: 3, truncated: false });
+  });
+
+  it('should treat regex metacharacters literally in literal mode', async () => {
+    const literal = await searchCodebase(fs, { query: 'find(', mode: 'literal', root: ROOT });
+
+    expect(literal.hits.map(hit => hit.path)).toEqual(['/project/src/utils/db.js']);
+    await expect(searchCodebase(fs, { query: 'find(', mode: 'regex', root: ROOT })).rejects.toThrow('Invalid regular expression');
+  });
+
+  it('should filter by include and exclude globs and respect case sensitivity', async () => {
+    const result = await searchCodebase(fs, {
+      query: 'function \\w+User',
+      mode: 'regex',
+      root: ROOT,
+      include: ['src/**'],
+      exclude: ['db.js'],
+      caseSensitive: true,
+    });
+
+    expect(result.hits.map(hit => `${hit.path}:${hit.line}`)).toEqual(['/project/src/auth.js:2']);
+  });
+
+  it('should stop at maxResults and include context lines', async () => {
+    const result = await searchCodebase(fs, { query: 'return', mode: 'literal', root: `${ROOT}/src`, maxResults: 1, contextLines: 1 });
+
+    expect(result.truncated).toBe(true);
+    expect(result.hits).toHaveLength(1);
+    expect(result.hits[0].snippet).toBe('function loginUser(email) {\n  return db.findUser(email);\n}');
+  });
+
+  it('should index the selected files and rank semantic hits from the intelligence service', async () => {
+    const intelligence = createIntelligence([
+      { documentId: '/project/src/auth.js', filePath: '/project/src/auth.js', content: '', relevanceScore: 0.9, snippet: 'function loginUser', startLine: 2, endLine: 4, symbol: 'function loginUser' },
+      { documentId: '/elsewhere/notes.md', filePath: '/elsewhere/notes.md', content: '', relevanceScore: 0.8, snippet: 'notes', startLine: 1, endLine: 1 },
+    ]);
+
+    const result = await searchCodebase(fs, { query: 'user authentication', mode: 'semantic', root: ROOT, include: ['*.js'] }, intelligence);
+
+    expect(vi.mocked(intelligence.indexDocuments).mock.calls[0][0].map(document => document.id).sort()).toEqual([
+      '/project/src/auth.js', '/project/src/utils/db.js',
+    ]);
+    expect(result.hits).toEqual([
+      { path: '/project/src/auth.js', line: 2, endLine: 4, snippet: 'function loginUser', score: 0.9, symbol: 'function loginUser' },
+    ]);
+  });
+
+  it('should reject a root that is not a directory', async () => {
+    await expect(searchCodebase(fs, { query: 'x', mode: 'literal', root: '/project/src/auth.js' })).rejects.toThrow('Not a directory');
+  });
+});
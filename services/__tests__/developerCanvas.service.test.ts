@@ -0,0 +1,242 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CANVAS_CONTENT_REF,
+  CanvasGraphError,
+  createCanvasNode,
+  toCanvasSnapshot,
+  parseCanvasSnapshot,
+  saveCanvasDraft,
+  loadCanvasDraft,
+  recordCanvasSnapshot,
+  loadLatestCanvasSnapshot,
+  orderCanvasNodes,
+  renderToolArgs,
+  runCanvasGraph,
+  type CanvasRunnerDeps,
+} from '../developerCanvas.service';
+import { VersionControlService } from '../versionControl.service';
+import type { TelemetryService } from '../telemetry.service';
+import { ShuntAction, CanvasGraphNode, CanvasGraphEdge, CanvasNodeData, CanvasNodeResult } from '../../types';
+
+// The runner only reaches Gemini and the tool registry through its default deps
+vi.mock('../geminiService', () => ({
+  performShunt: vi.fn(),
+  gradeOutput: vi.fn(),
+  synthesizeDocuments: vi.fn(),
+}));
+
+/**
+ * Tests for the Developers canvas graph
+ *
+ * Tests cover:
+ * - Ordering nodes and rejecting cycles
+ * - Running shunt, tool, condition and output nodes
+ * - Skipped branches, node errors and cancellation
+ * - Tool argument templates
+ * - Drafts and Chronicle snapshots
+ */
+
+function createDeps(overrides: Partial<CanvasRunnerDeps> = {}): CanvasRunnerDeps {
+  return {
+    runAction: vi.fn(async (text: string, action: ShuntAction) => `${action}(${text})`),
+    grade: vi.fn(async () => 5),
+    runTool: vi.fn(async (toolName: string, args: unknown) => `${toolName} ${JSON.stringify(args)}`),
+    ...overrides,
+  };
+}
+
+const node = (id: string, data: CanvasNodeData): CanvasGraphNode => ({ id, type: data.kind, position: { x: 0, y: 0 }, data });
+const input = (id: string, value: string) => node(id, { kind: 'input', label: id, value });
+const shunt = (id: string, action: ShuntAction) => node(id, { kind: 'shunt', label: action, action, model: 'gemini-2.5-flash' });
+const output = (id: string) => node(id, { kind: 'output', label: id });
+const edge = (source: string, target: string, sourceHandle: string | null = null): CanvasGraphEdge =>
+  ({ id: `${source}-${sourceHandle ?? 'out'}-${target}`, source, target, sourceHandle });
+
+const createVersionControl = () => new VersionControlService({
+  getGlobalContext: () => null,
+  recordEvent: vi.fn(),
+} as unknown as TelemetryService);
+
+describe('developerCanvas.service', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('orderCanvasNodes', () => {
+    it('should put every node after the nodes wired into it', () => {
+      const nodes = [output('out'), shunt('b', ShuntAction.AMPLIFY), shunt('a', ShuntAction.SUMMARIZE), input('in', 'x')];
+      const edges = [edge('a', 'b'), edge('b', 'out'), edge('in', 'a')];
+
+      expect(orderCanvasNodes(nodes, edges)).toEqual(['in', 'a', 'b', 'out']);
+    });
+
+    it('should reject cycles and edges to missing nodes', () => {
+      const nodes = [shunt('a', ShuntAction.SUMMARIZE), shunt('b', ShuntAction.AMPLIFY)];
+
+      expect(() => orderCanvasNodes(nodes, [edge('a', 'b'), edge('b', 'a')])).toThrow(CanvasGraphError);
+      expect(() => orderCanvasNodes(nodes, [edge('a', 'b'), edge('b', 'a')])).toThrow(/cycle through: Summarize, Amplify/);
+      expect(() => orderCanvasNodes(nodes, [edge('a', 'gone')])).toThrow(/not on the canvas/);
+    });
+  });
+
+  describe('renderToolArgs', () => {
+    it('should fill {{input}} with the input escaped for a JSON string', () => {
+      expect(renderToolArgs('{ "path": "{{input}}", "note": "{{ input }}" }', 'a "quoted"\nline')).toEqual({
+        path: 'a "quoted"\nline',
+        note: 'a "quoted"\nline',
+      });
+      expect(renderToolArgs('', 'ignored')).toEqual({});
+      expect(() => renderToolArgs('{ path: {{input}} }', 'x')).toThrow('not valid JSON');
+    });
+  });
+
+  describe('runCanvasGraph', () => {
+    it('should pass outputs along the edges and report every node', async () => {
+      // Arrange
+      const deps = createDeps();
+      const nodes = [
+        input('in', 'notes.md'),
+        node('read', { kind: 'tool', label: 'Read', toolName: 'read_file', args: '{ "path": "{{input}}" }' }),
+        shunt('sum', ShuntAction.SUMMARIZE),
+        output('out'),
+      ];
+      const edges = [edge('in', 'read'), edge('read', 'sum'), edge('sum', 'out')];
+      const reported: CanvasNodeResult[] = [];
+
+      // Act
+      const run = await runCanvasGraph(nodes, edges, { deps, onNodeResult: result => reported.push(result) });
+
+      // Assert
+      expect(run.status).toBe('success');
+      expect(deps.runTool).toHaveBeenCalledWith('read_file', { path: 'notes.md' }, undefined);
+      expect(run.results.sum).toMatchObject({ status: 'success', input: 'read_file {"path":"notes.md"}' });
+      expect(run.outputs).toEqual([{ nodeId: 'out', label: 'out', output: 'Summarize(read_file {"path":"notes.md"})' }]);
+      expect(reported.map(result => `${result.nodeId}:${result.status}`)).toEqual([
+        'in:running', 'in:success', 'read:running', 'read:success', 'sum:running', 'sum:success', 'out:running', 'out:success',
+      ]);
+    });
+
+    it('should join several inputs and skip the branch a condition did not take', async () => {
+      // Arrange
+      const nodes = [
+        input('a', 'first'),
+        input('b', 'second TODO'),
+        node('check', { kind: 'condition', label: 'Has TODO', condition: { kind: 'contains', value: 'todo' } }),
+        shunt('fix', ShuntAction.MAKE_ACTIONABLE),
+        output('done'),
+        output('todo'),
+      ];
+      const edges = [edge('a', 'check'), edge('b', 'check'), edge('check', 'done', 'false'), edge('check', 'fix', 'true'), edge('fix', 'todo')];
+
+      // Act
+      const run = await runCanvasGraph(nodes, edges, { deps: createDeps() });
+
+      // Assert
+      expect(run.results.check).toMatchObject({ status: 'success', input: 'first\n\nsecond TODO', branch: 'true' });
+      expect(run.results.done.status).toBe('skipped');
+      expect(run.outputs).toEqual([{ nodeId: 'todo', label: 'todo', output: 'Make Actionable(first\n\nsecond TODO)' }]);
+    });
+
+    it('should grade score conditions against the graph input', async () => {
+      const deps = createDeps({ grade: vi.fn(async () => 2) });
+      const nodes = [
+        input('in', 'prompt'),
+        shunt('amp', ShuntAction.AMPLIFY),
+        node('good', { kind: 'condition', label: 'Good?', condition: { kind: 'score', operator: 'gte', value: 5 } }),
+      ];
+
+      const run = await runCanvasGraph(nodes, [edge('in', 'amp'), edge('amp', 'good')], { deps });
+
+      expect(deps.grade).toHaveBeenCalledWith('Amplify(prompt)', 'prompt');
+      expect(run.results.good).toMatchObject({ branch: 'false', score: 2 });
+    });
+
+    it('should record a failed node and skip what depends only on it', async () => {
+      // Arrange
+      const deps = createDeps({
+        runAction: vi.fn(async (text: string, action: ShuntAction) => {
+          if (action === ShuntAction.AMPLIFY) throw new Error('Model unavailable');
+          return `${action}(${text})`;
+        }),
+      });
+      const nodes = [input('in', 'x'), shunt('amp', ShuntAction.AMPLIFY), shunt('sum', ShuntAction.SUMMARIZE), output('a'), output('b')];
+      const edges = [edge('in', 'amp'), edge('amp', 'a'), edge('in', 'sum'), edge('sum', 'b')];
+
+      // Act
+      const run = await runCanvasGraph(nodes, edges, { deps });
+
+      // Assert
+      expect(run.status).toBe('error');
+      expect(run.results.amp).toMatchObject({ status: 'error', error: 'Model unavailable' });
+      expect(run.results.a.status).toBe('skipped');
+      expect(run.outputs.map(out => out.output)).toEqual(['Summarize(x)']);
+    });
+
+    it('should stop before the next node once cancelled', async () => {
+      const controller = new AbortController();
+      const deps = createDeps({
+        runAction: vi.fn(async (text: string) => {
+          controller.abort();
+          return text;
+        }),
+      });
+      const nodes = [input('in', 'x'), shunt('sum', ShuntAction.SUMMARIZE), output('out')];
+
+      const run = await runCanvasGraph(nodes, [edge('in', 'sum'), edge('sum', 'out')], { deps, signal: controller.signal });
+
+      expect(run.status).toBe('cancelled');
+      expect(run.results.sum.status).toBe('success');
+      expect(run.results.out).toBeUndefined();
+    });
+  });
+
+  describe('snapshots', () => {
+    it('should keep only the saved parts of nodes and edges', () => {
+      const shuntNode = { ...createCanvasNode('shunt', { x: 10, y: 20 }), selected: true, width: 224, dragging: false };
+      const snapshot = toCanvasSnapshot(
+        [shuntNode],
+        [{ ...edge(shuntNode.id, 'x'), animated: true, label: 'true' } as CanvasGraphEdge],
+        { x: 1, y: 2, zoom: 0.5 }
+      );
+
+      expect(snapshot.nodes).toEqual([{ id: shuntNode.id, type: 'shunt', position: { x: 10, y: 20 }, data: shuntNode.data }]);
+      expect(snapshot.edges).toEqual([{ id: `${shuntNode.id}-out-x`, source: shuntNode.id, target: 'x', sourceHandle: null }]);
+      expect(parseCanvasSnapshot(JSON.stringify(snapshot))).toEqual(snapshot);
+    });
+
+    it('should reject snapshots that are not canvases', () => {
+      expect(() => parseCanvasSnapshot('{')).toThrow('not valid JSON');
+      expect(() => parseCanvasSnapshot(JSON.stringify({ nodes: [node('a', { kind: 'output' } as CanvasNodeData)], edges: [], viewport: { x: 0, y: 0, zoom: 1 } })))
+        .toThrow(/Invalid canvas snapshot at nodes\.0\.data\.label/);
+    });
+
+    it('should keep a draft between visits', () => {
+      const snapshot = toCanvasSnapshot([input('in', 'draft text')], [], { x: 0, y: 0, zoom: 1 });
+
+      saveCanvasDraft(snapshot);
+
+      expect(loadCanvasDraft()).toEqual(snapshot);
+    });
+
+    it('should version snapshots in Chronicle with a diff against the previous one', async () => {
+      // Arrange
+      const versionControl = createVersionControl();
+      const first = toCanvasSnapshot([input('in', 'one')], [], { x: 0, y: 0, zoom: 1 });
+      const second = toCanvasSnapshot([input('in', 'two'), output('out')], [edge('in', 'out')], { x: 0, y: 0, zoom: 1 });
+
+      // Act
+      const savedFirst = await recordCanvasSnapshot(versionControl, first);
+      const savedAgain = await recordCanvasSnapshot(versionControl, first);
+      const savedSecond = await recordCanvasSnapshot(versionControl, second, 'Added an output');
+
+      // Assert
+      expect([savedFirst, savedAgain, savedSecond]).toEqual([true, false, true]);
+      const versions = versionControl.getVersions(CANVAS_CONTENT_REF);
+      expect(versions.map(version => version.summary)).toEqual(['Added an output', 'Canvas snapshot (1 nodes, 0 edges)']);
+      expect(versions[0]).toMatchObject({ contentType: 'developer_canvas_snapshot', metadata: { nodeCount: 2, edgeCount: 1 } });
+      expect(versions[0].diff).toContain('-        "value": "one"');
+      expect(versions[0].diff).toContain('+        "value": "two"');
+      expect(loadLatestCanvasSnapshot(versionControl)).toEqual(second);
+    });
+  });
+});
@@ -0,0 +1,331 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createEvolvePipeline,
+  loadEvolvePipelines,
+  saveEvolvePipeline,
+  deleteEvolvePipeline,
+  exportEvolvePipeline,
+  importEvolvePipeline,
+  runEvolvePipeline,
+  recordEvolveRun,
+  type EvolveRunnerDeps,
+} from '../evolvePipeline.service';
+import { ShuntAction, EvolveStep } from '../../types';
+import type { VersionControlService } from '../versionControl.service';
+
+// The runner only reaches Gemini through its default deps
+vi.mock('../geminiService', () => ({
+  performShunt: vi.fn(),
+  gradeOutput: vi.fn(),
+  synthesizeDocuments: vi.fn(),
+}));
+
+/**
+ * Tests for Evolve pipelines
+ *
+ * Tests cover:
+ * - Saving, loading and deleting pipelines
+ * - Sharing pipelines as JSON
+ * - Per-step models, retries and skip-on-error
+ * - Branching on length and grade score
+ * - Fan-out merges
+ * - Cancellation and Chronicle recording
+ */
+
+function createDeps(overrides: Partial<EvolveRunnerDeps> = {}): EvolveRunnerDeps {
+  return {
+    runAction: vi.fn(async (text: string, action: ShuntAction) => `${action}(${text})`),
+    grade: vi.fn(async () => 5),
+    synthesize: vi.fn(async (combined: string) => `synthesized ${combined.length}`),
+    ...overrides,
+  };
+}
+
+const action = (id: string, shuntAction: ShuntAction, extra: Partial<EvolveStep> = {}): EvolveStep =>
+  ({ id, action: shuntAction, ...extra }) as EvolveStep;
+
+describe('evolvePipeline.service', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('persistence', () => {
+    it('should save, replace and delete pipelines', () => {
+      // Arrange
+      const pipeline = createEvolvePipeline('Polish', 'gemini-2.5-pro', [action('a', ShuntAction.SUMMARIZE)]);
+
+      // Act
+      saveEvolvePipeline(pipeline);
+      saveEvolvePipeline({ ...pipeline, name: 'Polish v2' });
+
+      // Assert
+      const saved = loadEvolvePipelines();
+      expect(saved).toHaveLength(1);
+      expect(saved[0]).toMatchObject({ id: pipeline.id, name: 'Polish v2', defaultModel: 'gemini-2.5-pro' });
+
+      deleteEvolvePipeline(pipeline.id);
+      expect(loadEvolvePipelines()).toEqual([]);
+    });
+
+    it('should skip stored entries that are not valid pipelines', () => {
+      // Arrange
+      const pipeline = createEvolvePipeline('Valid');
+      localStorage.setItem('aether-evolve-pipelines', JSON.stringify([pipeline, { id: 'broken', steps: 'nope' }]));
+
+      // Act
+      const loaded = loadEvolvePipelines();
+
+      // Assert
+      expect(loaded.map(p => p.id)).toEqual([pipeline.id]);
+    });
+  });
+
+  describe('sharing', () => {
+    it('should round-trip a pipeline through export and import as a new pipeline', () => {
+      // Arrange
+      const steps: EvolveStep[] = [
+        action('a', ShuntAction.SUMMARIZE, { retries: 2, onError: 'skip' }),
+        {
+          id: 'b',
+          type: 'branch',
+          condition: { kind: 'score', operator: 'gte', value: 7 },
+          then: [],
+          otherwise: [{ id: 'c', type: 'fanout', actions: [ShuntAction.AMPLIFY, ShuntAction.MAKE_ACTIONABLE], merge: 'best_score' }],
+        },
+      ];
+      const pipeline = createEvolvePipeline('Shared', 'gemini-2.5-pro', steps);
+
+      // Act
+      const imported = importEvolvePipeline(exportEvolvePipeline(pipeline));
+
+      // Assert
+      expect(imported.id).not.toBe(pipeline.id);
+      expect(imported).toMatchObject({ name: 'Shared', defaultModel: 'gemini-2.5-pro', steps });
+    });
+
+    it('should reject JSON that is not a pipeline', () => {
+      expect(() => importEvolvePipeline('{not json')).toThrow('not valid JSON');
+      expect(() => importEvolvePipeline(JSON.stringify({ format: 'something-else' }))).toThrow('Invalid pipeline at format');
+    });
+
+    it('should reject unknown actions', () => {
+      // Arrange
+      const json = exportEvolvePipeline(createEvolvePipeline('Bad', undefined, [action('a', 'Not an action' as ShuntAction)]));
+
+      // Act & Assert
+      expect(() => importEvolvePipeline(json)).toThrow('Invalid pipeline at pipeline.steps.0');
+    });
+  });
+
+  describe('runEvolvePipeline', () => {
+    it('should run steps in order with per-step models', async () => {
+      // Arrange
+      const deps = createDeps();
+      const pipeline = createEvolvePipeline('Chain', 'gemini-2.5-flash', [
+        action('a', ShuntAction.SUMMARIZE),
+        action('b', ShuntAction.AMPLIFY, { model: 'gemini-2.5-pro' }),
+      ]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps });
+
+      // Assert
+      expect(run.status).toBe('success');
+      expect(run.output).toBe(`${ShuntAction.AMPLIFY}(${ShuntAction.SUMMARIZE}(text))`);
+      expect(deps.runAction).toHaveBeenNthCalledWith(1, 'text', ShuntAction.SUMMARIZE, 'gemini-2.5-flash');
+      expect(deps.runAction).toHaveBeenNthCalledWith(2, expect.any(String), ShuntAction.AMPLIFY, 'gemini-2.5-pro');
+    });
+
+    it('should retry a failing step', async () => {
+      // Arrange
+      const runAction = vi.fn()
+        .mockRejectedValueOnce(new Error('flaky'))
+        .mockResolvedValueOnce('recovered');
+      const pipeline = createEvolvePipeline('Retry', undefined, [action('a', ShuntAction.SUMMARIZE, { retries: 1 })]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps: createDeps({ runAction }) });
+
+      // Assert
+      expect(run.status).toBe('success');
+      expect(run.results[0]).toMatchObject({ status: 'success', attempts: 2, output: 'recovered' });
+    });
+
+    it('should pass the text on when a skip-on-error step fails', async () => {
+      // Arrange
+      const runAction = vi.fn(async (text: string, shuntAction: ShuntAction) => {
+        if (shuntAction === ShuntAction.SUMMARIZE) throw new Error('down');
+        return `${shuntAction}(${text})`;
+      });
+      const pipeline = createEvolvePipeline('Skip', undefined, [
+        action('a', ShuntAction.SUMMARIZE, { onError: 'skip' }),
+        action('b', ShuntAction.AMPLIFY),
+      ]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps: createDeps({ runAction }) });
+
+      // Assert
+      expect(run.status).toBe('success');
+      expect(run.results[0]).toMatchObject({ status: 'skipped', error: 'down' });
+      expect(run.output).toBe(`${ShuntAction.AMPLIFY}(text)`);
+    });
+
+    it('should stop at a failing step and keep the last successful output', async () => {
+      // Arrange
+      const runAction = vi.fn()
+        .mockResolvedValueOnce('first')
+        .mockRejectedValueOnce(new Error('down'));
+      const pipeline = createEvolvePipeline('Stop', undefined, [
+        action('a', ShuntAction.SUMMARIZE),
+        action('b', ShuntAction.AMPLIFY),
+        action('c', ShuntAction.MAKE_ACTIONABLE),
+      ]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps: createDeps({ runAction }) });
+
+      // Assert
+      expect(run.status).toBe('error');
+      expect(run.output).toBe('first');
+      expect(run.results.map(r => r.status)).toEqual(['success', 'error']);
+      expect(runAction).toHaveBeenCalledTimes(2);
+    });
+
+    it('should branch on output length', async () => {
+      // Arrange
+      const deps = createDeps();
+      const pipeline = createEvolvePipeline('Length', undefined, [{
+        id: 'b',
+        type: 'branch',
+        condition: { kind: 'length', operator: 'gt', value: 10 },
+        then: [action('long', ShuntAction.SUMMARIZE)],
+        otherwise: [action('short', ShuntAction.AMPLIFY)],
+      }]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'short', { deps });
+
+      // Assert
+      expect(run.output).toBe(`${ShuntAction.AMPLIFY}(short)`);
+      expect(run.results[0]).toMatchObject({ kind: 'branch', depth: 0, label: 'If length > 10 → otherwise' });
+      expect(run.results[1]).toMatchObject({ stepId: 'short', depth: 1 });
+    });
+
+    it('should branch on grade score', async () => {
+      // Arrange
+      const deps = createDeps({ grade: vi.fn(async () => 8) });
+      const pipeline = createEvolvePipeline('Score', undefined, [{
+        id: 'b',
+        type: 'branch',
+        condition: { kind: 'score', operator: 'gte', value: 7 },
+        then: [],
+        otherwise: [action('improve', ShuntAction.AMPLIFY)],
+      }]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'good enough', { deps });
+
+      // Assert
+      expect(deps.grade).toHaveBeenCalledWith('good enough', 'good enough');
+      expect(run.results[0]).toMatchObject({ score: 8 });
+      expect(run.output).toBe('good enough');
+      expect(deps.runAction).not.toHaveBeenCalled();
+    });
+
+    it('should concatenate fan-out outputs and record each action under the fan-out', async () => {
+      // Arrange
+      const pipeline = createEvolvePipeline('Fan', undefined, [
+        { id: 'f', type: 'fanout', actions: [ShuntAction.SUMMARIZE, ShuntAction.AMPLIFY], merge: 'concatenate' },
+      ]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps: createDeps() });
+
+      // Assert
+      expect(run.output).toBe(
+        `## ${ShuntAction.SUMMARIZE}\n\n${ShuntAction.SUMMARIZE}(text)\n\n## ${ShuntAction.AMPLIFY}\n\n${ShuntAction.AMPLIFY}(text)`
+      );
+      expect(run.results.map(r => [r.stepId, r.depth])).toEqual([['f', 0], ['f:0', 1], ['f:1', 1]]);
+    });
+
+    it('should synthesize fan-out outputs', async () => {
+      // Arrange
+      const deps = createDeps();
+      const pipeline = createEvolvePipeline('Fan', 'gemini-2.5-pro', [
+        { id: 'f', type: 'fanout', actions: [ShuntAction.SUMMARIZE, ShuntAction.AMPLIFY], merge: 'synthesize' },
+      ]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps });
+
+      // Assert
+      expect(deps.synthesize).toHaveBeenCalledWith(expect.stringContaining(`## ${ShuntAction.AMPLIFY}`), 'gemini-2.5-pro');
+      expect(run.output).toMatch(/^synthesized/);
+    });
+
+    it('should keep the best-scoring fan-out output and ignore failed actions', async () => {
+      // Arrange
+      const runAction = vi.fn(async (text: string, shuntAction: ShuntAction) => {
+        if (shuntAction === ShuntAction.MAKE_ACTIONABLE) throw new Error('down');
+        return `${shuntAction}(${text})`;
+      });
+      const grade = vi.fn(async (output: string) => (output.startsWith(ShuntAction.AMPLIFY) ? 9 : 3));
+      const pipeline = createEvolvePipeline('Best', undefined, [
+        { id: 'f', type: 'fanout', actions: [ShuntAction.SUMMARIZE, ShuntAction.AMPLIFY, ShuntAction.MAKE_ACTIONABLE], merge: 'best_score' },
+      ]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps: createDeps({ runAction, grade }) });
+
+      // Assert
+      expect(run.status).toBe('success');
+      expect(run.output).toBe(`${ShuntAction.AMPLIFY}(text)`);
+      expect(run.results[0]).toMatchObject({ status: 'success', score: 9 });
+      expect(run.results[3]).toMatchObject({ status: 'error', error: 'down' });
+    });
+
+    it('should stop before the next step when cancelled', async () => {
+      // Arrange
+      const controller = new AbortController();
+      const runAction = vi.fn(async (text: string) => {
+        controller.abort();
+        return `done(${text})`;
+      });
+      const pipeline = createEvolvePipeline('Cancel', undefined, [
+        action('a', ShuntAction.SUMMARIZE),
+        action('b', ShuntAction.AMPLIFY),
+      ]);
+
+      // Act
+      const run = await runEvolvePipeline(pipeline, 'text', { deps: createDeps({ runAction }), signal: controller.signal });
+
+      // Assert
+      expect(run.status).toBe('cancelled');
+      expect(run.output).toBe('done(text)');
+      expect(runAction).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('recordEvolveRun', () => {
+    it('should capture the run as a Chronicle version of its pipeline', async () => {
+      // Arrange
+      const captureVersion = vi.fn().mockResolvedValue(undefined);
+      const pipeline = createEvolvePipeline('Recorded', undefined, [action('a', ShuntAction.SUMMARIZE)]);
+      const run = await runEvolvePipeline(pipeline, 'text', { deps: createDeps() });
+
+      // Act
+      await recordEvolveRun({ captureVersion } as unknown as VersionControlService, run);
+
+      // Assert
+      expect(captureVersion).toHaveBeenCalledWith(
+        'evolve_pipeline_run',
+        `evolve_pipeline_${pipeline.id}`,
+        JSON.stringify(run, null, 2),
+        'ai_response',
+        'Evolve pipeline "Recorded" success (1 results)',
+        { runId: run.id, pipelineId: pipeline.id, status: 'success' }
+      );
+    });
+  });
+});
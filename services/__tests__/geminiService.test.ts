@@ -0,0 +1,68 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { startChat } from '../geminiService';
+
+/**
+ * Tests for geminiService chat sessions
+ *
+ * Tests cover:
+ * - Seeding a new backend session from local history
+ * - Keeping the seed within the backend's history limits
+ */
+
+const reply = {
+  message: { id: 'm1', role: 'model', text: 'Hello', createdAt: '2026-01-01T00:00:00.000Z' },
+  tokenUsage: { prompt_tokens: 1, completion_tokens: 1, total_tokens: 2, model: 'gemini-2.5-flash' },
+  latencyMs: 5,
+  compaction: { summarized: 0, trimmed: 0 },
+  contextTokens: 2,
+};
+
+function stubBackend() {
+  const fetchMock = vi.fn((url: string) => Promise.resolve(
+    url.endsWith('/messages')
+      ? new Response(JSON.stringify(reply))
+      : new Response(JSON.stringify({ session: { id: 's1', messages: [], contextStart: 0 } }), { status: 201 })
+  ));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+const turn = (role: string, text: string) => ({ role, parts: [{ text }] });
+
+describe('startChat', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should seed the session from history, starting at the first user turn', async () => {
+    // Arrange
+    const fetchMock = stubBackend();
+    const chat = startChat({ history: [turn('model', 'Hi, I am Mia'), turn('user', 'Hello'), turn('model', ' '), turn('model', 'Hi!')] });
+
+    // Act
+    await chat.sendMessage('How are you?');
+
+    // Assert
+    expect(JSON.parse(fetchMock.mock.calls[0][1]!.body as string).history).toEqual([
+      { role: 'user', text: 'Hello' },
+      { role: 'model', text: 'Hi!' },
+    ]);
+    expect(chat.sessionId).toBe('s1');
+  });
+
+  it('should keep the seed within the backend limits for long conversations', async () => {
+    // Arrange
+    const fetchMock = stubBackend();
+    const history = Array.from({ length: 301 }, (_, i) => turn(i % 2 === 0 ? 'user' : 'model', `turn ${i}`));
+    history[300] = turn('user', 'x'.repeat(60000));
+
+    // Act
+    await startChat({ history }).sendMessage('Next');
+
+    // Assert
+    const seeded = JSON.parse(fetchMock.mock.calls[0][1]!.body as string).history as { role: string; text: string }[];
+    expect(seeded.length).toBeLessThanOrEqual(200);
+    expect(seeded[0]).toEqual({ role: 'user', text: 'turn 102' });
+    expect(seeded.at(-1)!.text).toHaveLength(50000);
+  });
+});
@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as transformers from '@xenova/transformers';
+import { IntelligenceService, CodebaseDocument, chunkDocument } from '../intelligenceService';
+import { MemoryVectorStore } from '../vectorIndexStore';
+
+// Mock the embedding model
+vi.mock('@xenova/transformers', () => ({
+  pipeline: vi.fn()
+}));
+
+// Mock the error logger
+vi.mock('../../utils/errorLogger', () => ({
+  logFrontendError: vi.fn(),
+  ErrorSeverity: {
+    Low: 'Low',
+    Medium: 'Medium',
+    High: 'High',
+    Critical: 'Critical',
+  },
+}));
+
+/**
+ * Tests for IntelligenceService
+ *
+ * Tests cover:
+ * - Declaration-level chunking with line ranges
+ * - Top-k chunk search
+ * - Incremental re-indexing by content hash
+ * - Deleting embeddings no document references
+ * - Restoring the persisted index
+ */
+
+// Bag-of-words vectors: texts sharing words are similar, like a real embedding model
+function fakeEmbedding(text: string): number[] {
+  const vector = new Array(256).fill(0);
+  for (const word of text.toLowerCase().match(/[a-z]+/g) ?? []) {
+    let hash = 0;
+    for (const char of word) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    vector[hash % 256] += 1;
+  }
+  return vector;
+}
+
+const lines = (count: number, prefix: string) =>
+  Array.from({ length: count }, (_, i) => `  const ${prefix}${i} = ${i};`);
+
+function codeDocument(id: string, filePath: string, content: string): CodebaseDocument {
+  return { id, filePath, content, type: 'code', language: 'typescript', lastModified: new Date('2026-01-01') };
+}
+
+const authSource = [
+  "import { db } from './db';",
+  '',
+  '/** Look up a user by email and compare password hashes */',
+  'export async function login(email: string, password: string) {',
+  '  const user = await db.users.findByEmail(email);',
+  '  if (!user) throw new Error("unknown user");',
+  '  const valid = await compareHash(password, user.passwordHash);',
+  '  if (!valid) throw new Error("invalid password");',
+  '  return user;',
+  '}',
+  '',
+  'export class SessionStore {',
+  '  private sessions = new Map<string, string>();',
+  '  create(userId: string) {',
+  '    const token = crypto.randomUUID();',
+  '    this.sessions.set(token, userId);',
+  '    return token;',
+  '  }',
+  '}',
+].join('\n');
+
+describe('chunkDocument', () => {
+  it('should split code at top-level declarations and keep leading comments', () => {
+    // Act
+    const chunks = chunkDocument({ filePath: 'src/auth.ts', content: authSource, type: 'code' });
+
+    // Assert
+    expect(chunks.map(({ startLine, endLine, symbol }) => ({ startLine, endLine, symbol }))).toEqual([
+      { startLine: 1, endLine: 2, symbol: undefined },
+      { startLine: 3, endLine: 11, symbol: 'function login' },
+      { startLine: 12, endLine: 19, symbol: 'class SessionStore' },
+    ]);
+    expect(chunks[1].content).toContain('/** Look up a user');
+  });
+
+  it('should split long declarations into overlapping windows', () => {
+    // Arrange
+    const content = ['export function huge() {', ...lines(148, 'step'), '}'].join('\n');
+
+    // Act
+    const chunks = chunkDocument({ filePath: 'src/huge.ts', content, type: 'code' });
+
+    // Assert
+    expect(chunks.map(chunk => [chunk.startLine, chunk.endLine])).toEqual([[1, 60], [51, 110], [101, 150]]);
+    expect(chunks.every(chunk => chunk.symbol === 'function huge')).toBe(true);
+  });
+
+  it('should merge consecutive short declarations', () => {
+    // Arrange
+    const content = ['export const A = 1;', 'export const B = 2;', 'export const C = 3;'].join('\n');
+
+    // Act
+    const chunks = chunkDocument({ filePath: 'src/constants.ts', content, type: 'code' });
+
+    // Assert
+    expect(chunks).toEqual([{ startLine: 1, endLine: 3, symbol: 'const A', content }]);
+  });
+
+  it('should split markdown at headings outside code fences', () => {
+    // Arrange
+    const prose = Array.from({ length: 5 }, (_, i) => `Paragraph ${i}.`);
+    const content = ['# Guide', ...prose, '## Setup', '```bash', '# not a heading', '```', ...prose, '## Usage', 'Run it'].join('\n');
+
+    // Act
+    const chunks = chunkDocument({ filePath: 'docs/guide.md', content, type: 'documentation' });
+
+    // Assert
+    expect(chunks.map(chunk => chunk.symbol)).toEqual(['# Guide', '## Setup', '## Usage']);
+    expect(chunks[1]).toMatchObject({ startLine: 7, endLine: 15 });
+  });
+});
+
+describe('IntelligenceService', () => {
+  let store: MemoryVectorStore;
+  let service: IntelligenceService;
+  const extractor = vi.fn(async (text: string) => ({ data: Float32Array.from(fakeEmbedding(text)) }));
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(transformers.pipeline).mockResolvedValue(extractor as unknown as Awaited<ReturnType<typeof transformers.pipeline>>);
+    store = new MemoryVectorStore();
+    service = new IntelligenceService(store);
+  });
+
+  describe('query', () => {
+    it('should return the top chunks with line ranges and symbols', async () => {
+      // Arrange
+      await service.indexDocuments([
+        codeDocument('auth', 'src/auth.ts', authSource),
+        codeDocument('math', 'src/math.ts', 'export function add(a: number, b: number) {\n  return a + b;\n}'),
+      ]);
+
+      // Act
+      const results = await service.query({ query: 'compare password hash for user email', topK: 2 });
+
+      // Assert
+      expect(results).toHaveLength(2);
+      expect(results[0]).toMatchObject({
+        documentId: 'auth',
+        filePath: 'src/auth.ts',
+        startLine: 3,
+        endLine: 11,
+        symbol: 'function login',
+      });
+      expect(results[0].content).toContain('compareHash');
+      expect(results[0].relevanceScore).toBeGreaterThan(results[1].relevanceScore);
+    });
+
+    it('should apply filters', async () => {
+      // Arrange
+      await service.indexDocuments([
+        codeDocument('auth', 'src/auth.ts', authSource),
+        { ...codeDocument('readme', 'README.md', '# Login\nUsers login with email and password'), type: 'documentation' },
+      ]);
+
+      // Act
+      const docs = await service.findDocumentation('login with email');
+
+      // Assert
+      expect(docs.map(result => result.filePath)).toEqual(['README.md']);
+    });
+
+    it('should return no results before indexing', async () => {
+      // Act & Assert
+      expect(await service.query({ query: 'anything' })).toEqual([]);
+    });
+  });
+
+  describe('incremental indexing', () => {
+    it('should not re-embed unchanged documents', async () => {
+      // Arrange
+      const document = codeDocument('auth', 'src/auth.ts', authSource);
+      await service.indexDocument(document);
+      const calls = extractor.mock.calls.length;
+
+      // Act
+      await service.indexDocument({ ...document, lastModified: new Date('2026-02-01') });
+
+      // Assert
+      expect(extractor.mock.calls.length).toBe(calls);
+    });
+
+    it('should only embed the chunks that changed', async () => {
+      // Arrange
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+      extractor.mockClear();
+
+      // Act - edit the class, leave the imports and login untouched
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource.replace('randomUUID', 'randomToken')));
+
+      // Assert
+      expect(extractor).toHaveBeenCalledTimes(1);
+      expect(extractor.mock.calls[0][0]).toContain('class SessionStore');
+      const results = await service.query({ query: 'class SessionStore create randomToken', topK: 1 });
+      expect(results[0].content).toContain('randomToken');
+    });
+
+    it('should remove deleted documents', async () => {
+      // Arrange
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+
+      // Act
+      await service.removeDocument('auth');
+
+      // Assert
+      expect(service.getIndexStats()).toEqual({ documentCount: 0, embeddingCount: 0, isIndexed: false });
+      expect(await store.loadDocuments()).toEqual([]);
+      expect(await store.getEmbeddingKeys()).toEqual([]);
+    });
+
+    it('should delete the embeddings of chunks an edit replaced', async () => {
+      // Arrange
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+      const before = await store.getEmbeddingKeys();
+
+      // Act
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource.replace('randomUUID', 'randomToken')));
+
+      // Assert - one chunk changed, so one embedding was replaced and the store did not grow
+      const after = await store.getEmbeddingKeys();
+      expect(after).toHaveLength(before.length);
+      expect(after.filter(key => !before.includes(key))).toHaveLength(1);
+    });
+
+    it('should keep embeddings shared with a document that is still indexed', async () => {
+      // Arrange - the same file under two ids embeds identical chunks
+      await service.indexDocuments([
+        codeDocument('auth', 'src/auth.ts', authSource),
+        codeDocument('auth-copy', 'src/auth.ts', authSource),
+      ]);
+
+      // Act
+      await service.removeDocument('auth');
+      extractor.mockClear();
+      const results = await new IntelligenceService(store).query({ query: 'session token', topK: 1 });
+
+      // Assert - the copy's chunks were restored from the store, not embedded again
+      expect(results[0].documentId).toBe('auth-copy');
+      expect(extractor).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('persistence', () => {
+    it('should restore the index from the store without re-embedding', async () => {
+      // Arrange
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+      extractor.mockClear();
+
+      // Act - a new service over the same store, as after a page reload
+      const reloaded = new IntelligenceService(store);
+      await reloaded.restore();
+      const results = await reloaded.query({ query: 'session token', topK: 1 });
+
+      // Assert - only the query itself is embedded
+      expect(reloaded.getIndexStats()).toEqual({ documentCount: 1, embeddingCount: 3, isIndexed: true });
+      expect(results[0].symbol).toBe('class SessionStore');
+      expect(extractor).toHaveBeenCalledTimes(1);
+    });
+
+    it('should sweep embeddings left behind by earlier sessions on restore', async () => {
+      // Arrange
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+      const live = await store.getEmbeddingKeys();
+      await store.putEmbeddings([{ key: 'Xenova/all-MiniLM-L6-v2:orphan', vector: [1, 0] }]);
+
+      // Act
+      await new IntelligenceService(store).restore();
+
+      // Assert
+      expect((await store.getEmbeddingKeys()).sort()).toEqual([...live].sort());
+    });
+
+    it('should clear the persisted index', async () => {
+      // Arrange
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+
+      // Act
+      await service.clearIndex();
+
+      // Assert
+      expect(await store.loadDocuments()).toEqual([]);
+      expect(await new IntelligenceService(store).query({ query: 'login' })).toEqual([]);
+    });
+
+    it('should keep working with the fallback embedding when the model cannot load', async () => {
+      // Arrange
+      vi.mocked(transformers.pipeline).mockRejectedValue(new Error('offline'));
+      service = new IntelligenceService(store);
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+
+      // Act
+      const results = await service.query({ query: 'class SessionStore', topK: 1 });
+      const embedding = await service.embed('text');
+
+      // Assert
+      expect(results).toHaveLength(1);
+      expect(embedding.model).toBe('hash-fallback');
+    });
+  });
+
+  describe('findRootCause', () => {
+    it('should rank the chunk containing a stack trace line first', async () => {
+      // Arrange
+      await service.indexDocument(codeDocument('auth', 'src/auth.ts', authSource));
+
+      // Act
+      const results = await service.findRootCause(
+        'TypeError: Cannot read properties of undefined (reading set)',
+        'TypeError: Cannot read properties of undefined\n    at SessionStore.create (http://localhost:5173/src/auth.ts:16:19)'
+      );
+
+      // Assert
+      expect(results[0]).toMatchObject({ filePath: 'src/auth.ts', startLine: 12, endLine: 19 });
+    });
+  });
+});
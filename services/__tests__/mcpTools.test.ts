@@ -0,0 +1,156 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { registerMcpTools, toToolInputSchema } from '../mcpTools';
+import { executeTool, toolRegistry, ExecutionContext } from '../toolApi';
+import { listMcpServers, listMcpTools, callMcpTool } from '../backendApiService';
+import { AgentName, FoundryAgent, ToolName } from '../../types';
+import { MCPServer } from '../../types/mcp';
+
+vi.mock('../backendApiService', () => ({
+  listMcpServers: vi.fn(),
+  listMcpTools: vi.fn(),
+  callMcpTool: vi.fn(),
+}));
+
+/**
+ * Tests for MCP server tools as agent tools
+ *
+ * Tests cover:
+ * - Converting MCP input schemas
+ * - Registering and removing tools
+ * - RBAC, validation and network policy for proxied calls
+ * - Tool errors reported by the server
+ */
+
+let agentCounter = 0;
+
+const agentContext = (name: AgentName, allowedTools: string[]): ExecutionContext => ({
+  agentId: `mcp-agent-${++agentCounter}`,
+  permissions: [],
+  agent: {
+    name,
+    status: 'Idle',
+    role: `${name} role`,
+    goal: 'Test',
+    backstory: 'Test',
+    allowedTools: allowedTools as ToolName[],
+  } as FoundryAgent,
+});
+
+const server = (id: string, transport: MCPServer['transport'] = 'stdio'): MCPServer => ({
+  id,
+  name: id,
+  transport,
+  connected: true,
+  serverInfo: null,
+  protocolVersion: '2025-06-18',
+  lastError: null,
+});
+
+const ADD_TOOL = {
+  name: 'add',
+  description: 'Add two numbers.',
+  inputSchema: { type: 'object', properties: { a: { type: 'number' }, b: { type: 'number' } }, required: ['a', 'b'] },
+};
+
+describe('toToolInputSchema', () => {
+  it('should keep the keywords the validator knows and drop the rest', () => {
+    expect(toToolInputSchema({
+      type: 'object',
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        note: { type: ['string', 'null'] },
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+      },
+      required: ['path'],
+      additionalProperties: false,
+    })).toEqual({
+      type: 'object',
+      properties: {
+        path: { type: 'string', minLength: 1 },
+        note: {},
+        tags: { type: 'array', items: { type: 'string', enum: ['a', 'b'] } },
+      },
+      required: ['path'],
+      additionalProperties: false,
+    });
+  });
+});
+
+describe('registerMcpTools', () => {
+  beforeEach(() => {
+    vi.mocked(listMcpServers).mockReset().mockResolvedValue([server('sample'), server('remote', 'http')]);
+    vi.mocked(listMcpTools).mockReset().mockImplementation(async serverId =>
+      serverId === 'sample' ? [ADD_TOOL] : [{ name: 'lookup', inputSchema: { type: 'object' } }]
+    );
+    vi.mocked(callMcpTool).mockReset();
+    toolRegistry.getToolNames().filter(name => name.startsWith('mcp.')).forEach(name => toolRegistry.unregister(name));
+  });
+
+  it('should register every server tool under its server ID', async () => {
+    const registration = await registerMcpTools();
+
+    expect(registration.tools).toEqual(['mcp.sample.add', 'mcp.remote.lookup']);
+    expect(registration.errors).toEqual({});
+    const tool = toolRegistry.getTool('mcp.sample.add')!;
+    expect(tool.getDescription()).toBe("Add two numbers. (MCP server 'sample')");
+    expect(tool.getRequiredPermissions()).toEqual(['mcp:call']);
+    expect(toolRegistry.getTool('mcp.remote.lookup')!.getRequiredPermissions()).toEqual(['mcp:call', 'network:access']);
+  });
+
+  it('should remove tools a server stopped offering but keep those of servers that failed to answer', async () => {
+    await registerMcpTools();
+    vi.mocked(listMcpTools).mockImplementation(async serverId => {
+      if (serverId === 'remote') throw new Error('MCP server is unreachable');
+      return [];
+    });
+
+    const registration = await registerMcpTools();
+
+    expect(registration.errors).toEqual({ remote: 'MCP server is unreachable' });
+    expect(toolRegistry.getTool('mcp.sample.add')).toBeUndefined();
+    expect(toolRegistry.getTool('mcp.remote.lookup')).toBeDefined();
+  });
+
+  it('should proxy calls for agents allowed to use the tool', async () => {
+    await registerMcpTools();
+    vi.mocked(callMcpTool).mockResolvedValue({ content: [{ type: 'text', text: '5' }], structuredContent: { sum: 5 } });
+
+    const denied = await executeTool('mcp.sample.add', { a: 2, b: 3 }, agentContext('Backend', ['read_file']));
+    const allowed = await executeTool('mcp.sample.add', { a: 2, b: 3 }, agentContext('Backend', ['mcp.sample.add']));
+
+    expect(denied.error).toMatchObject({ type: 'AUTHORIZATION' });
+    expect(allowed).toMatchObject({ success: true, data: { structuredContent: { sum: 5 } } });
+    expect(callMcpTool).toHaveBeenCalledTimes(1);
+    expect(callMcpTool).toHaveBeenCalledWith('sample', 'add', { a: 2, b: 3 }, expect.any(AbortSignal));
+  });
+
+  it('should validate arguments against the server schema before calling it', async () => {
+    await registerMcpTools();
+
+    const result = await executeTool('mcp.sample.add', { a: 'two', b: 3 }, agentContext('Backend', ['mcp.sample.add']));
+
+    expect(result.error).toMatchObject({ type: 'VALIDATION', message: "'args.a' must be a number, got string" });
+    expect(callMcpTool).not.toHaveBeenCalled();
+  });
+
+  it('should need network access for HTTP servers', async () => {
+    await registerMcpTools();
+    vi.mocked(callMcpTool).mockResolvedValue({ content: [] });
+
+    const denied = await executeTool('mcp.remote.lookup', {}, agentContext('Backend', ['mcp.remote.lookup']));
+    const allowed = await executeTool('mcp.remote.lookup', {}, agentContext('DevOps', ['mcp.remote.lookup']));
+
+    expect(denied.error!.message).toContain('needs network access');
+    expect(allowed.success).toBe(true);
+  });
+
+  it('should fail the call when the server reports a tool error', async () => {
+    await registerMcpTools();
+    vi.mocked(callMcpTool).mockResolvedValue({ content: [{ type: 'text', text: 'Cannot divide by zero' }], isError: true });
+
+    const result = await executeTool('mcp.sample.add', { a: 1, b: 0 }, agentContext('Backend', ['mcp.sample.add']));
+
+    expect(result).toMatchObject({ success: false, error: { type: 'EXECUTION', message: 'Cannot divide by zero' } });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { executeMultiAgentWorkflow, waitForWorkflow, retryWorkflow } from '../multiAgentContainerService';
+import { ShuntAction } from '../../types';
+
+function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function details(status: string, extra: Record<string, unknown> = {}) {
+  return {
+    workflow: { id: 'wf-1', status, finalOutput: null, agreement: null, validationPassed: null, error: null, ...extra },
+    steps: [{ id: 's1', stepNumber: 1, stage: 'delegation', status: 'completed', tokensUsed: 10 }],
+  };
+}
+
+describe('multiAgentContainerService', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('queues the workflow and polls until it completes', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(jsonResponse({ success: true, workflowId: 'wf-1', status: 'queued' }, 202))
+      .mockResolvedValueOnce(jsonResponse(details('in_progress')))
+      .mockResolvedValueOnce(jsonResponse(details('completed', { finalOutput: 'Done', agreement: true, validationPassed: true })));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await executeMultiAgentWorkflow('text', ShuntAction.AMPLIFY, undefined, { pollIntervalMs: 0 });
+
+    expect(result).toEqual({ workflowId: 'wf-1', finalOutput: 'Done', agreement: true, validationPassed: true, steps: 1 });
+    expect(fetchMock.mock.calls[0][0]).toMatch(/\/api\/workflow\/execute$/);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('rejects with the workflow error once it fails', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(details('failed', { error: 'Step 2 (processing) failed: 503' }))));
+
+    await expect(waitForWorkflow('wf-1', { pollIntervalMs: 0 })).rejects.toThrow('Step 2 (processing) failed: 503');
+  });
+
+  it('gives up after the timeout', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(jsonResponse(details('queued'))));
+
+    await expect(waitForWorkflow('wf-1', { pollIntervalMs: 10, timeoutMs: 0 })).rejects.toThrow('Timed out');
+  });
+
+  it('surfaces orchestrator errors from retry', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(
+      jsonResponse({ success: false, error: 'Workflow is still running; cancel it before retrying' }, 409)
+    ));
+
+    await expect(retryWorkflow('wf-1', 3)).rejects.toThrow('still running');
+  });
+});
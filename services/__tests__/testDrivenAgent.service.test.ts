@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { TestDrivenAgentService, tdaService } from '../testDrivenAgent.service';
 import * as geminiService from '../geminiService';
+import * as backendApiService from '../backendApiService';
 import {
   UserStoryMetaprompt,
   TDAPhase,
@@ -12,19 +13,39 @@ vi.mock('../geminiService', () => ({
   generateContent: vi.fn()
 }));
 
+// Mock the backend test sandbox
+vi.mock('../backendApiService', () => ({
+  runTestsViaBackend: vi.fn()
+}));
+
 /**
  * Tests for TestDrivenAgentService
  *
  * Tests cover:
  * - 5-phase workflow execution
  * - Error handling and recovery
- * - Self-healing iterations
+ * - Self-healing iterations driven by sandboxed test results
  * - Public API methods
  */
 
 describe('TestDrivenAgentService', () => {
   let service: TestDrivenAgentService;
   const mockGenerateContent = vi.mocked(geminiService.generateContent);
+  const mockRunTests = vi.mocked(backendApiService.runTestsViaBackend);
+
+  // Sandbox response with every test passing, or failing with the given message
+  const sandboxRun = (tests: Array<{ id: string }>, errorMessage?: string) => ({
+    results: tests.map(test => ({
+      id: test.id,
+      passed: !errorMessage,
+      durationMs: 50,
+      errorMessage,
+      stackTrace: errorMessage ? 'at tests/test-feature-implementation.test.ts:1:1' : undefined,
+      cases: [],
+      logs: []
+    })),
+    durationMs: 60
+  });
 
   // Helper to create a valid user story metaprompt
   const createValidMetaprompt = (): UserStoryMetaprompt => ({
@@ -83,14 +104,6 @@ describe('TestDrivenAgentService', () => {
   return { success: true };
 };`;
       }
-      if (prompt.includes('test execution simulator')) {
-        return JSON.stringify({
-          passed: true,
-          error_message: null,
-          stack_trace: null,
-          execution_time_ms: 50
-        });
-      }
       if (prompt.includes('expert debugging AI')) {
         return 'Root cause: Missing import statement';
       }
@@ -105,6 +118,7 @@ describe('TestDrivenAgentService', () => {
       }
       return '{}';
     });
+    mockRunTests.mockImplementation(async (tests) => sandboxRun(tests));
   });
 
   afterEach(() => {
@@ -260,9 +274,6 @@ describe('TestDrivenAgentService', () => {
         if (prompt.includes('Write minimal implementation')) {
           return 'export const test = () => true;';
         }
-        if (prompt.includes('test execution simulator')) {
-          return JSON.stringify({ passed: true, execution_time_ms: 10 });
-        }
         return '{}';
       });
 
@@ -313,7 +324,8 @@ describe('TestDrivenAgentService', () => {
     it('should perform self-healing iterations when tests fail', async () => {
       // Arrange
       const metaprompt = createValidMetaprompt();
-      let testExecutionCount = 0;
+      // First execution fails, subsequent passes
+      mockRunTests.mockImplementationOnce(async (tests) => sandboxRun(tests, 'Test failed'));
 
       mockGenerateContent.mockImplementation(async (prompt: string) => {
         if (prompt.includes('code search engine')) {
@@ -325,22 +337,6 @@ describe('TestDrivenAgentService', () => {
         if (prompt.includes('Write minimal implementation')) {
           return 'export const test = () => true;';
         }
-        if (prompt.includes('test execution simulator')) {
-          testExecutionCount++;
-          // First execution fails, subsequent passes
-          if (testExecutionCount === 1) {
-            return JSON.stringify({
-              passed: false,
-              error_message: 'Test failed',
-              stack_trace: 'at test.ts:1:1',
-              execution_time_ms: 50
-            });
-          }
-          return JSON.stringify({
-            passed: true,
-            execution_time_ms: 50
-          });
-        }
         if (prompt.includes('expert debugging AI')) {
           return 'Missing dependency';
         }
@@ -361,7 +357,15 @@ describe('TestDrivenAgentService', () => {
 
       // Assert
       expect(result.healing_iterations).toBeDefined();
-      expect(result.healing_iterations!.length).toBeGreaterThan(0);
+      expect(result.healing_iterations!.length).toBe(1);
+      expect(result.healing_iterations![0].failing_tests[0].error_message).toBe('Test failed');
+      // The code after the healing iteration is what runs the second time
+      expect(mockRunTests).toHaveBeenCalledTimes(2);
+      expect(mockRunTests).toHaveBeenLastCalledWith(
+        expect.any(Array),
+        result.generated_code!.map(file => ({ path: file.file_path, content: file.content }))
+      );
+      expect(result.generated_tests![0].status).toBe('passing');
     });
 
     it('should stop healing when all tests pass', async () => {
@@ -379,6 +383,7 @@ describe('TestDrivenAgentService', () => {
     it('should set partial status when tests still fail after max iterations', async () => {
       // Arrange
       const metaprompt = createValidMetaprompt();
+      mockRunTests.mockImplementation(async (tests) => sandboxRun(tests, 'Persistent failure'));
       mockGenerateContent.mockImplementation(async (prompt: string) => {
         if (prompt.includes('code search engine')) {
           return '[]';
@@ -389,15 +394,6 @@ describe('TestDrivenAgentService', () => {
         if (prompt.includes('Write minimal implementation')) {
           return 'export const test = () => true;';
         }
-        if (prompt.includes('test execution simulator')) {
-          // Always fail
-          return JSON.stringify({
-            passed: false,
-            error_message: 'Persistent failure',
-            stack_trace: 'at test.ts:1:1',
-            execution_time_ms: 50
-          });
-        }
         if (prompt.includes('expert debugging AI')) {
           return 'Unknown error';
         }
@@ -422,6 +418,53 @@ describe('TestDrivenAgentService', () => {
       expect(result.final_status).toBe('success');
       expect(result.healing_iterations!.length).toBe(5); // Max iterations
     });
+
+    it('should send the generated tests and code to the sandbox', async () => {
+      // Arrange
+      const metaprompt = createValidMetaprompt();
+
+      // Act
+      const result = await service.executeWorkflow(metaprompt);
+
+      // Assert
+      const test = result.generated_tests![0];
+      expect(mockRunTests).toHaveBeenCalledWith(
+        [{ id: test.id, path: 'tests/test-feature-implementation.test.ts', content: test.test_code }],
+        [{ path: 'src/test-feature-implementation.ts', content: result.generated_code![0].content }]
+      );
+      expect(result.test_results![0]).toEqual({
+        test_id: test.id,
+        passed: true,
+        error_message: undefined,
+        stack_trace: undefined,
+        execution_time_ms: 50
+      });
+    });
+
+    it('should tell the test generator where the implementation lives', async () => {
+      // Arrange
+      const metaprompt = createValidMetaprompt();
+
+      // Act
+      await service.executeWorkflow(metaprompt);
+
+      // Assert
+      const testPrompt = mockGenerateContent.mock.calls.find(([prompt]) => prompt.includes('Generate a comprehensive test'))![0];
+      expect(testPrompt).toContain("import the implementation from '../src/test-feature-implementation'");
+    });
+
+    it('should fail the workflow when the sandbox is unavailable', async () => {
+      // Arrange
+      const metaprompt = createValidMetaprompt();
+      mockRunTests.mockRejectedValue(new Error('Backend request failed'));
+
+      // Act
+      const result = await service.executeWorkflow(metaprompt);
+
+      // Assert
+      expect(result.final_status).toBe('failed');
+      expect(result.healing_iterations).toBeUndefined();
+    });
   });
 
   describe('getWorkflowState', () => {
@@ -508,9 +551,6 @@ describe('TestDrivenAgentService', () => {
 import 'react-dom';
 export const Component = () => {};`;
         }
-        if (prompt.includes('test execution simulator')) {
-          return JSON.stringify({ passed: true, execution_time_ms: 10 });
-        }
         return '{}';
       });
 
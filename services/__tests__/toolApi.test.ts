@@ -0,0 +1,214 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { executeTool, toolRegistry, ExecutionContext } from '../toolApi';
+import { toolAuditLog, toLogEntry } from '../toolAuditLog';
+import { validateToolInput, SlidingWindowRateLimiter } from '../toolPolicy';
+import { FoundryAgent, AgentName, ToolName } from '../../types';
+
+/**
+ * Tests for executeTool policy enforcement
+ *
+ * Tests cover:
+ * - RBAC and permission checks
+ * - Input validation against tool schemas
+ * - Sandbox levels
+ * - Sliding-window rate limits
+ * - Timeouts and cancellation
+ * - The audit log
+ * - search_codebase
+ */
+
+let agentCounter = 0;
+
+const agentContext = (name: AgentName, allowedTools: string[]): ExecutionContext => ({
+  agentId: `test-agent-${++agentCounter}`,
+  permissions: [],
+  agent: {
+    name,
+    status: 'Idle',
+    role: `${name} role`,
+    goal: 'Test',
+    backstory: 'Test',
+    allowedTools: allowedTools as ToolName[],
+  } as FoundryAgent,
+});
+
+let observedSignal: AbortSignal | undefined;
+
+toolRegistry.register({
+  getName: () => 'test.instant',
+  getDescription: () => 'Returns immediately.',
+  getInputSchema: () => ({ type: 'object' }),
+  getRequiredPermissions: () => [],
+  execute: async () => 'done',
+});
+
+toolRegistry.register({
+  getName: () => 'test.hang',
+  getDescription: () => 'Never finishes on its own.',
+  getInputSchema: () => ({ type: 'object' }),
+  getRequiredPermissions: () => [],
+  execute: (_args, context) => {
+    observedSignal = context.signal;
+    return new Promise(() => {});
+  },
+});
+
+toolRegistry.register({
+  getName: () => 'test.fetch',
+  getDescription: () => 'Pretends to call the network.',
+  getInputSchema: () => ({ type: 'object' }),
+  getRequiredPermissions: () => ['network:access'],
+  execute: async () => 'fetched',
+});
+
+describe('validateToolInput', () => {
+  it('should report type, required and nested item errors', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: { paths: { type: 'array' as const, items: { type: 'string' as const } }, limit: { type: 'integer' as const, minimum: 1 } },
+      required: ['paths'],
+      additionalProperties: false,
+    };
+
+    expect(validateToolInput(schema, { paths: ['a', 2], limit: 0, extra: true })).toEqual([
+      "'args.paths[1]' must be a string, got integer",
+      "'args.limit' must be at least 1",
+      "Unknown argument: 'extra'",
+    ]);
+    expect(validateToolInput(schema, {})).toEqual(["Missing required argument: 'paths'"]);
+    expect(validateToolInput(schema, 'nope')).toEqual(["'args' must be an object, got string"]);
+  });
+});
+
+describe('SlidingWindowRateLimiter', () => {
+  it('should free a slot once the oldest call leaves the window', () => {
+    const limiter = new SlidingWindowRateLimiter(1000);
+
+    expect(limiter.tryAcquire('a', 2, 0).allowed).toBe(true);
+    expect(limiter.tryAcquire('a', 2, 600).allowed).toBe(true);
+    expect(limiter.tryAcquire('a', 2, 900)).toEqual({ allowed: false, retryAfterMs: 100 });
+    expect(limiter.tryAcquire('b', 2, 900).allowed).toBe(true);
+    expect(limiter.tryAcquire('a', 2, 1001).allowed).toBe(true);
+  });
+});
+
+describe('executeTool', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    observedSignal = undefined;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should deny tools outside the agent allow-list and audit the violation', async () => {
+    const context = agentContext('CodeAuditor', ['read_file']);
+
+    const result = await executeTool('write_file', { path: 'a.js', content: '' }, context);
+
+    expect(result.error).toMatchObject({ type: 'AUTHORIZATION' });
+    const [entry] = toolAuditLog.list({ agentId: context.agentId });
+    expect(entry).toMatchObject({ outcome: 'violation', violation: 'RBAC', toolName: 'write_file', agentName: 'CodeAuditor' });
+    expect(toLogEntry(entry).type).toBe('RBAC_VIOLATION');
+  });
+
+  it('should validate arguments against the tool schema', async () => {
+    const context = agentContext('CodeAuditor', ['read_file']);
+
+    const result = await executeTool('read_file', { path: 42 }, context);
+
+    expect(result.error).toMatchObject({ type: 'VALIDATION', message: "'args.path' must be a string, got integer" });
+    expect(toolAuditLog.list({ agentId: context.agentId })[0]).toMatchObject({ violation: 'VALIDATION' });
+  });
+
+  it('should block changes in a strict sandbox', async () => {
+    const context = agentContext('Security', ['write_file']);
+
+    const result = await executeTool('write_file', { path: 'src/a.js', content: 'x' }, context);
+
+    expect(result.error).toMatchObject({ type: 'AUTHORIZATION' });
+    expect(result.error!.message).toContain("'strict' sandbox");
+  });
+
+  it('should keep permissive writes inside the project directory', async () => {
+    const context: ExecutionContext = { agentId: `legacy-${++agentCounter}`, permissions: ['filesystem:write'] };
+
+    const result = await executeTool('write_file', { path: '~/.bashrc', content: 'x' }, context);
+
+    expect(result.error!.message).toContain('outside the project directory');
+    expect(toolAuditLog.list({ agentId: context.agentId })[0]).toMatchObject({ violation: 'SANDBOX' });
+  });
+
+  it('should deny network tools unless the policy allows network access', async () => {
+    const denied = await executeTool('test.fetch', {}, agentContext('Backend', ['test.fetch']));
+    const allowed = await executeTool('test.fetch', {}, agentContext('DevOps', ['test.fetch']));
+
+    expect(denied.error).toMatchObject({ type: 'AUTHORIZATION' });
+    expect(allowed).toMatchObject({ success: true, data: 'fetched' });
+  });
+
+  it('should rate limit each agent over a sliding minute', async () => {
+    // QA: 30 calls per minute
+    const context = agentContext('QA', ['test.instant']);
+    for (let i = 0; i < 30; i++) {
+      expect((await executeTool('test.instant', {}, context)).success).toBe(true);
+    }
+
+    const limited = await executeTool('test.instant', {}, context);
+    const otherAgent = await executeTool('test.instant', {}, agentContext('QA', ['test.instant']));
+    vi.advanceTimersByTime(60_001);
+    const afterWindow = await executeTool('test.instant', {}, context);
+
+    expect(limited.error).toMatchObject({ type: 'RATE_LIMIT', details: { limitPerMinute: 30 } });
+    expect(otherAgent.success).toBe(true);
+    expect(afterWindow.success).toBe(true);
+  });
+
+  it('should time out at the role limit and abort the tool signal', async () => {
+    // Planner: 30 seconds
+    const context = agentContext('Planner', ['test.hang']);
+
+    const pending = executeTool('test.hang', {}, context);
+    await vi.advanceTimersByTimeAsync(30_000);
+    const result = await pending;
+
+    expect(result.error).toMatchObject({ type: 'TIMEOUT', details: { timeoutMs: 30_000 } });
+    expect(observedSignal?.aborted).toBe(true);
+    expect(toolAuditLog.list({ agentId: context.agentId })[0]).toMatchObject({ violation: 'TIMEOUT', durationMs: 30_000 });
+  });
+
+  it('should cancel a call when the caller aborts', async () => {
+    const controller = new AbortController();
+    const context = { ...agentContext('Planner', ['test.hang']), signal: controller.signal };
+
+    const pending = executeTool('test.hang', {}, context);
+    controller.abort();
+    const result = await pending;
+
+    expect(result.error).toMatchObject({ type: 'EXECUTION', details: { cancelled: true } });
+    expect(observedSignal?.aborted).toBe(true);
+  });
+
+  it('should let read-only agents search the project', async () => {
+    const context = agentContext('CodeAuditor', ['search_codebase']);
+
+    const pending = executeTool('search_codebase', { query: 'loginUser', include: ['src/**/*.js'] }, context);
+    await vi.advanceTimersByTimeAsync(1000);
+    const result = await pending;
+
+    expect(result.success).toBe(true);
+    expect(result.data).toMatchObject({ mode: 'literal', truncated: false });
+    expect(result.data.hits).toContainEqual(expect.objectContaining({ path: 'src/auth.js', line: 5 }));
+  });
+
+  it('should audit successful executions', async () => {
+    const context = agentContext('Manager', ['test.instant']);
+
+    await executeTool('test.instant', {}, context);
+
+    const [entry] = toolAuditLog.list({ agentId: context.agentId });
+    expect(entry).toMatchObject({ outcome: 'executed', toolName: 'test.instant', durationMs: 0 });
+    expect(Object.isFrozen(entry)).toBe(true);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  WorkspaceFileSystem,
+  WorkspaceFsError,
+  resolveWorkspacePath,
+  formatWorkspacePath,
+} from '../workspaceFileSystem';
+import { MemoryWorkspaceStore } from '../workspaceStore';
+
+/**
+ * Tests for WorkspaceFileSystem
+ *
+ * Tests cover:
+ * - Path resolution
+ * - Files, directories and metadata
+ * - Persistence through the store
+ * - Quota enforcement
+ * - Zip export and import
+ */
+
+const SEED = { '/home/user/README.md': 'hello' };
+
+describe('resolveWorkspacePath', () => {
+  it('should resolve relative, home and parent paths', () => {
+    expect(resolveWorkspacePath('src/../lib/./a.ts', '/home/user/project')).toBe('/home/user/project/lib/a.ts');
+    expect(resolveWorkspacePath('~/mailbox//skill')).toBe('/home/user/mailbox/skill');
+    expect(resolveWorkspacePath('../../../..', '/home/user')).toBe('/');
+  });
+
+  it('should show the home directory as ~', () => {
+    expect(formatWorkspacePath('/home/user')).toBe('~');
+    expect(formatWorkspacePath('/home/user/docs')).toBe('~/docs');
+    expect(formatWorkspacePath('/home/username')).toBe('/home/username');
+  });
+});
+
+describe('WorkspaceFileSystem', () => {
+  let store: MemoryWorkspaceStore;
+  let fs: WorkspaceFileSystem;
+
+  beforeEach(() => {
+    store = new MemoryWorkspaceStore();
+    fs = new WorkspaceFileSystem(store, { seed: SEED, quotaBytes: 1024 });
+  });
+
+  it('should seed an empty store with the seed files and their directories', async () => {
+    await expect(fs.readFile('/home/user/README.md')).resolves.toBe('hello');
+    await expect(fs.stat('/home')).resolves.toMatchObject({ type: 'directory' });
+    expect((await store.loadEntries()).map(entry => entry.path).sort()).toEqual([
+      '/', '/home', '/home/user', '/home/user/README.md',
+    ]);
+  });
+
+  it('should create parent directories and merge metadata on write', async () => {
+    await fs.writeFile('~/mailbox/skill/SKILL.md', 'v1', { isRead: false, versionId: 'abc' });
+    await fs.writeFile('~/mailbox/skill/SKILL.md', 'v2', { isRead: true });
+
+    const names = (await fs.readdir('~/mailbox')).map(entry => entry.path);
+    expect(names).toEqual(['/home/user/mailbox/skill']);
+    await expect(fs.stat('~/mailbox/skill/SKILL.md')).resolves.toMatchObject({
+      content: 'v2',
+      size: 2,
+      metadata: { isRead: true, versionId: 'abc' },
+    });
+  });
+
+  it('should restore files written by another instance on the same store', async () => {
+    await fs.writeFile('/home/user/notes.txt', 'persisted');
+    await fs.remove('/home/user/README.md');
+
+    const reloaded = new WorkspaceFileSystem(store, { seed: SEED });
+
+    await expect(reloaded.readFile('/home/user/notes.txt')).resolves.toBe('persisted');
+    await expect(reloaded.exists('/home/user/README.md')).resolves.toBe(false);
+  });
+
+  it('should report missing paths, directories and files in the way', async () => {
+    await expect(fs.readFile('/nope')).rejects.toMatchObject({ code: 'ENOENT' });
+    await expect(fs.readFile('/home/user')).rejects.toMatchObject({ code: 'EISDIR' });
+    await expect(fs.writeFile('/home/user/README.md/child', 'x')).rejects.toMatchObject({ code: 'ENOTDIR' });
+    await expect(fs.readdir('/home/user/README.md')).rejects.toBeInstanceOf(WorkspaceFsError);
+  });
+
+  it('should refuse to remove a non-empty directory unless recursive', async () => {
+    await fs.writeFile('/home/user/a/b/c.txt', 'c');
+
+    await expect(fs.remove('/home/user/a')).rejects.toMatchObject({ code: 'ENOTEMPTY' });
+    await fs.remove('/home/user/a', { recursive: true });
+
+    await expect(fs.exists('/home/user/a/b')).resolves.toBe(false);
+    await expect(fs.remove('/')).rejects.toMatchObject({ code: 'EINVAL' });
+  });
+
+  it('should move a directory with its contents and metadata', async () => {
+    await fs.writeFile('/home/user/a/b.txt', 'b', { isRead: false });
+
+    await fs.move('/home/user/a', '/home/user/c');
+
+    await expect(fs.exists('/home/user/a')).resolves.toBe(false);
+    await expect(fs.stat('/home/user/c/b.txt')).resolves.toMatchObject({ content: 'b', metadata: { isRead: false } });
+    await expect(fs.move('/home/user/c', '/home/user/c/inside')).rejects.toMatchObject({ code: 'EINVAL' });
+    await expect(fs.move('/home/user/c', '/home/user/README.md')).rejects.toMatchObject({ code: 'EEXIST' });
+    await expect(fs.move('/home/user/c', '/missing/c')).rejects.toMatchObject({ code: 'ENOENT' });
+  });
+
+  it('should enforce the quota in UTF-8 bytes', async () => {
+    await fs.writeFile('/big.txt', 'x'.repeat(1000));
+
+    await expect(fs.writeFile('/more.txt', 'é'.repeat(10))).rejects.toMatchObject({ code: 'EQUOTA' });
+    // Shrinking a file is always allowed
+    await fs.writeFile('/big.txt', 'small');
+
+    await expect(fs.usage()).resolves.toMatchObject({ usedBytes: 10, quotaBytes: 1024, fileCount: 2 });
+  });
+
+  it('should notify subscribers of changed paths', async () => {
+    const listener = vi.fn();
+    const unsubscribe = fs.subscribe(listener);
+
+    await fs.writeFile('/home/user/docs/a.md', 'a');
+    unsubscribe();
+    await fs.writeFile('/home/user/docs/b.md', 'b');
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith(['/home/user/docs', '/home/user/docs/a.md']);
+  });
+
+  it('should round-trip a directory through a zip', async () => {
+    await fs.writeFile('~/mailbox/skill/SKILL.md', '# Skill');
+    await fs.writeFile('~/mailbox/skill/scripts/run.sh', 'echo hi');
+
+    const zip = await fs.exportZip('~/mailbox');
+    const written = await fs.importZip(zip, '/imported', { isRead: false });
+
+    expect(written.sort()).toEqual(['/imported/skill/SKILL.md', '/imported/skill/scripts/run.sh']);
+    await expect(fs.readFile('/imported/skill/scripts/run.sh')).resolves.toBe('echo hi');
+    await expect(fs.stat('/imported/skill/SKILL.md')).resolves.toMatchObject({ metadata: { isRead: false } });
+  });
+
+  it('should keep zip entries with parent segments inside the target directory', async () => {
+    const JSZip = (await import('jszip')).default;
+    const zip = new JSZip();
+    zip.file('ok.txt', 'ok');
+    zip.file('../escape.txt', 'nope');
+
+    const written = await fs.importZip(await zip.generateAsync({ type: 'uint8array' }), '/target');
+
+    expect(written.sort()).toEqual(['/target/escape.txt', '/target/ok.txt']);
+    await expect(fs.exists('/escape.txt')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,189 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { WorkspaceFileSystem } from '../workspaceFileSystem';
+import { MemoryWorkspaceStore } from '../workspaceStore';
+import { WorkspaceGit, GitError } from '../workspaceGit';
+
+/**
+ * Tests for WorkspaceGit
+ *
+ * Tests cover:
+ * - Staging, status and commits
+ * - Branches and checkout
+ * - Log and diffs
+ * - Fast-forward, clean and conflicting merges
+ * - Revert
+ */
+
+const DIR = '/repo';
+const ALICE = { name: 'Alice', email: 'alice@example.com' };
+
+describe('WorkspaceGit', () => {
+  let fs: WorkspaceFileSystem;
+  let git: WorkspaceGit;
+
+  const write = (path: string, content: string) => fs.writeFile(`${DIR}/${path}`, content);
+  const read = (path: string) => fs.readFile(`${DIR}/${path}`);
+  const commitAll = async (message: string) => {
+    await git.add(['.']);
+    return git.commit(message, ALICE);
+  };
+
+  beforeEach(async () => {
+    fs = new WorkspaceFileSystem(new MemoryWorkspaceStore(), { seed: {} });
+    git = new WorkspaceGit(fs, DIR);
+    await git.init();
+    await write('a.txt', 'one\ntwo\nthree\nfour\nfive\n');
+    await write('b.txt', 'b\n');
+    await commitAll('Initial commit');
+  });
+
+  it('should report staged, unstaged and untracked files', async () => {
+    await write('a.txt', 'changed\n');
+    await write('b.txt', 'staged\n');
+    await git.add(['b.txt']);
+    await write('new.txt', 'new\n');
+
+    await expect(git.status()).resolves.toMatchObject({
+      branch: 'main',
+      staged: ['b.txt'],
+      unstaged: ['a.txt'],
+      untracked: ['new.txt'],
+      conflicted: [],
+    });
+  });
+
+  it('should record commits with their author and parent', async () => {
+    await write('b.txt', 'b2\n');
+    await fs.remove(`${DIR}/a.txt`);
+    const commit = await commitAll('Edit b, drop a');
+
+    const log = await git.log();
+    expect(log.map(entry => entry.message)).toEqual(['Edit b, drop a', 'Initial commit']);
+    expect(commit).toMatchObject({ author: ALICE, parents: [log[1].hash] });
+    await expect(git.status()).resolves.toMatchObject({ staged: [], unstaged: [], untracked: [] });
+
+    const diff = await git.diff({ commit: commit.hash.substring(0, 7) });
+    expect(diff.map(file => [file.path, file.change])).toEqual([['a.txt', 'deleted'], ['b.txt', 'modified']]);
+    expect(diff[1].diff).toContain('-b\n+b2');
+  });
+
+  it('should refuse an empty commit', async () => {
+    await expect(git.commit('nothing', ALICE)).rejects.toMatchObject({ code: 'NOTHING_TO_COMMIT' });
+  });
+
+  it('should show unstaged and staged diffs', async () => {
+    await write('b.txt', 'staged\n');
+    await git.add(['b.txt']);
+    await write('a.txt', 'unstaged\n');
+
+    expect((await git.diff()).map(file => file.path)).toEqual(['a.txt']);
+    expect((await git.diff({ cached: true })).map(file => file.path)).toEqual(['b.txt']);
+  });
+
+  it('should switch the working tree between branches', async () => {
+    await git.createBranch('feature', { checkout: true });
+    await write('feature.txt', 'feature\n');
+    await commitAll('Add feature');
+
+    await git.checkout('main');
+    await expect(fs.exists(`${DIR}/feature.txt`)).resolves.toBe(false);
+    await expect(git.listBranches()).resolves.toEqual(['feature', 'main']);
+
+    await git.checkout('feature');
+    await expect(read('feature.txt')).resolves.toBe('feature\n');
+  });
+
+  it('should refuse to check out over uncommitted changes', async () => {
+    await git.createBranch('other');
+    await write('a.txt', 'dirty\n');
+
+    await expect(git.checkout('other')).rejects.toMatchObject({ code: 'DIRTY_WORKTREE', paths: ['a.txt'] });
+  });
+
+  it('should reject invalid and duplicate branch names', async () => {
+    await expect(git.createBranch('bad..name')).rejects.toMatchObject({ code: 'INVALID_BRANCH_NAME' });
+    await expect(git.createBranch('main')).rejects.toMatchObject({ code: 'BRANCH_EXISTS' });
+    await expect(git.checkout('missing')).rejects.toBeInstanceOf(GitError);
+  });
+
+  it('should fast-forward when the current branch has not moved', async () => {
+    await git.createBranch('feature', { checkout: true });
+    await write('b.txt', 'feature\n');
+    const featureCommit = await commitAll('Change b');
+    await git.checkout('main');
+
+    const result = await git.merge('feature', ALICE);
+
+    expect(result).toEqual({ status: 'fast-forward', commit: featureCommit.hash, conflicts: [] });
+    await expect(read('b.txt')).resolves.toBe('feature\n');
+  });
+
+  it('should merge changes to different parts of the same file', async () => {
+    await git.createBranch('feature', { checkout: true });
+    await write('a.txt', 'one\ntwo\nthree\nfour\nFIVE\n');
+    await commitAll('Shout five');
+    await git.checkout('main');
+    await write('a.txt', 'ONE\ntwo\nthree\nfour\nfive\n');
+    await commitAll('Shout one');
+
+    const result = await git.merge('feature', ALICE);
+
+    expect(result.status).toBe('merged');
+    await expect(read('a.txt')).resolves.toBe('ONE\ntwo\nthree\nfour\nFIVE\n');
+    const [merge] = await git.log();
+    expect(merge.parents).toHaveLength(2);
+    expect(merge.message).toBe("Merge branch 'feature' into main");
+  });
+
+  it('should report conflicts and finish the merge once they are resolved', async () => {
+    await git.createBranch('feature', { checkout: true });
+    await write('b.txt', 'theirs\n');
+    await commitAll('Theirs');
+    await git.checkout('main');
+    await write('b.txt', 'ours\n');
+    await commitAll('Ours');
+
+    const result = await git.merge('feature', ALICE);
+
+    expect(result).toEqual({ status: 'conflicts', conflicts: ['b.txt'] });
+    await expect(read('b.txt')).resolves.toContain('<<<<<<< HEAD\nours\n\n=======\ntheirs\n');
+    await expect(git.status()).resolves.toMatchObject({ conflicted: ['b.txt'], merging: expect.any(String) });
+    await expect(git.commit('too early', ALICE)).rejects.toMatchObject({ code: 'UNRESOLVED_CONFLICTS' });
+
+    await write('b.txt', 'both\n');
+    await git.add(['b.txt']);
+    const merge = await git.commit('', ALICE);
+
+    expect(merge.parents).toHaveLength(2);
+    expect(merge.message).toBe("Merge branch 'feature' into main");
+    await expect(git.status()).resolves.toMatchObject({ conflicted: [], merging: null });
+  });
+
+  it('should revert a commit', async () => {
+    await write('b.txt', 'broken\n');
+    await write('c.txt', 'added\n');
+    const bad = await commitAll('Break things');
+
+    const revert = await git.revert(bad.hash, ALICE);
+
+    expect(revert.message).toBe(`Revert "Break things"\n\nThis reverts commit ${bad.hash}.`);
+    await expect(read('b.txt')).resolves.toBe('b\n');
+    await expect(fs.exists(`${DIR}/c.txt`)).resolves.toBe(false);
+  });
+
+  it('should refuse to revert when later commits changed the same file', async () => {
+    await write('b.txt', 'first\n');
+    const first = await commitAll('First');
+    await write('b.txt', 'second\n');
+    await commitAll('Second');
+
+    await expect(git.revert(first.hash, ALICE)).rejects.toMatchObject({ code: 'REVERT_CONFLICT', paths: ['b.txt'] });
+  });
+
+  it('should keep history in the workspace across instances', async () => {
+    const reopened = new WorkspaceGit(fs, DIR);
+
+    await expect(reopened.log()).resolves.toHaveLength(1);
+    await expect(fs.exists(`${DIR}/.git/HEAD`)).resolves.toBe(true);
+  });
+});
@@ -2,6 +2,7 @@
 // Agentic RAG - Context-Aware Code Generation with Active Planning
 
 import { generateContent } from './geminiService';
+import { getIntelligenceService } from './intelligenceService';
 import {
   RAGQuery,
   RAGPlan,
@@ -10,6 +11,91 @@ import {
   generateUniqueId
 } from '../types/autonomous';
 
+/**
+ * A line window of an indexed file - the unit that lexical and embedding search rank
+ */
+interface IndexedChunk {
+  file_path: string;
+  start_line: number;
+  end_line: number;
+  content: string;
+  term_counts: Map<string, number>;
+  term_total: number;
+  /** Computed on first semantic query; recomputed if the embedding model changes */
+  embedding?: { model: string; vector: number[] };
+}
+
+interface RankedChunk {
+  chunk: IndexedChunk;
+  relevance: number;
+}
+
+const CHUNK_LINES = 40;
+const CHUNK_OVERLAP = 10;
+const DEFAULT_MAX_RESULTS = 5;
+const DEFAULT_GRAPH_DEPTH = 2;
+// Relevance kept per hop away from the files that matched the query
+const GRAPH_HOP_DECAY = 0.6;
+// Embedding every chunk of a large index is slow, so semantic search only embeds the best lexical candidates
+const MAX_EMBEDDED_CHUNKS = 200;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+const DOCUMENTATION_EXTENSIONS = ['.md', '.mdx', '.rst', '.txt'];
+const RESOLVABLE_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py'];
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on',
+  'or', 'that', 'the', 'this', 'to', 'use', 'what', 'where', 'which', 'with'
+]);
+
+/**
+ * Split text into lowercase search terms. Identifiers also yield their camelCase/snake_case parts,
+ * so "getUserById" matches queries for "user" as well as the whole symbol.
+ */
+function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.match(/[A-Za-z_$][\w$]*|\d+/g) ?? []) {
+    terms.push(word.toLowerCase());
+    const parts = word.split(/[_$]+|(?<=[a-z0-9])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/).filter(Boolean);
+    if (parts.length > 1) {
+      parts.forEach(part => terms.push(part.toLowerCase()));
+    }
+  }
+  return terms.filter(term => term.length > 1 && !STOP_WORDS.has(term));
+}
+
+function normalizePath(filePath: string): string {
+  const absolute = filePath.startsWith('/');
+  const segments: string[] = [];
+  for (const segment of filePath.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..' && segments.length > 0 && segments[segments.length - 1] !== '..') {
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return (absolute ? '/' : '') + segments.join('/');
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let magnitudeA = 0;
+  let magnitudeB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    magnitudeA += a[i] * a[i];
+    magnitudeB += b[i] * b[i];
+  }
+  return magnitudeA === 0 || magnitudeB === 0 ? 0 : dot / (Math.sqrt(magnitudeA) * Math.sqrt(magnitudeB));
+}
+
+function formatLocation(ctx: CodeContext): string {
+  return ctx.start_line !== undefined && ctx.end_line !== undefined
+    ? `${ctx.file_path}:${ctx.start_line}-${ctx.end_line}`
+    : ctx.file_path;
+}
+
 /**
  * ============================================================================
  * AGENTIC RAG SERVICE
@@ -30,6 +116,7 @@ import {
 
 export class AgenticRAGService {
   private codebaseIndex: Map<string, CodeContext> = new Map();
+  private chunkIndex: Map<string, IndexedChunk[]> = new Map();
   private queryCache: Map<string, CodeContext[]> = new Map();
 
   /**
@@ -47,7 +134,7 @@ export class AgenticRAGService {
     console.log(`[AgenticRAG] Generated plan with ${plan.sub_queries.length} sub-queries`);
 
     // Phase 2: Execute sub-queries in parallel
-    const queryResults = await this.executeSubQueries(plan.sub_queries);
+    const queryResults = await this.executeSubQueries(plan.sub_queries, options?.max_depth);
 
     // Phase 3: Synthesize results
     const synthesizedContext = await this.synthesizeResults(plan, queryResults);
@@ -173,20 +260,23 @@ Generate the RAG plan now.`;
    * PHASE 2: Execute sub-queries in parallel
    */
   private async executeSubQueries(
-    subQueries: RAGQuery[]
+    subQueries: RAGQuery[],
+    maxDepth?: number
   ): Promise<Map<string, CodeContext[]>> {
     const results = new Map<string, CodeContext[]>();
 
     // Execute queries in parallel
     const promises = subQueries.map(async (query) => {
-      const cachedResult = this.queryCache.get(query.query_id);
+      // Planners reuse ids like "query-1" across intents, so results are cached by what the query asks for
+      const cacheKey = JSON.stringify([query.query_type, query.query_text, query.filters ?? {}, maxDepth ?? null]);
+      const cachedResult = this.queryCache.get(cacheKey);
       if (cachedResult) {
         console.log(`[AgenticRAG] Using cached result for: ${query.query_text}`);
         return { query_id: query.query_id, results: cachedResult };
       }
 
-      const queryResults = await this.executeQuery(query);
-      this.queryCache.set(query.query_id, queryResults);
+      const queryResults = await this.executeQuery(query, maxDepth);
+      this.queryCache.set(cacheKey, queryResults);
 
       return { query_id: query.query_id, results: queryResults };
     });
@@ -201,57 +291,251 @@ Generate the RAG plan now.`;
   }
 
   /**
-   * Execute a single RAG query
+   * Execute a single RAG query against the indexed codebase
+   *
+   * - code_search / api_reference: BM25 over line chunks (api_reference favours chunks declaring a matching export)
+   * - documentation / pattern_search: embedding similarity via IntelligenceService
+   * - dependency_graph: lexical seed files, then a walk over their imports and importers
    */
-  private async executeQuery(query: RAGQuery): Promise<CodeContext[]> {
+  private async executeQuery(query: RAGQuery, maxDepth?: number): Promise<CodeContext[]> {
     console.log(`[AgenticRAG] Executing ${query.query_type}: "${query.query_text}"`);
 
-    // In production, this would use:
-    // - Vector database (Pinecone, Weaviate, ChromaDB)
-    // - Code search engines (Sourcegraph, grep.app)
-    // - AST parsers (tree-sitter)
-    // - Dependency analyzers
+    if (this.codebaseIndex.size === 0) {
+      console.warn('[AgenticRAG] No files indexed. Call indexCodebase() before querying.');
+      return [];
+    }
+
+    const chunks = this.getCandidateChunks(query.filters);
+    const terms = [...new Set(tokenize(query.query_text))];
+    const maxResults = query.filters?.max_results ?? DEFAULT_MAX_RESULTS;
+
+    try {
+      switch (query.query_type) {
+        case 'api_reference':
+          return this.selectChunks(this.rankLexical(chunks, terms, true), maxResults);
+
+        case 'documentation': {
+          const docs = chunks.filter(chunk => this.isDocumentation(chunk.file_path));
+          return this.selectChunks(await this.rankSemantic(docs.length > 0 ? docs : chunks, query.query_text, terms), maxResults);
+        }
+
+        case 'pattern_search':
+          return this.selectChunks(await this.rankSemantic(chunks, query.query_text, terms), maxResults);
 
-    // For now, simulate with LLM-based search
-    const simulatedResults = await this.simulateCodeSearch(query);
-    return simulatedResults;
+        case 'dependency_graph':
+          return this.walkDependencies(chunks, terms, query.filters, maxResults, maxDepth ?? DEFAULT_GRAPH_DEPTH);
+
+        case 'code_search':
+        default:
+          return this.selectChunks(this.rankLexical(chunks, terms, false), maxResults);
+      }
+    } catch (error) {
+      console.warn(`[AgenticRAG] Query execution failed: ${query.query_text}`, error);
+      return [];
+    }
   }
 
   /**
-   * Simulate code search using LLM (placeholder for real search engine)
+   * ============================================================================
+   * RETRIEVAL
+   * ============================================================================
    */
-  private async simulateCodeSearch(query: RAGQuery): Promise<CodeContext[]> {
-    const prompt = `You are a code search engine. Find relevant code snippets for this query.
-
-QUERY: "${query.query_text}"
-TYPE: ${query.query_type}
-FILTERS: ${JSON.stringify(query.filters || {})}
-
-Generate 3-5 relevant code examples that would exist in a real codebase.
-
-OUTPUT FORMAT (JSON array):
-[
-  {
-    "file_path": "src/path/to/file.ts",
-    "content": "// Code snippet (10-30 lines)",
-    "relevance": 0.95,
-    "dependencies": ["dep1", "dep2"],
-    "exports": ["export1", "export2"]
+
+  private getCandidateChunks(filters?: RAGQuery['filters']): IndexedChunk[] {
+    const extensions = (filters?.file_extensions ?? []).map(ext => ext.toLowerCase());
+    const directories = (filters?.directories ?? []).map(dir => normalizePath(dir)).filter(Boolean);
+
+    const chunks: IndexedChunk[] = [];
+    this.chunkIndex.forEach((fileChunks, filePath) => {
+      if (extensions.length > 0 && !extensions.some(ext => filePath.toLowerCase().endsWith(ext))) return;
+      if (directories.length > 0 && !directories.some(dir => filePath === dir || filePath.startsWith(`${dir}/`))) return;
+      chunks.push(...fileChunks);
+    });
+    return chunks;
   }
-]`;
 
-    try {
-      const responseJson = await generateContent(prompt, {
-        temperature: 0.6,
-        response_mime_type: 'application/json'
-      });
+  /**
+   * BM25 ranking. Relevance is the score relative to the best chunk, scaled by the share of query terms
+   * the chunk contains, so a chunk matching one rare term does not look like a full match.
+   */
+  private rankLexical(chunks: IndexedChunk[], terms: string[], preferExports: boolean): RankedChunk[] {
+    if (chunks.length === 0 || terms.length === 0) return [];
+
+    const averageLength = chunks.reduce((sum, chunk) => sum + chunk.term_total, 0) / chunks.length || 1;
+    const idf = new Map<string, number>();
+    for (const term of terms) {
+      const documentFrequency = chunks.filter(chunk => chunk.term_counts.has(term)).length;
+      idf.set(term, Math.log(1 + (chunks.length - documentFrequency + 0.5) / (documentFrequency + 0.5)));
+    }
 
-      const results: CodeContext[] = JSON.parse(responseJson);
-      return results;
-    } catch (error) {
-      console.warn(`[AgenticRAG] Query execution failed: ${query.query_text}`, error);
-      return [];
+    const scored = chunks
+      .map(chunk => {
+        let score = 0;
+        let matched = 0;
+        for (const term of terms) {
+          const frequency = chunk.term_counts.get(term) ?? 0;
+          if (frequency === 0) continue;
+          matched++;
+          score += idf.get(term)! * (frequency * (BM25_K1 + 1)) /
+            (frequency + BM25_K1 * (1 - BM25_B + BM25_B * chunk.term_total / averageLength));
+        }
+        if (preferExports && score > 0) {
+          // The symbol itself must be asked for, not merely share a word with the query
+          const declaresMatch = this.extractExports(chunk.content).some(symbol => terms.includes(symbol.toLowerCase()));
+          if (declaresMatch) score *= 2;
+        }
+        return { chunk, score, coverage: matched / terms.length };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score);
+
+    const topScore = scored[0]?.score ?? 1;
+    return scored.map(({ chunk, score, coverage }) => ({ chunk, relevance: (score / topScore) * coverage }));
+  }
+
+  private async rankSemantic(chunks: IndexedChunk[], queryText: string, terms: string[]): Promise<RankedChunk[]> {
+    if (chunks.length === 0) return [];
+
+    let candidates = chunks;
+    if (chunks.length > MAX_EMBEDDED_CHUNKS) {
+      const lexical = this.rankLexical(chunks, terms, false).map(ranked => ranked.chunk);
+      const lexicalSet = new Set(lexical);
+      candidates = [...lexical, ...chunks.filter(chunk => !lexicalSet.has(chunk))].slice(0, MAX_EMBEDDED_CHUNKS);
     }
+
+    const intelligence = getIntelligenceService();
+    const queryEmbedding = await intelligence.embed(queryText);
+
+    const ranked: RankedChunk[] = [];
+    for (const chunk of candidates) {
+      if (chunk.embedding?.model !== queryEmbedding.model) {
+        chunk.embedding = await intelligence.embed(`${chunk.file_path}\n${chunk.content}`);
+      }
+      const similarity = cosineSimilarity(queryEmbedding.vector, chunk.embedding.vector);
+      if (similarity > 0) {
+        ranked.push({ chunk, relevance: Math.min(1, similarity) });
+      }
+    }
+
+    return ranked.sort((a, b) => b.relevance - a.relevance);
+  }
+
+  /**
+   * Start from the files whose chunks match the query lexically and follow resolved relative imports
+   * in both directions. Files further from a match get lower relevance.
+   */
+  private walkDependencies(
+    chunks: IndexedChunk[],
+    terms: string[],
+    filters: RAGQuery['filters'],
+    maxResults: number,
+    maxDepth: number
+  ): CodeContext[] {
+    const reached = new Map<string, RankedChunk>();
+    for (const ranked of this.rankLexical(chunks, terms, true)) {
+      if (!reached.has(ranked.chunk.file_path)) {
+        reached.set(ranked.chunk.file_path, ranked);
+      }
+      if (reached.size >= Math.min(3, maxResults)) break;
+    }
+
+    const { imports, importedBy } = this.buildDependencyGraph();
+    const allowed = new Set(this.getCandidateChunks(filters).map(chunk => chunk.file_path));
+
+    let frontier = [...reached.keys()];
+    for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const filePath of frontier) {
+        const relevance = reached.get(filePath)!.relevance * GRAPH_HOP_DECAY;
+        const neighbours = [...(imports.get(filePath) ?? []), ...(importedBy.get(filePath) ?? [])];
+        for (const neighbour of neighbours) {
+          if (reached.has(neighbour)) continue;
+          const firstChunk = this.chunkIndex.get(neighbour)?.[0];
+          if (!firstChunk) continue;
+          reached.set(neighbour, { chunk: firstChunk, relevance });
+          next.push(neighbour);
+        }
+      }
+      frontier = next;
+    }
+
+    return [...reached.values()]
+      .filter(ranked => allowed.has(ranked.chunk.file_path))
+      .sort((a, b) => b.relevance - a.relevance)
+      .slice(0, maxResults)
+      .map(ranked => this.toCodeContext(ranked));
+  }
+
+  private buildDependencyGraph(): { imports: Map<string, Set<string>>; importedBy: Map<string, Set<string>> } {
+    const imports = new Map<string, Set<string>>();
+    const importedBy = new Map<string, Set<string>>();
+
+    this.codebaseIndex.forEach((context, filePath) => {
+      for (const specifier of context.dependencies) {
+        const target = this.resolveDependency(filePath, specifier);
+        if (!target || target === filePath) continue;
+        if (!imports.has(filePath)) imports.set(filePath, new Set());
+        if (!importedBy.has(target)) importedBy.set(target, new Set());
+        imports.get(filePath)!.add(target);
+        importedBy.get(target)!.add(filePath);
+      }
+    });
+
+    return { imports, importedBy };
+  }
+
+  /**
+   * Resolve a relative import to an indexed file, trying the extensions and index files bundlers accept.
+   * Package imports are not part of the indexed codebase and resolve to undefined.
+   */
+  private resolveDependency(fromPath: string, specifier: string): string | undefined {
+    if (!specifier.startsWith('.')) return undefined;
+
+    const directory = fromPath.includes('/') ? fromPath.slice(0, fromPath.lastIndexOf('/')) : '';
+    const base = normalizePath(`${directory}/${specifier}`);
+    const stem = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+    const candidates = [
+      base,
+      ...RESOLVABLE_EXTENSIONS.map(ext => `${stem}${ext}`),
+      ...RESOLVABLE_EXTENSIONS.map(ext => `${base}/index${ext}`)
+    ];
+
+    return candidates.find(candidate => this.codebaseIndex.has(candidate));
+  }
+
+  /**
+   * Take the best chunks, skipping ones that overlap a chunk already taken from the same file
+   */
+  private selectChunks(ranked: RankedChunk[], maxResults: number): CodeContext[] {
+    const selected: RankedChunk[] = [];
+    for (const candidate of ranked) {
+      if (selected.length >= maxResults) break;
+      const overlaps = selected.some(({ chunk }) =>
+        chunk.file_path === candidate.chunk.file_path &&
+        chunk.start_line <= candidate.chunk.end_line &&
+        candidate.chunk.start_line <= chunk.end_line
+      );
+      if (!overlaps) selected.push(candidate);
+    }
+    return selected.map(ranked => this.toCodeContext(ranked));
+  }
+
+  private toCodeContext({ chunk, relevance }: RankedChunk): CodeContext {
+    const file = this.codebaseIndex.get(chunk.file_path);
+    return {
+      file_path: chunk.file_path,
+      content: chunk.content,
+      relevance: Math.round(relevance * 1000) / 1000,
+      dependencies: file?.dependencies ?? [],
+      exports: file?.exports ?? [],
+      start_line: chunk.start_line,
+      end_line: chunk.end_line
+    };
+  }
+
+  private isDocumentation(filePath: string): boolean {
+    const lower = filePath.toLowerCase();
+    return DOCUMENTATION_EXTENSIONS.some(ext => lower.endsWith(ext));
   }
 
   /**
@@ -290,7 +574,7 @@ OUTPUT FORMAT (JSON array):
     queryResults.forEach((contexts, queryId) => {
       synthesis += `\n\n### Query: ${queryId}\n`;
       contexts.forEach(ctx => {
-        synthesis += `\nFile: ${ctx.file_path} (relevance: ${ctx.relevance})\n`;
+        synthesis += `\nFile: ${formatLocation(ctx)} (relevance: ${ctx.relevance})\n`;
         synthesis += `\`\`\`\n${ctx.content}\n\`\`\`\n`;
       });
     });
@@ -316,7 +600,7 @@ ${concatenated}
 
 TASK: Create a concise summary that:
 1. Explains how to accomplish the original intent
-2. References specific code patterns found
+2. References specific code patterns found, citing them as path:start-end exactly as listed above
 3. Highlights key APIs and dependencies
 4. Provides a step-by-step approach
 
@@ -351,7 +635,7 @@ ${JSON.stringify(graph, null, 2)}
 
 CODE CONTEXTS:
 ${allContexts.map(ctx => `
-File: ${ctx.file_path}
+File: ${formatLocation(ctx)}
 Exports: ${ctx.exports.join(', ')}
 Dependencies: ${ctx.dependencies.join(', ')}
 `).join('\n')}
@@ -362,6 +646,8 @@ TASK: Explain:
 3. How data/control flows through the system
 4. How to accomplish the original intent within this architecture
 
+Cite files as path:start-end exactly as listed above.
+
 OUTPUT: Markdown-formatted architectural analysis`;
 
     return await generateContent(prompt, { temperature: 0.4 });
@@ -400,6 +686,8 @@ Detailed API usage
 ## Best Practices
 Security, performance, maintainability considerations
 
+Cite code as path:start-end exactly as listed in the search results.
+
 OUTPUT: Complete hierarchical markdown documentation`;
 
     return await generateContent(prompt, { temperature: 0.5 });
@@ -469,22 +757,27 @@ OUTPUT: Complete hierarchical markdown documentation`;
 
   /**
    * ============================================================================
-   * CODEBASE INDEXING (for production use)
+   * CODEBASE INDEXING
    * ============================================================================
    */
 
   /**
-   * Index a codebase for faster RAG queries
-   * In production, this would use vector embeddings
+   * Index a codebase for RAG queries. Files are split into overlapping line chunks for search;
+   * re-indexing a path replaces its previous entry. Embeddings are computed lazily by semantic queries.
    */
   async indexCodebase(files: { path: string; content: string }[]): Promise<void> {
     console.log(`[AgenticRAG] Indexing ${files.length} files`);
 
     for (const file of files) {
-      const context = await this.createCodeContext(file.path, file.content);
-      this.codebaseIndex.set(file.path, context);
+      const filePath = normalizePath(file.path);
+      const context = await this.createCodeContext(filePath, file.content);
+      this.codebaseIndex.set(filePath, context);
+      this.chunkIndex.set(filePath, this.chunkFile(filePath, file.content));
     }
 
+    // Cached results were ranked against the previous index
+    this.queryCache.clear();
+
     console.log(`[AgenticRAG] Indexing complete. ${this.codebaseIndex.size} files indexed.`);
   }
 
@@ -502,20 +795,48 @@ OUTPUT: Complete hierarchical markdown documentation`;
     };
   }
 
+  private chunkFile(filePath: string, content: string): IndexedChunk[] {
+    const lines = content.split('\n');
+    const chunks: IndexedChunk[] = [];
+
+    for (let start = 0; start < lines.length; start += CHUNK_LINES - CHUNK_OVERLAP) {
+      const end = Math.min(start + CHUNK_LINES, lines.length);
+      const text = lines.slice(start, end).join('\n');
+      if (text.trim()) {
+        // The path is searchable too, so "auth middleware" finds src/middleware/auth.ts
+        const terms = tokenize(`${filePath}\n${text}`);
+        const termCounts = new Map<string, number>();
+        terms.forEach(term => termCounts.set(term, (termCounts.get(term) ?? 0) + 1));
+        chunks.push({
+          file_path: filePath,
+          start_line: start + 1,
+          end_line: end,
+          content: text,
+          term_counts: termCounts,
+          term_total: terms.length
+        });
+      }
+      if (end === lines.length) break;
+    }
+
+    return chunks;
+  }
+
   private extractDependencies(content: string): string[] {
-    const importRegex = /(?:import|require)\s*\(?['"]([^'"]+)['"]/g;
+    // `import x from '…'` / `export … from '…'`, side-effect imports, require() and dynamic import()
+    const importRegex = /(?:import|export)\s[^'";]*?\bfrom\s*['"]([^'"]+)['"]|(?:import|require)\s*\(?\s*['"]([^'"]+)['"]/g;
     const dependencies: string[] = [];
     let match;
 
     while ((match = importRegex.exec(content)) !== null) {
-      dependencies.push(match[1]);
+      dependencies.push(match[1] ?? match[2]);
     }
 
     return [...new Set(dependencies)];
   }
 
   private extractExports(content: string): string[] {
-    const exportRegex = /export\s+(?:default\s+)?(?:class|function|const|let|var)\s+(\w+)/g;
+    const exportRegex = /export\s+(?:default\s+)?(?:abstract\s+)?(?:async\s+)?(?:class|function\*?|const|let|var|interface|type|enum)\s+(\w+)/g;
     const exports: string[] = [];
     let match;
 
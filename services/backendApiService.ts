@@ -3,10 +3,14 @@
  * Replaces direct Gemini API calls with secure backend API calls
  */
 
-import { ShuntAction, TokenUsage } from '../types';
+import { Job, JobInputs, JobListFilter, JobLog, JobPriority, JobType, ShuntAction, TokenUsage } from '../types';
+import { InteractionEvent, TelemetryEventFilter, TelemetrySummary } from '../types/telemetry';
+import { ClientInferredState, GovernanceResponse, UserTelemetryEvent } from '../types/autonomous';
+import { MCPServer, MCPToolDefinition, MCPToolResult } from '../types/mcp';
+import { ApiServiceError } from './apiUtils';
 
 // Backend API configuration
-const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080';
+export const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080';
 const API_KEY = import.meta.env.VITE_API_KEY || 'dev-test-key';
 
 interface BackendResponse<T = any> {
@@ -39,12 +43,222 @@ async function fetchBackend<T = any>(
   const data = await response.json();
 
   if (!response.ok) {
-    throw new Error(data.message || data.error || 'Backend request failed');
+    throw new ApiServiceError(data.message || data.error || 'Backend request failed', response.status);
   }
 
   return data;
 }
 
+/**
+ * Subscription features metered by the backend usage ledger
+ */
+export type MeteredGenerationFeature = 'shuntRuns' | 'weaverPlans' | 'trimAgentRuns' | 'deployments';
+
+export interface UsageSummary {
+  userId: string;
+  period: string;
+  tier: 'Free' | 'Pro' | 'Enterprise';
+  limits: Record<MeteredGenerationFeature, number | 'unlimited'>;
+  usage: Record<MeteredGenerationFeature, number>;
+  tokens: {
+    total: number;
+    byFeature: Record<string, number>;
+    byModel: Record<string, number>;
+  };
+}
+
+export type ModelProvider = 'gemini' | 'lmstudio' | 'ollama';
+
+/**
+ * How the backend model router served a shunt
+ */
+export interface ShuntRouting {
+  rule: string | null;
+  /** Providers that failed before the one that served the request */
+  fallbackFrom: ModelProvider[];
+}
+
+/**
+ * Cache metadata returned with every shunt result
+ */
+export interface ShuntCacheInfo {
+  hit: boolean;
+  mode?: 'exact' | 'semantic';
+  /** Cosine similarity of a near-duplicate hit */
+  similarity?: number;
+  key?: string;
+  ageMs?: number;
+  /** Tokens the original model call used */
+  savedTokens?: number;
+}
+
+/**
+ * Model router and response cache options for shunt requests
+ */
+export interface ShuntRequestOptions {
+  /** Provider to try first (defaults to Gemini) */
+  provider?: ModelProvider;
+  /** Fall back to other providers when the first one errors or is rate limited (defaults to true) */
+  allowFallback?: boolean;
+  /** Skip providers whose estimated cost exceeds this many USD */
+  maxCostUsd?: number;
+  /** 'semantic' also reuses results for near-duplicate text and needs `embedding` (defaults to 'exact') */
+  cache?: 'off' | 'exact' | 'semantic';
+  embedding?: { model: string; vector: number[] };
+}
+
+/**
+ * Result of a non-streamed shunt
+ */
+export interface ShuntResult {
+  resultText: string;
+  tokenUsage: TokenUsage;
+  provider: ModelProvider;
+  routing: ShuntRouting;
+  cache: ShuntCacheInfo;
+}
+
+/**
+ * One input of a batch shunt; `id` (defaults to the item's index) is echoed back with its result
+ */
+export interface ShuntBatchItem {
+  id?: string;
+  text: string;
+}
+
+/**
+ * Per-item outcome of a batch shunt: the shunt result, or the reason the item failed
+ */
+export type ShuntBatchItemResult =
+  | ({ id: string; latencyMs: number } & ShuntResult)
+  | { id: string; error: string };
+
+export interface ShuntBatchResult {
+  /** In the same order as the submitted items */
+  results: ShuntBatchItemResult[];
+  tokenUsage: Omit<TokenUsage, 'model'>;
+  summary: { total: number; succeeded: number; failed: number; cacheHits: number };
+  latencyMs: number;
+}
+
+export interface StreamResult {
+  resultText: string;
+  tokenUsage: TokenUsage;
+  latencyMs: number;
+  /** Set by endpoints that go through the model router */
+  provider?: ModelProvider;
+  routing?: ShuntRouting;
+  cache?: ShuntCacheInfo;
+}
+
+/**
+ * Called for every streamed chunk with the chunk and the text accumulated so far
+ */
+export type StreamChunkHandler = (chunk: string, accumulatedText: string) => void;
+
+interface SseFrame {
+  event: string;
+  data: string;
+}
+
+/**
+ * Split complete Server-Sent Event frames out of a buffer.
+ * Returns the parsed frames and any trailing partial frame to prepend to the next read.
+ */
+export function parseSseFrames(buffer: string): { frames: SseFrame[]; rest: string } {
+  const normalized = buffer.replace(/\r\n/g, '\n');
+  const blocks = normalized.split('\n\n');
+  const rest = blocks.pop() ?? '';
+
+  const frames = blocks
+    .map((block) => {
+      let event = 'message';
+      const dataLines: string[] = [];
+      for (const line of block.split('\n')) {
+        if (line.startsWith('event:')) event = line.slice(6).trim();
+        else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+      }
+      return { event, data: dataLines.join('\n') };
+    })
+    .filter((frame) => frame.data.length > 0);
+
+  return { frames, rest };
+}
+
+/**
+ * Result of the generation streams: the `done` payload, with the streamed text when it carries no `resultText`
+ */
+function toStreamResult(payload: any, accumulatedText: string): StreamResult {
+  return {
+    resultText: payload.resultText ?? accumulatedText,
+    tokenUsage: payload.tokenUsage,
+    latencyMs: payload.latencyMs,
+    provider: payload.provider,
+    routing: payload.routing,
+    cache: payload.cache,
+  };
+}
+
+/**
+ * Streaming fetch against an SSE endpoint.
+ * Forwards `chunk` events to `onChunk` and resolves with the payload of the final `done` event, mapped by `toResult`.
+ */
+async function streamBackend<T = StreamResult>(
+  endpoint: string,
+  body: unknown,
+  onChunk: StreamChunkHandler,
+  signal?: AbortSignal,
+  toResult = toStreamResult as (payload: any, accumulatedText: string) => T
+): Promise<T> {
+  const url = `${BACKEND_URL}${endpoint}`;
+
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'text/event-stream',
+      'x-api-key': API_KEY,
+    },
+    body: JSON.stringify(body),
+    signal,
+  });
+
+  // Validation, auth and rate limit failures are plain JSON responses sent before the stream opens
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw new ApiServiceError(data.message || data.error || `Backend request failed (${response.status})`, response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let accumulatedText = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const { frames, rest } = parseSseFrames(buffer);
+    buffer = rest;
+
+    for (const frame of frames) {
+      const payload = JSON.parse(frame.data);
+
+      if (frame.event === 'chunk') {
+        accumulatedText += payload.text;
+        onChunk(payload.text, accumulatedText);
+      } else if (frame.event === 'done') {
+        return toResult(payload, accumulatedText);
+      } else if (frame.event === 'error') {
+        throw new Error(payload.message || payload.details || payload.error || 'Backend stream failed');
+      }
+    }
+  }
+
+  throw new Error('Backend stream ended before completion');
+}
+
 /**
  * Perform shunt action via backend
  */
@@ -54,8 +268,9 @@ export async function performShuntViaBackend(
   modelName: string,
   context?: string,
   priority?: string,
-  promptInjectionGuardEnabled?: boolean
-): Promise<{ resultText: string; tokenUsage: TokenUsage }> {
+  promptInjectionGuardEnabled?: boolean,
+  options?: ShuntRequestOptions
+): Promise<ShuntResult> {
   const response = await fetchBackend('/api/gemini/shunt', {
     method: 'POST',
     body: JSON.stringify({
@@ -65,15 +280,69 @@ export async function performShuntViaBackend(
       context,
       priority,
       promptInjectionGuardEnabled,
+      ...options,
     }),
   });
+  const routed = response as BackendResponse & Pick<ShuntResult, 'provider' | 'routing' | 'cache'>;
 
   return {
-    resultText: response.resultText!,
-    tokenUsage: response.tokenUsage!,
+    resultText: routed.resultText!,
+    tokenUsage: routed.tokenUsage!,
+    provider: routed.provider,
+    routing: routed.routing,
+    cache: routed.cache,
   };
 }
 
+/**
+ * Perform shunt action via backend, streaming partial output as it is generated
+ */
+export async function streamShuntViaBackend(
+  text: string,
+  action: ShuntAction,
+  modelName: string,
+  onChunk: StreamChunkHandler,
+  context?: string,
+  priority?: string,
+  promptInjectionGuardEnabled?: boolean,
+  signal?: AbortSignal,
+  options?: ShuntRequestOptions
+): Promise<StreamResult> {
+  return streamBackend(
+    '/api/gemini/shunt/stream',
+    { text, action, modelName, context, priority, promptInjectionGuardEnabled, ...options },
+    onChunk,
+    signal
+  );
+}
+
+/**
+ * Apply one shunt action to many inputs via backend. `concurrency` caps how many items run at once (1-8, default 4).
+ */
+export async function performShuntBatchViaBackend(
+  items: ShuntBatchItem[],
+  action: ShuntAction,
+  modelName: string,
+  context?: string,
+  priority?: string,
+  promptInjectionGuardEnabled?: boolean,
+  options?: Omit<ShuntRequestOptions, 'embedding'> & { concurrency?: number }
+): Promise<ShuntBatchResult> {
+  const response = await fetchBackend('/api/gemini/shunt/batch', {
+    method: 'POST',
+    body: JSON.stringify({
+      items,
+      action,
+      modelName,
+      context,
+      priority,
+      promptInjectionGuardEnabled,
+      ...options,
+    }),
+  });
+  return response as unknown as ShuntBatchResult;
+}
+
 /**
  * Execute modular prompt via backend
  */
@@ -154,6 +423,420 @@ export async function generateContentViaBackend(
   };
 }
 
+/**
+ * Generate a Weaver development plan via backend; counts against the weaverPlans limit
+ */
+export async function generateDevelopmentPlanViaBackend(
+  goal: string,
+  context: string
+): Promise<{ resultText: string; tokenUsage: TokenUsage }> {
+  const response = await fetchBackend('/api/gemini/development-plan', {
+    method: 'POST',
+    body: JSON.stringify({ goal, context }),
+  });
+
+  return {
+    resultText: response.resultText!,
+    tokenUsage: response.tokenUsage!,
+  };
+}
+
+/**
+ * Generate content via backend, streaming partial output as it is generated
+ */
+export async function streamGenerateContentViaBackend(
+  prompt: string,
+  onChunk: StreamChunkHandler,
+  modelName: string = 'gemini-2.5-flash',
+  config?: {
+    temperature?: number;
+    topP?: number;
+    topK?: number;
+    maxOutputTokens?: number;
+    responseMimeType?: string;
+    responseSchema?: any;
+  },
+  signal?: AbortSignal
+): Promise<StreamResult> {
+  return streamBackend('/api/gemini/generate/stream', { prompt, modelName, config }, onChunk, signal);
+}
+
+/**
+ * Chat with a local LLM (LM Studio / Ollama) via backend, streaming partial output
+ */
+export async function streamLocalChatViaBackend(
+  messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
+  onChunk: StreamChunkHandler,
+  options: {
+    provider?: 'lmstudio' | 'ollama';
+    model?: string;
+    temperature?: number;
+    maxTokens?: number;
+  } = {},
+  signal?: AbortSignal
+): Promise<StreamResult> {
+  return streamBackend('/api/local-llm/chat/stream', { messages, ...options }, onChunk, signal);
+}
+
+export type ChatRole = 'user' | 'model';
+
+export interface ChatSessionMessage {
+  id: string;
+  role: ChatRole;
+  text: string;
+  createdAt: string;
+}
+
+/**
+ * A conversation held by the backend. Messages before `contextStart` are no longer sent to the model verbatim;
+ * they are covered by `summary`.
+ */
+export interface ChatSession {
+  id: string;
+  title: string | null;
+  model: string;
+  systemInstruction: string | null;
+  messages: ChatSessionMessage[];
+  summary: string | null;
+  contextStart: number;
+  contextTokens: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ChatSessionSummary {
+  id: string;
+  title: string | null;
+  model: string;
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  lastMessagePreview: string | null;
+}
+
+export interface ChatSessionOptions {
+  modelName?: string;
+  title?: string;
+  systemInstruction?: string;
+  /** Earlier turns to start the session from */
+  history?: Array<{ role: ChatRole; text: string }>;
+}
+
+export interface ChatGenerationConfig {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+}
+
+export interface ChatReply {
+  message: ChatSessionMessage;
+  tokenUsage: TokenUsage;
+  latencyMs: number;
+  /** Older messages folded into the summary or dropped to fit the context window for this reply */
+  compaction: { summarized: number; trimmed: number };
+  contextTokens: number;
+}
+
+/**
+ * Start a server-held chat session
+ */
+export async function createChatSession(options: ChatSessionOptions = {}): Promise<ChatSession> {
+  const response = await fetchBackend('/api/gemini/chat/sessions', {
+    method: 'POST',
+    body: JSON.stringify(options),
+  });
+  return (response as unknown as { session: ChatSession }).session;
+}
+
+export async function listChatSessions(): Promise<ChatSessionSummary[]> {
+  const response = await fetchBackend('/api/gemini/chat/sessions');
+  return (response as unknown as { sessions: ChatSessionSummary[] }).sessions;
+}
+
+export async function getChatSession(sessionId: string): Promise<ChatSession> {
+  const response = await fetchBackend(`/api/gemini/chat/sessions/${encodeURIComponent(sessionId)}`);
+  return (response as unknown as { session: ChatSession }).session;
+}
+
+export async function deleteChatSession(sessionId: string): Promise<void> {
+  await fetchBackend(`/api/gemini/chat/sessions/${encodeURIComponent(sessionId)}`, { method: 'DELETE' });
+}
+
+/**
+ * Send a message to a chat session and wait for the reply
+ */
+export async function sendChatMessage(
+  sessionId: string,
+  text: string,
+  config?: ChatGenerationConfig
+): Promise<ChatReply> {
+  const response = await fetchBackend(`/api/gemini/chat/sessions/${encodeURIComponent(sessionId)}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({ text, config }),
+  });
+  return response as unknown as ChatReply;
+}
+
+/**
+ * Send a message to a chat session, streaming the reply as it is generated
+ */
+export async function streamChatMessage(
+  sessionId: string,
+  text: string,
+  onChunk: StreamChunkHandler,
+  config?: ChatGenerationConfig,
+  signal?: AbortSignal
+): Promise<ChatReply> {
+  return streamBackend<ChatReply>(
+    `/api/gemini/chat/sessions/${encodeURIComponent(sessionId)}/messages/stream`,
+    { text, config },
+    onChunk,
+    signal,
+    (payload) => payload as ChatReply
+  );
+}
+
+/**
+ * Build a query string from the set telemetry filters
+ */
+function toTelemetryQuery(filter: TelemetryEventFilter): string {
+  const params = new URLSearchParams();
+  Object.entries(filter).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  const query = params.toString();
+  return query ? `?${query}` : '';
+}
+
+/**
+ * Query stored telemetry events (newest first)
+ */
+export async function queryTelemetryEvents(filter: TelemetryEventFilter = {}): Promise<InteractionEvent[]> {
+  const response = await fetchBackend(`/api/telemetry/events${toTelemetryQuery(filter)}`);
+  return (response as { events?: InteractionEvent[] }).events ?? [];
+}
+
+/**
+ * Aggregate stored telemetry events
+ */
+export async function getTelemetrySummary(filter: Omit<TelemetryEventFilter, 'limit'> = {}): Promise<TelemetrySummary> {
+  const response = await fetchBackend(`/api/telemetry/summary${toTelemetryQuery(filter)}`);
+  return response as unknown as TelemetrySummary;
+}
+
+/**
+ * Evaluate the backend governance rules over a batch of telemetry events
+ */
+export async function requestGovernanceDecisions(
+  events: UserTelemetryEvent[],
+  clientState?: ClientInferredState
+): Promise<GovernanceResponse> {
+  const response = await fetchBackend('/api/governance/decisions', {
+    method: 'POST',
+    body: JSON.stringify({ events, clientState }),
+  });
+  return response as unknown as GovernanceResponse;
+}
+
+/**
+ * Month-to-date usage for the calling API key
+ */
+export async function getUsageSummary(): Promise<UsageSummary> {
+  const response = await fetchBackend('/api/usage');
+  return response as unknown as UsageSummary;
+}
+
+/**
+ * Count a metered action that does not call a model (deployments, TRIM agent runs)
+ */
+export async function recordUsageEvent(feature: 'trimAgentRuns' | 'deployments'): Promise<UsageSummary> {
+  const response = await fetchBackend('/api/usage/events', {
+    method: 'POST',
+    body: JSON.stringify({ feature }),
+  });
+  return response as unknown as UsageSummary;
+}
+
+export interface SandboxTestCaseResult {
+  /** Test name including its describe blocks, e.g. "Cart > adds items" */
+  name: string;
+  passed: boolean;
+  skipped?: boolean;
+  durationMs: number;
+  message?: string;
+  stack?: string;
+}
+
+export interface SandboxTestResult {
+  id: string;
+  passed: boolean;
+  durationMs: number;
+  errorMessage?: string;
+  stackTrace?: string;
+  cases: SandboxTestCaseResult[];
+  logs: string[];
+}
+
+export interface SandboxRunResult {
+  results: SandboxTestResult[];
+  durationMs: number;
+}
+
+/**
+ * Execute test files against source files in the backend test sandbox (isolated process, no network)
+ */
+export async function runTestsViaBackend(
+  tests: Array<{ id: string; path: string; content: string }>,
+  files: Array<{ path: string; content: string }>,
+  testTimeoutMs?: number
+): Promise<SandboxRunResult> {
+  const response = await fetchBackend('/api/tests/run', {
+    method: 'POST',
+    body: JSON.stringify({ tests, files, testTimeoutMs }),
+  });
+  return response as unknown as SandboxRunResult;
+}
+
+/**
+ * Queue a background job. Resolves with the pending job; follow it with watchJob.
+ */
+export async function submitJob<T extends JobType>(
+  type: T,
+  input: JobInputs[T],
+  priority: JobPriority = 'normal'
+): Promise<Job> {
+  const response = await fetchBackend('/api/jobs', {
+    method: 'POST',
+    body: JSON.stringify({ type, input, priority }),
+  });
+  return (response as unknown as { job: Job }).job;
+}
+
+/**
+ * The caller's jobs, newest first
+ */
+export async function listJobs(filter: JobListFilter = {}): Promise<Job[]> {
+  const params = new URLSearchParams();
+  if (filter.status) params.set('status', filter.status);
+  if (filter.type) params.set('type', filter.type);
+  if (filter.limit !== undefined) params.set('limit', String(filter.limit));
+  const query = params.toString();
+
+  const response = await fetchBackend(`/api/jobs${query ? `?${query}` : ''}`);
+  return (response as unknown as { jobs: Job[] }).jobs;
+}
+
+export async function getJob(jobId: string): Promise<Job> {
+  const response = await fetchBackend(`/api/jobs/${encodeURIComponent(jobId)}`);
+  return (response as unknown as { job: Job }).job;
+}
+
+/**
+ * Cancel a pending or running job. Rejects with status 409 once the job has finished.
+ */
+export async function cancelJob(jobId: string): Promise<Job> {
+  const response = await fetchBackend(`/api/jobs/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' });
+  return (response as unknown as { job: Job }).job;
+}
+
+/**
+ * Structured output of a completed job
+ */
+export async function getJobArtifact(jobId: string): Promise<unknown> {
+  const response = await fetchBackend(`/api/jobs/${encodeURIComponent(jobId)}/artifact`);
+  return (response as unknown as { artifact: unknown }).artifact;
+}
+
+export type JobStreamEvent =
+  | { type: 'snapshot'; job: Job }
+  | { type: 'log'; log: JobLog }
+  | { type: 'status'; job: Job };
+
+/**
+ * Follow a job's logs and status changes (Server-Sent Events).
+ * Calls `onEvent` with the current job first, then with each log entry and status change; resolves when the
+ * backend closes the stream after the job finishes, or when `signal` aborts.
+ */
+export async function watchJob(
+  jobId: string,
+  onEvent: (event: JobStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  try {
+    const response = await fetch(`${BACKEND_URL}/api/jobs/${encodeURIComponent(jobId)}/events`, {
+      headers: {
+        'Accept': 'text/event-stream',
+        'x-api-key': API_KEY,
+      },
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw new ApiServiceError(data.message || data.error || `Backend request failed (${response.status})`, response.status);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) return;
+
+      buffer += decoder.decode(value, { stream: true });
+      const { frames, rest } = parseSseFrames(buffer);
+      buffer = rest;
+
+      for (const frame of frames) {
+        const payload = JSON.parse(frame.data);
+        if (frame.event === 'snapshot' || frame.event === 'status') {
+          onEvent({ type: frame.event, job: payload.job });
+        } else if (frame.event === 'log') {
+          onEvent({ type: 'log', log: payload.log });
+        }
+      }
+    }
+  } catch (error) {
+    if (signal?.aborted) return;
+    throw error;
+  }
+}
+
+/**
+ * MCP servers configured on the backend and whether each is connected
+ */
+export async function listMcpServers(): Promise<MCPServer[]> {
+  const response = await fetchBackend('/api/mcp/servers');
+  return (response as unknown as { servers: MCPServer[] }).servers;
+}
+
+/**
+ * A server's tools; the backend connects to the server first if needed
+ */
+export async function listMcpTools(serverId: string): Promise<MCPToolDefinition[]> {
+  const response = await fetchBackend(`/api/mcp/servers/${encodeURIComponent(serverId)}/tools`);
+  return (response as unknown as { tools: MCPToolDefinition[] }).tools;
+}
+
+/**
+ * Call a tool on an MCP server through the backend. A tool that ran and failed resolves with `isError: true`.
+ */
+export async function callMcpTool(
+  serverId: string,
+  name: string,
+  args: Record<string, unknown>,
+  signal?: AbortSignal
+): Promise<MCPToolResult> {
+  const response = await fetchBackend(`/api/mcp/servers/${encodeURIComponent(serverId)}/tools/call`, {
+    method: 'POST',
+    body: JSON.stringify({ name, arguments: args }),
+    signal,
+  });
+  return response as unknown as MCPToolResult;
+}
+
 /**
  * Check backend health
  */
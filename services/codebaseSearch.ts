@@ -0,0 +1,214 @@
+// services/codebaseSearch.ts
+// Search over workspace files: regex and literal line matching, and semantic search through the
+// IntelligenceService index. Backs the search_codebase agent tool.
+import { WorkspaceFileSystem, WorkspaceEntry } from './workspaceFileSystem';
+import { getIntelligenceService, CodebaseDocument, IntelligenceService } from './intelligenceService';
+
+export type CodebaseSearchMode = 'regex' | 'literal' | 'semantic';
+
+export interface CodebaseSearchOptions {
+  query: string;
+  mode: CodebaseSearchMode;
+  /** Absolute directory to search */
+  root: string;
+  /** Globs relative to root, e.g. `src/**\/*.ts`; a glob without '/' matches file names at any depth */
+  include?: string[];
+  exclude?: string[];
+  /** Regex and literal modes only; default false */
+  caseSensitive?: boolean;
+  /** Default 50 */
+  maxResults?: number;
+  /** Lines shown before and after each regex or literal match; default 0 */
+  contextLines?: number;
+  signal?: AbortSignal;
+}
+
+export interface CodebaseSearchHit {
+  /** Absolute workspace path */
+  path: string;
+  /** 1-based */
+  line: number;
+  endLine: number;
+  /** 1-based column of the match (regex and literal modes) */
+  column?: number;
+  snippet: string;
+  /** Similarity (semantic mode) */
+  score?: number;
+  symbol?: string;
+}
+
+export interface CodebaseSearchResult {
+  hits: CodebaseSearchHit[];
+  filesSearched: number;
+  /** More matches exist than maxResults */
+  truncated: boolean;
+}
+
+export const DEFAULT_MAX_SEARCH_RESULTS = 50;
+const MAX_SNIPPET_LINE_LENGTH = 240;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Regex source (unanchored) for a glob: `**` crosses directories, `*` and `?` do not, `{a,b}` is either.
+ */
+const globSource = (glob: string): string => {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` also matches no directories at all
+      if (glob[i + 2] === '/') {
+        source += '(?:.*/)?';
+        i += 2;
+      } else {
+        source += '.*';
+        i += 1;
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+        continue;
+      }
+      source += `(?:${glob.substring(i + 1, end).split(',').map(globSource).join('|')})`;
+      i = end;
+    } else {
+      source += escapeRegExp(char);
+    }
+  }
+  return source;
+};
+
+/**
+ * Regex matching paths relative to the search root. Globs without a '/' match the file name at any depth.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const normalized = glob.replace(/^\.\//, '');
+  const prefix = normalized.includes('/') ? '' : '(?:.*/)?';
+  return new RegExp(`^${prefix}${globSource(normalized)}$`);
+}
+
+/**
+ * Files under the root that pass the include/exclude globs, skipping git internals
+ */
+const selectFiles = async (fs: WorkspaceFileSystem, options: CodebaseSearchOptions): Promise<WorkspaceEntry[]> => {
+  const root = options.root === '/' ? '' : options.root;
+  const include = (options.include ?? []).map(globToRegExp);
+  const exclude = (options.exclude ?? []).map(globToRegExp);
+  return (await fs.listFiles(options.root)).filter(file => {
+    const relative = file.path.substring(root.length + 1);
+    if (relative.split('/').includes('.git')) return false;
+    if (include.length > 0 && !include.some(pattern => pattern.test(relative))) return false;
+    return !exclude.some(pattern => pattern.test(relative));
+  });
+};
+
+const documentType = (path: string): CodebaseDocument['type'] => {
+  if (/\.(test|spec)\.[jt]sx?$/.test(path)) return 'test';
+  if (/\.(md|mdx|txt|rst)$/i.test(path)) return 'documentation';
+  if (/\.(json|ya?ml|toml|ini|env)$/i.test(path) || /(^|\/)\.[^/]+rc$/.test(path)) return 'config';
+  return 'code';
+};
+
+/**
+ * Index form of a workspace file; its ID is the workspace path
+ */
+export function toCodebaseDocument(file: WorkspaceEntry): CodebaseDocument {
+  return {
+    id: file.path,
+    filePath: file.path,
+    content: file.content ?? '',
+    type: documentType(file.path),
+    language: file.path.match(/\.([a-z0-9]+)$/i)?.[1].toLowerCase(),
+    lastModified: new Date(file.modifiedAt),
+  };
+}
+
+const truncateLine = (line: string) =>
+  line.length > MAX_SNIPPET_LINE_LENGTH ? `${line.substring(0, MAX_SNIPPET_LINE_LENGTH)}…` : line;
+
+const searchLines = (files: WorkspaceEntry[], options: CodebaseSearchOptions, maxResults: number): CodebaseSearchResult => {
+  const source = options.mode === 'literal' ? escapeRegExp(options.query) : options.query;
+  let pattern: RegExp;
+  try {
+    pattern = new RegExp(source, options.caseSensitive ? '' : 'i');
+  } catch (error) {
+    throw new Error(`Invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  const contextLines = options.contextLines ?? 0;
+
+  const hits: CodebaseSearchHit[] = [];
+  for (const file of files) {
+    options.signal?.throwIfAborted();
+    const lines = (file.content ?? '').split('\n');
+    for (let index = 0; index < lines.length; index++) {
+      const match = pattern.exec(lines[index]);
+      if (!match) continue;
+      if (hits.length === maxResults) {
+        return { hits, filesSearched: files.length, truncated: true };
+      }
+      const start = Math.max(0, index - contextLines);
+      const end = Math.min(lines.length - 1, index + contextLines);
+      hits.push({
+        path: file.path,
+        line: index + 1,
+        endLine: index + 1,
+        column: match.index + 1,
+        snippet: lines.slice(start, end + 1).map(truncateLine).join('\n'),
+      });
+    }
+  }
+  return { hits, filesSearched: files.length, truncated: false };
+};
+
+const searchSemantic = async (
+  files: WorkspaceEntry[],
+  options: CodebaseSearchOptions,
+  maxResults: number,
+  intelligence: IntelligenceService
+): Promise<CodebaseSearchResult> => {
+  if (files.length === 0) return { hits: [], filesSearched: 0, truncated: false };
+
+  // Unchanged files are skipped by the index, so this only embeds what changed since the last search
+  await intelligence.indexDocuments(files.map(toCodebaseDocument));
+  options.signal?.throwIfAborted();
+
+  const paths = new Set(files.map(file => file.path));
+  const results = await intelligence.query({
+    query: options.query,
+    topK: maxResults + 1,
+    filters: { filePath: `^(?:${[...paths].map(escapeRegExp).join('|')})$` },
+  });
+  const hits = results
+    .filter(result => paths.has(result.filePath))
+    .map(result => ({
+      path: result.filePath,
+      line: result.startLine,
+      endLine: result.endLine,
+      snippet: result.snippet,
+      score: result.relevanceScore,
+      symbol: result.symbol,
+    }));
+  return { hits: hits.slice(0, maxResults), filesSearched: files.length, truncated: hits.length > maxResults };
+};
+
+export async function searchCodebase(
+  fs: WorkspaceFileSystem,
+  options: CodebaseSearchOptions,
+  intelligence: IntelligenceService = getIntelligenceService()
+): Promise<CodebaseSearchResult> {
+  if (!options.query) throw new Error('Search query is empty');
+  const maxResults = options.maxResults ?? DEFAULT_MAX_SEARCH_RESULTS;
+  const rootEntry = await fs.stat(options.root);
+  if (rootEntry?.type !== 'directory') throw new Error(`Not a directory: ${options.root}`);
+
+  const files = await selectFiles(fs, options);
+  return options.mode === 'semantic'
+    ? searchSemantic(files, options, maxResults, intelligence)
+    : searchLines(files, options, maxResults);
+}
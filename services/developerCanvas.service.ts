@@ -0,0 +1,371 @@
+// services/developerCanvas.service.ts
+// Developer canvas graphs: input, shunt action, tool call, condition and output nodes wired together on the
+// Developers tab. Graphs run node by node in dependency order; snapshots are versioned in Chronicle.
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ShuntAction,
+  CanvasNodeData,
+  CanvasNodeKind,
+  CanvasGraphNode,
+  CanvasGraphEdge,
+  CanvasSnapshot,
+  CanvasNodeResult,
+  CanvasRun,
+} from '../types';
+import { performShunt, gradeOutput } from './geminiService';
+import { executeTool, ExecutionContext } from './toolApi';
+import { DEFAULT_EVOLVE_MODEL } from './evolvePipeline.service';
+import type { VersionControlService } from './versionControl.service';
+
+export const CANVAS_CONTENT_REF = 'developer_canvas';
+const DRAFT_STORAGE_KEY = 'aether-developer-canvas-draft';
+
+// The canvas is driven by the user directly, like the Shunt's Call System Tool action
+const CANVAS_TOOL_CONTEXT: ExecutionContext = {
+  agentId: 'developer-canvas',
+  permissions: ['system:admin', 'filesystem:read', 'filesystem:write', 'scratchpad:write', 'vcs:read', 'vcs:stage', 'vcs:branch', 'vcs:commit', 'execution:tests', 'execution:scripts', 'mcp:call'],
+};
+
+/**
+ * The graph cannot be run or loaded as given
+ */
+export class CanvasGraphError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CanvasGraphError';
+    Object.setPrototypeOf(this, CanvasGraphError.prototype);
+  }
+}
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const conditionSchema = z.union([
+  z.object({ kind: z.literal('length'), operator: z.enum(['gt', 'lt']), value: z.number().int().min(0) }),
+  z.object({ kind: z.literal('score'), operator: z.enum(['gte', 'lt']), value: z.number().min(-10).max(10) }),
+  z.object({ kind: z.literal('contains'), value: z.string().min(1) }),
+]);
+
+const nodeDataSchema = z.discriminatedUnion('kind', [
+  z.object({ kind: z.literal('input'), label: z.string(), value: z.string() }),
+  z.object({ kind: z.literal('shunt'), label: z.string(), action: z.enum(ShuntAction), model: z.string().min(1) }),
+  z.object({ kind: z.literal('tool'), label: z.string(), toolName: z.string(), args: z.string() }),
+  z.object({ kind: z.literal('condition'), label: z.string(), condition: conditionSchema }),
+  z.object({ kind: z.literal('output'), label: z.string() }),
+]);
+
+const snapshotSchema = z.object({
+  nodes: z.array(z.object({
+    id: z.string().min(1),
+    type: z.string().optional(),
+    position: z.object({ x: z.number(), y: z.number() }),
+    data: nodeDataSchema,
+  })),
+  edges: z.array(z.object({
+    id: z.string().min(1),
+    source: z.string().min(1),
+    target: z.string().min(1),
+    sourceHandle: z.string().nullable().optional(),
+  })),
+  viewport: z.object({ x: z.number(), y: z.number(), zoom: z.number() }),
+});
+
+// ============================================================================
+// NODES AND SNAPSHOTS
+// ============================================================================
+
+const DEFAULT_NODE_DATA: Record<CanvasNodeKind, () => CanvasNodeData> = {
+  input: () => ({ kind: 'input', label: 'Input', value: '' }),
+  shunt: () => ({ kind: 'shunt', label: ShuntAction.SUMMARIZE, action: ShuntAction.SUMMARIZE, model: DEFAULT_EVOLVE_MODEL }),
+  tool: () => ({ kind: 'tool', label: 'Read file', toolName: 'read_file', args: '{ "path": "{{input}}" }' }),
+  condition: () => ({ kind: 'condition', label: 'Condition', condition: { kind: 'contains', value: 'TODO' } }),
+  output: () => ({ kind: 'output', label: 'Output' }),
+};
+
+/**
+ * A new node of `kind` with default settings; its React Flow `type` is its kind
+ */
+export function createCanvasNode(kind: CanvasNodeKind, position: { x: number; y: number }): CanvasGraphNode {
+  return { id: `${kind}-${uuidv4().slice(0, 8)}`, type: kind, position, data: DEFAULT_NODE_DATA[kind]() };
+}
+
+/**
+ * The saved form of a graph: only ids, types, positions, settings and wiring, so that selection, dragging and
+ * measured sizes do not show up as changes between snapshots
+ */
+export function toCanvasSnapshot(nodes: CanvasGraphNode[], edges: CanvasGraphEdge[], viewport: CanvasSnapshot['viewport']): CanvasSnapshot {
+  return {
+    nodes: nodes.map(({ id, type, position, data }) => ({ id, type, position: { x: position.x, y: position.y }, data })),
+    edges: edges.map(({ id, source, target, sourceHandle }) => ({ id, source, target, sourceHandle: sourceHandle ?? null })),
+    viewport: { x: viewport.x, y: viewport.y, zoom: viewport.zoom },
+  };
+}
+
+/**
+ * Parse snapshot JSON. Throws a CanvasGraphError describing the first problem when it is not a valid canvas.
+ */
+export function parseCanvasSnapshot(json: string): CanvasSnapshot {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new CanvasGraphError('Canvas snapshot is not valid JSON.');
+  }
+
+  const result = snapshotSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new CanvasGraphError(`Invalid canvas snapshot${issue.path.length ? ` at ${issue.path.join('.')}` : ''}: ${issue.message}`);
+  }
+  return result.data as CanvasSnapshot;
+}
+
+/**
+ * The unsaved graph kept between visits to the Developers tab
+ */
+export function saveCanvasDraft(snapshot: CanvasSnapshot): void {
+  try {
+    localStorage.setItem(DRAFT_STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.error('Failed to save the canvas draft', error);
+  }
+}
+
+export function loadCanvasDraft(): CanvasSnapshot | null {
+  const stored = localStorage.getItem(DRAFT_STORAGE_KEY);
+  if (!stored) return null;
+  try {
+    return parseCanvasSnapshot(stored);
+  } catch (error) {
+    console.error('Failed to load the canvas draft', error);
+    return null;
+  }
+}
+
+/**
+ * Save a snapshot to Chronicle. Returns false, saving nothing, when the graph is unchanged since the last snapshot.
+ */
+export async function recordCanvasSnapshot(versionControlService: VersionControlService, snapshot: CanvasSnapshot, summary?: string): Promise<boolean> {
+  const content = JSON.stringify(snapshot, null, 2);
+  const [latest] = versionControlService.getVersions(CANVAS_CONTENT_REF);
+  if (latest && versionControlService.getVersionContent(latest.versionId) === content) return false;
+
+  await versionControlService.captureVersion(
+    'developer_canvas_snapshot',
+    CANVAS_CONTENT_REF,
+    content,
+    'user_action',
+    summary || `Canvas snapshot (${snapshot.nodes.length} nodes, ${snapshot.edges.length} edges)`,
+    { nodeCount: snapshot.nodes.length, edgeCount: snapshot.edges.length }
+  );
+  return true;
+}
+
+/**
+ * The most recent snapshot saved to Chronicle, or null when there is none or it no longer parses
+ */
+export function loadLatestCanvasSnapshot(versionControlService: VersionControlService): CanvasSnapshot | null {
+  const [latest] = versionControlService.getVersions(CANVAS_CONTENT_REF);
+  const content = latest ? versionControlService.getVersionContent(latest.versionId) : null;
+  if (!content) return null;
+  try {
+    return parseCanvasSnapshot(content);
+  } catch (error) {
+    console.error('Failed to load the latest canvas snapshot', error);
+    return null;
+  }
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * Model and tool calls a run makes; replaceable for tests
+ */
+export interface CanvasRunnerDeps {
+  runAction: (text: string, action: ShuntAction, model: string) => Promise<string>;
+  /** gradeOutput score (-10 to 10) of `output` for `originalPrompt` */
+  grade: (output: string, originalPrompt: string) => Promise<number>;
+  /** Tool output as text; rejects when the call fails */
+  runTool: (toolName: string, args: unknown, signal?: AbortSignal) => Promise<string>;
+}
+
+export const defaultCanvasRunnerDeps: CanvasRunnerDeps = {
+  runAction: async (text, action, model) => (await performShunt(text, action, model)).resultText,
+  grade: async (output, originalPrompt) => (await gradeOutput(output, originalPrompt)).score,
+  runTool: async (toolName, args, signal) => {
+    const result = await executeTool(toolName, args, { ...CANVAS_TOOL_CONTEXT, signal });
+    if (!result.success) throw new Error(result.error?.message ?? `Tool '${toolName}' failed.`);
+    return typeof result.data === 'string' ? result.data : JSON.stringify(result.data, null, 2);
+  },
+};
+
+export interface CanvasRunOptions {
+  deps?: CanvasRunnerDeps;
+  /** Called when a node starts and again with its final result */
+  onNodeResult?: (result: CanvasNodeResult) => void;
+  /** Aborting stops the run before its next node */
+  signal?: AbortSignal;
+}
+
+/**
+ * Node ids in an order where every node comes after the nodes wired into it.
+ * Throws a CanvasGraphError when an edge points at a missing node or the wiring has a cycle.
+ */
+export function orderCanvasNodes(nodes: CanvasGraphNode[], edges: CanvasGraphEdge[]): string[] {
+  const ids = new Set(nodes.map(node => node.id));
+  const incoming = new Map(nodes.map(node => [node.id, 0]));
+  const outgoing = new Map<string, string[]>(nodes.map(node => [node.id, []]));
+
+  for (const edge of edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) {
+      throw new CanvasGraphError(`Edge '${edge.id}' connects a node that is not on the canvas.`);
+    }
+    outgoing.get(edge.source)!.push(edge.target);
+    incoming.set(edge.target, incoming.get(edge.target)! + 1);
+  }
+
+  const ready = nodes.filter(node => incoming.get(node.id) === 0).map(node => node.id);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const target of outgoing.get(id)!) {
+      incoming.set(target, incoming.get(target)! - 1);
+      if (incoming.get(target) === 0) ready.push(target);
+    }
+  }
+
+  if (order.length < nodes.length) {
+    const looped = nodes.filter(node => !order.includes(node.id)).map(node => node.data.label || node.id);
+    throw new CanvasGraphError(`The graph has a cycle through: ${looped.join(', ')}.`);
+  }
+  return order;
+}
+
+/**
+ * `template` with every `{{input}}` replaced by `input`, escaped for use inside a JSON string, then parsed
+ */
+export function renderToolArgs(template: string, input: string): unknown {
+  const escaped = JSON.stringify(input).slice(1, -1);
+  const rendered = template.replace(/\{\{\s*input\s*\}\}/g, () => escaped);
+  try {
+    return JSON.parse(rendered.trim() || '{}');
+  } catch {
+    throw new Error('Tool arguments are not valid JSON once {{input}} is filled in.');
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'An unknown error occurred';
+}
+
+interface NodeOutcome {
+  output: string;
+  branch?: 'true' | 'false';
+  score?: number;
+}
+
+async function runNode(data: CanvasNodeData, input: string, graphInput: string, deps: CanvasRunnerDeps, signal?: AbortSignal): Promise<NodeOutcome> {
+  switch (data.kind) {
+    case 'input':
+      return { output: data.value };
+    case 'output':
+      return { output: input };
+    case 'shunt':
+      return { output: await deps.runAction(input, data.action, data.model) };
+    case 'tool':
+      if (!data.toolName.trim()) throw new Error('No tool selected.');
+      return { output: await deps.runTool(data.toolName, renderToolArgs(data.args, input), signal) };
+    case 'condition': {
+      const condition = data.condition;
+      let matched: boolean;
+      let score: number | undefined;
+      if (condition.kind === 'length') {
+        matched = condition.operator === 'gt' ? input.length > condition.value : input.length < condition.value;
+      } else if (condition.kind === 'contains') {
+        matched = input.toLowerCase().includes(condition.value.toLowerCase());
+      } else {
+        score = await deps.grade(input, graphInput);
+        matched = condition.operator === 'gte' ? score >= condition.value : score < condition.value;
+      }
+      return { output: input, branch: matched ? 'true' : 'false', score };
+    }
+  }
+}
+
+/**
+ * Run a graph. A node runs once every node wired into it has finished, on their outputs joined by blank lines;
+ * edges out of a condition node carry its input only from the handle it chose. Nodes none of whose inputs produced
+ * anything are skipped. Node failures do not throw: the node gets an error result, its outgoing edges stay empty
+ * and the run's status is 'error'. Throws a CanvasGraphError for graphs that cannot be ordered.
+ */
+export async function runCanvasGraph(nodes: CanvasGraphNode[], edges: CanvasGraphEdge[], options: CanvasRunOptions = {}): Promise<CanvasRun> {
+  const order = orderCanvasNodes(nodes, edges);
+  const deps = options.deps ?? defaultCanvasRunnerDeps;
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const results: Record<string, CanvasNodeResult> = {};
+  // What each edge carried, by edge id; missing when the edge carried nothing
+  const carried = new Map<string, string>();
+  // Grades for 'score' conditions are against the text the graph started from
+  const graphInput = nodes
+    .map(node => node.data)
+    .filter(data => data.kind === 'input')
+    .map(data => data.value)
+    .join('\n\n');
+  const startedAt = new Date().toISOString();
+  let status: CanvasRun['status'] = 'success';
+
+  const report = (result: CanvasNodeResult) => {
+    results[result.nodeId] = result;
+    options.onNodeResult?.(result);
+  };
+
+  for (const nodeId of order) {
+    if (options.signal?.aborted) {
+      status = 'cancelled';
+      break;
+    }
+
+    const node = byId.get(nodeId)!;
+    const inbound = edges.filter(edge => edge.target === nodeId);
+    const received = inbound.filter(edge => carried.has(edge.id)).map(edge => carried.get(edge.id)!);
+    const input = received.join('\n\n');
+
+    if (inbound.length > 0 && received.length === 0) {
+      report({ nodeId, status: 'skipped', input: '', output: '' });
+      continue;
+    }
+
+    report({ nodeId, status: 'running', input, output: '' });
+    const started = Date.now();
+    try {
+      const outcome = await runNode(node.data, input, graphInput, deps, options.signal);
+      report({ nodeId, status: 'success', input, ...outcome, durationMs: Date.now() - started });
+      for (const edge of edges) {
+        if (edge.source !== nodeId) continue;
+        if (outcome.branch && edge.sourceHandle !== outcome.branch) continue;
+        carried.set(edge.id, outcome.output);
+      }
+    } catch (error) {
+      report({ nodeId, status: 'error', input, output: '', error: errorMessage(error), durationMs: Date.now() - started });
+      status = 'error';
+    }
+  }
+
+  return {
+    id: uuidv4(),
+    status,
+    results,
+    outputs: order
+      .map(id => byId.get(id)!)
+      .filter(node => node.data.kind === 'output' && results[node.id]?.status === 'success')
+      .map(node => ({ nodeId: node.id, label: node.data.label, output: results[node.id].output })),
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+}
@@ -0,0 +1,432 @@
+// services/evolvePipeline.service.ts
+// Evolve pipelines: named, saved chains of shunt actions with per-step models, retries, conditional branches and
+// parallel fan-outs. Pipelines are kept in localStorage and shared as JSON; every run can be recorded in Chronicle.
+
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  ShuntAction,
+  EvolveCondition,
+  EvolveStep,
+  EvolveActionStep,
+  EvolveBranchStep,
+  EvolveFanOutStep,
+  EvolvePipeline,
+  EvolveResult,
+  EvolveRun,
+} from '../types';
+import { performShunt, gradeOutput, synthesizeDocuments } from './geminiService';
+import type { VersionControlService } from './versionControl.service';
+
+const PIPELINES_STORAGE_KEY = 'aether-evolve-pipelines';
+const EXPORT_FORMAT = 'aether-evolve-pipeline';
+const EXPORT_VERSION = 1;
+const MAX_RETRIES = 5;
+
+export const DEFAULT_EVOLVE_MODEL = 'gemini-2.5-flash';
+
+export const EVOLVE_MODELS = [
+  { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' },
+  { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
+];
+
+/** Starting settings for each kind of condition when a user picks it */
+export const DEFAULT_EVOLVE_CONDITIONS: Record<EvolveCondition['kind'], EvolveCondition> = {
+  length: { kind: 'length', operator: 'gt', value: 1000 },
+  score: { kind: 'score', operator: 'gte', value: 5 },
+  contains: { kind: 'contains', value: 'TODO' },
+};
+
+// ============================================================================
+// SCHEMA
+// ============================================================================
+
+const shuntActionSchema = z.enum(ShuntAction);
+const onErrorSchema = z.enum(['stop', 'skip']).optional();
+
+const conditionSchema: z.ZodType<EvolveCondition> = z.union([
+  z.object({ kind: z.literal('length'), operator: z.enum(['gt', 'lt']), value: z.number().int().min(0) }),
+  z.object({ kind: z.literal('score'), operator: z.enum(['gte', 'lt']), value: z.number().min(-10).max(10) }),
+  z.object({ kind: z.literal('contains'), value: z.string().min(1) }),
+]);
+
+const stepSchema: z.ZodType<EvolveStep> = z.lazy(() =>
+  z.union([
+    z.object({
+      id: z.string().min(1),
+      type: z.literal('branch'),
+      condition: conditionSchema,
+      then: z.array(stepSchema),
+      otherwise: z.array(stepSchema),
+    }),
+    z.object({
+      id: z.string().min(1),
+      type: z.literal('fanout'),
+      actions: z.array(shuntActionSchema).min(2).max(8),
+      model: z.string().min(1).optional(),
+      merge: z.enum(['concatenate', 'synthesize', 'best_score']),
+      onError: onErrorSchema,
+    }),
+    z.object({
+      id: z.string().min(1),
+      type: z.literal('action').optional(),
+      action: shuntActionSchema,
+      model: z.string().min(1).optional(),
+      retries: z.number().int().min(0).max(MAX_RETRIES).optional(),
+      onError: onErrorSchema,
+    }),
+  ])
+);
+
+const pipelineSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1).max(200),
+  description: z.string().max(2000).optional(),
+  defaultModel: z.string().min(1),
+  steps: z.array(stepSchema),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+});
+
+const exportSchema = z.object({
+  format: z.literal(EXPORT_FORMAT),
+  version: z.literal(EXPORT_VERSION),
+  pipeline: pipelineSchema.omit({ id: true, createdAt: true, updatedAt: true }),
+});
+
+// ============================================================================
+// PERSISTENCE AND SHARING
+// ============================================================================
+
+export function createEvolvePipeline(name: string, defaultModel: string = DEFAULT_EVOLVE_MODEL, steps: EvolveStep[] = []): EvolvePipeline {
+  const now = new Date().toISOString();
+  return { id: uuidv4(), name, defaultModel, steps, createdAt: now, updatedAt: now };
+}
+
+/**
+ * Saved pipelines, most recently updated first. Entries that no longer match the schema are skipped.
+ */
+export function loadEvolvePipelines(): EvolvePipeline[] {
+  try {
+    const stored = localStorage.getItem(PIPELINES_STORAGE_KEY);
+    if (!stored) return [];
+    const parsed: unknown[] = JSON.parse(stored);
+    return parsed
+      .map(entry => pipelineSchema.safeParse(entry))
+      .filter(result => result.success)
+      .map(result => result.data as EvolvePipeline)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  } catch (error) {
+    console.error('Failed to load Evolve pipelines', error);
+    return [];
+  }
+}
+
+function storePipelines(pipelines: EvolvePipeline[]): void {
+  localStorage.setItem(PIPELINES_STORAGE_KEY, JSON.stringify(pipelines));
+}
+
+/**
+ * Insert or replace a pipeline by id. Returns the saved copy with a fresh `updatedAt`.
+ */
+export function saveEvolvePipeline(pipeline: EvolvePipeline): EvolvePipeline {
+  const saved = { ...pipeline, updatedAt: new Date().toISOString() };
+  storePipelines([saved, ...loadEvolvePipelines().filter(existing => existing.id !== pipeline.id)]);
+  return saved;
+}
+
+export function deleteEvolvePipeline(id: string): void {
+  storePipelines(loadEvolvePipelines().filter(pipeline => pipeline.id !== id));
+}
+
+/**
+ * Shareable JSON for a pipeline, without its local id and timestamps
+ */
+export function exportEvolvePipeline(pipeline: EvolvePipeline): string {
+  const { id: _id, createdAt: _createdAt, updatedAt: _updatedAt, ...shared } = pipeline;
+  return JSON.stringify({ format: EXPORT_FORMAT, version: EXPORT_VERSION, pipeline: shared }, null, 2);
+}
+
+/**
+ * Parse pipeline JSON produced by exportEvolvePipeline into a new, unsaved pipeline.
+ * Throws an Error describing the first problem when the JSON is not a valid pipeline.
+ */
+export function importEvolvePipeline(json: string): EvolvePipeline {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Pipeline file is not valid JSON.');
+  }
+
+  const result = exportSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new Error(`Invalid pipeline${issue.path.length ? ` at ${issue.path.join('.')}` : ''}: ${issue.message}`);
+  }
+
+  const { name, description, defaultModel, steps } = result.data.pipeline;
+  return { ...createEvolvePipeline(name, defaultModel, steps as EvolveStep[]), description };
+}
+
+// ============================================================================
+// EXECUTION
+// ============================================================================
+
+/**
+ * Model calls a run makes; replaceable for tests
+ */
+export interface EvolveRunnerDeps {
+  runAction: (text: string, action: ShuntAction, model: string) => Promise<string>;
+  /** gradeOutput score (-10 to 10) of `output` for `originalPrompt` */
+  grade: (output: string, originalPrompt: string) => Promise<number>;
+  synthesize: (combinedContent: string, model: string) => Promise<string>;
+}
+
+export const defaultEvolveRunnerDeps: EvolveRunnerDeps = {
+  runAction: async (text, action, model) => (await performShunt(text, action, model)).resultText,
+  grade: async (output, originalPrompt) => (await gradeOutput(output, originalPrompt)).score,
+  synthesize: async (combinedContent, model) => (await synthesizeDocuments(combinedContent, model)).resultText,
+};
+
+export interface EvolveRunOptions {
+  deps?: EvolveRunnerDeps;
+  /** Called with each step as it starts */
+  onStepStart?: (step: EvolveStep, depth: number) => void;
+  /** Called with each recorded result and all results so far */
+  onResult?: (result: EvolveResult, results: EvolveResult[]) => void;
+  /** Aborting stops the run before its next step */
+  signal?: AbortSignal;
+}
+
+class EvolveRunStopped extends Error {
+  constructor(public readonly reason: 'error' | 'cancelled') {
+    super(`Evolve run ${reason === 'error' ? 'failed' : 'was cancelled'}`);
+  }
+}
+
+interface RunContext {
+  pipeline: EvolvePipeline;
+  input: string;
+  deps: EvolveRunnerDeps;
+  options: EvolveRunOptions;
+  results: EvolveResult[];
+  /** gradeOutput scores by text, so a branch and a best_score merge never grade the same text twice */
+  scores: Map<string, number>;
+  /** Last text produced by a successful step */
+  lastOutput: string;
+}
+
+export function describeCondition(condition: EvolveCondition): string {
+  switch (condition.kind) {
+    case 'length':
+      return `length ${condition.operator === 'gt' ? '>' : '<'} ${condition.value}`;
+    case 'score':
+      return `score ${condition.operator === 'gte' ? '>=' : '<'} ${condition.value}`;
+    case 'contains':
+      return `contains "${condition.value}"`;
+  }
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : 'An unknown error occurred';
+}
+
+function record(ctx: RunContext, result: EvolveResult): void {
+  ctx.results.push(result);
+  ctx.options.onResult?.(result, [...ctx.results]);
+}
+
+async function score(ctx: RunContext, text: string): Promise<number> {
+  const cached = ctx.scores.get(text);
+  if (cached !== undefined) return cached;
+  const value = await ctx.deps.grade(text, ctx.input);
+  ctx.scores.set(text, value);
+  return value;
+}
+
+async function evaluateCondition(ctx: RunContext, condition: EvolveCondition, text: string): Promise<{ matched: boolean; score?: number }> {
+  switch (condition.kind) {
+    case 'length':
+      return { matched: condition.operator === 'gt' ? text.length > condition.value : text.length < condition.value };
+    case 'contains':
+      return { matched: text.toLowerCase().includes(condition.value.toLowerCase()) };
+    case 'score': {
+      const value = await score(ctx, text);
+      return { matched: condition.operator === 'gte' ? value >= condition.value : value < condition.value, score: value };
+    }
+  }
+}
+
+async function runActionStep(ctx: RunContext, step: EvolveActionStep, text: string, depth: number): Promise<string> {
+  const model = step.model ?? ctx.pipeline.defaultModel;
+  const maxAttempts = 1 + Math.min(Math.max(step.retries ?? 0, 0), MAX_RETRIES);
+  let lastError: unknown;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      const output = await ctx.deps.runAction(text, step.action, model);
+      record(ctx, { stepId: step.id, kind: 'action', label: step.action, depth, output, status: 'success', model, attempts: attempt });
+      return output;
+    } catch (error) {
+      lastError = error;
+      if (ctx.options.signal?.aborted) throw new EvolveRunStopped('cancelled');
+    }
+  }
+
+  const base = { stepId: step.id, kind: 'action' as const, label: step.action, depth, error: errorMessage(lastError), model, attempts: maxAttempts };
+  if (step.onError === 'skip') {
+    record(ctx, { ...base, output: text, status: 'skipped' });
+    return text;
+  }
+  record(ctx, { ...base, output: '', status: 'error' });
+  throw new EvolveRunStopped('error');
+}
+
+async function runBranchStep(ctx: RunContext, step: EvolveBranchStep, text: string, depth: number): Promise<string> {
+  const label = `If ${describeCondition(step.condition)}`;
+  let outcome: { matched: boolean; score?: number };
+  try {
+    outcome = await evaluateCondition(ctx, step.condition, text);
+  } catch (error) {
+    record(ctx, { stepId: step.id, kind: 'branch', label, depth, output: '', status: 'error', error: errorMessage(error) });
+    throw new EvolveRunStopped('error');
+  }
+
+  record(ctx, {
+    stepId: step.id,
+    kind: 'branch',
+    label: `${label} → ${outcome.matched ? 'then' : 'otherwise'}`,
+    depth,
+    output: text,
+    status: 'success',
+    score: outcome.score,
+  });
+  return runSteps(ctx, outcome.matched ? step.then : step.otherwise, text, depth + 1);
+}
+
+async function runFanOutStep(ctx: RunContext, step: EvolveFanOutStep, text: string, depth: number): Promise<string> {
+  const model = step.model ?? ctx.pipeline.defaultModel;
+  const label = `Fan-out: ${step.actions.join(', ')} (${step.merge.replace('_', ' ')})`;
+  const settled = await Promise.allSettled(step.actions.map(action => ctx.deps.runAction(text, action, model)));
+  if (ctx.options.signal?.aborted) throw new EvolveRunStopped('cancelled');
+
+  const branches: EvolveResult[] = settled.map((outcome, index) => ({
+    stepId: `${step.id}:${index}`,
+    kind: 'action',
+    label: step.actions[index],
+    depth: depth + 1,
+    output: outcome.status === 'fulfilled' ? outcome.value : '',
+    status: outcome.status === 'fulfilled' ? 'success' : 'error',
+    error: outcome.status === 'rejected' ? errorMessage(outcome.reason) : undefined,
+    model,
+  }));
+  const succeeded = branches.filter(branch => branch.status === 'success');
+
+  let merged: string | null = null;
+  let mergeError: unknown = succeeded.length === 0 ? new Error('Every fan-out action failed') : null;
+  let bestScore: number | undefined;
+
+  if (succeeded.length > 0) {
+    try {
+      const concatenated = succeeded.map(branch => `## ${branch.label}\n\n${branch.output}`).join('\n\n');
+      if (step.merge === 'concatenate') {
+        merged = concatenated;
+      } else if (step.merge === 'synthesize') {
+        merged = await ctx.deps.synthesize(concatenated, model);
+      } else {
+        const scores = await Promise.all(succeeded.map(branch => score(ctx, branch.output)));
+        succeeded.forEach((branch, index) => { branch.score = scores[index]; });
+        const best = scores.indexOf(Math.max(...scores));
+        merged = succeeded[best].output;
+        bestScore = scores[best];
+      }
+    } catch (error) {
+      mergeError = error;
+    }
+  }
+
+  const base = { stepId: step.id, kind: 'fanout' as const, label, depth, model };
+  if (merged !== null) {
+    record(ctx, { ...base, output: merged, status: 'success', score: bestScore });
+  } else if (step.onError === 'skip') {
+    record(ctx, { ...base, output: text, status: 'skipped', error: errorMessage(mergeError) });
+  } else {
+    record(ctx, { ...base, output: '', status: 'error', error: errorMessage(mergeError) });
+  }
+  branches.forEach(branch => record(ctx, branch));
+
+  if (merged !== null) return merged;
+  if (step.onError === 'skip') return text;
+  throw new EvolveRunStopped('error');
+}
+
+async function runSteps(ctx: RunContext, steps: EvolveStep[], text: string, depth: number): Promise<string> {
+  let current = text;
+  for (const step of steps) {
+    if (ctx.options.signal?.aborted) throw new EvolveRunStopped('cancelled');
+    ctx.options.onStepStart?.(step, depth);
+
+    if (step.type === 'branch') {
+      current = await runBranchStep(ctx, step, current, depth);
+    } else if (step.type === 'fanout') {
+      current = await runFanOutStep(ctx, step, current, depth);
+    } else {
+      current = await runActionStep(ctx, step, current, depth);
+    }
+    ctx.lastOutput = current;
+  }
+  return current;
+}
+
+/**
+ * Run a pipeline on `input`. Never throws for step failures: the returned run has status 'error' (or 'cancelled')
+ * and its output is the text of the last step that succeeded.
+ */
+export async function runEvolvePipeline(pipeline: EvolvePipeline, input: string, options: EvolveRunOptions = {}): Promise<EvolveRun> {
+  const ctx: RunContext = {
+    pipeline,
+    input,
+    deps: options.deps ?? defaultEvolveRunnerDeps,
+    options,
+    results: [],
+    scores: new Map(),
+    lastOutput: input,
+  };
+  const startedAt = new Date().toISOString();
+  let status: EvolveRun['status'] = 'success';
+
+  try {
+    await runSteps(ctx, pipeline.steps, input, 0);
+  } catch (error) {
+    if (!(error instanceof EvolveRunStopped)) throw error;
+    status = error.reason;
+  }
+
+  return {
+    id: uuidv4(),
+    pipelineId: pipeline.id,
+    pipelineName: pipeline.name,
+    input,
+    output: ctx.lastOutput,
+    status,
+    results: ctx.results,
+    startedAt,
+    finishedAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Record a run in Chronicle, versioned per pipeline
+ */
+export async function recordEvolveRun(versionControlService: VersionControlService, run: EvolveRun): Promise<void> {
+  const failed = run.results.filter(result => result.status === 'error').length;
+  await versionControlService.captureVersion(
+    'evolve_pipeline_run',
+    `evolve_pipeline_${run.pipelineId}`,
+    JSON.stringify(run, null, 2),
+    'ai_response',
+    `Evolve pipeline "${run.pipelineName}" ${run.status} (${run.results.length} results${failed ? `, ${failed} failed` : ''})`,
+    { runId: run.id, pipelineId: run.pipelineId, status: run.status }
+  );
+}
@@ -6,13 +6,29 @@
 import { ShuntAction, GeminiResponse, TokenUsage, PromptModuleKey } from '../types';
 import { getPromptForAction, constructModularPrompt } from './prompts';
 import { logFrontendError, ErrorSeverity } from "../utils/errorLogger";
-import { withRetries } from './apiUtils';
+import { withRetries, ApiServiceError } from './apiUtils';
 import { geminiDevelopmentPlanResponseSchema } from '../types/schemas';
 import {
+    type StreamChunkHandler,
+    type StreamResult,
+    type ShuntResult,
+    type ShuntRequestOptions,
+    type ShuntBatchItem,
+    type ShuntBatchResult,
+    type ChatReply,
+    type ChatRole,
+    type ChatSessionOptions,
+    type ChatGenerationConfig,
     performShuntViaBackend,
+    streamShuntViaBackend,
+    performShuntBatchViaBackend,
     executeModularPromptViaBackend,
     analyzeImageViaBackend,
     generateContentViaBackend,
+    generateDevelopmentPlanViaBackend,
+    createChatSession,
+    sendChatMessage,
+    streamChatMessage,
 } from './backendApiService';
 
 // Helper to create default token usage for functions that don't return it from backend
@@ -29,11 +45,12 @@ export const performShunt = async (
     modelName: string,
     context?: string,
     priority?: string,
-    promptInjectionGuardEnabled?: boolean
-): Promise<{ resultText: string; tokenUsage: TokenUsage }> => {
+    promptInjectionGuardEnabled?: boolean,
+    options?: ShuntRequestOptions
+): Promise<ShuntResult> => {
   try {
     const apiCall = async () => {
-        return await performShuntViaBackend(text, action, modelName, context, priority, promptInjectionGuardEnabled);
+        return await performShuntViaBackend(text, action, modelName, context, priority, promptInjectionGuardEnabled, options);
     };
     return await withRetries(apiCall);
   } catch (error) {
@@ -42,6 +59,56 @@ export const performShunt = async (
   }
 };
 
+/**
+ * Streaming variant of performShunt: `onChunk` receives partial output as it is generated.
+ * The resolved resultText is the backend's final (cleaned) output and should replace the streamed text.
+ */
+export const performShuntStream = async (
+    text: string,
+    action: ShuntAction,
+    modelName: string,
+    onChunk: StreamChunkHandler,
+    context?: string,
+    priority?: string,
+    promptInjectionGuardEnabled?: boolean,
+    signal?: AbortSignal,
+    options?: ShuntRequestOptions
+): Promise<StreamResult> => {
+  try {
+    // Retries only happen on rate limit errors, which are returned before any chunk is streamed
+    const apiCall = async () => {
+        return await streamShuntViaBackend(text, action, modelName, onChunk, context, priority, promptInjectionGuardEnabled, signal, options);
+    };
+    return await withRetries(apiCall);
+  } catch (error) {
+    logFrontendError(error, ErrorSeverity.High, { context: 'performShuntStream Backend API call' });
+    throw error;
+  }
+};
+
+/**
+ * Apply one shunt action to every item in a single backend request. Failed items are reported per item.
+ */
+export const performShuntBatch = async (
+    items: ShuntBatchItem[],
+    action: ShuntAction,
+    modelName: string,
+    context?: string,
+    priority?: string,
+    promptInjectionGuardEnabled?: boolean,
+    options?: Omit<ShuntRequestOptions, 'embedding'> & { concurrency?: number }
+): Promise<ShuntBatchResult> => {
+  try {
+    const apiCall = async () => {
+        return await performShuntBatchViaBackend(items, action, modelName, context, priority, promptInjectionGuardEnabled, options);
+    };
+    return await withRetries(apiCall);
+  } catch (error) {
+    logFrontendError(error, ErrorSeverity.High, { context: 'performShuntBatch Backend API call' });
+    throw error;
+  }
+};
+
 export const executeModularPrompt = async (
   text: string,
   modules: Set<PromptModuleKey>,
@@ -209,39 +276,10 @@ export const getAIChatResponseWithContextFlag = async (prompt: string): Promise<
 };
 
 export async function generateDevelopmentPlan(goal: string, context: string): Promise<GeminiResponse> {
-  const prompt = `
-You are an expert software architect acting as a 'Strategy & Task Formulation' AI. Your role is to assist a user in managing the development of this application, the 'AI Content Shunt'.
-
-You will be given a high-level development goal from the user and the project's context from a 'GEMINI_CONTEXT.md' file.
-
-Your task is to deconstruct the goal into a clear, actionable development plan for a code-generating AI based on the schema provided.
-
-**Project Context:**
----
-${context}
----
-
-**User's Goal:**
----
-${goal}
----
-
-**Instructions:**
-1.  **Ask Clarifying Questions:** Identify any ambiguities and list questions to help the user refine the goal.
-2.  **Propose an Architecture:** Briefly explain the technical approach in simple terms, referencing existing files and components.
-3.  **Define Implementation Tasks:** Create a list of specific, atomic tasks for the coding AI. Each task must include the full file path to be modified, a description of the change, and precise details in the 'details' field. **DO NOT** use the 'newContent' field.
-4.  **Suggest Test Cases:** Provide a list of simple, verifiable test cases to confirm the feature works as expected.
-`;
-
+  // The backend builds the prompt so every plan counts against the weaverPlans limit
   try {
     const apiCall = async () => {
-        const result = await generateContentViaBackend(prompt, 'gemini-2.5-pro', {
-            responseMimeType: "application/json",
-            temperature: 0.1,
-            topP: 0.9,
-            topK: 40,
-            maxOutputTokens: 4096,
-        });
+        const result = await generateDevelopmentPlanViaBackend(goal, context);
 
         const parsedResponse = JSON.parse(result.resultText);
         const validatedResponse = geminiDevelopmentPlanResponseSchema.parse(parsedResponse);
@@ -350,10 +388,78 @@ Then, if the image contains a character, creature, or object suitable for a 3D m
   }
 };
 
-// Note: Chat functionality requires different backend implementation
-// For now, this will throw an error - implement chat endpoint in backend if needed
-export const startChat = (history?: { role: string, parts: { text: string }[] }[]): never => {
-    throw new Error('Chat functionality not yet supported via backend API. Please implement /api/gemini/chat endpoint.');
+export interface StartChatOptions extends Omit<ChatSessionOptions, 'history'> {
+    /** Backend session to continue, e.g. one stored from an earlier page load */
+    sessionId?: string | null;
+    /** Conversation so far; seeds a new session when there is none yet or the backend no longer has it */
+    history?: { role: string, parts: { text: string }[] }[];
+    config?: ChatGenerationConfig;
+}
+
+export interface ChatHandle {
+    /** Backend session id, once the first message has created the session */
+    readonly sessionId: string | null;
+    /** Send a message; streams the reply through `onChunk` when given */
+    sendMessage: (text: string, onChunk?: StreamChunkHandler, signal?: AbortSignal) => Promise<ChatReply>;
+}
+
+// Limits of the backend's session history (chatSessionCreateSchema); anything larger is rejected with a 400
+const MAX_SEED_TURNS = 200;
+const MAX_SEED_TURN_CHARS = 50000;
+
+// Sessions take role-tagged text turns and must open with a user turn (drops e.g. a canned greeting).
+// Long conversations are cut to their latest turns so a session can always be recreated from local history.
+const toChatTurns = (history: { role: string, parts: { text: string }[] }[]): { role: ChatRole, text: string }[] => {
+    const turns = history
+        .map(turn => ({
+            role: (turn.role === 'user' ? 'user' : 'model') as ChatRole,
+            text: turn.parts.map(part => part.text).join('\n').trim().slice(0, MAX_SEED_TURN_CHARS),
+        }))
+        .filter(turn => turn.text.length > 0)
+        .slice(-MAX_SEED_TURNS);
+    const firstUserTurn = turns.findIndex(turn => turn.role === 'user');
+    return firstUserTurn === -1 ? [] : turns.slice(firstUserTurn);
+};
+
+/**
+ * Multi-turn chat through a backend session, which holds the history and keeps it within the model's context window.
+ * The session is created on the first message, seeded with `history`, and recreated the same way if a resumed
+ * session has expired.
+ */
+export const startChat = (options: StartChatOptions = {}): ChatHandle => {
+    const { sessionId: resumedSessionId, history = [], config, ...sessionOptions } = options;
+    let sessionId = resumedSessionId ?? null;
+
+    const createSession = async (): Promise<string> => {
+        const session = await createChatSession({ ...sessionOptions, history: toChatTurns(history) });
+        sessionId = session.id;
+        return session.id;
+    };
+
+    const send = (id: string, text: string, onChunk?: StreamChunkHandler, signal?: AbortSignal) =>
+        onChunk ? streamChatMessage(id, text, onChunk, config, signal) : sendChatMessage(id, text, config);
+
+    return {
+        get sessionId() {
+            return sessionId;
+        },
+        sendMessage: async (text, onChunk, signal) => {
+            try {
+                return await withRetries(async () => {
+                    const id = sessionId ?? await createSession();
+                    try {
+                        return await send(id, text, onChunk, signal);
+                    } catch (error) {
+                        if (!(error instanceof ApiServiceError && error.status === 404) || id !== resumedSessionId) throw error;
+                        return await send(await createSession(), text, onChunk, signal);
+                    }
+                });
+            } catch (error) {
+                logFrontendError(error, ErrorSeverity.High, { context: 'startChat Backend API call' });
+                throw error;
+            }
+        },
+    };
 };
 
 export const generateApiDocumentation = async (projectContext: string): Promise<{ resultText: string; tokenUsage: TokenUsage }> => {
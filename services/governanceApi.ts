@@ -1,13 +1,12 @@
 // services/governanceApi.ts
 import { GovernanceResponse, UserTelemetryEvent, ClientInferredState } from '../types/autonomous';
-
-const GOVERNANCE_API_ENDPOINT = '/api/governance/decisions'; // Assumed backend endpoint
+import { requestGovernanceDecisions } from './backendApiService';
 
 let currentClientInferredState: ClientInferredState = { intent: 'UNKNOWN', confidence: 0 };
 
 /**
  * Sends a batch of telemetry events and optionally a client-side inferred state
- * to the backend governance model, and retrieves directives.
+ * to the backend governance engine (POST /api/governance/decisions), and retrieves directives.
  * @param events The events to send.
  * @param clientState The current client-side inferred state to provide context to the backend.
  * @returns A promise resolving to a GovernanceResponse or null on error.
@@ -21,23 +20,7 @@ export const fetchAutonomousDirectives = async (
   }
 
   try {
-    const response = await fetch(GOVERNANCE_API_ENDPOINT, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        events,
-        clientState,
-      }),
-    });
-
-    if (!response.ok) {
-      console.error(`Governance API responded with status: ${response.status}`);
-      return null;
-    }
-
-    const data: GovernanceResponse = await response.json();
+    const data = await requestGovernanceDecisions(events, clientState);
     console.log('Received autonomous directives:', data);
 
     // Update client-side inferred state if provided by the backend
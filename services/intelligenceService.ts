@@ -11,11 +11,43 @@
  * - Enables Foundry agents to discover existing patterns and reusable components
  * - Enables Weaver to identify existing services for architectural proposals
  *
- * Current Implementation: Client-side vector store (in-memory)
+ * Current Implementation: Client-side vector index of function/class-level chunks, persisted in IndexedDB
  * Future: Backend integration with Vertex AI Vector Search or Pinecone
  */
 
 import { logFrontendError, ErrorSeverity } from "../utils/errorLogger";
+import {
+  createVectorIndexStore,
+  embeddingKey,
+  embeddingKeyHash,
+  hashContent,
+  StoredChunk,
+  StoredDocument,
+  VectorIndexStore,
+} from './vectorIndexStore';
+
+const EMBEDDING_MODEL = 'Xenova/all-MiniLM-L6-v2';
+const FALLBACK_EMBEDDING_MODEL = 'hash-fallback';
+
+// Chunks stay under the model's ~512 token window (~2000 chars) together with their path header
+const MAX_CHUNK_LINES = 60;
+const MAX_CHUNK_CHARS = 1800;
+// Lines repeated between consecutive windows of a declaration too long for one chunk
+const CHUNK_OVERLAP_LINES = 10;
+// Consecutive declarations this short are merged so one-line constants do not become chunks of their own
+const MIN_CHUNK_LINES = 6;
+
+// Top-level declarations in TS/JS, Python, Go and Rust
+const DECLARATION_PATTERN = new RegExp([
+  String.raw`^(?:export\s+)?(?:default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|interface|type|enum|namespace)\s+([\w$]+)`,
+  String.raw`^(?:export\s+)?(const|let|var)\s+([\w$]+)`,
+  String.raw`^(?:async\s+)?(def|class)\s+(\w+)`,
+  String.raw`^(func)\s+(?:\([^)]*\)\s*)?(\w+)`,
+  String.raw`^(?:pub(?:\([^)]*\))?\s+)?(fn|struct|enum|trait|impl)\s+(\w+)`,
+].join('|'));
+// Comments and decorators directly above a declaration belong to its chunk
+const LEADING_TRIVIA_PATTERN = /^\s*(\/\/|\/\*|\*|@|#(?!#))/;
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
 
 // Types
 export interface CodebaseDocument {
@@ -28,19 +60,25 @@ export interface CodebaseDocument {
   metadata?: Record<string, any>;
 }
 
-export interface VectorEmbedding {
-  documentId: string;
-  embedding: number[];
+export interface DocumentChunk {
+  /** 1-based, inclusive */
+  startLine: number;
+  endLine: number;
+  /** Declaration the chunk covers, e.g. "function handleLogin" or "## Setup" */
+  symbol?: string;
   content: string;
-  filePath: string;
 }
 
 export interface SearchResult {
   documentId: string;
   filePath: string;
+  /** Content of the matching chunk */
   content: string;
   relevanceScore: number;
   snippet: string;
+  startLine: number;
+  endLine: number;
+  symbol?: string;
 }
 
 export interface IntelligenceQuery {
@@ -53,46 +91,170 @@ export interface IntelligenceQuery {
   };
 }
 
+/**
+ * Split a document into chunks for embedding
+ *
+ * Code is cut at top-level declarations (functions, classes, types, top-level constants), with leading
+ * comments and decorators kept on their declaration; markdown is cut at headings. Chunks longer than
+ * MAX_CHUNK_LINES/MAX_CHUNK_CHARS are split into windows that overlap by CHUNK_OVERLAP_LINES.
+ */
+export function chunkDocument(document: Pick<CodebaseDocument, 'filePath' | 'content' | 'type'>): DocumentChunk[] {
+  const lines = document.content.split('\n');
+  const isMarkdown = document.type === 'documentation' || /\.(md|mdx)$/i.test(document.filePath);
+
+  // Section starts (0-based line index) with the symbol they introduce
+  const starts: { line: number; symbol?: string }[] = [{ line: 0 }];
+  let inFence = false;
+  lines.forEach((line, index) => {
+    if (isMarkdown) {
+      if (/^(```|~~~)/.test(line)) inFence = !inFence;
+      const heading = !inFence && line.match(HEADING_PATTERN);
+      if (heading) starts.push({ line: index, symbol: `${heading[1]} ${heading[2].trim()}` });
+      return;
+    }
+
+    const declaration = line.match(DECLARATION_PATTERN);
+    if (!declaration) return;
+    const [kind, name] = declaration.slice(1).filter(Boolean);
+    let start = index;
+    while (start > 0 && LEADING_TRIVIA_PATTERN.test(lines[start - 1]) && start - 1 > starts[starts.length - 1].line) {
+      start--;
+    }
+    starts.push({ line: start, symbol: `${kind} ${name}` });
+  });
+
+  const sections: { start: number; end: number; symbol?: string }[] = [];
+  starts.forEach((section, i) => {
+    const end = (i + 1 < starts.length ? starts[i + 1].line : lines.length) - 1;
+    if (end < section.line) return;
+    const previous = sections[sections.length - 1];
+    const length = end - section.line + 1;
+    if (previous && previous.end - previous.start + 1 < MIN_CHUNK_LINES && length < MIN_CHUNK_LINES) {
+      previous.end = end;
+      previous.symbol = previous.symbol ?? section.symbol;
+    } else {
+      sections.push({ start: section.line, end, symbol: section.symbol });
+    }
+  });
+
+  const chunks: DocumentChunk[] = [];
+  for (const section of sections) {
+    let start = section.start;
+    while (start <= section.end) {
+      let end = start;
+      let chars = lines[start].length;
+      while (end < section.end && end - start + 1 < MAX_CHUNK_LINES && chars + lines[end + 1].length + 1 <= MAX_CHUNK_CHARS) {
+        end++;
+        chars += lines[end].length + 1;
+      }
+
+      const content = lines.slice(start, end + 1).join('\n');
+      if (content.trim()) {
+        chunks.push({ startLine: start + 1, endLine: end + 1, symbol: section.symbol, content: content.slice(0, MAX_CHUNK_CHARS) });
+      }
+      if (end >= section.end) break;
+      start = Math.max(start + 1, end + 1 - CHUNK_OVERLAP_LINES);
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Text that is embedded for a chunk; the path and symbol help queries that name a file or function
+ */
+function embeddingText(filePath: string, chunk: DocumentChunk): string {
+  return `${filePath}${chunk.symbol ? ` (${chunk.symbol})` : ''}\n${chunk.content}`;
+}
+
 /**
  * IntelligenceService: RAG-based codebase intelligence
  *
- * Provides semantic search across the entire codebase using vector embeddings.
+ * Provides semantic search across the entire codebase using vector embeddings of document chunks.
+ * The index survives reloads: documents and embeddings are persisted in the VectorIndexStore and
+ * restored on first use, and re-indexing a document only embeds chunks whose content changed.
  */
 export class IntelligenceService {
-  private documents: Map<string, CodebaseDocument> = new Map();
-  private embeddings: Map<string, VectorEmbedding> = new Map();
-  private isIndexed: boolean = false;
+  private documents: Map<string, StoredDocument> = new Map();
+  // Embedding cache keyed by embeddingKey(model, chunk hash); misses fall back to the store
+  private vectors: Map<string, number[]> = new Map();
+  // Records being embedded; their chunks are live for the embedding sweep before they join `documents`
+  private indexing: Set<StoredDocument> = new Set();
+  private restoring: Promise<void> | null = null;
 
   // SECURITY: No API keys needed - uses Xenova Transformers for client-side embeddings
-  constructor() {
-    // Embedding pipeline initialized lazily in generateEmbedding()
+  constructor(private readonly store: VectorIndexStore = createVectorIndexStore()) {
+    // Embedding pipeline initialized lazily in loadPipeline()
+  }
+
+  /**
+   * Load the persisted index. Called automatically by indexing and queries; await it directly
+   * to make getIndexStats() reflect the persisted index. Embeddings left behind by earlier sessions
+   * are swept once the documents are loaded.
+   */
+  restore(): Promise<void> {
+    if (!this.restoring) {
+      this.restoring = this.store.loadDocuments()
+        .then(documents => {
+          documents.forEach(document => {
+            if (!this.documents.has(document.id)) this.documents.set(document.id, document);
+          });
+          return this.sweepEmbeddings();
+        })
+        .catch(error => {
+          logFrontendError(error, ErrorSeverity.Medium, { context: 'IntelligenceService.restore' });
+        });
+    }
+    return this.restoring;
   }
 
   /**
    * Index a codebase document
    *
-   * Generates vector embedding and stores it for semantic search.
+   * Splits the document into chunks and embeds the chunks not embedded before. A document whose
+   * content and path are unchanged since it was last indexed is skipped. Embeddings of chunks the
+   * new version no longer has are deleted.
    *
    * @param document - The code/doc file to index
    */
   async indexDocument(document: CodebaseDocument): Promise<void> {
     try {
-      // Store document
-      this.documents.set(document.id, document);
+      await this.restore();
 
-      // Generate embedding using Gemini's embedding model
-      // Note: In production, use a dedicated embedding model (e.g., text-embedding-004)
-      const embedding = await this.generateEmbedding(document.content);
+      const contentHash = await hashContent(document.content);
+      const existing = this.documents.get(document.id);
+      if (existing && existing.contentHash === contentHash && existing.filePath === document.filePath) {
+        return;
+      }
 
-      // Store embedding
-      this.embeddings.set(document.id, {
-        documentId: document.id,
-        embedding,
-        content: document.content,
-        filePath: document.filePath,
-      });
+      const chunks: StoredChunk[] = await Promise.all(
+        chunkDocument(document).map(async (chunk, index) => ({
+          id: `${document.id}#${index}`,
+          ...chunk,
+          contentHash: await hashContent(embeddingText(document.filePath, chunk)),
+        }))
+      );
 
-      this.isIndexed = true;
+      const record: StoredDocument = {
+        id: document.id,
+        filePath: document.filePath,
+        type: document.type,
+        language: document.language,
+        metadata: document.metadata,
+        lastModified: document.lastModified.toISOString(),
+        contentHash,
+        chunks,
+      };
+
+      this.indexing.add(record);
+      try {
+        await this.ensureEmbeddings(await this.embeddingModel(), record);
+        this.documents.set(document.id, record);
+      } finally {
+        this.indexing.delete(record);
+      }
+      await this.persist(() => this.store.saveDocument(record), 'saveDocument');
+      if (existing) await this.sweepEmbeddings();
     } catch (error) {
       logFrontendError(error, ErrorSeverity.High, {
         context: 'IntelligenceService.indexDocument',
@@ -105,6 +267,8 @@ export class IntelligenceService {
   /**
    * Index multiple documents in batch
    *
+   * Unchanged documents are skipped, so this can be called again with the whole file set after edits.
+   *
    * @param documents - Array of documents to index
    */
   async indexDocuments(documents: CodebaseDocument[]): Promise<void> {
@@ -112,17 +276,31 @@ export class IntelligenceService {
     await Promise.all(promises);
   }
 
+  /**
+   * Remove a document (e.g. a deleted file) from the index
+   *
+   * @param documentId - ID the document was indexed with
+   */
+  async removeDocument(documentId: string): Promise<void> {
+    await this.restore();
+    this.documents.delete(documentId);
+    await this.persist(() => this.store.deleteDocument(documentId), 'deleteDocument');
+    await this.sweepEmbeddings();
+  }
+
   /**
    * Query the intelligence layer
    *
-   * Performs semantic search and returns the most relevant code/docs.
+   * Performs semantic search over all chunks and returns the top K, each with its line range.
    *
    * @param query - The intelligence query
    * @returns Search results ranked by relevance
    */
   async query(query: IntelligenceQuery): Promise<SearchResult[]> {
     try {
-      if (!this.isIndexed || this.embeddings.size === 0) {
+      await this.restore();
+
+      if (this.documents.size === 0) {
         logFrontendError(
           new Error('Intelligence layer not indexed. Call indexDocuments() first.'),
           ErrorSeverity.Medium,
@@ -131,42 +309,44 @@ export class IntelligenceService {
         return [];
       }
 
-      // Generate embedding for the query
-      const queryEmbedding = await this.generateEmbedding(query.query);
-
-      // Calculate cosine similarity for all documents
-      const results: SearchResult[] = [];
-
-      for (const [docId, vecEmbed] of this.embeddings.entries()) {
-        const document = this.documents.get(docId);
-        if (!document) continue;
-
-        // Apply filters
-        if (query.filters) {
-          if (query.filters.fileType && !query.filters.fileType.includes(document.type)) {
-            continue;
-          }
-          if (query.filters.language && document.language && !query.filters.language.includes(document.language)) {
-            continue;
-          }
-          if (query.filters.filePath && !new RegExp(query.filters.filePath).test(document.filePath)) {
-            continue;
-          }
+      // Apply filters
+      const candidates = [...this.documents.values()].filter(document => {
+        if (!query.filters) return true;
+        if (query.filters.fileType && !query.filters.fileType.includes(document.type)) {
+          return false;
         }
+        if (query.filters.language && document.language && !query.filters.language.includes(document.language)) {
+          return false;
+        }
+        if (query.filters.filePath && !new RegExp(query.filters.filePath).test(document.filePath)) {
+          return false;
+        }
+        return true;
+      });
 
-        // Calculate cosine similarity
-        const similarity = this.cosineSimilarity(queryEmbedding, vecEmbed.embedding);
-
-        // Extract relevant snippet (first 300 chars for now)
-        const snippet = this.extractSnippet(vecEmbed.content, query.query);
+      // Generate embedding for the query; chunks are compared with vectors from the same model
+      const queryEmbedding = await this.computeEmbedding(query.query);
+      for (const document of candidates) {
+        await this.ensureEmbeddings(queryEmbedding.model, document);
+      }
 
-        results.push({
-          documentId: docId,
-          filePath: vecEmbed.filePath,
-          content: vecEmbed.content,
-          relevanceScore: similarity,
-          snippet,
-        });
+      const results: SearchResult[] = [];
+      for (const document of candidates) {
+        for (const chunk of document.chunks) {
+          const vector = this.vectors.get(embeddingKey(queryEmbedding.model, chunk.contentHash));
+          if (!vector) continue;
+
+          results.push({
+            documentId: document.id,
+            filePath: document.filePath,
+            content: chunk.content,
+            relevanceScore: this.cosineSimilarity(queryEmbedding.vector, vector),
+            snippet: this.extractSnippet(chunk.content, query.query),
+            startLine: chunk.startLine,
+            endLine: chunk.endLine,
+            symbol: chunk.symbol,
+          });
+        }
       }
 
       // Sort by relevance and return top K
@@ -186,7 +366,8 @@ export class IntelligenceService {
   /**
    * Find root cause of an error (for Mia)
    *
-   * Searches for related code that might be causing the error.
+   * Searches for related code that might be causing the error. Chunks containing a line
+   * named in the stack trace are ranked above purely similar code.
    *
    * @param errorMessage - The error message
    * @param stackTrace - Optional stack trace
@@ -197,11 +378,23 @@ export class IntelligenceService {
       ? `${errorMessage}\n\nStack trace:\n${stackTrace}`
       : errorMessage;
 
-    return this.query({
+    const frames = stackTrace ? this.parseStackFrames(stackTrace) : [];
+    const results = await this.query({
       query,
-      topK: 3,
+      topK: frames.length > 0 ? 20 : 3,
       filters: { fileType: ['code'] },
     });
+    if (frames.length === 0) return results;
+
+    const inTrace = (result: SearchResult) => frames.some(frame =>
+      frame.line >= result.startLine && frame.line <= result.endLine &&
+      (result.filePath.endsWith(frame.file) || frame.file.endsWith(result.filePath))
+    );
+    return results
+      .map(result => ({ result, traced: inTrace(result) }))
+      .sort((a, b) => Number(b.traced) - Number(a.traced) || b.result.relevanceScore - a.result.relevanceScore)
+      .slice(0, 3)
+      .map(({ result }) => result);
   }
 
   /**
@@ -237,12 +430,12 @@ export class IntelligenceService {
   }
 
   /**
-   * Clear the index
+   * Clear the index, including the persisted documents and embeddings
    */
-  clearIndex(): void {
+  async clearIndex(): Promise<void> {
     this.documents.clear();
-    this.embeddings.clear();
-    this.isIndexed = false;
+    this.vectors.clear();
+    await this.persist(() => this.store.clear(), 'clear');
   }
 
   /**
@@ -251,13 +444,101 @@ export class IntelligenceService {
   getIndexStats(): { documentCount: number; embeddingCount: number; isIndexed: boolean } {
     return {
       documentCount: this.documents.size,
-      embeddingCount: this.embeddings.size,
-      isIndexed: this.isIndexed,
+      embeddingCount: [...this.documents.values()].reduce((sum, document) => sum + document.chunks.length, 0),
+      isIndexed: this.documents.size > 0,
     };
   }
 
+  /**
+   * Embed arbitrary text with the same model used for indexing
+   *
+   * The returned model name is 'hash-fallback' when the transformer model could not be loaded,
+   * so callers never compare vectors produced by different models.
+   *
+   * @param text - Text to embed (truncated like indexed documents)
+   */
+  async embed(text: string): Promise<{ model: string; vector: number[] }> {
+    return this.computeEmbedding(text);
+  }
+
   // ===== PRIVATE METHODS =====
 
+  /**
+   * Make sure every chunk of the document has an embedding from `model` in memory:
+   * cached vectors first, then the store, then the embedding model (persisting what it produced)
+   */
+  private async ensureEmbeddings(model: string, document: StoredDocument): Promise<void> {
+    const missing = document.chunks.filter(chunk => !this.vectors.has(embeddingKey(model, chunk.contentHash)));
+    if (missing.length === 0) return;
+
+    const keys = missing.map(chunk => embeddingKey(model, chunk.contentHash));
+    const stored = await this.store.getEmbeddings(keys).catch(error => {
+      logFrontendError(error, ErrorSeverity.Medium, { context: 'IntelligenceService.getEmbeddings' });
+      return new Map<string, number[]>();
+    });
+    stored.forEach((vector, key) => this.vectors.set(key, vector));
+
+    const computed: { key: string; vector: number[] }[] = [];
+    for (const chunk of missing) {
+      const key = embeddingKey(model, chunk.contentHash);
+      if (this.vectors.has(key)) continue;
+
+      const embedding = await this.computeEmbedding(embeddingText(document.filePath, chunk));
+      // Skip vectors from another model (the transformer failed mid-run); the query model decides
+      if (embedding.model !== model) continue;
+      this.vectors.set(key, embedding.vector);
+      computed.push({ key, vector: embedding.vector });
+    }
+
+    await this.persist(() => this.store.putEmbeddings(computed), 'putEmbeddings');
+  }
+
+  /**
+   * Delete the embeddings, cached and stored, of chunks no indexed document references any more
+   * (earlier versions of edited chunks, removed files), so the store does not grow with every edit
+   */
+  private async sweepEmbeddings(): Promise<void> {
+    const liveHashes = (): Set<string> => {
+      const hashes = new Set<string>();
+      for (const document of [...this.documents.values(), ...this.indexing]) {
+        document.chunks.forEach(chunk => hashes.add(chunk.contentHash));
+      }
+      return hashes;
+    };
+
+    await this.persist(async () => {
+      const keys = await this.store.getEmbeddingKeys();
+      const live = liveHashes();
+      await this.store.deleteEmbeddings(keys.filter(key => !live.has(embeddingKeyHash(key))));
+    }, 'sweepEmbeddings');
+
+    const live = liveHashes();
+    for (const key of this.vectors.keys()) {
+      if (!live.has(embeddingKeyHash(key))) this.vectors.delete(key);
+    }
+  }
+
+  /**
+   * Persistence is best effort: the in-memory index keeps working when IndexedDB fails (e.g. quota)
+   */
+  private async persist(action: () => Promise<void>, operation: string): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      logFrontendError(error, ErrorSeverity.Medium, { context: `IntelligenceService.${operation}` });
+    }
+  }
+
+  private parseStackFrames(stackTrace: string): { file: string; line: number }[] {
+    const frames: { file: string; line: number }[] = [];
+    const framePattern = /(?:\(|@|at\s+)(?:[a-z]+:\/\/[^/]+)?\/?([^\s()]+?):(\d+)(?::\d+)?\)?$/gm;
+    let match;
+    while ((match = framePattern.exec(stackTrace)) !== null) {
+      frames.push({ file: match[1].replace(/\?.*$/, ''), line: Number(match[2]) });
+    }
+    return frames;
+  }
+
   /**
    * Generate vector embedding for text
    *
@@ -267,38 +548,53 @@ export class IntelligenceService {
    * Model: all-MiniLM-L6-v2 (384 dimensions, fast, accurate)
    * Performance: ~50ms per embedding on modern browsers
    */
-  private embeddingPipeline: any = null;
+  private pipelineLoad: Promise<any | null> | null = null;
 
-  private async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      // Lazy-load the embedding model
-      if (!this.embeddingPipeline) {
-        const { pipeline } = await import('@xenova/transformers');
-        this.embeddingPipeline = await pipeline(
-          'feature-extraction',
-          'Xenova/all-MiniLM-L6-v2'
-        );
-      }
-
-      // Truncate text to model's token limit (~512 tokens ≈ 2000 chars)
-      const truncatedText = text.slice(0, 2000);
+  /**
+   * Lazy-load the embedding model once; null means it could not be loaded and the fallback is used
+   */
+  private loadPipeline(): Promise<any | null> {
+    if (!this.pipelineLoad) {
+      this.pipelineLoad = import('@xenova/transformers')
+        .then(({ pipeline }) => pipeline('feature-extraction', EMBEDDING_MODEL))
+        .catch(error => {
+          logFrontendError(error, ErrorSeverity.High, {
+            context: 'IntelligenceService.loadPipeline (Transformers)',
+          });
+          return null;
+        });
+    }
+    return this.pipelineLoad;
+  }
 
-      // Generate embedding
-      const output = await this.embeddingPipeline(truncatedText, {
-        pooling: 'mean',
-        normalize: true,
-      });
+  private async embeddingModel(): Promise<string> {
+    return (await this.loadPipeline()) ? EMBEDDING_MODEL : FALLBACK_EMBEDDING_MODEL;
+  }
 
-      // Convert tensor to array
-      return Array.from(output.data);
-    } catch (error) {
-      logFrontendError(error, ErrorSeverity.High, {
-        context: 'IntelligenceService.generateEmbedding (Transformers)',
-      });
+  private async computeEmbedding(text: string): Promise<{ model: string; vector: number[] }> {
+    // Truncate text to model's token limit (~512 tokens ≈ 2000 chars)
+    const truncatedText = text.slice(0, 2000);
+
+    const embeddingPipeline = await this.loadPipeline();
+    if (embeddingPipeline) {
+      try {
+        // Generate embedding
+        const output = await embeddingPipeline(truncatedText, {
+          pooling: 'mean',
+          normalize: true,
+        });
 
-      // Fallback to simple hash-based embedding if transformers fail
-      return this.generateFallbackEmbedding(text);
+        // Convert tensor to array
+        return { model: EMBEDDING_MODEL, vector: Array.from(output.data) };
+      } catch (error) {
+        logFrontendError(error, ErrorSeverity.High, {
+          context: 'IntelligenceService.generateEmbedding (Transformers)',
+        });
+      }
     }
+
+    // Fallback to simple hash-based embedding if transformers fail
+    return { model: FALLBACK_EMBEDDING_MODEL, vector: this.generateFallbackEmbedding(text) };
   }
 
   /**
@@ -7,6 +7,7 @@ import { withRetries, handleApiError } from './apiUtils';
 import { logFrontendError, ErrorSeverity } from '@/utils/errorLogger';
 
 const BACKEND_URL = import.meta.env.VITE_BACKEND_URL || 'http://localhost:8080';
+const API_KEY = import.meta.env.VITE_API_KEY || 'dev-test-key';
 
 export type LocalLLMProvider = 'lmstudio' | 'ollama';
 
@@ -51,7 +52,7 @@ export async function checkLocalLLMHealth(): Promise<LocalLLMHealthStatus> {
     const response = await fetch(`${BACKEND_URL}/api/local-llm/health`, {
       method: 'GET',
       headers: {
-        'x-api-key': import.meta.env.VITE_API_KEY || '',
+        'x-api-key': API_KEY,
       },
     });
 
@@ -83,7 +84,7 @@ export async function getLocalLLMModels(provider?: LocalLLMProvider): Promise<Lo
     const response = await fetch(url, {
       method: 'GET',
       headers: {
-        'x-api-key': import.meta.env.VITE_API_KEY || '',
+        'x-api-key': API_KEY,
       },
     });
 
@@ -138,7 +139,7 @@ export async function generateWithLocalLLM(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': import.meta.env.VITE_API_KEY || '',
+        'x-api-key': API_KEY,
       },
       body: JSON.stringify({
         prompt,
@@ -198,7 +199,7 @@ export async function performLocalShunt(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': import.meta.env.VITE_API_KEY || '',
+        'x-api-key': API_KEY,
       },
       body: JSON.stringify({
         text,
@@ -263,7 +264,7 @@ export async function chatWithLocalLLM(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'x-api-key': import.meta.env.VITE_API_KEY || '',
+        'x-api-key': API_KEY,
       },
       body: JSON.stringify({
         messages,
@@ -0,0 +1,118 @@
+// services/mcpTools.ts
+// Tools of the backend's MCP servers as agent tools. Each remote tool is registered in the ToolRegistry as
+// `mcp.<server>.<tool>`, so executeTool applies RBAC, rate limits, validation and timeouts to it like any other tool;
+// the call itself is proxied through /api/mcp.
+import { toolRegistry, Tool, ExecutionContext, NETWORK_PERMISSION } from './toolApi';
+import { ToolInputSchema } from './toolPolicy';
+import { listMcpServers, listMcpTools, callMcpTool } from './backendApiService';
+import { MCPServer, MCPToolDefinition, MCPToolResult } from '../types/mcp';
+
+export const MCP_TOOL_PREFIX = 'mcp.';
+export const MCP_CALL_PERMISSION = 'mcp:call';
+
+export const mcpToolName = (serverId: string, toolName: string) => `${MCP_TOOL_PREFIX}${serverId}.${toolName}`;
+
+const SCHEMA_TYPES: ToolInputSchema['type'][] = ['object', 'array', 'string', 'number', 'integer', 'boolean'];
+
+/**
+ * The part of an MCP tool's JSON Schema that validateToolInput understands. Anything else (type unions,
+ * `$ref`, `oneOf`, ...) is dropped, which only loosens the check; the MCP server still validates its input.
+ */
+export function toToolInputSchema(schema: unknown): ToolInputSchema {
+  if (!schema || typeof schema !== 'object' || Array.isArray(schema)) return {};
+  const source = schema as Record<string, unknown>;
+  const result: ToolInputSchema = {};
+
+  if (SCHEMA_TYPES.includes(source.type as ToolInputSchema['type'])) result.type = source.type as ToolInputSchema['type'];
+  if (source.properties && typeof source.properties === 'object') {
+    result.properties = Object.fromEntries(
+      Object.entries(source.properties as Record<string, unknown>).map(([key, child]) => [key, toToolInputSchema(child)])
+    );
+  }
+  if (Array.isArray(source.required)) result.required = source.required.filter((key): key is string => typeof key === 'string');
+  if (typeof source.additionalProperties === 'boolean') result.additionalProperties = source.additionalProperties;
+  if (source.items) result.items = toToolInputSchema(source.items);
+  if (Array.isArray(source.enum)) result.enum = source.enum;
+  for (const key of ['minimum', 'maximum', 'minLength', 'maxLength'] as const) {
+    if (typeof source[key] === 'number') result[key] = source[key] as number;
+  }
+  return result;
+}
+
+const resultText = (result: MCPToolResult) =>
+  result.content.filter(item => item.type === 'text' && typeof item.text === 'string').map(item => item.text).join('\n');
+
+/**
+ * A tool on an MCP server. Calls to HTTP servers leave the machine, so they also need network access.
+ */
+export class McpProxyTool implements Tool {
+  private inputSchema: ToolInputSchema;
+
+  constructor(private server: MCPServer, private definition: MCPToolDefinition) {
+    this.inputSchema = toToolInputSchema(definition.inputSchema);
+  }
+
+  getName() { return mcpToolName(this.server.id, this.definition.name); }
+
+  getDescription() {
+    const description = this.definition.description ?? this.definition.title ?? this.definition.name;
+    return `${description} (MCP server '${this.server.name}')`;
+  }
+
+  getInputSchema() { return this.inputSchema; }
+
+  getRequiredPermissions() {
+    return this.server.transport === 'http' ? [MCP_CALL_PERMISSION, NETWORK_PERMISSION] : [MCP_CALL_PERMISSION];
+  }
+
+  async execute(args: Record<string, unknown>, context: ExecutionContext): Promise<MCPToolResult> {
+    const result = await callMcpTool(this.server.id, this.definition.name, args ?? {}, context.signal);
+    if (result.isError) {
+      throw new Error(resultText(result) || `MCP tool '${this.definition.name}' failed`);
+    }
+    return result;
+  }
+}
+
+export interface MCPToolRegistration {
+  /** Server states after listing their tools */
+  servers: MCPServer[];
+  /** Registered tool names, e.g. `mcp.sample.add` */
+  tools: string[];
+  /** Servers whose tools could not be listed, with the reason */
+  errors: Record<string, string>;
+}
+
+/**
+ * Register the tools of every backend MCP server, replacing earlier registrations and removing tools that
+ * servers no longer offer. Agents can only call the tools listed in their allowedTools.
+ */
+export async function registerMcpTools(registry: typeof toolRegistry = toolRegistry): Promise<MCPToolRegistration> {
+  const servers = await listMcpServers();
+  const tools: string[] = [];
+  const errors: Record<string, string> = {};
+  const keep = new Set<string>();
+
+  for (const server of servers) {
+    const prefix = mcpToolName(server.id, '');
+    try {
+      const definitions = await listMcpTools(server.id);
+      definitions.forEach(definition => {
+        const tool = new McpProxyTool(server, definition);
+        registry.register(tool);
+        tools.push(tool.getName());
+      });
+    } catch (error) {
+      errors[server.id] = error instanceof Error ? error.message : String(error);
+      // Keep what was registered before; the server may only be down for a moment
+      registry.getToolNames().filter(name => name.startsWith(prefix)).forEach(name => keep.add(name));
+    }
+  }
+
+  tools.forEach(name => keep.add(name));
+  registry.getToolNames()
+    .filter(name => name.startsWith(MCP_TOOL_PREFIX) && !keep.has(name))
+    .forEach(name => registry.unregister(name));
+
+  return { servers: await listMcpServers(), tools, errors };
+}
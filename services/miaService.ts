@@ -9,29 +9,31 @@ import { logFrontendError, ErrorSeverity } from "../utils/errorLogger";
 import { withRetries } from './apiUtils';
 import { executeCode } from './codeExecutor';
 import { generateContentViaBackend } from './backendApiService';
+import { startChat } from './geminiService';
 
-export const getMiaChatResponse = async (history: { role: string, parts: { text: string }[] }[], newMessage: string): Promise<string> => {
-    // Note: Chat with history requires backend chat endpoint
-    // For now, we'll use a simple prompt-based approach
-    const conversationContext = history.map(h =>
-        `${h.role === 'user' ? 'User' : 'Mia'}: ${h.parts.map(p => p.text).join(' ')}`
-    ).join('\n');
+const MIA_SYSTEM_INSTRUCTION = 'You are Mia, a friendly and highly intelligent AI assistant embedded in a complex web application for developers. Be helpful and concise. Your primary role is to assist the user with understanding and operating the application.';
 
-    const prompt = `You are Mia, a friendly and highly intelligent AI assistant embedded in a complex web application for developers. Be helpful and concise. Your primary role is to assist the user with understanding and operating the application.
-
-Previous conversation:
-${conversationContext}
-
-User: ${newMessage}
-
-Mia:`;
+/**
+ * Reply to a message in Mia's backend chat session. `history` seeds a new session when `sessionId` is null or has expired;
+ * the returned session id should be passed with the next message. Failed sends are retried by the chat handle.
+ */
+export const getMiaChatResponse = async (
+    sessionId: string | null,
+    history: { role: string, parts: { text: string }[] }[],
+    newMessage: string,
+    modelName: string = 'gemini-2.5-pro'
+): Promise<{ text: string; sessionId: string | null }> => {
+    const chat = startChat({
+        sessionId,
+        history,
+        modelName,
+        title: 'Mia',
+        systemInstruction: MIA_SYSTEM_INSTRUCTION,
+    });
 
     try {
-        const apiCall = async () => {
-            const result = await generateContentViaBackend(prompt, 'gemini-2.5-pro');
-            return result.resultText;
-        };
-        return await withRetries(apiCall);
+        const reply = await chat.sendMessage(newMessage);
+        return { text: reply.message.text, sessionId: chat.sessionId };
     } catch (error) {
         logFrontendError(error, ErrorSeverity.High, { context: 'getMiaChatResponse Backend API call' });
         throw error;
@@ -18,76 +18,148 @@ export interface MultiAgentWorkflowResult {
   steps: number;
 }
 
+export type WorkflowStatus = 'queued' | 'in_progress' | 'completed' | 'failed' | 'cancelled';
+
 export interface WorkflowStep {
   id: string;
   stepNumber: number;
-  agent: 'claude' | 'gemini-2-0' | 'gemini-2-5';
+  agent: 'claude' | 'gemini-2-0' | 'gemini-2-5' | 'orchestrator';
   stage: string;
-  input: string;
-  output: string;
+  status: 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+  input: string | null;
+  output: string | null;
   tokensUsed: number;
+  attempts: number;
+  error: string | null;
   createdAt: string;
+  completedAt: string | null;
 }
 
 export interface WorkflowDetails {
   workflow: {
     id: string;
     action: string;
-    status: string;
+    status: WorkflowStatus;
     inputText: string;
     context: string | null;
+    /** Name of the workflow definition the orchestrator ran */
+    definition: string;
     finalOutput: string | null;
     agreement: boolean | null;
     validationPassed: boolean | null;
+    error: string | null;
     createdAt: string;
     updatedAt: string;
   };
   steps: WorkflowStep[];
 }
 
+export interface WaitForWorkflowOptions {
+  pollIntervalMs?: number;
+  timeoutMs?: number;
+  /** Called with the latest details on every poll, e.g. to show step progress */
+  onProgress?: (details: WorkflowDetails) => void;
+}
+
+/**
+ * POST to an orchestrator workflow endpoint, surfacing its error message on failure
+ */
+async function postWorkflow(path: string, body?: unknown): Promise<any> {
+  const response = await fetch(`${ORCHESTRATOR_URL}${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body ?? {}),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || `Orchestrator returned ${response.status}: ${response.statusText}`);
+  }
+
+  return result;
+}
+
+/**
+ * Queue a multi-agent workflow and return its id without waiting for it to finish
+ */
+export async function startMultiAgentWorkflow(
+  text: string,
+  action: ShuntAction,
+  context?: string
+): Promise<string> {
+  const result = await postWorkflow('/api/workflow/execute', { action, text, context });
+  return result.workflowId;
+}
+
+/**
+ * Poll a workflow until it completes. Rejects if it fails, is cancelled or does not finish within the timeout
+ * (the workflow keeps running on the orchestrator in that case).
+ */
+export async function waitForWorkflow(
+  workflowId: string,
+  { pollIntervalMs = 2000, timeoutMs = 15 * 60 * 1000, onProgress }: WaitForWorkflowOptions = {}
+): Promise<WorkflowDetails> {
+  const deadline = Date.now() + timeoutMs;
+
+  for (;;) {
+    const details = await getWorkflowDetails(workflowId);
+    onProgress?.(details);
+
+    const { status, error } = details.workflow;
+    if (status === 'completed') return details;
+    if (status === 'failed') throw new Error(error || `Workflow ${workflowId} failed`);
+    if (status === 'cancelled') throw new Error(`Workflow ${workflowId} was cancelled`);
+
+    if (Date.now() + pollIntervalMs > deadline) {
+      throw new Error(`Timed out waiting for workflow ${workflowId} (status: ${status})`);
+    }
+    await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  }
+}
+
+/**
+ * Cancel a queued or running workflow
+ */
+export async function cancelWorkflow(workflowId: string): Promise<void> {
+  await postWorkflow(`/api/workflow/${workflowId}/cancel`);
+}
+
+/**
+ * Re-run a failed, cancelled or completed workflow from a step (defaults to the first step that did not complete)
+ */
+export async function retryWorkflow(workflowId: string, fromStep?: number): Promise<{ fromStep: number; stage: string }> {
+  const result = await postWorkflow(`/api/workflow/${workflowId}/retry`, { fromStep });
+  return { fromStep: result.fromStep, stage: result.stage };
+}
+
 /**
  * Execute multi-agent workflow based on Shunt action
  * This sends the task to Docker containers where Claude Code, Gemini 2.0, and Gemini 2.5 Pro
- * collaborate on the task
+ * collaborate on the task, then waits for the queued workflow to finish
  */
 export async function executeMultiAgentWorkflow(
   text: string,
   action: ShuntAction,
-  context?: string
+  context?: string,
+  options?: WaitForWorkflowOptions
 ): Promise<MultiAgentWorkflowResult> {
   try {
     console.log(`[MultiAgent Container] Executing workflow for action: ${action}`);
 
-    const response = await fetch(`${ORCHESTRATOR_URL}/api/workflow/execute`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        action,
-        text,
-        context,
-      }),
-    });
+    const workflowId = await startMultiAgentWorkflow(text, action, context);
+    const { workflow, steps } = await waitForWorkflow(workflowId, options);
 
-    if (!response.ok) {
-      throw new Error(`Orchestrator returned ${response.status}: ${response.statusText}`);
-    }
-
-    const result = await response.json();
-
-    if (!result.success) {
-      throw new Error(result.error || 'Workflow execution failed');
-    }
-
-    console.log(`[MultiAgent Container] Workflow ${result.workflowId} completed successfully`);
+    console.log(`[MultiAgent Container] Workflow ${workflowId} completed successfully`);
 
     return {
-      workflowId: result.workflowId,
-      finalOutput: result.finalOutput,
-      agreement: result.agreement,
-      validationPassed: result.validationPassed,
-      steps: result.steps,
+      workflowId,
+      finalOutput: workflow.finalOutput ?? '',
+      agreement: workflow.agreement ?? false,
+      validationPassed: workflow.validationPassed ?? false,
+      steps: steps.length,
     };
 
   } catch (error) {
@@ -200,6 +272,10 @@ export async function performMultiAgentShunt(
  */
 export const multiAgentContainerService = {
   executeWorkflow: executeMultiAgentWorkflow,
+  startWorkflow: startMultiAgentWorkflow,
+  waitForWorkflow,
+  cancelWorkflow,
+  retryWorkflow,
   getWorkflowDetails,
   checkHealth: checkOrchestratorHealth,
   performShunt: performMultiAgentShunt,
@@ -85,6 +85,8 @@ export const shuntActionsConfig: { action: ShuntAction; icon: React.ReactNode; g
 
 export const actionGroups = ['Content', 'Explanation', 'Keywords', 'Tone', 'Quality', 'Data', 'Developer'];
 
+// Only used for local-model (LM Studio) calls. Gemini requests send the action name and the backend
+// builds the prompt from backend/src/prompts/shuntPrompts.ts, so template changes must be made in both places.
 
 export const getPromptForAction = (text: string, action: ShuntAction, context?: string, priority?: string, promptInjectionGuardEnabled: boolean = true): string => {
   const protectedText = promptInjectionGuardEnabled ? protectAgainstPromptInjection(text) : text;
@@ -11,13 +11,14 @@ import {
     GlobalTelemetryContext,
 } from '../types/telemetry';
 import { appEventBus } from '../lib/eventBus';
+import { BACKEND_URL } from './backendApiService';
 
 // Check if telemetry is enabled via environment variable
 const TELEMETRY_ENABLED = import.meta.env.VITE_ENABLE_TELEMETRY !== 'false';
 
 // Sensible defaults to ensure the service is operational even with minimal configuration
 const DEFAULT_CONFIG: TelemetryConfig = {
-    backendEndpoint: '/api/telemetry/events', // Standardized API endpoint for telemetry ingestion
+    backendEndpoint: `${BACKEND_URL}/api/telemetry/events`, // Backend telemetry ingestion endpoint
     batchSize: 10, // Optimize network traffic by grouping events
     batchIntervalMs: 5000, // Ensure timely data transmission even for sparse event streams
     maxQueueSize: 100, // Safeguard against excessive memory consumption (ring buffer)
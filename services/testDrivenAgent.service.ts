@@ -2,6 +2,7 @@
 // Test-Driven Agent (TDA) Framework - Autonomous Code Generation with Self-Healing
 
 import { generateContent } from './geminiService';
+import { runTestsViaBackend } from './backendApiService';
 import {
   TDAWorkflowState,
   TDAPhase,
@@ -138,16 +139,18 @@ export class TestDrivenAgentService {
 
     const { user_story, technical_constraints } = this.workflowState!.metaprompt;
     const generatedTests: GeneratedTest[] = [];
+    const codePath = this.generateCodeFilePath(user_story.title, technical_constraints);
 
-    for (const criterion of user_story.acceptance_criteria) {
-      const testPrompt = this.buildTestGenerationPrompt(criterion, technical_constraints);
+    for (const [index, criterion] of user_story.acceptance_criteria.entries()) {
+      const testPath = this.generateTestFilePath(user_story.title, technical_constraints, index);
+      const testPrompt = this.buildTestGenerationPrompt(criterion, technical_constraints, testPath, codePath);
       const testCode = await this.generateTestCode(testPrompt);
 
       generatedTests.push({
         id: generateUniqueId(),
         acceptance_criterion_id: criterion.id,
         test_framework: technical_constraints?.test_framework || 'jest',
-        file_path: this.generateTestFilePath(user_story.title, technical_constraints),
+        file_path: testPath,
         test_code: testCode,
         description: `Test for: ${criterion.then}`,
         status: 'generated'
@@ -167,10 +170,12 @@ export class TestDrivenAgentService {
     this.workflowState!.current_phase = TDAPhase.CODE_GENERATION;
 
     const { user_story, technical_constraints } = this.workflowState!.metaprompt;
+    const codePath = this.generateCodeFilePath(user_story.title, technical_constraints);
     const codePrompt = this.buildCodeGenerationPrompt(
       user_story,
       this.workflowState!.generated_tests!,
       this.workflowState!.rag_results!,
+      codePath,
       technical_constraints
     );
 
@@ -178,7 +183,7 @@ export class TestDrivenAgentService {
 
     this.workflowState!.generated_code = [{
       id: generateUniqueId(),
-      file_path: this.generateCodeFilePath(user_story.title, technical_constraints),
+      file_path: codePath,
       content: generatedCodeContent,
       tests_satisfied: this.workflowState!.generated_tests!.map(t => t.id),
       dependencies: this.extractDependencies(generatedCodeContent)
@@ -314,10 +319,13 @@ Return a JSON array of code contexts with this structure:
 
   private buildTestGenerationPrompt(
     criterion: AcceptanceCriterion,
-    constraints?: UserStoryMetaprompt['technical_constraints']
+    constraints: UserStoryMetaprompt['technical_constraints'] | undefined,
+    testPath: string,
+    codePath: string
   ): string {
     const framework = constraints?.test_framework || 'jest';
     const language = constraints?.language || 'typescript';
+    const importPath = this.relativeImportPath(testPath, codePath);
 
     return `You are an expert test engineer implementing TDD best practices.
 
@@ -336,6 +344,8 @@ REQUIREMENTS:
 5. Use clear, descriptive test names
 6. Follow ${framework} best practices
 7. Include setup/teardown if needed
+8. The test is saved as ${testPath}; import the implementation from '${importPath}'
+9. Tests run in an isolated sandbox: no network, filesystem or third-party packages, and no module mocking
 
 OUTPUT FORMAT:
 Return ONLY the complete test code, no explanations or markdown.`;
@@ -345,19 +355,38 @@ Return ONLY the complete test code, no explanations or markdown.`;
     const response = await generateContent(prompt, {
       temperature: 0.4
     });
-    return response.trim();
+    return this.stripCodeFences(response);
   }
 
   private generateTestFilePath(
     storyTitle: string,
-    constraints?: UserStoryMetaprompt['technical_constraints']
+    constraints?: UserStoryMetaprompt['technical_constraints'],
+    index = 0
   ): string {
     const ext = constraints?.language === 'python' ? '.py' : '.test.ts';
     const filename = storyTitle
       .toLowerCase()
       .replace(/[^a-z0-9]+/g, '-')
       .replace(/^-|-$/g, '');
-    return `tests/${filename}${ext}`;
+    // One file per acceptance criterion so each runs (and fails) on its own
+    return `tests/${filename}${index > 0 ? `-${index + 1}` : ''}${ext}`;
+  }
+
+  private relativeImportPath(fromPath: string, toPath: string): string {
+    const fromDir = fromPath.split('/').slice(0, -1);
+    const target = toPath.replace(/\.(ts|tsx|js|py)$/, '').split('/');
+    let common = 0;
+    while (common < fromDir.length && fromDir[common] === target[common]) common++;
+    const up = fromDir.slice(common).map(() => '..');
+    const path = [...up, ...target.slice(common)].join('/');
+    return up.length > 0 ? path : `./${path}`;
+  }
+
+  /**
+   * Models sometimes wrap code in a markdown fence despite being asked not to
+   */
+  private stripCodeFences(response: string): string {
+    return response.trim().replace(/^```[\w-]*\n?/, '').replace(/\n?```$/, '').trim();
   }
 
   /**
@@ -370,6 +399,7 @@ Return ONLY the complete test code, no explanations or markdown.`;
     user_story: UserStoryMetaprompt['user_story'],
     tests: GeneratedTest[],
     ragResults: RAGContextResult[],
+    codePath: string,
     constraints?: UserStoryMetaprompt['technical_constraints']
   ): string {
     const language = constraints?.language || 'typescript';
@@ -398,7 +428,8 @@ REQUIREMENTS:
 5. Include proper error handling
 6. Add type safety (if applicable)
 7. Include JSDoc/docstrings for public APIs
-${constraints?.coding_standards ? `8. Follow these standards: ${constraints.coding_standards.join(', ')}` : ''}
+8. The code is saved as ${codePath} and must export everything the tests import from it
+${constraints?.coding_standards ? `9. Follow these standards: ${constraints.coding_standards.join(', ')}` : ''}
 
 OUTPUT FORMAT:
 Return ONLY the complete implementation code, no explanations or markdown.`;
@@ -408,7 +439,7 @@ Return ONLY the complete implementation code, no explanations or markdown.`;
     const response = await generateContent(prompt, {
       temperature: 0.3
     });
-    return response.trim();
+    return this.stripCodeFences(response);
   }
 
   private generateCodeFilePath(
@@ -442,66 +473,30 @@ Return ONLY the complete implementation code, no explanations or markdown.`;
    * ============================================================================
    */
 
+  /**
+   * Run the tests for real in the backend sandbox. If the sandbox cannot be reached the error propagates
+   * and fails the workflow, rather than healing against guessed results.
+   */
   private async executeTests(
     tests: GeneratedTest[],
     code: GeneratedCode[]
   ): Promise<TestExecutionResult[]> {
-    // Placeholder: In production, this would execute tests in a sandboxed environment
-    // For now, we simulate test execution using LLM evaluation
-    const results: TestExecutionResult[] = [];
-
-    for (const test of tests) {
-      const result = await this.simulateTestExecution(test, code);
-      results.push(result);
-    }
-
-    return results;
-  }
-
-  private async simulateTestExecution(
-    test: GeneratedTest,
-    code: GeneratedCode[]
-  ): Promise<TestExecutionResult> {
-    const prompt = `You are a test execution simulator. Analyze if this test would pass with the given implementation.
-
-TEST CODE:
-\`\`\`
-${test.test_code}
-\`\`\`
-
-IMPLEMENTATION CODE:
-${code.map(c => `\`\`\`\n${c.content}\n\`\`\``).join('\n')}
-
-TASK: Determine if the test would pass or fail. If it would fail, provide the error message and stack trace.
-
-OUTPUT FORMAT (JSON):
-{
-  "passed": boolean,
-  "error_message": "error if failed" | null,
-  "stack_trace": "stack trace if failed" | null,
-  "execution_time_ms": number
-}`;
-
-    try {
-      const response = await generateContent(prompt, {
-        temperature: 0.2,
-        response_mime_type: 'application/json'
-      });
+    const run = await runTestsViaBackend(
+      tests.map(test => ({ id: test.id, path: test.file_path, content: test.test_code })),
+      code.map(file => ({ path: file.file_path, content: file.content }))
+    );
 
-      const result = JSON.parse(response);
-      return {
-        test_id: test.id,
-        ...result
-      };
-    } catch (error) {
-      console.error('[TDA] Test execution simulation failed:', error);
+    return tests.map(test => {
+      const result = run.results.find(r => r.id === test.id);
+      test.status = result?.passed ? 'passing' : 'failing';
       return {
         test_id: test.id,
-        passed: false,
-        error_message: 'Simulation error',
-        execution_time_ms: 0
+        passed: result?.passed ?? false,
+        error_message: result ? result.errorMessage : 'The sandbox returned no result for this test',
+        stack_trace: result?.stackTrace,
+        execution_time_ms: result?.durationMs ?? 0
       };
-    }
+    });
   }
 
   private async analyzeErrors(failingTests: TestExecutionResult[]): Promise<string> {
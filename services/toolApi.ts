@@ -14,6 +14,19 @@
 //
 import { createPatch } from 'diff';
 import { ToolName, FoundryAgent } from '../types';
+import { AppSecurityPolicy, getAgentSecurityPolicy } from '../utils/security';
+import { workspaceFs, resolveWorkspacePath, WORKSPACE_HOME } from './workspaceFileSystem';
+import { WorkspaceGit, GitAuthor, GitCommit, shortHash } from './workspaceGit';
+import { toolAuditLog, ToolViolationKind } from './toolAuditLog';
+import { searchCodebase, CodebaseSearchMode, DEFAULT_MAX_SEARCH_RESULTS } from './codebaseSearch';
+import {
+    SlidingWindowRateLimiter,
+    ToolInputSchema,
+    ToolTimeoutError,
+    ToolCancelledError,
+    validateToolInput,
+    runWithTimeout,
+} from './toolPolicy';
 
 // --- v3 Architecture: Interfaces & Types ---
 
@@ -23,14 +36,26 @@ export interface ExecutionContext {
 
     // NEW: RBAC-aware execution context
     agent?: FoundryAgent; // If provided, use agent.allowedTools for RBAC
+
+    // Aborts the call; tools receive a signal that also aborts when the policy's time limit is reached
+    signal?: AbortSignal;
 }
 
 export interface StructuredError {
-    type: 'VALIDATION' | 'EXECUTION' | 'NOT_FOUND' | 'AUTHORIZATION';
+    type: 'VALIDATION' | 'EXECUTION' | 'NOT_FOUND' | 'AUTHORIZATION' | 'RATE_LIMIT' | 'TIMEOUT';
     message: string;
     details: object | null;
 }
 
+export interface VcsState {
+    currentBranch: string;
+    head: string | null;
+    status: { staged: string[]; unstaged: string[]; untracked: string[]; conflicted: string[] };
+    merging: string | null;
+    branches: string[];
+    log: GitCommit[];
+}
+
 export interface ToolResult {
     success: boolean;
     data: any | null;
@@ -38,16 +63,20 @@ export interface ToolResult {
 }
 
 // The contract for all tools
-interface Tool {
+export interface Tool {
     getName(): string;
     getDescription(): string;
-    getInputSchema(): object; // Using object for simplicity, could be JSONSchema
+    getInputSchema(): ToolInputSchema;
     getRequiredPermissions(): string[];
-    execute(args: any): Promise<any>;
+    execute(args: any, context: ExecutionContext): Promise<any>;
 }
 
 
-// --- Mock State ---
+// --- Workspace State ---
+// Agent files live in the shared workspace filesystem, so the Terminal and Mailbox see the same files.
+// Relative paths are resolved against the agent project; `~/...` and absolute paths reach the rest of the workspace.
+export const AGENT_PROJECT_DIR = `${WORKSPACE_HOME}/projects/test-project`;
+
 const initialFileSystem: Record<string, string> = {
     'src/auth.js': `
 // Callback-based authentication
@@ -80,62 +109,195 @@ module.exports = { findUser };
     'package.json': JSON.stringify({ name: 'test-project', version: '1.0.0', scripts: { test: 'echo "Running tests..." && exit 0' } }, null, 2),
 };
 
-// These represent the "committed" state of the files
-let committedFileSystem: Record<string, string> = { ...initialFileSystem };
-// This represents the live, working directory
-let mockFileSystem: Record<string, string> = { ...initialFileSystem };
+// The agent project is a git repository, with history kept in its .git directory
+const projectRepo = new WorkspaceGit(workspaceFs, AGENT_PROJECT_DIR);
 let mockScratchpad: Record<string, any> = {};
-let mockVCS = {
-    currentBranch: 'main',
-    status: { staged: [] as string[], unstaged: [] as string[], untracked: [] as string[] },
-};
 
 // --- Helper Functions ---
-const sleep = (ms: number) => new Promise(res => setTimeout(res, ms));
+
+/**
+ * Simulated latency that stops early, with the abort reason, when the call is cancelled
+ */
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+const toWorkspacePath = (path: string) => resolveWorkspacePath(path, AGENT_PROJECT_DIR);
+
+/**
+ * Project-relative form of a path inside the agent project, the absolute path otherwise
+ */
+const toDisplayPath = (path: string) => {
+    const absolute = toWorkspacePath(path);
+    return absolute.startsWith(`${AGENT_PROJECT_DIR}/`) ? absolute.substring(AGENT_PROJECT_DIR.length + 1) : absolute;
+};
+
+const SYSTEM_AUTHOR: GitAuthor = { name: 'Aether System', email: 'system@aether.local' };
+
+/**
+ * Commits are attributed to the agent running the tool
+ */
+const authorFor = (context: ExecutionContext): GitAuthor => {
+    const name = context.agent?.name ?? context.agentId;
+    return { name, email: `${name.toLowerCase().replace(/[^a-z0-9]+/g, '-')}@agents.aether.local` };
+};
+
+/**
+ * Commit everything in the project as the first commit of a new repository
+ */
+const initialCommit = async () => {
+    await projectRepo.init();
+    await projectRepo.add(['.']);
+    await projectRepo.commit('Initial commit', SYSTEM_AUTHOR);
+};
+
+/**
+ * Write the initial project files and history, removing anything else in the project directory
+ */
+const writeInitialProject = async () => {
+    if (await workspaceFs.exists(AGENT_PROJECT_DIR)) {
+        await workspaceFs.remove(AGENT_PROJECT_DIR, { recursive: true });
+    }
+    for (const [path, content] of Object.entries(initialFileSystem)) {
+        await workspaceFs.writeFile(toWorkspacePath(path), content);
+    }
+    await initialCommit();
+};
+
+/**
+ * Create the agent project and its repository the first time a tool needs them
+ */
+const ensureProject = async () => {
+    if (!(await workspaceFs.exists(AGENT_PROJECT_DIR))) {
+        await writeInitialProject();
+    } else if (!(await projectRepo.isRepository())) {
+        await initialCommit();
+    }
+};
+
+/**
+ * Branch, changes, branches and recent history, as shown by VCSDisplay
+ */
+const readVcsState = async (): Promise<VcsState> => {
+    const status = await projectRepo.status();
+    return {
+        currentBranch: status.branch ?? `(detached at ${shortHash(status.head!)})`,
+        head: status.head,
+        status: {
+            staged: status.staged,
+            unstaged: status.unstaged,
+            untracked: status.untracked,
+            conflicted: status.conflicted,
+        },
+        merging: status.merging,
+        branches: await projectRepo.listBranches(),
+        log: await projectRepo.log('HEAD', 10),
+    };
+};
 
 // --- v3 Architecture: Tool Implementations ---
 
 class ReadFileTool implements Tool {
     getName = () => 'read_file';
-    getDescription = () => 'Reads the content of a specific file.';
-    getInputSchema = () => ({ type: 'object', properties: { path: { type: 'string' } }, required: ['path'] });
+    getDescription = () => 'Reads the content of a specific file. Relative paths are in the project; delivered skill files are under ~/mailbox.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { path: { type: 'string' } }, required: ['path'] });
     getRequiredPermissions = () => ['filesystem:read'];
-    async execute({ path }: { path: string }): Promise<string> {
-        await sleep(200);
-        if (path in mockFileSystem) return mockFileSystem[path];
-        throw new Error(`File not found: ${path}`);
+    async execute({ path }: { path: string }, context: ExecutionContext): Promise<string> {
+        await sleep(200, context.signal);
+        await ensureProject();
+        const entry = await workspaceFs.stat(toWorkspacePath(path));
+        if (!entry || entry.type !== 'file') throw new Error(`File not found: ${path}`);
+        return entry.content ?? '';
     }
 }
 
 class WriteFileTool implements Tool {
     getName = () => 'write_file';
     getDescription = () => 'Writes content to a specific file.';
-    getInputSchema = () => ({ type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path', 'content'] });
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { path: { type: 'string' }, content: { type: 'string' } }, required: ['path', 'content'] });
     getRequiredPermissions = () => ['filesystem:write'];
-    async execute({ path, content }: { path: string, content: string }): Promise<{ path: string, diff: string }> {
-        await sleep(500);
-        const oldContent = mockFileSystem[path] || '';
-        mockFileSystem[path] = content;
-        
-        // Update VCS status
-        if (!mockVCS.status.unstaged.includes(path)) {
-            mockVCS.status.unstaged.push(path);
-        }
-        // If it was staged, a new edit makes it unstaged again
-        mockVCS.status.staged = mockVCS.status.staged.filter(p => p !== path);
+    async execute({ path, content }: { path: string, content: string }, context: ExecutionContext): Promise<{ path: string, diff: string }> {
+        await sleep(500, context.signal);
+        await ensureProject();
+        const existing = await workspaceFs.stat(toWorkspacePath(path));
+        const oldContent = existing?.content ?? '';
+        await workspaceFs.writeFile(toWorkspacePath(path), content);
 
         const diff = createPatch(path, oldContent, content, '', '');
         return { path, diff };
     }
 }
 
+interface SearchCodebaseArgs {
+    query: string;
+    mode?: CodebaseSearchMode;
+    path?: string;
+    include?: string[];
+    exclude?: string[];
+    case_sensitive?: boolean;
+    max_results?: number;
+    context_lines?: number;
+}
+
+class SearchCodebaseTool implements Tool {
+    getName = () => 'search_codebase';
+    getDescription = () => 'Searches project files and returns file/line/snippet hits. Modes: literal text (default), regex, or semantic (meaning-based, ranked by relevance). Narrow with a directory path and include/exclude globs such as "src/**/*.js".';
+    getInputSchema = (): ToolInputSchema => ({
+        type: 'object',
+        properties: {
+            query: { type: 'string', minLength: 1 },
+            mode: { type: 'string', enum: ['literal', 'regex', 'semantic'] },
+            path: { type: 'string' },
+            include: { type: 'array', items: { type: 'string' } },
+            exclude: { type: 'array', items: { type: 'string' } },
+            case_sensitive: { type: 'boolean' },
+            max_results: { type: 'integer', minimum: 1, maximum: 200 },
+            context_lines: { type: 'integer', minimum: 0, maximum: 10 },
+        },
+        required: ['query'],
+        additionalProperties: false,
+    });
+    getRequiredPermissions = () => ['filesystem:read'];
+    async execute(args: SearchCodebaseArgs, context: ExecutionContext) {
+        await sleep(200, context.signal);
+        await ensureProject();
+        const mode = args.mode ?? 'literal';
+        const result = await searchCodebase(workspaceFs, {
+            query: args.query,
+            mode,
+            root: toWorkspacePath(args.path ?? '.'),
+            include: args.include,
+            exclude: args.exclude,
+            caseSensitive: args.case_sensitive,
+            maxResults: args.max_results ?? DEFAULT_MAX_SEARCH_RESULTS,
+            contextLines: args.context_lines,
+            signal: context.signal,
+        });
+        return {
+            mode,
+            hits: result.hits.map(hit => ({ ...hit, path: toDisplayPath(hit.path) })),
+            filesSearched: result.filesSearched,
+            truncated: result.truncated,
+        };
+    }
+}
+
 class RunTestsTool implements Tool {
     getName = () => 'run_tests';
     getDescription = () => 'Runs the project\'s test suite.';
-    getInputSchema = () => ({});
+    getInputSchema = (): ToolInputSchema => ({ type: 'object' });
     getRequiredPermissions = () => ['execution:tests'];
-    async execute() {
-        await sleep(2000);
+    async execute(_args: unknown, context: ExecutionContext) {
+        await sleep(2000, context.signal);
         return { success: true, passed: 12, failed: 0 };
     }
 }
@@ -143,10 +305,10 @@ class RunTestsTool implements Tool {
 class ExecuteScriptTool implements Tool {
     getName = () => 'execute_script';
     getDescription = () => 'Executes a script file.';
-    getInputSchema = () => ({ type: 'object', properties: { path: { type: 'string' } }, required: ['path'] });
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { path: { type: 'string' } }, required: ['path'] });
     getRequiredPermissions = () => ['execution:scripts'];
-    async execute({ path }: { path: string }) {
-        await sleep(1500);
+    async execute({ path }: { path: string }, context: ExecutionContext) {
+        await sleep(1500, context.signal);
         if (path.startsWith('tests/')) return { stdout: 'Login test successful!', exit_code: 0 };
         throw new Error(`Cannot execute script: ${path}`);
     }
@@ -155,10 +317,10 @@ class ExecuteScriptTool implements Tool {
 class ScratchpadSetTool implements Tool {
     getName = () => 'scratchpad.set';
     getDescription = () => 'Saves a key-value pair to the scratchpad.';
-    getInputSchema = () => ({});
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { key: { type: 'string' } }, required: ['key', 'value'] });
     getRequiredPermissions = () => ['scratchpad:write'];
-    async execute({ key, value }: { key: string, value: any }) {
-        await sleep(100);
+    async execute({ key, value }: { key: string, value: any }, context: ExecutionContext) {
+        await sleep(100, context.signal);
         mockScratchpad[key] = value;
         return { status: 'ok', key, value };
     }
@@ -166,84 +328,137 @@ class ScratchpadSetTool implements Tool {
 
 class GitAddTool implements Tool {
     getName = () => 'git.add';
-    getDescription = () => 'Stages file changes for the next commit.';
-    getInputSchema = () => ({ type: 'object', properties: { paths: { type: 'array', items: { type: 'string' } } }, required: ['paths'] });
+    getDescription = () => 'Stages file changes for the next commit. Use "." to stage everything.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { paths: { type: 'array', items: { type: 'string' } } }, required: ['paths'] });
     getRequiredPermissions = () => ['vcs:stage'];
-    async execute({ paths }: { paths: string[] }) {
-        await sleep(300);
-        paths.forEach(path => {
-            if (mockVCS.status.unstaged.includes(path)) {
-                mockVCS.status.unstaged = mockVCS.status.unstaged.filter(p => p !== path);
-                if (!mockVCS.status.staged.includes(path)) {
-                    mockVCS.status.staged.push(path);
-                }
-            }
-        });
-        return { message: `Staged ${paths.length} file(s).` };
+    async execute({ paths }: { paths: string[] }, context: ExecutionContext) {
+        await sleep(300, context.signal);
+        await ensureProject();
+        const staged = await projectRepo.add(paths.map(toDisplayPath));
+        return { message: `Staged ${staged.length} file(s).`, paths: staged };
     }
 }
 
 class GitCreateBranchTool implements Tool {
     getName = () => 'git.create_branch';
-    getDescription = () => 'Creates a new git branch.';
-    getInputSchema = () => ({ type: 'object', properties: { branch_name: { type: 'string' } }, required: ['branch_name'] });
+    getDescription = () => 'Creates a new git branch at the current commit and switches to it.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { branch_name: { type: 'string' } }, required: ['branch_name'] });
     getRequiredPermissions = () => ['vcs:branch'];
-    async execute({ branch_name }: { branch_name: string }) {
-        await sleep(400);
-        mockVCS.currentBranch = branch_name;
+    async execute({ branch_name }: { branch_name: string }, context: ExecutionContext) {
+        await sleep(400, context.signal);
+        await ensureProject();
+        await projectRepo.createBranch(branch_name, { checkout: true });
         return { message: `Switched to a new branch '${branch_name}'` };
     }
 }
 
+class GitCheckoutTool implements Tool {
+    getName = () => 'git.checkout';
+    getDescription = () => 'Switches to a branch, or detaches HEAD at a commit. Fails if uncommitted changes would be lost.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { ref: { type: 'string' } }, required: ['ref'] });
+    getRequiredPermissions = () => ['vcs:branch'];
+    async execute({ ref }: { ref: string }, context: ExecutionContext) {
+        await sleep(400, context.signal);
+        await ensureProject();
+        const { branch, head } = await projectRepo.checkout(ref);
+        return { message: branch ? `Switched to branch '${branch}'` : `HEAD is now at ${shortHash(head)}`, branch, head };
+    }
+}
+
 class GitCommitTool implements Tool {
     getName = () => 'git.commit_changes';
-    getDescription = () => 'Commits staged changes.';
-    getInputSchema = () => ({ type: 'object', properties: { commit_message: { type: 'string' } }, required: ['commit_message'] });
+    getDescription = () => 'Commits staged changes, authored by the calling agent.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { commit_message: { type: 'string' } }, required: ['commit_message'] });
     getRequiredPermissions = () => ['vcs:commit'];
-    async execute({ commit_message }: { commit_message: string }) {
-        await sleep(600);
-        if (mockVCS.status.staged.length === 0) {
+    async execute({ commit_message }: { commit_message: string }, context: ExecutionContext) {
+        await sleep(600, context.signal);
+        await ensureProject();
+        const status = await projectRepo.status();
+        if (status.staged.length === 0 && !status.merging) {
             return { message: "nothing to commit, working tree clean" };
         }
-        // Update the "committed" state to match the current working directory for staged files
-        mockVCS.status.staged.forEach(path => {
-            committedFileSystem[path] = mockFileSystem[path];
-        });
-        mockVCS.status.staged = [];
-        return { message: `Committed with message: "${commit_message}"` };
+        const commit = await projectRepo.commit(commit_message, authorFor(context));
+        return { message: `Committed with message: "${commit_message}"`, commit };
     }
 }
 
 class GetStatusTool implements Tool {
     getName = () => 'git.get_status';
-    getDescription = () => 'Gets the git status by diffing against the last commit.';
-    getInputSchema = () => ({});
+    getDescription = () => 'Gets the branch, staged, unstaged, untracked and conflicted files, and recent commits.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object' });
     getRequiredPermissions = () => ['vcs:read'];
-    async execute() {
-        await sleep(200);
-        // Recalculate unstaged based on diff with committed state, but preserve staged files
-        const unstaged: string[] = [];
-        for (const path in mockFileSystem) {
-            if (mockFileSystem[path] !== committedFileSystem[path] && !mockVCS.status.staged.includes(path)) {
-                unstaged.push(path);
-            }
-        }
-        mockVCS.status.unstaged = unstaged;
-        return mockVCS;
+    async execute(_args: unknown, context: ExecutionContext) {
+        await sleep(200, context.signal);
+        await ensureProject();
+        return readVcsState();
+    }
+}
+
+class GitLogTool implements Tool {
+    getName = () => 'git.log';
+    getDescription = () => 'Lists commits reachable from a branch or commit, newest first.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { ref: { type: 'string' }, limit: { type: 'integer', minimum: 1 } } });
+    getRequiredPermissions = () => ['vcs:read'];
+    async execute({ ref = 'HEAD', limit = 20 }: { ref?: string; limit?: number }, context: ExecutionContext) {
+        await sleep(200, context.signal);
+        await ensureProject();
+        return projectRepo.log(ref, limit);
+    }
+}
+
+class GitDiffTool implements Tool {
+    getName = () => 'git.diff';
+    getDescription = () => 'Shows unstaged changes, staged changes (cached), or the changes a commit made (commit).';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { commit: { type: 'string' }, cached: { type: 'boolean' }, paths: { type: 'array', items: { type: 'string' } } } });
+    getRequiredPermissions = () => ['vcs:read'];
+    async execute({ commit, cached, paths }: { commit?: string; cached?: boolean; paths?: string[] }, context: ExecutionContext) {
+        await sleep(200, context.signal);
+        await ensureProject();
+        return projectRepo.diff({ commit, cached, paths: paths?.map(toDisplayPath) });
+    }
+}
+
+class GitMergeTool implements Tool {
+    getName = () => 'git.merge';
+    getDescription = () => 'Merges a branch into the current branch. Overlapping changes are reported as conflicts to fix, stage and commit.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { branch: { type: 'string' } }, required: ['branch'] });
+    getRequiredPermissions = () => ['vcs:commit'];
+    async execute({ branch }: { branch: string }, context: ExecutionContext) {
+        await sleep(600, context.signal);
+        await ensureProject();
+        const result = await projectRepo.merge(branch, authorFor(context));
+        const messages = {
+            'up-to-date': 'Already up to date.',
+            'fast-forward': `Fast-forwarded to '${branch}'.`,
+            'merged': `Merged '${branch}'.`,
+            'conflicts': `Automatic merge failed; fix conflicts in ${result.conflicts.join(', ')}, stage them and commit.`,
+        };
+        return { message: messages[result.status], ...result };
+    }
+}
+
+class GitRevertTool implements Tool {
+    getName = () => 'git.revert';
+    getDescription = () => 'Creates a commit that undoes the changes of an earlier commit.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object', properties: { commit: { type: 'string' } }, required: ['commit'] });
+    getRequiredPermissions = () => ['vcs:commit'];
+    async execute({ commit }: { commit: string }, context: ExecutionContext) {
+        await sleep(600, context.signal);
+        await ensureProject();
+        const revert = await projectRepo.revert(commit, authorFor(context));
+        return { message: `Reverted ${commit}`, commit: revert };
     }
 }
 
 class ResetStateTool implements Tool {
     getName = () => 'resetState';
-    getDescription = () => 'Resets the entire simulation state.';
-    getInputSchema = () => ({});
+    getDescription = () => 'Resets the agent project and the rest of the simulation state.';
+    getInputSchema = (): ToolInputSchema => ({ type: 'object' });
     getRequiredPermissions = () => ['system:admin'];
-    async execute() {
-        committedFileSystem = { ...initialFileSystem };
-        mockFileSystem = { ...initialFileSystem };
+    async execute(_args: unknown, context: ExecutionContext) {
+        await writeInitialProject();
         mockScratchpad = {};
-        mockVCS = { currentBranch: 'main', status: { staged: [], unstaged: [], untracked: [] } };
-        await sleep(100);
+        await sleep(100, context.signal);
         return "State has been reset.";
     }
 }
@@ -255,23 +470,75 @@ class ToolRegistry {
 
     constructor() {
         [
-            new ReadFileTool(), new WriteFileTool(), new RunTestsTool(),
+            new ReadFileTool(), new WriteFileTool(), new SearchCodebaseTool(), new RunTestsTool(),
             new ExecuteScriptTool(), new ScratchpadSetTool(), new GitAddTool(), 
-            new GitCreateBranchTool(), new GitCommitTool(), new GetStatusTool(), 
+            new GitCreateBranchTool(), new GitCheckoutTool(), new GitCommitTool(), new GetStatusTool(),
+            new GitLogTool(), new GitDiffTool(), new GitMergeTool(), new GitRevertTool(),
             new ResetStateTool()
         ].forEach(tool => this.register(tool));
     }
 
     register(tool: Tool) { this.tools.set(tool.getName(), tool); }
+    unregister(name: string) { this.tools.delete(name); }
     getTool(name: string): Tool | undefined { return this.tools.get(name); }
+    getToolNames(): string[] { return [...this.tools.keys()]; }
 }
 
 export const toolRegistry = new ToolRegistry();
 
+// Tools whose permissions change files, history or state; a 'strict' sandbox blocks them
+const WRITE_PERMISSIONS = ['filesystem:write', 'vcs:stage', 'vcs:branch', 'vcs:commit', 'scratchpad:write', 'system:admin'];
+export const NETWORK_PERMISSION = 'network:access';
+
+const rateLimiter = new SlidingWindowRateLimiter(60_000);
+
+/**
+ * Sandbox and network rules of the policy for a call, or null when it may run
+ */
+const checkSandbox = (tool: Tool, args: any, policy: ReturnType<typeof getAgentSecurityPolicy>): { kind: ToolViolationKind; message: string } | null => {
+    const permissions = tool.getRequiredPermissions();
+    if (permissions.includes(NETWORK_PERMISSION) && !policy.allowNetworkAccess) {
+        return { kind: 'NETWORK', message: `Tool '${tool.getName()}' needs network access, which this agent's policy does not allow.` };
+    }
+    if (policy.sandboxLevel === 'none' || !permissions.some(permission => WRITE_PERMISSIONS.includes(permission))) {
+        return null;
+    }
+    if (policy.sandboxLevel === 'strict') {
+        return { kind: 'SANDBOX', message: `Tool '${tool.getName()}' makes changes, which the 'strict' sandbox does not allow.` };
+    }
+    // 'permissive': file writes must stay inside the agent project
+    const path = typeof args.path === 'string' ? toWorkspacePath(args.path) : null;
+    if (path && path !== AGENT_PROJECT_DIR && !path.startsWith(`${AGENT_PROJECT_DIR}/`)) {
+        return { kind: 'SANDBOX', message: `Writing '${args.path}' is outside the project directory allowed by the 'permissive' sandbox.` };
+    }
+    return null;
+};
+
 export async function executeTool(toolName: string, args: any, context: ExecutionContext): Promise<ToolResult> {
+    const auditBase = {
+        agentId: context.agentId,
+        agentName: context.agent?.name,
+        agentRole: context.agent?.role,
+        toolName,
+    };
+
+    /**
+     * Refuse the call, recording the violation in the audit log
+     */
+    const deny = (kind: ToolViolationKind, error: StructuredError): ToolResult => {
+        if (AppSecurityPolicy.global.logRBACViolations) {
+            toolAuditLog.append({ ...auditBase, outcome: 'violation', violation: kind, message: error.message });
+        }
+        return { success: false, data: null, error };
+    };
+
     const tool = toolRegistry.getTool(toolName);
     if (!tool) {
-        return { success: false, data: null, error: { type: 'NOT_FOUND', message: `Tool '${toolName}' not found.`, details: null } };
+        const message = `Tool '${toolName}' not found.`;
+        if (AppSecurityPolicy.global.logToolExecutions) {
+            toolAuditLog.append({ ...auditBase, outcome: 'failed', message });
+        }
+        return { success: false, data: null, error: { type: 'NOT_FOUND', message, details: null } };
     }
 
     // 1. RBAC Authorization Check (TRUST ARCHITECTURE)
@@ -288,59 +555,99 @@ export async function executeTool(toolName: string, args: any, context: Executio
 
         if (!context.agent.allowedTools.includes(typedToolName)) {
             // RBAC VIOLATION: Agent attempted to use unauthorized tool
-            return {
-                success: false,
-                data: null,
-                error: {
-                    type: 'AUTHORIZATION',
-                    message: `RBAC Violation: Agent '${context.agent.name}' with role '${context.agent.role}' is not authorized to use tool '${toolName}'.`,
-                    details: {
-                        agentName: context.agent.name,
-                        agentRole: context.agent.role,
-                        attemptedTool: toolName,
-                        allowedTools: context.agent.allowedTools,
-                        rbacMode: 'agent-based',
-                    }
+            return deny('RBAC', {
+                type: 'AUTHORIZATION',
+                message: `RBAC Violation: Agent '${context.agent.name}' with role '${context.agent.role}' is not authorized to use tool '${toolName}'.`,
+                details: {
+                    agentName: context.agent.name,
+                    agentRole: context.agent.role,
+                    attemptedTool: toolName,
+                    allowedTools: context.agent.allowedTools,
+                    rbacMode: 'agent-based',
                 }
-            };
+            });
         }
     } else {
         // Mode B: Legacy permission-based authorization
         const requiredPermissions = tool.getRequiredPermissions();
         const missingPermissions = requiredPermissions.filter(p => !context.permissions.includes(p));
         if (missingPermissions.length > 0) {
-            return {
-                success: false,
-                data: null,
-                error: {
-                    type: 'AUTHORIZATION',
-                    message: `Agent lacks required permissions.`,
-                    details: {
-                        required: requiredPermissions,
-                        missing: missingPermissions,
-                        rbacMode: 'permission-based',
-                    }
+            return deny('PERMISSION', {
+                type: 'AUTHORIZATION',
+                message: `Agent lacks required permissions.`,
+                details: {
+                    required: requiredPermissions,
+                    missing: missingPermissions,
+                    rbacMode: 'permission-based',
                 }
-            };
+            });
         }
     }
 
-    // 2. Input Validation (Simplified for demo)
-    const schema = tool.getInputSchema() as any;
-    if (schema.required) {
-        for (const key of schema.required) {
-            if (!(key in args)) {
-                 return { success: false, data: null, error: { type: 'VALIDATION', message: `Missing required argument: '${key}'.`, details: { missing: key } } };
-            }
+    // 2. Rate Limiting (per agent, sliding one-minute window)
+    const policy = getAgentSecurityPolicy(context.agent?.name);
+    if (AppSecurityPolicy.global.enforceRateLimiting) {
+        const slot = rateLimiter.tryAcquire(context.agentId, policy.rateLimitPerMinute);
+        if (!slot.allowed) {
+            return deny('RATE_LIMIT', {
+                type: 'RATE_LIMIT',
+                message: `Rate limit exceeded: at most ${policy.rateLimitPerMinute} tool calls per minute. Retry in ${Math.ceil(slot.retryAfterMs / 1000)}s.`,
+                details: { limitPerMinute: policy.rateLimitPerMinute, retryAfterMs: slot.retryAfterMs },
+            });
         }
     }
-    
-    // 3. Safe Execution
+
+    // 3. Input Validation against the tool's schema
+    const validationErrors = AppSecurityPolicy.validation.enforceSchemaValidation
+        ? validateToolInput(tool.getInputSchema(), args ?? {})
+        : [];
+    const inputLength = JSON.stringify(args ?? {}).length;
+    if (inputLength > AppSecurityPolicy.validation.maxInputLength) {
+        validationErrors.push(`Input is ${inputLength} characters; the limit is ${AppSecurityPolicy.validation.maxInputLength}.`);
+    }
+    if (validationErrors.length > 0) {
+        return deny('VALIDATION', {
+            type: 'VALIDATION',
+            message: validationErrors[0],
+            details: { errors: validationErrors },
+        });
+    }
+
+    // 4. Sandbox and network rules
+    const sandboxViolation = checkSandbox(tool, args, policy);
+    if (sandboxViolation) {
+        return deny(sandboxViolation.kind, {
+            type: 'AUTHORIZATION',
+            message: sandboxViolation.message,
+            details: { sandboxLevel: policy.sandboxLevel, allowNetworkAccess: policy.allowNetworkAccess },
+        });
+    }
+
+    // 5. Safe Execution, cancelled at the policy's time limit
+    const startedAt = Date.now();
     try {
-        const data = await tool.execute(args);
+        const data = await runWithTimeout(
+            signal => tool.execute(args, { ...context, signal }),
+            policy.maxExecutionTime,
+            context.signal
+        );
+        if (AppSecurityPolicy.global.logToolExecutions) {
+            toolAuditLog.append({ ...auditBase, outcome: 'executed', message: 'Completed.', durationMs: Date.now() - startedAt });
+        }
         return { success: true, data, error: null };
     } catch (error) {
+        const durationMs = Date.now() - startedAt;
+        if (error instanceof ToolTimeoutError) {
+            if (AppSecurityPolicy.global.logRBACViolations) {
+                toolAuditLog.append({ ...auditBase, outcome: 'violation', violation: 'TIMEOUT', message: error.message, durationMs });
+            }
+            return { success: false, data: null, error: { type: 'TIMEOUT', message: error.message, details: { timeoutMs: error.timeoutMs } } };
+        }
         const message = error instanceof Error ? error.message : 'An unknown execution error occurred.';
-        return { success: false, data: null, error: { type: 'EXECUTION', message, details: null } };
+        if (AppSecurityPolicy.global.logToolExecutions) {
+            toolAuditLog.append({ ...auditBase, outcome: 'failed', message, durationMs });
+        }
+        const details = error instanceof ToolCancelledError ? { cancelled: true } : null;
+        return { success: false, data: null, error: { type: 'EXECUTION', message, details } };
     }
-}
\ No newline at end of file
+}
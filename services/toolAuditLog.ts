@@ -0,0 +1,90 @@
+// services/toolAuditLog.ts
+// TRUST ARCHITECTURE: Append-only audit trail of agent tool calls
+//
+// executeTool records every execution and every policy violation here. Entries are frozen and the
+// log has no way to remove or edit them, so the trail shows exactly what agents attempted.
+import { LogEntry } from '../types';
+
+export type ToolAuditOutcome = 'executed' | 'failed' | 'violation';
+
+export type ToolViolationKind = 'RBAC' | 'PERMISSION' | 'SANDBOX' | 'NETWORK' | 'RATE_LIMIT' | 'VALIDATION' | 'TIMEOUT';
+
+export interface ToolAuditEntry {
+  /** Sequence number, starting at 1 */
+  readonly id: number;
+  /** ISO 8601 */
+  readonly timestamp: string;
+  readonly agentId: string;
+  readonly agentName?: string;
+  readonly agentRole?: string;
+  readonly toolName: string;
+  readonly outcome: ToolAuditOutcome;
+  /** Set when outcome is 'violation' */
+  readonly violation?: ToolViolationKind;
+  readonly message: string;
+  /** Set once the tool has run (or timed out) */
+  readonly durationMs?: number;
+}
+
+export type ToolAuditRecord = Omit<ToolAuditEntry, 'id' | 'timestamp'>;
+
+export type ToolAuditListener = (entry: ToolAuditEntry) => void;
+
+export class ToolAuditLog {
+  private readonly entries: ToolAuditEntry[] = [];
+  private listeners = new Set<ToolAuditListener>();
+
+  append(record: ToolAuditRecord): ToolAuditEntry {
+    const entry: ToolAuditEntry = Object.freeze({
+      ...record,
+      id: this.entries.length + 1,
+      timestamp: new Date().toISOString(),
+    });
+    this.entries.push(entry);
+    this.listeners.forEach(listener => {
+      try {
+        listener(entry);
+      } catch (error) {
+        console.error('Tool audit listener failed:', error);
+      }
+    });
+    return entry;
+  }
+
+  /**
+   * Entries oldest first, optionally only those for one agent or outcome
+   */
+  list(filter: { agentId?: string; outcome?: ToolAuditOutcome } = {}): ToolAuditEntry[] {
+    return this.entries.filter(entry =>
+      (filter.agentId === undefined || entry.agentId === filter.agentId) &&
+      (filter.outcome === undefined || entry.outcome === filter.outcome)
+    );
+  }
+
+  /**
+   * Subscribe to new entries. Returns the unsubscribe function.
+   */
+  subscribe(listener: ToolAuditListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+export const toolAuditLog = new ToolAuditLog();
+
+/**
+ * Show an audit entry in a Foundry LiveLog. Violations are RBAC_VIOLATION entries.
+ */
+export function toLogEntry(entry: ToolAuditEntry): LogEntry {
+  const agent = entry.agentName ? `${entry.agentName} (${entry.agentRole ?? entry.agentId})` : entry.agentId;
+  const type = entry.outcome === 'violation' ? 'RBAC_VIOLATION' : entry.outcome === 'executed' ? 'SUCCESS' : 'INFO';
+  const label = entry.outcome === 'violation' ? `[${entry.violation}] ` : '';
+  return {
+    id: `tool-audit-${entry.id}`,
+    timestamp: new Date(entry.timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' }),
+    type,
+    message: `${label}${agent} → ${entry.toolName}: ${entry.message}`,
+  };
+}
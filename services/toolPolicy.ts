@@ -0,0 +1,160 @@
+// services/toolPolicy.ts
+// TRUST ARCHITECTURE: Execution limits for agent tool calls
+//
+// The building blocks executeTool uses to enforce AppSecurityPolicy beyond RBAC:
+// sliding-window rate limits, input validation against a tool's JSON schema, and
+// per-call timeouts that cancel the tool through an AbortSignal.
+
+export class ToolTimeoutError extends Error {
+  constructor(message: string, public timeoutMs: number) {
+    super(message);
+    this.name = 'ToolTimeoutError';
+    Object.setPrototypeOf(this, ToolTimeoutError.prototype);
+  }
+}
+
+export class ToolCancelledError extends Error {
+  constructor(message: string = 'Tool call was cancelled') {
+    super(message);
+    this.name = 'ToolCancelledError';
+    Object.setPrototypeOf(this, ToolCancelledError.prototype);
+  }
+}
+
+/**
+ * Counts calls per key over the last `windowMs`. Unlike a fixed window, a burst at the end of one
+ * minute and the start of the next still counts as one minute's calls.
+ */
+export class SlidingWindowRateLimiter {
+  private calls = new Map<string, number[]>();
+
+  constructor(private windowMs: number = 60_000) {}
+
+  /**
+   * Record a call for `key` if it is within `limit`. When it is not, `retryAfterMs` is how long to wait.
+   */
+  tryAcquire(key: string, limit: number, now: number = Date.now()): { allowed: boolean; retryAfterMs: number } {
+    const recent = (this.calls.get(key) ?? []).filter(time => time > now - this.windowMs);
+    if (recent.length >= limit) {
+      this.calls.set(key, recent);
+      return { allowed: false, retryAfterMs: recent[0] + this.windowMs - now };
+    }
+    recent.push(now);
+    this.calls.set(key, recent);
+    return { allowed: true, retryAfterMs: 0 };
+  }
+
+  reset(key?: string): void {
+    if (key === undefined) this.calls.clear();
+    else this.calls.delete(key);
+  }
+}
+
+/**
+ * The subset of JSON Schema that tool input schemas use
+ */
+export interface ToolInputSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, ToolInputSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: ToolInputSchema;
+  enum?: unknown[];
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+}
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && Number.isInteger(value)) return 'integer';
+  return typeof value;
+};
+
+/**
+ * Check `value` against `schema`. Returns one message per problem, each naming the argument path;
+ * an empty schema accepts anything.
+ */
+export function validateToolInput(schema: ToolInputSchema, value: unknown, path: string = 'args'): string[] {
+  const errors: string[] = [];
+  const actual = typeOf(value);
+
+  if (schema.type) {
+    const matches = schema.type === 'number' ? actual === 'number' || actual === 'integer' : actual === schema.type;
+    if (!matches) return [`'${path}' must be ${/^[aeiou]/.test(schema.type) ? 'an' : 'a'} ${schema.type}, got ${actual}`];
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`'${path}' must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`'${path}' must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`'${path}' must be at most ${schema.maximum}`);
+  }
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) errors.push(`'${path}' must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) errors.push(`'${path}' must be at most ${schema.maxLength} characters`);
+  }
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => errors.push(...validateToolInput(schema.items!, item, `${path}[${index}]`)));
+  }
+  if (actual === 'object') {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? [])
+      .filter(key => record[key] === undefined)
+      .forEach(key => errors.push(`Missing required argument: '${key}'`));
+    Object.entries(record).forEach(([key, child]) => {
+      const childSchema = schema.properties?.[key];
+      if (childSchema) {
+        if (child !== undefined) errors.push(...validateToolInput(childSchema, child, `${path}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push(`Unknown argument: '${key}'`);
+      }
+    });
+  }
+  return errors;
+}
+
+/**
+ * Run `task` with a signal that aborts after `timeoutMs` or when `parentSignal` aborts,
+ * rejecting with ToolTimeoutError or ToolCancelledError at that moment even if the task
+ * ignores the signal.
+ */
+export function runWithTimeout<T>(
+  task: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  parentSignal?: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      parentSignal?.removeEventListener('abort', onParentAbort);
+    };
+    const fail = (error: Error) => {
+      cleanup();
+      controller.abort(error);
+      reject(error);
+    };
+    const onParentAbort = () => fail(new ToolCancelledError());
+    const timer = setTimeout(() => fail(new ToolTimeoutError(`Tool call timed out after ${timeoutMs}ms`, timeoutMs)), timeoutMs);
+
+    if (parentSignal?.aborted) {
+      onParentAbort();
+      return;
+    }
+    parentSignal?.addEventListener('abort', onParentAbort);
+
+    task(controller.signal).then(
+      value => {
+        cleanup();
+        resolve(value);
+      },
+      error => {
+        cleanup();
+        reject(error);
+      }
+    );
+  });
+}
@@ -0,0 +1,229 @@
+/**
+ * Persistence for the codebase intelligence vector index
+ *
+ * Documents (with their chunk layout) and chunk embeddings are kept in IndexedDB so a page reload
+ * restores the index instead of re-embedding the repository. Embeddings are content-addressed:
+ * the key is the embedding model plus the SHA-256 of the embedded chunk text, so chunks of an unchanged
+ * file or a reverted edit are never embedded twice. Embeddings no stored document references any more are
+ * swept by the IntelligenceService, so edits do not grow the store without bound.
+ *
+ * Environments without IndexedDB (tests, SSR, private browsing) get an in-memory store with the same API.
+ */
+
+import type { CodebaseDocument } from './intelligenceService';
+
+export interface StoredChunk {
+  id: string;
+  startLine: number;
+  endLine: number;
+  /** Declaration the chunk covers, e.g. "function handleLogin" or "## Setup" */
+  symbol?: string;
+  content: string;
+  contentHash: string;
+}
+
+export interface StoredDocument extends Omit<CodebaseDocument, 'content' | 'lastModified'> {
+  /** ISO timestamp; IndexedDB stores dates as plain values */
+  lastModified: string;
+  contentHash: string;
+  chunks: StoredChunk[];
+}
+
+export interface VectorIndexStore {
+  loadDocuments(): Promise<StoredDocument[]>;
+  saveDocument(document: StoredDocument): Promise<void>;
+  deleteDocument(id: string): Promise<void>;
+  /** Returns only the keys that are stored */
+  getEmbeddings(keys: string[]): Promise<Map<string, number[]>>;
+  putEmbeddings(entries: { key: string; vector: number[] }[]): Promise<void>;
+  getEmbeddingKeys(): Promise<string[]>;
+  deleteEmbeddings(keys: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'aether-intelligence-index';
+const DB_VERSION = 1;
+const DOCUMENTS_STORE = 'documents';
+const EMBEDDINGS_STORE = 'embeddings';
+
+/**
+ * Key under which an embedding of `contentHash` produced by `model` is stored
+ */
+export function embeddingKey(model: string, contentHash: string): string {
+  return `${model}:${contentHash}`;
+}
+
+/**
+ * Content hash part of an embedding key; model names may themselves contain colons
+ */
+export function embeddingKeyHash(key: string): string {
+  return key.slice(key.lastIndexOf(':') + 1);
+}
+
+/**
+ * SHA-256 of a string, hex encoded
+ */
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class IndexedDBVectorStore implements VectorIndexStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = DB_NAME) {}
+
+  async loadDocuments(): Promise<StoredDocument[]> {
+    const db = await this.open();
+    return promisify(db.transaction(DOCUMENTS_STORE).objectStore(DOCUMENTS_STORE).getAll());
+  }
+
+  async saveDocument(document: StoredDocument): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).put(document);
+    await transactionDone(transaction);
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(DOCUMENTS_STORE, 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).delete(id);
+    await transactionDone(transaction);
+  }
+
+  async getEmbeddings(keys: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    if (keys.length === 0) return found;
+
+    const db = await this.open();
+    const store = db.transaction(EMBEDDINGS_STORE).objectStore(EMBEDDINGS_STORE);
+    const records = await Promise.all(
+      keys.map(key => promisify<{ key: string; vector: number[] } | undefined>(store.get(key)))
+    );
+    records.forEach(record => {
+      if (record) found.set(record.key, record.vector);
+    });
+    return found;
+  }
+
+  async putEmbeddings(entries: { key: string; vector: number[] }[]): Promise<void> {
+    if (entries.length === 0) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    entries.forEach(entry => store.put(entry));
+    await transactionDone(transaction);
+  }
+
+  async getEmbeddingKeys(): Promise<string[]> {
+    const db = await this.open();
+    const keys = await promisify(db.transaction(EMBEDDINGS_STORE).objectStore(EMBEDDINGS_STORE).getAllKeys());
+    return keys as string[];
+  }
+
+  async deleteEmbeddings(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(EMBEDDINGS_STORE, 'readwrite');
+    const store = transaction.objectStore(EMBEDDINGS_STORE);
+    keys.forEach(key => store.delete(key));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction([DOCUMENTS_STORE, EMBEDDINGS_STORE], 'readwrite');
+    transaction.objectStore(DOCUMENTS_STORE).clear();
+    transaction.objectStore(EMBEDDINGS_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(DOCUMENTS_STORE)) {
+          db.createObjectStore(DOCUMENTS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(EMBEDDINGS_STORE)) {
+          db.createObjectStore(EMBEDDINGS_STORE, { keyPath: 'key' });
+        }
+      };
+      this.db = promisify(request).catch(error => {
+        // Allow a later call to retry, e.g. after the user closes another tab blocking an upgrade
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+}
+
+export class MemoryVectorStore implements VectorIndexStore {
+  private documents = new Map<string, StoredDocument>();
+  private embeddings = new Map<string, number[]>();
+
+  async loadDocuments(): Promise<StoredDocument[]> {
+    return [...this.documents.values()];
+  }
+
+  async saveDocument(document: StoredDocument): Promise<void> {
+    this.documents.set(document.id, document);
+  }
+
+  async deleteDocument(id: string): Promise<void> {
+    this.documents.delete(id);
+  }
+
+  async getEmbeddings(keys: string[]): Promise<Map<string, number[]>> {
+    const found = new Map<string, number[]>();
+    keys.forEach(key => {
+      const vector = this.embeddings.get(key);
+      if (vector) found.set(key, vector);
+    });
+    return found;
+  }
+
+  async putEmbeddings(entries: { key: string; vector: number[] }[]): Promise<void> {
+    entries.forEach(entry => this.embeddings.set(entry.key, entry.vector));
+  }
+
+  async getEmbeddingKeys(): Promise<string[]> {
+    return [...this.embeddings.keys()];
+  }
+
+  async deleteEmbeddings(keys: string[]): Promise<void> {
+    keys.forEach(key => this.embeddings.delete(key));
+  }
+
+  async clear(): Promise<void> {
+    this.documents.clear();
+    this.embeddings.clear();
+  }
+}
+
+/**
+ * IndexedDB when the environment has it, memory otherwise
+ */
+export function createVectorIndexStore(): VectorIndexStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBVectorStore() : new MemoryVectorStore();
+}
@@ -0,0 +1,455 @@
+/**
+ * Workspace filesystem
+ *
+ * One filesystem shared by the Terminal, the agent tools (read_file, write_file, git.*) and the Mailbox.
+ * The whole tree is held in memory after `ready()` and every change is written through to a
+ * WorkspaceStore (IndexedDB in the browser), so files survive a reload. File contents count against
+ * a quota measured in UTF-8 bytes.
+ */
+
+import JSZip from 'jszip';
+import {
+  createWorkspaceStore,
+  type WorkspaceEntry,
+  type WorkspaceMetadata,
+  type WorkspaceStore,
+} from './workspaceStore';
+
+export type { WorkspaceEntry, WorkspaceMetadata } from './workspaceStore';
+
+export const WORKSPACE_HOME = '/home/user';
+export const DEFAULT_WORKSPACE_QUOTA_BYTES = 50 * 1024 * 1024;
+
+export type WorkspaceFsErrorCode = 'ENOENT' | 'EISDIR' | 'ENOTDIR' | 'EEXIST' | 'ENOTEMPTY' | 'EINVAL' | 'EQUOTA';
+
+export class WorkspaceFsError extends Error {
+  constructor(message: string, public code: WorkspaceFsErrorCode, public path: string) {
+    super(message);
+    this.name = 'WorkspaceFsError';
+    Object.setPrototypeOf(this, WorkspaceFsError.prototype);
+  }
+}
+
+export interface WorkspaceUsage {
+  usedBytes: number;
+  quotaBytes: number;
+  fileCount: number;
+  directoryCount: number;
+}
+
+export interface WorkspaceFileSystemOptions {
+  quotaBytes?: number;
+  /** Files written on first start, when the store is empty. Keys are absolute paths. */
+  seed?: Record<string, string>;
+}
+
+/** Called with every path a change created, modified or removed */
+export type WorkspaceChangeListener = (paths: string[]) => void;
+
+const DEFAULT_SEED: Record<string, string> = {
+  [`${WORKSPACE_HOME}/README.md`]: 'This is the user directory.',
+  [`${WORKSPACE_HOME}/documents/project-plan.txt`]: 'Phase 1: Build the terminal.\nPhase 2: Add more features.',
+  [`${WORKSPACE_HOME}/projects/aether-shunt/package.json`]: '{ "name": "aether-shunt", "version": "2.0.0" }',
+};
+
+const encoder = new TextEncoder();
+
+const byteLength = (content: string) => encoder.encode(content).length;
+
+/**
+ * Resolve `target` against the absolute directory `cwd`. Handles `~`, `.`, `..` and repeated slashes;
+ * `..` stops at the root.
+ */
+export function resolveWorkspacePath(target: string, cwd: string = '/'): string {
+  let path = target.trim();
+  if (path === '~' || path.startsWith('~/')) {
+    path = WORKSPACE_HOME + path.substring(1);
+  } else if (!path.startsWith('/')) {
+    path = `${cwd}/${path}`;
+  }
+
+  const parts: string[] = [];
+  for (const part of path.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') parts.pop();
+    else parts.push(part);
+  }
+  return '/' + parts.join('/');
+}
+
+/**
+ * Absolute path with the home directory shown as `~`
+ */
+export function formatWorkspacePath(path: string): string {
+  if (path === WORKSPACE_HOME) return '~';
+  if (path.startsWith(`${WORKSPACE_HOME}/`)) return '~' + path.substring(WORKSPACE_HOME.length);
+  return path;
+}
+
+const parentOf = (path: string) => (path === '/' ? '/' : path.substring(0, path.lastIndexOf('/')) || '/');
+
+const isWithin = (path: string, dir: string) => dir === '/' || path === dir || path.startsWith(`${dir}/`);
+
+const copyEntry = (entry: WorkspaceEntry): WorkspaceEntry => ({ ...entry, metadata: { ...entry.metadata } });
+
+export class WorkspaceFileSystem {
+  private entries = new Map<string, WorkspaceEntry>();
+  private loading: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+  private listeners = new Set<WorkspaceChangeListener>();
+  private readonly quotaBytes: number;
+  private readonly seed: Record<string, string>;
+
+  constructor(private readonly store: WorkspaceStore, options: WorkspaceFileSystemOptions = {}) {
+    this.quotaBytes = options.quotaBytes ?? DEFAULT_WORKSPACE_QUOTA_BYTES;
+    this.seed = options.seed ?? DEFAULT_SEED;
+  }
+
+  /**
+   * Load the tree from the store, seeding it on first start. Every other method waits for this.
+   */
+  ready(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.load().catch(error => {
+        this.loading = null;
+        throw error;
+      });
+    }
+    return this.loading;
+  }
+
+  async stat(path: string): Promise<WorkspaceEntry | null> {
+    await this.ready();
+    const entry = this.entries.get(resolveWorkspacePath(path));
+    return entry ? copyEntry(entry) : null;
+  }
+
+  async exists(path: string): Promise<boolean> {
+    await this.ready();
+    return this.entries.has(resolveWorkspacePath(path));
+  }
+
+  async readFile(path: string): Promise<string> {
+    await this.ready();
+    const entry = this.getExisting(resolveWorkspacePath(path));
+    if (entry.type === 'directory') {
+      throw new WorkspaceFsError(`Is a directory: ${entry.path}`, 'EISDIR', entry.path);
+    }
+    return entry.content ?? '';
+  }
+
+  /**
+   * Create or replace a file, creating missing parent directories. `metadata` is merged into the existing metadata.
+   */
+  async writeFile(path: string, content: string, metadata: WorkspaceMetadata = {}): Promise<WorkspaceEntry> {
+    await this.ready();
+    const [entry] = await this.writeFiles([{ path: resolveWorkspacePath(path), content, metadata }]);
+    return copyEntry(entry);
+  }
+
+  async setMetadata(path: string, metadata: WorkspaceMetadata): Promise<WorkspaceEntry> {
+    await this.ready();
+    const existing = this.getExisting(resolveWorkspacePath(path));
+    const updated = { ...existing, metadata: { ...existing.metadata, ...metadata } };
+    await this.commit([updated], []);
+    return copyEntry(updated);
+  }
+
+  /**
+   * Create a directory and any missing parents. Existing directories are left alone.
+   */
+  async mkdir(path: string): Promise<void> {
+    await this.ready();
+    const absolute = resolveWorkspacePath(path);
+    const now = new Date().toISOString();
+    await this.commit(this.missingDirectories(absolute, now), []);
+  }
+
+  /**
+   * Direct children of a directory, sorted by name
+   */
+  async readdir(path: string): Promise<WorkspaceEntry[]> {
+    await this.ready();
+    const dir = this.getExisting(resolveWorkspacePath(path));
+    if (dir.type !== 'directory') {
+      throw new WorkspaceFsError(`Not a directory: ${dir.path}`, 'ENOTDIR', dir.path);
+    }
+    return [...this.entries.values()]
+      .filter(entry => entry.path !== '/' && parentOf(entry.path) === dir.path)
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map(copyEntry);
+  }
+
+  /**
+   * Every file below a directory, sorted by path. A missing directory has no files.
+   */
+  async listFiles(path: string = '/'): Promise<WorkspaceEntry[]> {
+    await this.ready();
+    const dir = resolveWorkspacePath(path);
+    return [...this.entries.values()]
+      .filter(entry => entry.type === 'file' && isWithin(entry.path, dir))
+      .sort((a, b) => a.path.localeCompare(b.path))
+      .map(copyEntry);
+  }
+
+  /**
+   * Remove a file, or a directory and everything in it when `recursive` is set
+   */
+  async remove(path: string, options: { recursive?: boolean } = {}): Promise<void> {
+    await this.ready();
+    const absolute = resolveWorkspacePath(path);
+    if (absolute === '/') {
+      throw new WorkspaceFsError('Cannot remove the root directory', 'EINVAL', absolute);
+    }
+    const entry = this.getExisting(absolute);
+    const removed = [...this.entries.keys()].filter(candidate => isWithin(candidate, absolute));
+    if (entry.type === 'directory' && removed.length > 1 && !options.recursive) {
+      throw new WorkspaceFsError(`Directory not empty: ${absolute}`, 'ENOTEMPTY', absolute);
+    }
+    await this.commit([], removed);
+  }
+
+  /**
+   * Move a file or directory to a path that does not exist yet, keeping timestamps and metadata
+   */
+  async move(from: string, to: string): Promise<void> {
+    await this.ready();
+    const source = resolveWorkspacePath(from);
+    const target = resolveWorkspacePath(to);
+    this.getExisting(source);
+    if (source === '/' || isWithin(target, source)) {
+      throw new WorkspaceFsError(`Cannot move ${source} into itself`, 'EINVAL', target);
+    }
+    if (this.entries.has(target)) {
+      throw new WorkspaceFsError(`File exists: ${target}`, 'EEXIST', target);
+    }
+    const parent = this.getExisting(parentOf(target));
+    if (parent.type !== 'directory') {
+      throw new WorkspaceFsError(`Not a directory: ${parent.path}`, 'ENOTDIR', parent.path);
+    }
+
+    const moved = [...this.entries.values()].filter(entry => isWithin(entry.path, source));
+    await this.commit(
+      moved.map(entry => ({ ...copyEntry(entry), path: target + entry.path.substring(source.length) })),
+      moved.map(entry => entry.path)
+    );
+  }
+
+  async usage(): Promise<WorkspaceUsage> {
+    await this.ready();
+    return this.currentUsage();
+  }
+
+  private currentUsage(): WorkspaceUsage {
+    let usedBytes = 0;
+    let fileCount = 0;
+    this.entries.forEach(entry => {
+      if (entry.type === 'file') {
+        usedBytes += entry.size;
+        fileCount++;
+      }
+    });
+    return { usedBytes, quotaBytes: this.quotaBytes, fileCount, directoryCount: this.entries.size - fileCount };
+  }
+
+  /**
+   * Zip every file below a directory, with paths relative to it
+   */
+  async exportZip(path: string = '/'): Promise<Uint8Array> {
+    const dir = resolveWorkspacePath(path);
+    const files = await this.listFiles(dir);
+    const zip = new JSZip();
+    files.forEach(file => {
+      zip.file(dir === '/' ? file.path.substring(1) : file.path.substring(dir.length + 1), file.content ?? '', {
+        date: new Date(file.modifiedAt),
+      });
+    });
+    return zip.generateAsync({ type: 'uint8array' });
+  }
+
+  /**
+   * Unpack a zip into a directory, replacing files that already exist. Entries that would land outside
+   * the directory are skipped. Returns the absolute paths written.
+   */
+  async importZip(
+    data: ArrayBuffer | Uint8Array | Blob,
+    path: string,
+    metadata: WorkspaceMetadata = {}
+  ): Promise<string[]> {
+    await this.ready();
+    const dir = resolveWorkspacePath(path);
+    const zip = await JSZip.loadAsync(data);
+
+    const files: { path: string; content: string; metadata: WorkspaceMetadata }[] = [];
+    for (const zipEntry of Object.values(zip.files)) {
+      if (zipEntry.dir) continue;
+      const target = resolveWorkspacePath(zipEntry.name, dir);
+      if (target === dir || !isWithin(target, dir)) continue;
+      files.push({ path: target, content: await zipEntry.async('string'), metadata });
+    }
+
+    const written = await this.writeFiles(files);
+    return written.map(entry => entry.path);
+  }
+
+  /**
+   * Subscribe to changes. Returns the unsubscribe function.
+   */
+  subscribe(listener: WorkspaceChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wipe everything and write the seed again
+   */
+  async reset(): Promise<void> {
+    await this.ready();
+    const removed = [...this.entries.keys()];
+    this.entries.clear();
+    await this.enqueue(() => this.store.clear());
+    const seeded = this.seedEntries();
+    await this.commit(seeded, []);
+    this.notify(removed);
+  }
+
+  private async load(): Promise<void> {
+    const stored = await this.store.loadEntries();
+    this.entries = new Map(stored.map(entry => [entry.path, entry]));
+    if (this.entries.size === 0) {
+      const seeded = this.seedEntries();
+      seeded.forEach(entry => this.entries.set(entry.path, entry));
+      await this.enqueue(() => this.store.saveEntries(seeded, []));
+    }
+  }
+
+  private seedEntries(): WorkspaceEntry[] {
+    const now = new Date().toISOString();
+    const created = new Map<string, WorkspaceEntry>([['/', this.directoryEntry('/', now)]]);
+    Object.entries(this.seed).forEach(([path, content]) => {
+      const absolute = resolveWorkspacePath(path);
+      for (let dir = parentOf(absolute); !created.has(dir); dir = parentOf(dir)) {
+        created.set(dir, this.directoryEntry(dir, now));
+      }
+      created.set(absolute, this.fileEntry(absolute, content, now));
+    });
+    return [...created.values()];
+  }
+
+  private async writeFiles(
+    files: { path: string; content: string; metadata: WorkspaceMetadata }[]
+  ): Promise<WorkspaceEntry[]> {
+    const now = new Date().toISOString();
+    const pending = new Map<string, WorkspaceEntry>();
+    let delta = 0;
+
+    for (const file of files) {
+      const existing = pending.get(file.path) ?? this.entries.get(file.path);
+      if (existing?.type === 'directory') {
+        throw new WorkspaceFsError(`Is a directory: ${file.path}`, 'EISDIR', file.path);
+      }
+      this.missingDirectories(parentOf(file.path), now, pending).forEach(dir => pending.set(dir.path, dir));
+
+      const entry = this.fileEntry(file.path, file.content, now);
+      if (existing) {
+        entry.createdAt = existing.createdAt;
+        entry.metadata = { ...existing.metadata, ...file.metadata };
+      } else {
+        entry.metadata = { ...file.metadata };
+      }
+      delta += entry.size - (existing?.size ?? 0);
+      pending.set(file.path, entry);
+    }
+
+    const { usedBytes } = this.currentUsage();
+    if (delta > 0 && usedBytes + delta > this.quotaBytes) {
+      throw new WorkspaceFsError(
+        `Workspace quota exceeded: writing ${delta} more bytes would pass the ${this.quotaBytes} byte limit`,
+        'EQUOTA',
+        files[0]?.path ?? '/'
+      );
+    }
+
+    await this.commit([...pending.values()], []);
+    return files.map(file => pending.get(file.path)!);
+  }
+
+  /**
+   * Directory entries needed for `path` to exist, from the top down. Throws when a file is in the way.
+   */
+  private missingDirectories(
+    path: string,
+    now: string,
+    pending: Map<string, WorkspaceEntry> = new Map()
+  ): WorkspaceEntry[] {
+    const missing: WorkspaceEntry[] = [];
+    for (let dir = path; ; dir = parentOf(dir)) {
+      const existing = pending.get(dir) ?? this.entries.get(dir);
+      if (existing) {
+        if (existing.type !== 'directory') {
+          throw new WorkspaceFsError(`Not a directory: ${dir}`, 'ENOTDIR', dir);
+        }
+        break;
+      }
+      missing.unshift(this.directoryEntry(dir, now));
+      if (dir === '/') break;
+    }
+    return missing;
+  }
+
+  private getExisting(path: string): WorkspaceEntry {
+    const entry = this.entries.get(path);
+    if (!entry) {
+      throw new WorkspaceFsError(`No such file or directory: ${path}`, 'ENOENT', path);
+    }
+    return entry;
+  }
+
+  private fileEntry(path: string, content: string, now: string): WorkspaceEntry {
+    return { path, type: 'file', content, size: byteLength(content), createdAt: now, modifiedAt: now, metadata: {} };
+  }
+
+  private directoryEntry(path: string, now: string): WorkspaceEntry {
+    return { path, type: 'directory', size: 0, createdAt: now, modifiedAt: now, metadata: {} };
+  }
+
+  /**
+   * Apply a change in memory, then write it through to the store
+   */
+  private async commit(updated: WorkspaceEntry[], removedPaths: string[]): Promise<void> {
+    if (updated.length === 0 && removedPaths.length === 0) return;
+
+    removedPaths.forEach(path => this.entries.delete(path));
+    updated.forEach(entry => this.entries.set(entry.path, entry));
+    this.notify([...removedPaths, ...updated.map(entry => entry.path)]);
+
+    const saved = updated.map(copyEntry);
+    await this.enqueue(() => this.store.saveEntries(saved, removedPaths));
+  }
+
+  /**
+   * Serialize store writes so they land in the order they were made
+   */
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(write);
+    this.writeQueue = result.catch(error => {
+      console.error('Failed to persist workspace change:', error);
+    });
+    return result;
+  }
+
+  private notify(paths: string[]): void {
+    if (paths.length === 0) return;
+    this.listeners.forEach(listener => {
+      try {
+        listener(paths);
+      } catch (error) {
+        console.error('Workspace change listener failed:', error);
+      }
+    });
+  }
+}
+
+export const workspaceFs = new WorkspaceFileSystem(createWorkspaceStore());
@@ -0,0 +1,642 @@
+/**
+ * Git over the workspace filesystem
+ *
+ * A small git for one directory of the workspace: a staging index, content-addressed blobs, commits with
+ * authors and parents, branches, checkout, three-way merge with conflict reporting, and revert. Repository
+ * data lives in the directory's `.git` folder inside the workspace, so history persists with the files.
+ *
+ * The layout is git-like rather than git-compatible: a commit stores its whole tree as a path -> blob map,
+ * and objects are keyed by SHA-256.
+ */
+
+import { applyPatch, createPatch } from 'diff';
+import { hashContent } from './vectorIndexStore';
+import type { WorkspaceFileSystem } from './workspaceFileSystem';
+
+export interface GitAuthor {
+  name: string;
+  email: string;
+}
+
+export interface GitCommit {
+  hash: string;
+  message: string;
+  author: GitAuthor;
+  /** ISO timestamp */
+  timestamp: string;
+  parents: string[];
+}
+
+export interface GitStatus {
+  /** Null when HEAD is detached */
+  branch: string | null;
+  /** Null before the first commit */
+  head: string | null;
+  staged: string[];
+  unstaged: string[];
+  untracked: string[];
+  conflicted: string[];
+  /** Commit being merged while a merge waits for conflicts to be resolved */
+  merging: string | null;
+}
+
+export type GitChangeKind = 'added' | 'modified' | 'deleted';
+
+export interface GitFileDiff {
+  path: string;
+  change: GitChangeKind;
+  /** Unified diff */
+  diff: string;
+  newContent?: string;
+}
+
+export interface GitMergeResult {
+  status: 'up-to-date' | 'fast-forward' | 'merged' | 'conflicts';
+  /** The merge commit, or the commit fast-forwarded to */
+  commit?: string;
+  conflicts: string[];
+}
+
+export type GitErrorCode =
+  | 'NOT_A_REPOSITORY'
+  | 'UNKNOWN_REF'
+  | 'UNKNOWN_PATH'
+  | 'INVALID_BRANCH_NAME'
+  | 'BRANCH_EXISTS'
+  | 'NO_COMMITS'
+  | 'DIRTY_WORKTREE'
+  | 'NOTHING_TO_COMMIT'
+  | 'MERGE_IN_PROGRESS'
+  | 'UNRESOLVED_CONFLICTS'
+  | 'REVERT_CONFLICT';
+
+export class GitError extends Error {
+  constructor(message: string, public code: GitErrorCode, public paths: string[] = []) {
+    super(message);
+    this.name = 'GitError';
+    Object.setPrototypeOf(this, GitError.prototype);
+  }
+}
+
+/** Path (relative to the repository) -> blob hash */
+type Tree = Record<string, string>;
+
+interface StoredCommit {
+  message: string;
+  author: GitAuthor;
+  timestamp: string;
+  parents: string[];
+  tree: Tree;
+}
+
+interface MergeState {
+  head: string;
+  message: string;
+  conflicts: string[];
+}
+
+const GIT_DIR = '.git';
+// Their hunks must match one unchanged line on each side in our version; adjacent edits conflict, as in git
+const MERGE_CONTEXT_LINES = 1;
+const BRANCH_NAME = /^(?!-)(?!.*\.\.)(?!.*\/\/)[A-Za-z0-9._\/-]+(?<![./])$/;
+
+export const shortHash = (hash: string) => hash.substring(0, 7);
+
+const sameTree = (a: Tree, b: Tree) => {
+  const aKeys = Object.keys(a);
+  return aKeys.length === Object.keys(b).length && aKeys.every(path => a[path] === b[path]);
+};
+
+const changeKind = (from: string | undefined, to: string | undefined): GitChangeKind =>
+  from === undefined ? 'added' : to === undefined ? 'deleted' : 'modified';
+
+export class WorkspaceGit {
+  constructor(private readonly fs: WorkspaceFileSystem, readonly dir: string) {}
+
+  async isRepository(): Promise<boolean> {
+    return this.fs.exists(this.gitPath('HEAD'));
+  }
+
+  /**
+   * Create an empty repository. Does nothing when one exists.
+   */
+  async init(defaultBranch: string = 'main'): Promise<void> {
+    if (await this.isRepository()) return;
+    await this.fs.writeFile(this.gitPath('HEAD'), `ref: refs/heads/${defaultBranch}`);
+    await this.writeIndex({});
+  }
+
+  async status(): Promise<GitStatus> {
+    const { branch, hash } = await this.readHead();
+    const headTree = hash ? (await this.readCommit(hash)).tree : {};
+    const index = await this.readIndex();
+    const working = await this.hashWorkingTree();
+    const merge = await this.readMergeState();
+    const conflicted = merge?.conflicts ?? [];
+
+    const union = (a: Tree, b: Tree) => [...new Set([...Object.keys(a), ...Object.keys(b)])].sort();
+    return {
+      branch,
+      head: hash,
+      staged: union(headTree, index).filter(path => headTree[path] !== index[path]),
+      unstaged: Object.keys(index).sort().filter(path => working[path] !== index[path] && !conflicted.includes(path)),
+      untracked: Object.keys(working).sort().filter(path => !(path in index) && !conflicted.includes(path)),
+      conflicted,
+      merging: merge?.head ?? null,
+    };
+  }
+
+  /**
+   * Stage the working copy of each path; a deleted file stages its deletion. `.` stages everything.
+   */
+  async add(paths: string[]): Promise<string[]> {
+    await this.assertRepository();
+    const index = await this.readIndex();
+    const working = await this.readWorkingTree();
+    const targets = paths.includes('.')
+      ? [...new Set([...Object.keys(index), ...Object.keys(working)])]
+      : paths.map(path => this.relative(path));
+
+    const staged: string[] = [];
+    for (const path of targets) {
+      if (path in working) {
+        index[path] = await this.writeBlob(working[path]);
+      } else if (path in index) {
+        delete index[path];
+      } else {
+        throw new GitError(`pathspec '${path}' did not match any files`, 'UNKNOWN_PATH', [path]);
+      }
+      staged.push(path);
+    }
+    await this.writeIndex(index);
+
+    const merge = await this.readMergeState();
+    if (merge) {
+      await this.writeMergeState({ ...merge, conflicts: merge.conflicts.filter(path => !staged.includes(path)) });
+    }
+    return staged;
+  }
+
+  async commit(message: string, author: GitAuthor): Promise<GitCommit> {
+    await this.assertRepository();
+    const merge = await this.readMergeState();
+    if (merge && merge.conflicts.length > 0) {
+      throw new GitError('Fix the conflicts and stage them before committing', 'UNRESOLVED_CONFLICTS', merge.conflicts);
+    }
+
+    const { hash: parent } = await this.readHead();
+    const index = await this.readIndex();
+    const parentTree = parent ? (await this.readCommit(parent)).tree : {};
+    if (!merge && sameTree(index, parentTree)) {
+      throw new GitError('nothing to commit, working tree clean', 'NOTHING_TO_COMMIT');
+    }
+
+    const parents = [parent, merge?.head].filter((hash): hash is string => Boolean(hash));
+    const commit = await this.createCommit({
+      message: message.trim() || merge?.message || '',
+      author,
+      timestamp: new Date().toISOString(),
+      parents,
+      tree: index,
+    });
+    if (merge) await this.fs.remove(this.gitPath('MERGE_STATE'));
+    return commit;
+  }
+
+  async currentBranch(): Promise<string | null> {
+    return (await this.readHead()).branch;
+  }
+
+  async listBranches(): Promise<string[]> {
+    await this.assertRepository();
+    const refsDir = this.gitPath('refs/heads');
+    const refs = await this.fs.listFiles(refsDir);
+    return refs.map(ref => ref.path.substring(refsDir.length + 1)).sort();
+  }
+
+  /**
+   * Create a branch at `startRef`, switching to it with `checkout`. Switching to a branch created at HEAD
+   * keeps local changes, like `git checkout -b`.
+   */
+  async createBranch(name: string, options: { startRef?: string; checkout?: boolean } = {}): Promise<string> {
+    await this.assertRepository();
+    if (!BRANCH_NAME.test(name)) {
+      throw new GitError(`'${name}' is not a valid branch name`, 'INVALID_BRANCH_NAME');
+    }
+    if (await this.readRef(name)) {
+      throw new GitError(`A branch named '${name}' already exists`, 'BRANCH_EXISTS');
+    }
+    const hash = await this.resolveRef(options.startRef ?? 'HEAD');
+    await this.fs.writeFile(this.gitPath(`refs/heads/${name}`), hash);
+
+    if (options.checkout) {
+      if (hash === (await this.readHead()).hash) {
+        await this.fs.writeFile(this.gitPath('HEAD'), `ref: refs/heads/${name}`);
+      } else {
+        await this.checkout(name);
+      }
+    }
+    return hash;
+  }
+
+  /**
+   * Switch to a branch, or detach HEAD at a commit. Refuses when local changes would be lost.
+   */
+  async checkout(ref: string): Promise<{ branch: string | null; head: string }> {
+    await this.assertRepository();
+    const branchHash = await this.readRef(ref);
+    const target = branchHash ?? (await this.resolveRef(ref));
+    await this.assertClean('checkout');
+
+    const { hash } = await this.readHead();
+    const fromTree = hash ? (await this.readCommit(hash)).tree : {};
+    const toTree = (await this.readCommit(target)).tree;
+    await this.assertNoUntrackedOverwrite(fromTree, toTree);
+    await this.applyTree(fromTree, toTree);
+
+    const branch = branchHash ? ref : null;
+    await this.fs.writeFile(this.gitPath('HEAD'), branch ? `ref: refs/heads/${branch}` : target);
+    return { branch, head: target };
+  }
+
+  /**
+   * Commits reachable from `ref`, newest first
+   */
+  async log(ref: string = 'HEAD', limit: number = 20): Promise<GitCommit[]> {
+    await this.assertRepository();
+    const { hash } = await this.readHead();
+    if (ref === 'HEAD' && !hash) return [];
+
+    const commits = new Map<string, GitCommit>();
+    const queue = [await this.resolveRef(ref)];
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (commits.has(next)) continue;
+      const { tree: _tree, ...commit } = await this.readCommit(next);
+      commits.set(next, { hash: next, ...commit });
+      queue.push(...commit.parents);
+    }
+    return [...commits.values()].sort((a, b) => b.timestamp.localeCompare(a.timestamp)).slice(0, limit);
+  }
+
+  /**
+   * Unstaged changes by default; staged changes with `cached`; the changes a commit made with `commit`
+   */
+  async diff(options: { commit?: string; cached?: boolean; paths?: string[] } = {}): Promise<GitFileDiff[]> {
+    await this.assertRepository();
+    let from: Record<string, string | undefined>;
+    let to: Record<string, string | undefined>;
+
+    if (options.commit) {
+      const commit = await this.readCommit(await this.resolveRef(options.commit));
+      from = await this.readTree(commit.parents[0] ? (await this.readCommit(commit.parents[0])).tree : {});
+      to = await this.readTree(commit.tree);
+    } else if (options.cached) {
+      const { hash } = await this.readHead();
+      from = await this.readTree(hash ? (await this.readCommit(hash)).tree : {});
+      to = await this.readTree(await this.readIndex());
+    } else {
+      const index = await this.readIndex();
+      const working = await this.readWorkingTree();
+      from = await this.readTree(index);
+      to = Object.fromEntries(Object.keys(index).map(path => [path, working[path]]));
+    }
+
+    const filter = options.paths?.map(path => this.relative(path));
+    return [...new Set([...Object.keys(from), ...Object.keys(to)])]
+      .sort()
+      .filter(path => from[path] !== to[path] && (!filter || filter.includes(path)))
+      .map(path => ({
+        path,
+        change: changeKind(from[path], to[path]),
+        diff: createPatch(path, from[path] ?? '', to[path] ?? '', '', ''),
+        ...(to[path] !== undefined ? { newContent: to[path] } : {}),
+      }));
+  }
+
+  /**
+   * Merge `ref` into the current branch. Files changed on both sides are merged line by line; when the
+   * changes overlap the file gets conflict markers, the merge stops, and `commit` finishes it once the
+   * conflicts are fixed and staged.
+   */
+  async merge(ref: string, author: GitAuthor): Promise<GitMergeResult> {
+    await this.assertRepository();
+    if (await this.readMergeState()) {
+      throw new GitError('A merge is already in progress', 'MERGE_IN_PROGRESS');
+    }
+    const theirs = await this.resolveRef(ref);
+    await this.assertClean('merge');
+
+    const { branch, hash: ours } = await this.readHead();
+    if (ours === theirs || (ours && (await this.ancestors(ours)).has(theirs))) {
+      return { status: 'up-to-date', conflicts: [] };
+    }
+
+    const theirTree = (await this.readCommit(theirs)).tree;
+    if (!ours || (await this.ancestors(theirs)).has(ours)) {
+      const ourTree = ours ? (await this.readCommit(ours)).tree : {};
+      await this.assertNoUntrackedOverwrite(ourTree, theirTree);
+      await this.applyTree(ourTree, theirTree);
+      await this.moveHead(branch, theirs);
+      return { status: 'fast-forward', commit: theirs, conflicts: [] };
+    }
+
+    const base = await this.mergeBase(ours, theirs);
+    const baseTree = base ? (await this.readCommit(base)).tree : {};
+    const ourTree = (await this.readCommit(ours)).tree;
+    await this.assertNoUntrackedOverwrite(ourTree, theirTree);
+
+    const merged: Tree = {};
+    const conflictContent: Record<string, string> = {};
+    const paths = new Set([...Object.keys(baseTree), ...Object.keys(ourTree), ...Object.keys(theirTree)]);
+    for (const path of paths) {
+      const [b, o, t] = [baseTree[path], ourTree[path], theirTree[path]];
+      if (o === t || b === t) {
+        if (o) merged[path] = o;
+      } else if (b === o) {
+        if (t) merged[path] = t;
+      } else {
+        const [baseText, ourText, theirText] = await Promise.all([b, o, t].map(hash => (hash ? this.readBlob(hash) : '')));
+        const patched = o && t && b ? applyPatch(ourText, createPatch(path, baseText, theirText, '', '', { context: MERGE_CONTEXT_LINES })) : false;
+        if (patched !== false) {
+          merged[path] = await this.writeBlob(patched);
+        } else {
+          // The index keeps our side until the user stages a resolution
+          if (o) merged[path] = o;
+          conflictContent[path] = `<<<<<<< HEAD\n${ourText}\n=======\n${theirText}\n>>>>>>> ${ref}\n`;
+        }
+      }
+    }
+
+    await this.applyTree(ourTree, merged);
+    const message = `Merge ${branch ? `branch '${ref}' into ${branch}` : `'${ref}'`}`;
+    const conflicts = Object.keys(conflictContent).sort();
+    if (conflicts.length > 0) {
+      for (const path of conflicts) {
+        await this.fs.writeFile(this.workingPath(path), conflictContent[path]);
+      }
+      await this.writeMergeState({ head: theirs, message, conflicts });
+      return { status: 'conflicts', conflicts };
+    }
+
+    const commit = await this.createCommit({
+      message,
+      author,
+      timestamp: new Date().toISOString(),
+      parents: [ours, theirs],
+      tree: merged,
+    });
+    return { status: 'merged', commit: commit.hash, conflicts: [] };
+  }
+
+  /**
+   * Commit the inverse of `ref` on top of HEAD. Refuses when later commits changed the same files.
+   */
+  async revert(ref: string, author: GitAuthor): Promise<GitCommit> {
+    await this.assertRepository();
+    const target = await this.resolveRef(ref);
+    await this.assertClean('revert');
+
+    const reverted = await this.readCommit(target);
+    const parentTree = reverted.parents[0] ? (await this.readCommit(reverted.parents[0])).tree : {};
+    const { hash } = await this.readHead();
+    const headTree = (await this.readCommit(hash!)).tree;
+
+    const changed = [...new Set([...Object.keys(parentTree), ...Object.keys(reverted.tree)])].filter(
+      path => parentTree[path] !== reverted.tree[path]
+    );
+    const conflicts = changed.filter(path => headTree[path] !== reverted.tree[path]);
+    if (conflicts.length > 0) {
+      throw new GitError(
+        `Cannot revert ${shortHash(target)}: later commits changed ${conflicts.join(', ')}`,
+        'REVERT_CONFLICT',
+        conflicts
+      );
+    }
+
+    const tree = { ...headTree };
+    changed.forEach(path => {
+      if (parentTree[path]) tree[path] = parentTree[path];
+      else delete tree[path];
+    });
+    await this.applyTree(headTree, tree);
+
+    const subject = reverted.message.split('\n')[0];
+    return this.createCommit({
+      message: `Revert "${subject}"\n\nThis reverts commit ${target}.`,
+      author,
+      timestamp: new Date().toISOString(),
+      parents: [hash!],
+      tree,
+    });
+  }
+
+  /**
+   * Commit hash for `HEAD`, a branch name, or a full or abbreviated (4+ characters) commit hash
+   */
+  async resolveRef(ref: string): Promise<string> {
+    if (ref === 'HEAD') {
+      const { hash } = await this.readHead();
+      if (!hash) throw new GitError('The current branch has no commits yet', 'NO_COMMITS');
+      return hash;
+    }
+    const branchHash = await this.readRef(ref);
+    if (branchHash) return branchHash;
+
+    if (/^[0-9a-f]{4,}$/.test(ref)) {
+      const commitsDir = this.gitPath('commits');
+      const matches = (await this.fs.listFiles(commitsDir))
+        .map(file => file.path.substring(commitsDir.length + 1))
+        .filter(hash => hash.startsWith(ref));
+      if (matches.length === 1) return matches[0];
+    }
+    throw new GitError(`Unknown revision '${ref}'`, 'UNKNOWN_REF');
+  }
+
+  private gitPath(path: string): string {
+    return `${this.dir}/${GIT_DIR}/${path}`;
+  }
+
+  private workingPath(path: string): string {
+    return `${this.dir}/${path}`;
+  }
+
+  /**
+   * Repository-relative form of a path given relative to the repository or as an absolute workspace path
+   */
+  private relative(path: string): string {
+    const trimmed = path.replace(/^\.\//, '');
+    return trimmed.startsWith(`${this.dir}/`) ? trimmed.substring(this.dir.length + 1) : trimmed;
+  }
+
+  private async assertRepository(): Promise<void> {
+    if (!(await this.isRepository())) {
+      throw new GitError(`Not a git repository: ${this.dir}`, 'NOT_A_REPOSITORY');
+    }
+  }
+
+  private async assertClean(operation: string): Promise<void> {
+    const status = await this.status();
+    const dirty = [...status.staged, ...status.unstaged, ...status.conflicted];
+    if (dirty.length > 0) {
+      throw new GitError(
+        `Your local changes would be overwritten by ${operation}. Commit them first: ${dirty.join(', ')}`,
+        'DIRTY_WORKTREE',
+        dirty
+      );
+    }
+  }
+
+  private async assertNoUntrackedOverwrite(fromTree: Tree, toTree: Tree): Promise<void> {
+    const working = await this.hashWorkingTree();
+    const clobbered = Object.keys(toTree).filter(
+      path => !(path in fromTree) && path in working && working[path] !== toTree[path]
+    );
+    if (clobbered.length > 0) {
+      throw new GitError(
+        `Untracked working tree files would be overwritten: ${clobbered.join(', ')}`,
+        'DIRTY_WORKTREE',
+        clobbered
+      );
+    }
+  }
+
+  private async readHead(): Promise<{ branch: string | null; hash: string | null }> {
+    await this.assertRepository();
+    const head = (await this.fs.readFile(this.gitPath('HEAD'))).trim();
+    if (head.startsWith('ref: refs/heads/')) {
+      const branch = head.substring('ref: refs/heads/'.length);
+      return { branch, hash: await this.readRef(branch) };
+    }
+    return { branch: null, hash: head };
+  }
+
+  private async readRef(branch: string): Promise<string | null> {
+    if (!BRANCH_NAME.test(branch)) return null;
+    const ref = await this.fs.stat(this.gitPath(`refs/heads/${branch}`));
+    return ref?.type === 'file' ? (ref.content ?? '').trim() : null;
+  }
+
+  private async moveHead(branch: string | null, hash: string): Promise<void> {
+    await this.fs.writeFile(branch ? this.gitPath(`refs/heads/${branch}`) : this.gitPath('HEAD'), hash);
+  }
+
+  private async readIndex(): Promise<Tree> {
+    return JSON.parse(await this.fs.readFile(this.gitPath('index')));
+  }
+
+  private async writeIndex(index: Tree): Promise<void> {
+    await this.fs.writeFile(this.gitPath('index'), JSON.stringify(index));
+  }
+
+  private async readMergeState(): Promise<MergeState | null> {
+    const state = await this.fs.stat(this.gitPath('MERGE_STATE'));
+    return state ? JSON.parse(state.content ?? '') : null;
+  }
+
+  private async writeMergeState(state: MergeState): Promise<void> {
+    await this.fs.writeFile(this.gitPath('MERGE_STATE'), JSON.stringify(state));
+  }
+
+  private async writeBlob(content: string): Promise<string> {
+    const hash = await hashContent(content);
+    const path = this.gitPath(`objects/${hash}`);
+    if (!(await this.fs.exists(path))) {
+      await this.fs.writeFile(path, content);
+    }
+    return hash;
+  }
+
+  private async readBlob(hash: string): Promise<string> {
+    return this.fs.readFile(this.gitPath(`objects/${hash}`));
+  }
+
+  private async readCommit(hash: string): Promise<StoredCommit> {
+    return JSON.parse(await this.fs.readFile(this.gitPath(`commits/${hash}`)));
+  }
+
+  /**
+   * Store a commit, point HEAD's branch (or detached HEAD) at it and make it the index
+   */
+  private async createCommit(stored: StoredCommit): Promise<GitCommit> {
+    const serialized = JSON.stringify(stored);
+    const hash = await hashContent(serialized);
+    await this.fs.writeFile(this.gitPath(`commits/${hash}`), serialized);
+    await this.writeIndex(stored.tree);
+    await this.moveHead((await this.readHead()).branch, hash);
+
+    const { tree: _tree, ...commit } = stored;
+    return { hash, ...commit };
+  }
+
+  /**
+   * Working files (everything outside `.git`) keyed by repository-relative path
+   */
+  private async readWorkingTree(): Promise<Record<string, string>> {
+    const files = await this.fs.listFiles(this.dir);
+    const gitDir = `${this.dir}/${GIT_DIR}/`;
+    return Object.fromEntries(
+      files
+        .filter(file => !file.path.startsWith(gitDir))
+        .map(file => [file.path.substring(this.dir.length + 1), file.content ?? ''])
+    );
+  }
+
+  private async hashWorkingTree(): Promise<Tree> {
+    const working = await this.readWorkingTree();
+    const hashes = await Promise.all(Object.values(working).map(content => hashContent(content)));
+    return Object.fromEntries(Object.keys(working).map((path, i) => [path, hashes[i]]));
+  }
+
+  private async readTree(tree: Tree): Promise<Record<string, string>> {
+    const paths = Object.keys(tree);
+    const contents = await Promise.all(paths.map(path => this.readBlob(tree[path])));
+    return Object.fromEntries(paths.map((path, i) => [path, contents[i]]));
+  }
+
+  /**
+   * Move the working tree and index from `fromTree` to `toTree`, leaving untracked files alone
+   */
+  private async applyTree(fromTree: Tree, toTree: Tree): Promise<void> {
+    for (const path of Object.keys(fromTree)) {
+      if (!(path in toTree) && (await this.fs.exists(this.workingPath(path)))) {
+        await this.fs.remove(this.workingPath(path));
+      }
+    }
+    for (const [path, hash] of Object.entries(toTree)) {
+      if (fromTree[path] !== hash || !(await this.fs.exists(this.workingPath(path)))) {
+        await this.fs.writeFile(this.workingPath(path), await this.readBlob(hash));
+      }
+    }
+    await this.writeIndex(toTree);
+  }
+
+  private async ancestors(hash: string): Promise<Set<string>> {
+    const seen = new Set<string>();
+    const queue = [hash];
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push(...(await this.readCommit(next)).parents);
+    }
+    return seen;
+  }
+
+  /**
+   * Nearest commit that both sides descend from
+   */
+  private async mergeBase(ours: string, theirs: string): Promise<string | null> {
+    const ourAncestors = await this.ancestors(ours);
+    const seen = new Set<string>();
+    const queue = [theirs];
+    while (queue.length > 0) {
+      const next = queue.shift()!;
+      if (ourAncestors.has(next)) return next;
+      if (seen.has(next)) continue;
+      seen.add(next);
+      queue.push(...(await this.readCommit(next)).parents);
+    }
+    return null;
+  }
+}
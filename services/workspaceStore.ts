@@ -0,0 +1,122 @@
+/**
+ * Persistence for the workspace filesystem
+ *
+ * Every file and directory is one record keyed by its absolute path, so a change touches only the
+ * records it changes. Environments without IndexedDB (tests, SSR, private browsing) get an in-memory
+ * store with the same API.
+ */
+
+export type WorkspaceEntryType = 'file' | 'directory';
+
+export type WorkspaceMetadata = Record<string, string | number | boolean>;
+
+export interface WorkspaceEntry {
+  /** Absolute, normalized path, e.g. "/home/user/mailbox/skill/SKILL.md" */
+  path: string;
+  type: WorkspaceEntryType;
+  /** Files only */
+  content?: string;
+  /** UTF-8 bytes of the content; 0 for directories */
+  size: number;
+  /** ISO timestamps */
+  createdAt: string;
+  modifiedAt: string;
+  metadata: WorkspaceMetadata;
+}
+
+export interface WorkspaceStore {
+  loadEntries(): Promise<WorkspaceEntry[]>;
+  /** Writes `entries` and deletes `deletedPaths` in one transaction */
+  saveEntries(entries: WorkspaceEntry[], deletedPaths: string[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'aether-workspace';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export class IndexedDBWorkspaceStore implements WorkspaceStore {
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(private readonly dbName: string = DB_NAME) {}
+
+  async loadEntries(): Promise<WorkspaceEntry[]> {
+    const db = await this.open();
+    return promisify(db.transaction(ENTRIES_STORE).objectStore(ENTRIES_STORE).getAll());
+  }
+
+  async saveEntries(entries: WorkspaceEntry[], deletedPaths: string[]): Promise<void> {
+    if (entries.length === 0 && deletedPaths.length === 0) return;
+
+    const db = await this.open();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    const store = transaction.objectStore(ENTRIES_STORE);
+    deletedPaths.forEach(path => store.delete(path));
+    entries.forEach(entry => store.put(entry));
+    await transactionDone(transaction);
+  }
+
+  async clear(): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(ENTRIES_STORE, 'readwrite');
+    transaction.objectStore(ENTRIES_STORE).clear();
+    await transactionDone(transaction);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      const request = indexedDB.open(this.dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          db.createObjectStore(ENTRIES_STORE, { keyPath: 'path' });
+        }
+      };
+      this.db = promisify(request).catch(error => {
+        // Allow a later call to retry, e.g. after the user closes another tab blocking an upgrade
+        this.db = null;
+        throw error;
+      });
+    }
+    return this.db;
+  }
+}
+
+export class MemoryWorkspaceStore implements WorkspaceStore {
+  private entries = new Map<string, WorkspaceEntry>();
+
+  async loadEntries(): Promise<WorkspaceEntry[]> {
+    return [...this.entries.values()].map(entry => ({ ...entry, metadata: { ...entry.metadata } }));
+  }
+
+  async saveEntries(entries: WorkspaceEntry[], deletedPaths: string[]): Promise<void> {
+    deletedPaths.forEach(path => this.entries.delete(path));
+    entries.forEach(entry => this.entries.set(entry.path, { ...entry, metadata: { ...entry.metadata } }));
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+/**
+ * IndexedDB when the environment has it, memory otherwise
+ */
+export function createWorkspaceStore(): WorkspaceStore {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBWorkspaceStore() : new MemoryWorkspaceStore();
+}
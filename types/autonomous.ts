@@ -151,6 +151,9 @@ export interface CodeContext {
   relevance: number;
   dependencies: string[];
   exports: string[];
+  /** 1-based line range of `content` within the file, when it is an excerpt of an indexed file */
+  start_line?: number;
+  end_line?: number;
 }
 
 export interface GeneratedTest {
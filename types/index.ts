@@ -92,12 +92,12 @@ export interface Documentation {
 }
 
 export interface MailboxFile {
-    id: string;
-    path: string;
+    id: string; // Absolute workspace path
+    path: string; // Relative to the mailbox directory
     content: string;
     timestamp: string;
     isRead: boolean;
-    versionId: string;
+    versionId?: string; // Absent for files imported from a zip or written in the terminal
 }
 
 // --- From features/mia/miaTypes.ts ---
@@ -140,8 +140,8 @@ export interface MiaAlert {
 export type AgentName = 'Architect' | 'Refactor' | 'Security' | 'QA' | 'UX' | 'DevOps' | 'Backend' | 'CodeAuditor' | 'CodeDeveloper' | 'Planner' | 'Manager';
 export type AgentStatus = 'Idle' | 'Auditing' | 'Designing' | 'Reviewing' | 'Refining' | 'Executing' | 'Validating' | 'Done';
 
-// Tool names for RBAC enforcement
-export type ToolName = 'read_file' | 'write_file' | 'git.commit_changes' | 'execute_code' | 'search_codebase';
+// Tool names for RBAC enforcement; MCP server tools are registered as `mcp.<server>.<tool>`
+export type ToolName = 'read_file' | 'write_file' | 'git.commit_changes' | 'execute_code' | 'search_codebase' | `mcp.${string}`;
 
 export interface FoundryAgent {
     // Original fields (backward compatibility)
@@ -196,33 +196,237 @@ export interface LogEntry {
 }
 
 // --- New types for Tool for AI V3 ---
+// Jobs run on the backend job queue (/api/jobs)
+export type JobType = 'plan' | 'shunt_batch' | 'foundry_run' | 'rag_index_build';
+
+export type JobPriority = 'high' | 'normal' | 'low';
+
 export interface JobLog {
+    /** ISO timestamp */
     timestamp: string;
+    level: 'info' | 'warn' | 'error';
     message: string;
+    data?: Record<string, unknown>;
+}
+
+export type JobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * What each job type takes as input
+ */
+export interface JobInputs {
+    plan: { prompt: string; modelName?: string };
+    shunt_batch: {
+        action: ShuntAction;
+        items: Array<{ id?: string; text: string }>;
+        modelName?: string;
+        context?: string;
+        priority?: string;
+    };
+    foundry_run: {
+        goal: string;
+        files?: Array<{ path: string; content: string }>;
+        agents?: string[];
+        modelName?: string;
+    };
+    rag_index_build: {
+        files: Array<{ path: string; content: string }>;
+        chunkLines?: number;
+        embeddingModel?: string;
+    };
 }
 
-export type JobStatus = 'Pending' | 'Running' | 'Completed' | 'Failed' | 'Cancelled';
+export interface JobListFilter {
+    status?: JobStatus;
+    type?: JobType;
+    /** 1-200, default 50 */
+    limit?: number;
+}
 
 export interface Job {
     id: string;
-    prompt: string;
+    type: JobType;
+    priority: JobPriority;
+    title: string;
     status: JobStatus;
+    /** Fraction done (0 to 1) for job types that report it */
+    progress: number | null;
     logs: JobLog[];
     result: string | null;
-    startTime: number;
-    endTime: number | null;
+    error: string | null;
+    /** Structured output (per-item results, agent audits or a vector index), fetched separately */
+    hasArtifact: boolean;
+    createdAt: string;
+    startedAt: string | null;
+    finishedAt: string | null;
 }
 
 // --- New types for Evolve Workflow ---
-export interface EvolveStep {
+
+/**
+ * Test on the current text that picks a branch. `score` grades the text against the pipeline input with gradeOutput (-10 to 10).
+ */
+export type EvolveCondition =
+  | { kind: 'length'; operator: 'gt' | 'lt'; value: number }
+  | { kind: 'score'; operator: 'gte' | 'lt'; value: number }
+  | { kind: 'contains'; value: string };
+
+/** Runs one shunt action on the current text */
+export interface EvolveActionStep {
   id: string;
+  type?: 'action';
   action: ShuntAction;
+  /** Overrides the pipeline's default model */
+  model?: string;
+  /** Extra attempts after a failure */
+  retries?: number;
+  /** 'skip' passes the text on unchanged when every attempt fails; 'stop' (default) ends the run */
+  onError?: 'stop' | 'skip';
+}
+
+/** Runs `then` or `otherwise` depending on the condition, continuing with that branch's output */
+export interface EvolveBranchStep {
+  id: string;
+  type: 'branch';
+  condition: EvolveCondition;
+  then: EvolveStep[];
+  otherwise: EvolveStep[];
+}
+
+/** Runs several actions on the current text in parallel and merges their outputs */
+export interface EvolveFanOutStep {
+  id: string;
+  type: 'fanout';
+  actions: ShuntAction[];
+  model?: string;
+  /** concatenate: every output under a heading; synthesize: one document written from all outputs; best_score: the output gradeOutput rates highest */
+  merge: 'concatenate' | 'synthesize' | 'best_score';
+  onError?: 'stop' | 'skip';
+}
+
+export type EvolveStep = EvolveActionStep | EvolveBranchStep | EvolveFanOutStep;
+
+export interface EvolvePipeline {
+  id: string;
+  name: string;
+  description?: string;
+  defaultModel: string;
+  steps: EvolveStep[];
+  createdAt: string;
+  updatedAt: string;
 }
 
 export interface EvolveResult {
   stepId: string;
+  kind: 'action' | 'branch' | 'fanout';
+  /** e.g. the action name, "If score >= 5 → then" or "Fan-out: Summarize, Amplify (concatenate)" */
+  label: string;
+  /** Nesting level, 0 for top-level steps */
+  depth: number;
+  output: string;
+  status: 'success' | 'error' | 'skipped';
+  error?: string;
+  model?: string;
+  attempts?: number;
+  /** gradeOutput score computed for the step, if any */
+  score?: number;
+}
+
+export interface EvolveRun {
+  id: string;
+  pipelineId: string;
+  pipelineName: string;
+  input: string;
+  output: string;
+  status: 'success' | 'error' | 'cancelled';
+  results: EvolveResult[];
+  startedAt: string;
+  finishedAt: string;
+}
+// --- Developer canvas ---
+
+/** Supplies fixed text to the nodes it is wired to */
+export interface CanvasInputNodeData {
+  kind: 'input';
+  label: string;
+  value: string;
+}
+
+/** Runs one shunt action on its input */
+export interface CanvasShuntNodeData {
+  kind: 'shunt';
+  label: string;
   action: ShuntAction;
+  model: string;
+}
+
+/** Calls a registered agent tool. `args` is a JSON template; `{{input}}` is replaced by the node's input, escaped for use inside a JSON string */
+export interface CanvasToolNodeData {
+  kind: 'tool';
+  label: string;
+  toolName: string;
+  args: string;
+}
+
+/** Passes its input on through the 'true' or the 'false' handle */
+export interface CanvasConditionNodeData {
+  kind: 'condition';
+  label: string;
+  condition: EvolveCondition;
+}
+
+/** Collects the graph's result */
+export interface CanvasOutputNodeData {
+  kind: 'output';
+  label: string;
+}
+
+export type CanvasNodeData = CanvasInputNodeData | CanvasShuntNodeData | CanvasToolNodeData | CanvasConditionNodeData | CanvasOutputNodeData;
+export type CanvasNodeKind = CanvasNodeData['kind'];
+
+/** The parts of a React Flow node and edge the canvas saves and executes */
+export interface CanvasGraphNode<T extends CanvasNodeData = CanvasNodeData> {
+  id: string;
+  type?: string;
+  position: { x: number; y: number };
+  data: T;
+}
+
+export interface CanvasGraphEdge {
+  id: string;
+  source: string;
+  target: string;
+  /** 'true' or 'false' on edges leaving a condition node */
+  sourceHandle?: string | null;
+}
+
+export interface CanvasSnapshot {
+  nodes: CanvasGraphNode[];
+  edges: CanvasGraphEdge[];
+  viewport: { x: number; y: number; zoom: number };
+}
+
+export interface CanvasNodeResult {
+  nodeId: string;
+  /** skipped: none of the node's inputs produced anything, e.g. behind a condition branch that was not taken */
+  status: 'running' | 'success' | 'error' | 'skipped';
+  input: string;
   output: string;
-  status: 'success' | 'error';
   error?: string;
-}
\ No newline at end of file
+  /** Handle a condition node passed its input through */
+  branch?: 'true' | 'false';
+  /** gradeOutput score of a 'score' condition */
+  score?: number;
+  durationMs?: number;
+}
+
+export interface CanvasRun {
+  id: string;
+  status: 'success' | 'error' | 'cancelled';
+  /** Results by node id */
+  results: Record<string, CanvasNodeResult>;
+  /** What each output node received */
+  outputs: { nodeId: string; label: string; output: string }[];
+  startedAt: string;
+  finishedAt: string;
+}
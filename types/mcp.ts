@@ -28,4 +28,42 @@ declare global {
   interface Window {
     mcpExtension?: MCPExtensionAPI;
   }
-}
\ No newline at end of file
+}
+
+// --- Backend MCP client (external tool servers proxied through /api/mcp) ---
+
+export type MCPTransportKind = 'stdio' | 'http';
+
+export interface MCPServer {
+  id: string;
+  name: string;
+  transport: MCPTransportKind;
+  connected: boolean;
+  serverInfo: { name: string; version: string; title?: string } | null;
+  protocolVersion: string | null;
+  /** Why the backend's last connection attempt failed */
+  lastError: string | null;
+}
+
+export interface MCPToolDefinition {
+  name: string;
+  title?: string;
+  description?: string;
+  /** JSON Schema of the arguments */
+  inputSchema: Record<string, unknown>;
+  annotations?: Record<string, unknown>;
+}
+
+/** Text, image, audio or embedded resource content of a tool result */
+export interface MCPContent {
+  type: string;
+  text?: string;
+  [field: string]: unknown;
+}
+
+export interface MCPToolResult {
+  content: MCPContent[];
+  structuredContent?: Record<string, unknown>;
+  /** The tool ran and failed; the content describes the failure */
+  isError?: boolean;
+}
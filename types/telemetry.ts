@@ -105,11 +105,41 @@ export interface GlobalTelemetryContext {
     tab?: 'Shunt' | 'Weaver' | 'Chat' | 'Orchestrator' | string;
 }
 
+/**
+ * Filters accepted by the backend telemetry store (`GET /api/telemetry/events` and `/summary`).
+ * `from` and `to` are inclusive ISO 8601 bounds; `limit` only applies to event queries.
+ */
+export interface TelemetryEventFilter {
+    sessionID?: string;
+    userID?: string;
+    tab?: string;
+    eventType?: string;
+    outcome?: InteractionOutcome;
+    from?: string;
+    to?: string;
+    limit?: number;
+}
+
+/**
+ * Aggregates computed by the backend telemetry store over a filtered set of events.
+ */
+export interface TelemetrySummary {
+    totalEvents: number;
+    sessions: number;
+    byEventType: Record<string, number>;
+    byOutcome: Record<string, number>;
+    byTab: Record<string, number>;
+    averageLatencyMs: number | null;
+    totalTokens: number;
+    firstEventAt: string | null;
+    lastEventAt: string | null;
+}
+
 /**
  * Defines the type of content being versioned.
  * This helps categorize and display versions appropriately.
  */
-export type VersionContentType = 'development_plan' | 'code_snippet' | 'project_context' | 'documentation' | 'chat_export' | 'shunt_interaction' | 'weaver_memory_update' | 'developer_canvas_snapshot';
+export type VersionContentType = 'development_plan' | 'code_snippet' | 'project_context' | 'documentation' | 'chat_export' | 'shunt_interaction' | 'weaver_memory_update' | 'developer_canvas_snapshot' | 'evolve_pipeline_run';
 
 /**
  * Represents a specific version record in the history.
@@ -27,25 +27,25 @@ export interface AgentSecurityPolicy {
     allowedTools: ToolName[];
 
     /**
-     * Sandbox strictness level for code execution
-     * - 'strict': Full isolation, no file system access
-     * - 'permissive': Limited file system access (read-only)
+     * Sandbox strictness level for tool execution
+     * - 'strict': Full isolation, read-only (no tool that writes files, history or state)
+     * - 'permissive': Writes limited to the agent project directory
      * - 'none': No sandboxing (use with extreme caution)
      */
     sandboxLevel: SandboxLevel;
 
     /**
-     * Maximum execution time (milliseconds) for any tool call
+     * Maximum execution time (milliseconds) for any tool call; the call is cancelled after it
      */
     maxExecutionTime?: number;
 
     /**
-     * Whether this agent can make network requests
+     * Whether this agent can use tools that make network requests
      */
     allowNetworkAccess?: boolean;
 
     /**
-     * Rate limit for API calls (calls per minute)
+     * Rate limit for tool calls (calls per minute, sliding window)
      */
     rateLimitPerMinute?: number;
 }
@@ -101,6 +101,12 @@ export interface AppSecurityPolicyType {
          * Whether to enforce rate limiting globally
          */
         enforceRateLimiting: boolean;
+
+        /**
+         * Limits for tool calls made without an agent role (permission-based callers)
+         */
+        defaultMaxExecutionTime: number;
+        defaultRateLimitPerMinute: number;
     };
 }
 
@@ -213,11 +219,27 @@ export const AppSecurityPolicy: AppSecurityPolicyType = {
         logRBACViolations: true,
         logToolExecutions: true,
         enforceRateLimiting: true,
+        defaultMaxExecutionTime: 60000,
+        defaultRateLimitPerMinute: 60,
     },
 };
 
 // ===== UTILITY FUNCTIONS =====
 
+/**
+ * The policy that applies to a tool call: the agent role's policy, or the global defaults
+ * (permissive sandbox, no network) for callers without one.
+ */
+export const getAgentSecurityPolicy = (agentName?: AgentName): Required<Omit<AgentSecurityPolicy, 'allowedTools'>> => {
+    const rolePolicy = agentName ? AppSecurityPolicy.agentRoles[agentName] : undefined;
+    return {
+        sandboxLevel: rolePolicy?.sandboxLevel ?? 'permissive',
+        maxExecutionTime: rolePolicy?.maxExecutionTime ?? AppSecurityPolicy.global.defaultMaxExecutionTime,
+        allowNetworkAccess: rolePolicy?.allowNetworkAccess ?? false,
+        rateLimitPerMinute: rolePolicy?.rateLimitPerMinute ?? AppSecurityPolicy.global.defaultRateLimitPerMinute,
+    };
+};
+
 /**
  * Basic input sanitizer to prevent Cross-Site Scripting (XSS).
  * It removes script tags and common event handlers.